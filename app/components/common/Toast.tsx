@@ -11,10 +11,16 @@ import { cn } from "~/lib/utils";
 
 export type ToastType = "success" | "error" | "warning" | "info";
 
+export interface ToastAction {
+  label: string;
+  onClick: () => void;
+}
+
 interface ToastProps {
   message: string;
   type?: ToastType;
   duration?: number;
+  action?: ToastAction;
   onClose?: () => void;
 }
 
@@ -25,6 +31,7 @@ export function Toast({
   message,
   type = "info",
   duration = 5000,
+  action,
   onClose,
 }: ToastProps) {
   const [isVisible, setIsVisible] = useState(true);
@@ -69,6 +76,18 @@ export function Toast({
     >
       <Icon className="h-5 w-5" />
       <p className="text-sm font-medium">{message}</p>
+      {action && (
+        <button
+          onClick={() => {
+            action.onClick();
+            setIsVisible(false);
+            setTimeout(() => onClose?.(), 300);
+          }}
+          className="text-sm font-semibold underline underline-offset-2"
+        >
+          {action.label}
+        </button>
+      )}
       <button
         onClick={() => {
           setIsVisible(false);
@@ -91,6 +110,7 @@ interface ToastItem {
   message: string;
   type: ToastType;
   duration?: number;
+  action?: ToastAction;
 }
 
 let toastId = 0;
@@ -100,10 +120,11 @@ const listeners: Array<() => void> = [];
 export function showToast(
   message: string,
   type: ToastType = "info",
-  duration = 5000
+  duration = 5000,
+  action?: ToastAction
 ) {
   const id = `toast-${toastId++}`;
-  toasts.push({ id, message, type, duration });
+  toasts.push({ id, message, type, duration, action });
   listeners.forEach((listener) => listener());
 }
 
@@ -151,6 +172,7 @@ export function ToastProvider() {
           message={toast.message}
           type={toast.type}
           duration={toast.duration}
+          action={toast.action}
           onClose={() => removeToast(toast.id)}
         />
       ))}
@@ -28,6 +28,17 @@ import type {
   EntityApprovalStatus,
   CanApproveResponse,
 } from "~/features/approvals/types/approval.types";
+import type {
+  ApprovalAutoDelegationResponse,
+  ApprovalOutOfOfficeCreate,
+  ApprovalOutOfOfficeResponse,
+  ApprovalOutOfOfficeUpdate,
+} from "~/features/approvals/types/approval-delegation.types";
+import type {
+  ApprovalFlowDraftSave,
+  ApprovalFlowPublishRequest,
+  ApprovalFlowVersionResponse,
+} from "~/features/approvals/types/approval-version.types";
 
 /**
  * List approval requests
@@ -230,6 +241,90 @@ export async function deleteApprovalFlow(
   return response.data;
 }
 
+/**
+ * List versions of a flow, newest first
+ * GET /api/v1/approvals/flows/{flow_id}/versions
+ */
+export async function listFlowVersions(
+  flowId: string
+): Promise<StandardListResponse<ApprovalFlowVersionResponse>> {
+  const response = await apiClient.get<
+    StandardListResponse<ApprovalFlowVersionResponse>
+  >(`/approvals/flows/${flowId}/versions`);
+  return response.data;
+}
+
+/**
+ * Get a flow version
+ * GET /api/v1/approvals/flows/{flow_id}/versions/{version}
+ */
+export async function getFlowVersion(
+  flowId: string,
+  version: number
+): Promise<StandardResponse<ApprovalFlowVersionResponse>> {
+  const response = await apiClient.get<
+    StandardResponse<ApprovalFlowVersionResponse>
+  >(`/approvals/flows/${flowId}/versions/${version}`);
+  return response.data;
+}
+
+/**
+ * Save the draft of a flow (created from the published version if missing)
+ * PUT /api/v1/approvals/flows/{flow_id}/draft
+ */
+export async function saveFlowDraft(
+  flowId: string,
+  data: ApprovalFlowDraftSave
+): Promise<StandardResponse<ApprovalFlowVersionResponse>> {
+  const response = await apiClient.put<
+    StandardResponse<ApprovalFlowVersionResponse>
+  >(`/approvals/flows/${flowId}/draft`, data);
+  return response.data;
+}
+
+/**
+ * Discard the draft of a flow
+ * DELETE /api/v1/approvals/flows/{flow_id}/draft
+ */
+export async function discardFlowDraft(
+  flowId: string
+): Promise<StandardResponse<null>> {
+  const response = await apiClient.delete<StandardResponse<null>>(
+    `/approvals/flows/${flowId}/draft`
+  );
+  return response.data;
+}
+
+/**
+ * Publish the draft of a flow. New requests use it; in-flight requests keep
+ * their version.
+ * POST /api/v1/approvals/flows/{flow_id}/publish
+ */
+export async function publishFlowDraft(
+  flowId: string,
+  data: ApprovalFlowPublishRequest
+): Promise<StandardResponse<ApprovalFlowVersionResponse>> {
+  const response = await apiClient.post<
+    StandardResponse<ApprovalFlowVersionResponse>
+  >(`/approvals/flows/${flowId}/publish`, data);
+  return response.data;
+}
+
+/**
+ * Publish a copy of a previous version as the new current version
+ * POST /api/v1/approvals/flows/{flow_id}/versions/{version}/rollback
+ */
+export async function rollbackFlowVersion(
+  flowId: string,
+  version: number,
+  data: ApprovalFlowPublishRequest
+): Promise<StandardResponse<ApprovalFlowVersionResponse>> {
+  const response = await apiClient.post<
+    StandardResponse<ApprovalFlowVersionResponse>
+  >(`/approvals/flows/${flowId}/versions/${version}/rollback`, data);
+  return response.data;
+}
+
 /**
  * Get or create request by entity
  * POST /api/v1/approvals/requests/by-entity
@@ -288,3 +383,70 @@ export async function checkUserCanApprove(
   );
   return response.data;
 }
+
+/**
+ * List out-of-office rules of the current user
+ * GET /api/v1/approvals/out-of-office
+ */
+export async function listOutOfOfficeRules(): Promise<
+  StandardListResponse<ApprovalOutOfOfficeResponse>
+> {
+  const response = await apiClient.get<
+    StandardListResponse<ApprovalOutOfOfficeResponse>
+  >("/approvals/out-of-office");
+  return response.data;
+}
+
+/**
+ * Create out-of-office rule
+ * Pending requests in the window are delegated when the rule is saved
+ * POST /api/v1/approvals/out-of-office
+ */
+export async function createOutOfOfficeRule(
+  data: ApprovalOutOfOfficeCreate
+): Promise<StandardResponse<ApprovalOutOfOfficeResponse>> {
+  const response = await apiClient.post<
+    StandardResponse<ApprovalOutOfOfficeResponse>
+  >("/approvals/out-of-office", data);
+  return response.data;
+}
+
+/**
+ * Update out-of-office rule
+ * PUT /api/v1/approvals/out-of-office/{rule_id}
+ */
+export async function updateOutOfOfficeRule(
+  ruleId: string,
+  data: ApprovalOutOfOfficeUpdate
+): Promise<StandardResponse<ApprovalOutOfOfficeResponse>> {
+  const response = await apiClient.put<
+    StandardResponse<ApprovalOutOfOfficeResponse>
+  >(`/approvals/out-of-office/${ruleId}`, data);
+  return response.data;
+}
+
+/**
+ * Delete out-of-office rule
+ * DELETE /api/v1/approvals/out-of-office/{rule_id}
+ */
+export async function deleteOutOfOfficeRule(
+  ruleId: string
+): Promise<StandardResponse<null>> {
+  const response = await apiClient.delete<StandardResponse<null>>(
+    `/approvals/out-of-office/${ruleId}`
+  );
+  return response.data;
+}
+
+/**
+ * List requests delegated by an out-of-office rule
+ * GET /api/v1/approvals/out-of-office/{rule_id}/delegations
+ */
+export async function listOutOfOfficeDelegations(
+  ruleId: string
+): Promise<StandardListResponse<ApprovalAutoDelegationResponse>> {
+  const response = await apiClient.get<
+    StandardListResponse<ApprovalAutoDelegationResponse>
+  >(`/approvals/out-of-office/${ruleId}/delegations`);
+  return response.data;
+}
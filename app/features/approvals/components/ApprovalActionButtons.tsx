@@ -3,6 +3,7 @@
  * Action buttons for approval requests
  */
 
+import { useState } from "react";
 import { Button } from "~/components/ui/button";
 import { Badge } from "~/components/ui/badge";
 import {
@@ -12,6 +13,12 @@ import {
   DownloadIcon,
 } from "@hugeicons/core-free-icons";
 import { HugeiconsIcon } from "@hugeicons/react";
+import { useRequestStepFormSchema } from "~/features/approvals/hooks/useApprovals";
+import {
+  ApprovalQuickActionModal,
+  type ApprovalActionDecision,
+} from "~/features/approvals/components/ApprovalQuickActionModal";
+import { parseFormSchema } from "~/features/approvals/utils/approval-form.utils";
 import type {
   ApprovalRequestResponse,
   ApprovalStatus,
@@ -22,11 +29,13 @@ interface ApprovalActionButtonsProps {
   onAction?: (
     requestId: string,
     action: string,
-    decision?: { comment?: string }
+    decision?: ApprovalActionDecision
   ) => void;
   size?: "sm" | "default" | "lg" | "icon";
   variant?: "default" | "outline" | "destructive";
   showActions?: boolean;
+  /** form_schema of the current step; looked up from the flow when omitted */
+  formSchema?: Record<string, unknown> | null;
 }
 
 const getStatusBadge = (status: ApprovalStatus): string => {
@@ -52,16 +61,39 @@ export function ApprovalActionButtons({
   size = "sm",
   variant = "default",
   showActions = true,
+  formSchema,
 }: ApprovalActionButtonsProps) {
   const isPending = request.status === "pending";
+  const [formAction, setFormAction] = useState<"approve" | "reject" | null>(
+    null
+  );
+
+  // Without an explicit formSchema, use the current step's from the flow
+  // version the request runs on; deciding waits until it is known
+  const requestStepForm = useRequestStepFormSchema(
+    request,
+    formSchema === undefined && isPending && showActions
+  );
+  const stepFormSchema =
+    formSchema !== undefined ? formSchema : requestStepForm.formSchema;
+  const hasStepForm = !!parseFormSchema(stepFormSchema);
+  const isLoadingStepForm = requestStepForm.isLoading;
 
   const handleApprove = () => {
+    if (hasStepForm) {
+      setFormAction("approve");
+      return;
+    }
     if (onAction) {
       onAction(request.id, "approve", { comment: "" });
     }
   };
 
   const handleReject = () => {
+    if (hasStepForm) {
+      setFormAction("reject");
+      return;
+    }
     if (onAction) {
       onAction(request.id, "reject", { comment: "" });
     }
@@ -102,6 +134,7 @@ export function ApprovalActionButtons({
           size={size}
           variant={variant}
           onClick={handleApprove}
+          disabled={isLoadingStepForm}
           className="text-green-600 hover:text-green-700"
         >
           <HugeiconsIcon icon={PlugIcon} size={16} className="mr-2" />
@@ -115,6 +148,7 @@ export function ApprovalActionButtons({
           size={size}
           variant={variant}
           onClick={handleReject}
+          disabled={isLoadingStepForm}
           className="text-red-600 hover:text-red-700"
         >
           <HugeiconsIcon icon={UploadIcon} size={16} className="mr-2" />
@@ -137,6 +171,20 @@ export function ApprovalActionButtons({
 
       {/* Status Badge */}
       <Badge className={getStatusBadge(request.status)}>{request.status}</Badge>
+
+      {/* Step form, filled in before approving or rejecting */}
+      {hasStepForm && (
+        <ApprovalQuickActionModal
+          request={request}
+          open={formAction !== null}
+          onOpenChange={(open) => !open && setFormAction(null)}
+          action={formAction ?? "approve"}
+          formSchema={stepFormSchema}
+          onAction={(requestId, action, decision) =>
+            onAction?.(requestId, action, decision)
+          }
+        />
+      )}
     </div>
   );
 }
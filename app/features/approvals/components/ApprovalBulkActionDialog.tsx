@@ -0,0 +1,240 @@
+/**
+ * Approval Bulk Action Dialog
+ * Approves, rejects or delegates several requests with one comment and
+ * reports the result of each of them
+ */
+
+import { useState } from "react";
+import { CheckCircle2, XCircle } from "lucide-react";
+import { Button } from "~/components/ui/button";
+import { Label } from "~/components/ui/label";
+import { Textarea } from "~/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "~/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import { showToast } from "~/components/common/Toast";
+import { useUsers } from "~/features/users/hooks/useUsers";
+import { useAuthStore } from "~/stores/authStore";
+import { useBulkApprovalAction } from "../hooks/useApprovals";
+import { BULK_ACTION_LABELS } from "../utils/approval-inbox.utils";
+import type { ApprovalRequestResponse } from "../types/approval.types";
+import type {
+  BulkApprovalAction,
+  BulkApprovalResult,
+} from "../types/approval-inbox.types";
+
+const ACTION_TITLES: Record<BulkApprovalAction, string> = {
+  approve: "Aprobar solicitudes",
+  reject: "Rechazar solicitudes",
+  delegate: "Delegar solicitudes",
+};
+
+interface ApprovalBulkActionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  action: BulkApprovalAction;
+  requests: ApprovalRequestResponse[];
+  onCompleted?: (result: BulkApprovalResult) => void;
+}
+
+export function ApprovalBulkActionDialog({
+  open,
+  onOpenChange,
+  action,
+  requests,
+  onCompleted,
+}: ApprovalBulkActionDialogProps) {
+  const bulkMutation = useBulkApprovalAction();
+  const { users, loading: usersLoading } = useUsers();
+  const currentUserId = useAuthStore((state) => state.user?.id);
+
+  const [comment, setComment] = useState("");
+  const [delegateTo, setDelegateTo] = useState("");
+  const [result, setResult] = useState<BulkApprovalResult | null>(null);
+
+  const titles = new Map(
+    requests.map((request) => [request.id, request.title])
+  );
+
+  const reset = () => {
+    setComment("");
+    setDelegateTo("");
+    setResult(null);
+  };
+
+  const handleOpenChange = (value: boolean) => {
+    if (!value) reset();
+    onOpenChange(value);
+  };
+
+  const run = (selected: ApprovalRequestResponse[]) => {
+    bulkMutation.mutate(
+      {
+        action,
+        requests: selected,
+        comment: comment.trim() || null,
+        ...(action === "delegate" ? { to_user_id: delegateTo } : {}),
+      },
+      {
+        onSuccess: (bulkResult) => {
+          setResult(bulkResult);
+          onCompleted?.(bulkResult);
+          if (bulkResult.failed === 0) {
+            showToast(
+              `${bulkResult.succeeded} solicitudes procesadas correctamente`,
+              "success"
+            );
+          } else {
+            showToast(
+              `${bulkResult.failed} de ${bulkResult.results.length} solicitudes no se pudieron procesar`,
+              "error"
+            );
+          }
+        },
+        onError: () => {
+          showToast("Error al procesar las solicitudes", "error");
+        },
+      }
+    );
+  };
+
+  const failedIds = new Set(
+    result?.results
+      .filter((item) => !item.success)
+      .map((item) => item.requestId)
+  );
+  const failedRequests = requests.filter((request) =>
+    failedIds.has(request.id)
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[560px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{ACTION_TITLES[action]}</DialogTitle>
+          <DialogDescription>
+            {result
+              ? `${result.succeeded} procesadas, ${result.failed} con errores`
+              : `Se aplicará a ${requests.length} solicitudes con el mismo comentario`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {result ? (
+          <ul
+            className="divide-y rounded-md border text-sm"
+            data-testid="bulk-action-results"
+          >
+            {result.results.map((item) => (
+              <li key={item.requestId} className="flex items-start gap-2 p-3">
+                {item.success ? (
+                  <CheckCircle2 className="w-4 h-4 mt-0.5 shrink-0 text-green-600" />
+                ) : (
+                  <XCircle className="w-4 h-4 mt-0.5 shrink-0 text-red-600" />
+                )}
+                <div className="min-w-0">
+                  <p className="font-medium truncate">
+                    {titles.get(item.requestId) ?? item.requestId}
+                  </p>
+                  {item.error && <p className="text-red-600">{item.error}</p>}
+                </div>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <div className="grid gap-4 py-2">
+            <ul className="max-h-40 overflow-y-auto rounded-md border bg-muted/50 p-2 text-sm">
+              {requests.map((request) => (
+                <li key={request.id} className="truncate py-0.5">
+                  {request.title}
+                </li>
+              ))}
+            </ul>
+
+            {action === "delegate" && (
+              <div className="grid gap-2">
+                <Label htmlFor="bulk-delegate-to">Delegar a *</Label>
+                <Select
+                  value={delegateTo}
+                  onValueChange={setDelegateTo}
+                  disabled={usersLoading}
+                >
+                  <SelectTrigger id="bulk-delegate-to">
+                    <SelectValue placeholder="Selecciona un usuario" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {users
+                      .filter((user) => user.id !== currentUserId)
+                      .map((user) => (
+                        <SelectItem key={user.id} value={user.id}>
+                          {user.full_name || user.email}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div className="grid gap-2">
+              <Label htmlFor="bulk-comment">Comentario (opcional)</Label>
+              <Textarea
+                id="bulk-comment"
+                placeholder="Se enviará con cada decisión..."
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+                rows={3}
+              />
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          {result ? (
+            <>
+              {failedRequests.length > 0 && (
+                <Button
+                  variant="outline"
+                  onClick={() => run(failedRequests)}
+                  disabled={bulkMutation.isPending}
+                >
+                  Reintentar fallidas ({failedRequests.length})
+                </Button>
+              )}
+              <Button onClick={() => handleOpenChange(false)}>Cerrar</Button>
+            </>
+          ) : (
+            <>
+              <Button variant="outline" onClick={() => handleOpenChange(false)}>
+                Cancelar
+              </Button>
+              <Button
+                variant={action === "reject" ? "destructive" : "default"}
+                onClick={() => run(requests)}
+                disabled={
+                  bulkMutation.isPending ||
+                  requests.length === 0 ||
+                  (action === "delegate" && !delegateTo)
+                }
+              >
+                {bulkMutation.isPending
+                  ? "Procesando..."
+                  : `${BULK_ACTION_LABELS[action]} (${requests.length})`}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
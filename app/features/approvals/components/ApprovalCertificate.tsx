@@ -0,0 +1,228 @@
+/**
+ * Approval Certificate Component
+ * Printable record of a finished approval request: request details, flow
+ * diagram and every timeline action with its submitted form data. Used both
+ * for the preview and for the browser's print dialog (see app.css).
+ */
+
+import { format } from "date-fns";
+import { useThemeConfig } from "~/hooks/useThemeConfig";
+import { ApprovalFlowVisualizer } from "./ApprovalFlowVisualizer";
+import {
+  buildCertificateEntries,
+  getCertificateReference,
+  getStepOutcomes,
+  resolveCertificateLayout,
+} from "../utils/approval-print.utils";
+import type {
+  ApprovalFlowResponse,
+  ApprovalRequestResponse,
+  ApprovalTimelineItem,
+} from "../types/approval.types";
+
+const statusLabels: Record<ApprovalRequestResponse["status"], string> = {
+  pending: "Pendiente",
+  approved: "Aprobada",
+  rejected: "Rechazada",
+  delegated: "Delegada",
+  cancelled: "Cancelada",
+};
+
+const formatDateTime = (value?: string | null) =>
+  value ? format(new Date(value), "dd/MM/yyyy HH:mm") : "—";
+
+interface ApprovalCertificateProps {
+  request: ApprovalRequestResponse;
+  flow?: ApprovalFlowResponse;
+  timeline: ApprovalTimelineItem[];
+  /** Names of users by id, to print approvers instead of ids */
+  userNames?: Map<string, string>;
+  /** Date printed as the issue date (now by default) */
+  issuedAt?: Date;
+}
+
+export function ApprovalCertificate({
+  request,
+  flow,
+  timeline,
+  userNames,
+  issuedAt = new Date(),
+}: ApprovalCertificateProps) {
+  // El papel es blanco: siempre el logo del tema claro
+  const { themeLight } = useThemeConfig();
+  const steps = flow?.steps ?? [];
+  const layout = resolveCertificateLayout(steps);
+  const entries = buildCertificateEntries(timeline, steps);
+  const logo = themeLight.logo_primary || themeLight.logo_name;
+  const accent = themeLight.primary_color || "#023E87";
+  const metadata = request.request_metadata ?? request.metadata;
+
+  const userName = (id?: string | null) =>
+    id ? (userNames?.get(id) ?? id) : "—";
+
+  const details: Array<[string, string]> = [
+    ["Solicitud", request.title],
+    ["Flujo", flow?.name ?? request.flow_id],
+    ["Entidad", `${request.entity_type} · ${request.entity_id}`],
+    ["Solicitado por", userName(request.requested_by)],
+    ["Fecha de solicitud", formatDateTime(request.requested_at)],
+    ["Fecha de resolución", formatDateTime(request.completed_at)],
+    ["Estado", statusLabels[request.status] ?? request.status],
+  ];
+
+  return (
+    <article
+      className="approval-certificate-page flex flex-col gap-4 text-xs"
+      data-orientation={layout.orientation}
+    >
+      <header
+        className="flex items-center gap-3 border-b-2 pb-2"
+        style={{ borderColor: accent }}
+      >
+        {layout.show_logo && logo && (
+          <img src={logo} alt="" className="h-10 object-contain" />
+        )}
+        <div>
+          <h2 className="text-lg font-semibold">{layout.title}</h2>
+          <p className="text-black/60">
+            Referencia {getCertificateReference(request)}
+          </p>
+        </div>
+        <span
+          className="ml-auto rounded border-2 px-3 py-1 text-sm font-semibold uppercase"
+          style={{ borderColor: accent, color: accent }}
+        >
+          {statusLabels[request.status] ?? request.status}
+        </span>
+      </header>
+
+      <section>
+        <h3 className="mb-1 text-sm font-semibold">Datos de la solicitud</h3>
+        <dl className="grid grid-cols-[max-content_1fr] gap-x-4 gap-y-1">
+          {details.map(([label, value]) => (
+            <div key={label} className="contents">
+              <dt className="font-medium text-black/70">{label}</dt>
+              <dd>{value}</dd>
+            </div>
+          ))}
+        </dl>
+        {request.description && (
+          <p className="mt-2 whitespace-pre-wrap">{request.description}</p>
+        )}
+      </section>
+
+      {layout.show_metadata && metadata && Object.keys(metadata).length > 0 && (
+        <section>
+          <h3 className="mb-1 text-sm font-semibold">Datos adicionales</h3>
+          <table className="w-full border-collapse">
+            <tbody>
+              {Object.entries(metadata).map(([key, value]) => (
+                <tr key={key} className="border-b border-black/20">
+                  <th className="w-1/3 py-1 pr-2 text-left font-medium">
+                    {key}
+                  </th>
+                  <td className="py-1">
+                    {typeof value === "object"
+                      ? JSON.stringify(value)
+                      : String(value)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+      )}
+
+      {layout.show_flow_diagram && steps.length > 0 && (
+        <section className="break-inside-avoid">
+          <h3 className="mb-1 text-sm font-semibold">Flujo de aprobación</h3>
+          <ApprovalFlowVisualizer
+            steps={steps}
+            readonly
+            snapshot
+            stepOutcomes={getStepOutcomes(timeline)}
+          />
+        </section>
+      )}
+
+      <section>
+        <h3 className="mb-1 text-sm font-semibold">Historial</h3>
+        {entries.length === 0 ? (
+          <p className="text-black/60">No hay acciones registradas</p>
+        ) : (
+          <table className="w-full border-collapse">
+            <thead>
+              <tr className="border-b-2 border-black/40 text-left">
+                <th className="py-1 pr-2">Fecha</th>
+                <th className="py-1 pr-2">Paso</th>
+                <th className="py-1 pr-2">Acción</th>
+                <th className="py-1 pr-2">Usuario</th>
+                <th className="py-1">Detalle</th>
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map((entry) => (
+                <tr
+                  key={entry.id}
+                  className="break-inside-avoid border-b border-black/20 align-top"
+                >
+                  <td className="py-1 pr-2 whitespace-nowrap">
+                    {formatDateTime(entry.actedAt)}
+                  </td>
+                  <td className="py-1 pr-2">
+                    {entry.stepName
+                      ? `${entry.stepOrder}. ${entry.stepName}`
+                      : entry.stepOrder || "—"}
+                  </td>
+                  <td className="py-1 pr-2 font-medium">{entry.actionLabel}</td>
+                  <td className="py-1 pr-2">{userName(entry.actedBy)}</td>
+                  <td className="py-1 space-y-1">
+                    {entry.comment && <p>{entry.comment}</p>}
+                    {entry.rejectionReason && (
+                      <p>Motivo del rechazo: {entry.rejectionReason}</p>
+                    )}
+                    {entry.fields.length > 0 && (
+                      <dl className="grid grid-cols-[max-content_1fr] gap-x-2">
+                        {entry.fields.map((field) => (
+                          <div key={field.key} className="contents">
+                            <dt className="text-black/70">{field.label}</dt>
+                            <dd>
+                              {field.image ? (
+                                <img
+                                  src={field.image}
+                                  alt={field.text}
+                                  className="h-10"
+                                />
+                              ) : (
+                                field.text
+                              )}
+                            </dd>
+                          </div>
+                        ))}
+                      </dl>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+
+      {layout.signature_lines.length > 0 && (
+        <section className="mt-6 grid grid-cols-2 gap-x-8 gap-y-10 break-inside-avoid">
+          {layout.signature_lines.map((label) => (
+            <div key={label} className="border-t border-black pt-1 text-center">
+              {label}
+            </div>
+          ))}
+        </section>
+      )}
+
+      <footer className="mt-auto flex justify-between border-t border-black/40 pt-1 text-[9px] text-black/60">
+        <span>{layout.footer_text}</span>
+        <span>Emitido el {format(issuedAt, "dd/MM/yyyy HH:mm")}</span>
+      </footer>
+    </article>
+  );
+}
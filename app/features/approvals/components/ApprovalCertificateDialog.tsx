@@ -0,0 +1,118 @@
+/**
+ * Approval Certificate Dialog
+ * Preview of the approval certificate of a finished request. Printing (or
+ * saving as PDF) goes through the browser's print dialog, which only shows
+ * the certificate (see the print styles in app.css).
+ */
+
+import { useState } from "react";
+import { createPortal } from "react-dom";
+import { PrinterIcon } from "lucide-react";
+import { Button } from "~/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "~/components/ui/dialog";
+import { ApprovalCertificate } from "./ApprovalCertificate";
+import {
+  useApprovalFlow,
+  useApproverNames,
+  useFlowVersion,
+  useRequestTimeline,
+} from "../hooks/useApprovals";
+import type { ApprovalRequestResponse } from "../types/approval.types";
+
+interface ApprovalCertificateDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  request: ApprovalRequestResponse;
+}
+
+type CertificatePreviewProps = Omit<ApprovalCertificateDialogProps, "open">;
+
+// Contenido aparte para fijar la fecha de emisión en cada apertura
+function CertificatePreview({
+  onOpenChange,
+  request,
+}: CertificatePreviewProps) {
+  const [issuedAt] = useState(() => new Date());
+  const { data: flowResponse, isLoading: flowLoading } = useApprovalFlow(
+    request.flow_id
+  );
+  // Steps of the version the request ran on, not the current one
+  const { data: versionResponse, isLoading: versionLoading } = useFlowVersion(
+    request.flow_id,
+    request.flow_version
+  );
+  const { data: timelineResponse, isLoading: timelineLoading } =
+    useRequestTimeline(request.id);
+  const userNames = useApproverNames();
+
+  const flow = flowResponse?.data;
+  const version = versionResponse?.data;
+  const isLoading = flowLoading || versionLoading || timelineLoading;
+  const certificate = !isLoading && (
+    <ApprovalCertificate
+      request={request}
+      flow={flow && version ? { ...flow, steps: version.steps } : flow}
+      timeline={timelineResponse?.data ?? []}
+      userNames={userNames}
+      issuedAt={issuedAt}
+    />
+  );
+
+  return (
+    <>
+      <div className="approval-certificate-preview h-[60vh] overflow-auto rounded-md bg-muted p-4">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">
+            Cargando certificado...
+          </p>
+        ) : (
+          certificate
+        )}
+      </div>
+
+      <DialogFooter>
+        <Button variant="outline" onClick={() => onOpenChange(false)}>
+          Cerrar
+        </Button>
+        <Button onClick={() => window.print()} disabled={isLoading}>
+          <PrinterIcon className="mr-2 h-4 w-4" />
+          Imprimir / PDF
+        </Button>
+      </DialogFooter>
+
+      {/* Copia del certificado que solo se ve al imprimir */}
+      {certificate &&
+        createPortal(
+          <div className="approval-certificate-root">{certificate}</div>,
+          document.body
+        )}
+    </>
+  );
+}
+
+export function ApprovalCertificateDialog({
+  open,
+  ...props
+}: ApprovalCertificateDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={props.onOpenChange}>
+      <DialogContent className="sm:max-w-[900px]">
+        <DialogHeader>
+          <DialogTitle>Certificado de aprobación</DialogTitle>
+          <DialogDescription>
+            Revisa el certificado y usa Imprimir para obtener una copia en papel
+            o en PDF
+          </DialogDescription>
+        </DialogHeader>
+        {open && <CertificatePreview {...props} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -18,41 +18,92 @@ import ReactFlow, {
 } from "reactflow";
 import "reactflow/dist/style.css";
 import type { ApprovalStepResponse } from "../types/approval.types";
+import type { ApprovalStepOutcome } from "../types/approval-print.types";
 
 interface ApprovalFlowVisualizerProps {
   steps: ApprovalStepResponse[];
   onStepsChange?: (steps: ApprovalStepResponse[]) => void;
   readonly?: boolean;
+  /** Static, non-interactive diagram (for printing) */
+  snapshot?: boolean;
+  /** Outcome of each step by step_order, to colour the nodes */
+  stepOutcomes?: Record<number, ApprovalStepOutcome>;
+}
+
+const outcomeStyles: Record<ApprovalStepOutcome, string> = {
+  approved: "border-green-600 bg-green-50",
+  rejected: "border-red-600 bg-red-50",
+  pending: "border-gray-400 bg-white",
+};
+
+function StepLabel({ step }: { step: ApprovalStepResponse }) {
+  return (
+    <div className="p-2">
+      <div className="font-bold text-sm">Paso {step.step_order}</div>
+      <div className="text-xs">{step.name}</div>
+      <div className="text-xs text-gray-500 mt-1">
+        {step.approver_type === "user"
+          ? "Usuario"
+          : step.approver_type === "role"
+            ? "Rol"
+            : "Dinámico"}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Steps drawn as plain boxes and arrows. React Flow needs to measure its
+ * nodes, which doesn't happen inside hidden print containers.
+ */
+function FlowSnapshot({
+  steps,
+  stepOutcomes = {},
+}: Pick<ApprovalFlowVisualizerProps, "steps" | "stepOutcomes">) {
+  const sortedSteps = [...steps].sort((a, b) => a.step_order - b.step_order);
+  return (
+    <div
+      className="flex flex-wrap items-center gap-2"
+      role="img"
+      aria-label="Diagrama del flujo"
+    >
+      {sortedSteps.map((step, index) => (
+        <div key={step.id} className="flex items-center gap-2">
+          {index > 0 && <span className="text-gray-500">→</span>}
+          <div
+            className={`rounded border-2 text-center ${outcomeStyles[stepOutcomes[step.step_order] ?? "pending"]}`}
+            data-outcome={stepOutcomes[step.step_order] ?? "pending"}
+          >
+            <StepLabel step={step} />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
 }
 
 export function ApprovalFlowVisualizer({
   steps,
   onStepsChange,
   readonly = false,
+  snapshot = false,
+  stepOutcomes,
 }: ApprovalFlowVisualizerProps) {
   const initialNodes: Node[] = useMemo(() => {
-    return steps.map((step, index) => ({
-      id: step.id,
-      type: "default",
-      position: { x: 250 * index, y: 0 },
-      data: {
-        label: (
-          <div className="p-2">
-            <div className="font-bold text-sm">Paso {step.step_order}</div>
-            <div className="text-xs">{step.name}</div>
-            <div className="text-xs text-gray-500 mt-1">
-              {step.approver_type === "user"
-                ? "Usuario"
-                : step.approver_type === "role"
-                  ? "Rol"
-                  : "Dinámico"}
-            </div>
-          </div>
-        ),
-        step,
-      },
-    }));
-  }, [steps]);
+    return steps.map((step, index) => {
+      const outcome = stepOutcomes?.[step.step_order];
+      return {
+        id: step.id,
+        type: "default",
+        position: { x: 250 * index, y: 0 },
+        className: outcome ? `border-2 ${outcomeStyles[outcome]}` : undefined,
+        data: {
+          label: <StepLabel step={step} />,
+          step,
+        },
+      };
+    });
+  }, [steps, stepOutcomes]);
 
   const initialEdges: Edge[] = useMemo(() => {
     const edges: Edge[] = [];
@@ -120,6 +171,10 @@ export function ApprovalFlowVisualizer({
     );
   }
 
+  if (snapshot) {
+    return <FlowSnapshot steps={steps} stepOutcomes={stepOutcomes} />;
+  }
+
   return (
     <div className="h-[600px] w-full border rounded-lg">
       <ReactFlow
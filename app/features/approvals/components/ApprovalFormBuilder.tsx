@@ -0,0 +1,563 @@
+/**
+ * Approval Form Builder Component
+ * Drag-and-drop designer for the form approvers fill in on a step
+ */
+
+import { useState } from "react";
+import {
+  DndContext,
+  KeyboardSensor,
+  PointerSensor,
+  closestCenter,
+  useDraggable,
+  useDroppable,
+  useSensor,
+  useSensors,
+  type DragEndEvent,
+} from "@dnd-kit/core";
+import {
+  SortableContext,
+  sortableKeyboardCoordinates,
+  useSortable,
+  verticalListSortingStrategy,
+} from "@dnd-kit/sortable";
+import { CSS } from "@dnd-kit/utilities";
+import {
+  Calendar,
+  GripVertical,
+  Hash,
+  List,
+  Paperclip,
+  PenLine,
+  Trash2,
+  Type,
+} from "lucide-react";
+import { Button } from "~/components/ui/button";
+import { Checkbox } from "~/components/ui/checkbox";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import { Textarea } from "~/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "~/components/ui/tabs";
+import { cn } from "~/lib/utils";
+import { ApprovalFormRenderer } from "./ApprovalFormRenderer";
+import {
+  FORM_FIELD_TYPES,
+  FORM_FIELD_TYPE_LABELS,
+  addFormField,
+  createEmptyFormSchema,
+  getFormFields,
+  isValidFieldKey,
+  moveFormField,
+  removeFormField,
+  renameFormField,
+  setFormFieldRequired,
+  updateFormField,
+} from "../utils/approval-form.utils";
+import { validateFormData } from "../validations/approval-form.schema";
+import type {
+  ApprovalFormField,
+  ApprovalFormFieldType,
+  ApprovalFormSchema,
+  ApprovalFormValues,
+} from "../types/approval-form.types";
+
+const CANVAS_ID = "form-canvas";
+
+const FIELD_ICONS: Record<ApprovalFormFieldType, typeof Type> = {
+  text: Type,
+  number: Hash,
+  date: Calendar,
+  select: List,
+  file: Paperclip,
+  signature: PenLine,
+};
+
+// "" borra la regla en vez de guardarla como 0
+const parseOptionalNumber = (value: string) =>
+  value.trim() === "" ? undefined : Number(value);
+
+function PaletteItem({
+  widget,
+  onAdd,
+}: {
+  widget: ApprovalFormFieldType;
+  onAdd: () => void;
+}) {
+  const { attributes, listeners, setNodeRef, isDragging } = useDraggable({
+    id: `palette:${widget}`,
+    data: { widget },
+  });
+  const Icon = FIELD_ICONS[widget];
+
+  return (
+    <button
+      ref={setNodeRef}
+      type="button"
+      {...attributes}
+      {...listeners}
+      // Con el teclado, Enter/Espacio añaden el campo en vez de arrastrarlo
+      onKeyDown={undefined}
+      onClick={onAdd}
+      aria-label={`Añadir campo ${FORM_FIELD_TYPE_LABELS[widget]}`}
+      className={cn(
+        "flex w-full items-center gap-2 rounded border bg-white px-3 py-2 text-sm hover:bg-gray-50",
+        isDragging && "opacity-50"
+      )}
+    >
+      <Icon className="w-4 h-4 text-gray-500" />
+      {FORM_FIELD_TYPE_LABELS[widget]}
+    </button>
+  );
+}
+
+function SortableField({
+  fieldKey,
+  field,
+  required,
+  selected,
+  onSelect,
+}: {
+  fieldKey: string;
+  field: ApprovalFormField;
+  required: boolean;
+  selected: boolean;
+  onSelect: () => void;
+}) {
+  const {
+    attributes,
+    listeners,
+    setNodeRef,
+    transform,
+    transition,
+    isDragging,
+  } = useSortable({ id: fieldKey });
+  const Icon = FIELD_ICONS[field.widget];
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={{ transform: CSS.Transform.toString(transform), transition }}
+      className={cn(
+        "flex items-center gap-2 rounded border bg-white px-2 py-2",
+        selected && "border-blue-500 ring-2 ring-blue-200",
+        isDragging && "opacity-50"
+      )}
+    >
+      <button
+        type="button"
+        className="cursor-grab text-gray-400"
+        aria-label={`Mover ${field.title}`}
+        {...attributes}
+        {...listeners}
+      >
+        <GripVertical className="w-4 h-4" />
+      </button>
+      <button
+        type="button"
+        className="flex flex-1 items-center gap-2 text-left text-sm"
+        onClick={onSelect}
+      >
+        <Icon className="w-4 h-4 text-gray-500" />
+        <span className="flex-1 truncate">
+          {field.title}
+          {required && " *"}
+        </span>
+        <span className="text-xs text-gray-400">{fieldKey}</span>
+      </button>
+    </div>
+  );
+}
+
+function FormCanvas({ children }: { children: React.ReactNode }) {
+  const { setNodeRef, isOver } = useDroppable({ id: CANVAS_ID });
+  return (
+    <div
+      ref={setNodeRef}
+      className={cn(
+        "min-h-[200px] space-y-2 rounded-lg border-2 border-dashed p-3",
+        isOver ? "border-blue-400 bg-blue-50" : "border-gray-200"
+      )}
+    >
+      {children}
+    </div>
+  );
+}
+
+interface FieldPropertiesProps {
+  schema: ApprovalFormSchema;
+  fieldKey: string;
+  onChange: (schema: ApprovalFormSchema, selectedKey?: string | null) => void;
+}
+
+function FieldProperties({ schema, fieldKey, onChange }: FieldPropertiesProps) {
+  const field = schema.properties[fieldKey]!;
+  const [keyError, setKeyError] = useState<string | null>(null);
+  const update = (changes: Partial<ApprovalFormField>) =>
+    onChange(updateFormField(schema, fieldKey, changes));
+
+  const handleKeyBlur = (newKey: string) => {
+    if (newKey === fieldKey) {
+      setKeyError(null);
+      return;
+    }
+    if (!isValidFieldKey(newKey)) {
+      setKeyError("Usa letras, números y guiones bajos, empezando por letra");
+      return;
+    }
+    if (newKey in schema.properties) {
+      setKeyError("Ya existe un campo con esa clave");
+      return;
+    }
+    setKeyError(null);
+    onChange(renameFormField(schema, fieldKey, newKey), newKey);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <Label htmlFor="field-key">Clave</Label>
+        <Input
+          id="field-key"
+          defaultValue={fieldKey}
+          onBlur={(e) => handleKeyBlur(e.target.value.trim())}
+        />
+        {keyError && <p className="text-xs text-red-600 mt-1">{keyError}</p>}
+      </div>
+      <div>
+        <Label htmlFor="field-title">Etiqueta</Label>
+        <Input
+          id="field-title"
+          value={field.title}
+          onChange={(e) => update({ title: e.target.value })}
+        />
+      </div>
+      <div>
+        <Label htmlFor="field-description">Ayuda</Label>
+        <Input
+          id="field-description"
+          value={field.description ?? ""}
+          onChange={(e) => update({ description: e.target.value || undefined })}
+        />
+      </div>
+      <div className="flex items-center space-x-2">
+        <Checkbox
+          id="field-required"
+          checked={schema.required.includes(fieldKey)}
+          onCheckedChange={(checked) =>
+            onChange(setFormFieldRequired(schema, fieldKey, checked === true))
+          }
+        />
+        <label htmlFor="field-required" className="text-sm cursor-pointer">
+          Obligatorio
+        </label>
+      </div>
+
+      {/* Validation rules per field type */}
+      {field.widget === "text" && (
+        <>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <Label htmlFor="field-min-length">Longitud mínima</Label>
+              <Input
+                id="field-min-length"
+                type="number"
+                min="0"
+                value={field.minLength ?? ""}
+                onChange={(e) =>
+                  update({ minLength: parseOptionalNumber(e.target.value) })
+                }
+              />
+            </div>
+            <div>
+              <Label htmlFor="field-max-length">Longitud máxima</Label>
+              <Input
+                id="field-max-length"
+                type="number"
+                min="0"
+                value={field.maxLength ?? ""}
+                onChange={(e) =>
+                  update({ maxLength: parseOptionalNumber(e.target.value) })
+                }
+              />
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="field-pattern">Expresión regular</Label>
+            <Input
+              id="field-pattern"
+              value={field.pattern ?? ""}
+              onChange={(e) => update({ pattern: e.target.value || undefined })}
+              placeholder="Ej: ^[A-Z]{3}-\d+$"
+            />
+          </div>
+        </>
+      )}
+
+      {field.widget === "number" && (
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <Label htmlFor="field-minimum">Mínimo</Label>
+            <Input
+              id="field-minimum"
+              type="number"
+              value={field.minimum ?? ""}
+              onChange={(e) =>
+                update({ minimum: parseOptionalNumber(e.target.value) })
+              }
+            />
+          </div>
+          <div>
+            <Label htmlFor="field-maximum">Máximo</Label>
+            <Input
+              id="field-maximum"
+              type="number"
+              value={field.maximum ?? ""}
+              onChange={(e) =>
+                update({ maximum: parseOptionalNumber(e.target.value) })
+              }
+            />
+          </div>
+        </div>
+      )}
+
+      {field.widget === "date" && (
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <Label htmlFor="field-min-date">Desde</Label>
+            <Input
+              id="field-min-date"
+              type="date"
+              value={field.formatMinimum ?? ""}
+              onChange={(e) =>
+                update({ formatMinimum: e.target.value || undefined })
+              }
+            />
+          </div>
+          <div>
+            <Label htmlFor="field-max-date">Hasta</Label>
+            <Input
+              id="field-max-date"
+              type="date"
+              value={field.formatMaximum ?? ""}
+              onChange={(e) =>
+                update({ formatMaximum: e.target.value || undefined })
+              }
+            />
+          </div>
+        </div>
+      )}
+
+      {field.widget === "select" && (
+        <div>
+          <Label htmlFor="field-options">Opciones (una por línea)</Label>
+          <Textarea
+            id="field-options"
+            rows={4}
+            value={(field.enum ?? []).join("\n")}
+            onChange={(e) => update({ enum: e.target.value.split("\n") })}
+            onBlur={() =>
+              update({
+                enum: (field.enum ?? [])
+                  .map((option) => option.trim())
+                  .filter(Boolean),
+              })
+            }
+          />
+        </div>
+      )}
+
+      {field.widget === "file" && (
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <Label htmlFor="field-accept">Tipos permitidos</Label>
+            <Input
+              id="field-accept"
+              value={(field.accept ?? []).join(", ")}
+              onChange={(e) => {
+                const accept = e.target.value
+                  .split(",")
+                  .map((item) => item.trim())
+                  .filter(Boolean);
+                update({ accept: accept.length > 0 ? accept : undefined });
+              }}
+              placeholder=".pdf, image/*"
+            />
+          </div>
+          <div>
+            <Label htmlFor="field-max-size">Tamaño máximo (MB)</Label>
+            <Input
+              id="field-max-size"
+              type="number"
+              min="1"
+              value={field.maxSizeMb ?? ""}
+              onChange={(e) =>
+                update({ maxSizeMb: parseOptionalNumber(e.target.value) })
+              }
+            />
+          </div>
+        </div>
+      )}
+
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        className="text-red-600 hover:text-red-700"
+        onClick={() => onChange(removeFormField(schema, fieldKey), null)}
+      >
+        <Trash2 className="w-4 h-4 mr-2" />
+        Eliminar campo
+      </Button>
+    </div>
+  );
+}
+
+interface ApprovalFormBuilderProps {
+  value: ApprovalFormSchema | null;
+  onChange: (schema: ApprovalFormSchema | null) => void;
+}
+
+export function ApprovalFormBuilder({
+  value,
+  onChange,
+}: ApprovalFormBuilderProps) {
+  const schema = value ?? createEmptyFormSchema();
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const [previewValues, setPreviewValues] = useState<ApprovalFormValues>({});
+  const [previewErrors, setPreviewErrors] = useState<Record<string, string>>(
+    {}
+  );
+
+  const sensors = useSensors(
+    useSensor(PointerSensor, { activationConstraint: { distance: 6 } }),
+    useSensor(KeyboardSensor, {
+      coordinateGetter: sortableKeyboardCoordinates,
+    })
+  );
+
+  // Un formulario sin campos se guarda como null
+  const emit = (next: ApprovalFormSchema, nextSelected?: string | null) => {
+    onChange(next.order.length > 0 ? next : null);
+    if (nextSelected !== undefined) setSelectedKey(nextSelected);
+  };
+
+  const handleAdd = (widget: ApprovalFormFieldType, index?: number) => {
+    const { schema: next, key } = addFormField(schema, widget, index);
+    emit(next, key);
+  };
+
+  const handleDragEnd = ({ active, over }: DragEndEvent) => {
+    if (!over) return;
+    const widget = active.data.current?.widget as
+      | ApprovalFormFieldType
+      | undefined;
+    const overIndex = schema.order.indexOf(String(over.id));
+
+    if (widget) {
+      handleAdd(widget, overIndex === -1 ? undefined : overIndex);
+      return;
+    }
+    const from = schema.order.indexOf(String(active.id));
+    const to = overIndex === -1 ? schema.order.length - 1 : overIndex;
+    if (from !== -1 && from !== to) {
+      emit(moveFormField(schema, from, to));
+    }
+  };
+
+  const fields = getFormFields(schema);
+  const selected =
+    selectedKey && schema.properties[selectedKey] ? selectedKey : null;
+
+  return (
+    <Tabs defaultValue="design">
+      <TabsList>
+        <TabsTrigger value="design">Diseño</TabsTrigger>
+        <TabsTrigger value="preview" disabled={fields.length === 0}>
+          Vista previa
+        </TabsTrigger>
+      </TabsList>
+
+      <TabsContent value="design">
+        <DndContext
+          sensors={sensors}
+          collisionDetection={closestCenter}
+          onDragEnd={handleDragEnd}
+        >
+          <div className="grid grid-cols-1 md:grid-cols-[160px_1fr_260px] gap-4 pt-2">
+            <div className="space-y-2">
+              <p className="text-xs font-medium uppercase text-gray-500">
+                Campos
+              </p>
+              {FORM_FIELD_TYPES.map((widget) => (
+                <PaletteItem
+                  key={widget}
+                  widget={widget}
+                  onAdd={() => handleAdd(widget)}
+                />
+              ))}
+            </div>
+
+            <FormCanvas>
+              {fields.length === 0 ? (
+                <p className="py-8 text-center text-sm text-gray-500">
+                  Arrastra campos aquí o haz clic en un tipo de campo
+                </p>
+              ) : (
+                <SortableContext
+                  items={schema.order}
+                  strategy={verticalListSortingStrategy}
+                >
+                  {fields.map(({ key, field, required }) => (
+                    <SortableField
+                      key={key}
+                      fieldKey={key}
+                      field={field}
+                      required={required}
+                      selected={selected === key}
+                      onSelect={() => setSelectedKey(key)}
+                    />
+                  ))}
+                </SortableContext>
+              )}
+            </FormCanvas>
+
+            <div>
+              {selected ? (
+                <FieldProperties
+                  key={selected}
+                  schema={schema}
+                  fieldKey={selected}
+                  onChange={emit}
+                />
+              ) : (
+                <p className="text-sm text-gray-500">
+                  Selecciona un campo para configurarlo
+                </p>
+              )}
+            </div>
+          </div>
+        </DndContext>
+      </TabsContent>
+
+      <TabsContent value="preview" className="space-y-4 pt-2">
+        <ApprovalFormRenderer
+          schema={schema}
+          values={previewValues}
+          onChange={setPreviewValues}
+          errors={previewErrors}
+        />
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => {
+            const result = validateFormData(schema, previewValues);
+            setPreviewErrors(result.success ? {} : result.errors);
+          }}
+        >
+          Probar validación
+        </Button>
+      </TabsContent>
+    </Tabs>
+  );
+}
@@ -0,0 +1,88 @@
+/**
+ * Approval Form Builder Dialog
+ * Edits the form of an approval step in a dialog, saving on confirm
+ */
+
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "~/components/ui/dialog";
+import { Button } from "~/components/ui/button";
+import { ApprovalFormBuilder } from "./ApprovalFormBuilder";
+import { parseFormSchema } from "../utils/approval-form.utils";
+import type { ApprovalFormSchema } from "../types/approval-form.types";
+
+interface ApprovalFormBuilderDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  stepName?: string;
+  value?: Record<string, unknown> | null;
+  onSave: (schema: ApprovalFormSchema | null) => void;
+}
+
+function FormBuilderContent({
+  stepName,
+  value,
+  onSave,
+  onCancel,
+}: Omit<ApprovalFormBuilderDialogProps, "open" | "onOpenChange"> & {
+  onCancel: () => void;
+}) {
+  // El borrador se crea al abrir, así cancelar descarta los cambios
+  const [draft, setDraft] = useState(() => parseFormSchema(value));
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>Formulario del Paso</DialogTitle>
+        <DialogDescription>
+          {stepName
+            ? `Datos que el aprobador debe completar en "${stepName}"`
+            : "Datos que el aprobador debe completar al aprobar o rechazar"}
+        </DialogDescription>
+      </DialogHeader>
+
+      <ApprovalFormBuilder value={draft} onChange={setDraft} />
+
+      <DialogFooter>
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Cancelar
+        </Button>
+        <Button type="button" onClick={() => onSave(draft)}>
+          Guardar formulario
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
+
+export function ApprovalFormBuilderDialog({
+  open,
+  onOpenChange,
+  stepName,
+  value,
+  onSave,
+}: ApprovalFormBuilderDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[85vh] overflow-y-auto">
+        {open && (
+          <FormBuilderContent
+            stepName={stepName}
+            value={value}
+            onSave={(schema) => {
+              onSave(schema);
+              onOpenChange(false);
+            }}
+            onCancel={() => onOpenChange(false)}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
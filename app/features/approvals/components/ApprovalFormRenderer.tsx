@@ -0,0 +1,277 @@
+/**
+ * Approval Form Renderer Component
+ * Renders the form of an approval step so the approver can fill it in
+ */
+
+import { useRef, useState } from "react";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import { getFormFields } from "../utils/approval-form.utils";
+import type {
+  ApprovalFormField,
+  ApprovalFormFile,
+  ApprovalFormSchema,
+  ApprovalFormValues,
+} from "../types/approval-form.types";
+
+interface SignaturePadProps {
+  id: string;
+  value?: string;
+  onChange: (value: string | undefined) => void;
+  disabled?: boolean;
+}
+
+function SignaturePad({ id, value, onChange, disabled }: SignaturePadProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [drawing, setDrawing] = useState(false);
+
+  const getPoint = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = event.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: ((event.clientX - rect.left) * canvas.width) / (rect.width || 1),
+      y: ((event.clientY - rect.top) * canvas.height) / (rect.height || 1),
+    };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const context = event.currentTarget.getContext("2d");
+    if (!context || disabled) return;
+    const { x, y } = getPoint(event);
+    context.lineWidth = 2;
+    context.lineCap = "round";
+    context.strokeStyle = "#111827";
+    context.beginPath();
+    context.moveTo(x, y);
+    setDrawing(true);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawing) return;
+    const context = event.currentTarget.getContext("2d");
+    if (!context) return;
+    const { x, y } = getPoint(event);
+    context.lineTo(x, y);
+    context.stroke();
+  };
+
+  const handlePointerUp = () => {
+    if (!drawing) return;
+    setDrawing(false);
+    onChange(canvasRef.current?.toDataURL("image/png"));
+  };
+
+  if (value) {
+    return (
+      <div className="flex items-center gap-3">
+        <img src={value} alt="Firma" className="h-20 rounded border bg-white" />
+        {!disabled && (
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => onChange(undefined)}
+          >
+            Volver a firmar
+          </Button>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <canvas
+      id={id}
+      ref={canvasRef}
+      width={400}
+      height={150}
+      aria-label="Área de firma"
+      className="w-full h-32 rounded border border-dashed bg-white touch-none cursor-crosshair"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerLeave={handlePointerUp}
+    />
+  );
+}
+
+interface FileFieldProps {
+  id: string;
+  field: ApprovalFormField;
+  value?: ApprovalFormFile;
+  onChange: (value: ApprovalFormFile | undefined) => void;
+  disabled?: boolean;
+}
+
+function FileField({ id, field, value, onChange, disabled }: FileFieldProps) {
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () =>
+      onChange({
+        name: file.name,
+        size: file.size,
+        type: file.type,
+        data_url: String(reader.result ?? ""),
+      });
+    reader.readAsDataURL(file);
+  };
+
+  if (value) {
+    return (
+      <div className="flex items-center justify-between gap-2 rounded border px-3 py-2 text-sm">
+        <span className="truncate">{value.name}</span>
+        {!disabled && (
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange(undefined)}
+          >
+            Quitar
+          </Button>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <Input
+      id={id}
+      type="file"
+      accept={field.accept?.join(",")}
+      onChange={handleFileChange}
+      disabled={disabled}
+    />
+  );
+}
+
+interface ApprovalFormRendererProps {
+  schema: ApprovalFormSchema;
+  values: ApprovalFormValues;
+  onChange: (values: ApprovalFormValues) => void;
+  errors?: Record<string, string>;
+  disabled?: boolean;
+}
+
+export function ApprovalFormRenderer({
+  schema,
+  values,
+  onChange,
+  errors = {},
+  disabled = false,
+}: ApprovalFormRendererProps) {
+  const setValue = (key: string, value: unknown) =>
+    onChange({ ...values, [key]: value });
+
+  const renderControl = (key: string, field: ApprovalFormField) => {
+    const id = `form-field-${key}`;
+    const value = values[key];
+
+    switch (field.widget) {
+      case "number":
+        return (
+          <Input
+            id={id}
+            type="number"
+            value={value === undefined ? "" : String(value)}
+            min={field.minimum}
+            max={field.maximum}
+            onChange={(e) => setValue(key, e.target.value)}
+            disabled={disabled}
+          />
+        );
+      case "date":
+        return (
+          <Input
+            id={id}
+            type="date"
+            value={typeof value === "string" ? value : ""}
+            min={field.formatMinimum}
+            max={field.formatMaximum}
+            onChange={(e) => setValue(key, e.target.value)}
+            disabled={disabled}
+          />
+        );
+      case "select":
+        return (
+          <Select
+            value={typeof value === "string" ? value : ""}
+            onValueChange={(option) => setValue(key, option)}
+            disabled={disabled}
+          >
+            <SelectTrigger id={id}>
+              <SelectValue placeholder="Seleccionar" />
+            </SelectTrigger>
+            <SelectContent>
+              {(field.enum ?? []).map((option) => (
+                <SelectItem key={option} value={option}>
+                  {option}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      case "file":
+        return (
+          <FileField
+            id={id}
+            field={field}
+            value={value as ApprovalFormFile | undefined}
+            onChange={(file) => setValue(key, file)}
+            disabled={disabled}
+          />
+        );
+      case "signature":
+        return (
+          <SignaturePad
+            id={id}
+            value={typeof value === "string" ? value : undefined}
+            onChange={(signature) => setValue(key, signature)}
+            disabled={disabled}
+          />
+        );
+      default:
+        return (
+          <Input
+            id={id}
+            value={typeof value === "string" ? value : ""}
+            maxLength={field.maxLength}
+            onChange={(e) => setValue(key, e.target.value)}
+            disabled={disabled}
+          />
+        );
+    }
+  };
+
+  return (
+    <div className="grid gap-4">
+      {getFormFields(schema).map(({ key, field, required }) => (
+        <div key={key} className="grid gap-2">
+          <Label htmlFor={`form-field-${key}`}>
+            {field.title}
+            {required && " *"}
+          </Label>
+          {renderControl(key, field)}
+          {field.description && (
+            <p className="text-xs text-gray-500">{field.description}</p>
+          )}
+          {errors[key] && (
+            <p className="text-xs text-red-600" role="alert">
+              {errors[key]}
+            </p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,403 @@
+/**
+ * Approval Inbox
+ * Triage of pending approvals: filters, multi-select, bulk decisions and
+ * keyboard navigation with a preview of the focused request
+ */
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { es } from "date-fns/locale";
+import { Check, Forward, RefreshCw, X } from "lucide-react";
+import { Badge } from "~/components/ui/badge";
+import { Button } from "~/components/ui/button";
+import { Card, CardContent } from "~/components/ui/card";
+import { Checkbox } from "~/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import { cn } from "~/lib/utils";
+import { ApprovalBulkActionDialog } from "./ApprovalBulkActionDialog";
+import { ApprovalInboxPreview } from "./ApprovalInboxPreview";
+import { ApprovalSlaBadge } from "./ApprovalSlaBadge";
+import { useApprovalFlows, useApprovalRequests } from "../hooks/useApprovals";
+import {
+  ALL_FILTER,
+  DEFAULT_INBOX_FILTERS,
+  INBOX_AGE_OPTIONS,
+  filterInboxRequests,
+} from "../utils/approval-inbox.utils";
+import type { ApprovalRequestResponse } from "../types/approval.types";
+import type {
+  ApprovalInboxFilters,
+  BulkApprovalAction,
+  BulkApprovalResult,
+} from "../types/approval-inbox.types";
+
+const SHORTCUTS = [
+  { keys: "J / K", description: "Siguiente / anterior" },
+  { keys: "X", description: "Seleccionar" },
+  { keys: "A", description: "Aprobar" },
+  { keys: "R", description: "Rechazar" },
+  { keys: "D", description: "Delegar" },
+];
+
+export function ApprovalInbox() {
+  const {
+    data: requestsResponse,
+    isLoading,
+    refetch,
+    isFetching,
+  } = useApprovalRequests({ status: "pending", page_size: 100 });
+  const { data: flowsResponse } = useApprovalFlows();
+
+  const [filters, setFilters] = useState<ApprovalInboxFilters>(
+    DEFAULT_INBOX_FILTERS
+  );
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [focusedId, setFocusedId] = useState<string | null>(null);
+  // Requests the open dialog acts on, frozen while it shows the results
+  const [bulk, setBulk] = useState<{
+    action: BulkApprovalAction;
+    requests: ApprovalRequestResponse[];
+  } | null>(null);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  const flowModules = useMemo(
+    () =>
+      new Map(
+        (flowsResponse?.data || []).map((flow) => [flow.id, flow.module])
+      ),
+    [flowsResponse]
+  );
+  const allRequests = useMemo(
+    () => requestsResponse?.data || [],
+    [requestsResponse]
+  );
+  const requests = useMemo(
+    () => filterInboxRequests(allRequests, filters, flowModules),
+    [allRequests, filters, flowModules]
+  );
+
+  const modules = [...new Set(flowModules.values())].sort();
+  const entityTypes = [
+    ...new Set(allRequests.map((request) => request.entity_type)),
+  ].sort();
+
+  // Falls back to the first request when the focused one is filtered out
+  const focused =
+    requests.find((request) => request.id === focusedId) ?? requests[0] ?? null;
+  const focusedIndex = focused ? requests.indexOf(focused) : -1;
+  const selected = requests.filter((request) =>
+    selectedIds.includes(request.id)
+  );
+
+  useEffect(() => {
+    if (!focused) return;
+    listRef.current
+      ?.querySelector(`[data-request-id="${focused.id}"]`)
+      ?.scrollIntoView?.({ block: "nearest" });
+  }, [focused]);
+
+  const toggleSelection = (requestId: string) => {
+    setSelectedIds((prev) =>
+      prev.includes(requestId)
+        ? prev.filter((id) => id !== requestId)
+        : [...prev, requestId]
+    );
+  };
+
+  const allSelected =
+    requests.length > 0 && selected.length === requests.length;
+
+  const toggleAll = () => {
+    setSelectedIds(allSelected ? [] : requests.map((request) => request.id));
+  };
+
+  // Bulk actions apply to the selection, or to the focused request
+  const openBulk = (action: BulkApprovalAction) => {
+    const targets = selected.length > 0 ? selected : focused ? [focused] : [];
+    if (targets.length > 0) setBulk({ action, requests: targets });
+  };
+
+  const handleCompleted = (result: BulkApprovalResult) => {
+    const done = result.results
+      .filter((item) => item.success)
+      .map((item) => item.requestId);
+    setSelectedIds((prev) => prev.filter((id) => !done.includes(id)));
+  };
+
+  const moveFocus = (step: number) => {
+    const next =
+      requests[Math.min(Math.max(focusedIndex + step, 0), requests.length - 1)];
+    if (next) setFocusedId(next.id);
+  };
+
+  // Latest shortcut handler, read by the window listener
+  const handleKeyDownRef = useRef<(e: KeyboardEvent) => void>(() => {});
+  useEffect(() => {
+    handleKeyDownRef.current = (e: KeyboardEvent) => {
+      if (
+        bulk ||
+        e.ctrlKey ||
+        e.metaKey ||
+        e.altKey ||
+        e.target instanceof HTMLInputElement ||
+        e.target instanceof HTMLTextAreaElement ||
+        e.target instanceof HTMLSelectElement ||
+        (e.target instanceof HTMLElement && e.target.isContentEditable)
+      ) {
+        return;
+      }
+
+      switch (e.key) {
+        case "j":
+        case "ArrowDown":
+          moveFocus(1);
+          break;
+        case "k":
+        case "ArrowUp":
+          moveFocus(-1);
+          break;
+        case "x":
+          if (focused) toggleSelection(focused.id);
+          break;
+        case "a":
+          openBulk("approve");
+          break;
+        case "r":
+          openBulk("reject");
+          break;
+        case "d":
+          openBulk("delegate");
+          break;
+        default:
+          return;
+      }
+      e.preventDefault();
+    };
+  });
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => handleKeyDownRef.current(e);
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  const setFilter = <K extends keyof ApprovalInboxFilters>(
+    key: K,
+    value: ApprovalInboxFilters[K]
+  ) => {
+    setFilters((prev) => ({ ...prev, [key]: value }));
+    setSelectedIds([]);
+  };
+
+  return (
+    <div className="space-y-4" data-testid="approval-inbox">
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-2">
+        <Select
+          value={filters.module}
+          onValueChange={(value) => setFilter("module", value)}
+        >
+          <SelectTrigger className="w-48" aria-label="Módulo">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_FILTER}>Todos los módulos</SelectItem>
+            {modules.map((module) => (
+              <SelectItem key={module} value={module}>
+                {module}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={filters.entityType}
+          onValueChange={(value) => setFilter("entityType", value)}
+        >
+          <SelectTrigger className="w-48" aria-label="Tipo de entidad">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_FILTER}>Todas las entidades</SelectItem>
+            {entityTypes.map((entityType) => (
+              <SelectItem key={entityType} value={entityType}>
+                {entityType}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={filters.age}
+          onValueChange={(value) =>
+            setFilter("age", value as ApprovalInboxFilters["age"])
+          }
+        >
+          <SelectTrigger className="w-48" aria-label="Antigüedad">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {INBOX_AGE_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="outline"
+          size="icon"
+          onClick={() => void refetch()}
+          disabled={isFetching}
+          aria-label="Actualizar"
+        >
+          <RefreshCw className={cn("w-4 h-4", isFetching && "animate-spin")} />
+        </Button>
+      </div>
+
+      {/* Selection and bulk actions */}
+      <div className="flex flex-wrap items-center justify-between gap-2 rounded-md border bg-muted/50 px-3 py-2">
+        <label className="flex items-center gap-2 text-sm">
+          <Checkbox
+            checked={allSelected}
+            onCheckedChange={toggleAll}
+            disabled={requests.length === 0}
+            aria-label="Seleccionar todas"
+          />
+          {selected.length > 0
+            ? `${selected.length} de ${requests.length} seleccionadas`
+            : `${requests.length} pendientes`}
+        </label>
+        <div className="flex gap-2">
+          <Button
+            size="sm"
+            onClick={() => openBulk("approve")}
+            disabled={!focused && selected.length === 0}
+          >
+            <Check className="w-4 h-4 mr-1" />
+            Aprobar
+          </Button>
+          <Button
+            size="sm"
+            variant="destructive"
+            onClick={() => openBulk("reject")}
+            disabled={!focused && selected.length === 0}
+          >
+            <X className="w-4 h-4 mr-1" />
+            Rechazar
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => openBulk("delegate")}
+            disabled={!focused && selected.length === 0}
+          >
+            <Forward className="w-4 h-4 mr-1" />
+            Delegar
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-4 lg:flex-row">
+        {/* Request list */}
+        <Card className="lg:w-1/2">
+          <CardContent className="p-0">
+            {isLoading ? (
+              <p className="p-6 text-sm text-gray-500">Cargando...</p>
+            ) : requests.length === 0 ? (
+              <p className="p-6 text-center text-sm text-gray-500">
+                No hay aprobaciones pendientes
+              </p>
+            ) : (
+              <ul
+                ref={listRef}
+                className="max-h-[70vh] divide-y overflow-y-auto"
+                role="listbox"
+                aria-label="Aprobaciones pendientes"
+                aria-multiselectable
+              >
+                {requests.map((request) => (
+                  <li
+                    key={request.id}
+                    data-request-id={request.id}
+                    role="option"
+                    aria-selected={request.id === focused?.id}
+                    className={cn(
+                      "flex cursor-pointer items-start gap-3 px-4 py-3",
+                      request.id === focused?.id
+                        ? "bg-blue-50 ring-1 ring-inset ring-blue-300"
+                        : "hover:bg-muted/50"
+                    )}
+                    onClick={() => setFocusedId(request.id)}
+                  >
+                    <Checkbox
+                      className="mt-1"
+                      checked={selectedIds.includes(request.id)}
+                      onCheckedChange={() => toggleSelection(request.id)}
+                      onClick={(e) => e.stopPropagation()}
+                      aria-label={`Seleccionar ${request.title}`}
+                    />
+                    <div className="min-w-0 flex-1 space-y-1">
+                      <p className="truncate font-medium">{request.title}</p>
+                      <div className="flex flex-wrap items-center gap-2 text-xs text-gray-500">
+                        {flowModules.get(request.flow_id) && (
+                          <Badge variant="outline">
+                            {flowModules.get(request.flow_id)}
+                          </Badge>
+                        )}
+                        <span>{request.entity_type}</span>
+                        <span>
+                          {formatDistanceToNow(new Date(request.requested_at), {
+                            addSuffix: true,
+                            locale: es,
+                          })}
+                        </span>
+                        <ApprovalSlaBadge request={request} />
+                      </div>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Preview of the focused request */}
+        <Card className="lg:w-1/2 max-h-[70vh] overflow-y-auto">
+          <ApprovalInboxPreview
+            request={focused}
+            module={focused ? flowModules.get(focused.flow_id) : undefined}
+          />
+        </Card>
+      </div>
+
+      {/* Shortcut hints */}
+      <div className="flex flex-wrap gap-4 text-xs text-gray-500">
+        {SHORTCUTS.map((shortcut) => (
+          <span key={shortcut.keys}>
+            <Badge variant="secondary" className="font-mono mr-1">
+              {shortcut.keys}
+            </Badge>
+            {shortcut.description}
+          </span>
+        ))}
+      </div>
+
+      {bulk && (
+        <ApprovalBulkActionDialog
+          open
+          onOpenChange={(open) => {
+            if (!open) setBulk(null);
+          }}
+          action={bulk.action}
+          requests={bulk.requests}
+          onCompleted={handleCompleted}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+/**
+ * Approval Inbox Preview
+ * Details, timeline and attachments of the request focused in the inbox
+ */
+
+import { formatDistanceToNow } from "date-fns";
+import { es } from "date-fns/locale";
+import { Download, Paperclip } from "lucide-react";
+import { Badge } from "~/components/ui/badge";
+import { Button } from "~/components/ui/button";
+import { showToast } from "~/components/common/Toast";
+import { useFileDownload, useFiles } from "~/features/files/hooks/useFiles";
+import { formatFileSize } from "~/features/files/utils/fileUtils";
+import { ApprovalSlaBadge } from "./ApprovalSlaBadge";
+import { ApprovalTimeline } from "./ApprovalTimeline";
+import { useApproverNames, useRequestTimeline } from "../hooks/useApprovals";
+import type { ApprovalRequestResponse } from "../types/approval.types";
+
+// Files attached to the entity the request is about
+function RequestAttachments({ request }: { request: ApprovalRequestResponse }) {
+  const { files, loading } = useFiles({
+    entity_type: request.entity_type,
+    entity_id: request.entity_id,
+    page_size: 50,
+  });
+  const { mutate: downloadFile, isPending: downloading } = useFileDownload();
+
+  const handleDownload = (fileId: string, fileName: string) => {
+    downloadFile(fileId, {
+      onSuccess: (blob) => {
+        const url = window.URL.createObjectURL(blob);
+        const a = document.createElement("a");
+        a.href = url;
+        a.download = fileName;
+        document.body.appendChild(a);
+        a.click();
+        window.URL.revokeObjectURL(url);
+        document.body.removeChild(a);
+      },
+      onError: () => {
+        showToast("Error al descargar el archivo", "error");
+      },
+    });
+  };
+
+  if (loading) {
+    return <p className="text-sm text-gray-500">Cargando adjuntos...</p>;
+  }
+
+  if (files.length === 0) {
+    return <p className="text-sm text-gray-500">Sin adjuntos</p>;
+  }
+
+  return (
+    <ul className="divide-y rounded-md border">
+      {files.map((file) => (
+        <li
+          key={file.id}
+          className="flex items-center justify-between gap-2 px-3 py-2 text-sm"
+        >
+          <span className="flex min-w-0 items-center gap-2">
+            <Paperclip className="w-4 h-4 shrink-0 text-gray-400" />
+            <span className="truncate">{file.original_name}</span>
+            <span className="shrink-0 text-xs text-gray-500">
+              {formatFileSize(file.size)}
+            </span>
+          </span>
+          <Button
+            size="icon"
+            variant="ghost"
+            disabled={downloading}
+            onClick={() => handleDownload(file.id, file.original_name)}
+            aria-label={`Descargar ${file.original_name}`}
+          >
+            <Download className="w-4 h-4" />
+          </Button>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+interface ApprovalInboxPreviewProps {
+  request: ApprovalRequestResponse | null;
+  // Module of the request's flow
+  module?: string;
+}
+
+export function ApprovalInboxPreview({
+  request,
+  module,
+}: ApprovalInboxPreviewProps) {
+  const names = useApproverNames();
+  const { data: timelineResponse, isLoading: timelineLoading } =
+    useRequestTimeline(request?.id ?? "");
+
+  if (!request) {
+    return (
+      <div className="flex h-full items-center justify-center p-8 text-sm text-gray-500">
+        Selecciona una solicitud para ver sus detalles
+      </div>
+    );
+  }
+
+  const requester = request.requested_by
+    ? (names.get(request.requested_by) ?? request.requested_by)
+    : "Desconocido";
+
+  return (
+    <div className="space-y-6 p-4" data-testid="approval-inbox-preview">
+      <div className="space-y-2">
+        <h3 className="text-lg font-semibold">{request.title}</h3>
+        {request.description && (
+          <p className="text-sm text-gray-600">{request.description}</p>
+        )}
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          {module && <Badge variant="outline">{module}</Badge>}
+          <Badge variant="outline">
+            {request.entity_type}:{request.entity_id}
+          </Badge>
+          <ApprovalSlaBadge request={request} />
+        </div>
+        <p className="text-sm text-gray-500">
+          Solicitado por {requester}{" "}
+          {formatDistanceToNow(new Date(request.requested_at), {
+            addSuffix: true,
+            locale: es,
+          })}{" "}
+          • Paso {request.current_step}
+        </p>
+      </div>
+
+      {request.request_metadata &&
+        Object.keys(request.request_metadata).length > 0 && (
+          <dl className="grid grid-cols-2 gap-x-4 gap-y-1 rounded-md bg-gray-50 p-3 text-sm">
+            {Object.entries(request.request_metadata).map(([key, value]) => (
+              <div key={key} className="contents">
+                <dt className="font-medium text-gray-700">{key}</dt>
+                <dd className="truncate text-gray-600">
+                  {typeof value === "object"
+                    ? JSON.stringify(value)
+                    : String(value)}
+                </dd>
+              </div>
+            ))}
+          </dl>
+        )}
+
+      <section className="space-y-2">
+        <h4 className="font-medium">Adjuntos</h4>
+        <RequestAttachments request={request} />
+      </section>
+
+      <section className="space-y-2">
+        <h4 className="font-medium">Historial</h4>
+        {timelineLoading ? (
+          <p className="text-sm text-gray-500">Cargando historial...</p>
+        ) : (
+          <ApprovalTimeline
+            items={timelineResponse?.data || []}
+            maxHeight="320px"
+          />
+        )}
+      </section>
+    </div>
+  );
+}
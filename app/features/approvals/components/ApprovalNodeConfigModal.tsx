@@ -26,6 +26,9 @@ import {
 import { Checkbox } from "~/components/ui/checkbox";
 import { useQuery } from "@tanstack/react-query";
 import apiClient from "~/lib/api/client";
+import { ApprovalFormBuilderDialog } from "./ApprovalFormBuilderDialog";
+import { ApprovalPrintConfigFields } from "./ApprovalPrintConfigFields";
+import { ApprovalSlaConfigFields } from "./ApprovalSlaConfigFields";
 import type {
   ApprovalNodeData,
   ApproverOption,
@@ -55,6 +58,7 @@ export function ApprovalNodeConfigModal({
   });
 
   const [selectedApprovers, setSelectedApprovers] = useState<string[]>([]);
+  const [formBuilderOpen, setFormBuilderOpen] = useState(false);
 
   // Fetch users
   const { data: usersData } = useQuery({
@@ -295,8 +299,64 @@ export function ApprovalNodeConfigModal({
               )}
             </div>
           </div>
+
+          {/* Step Form */}
+          <div>
+            <Label>Formulario del Paso</Label>
+            <div className="flex items-center gap-3 mt-2">
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setFormBuilderOpen(true)}
+              >
+                {formData.formSchema
+                  ? "Editar formulario"
+                  : "Diseñar formulario"}
+              </Button>
+              <span className="text-sm text-gray-500">
+                {formData.formSchema
+                  ? `${formData.formSchema.order.length} campo${formData.formSchema.order.length !== 1 ? "s" : ""}`
+                  : "Sin formulario"}
+              </span>
+            </div>
+          </div>
+
+          {/* SLA */}
+          <div>
+            <Label>Plazos y Escalado</Label>
+            <div className="border rounded-lg p-3 mt-2">
+              <ApprovalSlaConfigFields
+                value={formData.slaConfig}
+                onChange={(slaConfig) =>
+                  setFormData({ ...formData, slaConfig })
+                }
+              />
+            </div>
+          </div>
+
+          {/* Certificate */}
+          <div>
+            <Label>Certificado de Aprobación</Label>
+            <div className="border rounded-lg p-3 mt-2">
+              <ApprovalPrintConfigFields
+                value={formData.printConfig}
+                onChange={(printConfig) =>
+                  setFormData({ ...formData, printConfig })
+                }
+              />
+            </div>
+          </div>
         </div>
 
+        <ApprovalFormBuilderDialog
+          open={formBuilderOpen}
+          onOpenChange={setFormBuilderOpen}
+          stepName={formData.name}
+          value={formData.formSchema}
+          onSave={(formSchema) => setFormData({ ...formData, formSchema })}
+        />
+
         <DialogFooter>
           <Button variant="outline" onClick={onClose}>
             Cancelar
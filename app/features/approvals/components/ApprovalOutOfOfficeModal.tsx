@@ -0,0 +1,366 @@
+/**
+ * ApprovalOutOfOfficeModal Component
+ *
+ * Modal for defining an out-of-office window with a default delegate for
+ * the approvals assigned to the current user
+ */
+
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { format } from "date-fns";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "~/components/ui/dialog";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import { Textarea } from "~/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import { showToast } from "~/components/common/Toast";
+import { useUsers } from "~/features/users/hooks/useUsers";
+import {
+  useApprovalFlows,
+  useCreateOutOfOfficeRule,
+  useUpdateOutOfOfficeRule,
+} from "../hooks/useApprovals";
+import { findOverlappingRule } from "../utils/approval-delegation.utils";
+import {
+  outOfOfficeSchema,
+  type OutOfOfficeFormData,
+} from "../validations/approval-out-of-office.schema";
+import type { ApprovalOutOfOfficeResponse } from "../types/approval-delegation.types";
+
+// Radix Select doesn't accept empty values
+const ALL = "__all__";
+
+const toInputValue = (value?: string | null) =>
+  value ? format(new Date(value), "yyyy-MM-dd'T'HH:mm") : "";
+
+const toIsoString = (value: string) => new Date(value).toISOString();
+
+const emptyValues = (): OutOfOfficeFormData => ({
+  delegate_to_user_id: "",
+  starts_at: toInputValue(new Date().toISOString()),
+  expires_at: "",
+  module: null,
+  flow_id: null,
+  reason: null,
+});
+
+interface ApprovalOutOfOfficeModalProps {
+  open: boolean;
+  onClose: () => void;
+  currentUserId: string;
+  // Rule to edit; a new one is created without it
+  rule?: ApprovalOutOfOfficeResponse | null;
+  // Existing rules, to warn about overlapping windows
+  rules?: ApprovalOutOfOfficeResponse[];
+  onSuccess?: () => void;
+}
+
+/**
+ * ApprovalOutOfOfficeModal component
+ */
+export function ApprovalOutOfOfficeModal({
+  open,
+  onClose,
+  currentUserId,
+  rule,
+  rules = [],
+  onSuccess,
+}: ApprovalOutOfOfficeModalProps) {
+  const { users, loading } = useUsers();
+  const { data: flowsResponse } = useApprovalFlows();
+  const createRule = useCreateOutOfOfficeRule();
+  const updateRule = useUpdateOutOfOfficeRule();
+
+  // Filter users (exclude current user)
+  const availableUsers = users.filter((u) => u.id !== currentUserId);
+  const flows = flowsResponse?.data || [];
+  const modules = [...new Set(flows.map((flow) => flow.module))].sort();
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+    setValue,
+    watch,
+    reset,
+  } = useForm<OutOfOfficeFormData>({
+    resolver: zodResolver(outOfOfficeSchema),
+    defaultValues: emptyValues(),
+  });
+
+  const values = watch();
+  const moduleFlows = values.module
+    ? flows.filter((flow) => flow.module === values.module)
+    : flows;
+  const delegate = users.find((u) => u.id === values.delegate_to_user_id);
+  const selectedFlow = flows.find((flow) => flow.id === values.flow_id);
+
+  const overlapping =
+    values.starts_at && values.expires_at
+      ? findOverlappingRule(rules, {
+          id: rule?.id,
+          starts_at: toIsoString(values.starts_at),
+          expires_at: toIsoString(values.expires_at),
+          module: values.module,
+          flow_id: values.flow_id,
+        })
+      : null;
+
+  // Load the rule when opening, reset form when modal closes
+  useEffect(() => {
+    if (!open) {
+      reset(emptyValues());
+    } else if (rule) {
+      reset({
+        delegate_to_user_id: rule.delegate_to_user_id,
+        starts_at: toInputValue(rule.starts_at),
+        expires_at: toInputValue(rule.expires_at),
+        module: rule.module ?? null,
+        flow_id: rule.flow_id ?? null,
+        reason: rule.reason ?? null,
+      });
+    }
+  }, [open, rule, reset]);
+
+  const onSubmit = async (data: OutOfOfficeFormData) => {
+    const payload = {
+      delegate_to_user_id: data.delegate_to_user_id,
+      starts_at: toIsoString(data.starts_at),
+      expires_at: toIsoString(data.expires_at),
+      module: data.module || null,
+      flow_id: data.flow_id || null,
+      reason: data.reason?.trim() || null,
+    };
+
+    try {
+      if (rule) {
+        await updateRule.mutateAsync({ ruleId: rule.id, data: payload });
+        showToast("Ausencia actualizada exitosamente", "success");
+      } else {
+        const response = await createRule.mutateAsync(payload);
+        const delegated = response.data?.delegated_requests_count ?? 0;
+        showToast(
+          delegated > 0
+            ? `Ausencia registrada. ${delegated} aprobaciones pendientes delegadas`
+            : "Ausencia registrada exitosamente",
+          "success"
+        );
+      }
+      onSuccess?.();
+      onClose();
+    } catch {
+      showToast("Error al guardar la ausencia", "error");
+    }
+  };
+
+  const scopeLabel = selectedFlow
+    ? ` del flujo "${selectedFlow.name}"`
+    : values.module
+      ? ` del módulo ${values.module}`
+      : "";
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {rule ? "Editar Ausencia" : "Registrar Ausencia"}
+          </DialogTitle>
+          <DialogDescription>
+            Mientras estés fuera de la oficina, tus aprobaciones se delegarán
+            automáticamente a otro usuario
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+          {/* Select Delegate */}
+          <div className="space-y-2">
+            <Label htmlFor="delegate_to_user_id">
+              Delegado <span className="text-destructive">*</span>
+            </Label>
+            <Select
+              value={values.delegate_to_user_id}
+              onValueChange={(value) =>
+                setValue("delegate_to_user_id", value, {
+                  shouldValidate: true,
+                })
+              }
+              disabled={loading || isSubmitting}
+            >
+              <SelectTrigger id="delegate_to_user_id">
+                <SelectValue placeholder="Seleccionar usuario" />
+              </SelectTrigger>
+              <SelectContent>
+                {availableUsers.map((user) => (
+                  <SelectItem key={user.id} value={user.id}>
+                    {user.full_name || user.email} ({user.email})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {errors.delegate_to_user_id && (
+              <p className="text-sm text-destructive">
+                {errors.delegate_to_user_id.message}
+              </p>
+            )}
+          </div>
+
+          {/* Window */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="starts_at">
+                Desde <span className="text-destructive">*</span>
+              </Label>
+              <Input
+                id="starts_at"
+                type="datetime-local"
+                {...register("starts_at")}
+                disabled={isSubmitting}
+              />
+              {errors.starts_at && (
+                <p className="text-sm text-destructive">
+                  {errors.starts_at.message}
+                </p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="expires_at">
+                Hasta <span className="text-destructive">*</span>
+              </Label>
+              <Input
+                id="expires_at"
+                type="datetime-local"
+                {...register("expires_at")}
+                disabled={isSubmitting}
+              />
+              {errors.expires_at && (
+                <p className="text-sm text-destructive">
+                  {errors.expires_at.message}
+                </p>
+              )}
+            </div>
+          </div>
+
+          {/* Scope */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="out-of-office-module">Módulo (Opcional)</Label>
+              <Select
+                value={values.module || ALL}
+                onValueChange={(value) => {
+                  setValue("module", value === ALL ? null : value);
+                  setValue("flow_id", null);
+                }}
+                disabled={isSubmitting}
+              >
+                <SelectTrigger id="out-of-office-module">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>Todos los módulos</SelectItem>
+                  {modules.map((module) => (
+                    <SelectItem key={module} value={module}>
+                      {module}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="out-of-office-flow">Flujo (Opcional)</Label>
+              <Select
+                value={values.flow_id || ALL}
+                onValueChange={(value) =>
+                  setValue("flow_id", value === ALL ? null : value)
+                }
+                disabled={isSubmitting}
+              >
+                <SelectTrigger id="out-of-office-flow">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>Todos los flujos</SelectItem>
+                  {moduleFlows.map((flow) => (
+                    <SelectItem key={flow.id} value={flow.id}>
+                      {flow.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground -mt-4">
+            Si no se especifica, se delegarán todas tus aprobaciones
+          </p>
+
+          {/* Reason */}
+          <div className="space-y-2">
+            <Label htmlFor="reason">Motivo (Opcional)</Label>
+            <Textarea
+              id="reason"
+              rows={2}
+              placeholder="Vacaciones, viaje de trabajo..."
+              {...register("reason")}
+              disabled={isSubmitting}
+            />
+            {errors.reason && (
+              <p className="text-sm text-destructive">
+                {errors.reason.message}
+              </p>
+            )}
+          </div>
+
+          {overlapping && (
+            <p className="text-sm text-amber-700">
+              Ya tienes una ausencia para este alcance entre{" "}
+              {format(new Date(overlapping.starts_at), "dd/MM/yyyy HH:mm")} y{" "}
+              {format(new Date(overlapping.expires_at), "dd/MM/yyyy HH:mm")}
+            </p>
+          )}
+
+          {/* Summary */}
+          {delegate && values.expires_at && (
+            <div className="rounded-md border bg-muted/50 p-4">
+              <p className="text-sm font-medium mb-2">Resumen:</p>
+              <p className="text-sm">
+                Las aprobaciones{scopeLabel} que te asignen hasta el{" "}
+                {format(new Date(values.expires_at), "dd/MM/yyyy HH:mm")} se
+                delegarán a {delegate.full_name || delegate.email}. Las
+                pendientes en ese periodo también se delegarán al guardar.
+              </p>
+            </div>
+          )}
+
+          {/* Form Actions */}
+          <div className="flex items-center justify-end gap-4 pt-4 border-t">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={onClose}
+              disabled={isSubmitting}
+            >
+              Cancelar
+            </Button>
+            <Button type="submit" disabled={loading || isSubmitting}>
+              {isSubmitting ? "Guardando..." : "Guardar Ausencia"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,270 @@
+/**
+ * Approval Out-of-Office Panel
+ * Out-of-office windows of the current user and the requests each one
+ * delegated automatically
+ */
+
+import { useState } from "react";
+import { format } from "date-fns";
+import { Button } from "~/components/ui/button";
+import { Badge } from "~/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "~/components/ui/card";
+import { useAuthStore } from "~/stores/authStore";
+import { useUsers } from "~/features/users/hooks/useUsers";
+import {
+  useApprovalFlows,
+  useDeleteOutOfOfficeRule,
+  useOutOfOfficeDelegations,
+  useOutOfOfficeRules,
+  useUpdateOutOfOfficeRule,
+} from "../hooks/useApprovals";
+import { ApprovalOutOfOfficeModal } from "./ApprovalOutOfOfficeModal";
+import {
+  OUT_OF_OFFICE_STATUS_LABELS,
+  getOutOfOfficeStatus,
+} from "../utils/approval-delegation.utils";
+import type {
+  ApprovalOutOfOfficeResponse,
+  ApprovalOutOfOfficeStatus,
+} from "../types/approval-delegation.types";
+
+const statusColors: Record<ApprovalOutOfOfficeStatus, string> = {
+  scheduled: "bg-blue-100 text-blue-800",
+  active: "bg-green-100 text-green-800",
+  expired: "bg-gray-100 text-gray-800",
+  disabled: "bg-gray-100 text-gray-500",
+};
+
+const formatDateTime = (value: string) =>
+  format(new Date(value), "dd/MM/yyyy HH:mm");
+
+// Audit trail of the requests a rule delegated
+function DelegationHistory({
+  ruleId,
+  userNames,
+}: {
+  ruleId: string;
+  userNames: Map<string, string>;
+}) {
+  const { data, isLoading } = useOutOfOfficeDelegations(ruleId);
+  const delegations = data?.data || [];
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500">Cargando historial...</p>;
+  }
+
+  if (delegations.length === 0) {
+    return (
+      <p className="text-sm text-gray-500">
+        Esta ausencia aún no ha delegado aprobaciones
+      </p>
+    );
+  }
+
+  return (
+    <ul className="divide-y rounded-md border text-sm">
+      {delegations.map((delegation) => (
+        <li
+          key={delegation.id}
+          className="flex items-center justify-between gap-4 p-2"
+        >
+          <div>
+            <p className="font-medium">
+              {delegation.request_title || delegation.request_id}
+            </p>
+            <p className="text-gray-600">
+              Paso {delegation.step_order} · Delegada a{" "}
+              {userNames.get(delegation.to_user_id) ?? delegation.to_user_id}
+            </p>
+          </div>
+          <span className="text-gray-500 whitespace-nowrap">
+            {formatDateTime(delegation.delegated_at)}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export function ApprovalOutOfOfficePanel() {
+  const currentUser = useAuthStore((state) => state.user);
+  const { data: rulesResponse, isLoading } = useOutOfOfficeRules();
+  const { data: flowsResponse } = useApprovalFlows();
+  const { users } = useUsers();
+  const updateRule = useUpdateOutOfOfficeRule();
+  const deleteRule = useDeleteOutOfOfficeRule();
+
+  const [modalOpen, setModalOpen] = useState(false);
+  const [editingRule, setEditingRule] =
+    useState<ApprovalOutOfOfficeResponse | null>(null);
+  const [historyRuleId, setHistoryRuleId] = useState<string | null>(null);
+
+  const rules = [...(rulesResponse?.data || [])].sort(
+    (a, b) => new Date(b.starts_at).getTime() - new Date(a.starts_at).getTime()
+  );
+  const flowNames = new Map(
+    (flowsResponse?.data || []).map((flow) => [flow.id, flow.name])
+  );
+  const userNames = new Map(
+    users.map((user) => [user.id, user.full_name || user.email])
+  );
+
+  const now = new Date();
+  const activeRules = rules.filter(
+    (rule) => getOutOfOfficeStatus(rule, now) === "active"
+  );
+
+  const openModal = (rule: ApprovalOutOfOfficeResponse | null) => {
+    setEditingRule(rule);
+    setModalOpen(true);
+  };
+
+  const handleDelete = (rule: ApprovalOutOfOfficeResponse) => {
+    if (
+      confirm(
+        "¿Estás seguro de que deseas eliminar esta ausencia? Las aprobaciones ya delegadas no se devolverán."
+      )
+    ) {
+      deleteRule.mutate(rule.id);
+    }
+  };
+
+  const getScope = (rule: ApprovalOutOfOfficeResponse) => {
+    if (rule.flow_id) {
+      return `Flujo: ${flowNames.get(rule.flow_id) ?? rule.flow_id}`;
+    }
+    if (rule.module) return `Módulo: ${rule.module}`;
+    return "Todas las aprobaciones";
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold">Fuera de Oficina</h2>
+          <p className="text-sm text-gray-600">
+            Delega automáticamente tus aprobaciones mientras estás ausente
+          </p>
+        </div>
+        <Button onClick={() => openModal(null)}>Registrar Ausencia</Button>
+      </div>
+
+      {activeRules.map((rule) => (
+        <div
+          key={rule.id}
+          role="status"
+          className="rounded-md border border-blue-200 bg-blue-50 p-3 text-sm text-blue-800"
+        >
+          Estás fuera de la oficina hasta el {formatDateTime(rule.expires_at)}.
+          Tus aprobaciones se delegan a{" "}
+          <span className="font-medium">
+            {userNames.get(rule.delegate_to_user_id) ??
+              rule.delegate_to_user_id}
+          </span>{" "}
+          ({getScope(rule)}).
+        </div>
+      ))}
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Cargando ausencias...</p>
+      ) : rules.length === 0 ? (
+        <Card>
+          <CardContent className="py-8 text-center text-sm text-gray-500">
+            No has registrado ausencias
+          </CardContent>
+        </Card>
+      ) : (
+        rules.map((rule) => {
+          const status = getOutOfOfficeStatus(rule, now);
+          const showHistory = historyRuleId === rule.id;
+
+          return (
+            <Card key={rule.id}>
+              <CardHeader className="pb-2">
+                <div className="flex items-center justify-between gap-4">
+                  <CardTitle className="text-base">
+                    {formatDateTime(rule.starts_at)} –{" "}
+                    {formatDateTime(rule.expires_at)}
+                  </CardTitle>
+                  <Badge className={statusColors[status]}>
+                    {OUT_OF_OFFICE_STATUS_LABELS[status]}
+                  </Badge>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <div className="text-sm text-gray-600 space-y-1">
+                  <p>
+                    Delegado:{" "}
+                    <span className="font-medium text-gray-900">
+                      {userNames.get(rule.delegate_to_user_id) ??
+                        rule.delegate_to_user_id}
+                    </span>
+                  </p>
+                  <p>Alcance: {getScope(rule)}</p>
+                  {rule.reason && <p>Motivo: {rule.reason}</p>}
+                </div>
+
+                <div className="flex flex-wrap gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() =>
+                      setHistoryRuleId(showHistory ? null : rule.id)
+                    }
+                  >
+                    {showHistory ? "Ocultar historial" : "Ver historial"}
+                  </Button>
+                  {status !== "expired" && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => openModal(rule)}
+                    >
+                      Editar
+                    </Button>
+                  )}
+                  {status !== "expired" && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={updateRule.isPending}
+                      onClick={() =>
+                        updateRule.mutate({
+                          ruleId: rule.id,
+                          data: { is_active: !rule.is_active },
+                        })
+                      }
+                    >
+                      {rule.is_active ? "Desactivar" : "Activar"}
+                    </Button>
+                  )}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="text-red-600"
+                    disabled={deleteRule.isPending}
+                    onClick={() => handleDelete(rule)}
+                  >
+                    Eliminar
+                  </Button>
+                </div>
+
+                {showHistory && (
+                  <DelegationHistory ruleId={rule.id} userNames={userNames} />
+                )}
+              </CardContent>
+            </Card>
+          );
+        })
+      )}
+
+      <ApprovalOutOfOfficeModal
+        open={modalOpen}
+        onClose={() => setModalOpen(false)}
+        currentUserId={currentUser?.id ?? ""}
+        rule={editingRule}
+        rules={rules}
+      />
+    </div>
+  );
+}
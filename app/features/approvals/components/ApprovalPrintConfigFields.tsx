@@ -0,0 +1,143 @@
+/**
+ * Approval Print Config Fields
+ * Certificate options of an approval step (stored in print_config)
+ */
+
+import { Checkbox } from "~/components/ui/checkbox";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import { Textarea } from "~/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import {
+  DEFAULT_CERTIFICATE_LAYOUT,
+  updatePrintConfig,
+} from "../utils/approval-print.utils";
+import type {
+  ApprovalCertificateOrientation,
+  ApprovalPrintConfig,
+} from "../types/approval-print.types";
+
+type BooleanOption =
+  | "include_in_certificate"
+  | "show_form_data"
+  | "show_logo"
+  | "show_flow_diagram"
+  | "show_metadata";
+
+const STEP_OPTIONS: Array<[BooleanOption, string]> = [
+  ["include_in_certificate", "Incluir las acciones de este paso"],
+  ["show_form_data", "Imprimir los datos del formulario"],
+];
+
+const LAYOUT_OPTIONS: Array<[BooleanOption, string]> = [
+  ["show_logo", "Logo de la empresa"],
+  ["show_flow_diagram", "Diagrama del flujo"],
+  ["show_metadata", "Datos adicionales de la solicitud"],
+];
+
+interface ApprovalPrintConfigFieldsProps {
+  value?: ApprovalPrintConfig | null;
+  onChange: (value: ApprovalPrintConfig | null) => void;
+}
+
+export function ApprovalPrintConfigFields({
+  value,
+  onChange,
+}: ApprovalPrintConfigFieldsProps) {
+  const update = (changes: Partial<ApprovalPrintConfig>) =>
+    onChange(updatePrintConfig(value, changes));
+
+  const isChecked = (option: BooleanOption) =>
+    value?.[option] ??
+    (option === "include_in_certificate" || option === "show_form_data"
+      ? true
+      : DEFAULT_CERTIFICATE_LAYOUT[option]);
+
+  const renderCheckbox = ([option, label]: [BooleanOption, string]) => (
+    <div key={option} className="flex items-center space-x-2">
+      <Checkbox
+        id={`print-${option}`}
+        checked={isChecked(option)}
+        onCheckedChange={(checked) => update({ [option]: checked === true })}
+      />
+      <label htmlFor={`print-${option}`} className="text-sm cursor-pointer">
+        {label}
+      </label>
+    </div>
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">{STEP_OPTIONS.map(renderCheckbox)}</div>
+
+      <p className="text-xs text-gray-500">
+        Diseño del certificado. Si varios pasos lo configuran, se aplica el del
+        último paso.
+      </p>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div>
+          <Label htmlFor="print-title">Título</Label>
+          <Input
+            id="print-title"
+            value={value?.title ?? ""}
+            placeholder={DEFAULT_CERTIFICATE_LAYOUT.title}
+            onChange={(e) => update({ title: e.target.value || undefined })}
+          />
+        </div>
+        <div>
+          <Label htmlFor="print-orientation">Orientación</Label>
+          <Select
+            value={value?.orientation ?? DEFAULT_CERTIFICATE_LAYOUT.orientation}
+            onValueChange={(orientation) =>
+              update({
+                orientation: orientation as ApprovalCertificateOrientation,
+              })
+            }
+          >
+            <SelectTrigger id="print-orientation">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="portrait">Vertical</SelectItem>
+              <SelectItem value="landscape">Horizontal</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      <div className="space-y-2">{LAYOUT_OPTIONS.map(renderCheckbox)}</div>
+      <div>
+        <Label htmlFor="print-signature-lines">
+          Líneas de firma (una por línea)
+        </Label>
+        <Textarea
+          id="print-signature-lines"
+          rows={2}
+          value={(value?.signature_lines ?? []).join("\n")}
+          placeholder="Ej: Director financiero"
+          onChange={(e) =>
+            // Se guarda limpio al leerlo; aquí se conserva lo que se escribe
+            onChange({
+              ...value,
+              signature_lines: e.target.value.split("\n"),
+            })
+          }
+          onBlur={() => update({})}
+        />
+      </div>
+      <div>
+        <Label htmlFor="print-footer">Pie de página</Label>
+        <Input
+          id="print-footer"
+          value={value?.footer_text ?? ""}
+          onChange={(e) => update({ footer_text: e.target.value || undefined })}
+        />
+      </div>
+    </div>
+  );
+}
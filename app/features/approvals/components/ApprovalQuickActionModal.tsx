@@ -3,7 +3,7 @@
  * Modal for quick approval, rejection, or delegation of requests
  */
 
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import {
   Dialog,
   DialogContent,
@@ -16,7 +16,17 @@ import { Button } from "~/components/ui/button";
 import { Input } from "~/components/ui/input";
 import { Textarea } from "~/components/ui/textarea";
 import { Label } from "~/components/ui/label";
+import { ApprovalFormRenderer } from "./ApprovalFormRenderer";
+import { parseFormSchema } from "../utils/approval-form.utils";
+import { validateFormData } from "../validations/approval-form.schema";
 import type { ApprovalRequestResponse } from "../types/approval.types";
+import type { ApprovalFormValues } from "../types/approval-form.types";
+
+export interface ApprovalActionDecision {
+  comment?: string;
+  delegated_to?: string;
+  form_data?: Record<string, unknown>;
+}
 
 interface ApprovalQuickActionModalProps {
   request: ApprovalRequestResponse | null;
@@ -25,9 +35,11 @@ interface ApprovalQuickActionModalProps {
   onAction: (
     requestId: string,
     action: string,
-    decision?: { comment?: string; delegated_to?: string }
+    decision?: ApprovalActionDecision
   ) => void;
   action?: "approve" | "reject" | "delegate";
+  // form_schema of the current step, filled in when approving or rejecting
+  formSchema?: Record<string, unknown> | null;
 }
 
 export function ApprovalQuickActionModal({
@@ -36,13 +48,26 @@ export function ApprovalQuickActionModal({
   onOpenChange,
   onAction,
   action = "approve",
+  formSchema,
 }: ApprovalQuickActionModalProps) {
   const [comment, setComment] = useState("");
   const [delegatedTo, setDelegatedTo] = useState("");
+  const [formValues, setFormValues] = useState<ApprovalFormValues>({});
+  const [formErrors, setFormErrors] = useState<Record<string, string>>({});
+
+  const stepForm = useMemo(() => parseFormSchema(formSchema), [formSchema]);
+  const showForm = !!stepForm && action !== "delegate";
+
+  const resetForm = () => {
+    setComment("");
+    setDelegatedTo("");
+    setFormValues({});
+    setFormErrors({});
+  };
 
   const handleSubmit = () => {
     if (request) {
-      const decision: { comment?: string; delegated_to?: string } = {
+      const decision: ApprovalActionDecision = {
         comment: comment || undefined,
       };
 
@@ -50,16 +75,23 @@ export function ApprovalQuickActionModal({
         decision.delegated_to = delegatedTo;
       }
 
+      if (showForm) {
+        const result = validateFormData(stepForm, formValues);
+        if (!result.success) {
+          setFormErrors(result.errors);
+          return;
+        }
+        decision.form_data = result.data;
+      }
+
       onAction(request.id, action, decision);
-      setComment("");
-      setDelegatedTo("");
+      resetForm();
       onOpenChange(false);
     }
   };
 
   const handleCancel = () => {
-    setComment("");
-    setDelegatedTo("");
+    resetForm();
     onOpenChange(false);
   };
 
@@ -117,7 +149,13 @@ export function ApprovalQuickActionModal({
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-[425px]">
+      <DialogContent
+        className={
+          showForm
+            ? "sm:max-w-[560px] max-h-[85vh] overflow-y-auto"
+            : "sm:max-w-[425px]"
+        }
+      >
         <DialogHeader>
           <DialogTitle>{getActionTitle()}</DialogTitle>
           <DialogDescription>{getActionDescription()}</DialogDescription>
@@ -135,6 +173,17 @@ export function ApprovalQuickActionModal({
               />
             </div>
           )}
+          {showForm && (
+            <ApprovalFormRenderer
+              schema={stepForm}
+              values={formValues}
+              onChange={(values) => {
+                setFormValues(values);
+                setFormErrors({});
+              }}
+              errors={formErrors}
+            />
+          )}
           <div className="grid gap-2">
             <Label htmlFor="comment">Comentario (opcional)</Label>
             <Textarea
@@ -15,6 +15,7 @@ import {
   ArrowLeftIcon,
 } from "@hugeicons/core-free-icons";
 import { HugeiconsIcon } from "@hugeicons/react";
+import { ApprovalSlaBadge } from "./ApprovalSlaBadge";
 import type {
   ApprovalRequestResponse,
   ApprovalStatus,
@@ -72,6 +73,7 @@ export function ApprovalRequestCard({
               <Badge className={getStatusBadge(request.status)}>
                 {request.status}
               </Badge>
+              <ApprovalSlaBadge request={request} />
               <span className="text-sm text-gray-500">
                 • {request.entity_type} • Step {request.current_step}
               </span>
@@ -99,6 +101,19 @@ export function ApprovalRequestCard({
                 <p className="text-sm text-blue-700 mt-1">
                   Step {request.current_step}
                 </p>
+                {request.status === "pending" &&
+                  request.current_step_due_at && (
+                    <p className="text-sm text-blue-700 mt-1">
+                      Due:{" "}
+                      {new Date(request.current_step_due_at).toLocaleString()}
+                    </p>
+                  )}
+                {request.status === "pending" && request.next_reminder_at && (
+                  <p className="text-sm text-blue-700">
+                    Next reminder:{" "}
+                    {new Date(request.next_reminder_at).toLocaleString()}
+                  </p>
+                )}
               </div>
             </div>
           </div>
@@ -270,6 +285,11 @@ export function ApprovalRequestCard({
                     <p>
                       <strong>Flow ID:</strong> {request.flow_id}
                     </p>
+                    {request.flow_version != null && (
+                      <p>
+                        <strong>Flow Version:</strong> v{request.flow_version}
+                      </p>
+                    )}
                     <p>
                       <strong>Status:</strong> {request.status}
                     </p>
@@ -10,6 +10,7 @@ import { Card, CardContent } from "~/components/ui/card";
 import { Badge } from "~/components/ui/badge";
 import { DataTable } from "~/components/common/DataTable";
 import { SearchBar } from "~/components/common/SearchBar";
+import { ApprovalSlaBadge } from "~/features/approvals/components/ApprovalSlaBadge";
 import type {
   ApprovalRequestResponse,
   ApprovalStatus,
@@ -81,6 +82,13 @@ export function ApprovalRequestList({
       cell: (request: ApprovalRequestResponse) =>
         getStatusBadge(request.status),
     },
+    {
+      key: "sla",
+      header: "SLA",
+      cell: (request: ApprovalRequestResponse) => (
+        <ApprovalSlaBadge request={request} />
+      ),
+    },
     {
       key: "requested_by",
       header: "Solicitado por",
@@ -0,0 +1,61 @@
+/**
+ * Approval SLA Badge Component
+ * Countdown to the due date of the current step, or how long it is overdue
+ */
+
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Badge } from "~/components/ui/badge";
+import { formatSlaDuration, getRequestSla } from "../utils/approval-sla.utils";
+import type { ApprovalSlaStatus } from "../types/approval-sla.types";
+import type { ApprovalRequestResponse } from "../types/approval.types";
+
+const statusColors: Record<ApprovalSlaStatus, string> = {
+  on_time: "bg-blue-100 text-blue-800 border-blue-200",
+  due_soon: "bg-amber-100 text-amber-800 border-amber-200",
+  overdue: "bg-red-100 text-red-800 border-red-200",
+};
+
+// Current time, refreshed every interval
+function useNow(intervalMs: number) {
+  const [now, setNow] = useState(() => new Date());
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), intervalMs);
+    return () => clearInterval(timer);
+  }, [intervalMs]);
+  return now;
+}
+
+interface ApprovalSlaBadgeProps {
+  request: ApprovalRequestResponse;
+}
+
+export function ApprovalSlaBadge({ request }: ApprovalSlaBadgeProps) {
+  const now = useNow(60 * 1000);
+  const sla = getRequestSla(request, now);
+  if (!sla) return null;
+
+  const remaining = formatSlaDuration(sla.remainingMs);
+
+  return (
+    <span className="inline-flex items-center gap-1">
+      <Badge
+        variant="outline"
+        className={statusColors[sla.status]}
+        title={`Vence el ${format(sla.dueAt, "dd/MM/yyyy HH:mm")}`}
+      >
+        {sla.status === "overdue"
+          ? `Vencida hace ${remaining}`
+          : `Vence en ${remaining}`}
+      </Badge>
+      {request.escalated_at && (
+        <Badge
+          variant="outline"
+          className="bg-orange-100 text-orange-800 border-orange-200"
+        >
+          Escalada
+        </Badge>
+      )}
+    </span>
+  );
+}
@@ -0,0 +1,167 @@
+/**
+ * Approval SLA Config Fields
+ * Due time, reminder cadence and escalation target of an approval step
+ * (stored in sla_config)
+ */
+
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import {
+  ESCALATION_TARGET_LABELS,
+  parseSlaConfig,
+} from "../utils/approval-sla.utils";
+import { useApproverOptions } from "../hooks/useApprovals";
+import type {
+  ApprovalEscalationTargetType,
+  ApprovalSlaConfig,
+} from "../types/approval-sla.types";
+
+const NO_ESCALATION = "none";
+
+const parseHours = (value: string) => {
+  const hours = Number(value);
+  return Number.isFinite(hours) && hours > 0 ? hours : undefined;
+};
+
+interface ApprovalSlaConfigFieldsProps {
+  value?: ApprovalSlaConfig | null;
+  onChange: (value: ApprovalSlaConfig | null) => void;
+}
+
+export function ApprovalSlaConfigFields({
+  value,
+  onChange,
+}: ApprovalSlaConfigFieldsProps) {
+  const targetType = value?.escalate_to?.type;
+
+  const { data: usersData } = useApproverOptions(
+    "users",
+    targetType === "user"
+  );
+  const { data: rolesData } = useApproverOptions(
+    "roles",
+    targetType === "role"
+  );
+
+  const targetOptions = (targetType === "user" ? usersData : rolesData) || [];
+
+  const update = (changes: Partial<ApprovalSlaConfig>) =>
+    onChange(parseSlaConfig({ ...value, ...changes }));
+
+  const handleTargetTypeChange = (type: string) => {
+    if (type === NO_ESCALATION) {
+      update({ escalate_to: undefined });
+    } else {
+      // El destino se elige después para roles y usuarios
+      onChange(
+        value
+          ? {
+              ...value,
+              escalate_to: { type: type as ApprovalEscalationTargetType },
+            }
+          : null
+      );
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div>
+          <Label htmlFor="sla-due-hours">Plazo (horas)</Label>
+          <Input
+            id="sla-due-hours"
+            type="number"
+            min="1"
+            step="1"
+            value={value?.due_hours ?? ""}
+            placeholder="Sin plazo"
+            onChange={(e) => {
+              const dueHours = parseHours(e.target.value);
+              onChange(dueHours ? { ...value, due_hours: dueHours } : null);
+            }}
+          />
+        </div>
+        <div>
+          <Label htmlFor="sla-reminder-hours">Recordatorio cada (horas)</Label>
+          <Input
+            id="sla-reminder-hours"
+            type="number"
+            min="1"
+            step="1"
+            value={value?.reminder_every_hours ?? ""}
+            placeholder="Sin recordatorios"
+            disabled={!value}
+            onChange={(e) =>
+              update({ reminder_every_hours: parseHours(e.target.value) })
+            }
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div>
+          <Label htmlFor="sla-escalation-type">Escalar al vencer a</Label>
+          <Select
+            value={targetType ?? NO_ESCALATION}
+            onValueChange={handleTargetTypeChange}
+            disabled={!value}
+          >
+            <SelectTrigger id="sla-escalation-type">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_ESCALATION}>No escalar</SelectItem>
+              {(
+                Object.keys(
+                  ESCALATION_TARGET_LABELS
+                ) as ApprovalEscalationTargetType[]
+              ).map((type) => (
+                <SelectItem key={type} value={type}>
+                  {ESCALATION_TARGET_LABELS[type]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {(targetType === "role" || targetType === "user") && (
+          <div>
+            <Label htmlFor="sla-escalation-target">
+              {targetType === "role" ? "Rol" : "Usuario"}
+            </Label>
+            <Select
+              value={value?.escalate_to?.id ?? ""}
+              onValueChange={(id) =>
+                update({ escalate_to: { type: targetType, id } })
+              }
+            >
+              <SelectTrigger id="sla-escalation-target">
+                <SelectValue placeholder="Seleccionar" />
+              </SelectTrigger>
+              <SelectContent>
+                {targetOptions.map((option) => (
+                  <SelectItem key={String(option.id)} value={String(option.id)}>
+                    {String(option.name || option.email || option.id)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+      </div>
+      {(targetType === "role" || targetType === "user") &&
+        !value?.escalate_to?.id && (
+          <p className="text-xs text-amber-700">
+            Elige a quién escalar o la escalada no se guardará
+          </p>
+        )}
+    </div>
+  );
+}
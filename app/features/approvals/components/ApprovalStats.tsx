@@ -5,6 +5,7 @@
 
 import { Card, CardContent, CardHeader, CardTitle } from "~/components/ui/card";
 import { Badge } from "~/components/ui/badge";
+import { computeSlaStats } from "../utils/approval-sla.utils";
 import type { ApprovalRequestResponse } from "../types/approval.types";
 
 interface ApprovalStatsProps {
@@ -56,6 +57,11 @@ export function ApprovalStats({ requests }: ApprovalStatsProps) {
   };
 
   const requestsByFlow = getRequestsByFlow();
+  const slaStats = computeSlaStats(requests);
+  const maxStepHours = Math.max(
+    0,
+    ...slaStats.stepAverages.map((step) => step.avgHours)
+  );
 
   return (
     <div className="space-y-6">
@@ -131,7 +137,7 @@ export function ApprovalStats({ requests }: ApprovalStatsProps) {
       </div>
 
       {/* Metrics */}
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
         <Card>
           <CardHeader>
             <CardTitle>Tasa de Completación</CardTitle>
@@ -175,8 +181,67 @@ export function ApprovalStats({ requests }: ApprovalStatsProps) {
             </p>
           </CardContent>
         </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Cumplimiento SLA</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-4xl font-bold text-teal-600">
+              {slaStats.complianceRate !== null
+                ? `${slaStats.complianceRate}%`
+                : "N/A"}
+            </div>
+            <p className="text-sm text-gray-600 mt-2">
+              {slaStats.met} de {slaStats.met + slaStats.breached} pasos a
+              tiempo
+            </p>
+            {slaStats.overdue > 0 && (
+              <Badge variant="outline" className="mt-2 text-red-700">
+                {slaStats.overdue} vencida{slaStats.overdue !== 1 ? "s" : ""}
+              </Badge>
+            )}
+          </CardContent>
+        </Card>
       </div>
 
+      {/* Time per Step */}
+      {slaStats.stepAverages.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Tiempo Promedio por Paso</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-3">
+              {slaStats.stepAverages.map((step) => (
+                <div
+                  key={step.stepOrder}
+                  className="flex items-center justify-between"
+                >
+                  <span className="text-sm text-gray-600">
+                    Paso {step.stepOrder}
+                    {step.stepName ? ` · ${step.stepName}` : ""}
+                  </span>
+                  <div className="flex items-center gap-2">
+                    <div className="w-32 h-2 bg-gray-200 rounded-full overflow-hidden">
+                      <div
+                        className="h-full bg-purple-600 rounded-full"
+                        style={{
+                          width: `${maxStepHours > 0 ? (step.avgHours / maxStepHours) * 100 : 0}%`,
+                        }}
+                      />
+                    </div>
+                    <span className="text-sm font-medium w-14 text-right">
+                      {step.avgHours}h
+                    </span>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Requests by Flow */}
       <Card>
         <CardHeader>
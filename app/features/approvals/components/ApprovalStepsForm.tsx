@@ -18,7 +18,10 @@ import { Textarea } from "~/components/ui/textarea";
 import { Card, CardContent, CardHeader, CardTitle } from "~/components/ui/card";
 import { PlugIcon, Delete01Icon } from "@hugeicons/core-free-icons";
 import { HugeiconsIcon } from "@hugeicons/react";
+import { ApprovalFormBuilderDialog } from "./ApprovalFormBuilderDialog";
+import { parseFormSchema } from "../utils/approval-form.utils";
 import type { ApprovalStepResponse } from "../types/approval.types";
+import type { ApprovalFormSchema } from "../types/approval-form.types";
 
 interface ApprovalStepsFormProps {
   steps: ApprovalStepResponse[];
@@ -39,6 +42,11 @@ export function ApprovalStepsForm({
     conditions: "{}",
     min_approvals: "1",
   });
+  const [newStepForm, setNewStepForm] = useState<ApprovalFormSchema | null>(
+    null
+  );
+  // "new" edita el formulario del paso por agregar; si no, el id del paso
+  const [formStepId, setFormStepId] = useState<string | null>(null);
 
   const handleAddStep = () => {
     if (!newStep.name) {
@@ -59,7 +67,7 @@ export function ApprovalStepsForm({
       approver_rule: null,
       require_all: false,
       min_approvals: parseInt(newStep.min_approvals, 10) || 1,
-      form_schema: null,
+      form_schema: newStepForm,
       print_config: null,
       rejection_required: false,
       created_at: new Date().toISOString(),
@@ -76,6 +84,28 @@ export function ApprovalStepsForm({
       conditions: "{}",
       min_approvals: "1",
     });
+    setNewStepForm(null);
+  };
+
+  const handleFormSave = (schema: ApprovalFormSchema | null) => {
+    if (formStepId === "new") {
+      setNewStepForm(schema);
+      return;
+    }
+    onStepsChange(
+      steps.map((s) =>
+        s.id === formStepId ? { ...s, form_schema: schema } : s
+      )
+    );
+  };
+
+  const formStep = steps.find((s) => s.id === formStepId);
+
+  const getFormSummary = (formSchema?: Record<string, unknown> | null) => {
+    const fieldCount = parseFormSchema(formSchema)?.order.length ?? 0;
+    return fieldCount === 0
+      ? "Sin formulario"
+      : `${fieldCount} campo${fieldCount !== 1 ? "s" : ""}`;
   };
 
   const handleRemoveStep = (stepId: string) => {
@@ -141,22 +171,29 @@ export function ApprovalStepsForm({
                             </div>
                           )}
 
-                          {step.form_schema &&
-                            Object.keys(step.form_schema).length > 0 && (
-                              <div>
-                                <span className="font-medium">
-                                  Schema:{" "}
-                                </span>
-                                <span className="ml-2">
-                                  {JSON.stringify(step.form_schema)}
-                                </span>
-                              </div>
-                            )}
+                          {parseFormSchema(step.form_schema) && (
+                            <div>
+                              <span className="font-medium">
+                                Formulario:{" "}
+                              </span>
+                              <span className="ml-2">
+                                {getFormSummary(step.form_schema)}
+                              </span>
+                            </div>
+                          )}
                         </div>
                       </div>
 
                       {!readonly && (
                         <div className="flex gap-2">
+                          <Button
+                            type="button"
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setFormStepId(step.id)}
+                          >
+                            Formulario
+                          </Button>
                           <Button
                             type="button"
                             variant="outline"
@@ -284,6 +321,19 @@ export function ApprovalStepsForm({
               />
             </div>
 
+            <div className="flex items-center gap-3">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setFormStepId("new")}
+              >
+                Diseñar formulario
+              </Button>
+              <span className="text-sm text-gray-500">
+                {getFormSummary(newStepForm)}
+              </span>
+            </div>
+
             <Button
               type="button"
               onClick={handleAddStep}
@@ -295,6 +345,14 @@ export function ApprovalStepsForm({
           </CardContent>
         </Card>
       )}
+
+      <ApprovalFormBuilderDialog
+        open={formStepId !== null}
+        onOpenChange={(open) => !open && setFormStepId(null)}
+        stepName={formStepId === "new" ? newStep.name : formStep?.name}
+        value={formStepId === "new" ? newStepForm : formStep?.form_schema}
+        onSave={handleFormSave}
+      />
     </div>
   );
 }
@@ -11,6 +11,7 @@ import {
   ClockIcon,
   AlertCircleIcon,
   ArrowRightIcon,
+  ArrowUpDoubleIcon,
 } from "@hugeicons/core-free-icons";
 import { HugeiconsIcon } from "@hugeicons/react";
 import type { ApprovalTimelineItem } from "~/features/approvals/types/approval.types";
@@ -46,6 +47,11 @@ const actionConfig = {
     color: "bg-purple-100 text-purple-700",
     label: "Comentario",
   },
+  escalation: {
+    icon: ArrowUpDoubleIcon,
+    color: "bg-orange-100 text-orange-700",
+    label: "Escalado",
+  },
   cancelled: {
     icon: AlertCircleIcon,
     color: "bg-gray-100 text-gray-700",
@@ -86,6 +92,8 @@ function TimelineItem({ item }: { item: ApprovalTimelineItem }) {
   const config =
     actionConfig[item.action_type] ||
     actionConfig.created;
+  const isAutoDelegation =
+    item.action_type === "delegate" && item.metadata?.auto_delegated === true;
   const date = new Date(item.acted_at);
   const formattedDate = date.toLocaleDateString("es-ES", {
     year: "numeric",
@@ -107,7 +115,9 @@ function TimelineItem({ item }: { item: ApprovalTimelineItem }) {
       <div className="bg-gray-50 rounded-lg p-4">
         <div className="flex items-start justify-between mb-2">
           <div>
-            <span className="font-medium text-gray-900">{config.label}</span>
+            <span className="font-medium text-gray-900">
+              {isAutoDelegation ? "Delegado automáticamente" : config.label}
+            </span>
             {item.step_order !== undefined && (
               <span className="ml-2 text-sm text-gray-600">
                 (Paso {item.step_order})
@@ -124,6 +134,25 @@ function TimelineItem({ item }: { item: ApprovalTimelineItem }) {
             Por: <span className="font-medium">{item.acted_by}</span>
           </p>
         )}
+        {item.action_type === "escalation" &&
+          typeof item.metadata?.escalated_to === "string" && (
+            <p className="text-sm text-gray-600 mb-2">
+              Escalado a:{" "}
+              <span className="font-medium">{item.metadata.escalated_to}</span>
+            </p>
+          )}
+        {isAutoDelegation && (
+          <p className="text-sm text-gray-600 mb-2">
+            Fuera de oficina:{" "}
+            <span className="font-medium">
+              {String(item.metadata?.from_user ?? "")}
+            </span>{" "}
+            →{" "}
+            <span className="font-medium">
+              {String(item.metadata?.to_user ?? "")}
+            </span>
+          </p>
+        )}
         {item.comment && (
           <div className="bg-white rounded p-3 border border-gray-200">
             <p className="text-sm text-gray-700">{item.comment}</p>
@@ -5,6 +5,7 @@
  */
 
 import { useState } from "react";
+import { format } from "date-fns";
 import { Button } from "~/components/ui/button";
 import { Badge } from "~/components/ui/badge";
 import { Card } from "~/components/ui/card";
@@ -15,6 +16,7 @@ import {
   AlertCircleIcon,
   CheckmarkCircleIcon,
   Cancel01Icon,
+  ArrowRightIcon,
 } from "@hugeicons/core-free-icons";
 import { HugeiconsIcon } from "@hugeicons/react";
 import {
@@ -22,7 +24,9 @@ import {
   useApproveRequest,
   useRejectRequest,
 } from "~/features/approvals/hooks/useApprovals";
+import { getAutoDelegation } from "~/features/approvals/utils/approval-delegation.utils";
 import type { ApprovalWidgetData } from "~/features/approvals/types/approval.types";
+import type { ApprovalAutoDelegation } from "~/features/approvals/types/approval-delegation.types";
 
 type ApprovalWidgetVariant = "full" | "compact" | "minimal";
 
@@ -51,8 +55,11 @@ export function ApprovalWidget({
     return <ApprovalWidgetError variant={variant} />;
   }
 
-  const { request, permissions, current_step } = widgetData.data;
+  const { request, permissions, current_step, timeline } = widgetData.data;
   const isPending = request.status === "pending";
+  const autoDelegation = isPending
+    ? getAutoDelegation(timeline, current_step?.step_order)
+    : null;
   const isApproved = request.status === "approved";
   const isRejected = request.status === "rejected";
   const isCancelled = request.status === "cancelled";
@@ -100,6 +107,7 @@ export function ApprovalWidget({
         rejectionReason={rejectionReason}
         setRejectionReason={setRejectionReason}
         requiresRejectionReason={current_step?.rejection_required || false}
+        autoDelegation={autoDelegation}
       />
     );
   }
@@ -121,6 +129,7 @@ export function ApprovalWidget({
       rejectionReason={rejectionReason}
       setRejectionReason={setRejectionReason}
       requiresRejectionReason={current_step?.rejection_required || false}
+      autoDelegation={autoDelegation}
     />
   );
 }
@@ -170,6 +179,39 @@ function MinimalApprovalWidget({
   );
 }
 
+// Shown while the current step is held by an out-of-office delegate
+function AutoDelegationBanner({
+  delegation,
+}: {
+  delegation: ApprovalAutoDelegation;
+}) {
+  return (
+    <div
+      role="status"
+      className="flex items-start gap-2 bg-blue-50 border border-blue-200 text-blue-800 p-3 rounded-lg mb-4 text-sm"
+    >
+      <HugeiconsIcon icon={ArrowRightIcon} size={16} className="mt-0.5" />
+      <p>
+        Delegada automáticamente
+        {delegation.fromUser && (
+          <>
+            : <span className="font-medium">{delegation.fromUser}</span> está
+            fuera de la oficina
+            {delegation.expiresAt &&
+              ` hasta el ${format(new Date(delegation.expiresAt), "dd/MM/yyyy HH:mm")}`}
+          </>
+        )}
+        {delegation.toUser && (
+          <>
+            . Ahora la aprueba{" "}
+            <span className="font-medium">{delegation.toUser}</span>
+          </>
+        )}
+      </p>
+    </div>
+  );
+}
+
 function CompactApprovalWidget({
   request,
   currentStep,
@@ -186,6 +228,7 @@ function CompactApprovalWidget({
   rejectionReason,
   setRejectionReason,
   requiresRejectionReason,
+  autoDelegation,
 }: {
   request: ApprovalWidgetData["request"];
   currentStep: ApprovalWidgetData["current_step"];
@@ -202,6 +245,7 @@ function CompactApprovalWidget({
   rejectionReason: string;
   setRejectionReason: (value: string) => void;
   requiresRejectionReason: boolean;
+  autoDelegation: ApprovalAutoDelegation | null;
 }) {
   const statusConfig = {
     pending: {
@@ -251,6 +295,8 @@ function CompactApprovalWidget({
         </div>
       </div>
 
+      {autoDelegation && <AutoDelegationBanner delegation={autoDelegation} />}
+
       {isPending && permissions.can_approve && (
         <div className="space-y-3">
           <div>
@@ -343,6 +389,7 @@ function FullApprovalWidget({
   rejectionReason,
   setRejectionReason,
   requiresRejectionReason,
+  autoDelegation,
 }: {
   request: ApprovalWidgetData["request"];
   currentStep: ApprovalWidgetData["current_step"];
@@ -359,6 +406,7 @@ function FullApprovalWidget({
   rejectionReason: string;
   setRejectionReason: (value: string) => void;
   requiresRejectionReason: boolean;
+  autoDelegation: ApprovalAutoDelegation | null;
 }) {
   const statusConfig = {
     pending: {
@@ -413,6 +461,8 @@ function FullApprovalWidget({
         </div>
       </div>
 
+      {autoDelegation && <AutoDelegationBanner delegation={autoDelegation} />}
+
       {currentStep && (
         <div className="bg-gray-50 p-3 rounded-lg mb-4">
           <p className="text-sm font-medium text-gray-700">
@@ -20,14 +20,26 @@ import "reactflow/dist/style.css";
 import { ApprovalNode, ConcentratorNode, StartNode, EndNode } from "./nodes";
 import { ApprovalNodeConfigModal } from "./ApprovalNodeConfigModal";
 import { ConcentratorNodeConfigModal } from "./ConcentratorNodeConfigModal";
+import { FlowSimulatorPanel } from "./FlowSimulatorPanel";
+import { FlowVersionDiffPanel } from "./FlowVersionDiffPanel";
+import { useApproverNames } from "../hooks/useApprovals";
+import { diffFlowGraphs } from "../utils/flow-version.utils";
+import {
+  createSimulation,
+  type FlowSimulationState,
+} from "../utils/flow-simulator.utils";
 import type {
   FlowNode,
   ApprovalNodeData,
   ConcentratorNodeData,
   FlowValidationResult,
 } from "../types/flow-editor.types";
+import type {
+  FlowDiffStatus,
+  FlowGraphSnapshot,
+} from "../types/approval-version.types";
 import { Button } from "~/components/ui/button";
-import { Plus, Save, Eye, Trash2 } from "lucide-react";
+import { Plus, Save, Eye, Trash2, PlayCircle, GitCompare } from "lucide-react";
 import {
   Tooltip,
   TooltipContent,
@@ -35,6 +47,18 @@ import {
   TooltipTrigger,
 } from "~/components/ui/tooltip";
 
+const DIFF_NODE_CLASSES: Record<FlowDiffStatus, string> = {
+  added: "rounded-lg ring-4 ring-green-400",
+  changed: "rounded-lg ring-4 ring-amber-400",
+  removed: "rounded-lg ring-4 ring-red-400 opacity-50",
+};
+
+const DIFF_EDGE_COLORS: Record<FlowDiffStatus, string> = {
+  added: "#22c55e",
+  changed: "#f59e0b",
+  removed: "#ef4444",
+};
+
 // Register custom node types
 const nodeTypes = {
   approval: ApprovalNode,
@@ -49,6 +73,9 @@ interface FlowEditorProps {
   onSave?: (nodes: Node[], edges: Edge[]) => void;
   onPreview?: () => void;
   readonly?: boolean;
+  // Version to compare the graph with; readonly editors always show the diff
+  diffBase?: FlowGraphSnapshot | null;
+  diffLabels?: { base: string; target: string };
 }
 
 export function FlowEditor({
@@ -57,6 +84,8 @@ export function FlowEditor({
   onSave,
   onPreview,
   readonly = false,
+  diffBase = null,
+  diffLabels = { base: "Publicada", target: "Actual" },
 }: FlowEditorProps) {
   const [nodes, setNodes, _onNodesChange] = useNodesState(initialNodes);
   const [edges, setEdges, _onEdgesChange] = useEdgesState(initialEdges);
@@ -64,6 +93,11 @@ export function FlowEditor({
   const [approvalModalOpen, setApprovalModalOpen] = useState(false);
   const [concentratorModalOpen, setConcentratorModalOpen] = useState(false);
   const [reactFlowKey, setReactFlowKey] = useState(0);
+  const [simulation, setSimulation] = useState<FlowSimulationState | null>(
+    null
+  );
+  const [showDiff, setShowDiff] = useState(readonly);
+  const approverNames = useApproverNames();
 
   useEffect(() => {
     const uniqueNodes = Array.from(
@@ -290,10 +324,20 @@ export function FlowEditor({
     []
   );
 
+  // Compare with the base version, ignoring layout changes
+  const diff = useMemo(
+    () =>
+      diffBase && showDiff
+        ? diffFlowGraphs(diffBase, { nodes, edges }, approverNames)
+        : null,
+    [diffBase, showDiff, nodes, edges, approverNames]
+  );
+
   // Handle node click
   const onNodeClick = useCallback(
     (_: React.MouseEvent, node: Node) => {
-      if (readonly) return;
+      // Removed nodes are only shown while comparing versions
+      if (readonly || diff?.nodes[node.id] === "removed") return;
       setSelectedNode(node as FlowNode);
 
       // Open appropriate modal based on node type
@@ -303,7 +347,7 @@ export function FlowEditor({
         setConcentratorModalOpen(true);
       }
     },
-    [readonly]
+    [readonly, diff]
   );
 
   // Handle edge connection
@@ -429,6 +473,85 @@ export function FlowEditor({
     };
   }, [nodes, edges, calculateMaxDepth, checkForCycles]);
 
+  // Diff mode: removed nodes and edges of the base version stay as ghosts
+  const diffNodes = useMemo(() => {
+    if (!diff || !diffBase) return nodes;
+    const removed = diffBase.nodes
+      .filter((node) => diff.nodes[node.id] === "removed")
+      .map((node) => ({
+        ...node,
+        draggable: false,
+        selectable: false,
+        className: DIFF_NODE_CLASSES.removed,
+      }));
+    return [
+      ...nodes.map((node) => {
+        const status = diff.nodes[node.id];
+        return status ? { ...node, className: DIFF_NODE_CLASSES[status] } : node;
+      }),
+      ...removed,
+    ];
+  }, [nodes, diff, diffBase]);
+
+  const diffEdges = useMemo(() => {
+    if (!diff || !diffBase) return edges;
+    const removed = diffBase.edges
+      .filter((edge) => diff.edges[edge.id] === "removed")
+      .map((edge) => ({
+        ...edge,
+        selectable: false,
+        style: {
+          stroke: DIFF_EDGE_COLORS.removed,
+          strokeWidth: 2,
+          strokeDasharray: "6 4",
+        },
+      }));
+    return [
+      ...edges.map((edge) => {
+        const status = diff.edges[edge.id];
+        return status
+          ? {
+              ...edge,
+              style: {
+                ...edge.style,
+                stroke: DIFF_EDGE_COLORS[status],
+                strokeWidth: 2,
+              },
+            }
+          : edge;
+      }),
+      ...removed,
+    ];
+  }, [edges, diff, diffBase]);
+
+  // Highlight the simulated path: tokens pulse, visited nodes stay marked
+  const displayedNodes = useMemo(() => {
+    if (!simulation) return diffNodes;
+    return nodes.map((node) => {
+      const className = simulation.rejectedNodeIds.includes(node.id)
+        ? "rounded-lg ring-4 ring-red-400"
+        : simulation.activeNodeIds.includes(node.id)
+          ? "rounded-lg ring-4 ring-amber-400 animate-pulse"
+          : simulation.visitedNodeIds.includes(node.id)
+            ? "rounded-lg ring-2 ring-green-400"
+            : "opacity-60";
+      return { ...node, className };
+    });
+  }, [nodes, diffNodes, simulation]);
+
+  const displayedEdges = useMemo(() => {
+    if (!simulation) return diffEdges;
+    return edges.map((edge) =>
+      simulation.traversedEdgeIds.includes(edge.id)
+        ? {
+            ...edge,
+            animated: true,
+            style: { ...edge.style, stroke: "#22c55e", strokeWidth: 2 },
+          }
+        : { ...edge, animated: false }
+    );
+  }, [edges, diffEdges, simulation]);
+
   return (
     <div className="h-full flex flex-col">
       {/* Toolbar */}
@@ -472,6 +595,30 @@ export function FlowEditor({
           </div>
 
           <div className="flex items-center gap-2">
+            {diffBase && (
+              <Button
+                size="sm"
+                variant={showDiff ? "secondary" : "outline"}
+                onClick={() => {
+                  setShowDiff(!showDiff);
+                  setSimulation(null);
+                }}
+              >
+                <GitCompare className="w-4 h-4 mr-2" />
+                Cambios
+              </Button>
+            )}
+            <Button
+              size="sm"
+              variant={simulation ? "secondary" : "outline"}
+              onClick={() => {
+                setSimulation(simulation ? null : createSimulation(nodes));
+                setShowDiff(false);
+              }}
+            >
+              <PlayCircle className="w-4 h-4 mr-2" />
+              Simular
+            </Button>
             {onPreview && (
               <Button size="sm" variant="outline" onClick={onPreview}>
                 <Eye className="w-4 h-4 mr-2" />
@@ -515,28 +662,51 @@ export function FlowEditor({
       </div>
 
       {/* Flow Canvas */}
-      <div className="flex-1">
-        <ReactFlow
-          key={reactFlowKey}
-          nodes={nodes}
-          edges={edges}
-          onNodesChange={onNodesChange}
-          onEdgesChange={onEdgesChange}
-          onConnect={onConnect}
-          onNodeClick={onNodeClick}
-          nodeTypes={nodeTypes}
-          fitView
-          nodesDraggable={!readonly}
-          nodesConnectable={!readonly}
-          elementsSelectable={!readonly}
-          zoomOnScroll={!readonly}
-          panOnScroll={!readonly}
-          deleteKeyCode={["Backspace", "Delete"]}
-        >
-          <Controls />
-          <MiniMap />
-          <Background variant={BackgroundVariant.Dots} gap={12} size={1} />
-        </ReactFlow>
+      <div className="flex-1 flex min-h-0">
+        <div className="flex-1">
+          <ReactFlow
+            key={reactFlowKey}
+            nodes={displayedNodes}
+            edges={displayedEdges}
+            onNodesChange={onNodesChange}
+            onEdgesChange={onEdgesChange}
+            onConnect={onConnect}
+            onNodeClick={onNodeClick}
+            nodeTypes={nodeTypes}
+            fitView
+            nodesDraggable={!readonly}
+            nodesConnectable={!readonly}
+            elementsSelectable={!readonly}
+            zoomOnScroll={!readonly}
+            panOnScroll={!readonly}
+            deleteKeyCode={["Backspace", "Delete"]}
+          >
+            <Controls />
+            <MiniMap />
+            <Background variant={BackgroundVariant.Dots} gap={12} size={1} />
+          </ReactFlow>
+        </div>
+
+        {/* Simulation Panel */}
+        {simulation && (
+          <FlowSimulatorPanel
+            nodes={nodes}
+            edges={edges}
+            state={simulation}
+            onStateChange={setSimulation}
+            onClose={() => setSimulation(null)}
+          />
+        )}
+
+        {/* Version Diff Panel */}
+        {diff && !simulation && (
+          <FlowVersionDiffPanel
+            diff={diff}
+            baseLabel={diffLabels.base}
+            targetLabel={diffLabels.target}
+            onClose={readonly ? undefined : () => setShowDiff(false)}
+          />
+        )}
       </div>
 
       {/* Configuration Modals */}
@@ -0,0 +1,90 @@
+/**
+ * Flow Publish Dialog
+ * Publishes the draft of a flow as a new version with an optional change note
+ */
+
+import { useState } from "react";
+import { Button } from "~/components/ui/button";
+import { Label } from "~/components/ui/label";
+import { Textarea } from "~/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "~/components/ui/dialog";
+import { usePublishFlowDraft } from "../hooks/useApprovals";
+import type { ApprovalFlowResponse } from "../types/approval.types";
+
+interface FlowPublishDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  flow: ApprovalFlowResponse;
+  onPublished?: () => void;
+}
+
+export function FlowPublishDialog({
+  open,
+  onOpenChange,
+  flow,
+  onPublished,
+}: FlowPublishDialogProps) {
+  const publishMutation = usePublishFlowDraft();
+  const [changeNote, setChangeNote] = useState("");
+
+  const handlePublish = () => {
+    publishMutation.mutate(
+      {
+        flowId: flow.id,
+        data: { change_note: changeNote.trim() || null },
+      },
+      {
+        onSuccess: () => {
+          setChangeNote("");
+          onOpenChange(false);
+          onPublished?.();
+        },
+        onError: () => {
+          alert("Error al publicar el flujo. Por favor intenta nuevamente.");
+        },
+      }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Publicar borrador</DialogTitle>
+          <DialogDescription>
+            Las nuevas solicitudes usarán esta versión.
+            {flow.published_version != null &&
+              ` Las solicitudes en curso seguirán con la v${flow.published_version}.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="change-note">Descripción del cambio (opcional)</Label>
+          <Textarea
+            id="change-note"
+            rows={3}
+            placeholder="Ej.: Finanzas aprueba importes mayores de 5.000 €"
+            value={changeNote}
+            onChange={(e) => setChangeNote(e.target.value)}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button onClick={handlePublish} disabled={publishMutation.isPending}>
+            {publishMutation.isPending ? "Publicando..." : "Publicar"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,329 @@
+/**
+ * Flow Simulator Panel
+ * Runs an approval flow with sample request data, showing the path the
+ * request takes and which approvers would be asked
+ */
+
+import { useEffect, useMemo, useState } from "react";
+import type { Node, Edge } from "reactflow";
+import { Pause, Play, RotateCcw, StepForward, X } from "lucide-react";
+import { Badge } from "~/components/ui/badge";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import { Textarea } from "~/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "~/components/ui/tabs";
+import {
+  createSimulation,
+  getConditionFields,
+  getMetadataValue,
+  setMetadataValue,
+  stepSimulation,
+  type FlowSimulationState,
+  type SimulationDecision,
+  type SimulationStatus,
+} from "../utils/flow-simulator.utils";
+import { useApproverNames } from "../hooks/useApprovals";
+import type { ApprovalNodeData } from "../types/flow-editor.types";
+
+const PLAY_INTERVAL_MS = 800;
+
+const STATUS_LABELS: Record<SimulationStatus, string> = {
+  running: "En curso",
+  approved: "Aprobada",
+  rejected: "Rechazada",
+  stuck: "Bloqueada",
+};
+
+const STATUS_CLASSES: Record<SimulationStatus, string> = {
+  running: "bg-amber-100 text-amber-800",
+  approved: "bg-green-100 text-green-800",
+  rejected: "bg-red-100 text-red-800",
+  stuck: "bg-gray-200 text-gray-800",
+};
+
+const APPROVER_TYPE_LABELS: Record<ApprovalNodeData["approverType"], string> = {
+  user: "Usuario",
+  role: "Rol",
+  group: "Grupo",
+};
+
+// Convierte lo escrito en el formulario al tipo que usan las condiciones
+const parseFieldValue = (value: string): unknown => {
+  const trimmed = value.trim();
+  if (trimmed === "true") return true;
+  if (trimmed === "false") return false;
+  if (trimmed !== "" && String(Number(trimmed)) === trimmed) {
+    return Number(trimmed);
+  }
+  return value;
+};
+
+interface FlowSimulatorPanelProps {
+  nodes: Node[];
+  edges: Edge[];
+  state: FlowSimulationState;
+  onStateChange: (state: FlowSimulationState) => void;
+  onClose: () => void;
+}
+
+export function FlowSimulatorPanel({
+  nodes,
+  edges,
+  state,
+  onStateChange,
+  onClose,
+}: FlowSimulatorPanelProps) {
+  const [metadata, setMetadata] = useState<Record<string, unknown>>({});
+  const [jsonText, setJsonText] = useState("{}");
+  const [jsonError, setJsonError] = useState<string | null>(null);
+  const [decisions, setDecisions] = useState<
+    Record<string, SimulationDecision>
+  >({});
+  const [playing, setPlaying] = useState(false);
+
+  const approverNames = useApproverNames();
+  const fields = useMemo(() => getConditionFields(edges), [edges]);
+  const approvalNodes = nodes.filter((node) => node.type === "approval");
+  const isRunning = state.status === "running";
+  const isPlaying = playing && isRunning;
+
+  const step = () =>
+    onStateChange(stepSimulation(nodes, edges, state, metadata, decisions));
+
+  // Reproduce la simulación paso a paso hasta que termina
+  useEffect(() => {
+    if (!isPlaying) return;
+    const timer = setTimeout(
+      () =>
+        onStateChange(stepSimulation(nodes, edges, state, metadata, decisions)),
+      PLAY_INTERVAL_MS
+    );
+    return () => clearTimeout(timer);
+  }, [isPlaying, state, nodes, edges, metadata, decisions, onStateChange]);
+
+  const updateMetadata = (next: Record<string, unknown>) => {
+    setMetadata(next);
+    setJsonText(JSON.stringify(next, null, 2));
+    setJsonError(null);
+  };
+
+  const handleJsonChange = (value: string) => {
+    setJsonText(value);
+    try {
+      const parsed = JSON.parse(value) as unknown;
+      if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+        setJsonError("Los datos deben ser un objeto JSON");
+        return;
+      }
+      setMetadata(parsed as Record<string, unknown>);
+      setJsonError(null);
+    } catch {
+      setJsonError("JSON no válido");
+    }
+  };
+
+  const handleReset = () => {
+    setPlaying(false);
+    onStateChange(createSimulation(nodes));
+  };
+
+  const formatApprovers = (approvers: string[]) =>
+    approvers.length === 0
+      ? "Sin aprobadores"
+      : approvers.map((id) => approverNames.get(id) ?? id).join(", ");
+
+  return (
+    <aside className="w-96 border-l bg-white flex flex-col min-h-0">
+      <div className="flex items-center justify-between border-b px-4 py-3">
+        <div className="flex items-center gap-2">
+          <h3 className="font-semibold">Simulación</h3>
+          <Badge className={STATUS_CLASSES[state.status]} variant="secondary">
+            {STATUS_LABELS[state.status]}
+          </Badge>
+        </div>
+        <Button
+          size="icon"
+          variant="ghost"
+          onClick={onClose}
+          aria-label="Cerrar simulación"
+        >
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-6">
+        {/* Sample data */}
+        <section className="space-y-2">
+          <h4 className="text-sm font-medium">Datos de la solicitud</h4>
+          <Tabs defaultValue="form">
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="form">Formulario</TabsTrigger>
+              <TabsTrigger value="json">JSON</TabsTrigger>
+            </TabsList>
+            <TabsContent value="form" className="space-y-3 pt-2">
+              {fields.length === 0 ? (
+                <p className="text-sm text-gray-500">
+                  Las conexiones no tienen condiciones; la solicitud sigue todas
+                  las ramas.
+                </p>
+              ) : (
+                fields.map((field) => {
+                  const value = getMetadataValue(metadata, field);
+                  return (
+                    <div key={field} className="space-y-1">
+                      <Label htmlFor={`sim-field-${field}`}>{field}</Label>
+                      <Input
+                        id={`sim-field-${field}`}
+                        value={value === undefined ? "" : String(value)}
+                        onChange={(e) =>
+                          updateMetadata(
+                            setMetadataValue(
+                              metadata,
+                              field,
+                              parseFieldValue(e.target.value)
+                            )
+                          )
+                        }
+                      />
+                    </div>
+                  );
+                })
+              )}
+            </TabsContent>
+            <TabsContent value="json" className="space-y-1 pt-2">
+              <Textarea
+                aria-label="Datos en JSON"
+                className="font-mono text-xs"
+                rows={8}
+                value={jsonText}
+                onChange={(e) => handleJsonChange(e.target.value)}
+              />
+              {jsonError && <p className="text-xs text-red-600">{jsonError}</p>}
+            </TabsContent>
+          </Tabs>
+        </section>
+
+        {/* Decisions per approval node */}
+        <section className="space-y-2">
+          <h4 className="text-sm font-medium">Decisión de cada aprobación</h4>
+          {approvalNodes.map((node) => {
+            const data = node.data as ApprovalNodeData;
+            const decision = decisions[node.id] ?? "approve";
+            return (
+              <div
+                key={node.id}
+                className="flex items-center justify-between gap-2"
+              >
+                <span className="text-sm truncate">{data.name}</span>
+                <div
+                  className="flex gap-1"
+                  role="group"
+                  aria-label={`Decisión de ${data.name}`}
+                >
+                  {(["approve", "reject"] as const).map((option) => (
+                    <Button
+                      key={option}
+                      size="sm"
+                      variant={decision === option ? "default" : "outline"}
+                      aria-pressed={decision === option}
+                      onClick={() =>
+                        setDecisions((prev) => ({
+                          ...prev,
+                          [node.id]: option,
+                        }))
+                      }
+                    >
+                      {option === "approve" ? "Aprobar" : "Rechazar"}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </section>
+
+        {/* Controls */}
+        <div className="flex gap-2">
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={step}
+            disabled={!isRunning || isPlaying || !!jsonError}
+          >
+            <StepForward className="w-4 h-4 mr-2" />
+            Paso
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => setPlaying(!isPlaying)}
+            disabled={!isRunning || !!jsonError}
+          >
+            {isPlaying ? (
+              <Pause className="w-4 h-4 mr-2" />
+            ) : (
+              <Play className="w-4 h-4 mr-2" />
+            )}
+            {isPlaying ? "Pausar" : "Reproducir"}
+          </Button>
+          <Button size="sm" variant="ghost" onClick={handleReset}>
+            <RotateCcw className="w-4 h-4 mr-2" />
+            Reiniciar
+          </Button>
+        </div>
+
+        {/* Approvers asked, in order */}
+        <section className="space-y-2">
+          <h4 className="text-sm font-medium">Aprobadores consultados</h4>
+          {state.requests.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              Aún no se ha consultado a ningún aprobador
+            </p>
+          ) : (
+            <ol className="space-y-2">
+              {state.requests.map((request, index) => (
+                <li
+                  key={`${request.nodeId}-${index}`}
+                  className="rounded border p-2 text-sm"
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium">
+                      {request.order}. {request.name}
+                    </span>
+                    <span className="text-xs text-gray-500">
+                      {APPROVER_TYPE_LABELS[request.approverType]}
+                    </span>
+                  </div>
+                  <div className="text-gray-600">
+                    {formatApprovers(request.approvers)}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {request.requireAll
+                      ? "Requiere todas las aprobaciones"
+                      : `Mínimo ${request.minApprovals ?? 1} aprobaciones`}
+                  </div>
+                </li>
+              ))}
+            </ol>
+          )}
+        </section>
+
+        {/* Log */}
+        {state.log.length > 0 && (
+          <section className="space-y-2">
+            <h4 className="text-sm font-medium">Recorrido</h4>
+            <ul className="space-y-1 text-xs text-gray-600">
+              {state.log.map((entry, index) => (
+                <li key={index}>
+                  <span className="text-gray-400">Paso {entry.step}:</span>{" "}
+                  {entry.message}
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+      </div>
+    </aside>
+  );
+}
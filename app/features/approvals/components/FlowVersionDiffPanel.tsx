@@ -0,0 +1,115 @@
+/**
+ * Flow Version Diff Panel
+ * Lists the nodes, connections, conditions and approvers that changed
+ * between two versions of a flow
+ */
+
+import { X } from "lucide-react";
+import { Badge } from "~/components/ui/badge";
+import { Button } from "~/components/ui/button";
+import type {
+  FlowDiffStatus,
+  FlowGraphDiff,
+} from "../types/approval-version.types";
+
+const STATUS_LABELS: Record<FlowDiffStatus, string> = {
+  added: "Añadido",
+  removed: "Eliminado",
+  changed: "Modificado",
+};
+
+const DIFF_STATUS_CLASSES: Record<FlowDiffStatus, string> = {
+  added: "bg-green-100 text-green-800",
+  removed: "bg-red-100 text-red-800",
+  changed: "bg-amber-100 text-amber-800",
+};
+
+interface FlowVersionDiffPanelProps {
+  diff: FlowGraphDiff;
+  // Names of the compared versions, e.g. "v3" and "Borrador"
+  baseLabel: string;
+  targetLabel: string;
+  onClose?: () => void;
+}
+
+export function FlowVersionDiffPanel({
+  diff,
+  baseLabel,
+  targetLabel,
+  onClose,
+}: FlowVersionDiffPanelProps) {
+  const count = (status: FlowDiffStatus) =>
+    diff.changes.filter((change) => change.status === status).length;
+
+  return (
+    <aside className="w-96 border-l bg-white flex flex-col min-h-0">
+      <div className="flex items-center justify-between border-b px-4 py-3">
+        <div>
+          <h3 className="font-semibold">Cambios</h3>
+          <p className="text-xs text-gray-500">
+            {baseLabel} → {targetLabel}
+          </p>
+        </div>
+        {onClose && (
+          <Button
+            size="icon"
+            variant="ghost"
+            onClick={onClose}
+            aria-label="Cerrar cambios"
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        <div className="flex flex-wrap gap-2">
+          {(["added", "changed", "removed"] as const).map((status) => (
+            <Badge
+              key={status}
+              variant="secondary"
+              className={DIFF_STATUS_CLASSES[status]}
+            >
+              {STATUS_LABELS[status]}: {count(status)}
+            </Badge>
+          ))}
+        </div>
+
+        {diff.changes.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            No hay diferencias entre las versiones
+          </p>
+        ) : (
+          <ul className="space-y-2">
+            {diff.changes.map((change) => (
+              <li
+                key={`${change.kind}-${change.id}`}
+                className="rounded-md border p-3 text-sm"
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-medium truncate">
+                    {change.kind === "edge" ? "Conexión " : ""}
+                    {change.label}
+                  </span>
+                  <Badge
+                    variant="secondary"
+                    className={DIFF_STATUS_CLASSES[change.status]}
+                  >
+                    {STATUS_LABELS[change.status]}
+                  </Badge>
+                </div>
+                {change.details.length > 0 && (
+                  <ul className="mt-2 space-y-1 text-gray-600">
+                    {change.details.map((detail) => (
+                      <li key={detail}>{detail}</li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </aside>
+  );
+}
@@ -0,0 +1,343 @@
+/**
+ * Flow Version History
+ * Published versions of a flow and its draft, a visual diff between any two
+ * of them and rollback to a previous version
+ */
+
+import { useMemo, useState } from "react";
+import { format } from "date-fns";
+import { ArrowLeft, GitCompare, RotateCcw } from "lucide-react";
+import { Badge } from "~/components/ui/badge";
+import { Button } from "~/components/ui/button";
+import { Label } from "~/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "~/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import { FlowEditor } from "./FlowEditor";
+import {
+  useApproverNames,
+  useFlowVersion,
+  useFlowVersions,
+  useRollbackFlowVersion,
+} from "../hooks/useApprovals";
+import {
+  VERSION_STATUS_LABELS,
+  getVersionGraph,
+} from "../utils/flow-version.utils";
+import type { ApprovalFlowResponse } from "../types/approval.types";
+import type {
+  ApprovalFlowVersionResponse,
+  ApprovalFlowVersionStatus,
+} from "../types/approval-version.types";
+
+const STATUS_CLASSES: Record<ApprovalFlowVersionStatus, string> = {
+  draft: "bg-amber-100 text-amber-800",
+  published: "bg-green-100 text-green-800",
+  archived: "bg-gray-100 text-gray-800",
+};
+
+type VersionPair = { base: number; target: number };
+
+const versionLabel = (version: ApprovalFlowVersionResponse) =>
+  version.status === "draft"
+    ? `v${version.version} (borrador)`
+    : `v${version.version}`;
+
+// Diff of two versions drawn on a read-only editor
+function VersionCompare({
+  flowId,
+  pair,
+  versions,
+}: {
+  flowId: string;
+  pair: VersionPair;
+  versions: ApprovalFlowVersionResponse[];
+}) {
+  const { data: baseResponse, isLoading: baseLoading } = useFlowVersion(
+    flowId,
+    pair.base
+  );
+  const { data: targetResponse, isLoading: targetLoading } = useFlowVersion(
+    flowId,
+    pair.target
+  );
+  const base = baseResponse?.data;
+  const target = targetResponse?.data;
+
+  const baseGraph = useMemo(() => base && getVersionGraph(base), [base]);
+  const targetGraph = useMemo(
+    () => target && getVersionGraph(target),
+    [target]
+  );
+
+  if (baseLoading || targetLoading) {
+    return <p className="text-sm text-gray-500">Cargando versiones...</p>;
+  }
+
+  if (!baseGraph || !targetGraph) {
+    return (
+      <p className="text-sm text-red-600">
+        No se pudieron cargar las versiones
+      </p>
+    );
+  }
+
+  const label = (version: number) => {
+    const item = versions.find((v) => v.version === version);
+    return item ? versionLabel(item) : `v${version}`;
+  };
+
+  return (
+    <div className="h-[65vh] border rounded-lg">
+      <FlowEditor
+        initialNodes={targetGraph.nodes}
+        initialEdges={targetGraph.edges}
+        diffBase={baseGraph}
+        diffLabels={{ base: label(pair.base), target: label(pair.target) }}
+        readonly
+      />
+    </div>
+  );
+}
+
+interface FlowVersionHistoryProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  flow: ApprovalFlowResponse;
+}
+
+export function FlowVersionHistory({
+  open,
+  onOpenChange,
+  flow,
+}: FlowVersionHistoryProps) {
+  const { data: versionsResponse, isLoading } = useFlowVersions(flow.id);
+  const rollbackMutation = useRollbackFlowVersion();
+  const userNames = useApproverNames();
+
+  const [compare, setCompare] = useState<VersionPair | null>(null);
+  const [selection, setSelection] = useState<Partial<VersionPair>>({});
+
+  const versions = [...(versionsResponse?.data || [])].sort(
+    (a, b) => b.version - a.version
+  );
+
+  const handleRollback = (version: ApprovalFlowVersionResponse) => {
+    if (
+      !confirm(
+        `¿Restaurar la versión ${version.version}? Se publicará como una versión nueva. Las solicitudes en curso mantendrán la versión con la que empezaron.`
+      )
+    ) {
+      return;
+    }
+
+    rollbackMutation.mutate(
+      {
+        flowId: flow.id,
+        version: version.version,
+        data: { change_note: `Restaurada desde v${version.version}` },
+      },
+      {
+        onSuccess: (response) => {
+          alert(
+            `Versión ${version.version} restaurada como v${response.data.version}`
+          );
+        },
+        onError: () => {
+          alert("Error al restaurar la versión. Por favor intenta nuevamente.");
+        },
+      }
+    );
+  };
+
+  const handleOpenChange = (value: boolean) => {
+    if (!value) {
+      setCompare(null);
+      setSelection({});
+    }
+    onOpenChange(value);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[1100px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Historial de versiones: {flow.name}</DialogTitle>
+          <DialogDescription>
+            Las nuevas solicitudes usan la versión publicada; las solicitudes en
+            curso mantienen la versión con la que empezaron
+          </DialogDescription>
+        </DialogHeader>
+
+        {compare ? (
+          <div className="space-y-4">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setCompare(null)}
+            >
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Volver al historial
+            </Button>
+            <VersionCompare
+              flowId={flow.id}
+              pair={compare}
+              versions={versions}
+            />
+          </div>
+        ) : isLoading ? (
+          <p className="text-sm text-gray-500">Cargando historial...</p>
+        ) : versions.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            Este flujo aún no tiene versiones publicadas
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {/* Compare any two versions */}
+            <div className="flex flex-wrap items-end gap-3 rounded-md border bg-muted/50 p-3">
+              {(["base", "target"] as const).map((key) => (
+                <div key={key} className="space-y-1">
+                  <Label htmlFor={`compare-${key}`}>
+                    {key === "base" ? "Comparar desde" : "Hasta"}
+                  </Label>
+                  <Select
+                    value={selection[key]?.toString() ?? ""}
+                    onValueChange={(value) =>
+                      setSelection((prev) => ({
+                        ...prev,
+                        [key]: Number(value),
+                      }))
+                    }
+                  >
+                    <SelectTrigger id={`compare-${key}`} className="w-44">
+                      <SelectValue placeholder="Versión" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {versions.map((version) => (
+                        <SelectItem
+                          key={version.id}
+                          value={version.version.toString()}
+                        >
+                          {versionLabel(version)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+              <Button
+                size="sm"
+                disabled={
+                  selection.base == null ||
+                  selection.target == null ||
+                  selection.base === selection.target
+                }
+                onClick={() =>
+                  setCompare({
+                    base: selection.base!,
+                    target: selection.target!,
+                  })
+                }
+              >
+                <GitCompare className="w-4 h-4 mr-2" />
+                Comparar
+              </Button>
+            </div>
+
+            <ul className="divide-y rounded-md border">
+              {versions.map((version, index) => {
+                const previous = versions[index + 1];
+                const isCurrent =
+                  version.status === "published" &&
+                  version.version === flow.published_version;
+                const date = version.published_at ?? version.created_at;
+                const author = version.published_by ?? version.created_by;
+
+                return (
+                  <li
+                    key={version.id}
+                    className="flex items-start justify-between gap-4 p-4"
+                  >
+                    <div className="space-y-1 text-sm">
+                      <div className="flex items-center gap-2">
+                        <span className="font-semibold">
+                          v{version.version}
+                        </span>
+                        <Badge
+                          variant="secondary"
+                          className={STATUS_CLASSES[version.status]}
+                        >
+                          {VERSION_STATUS_LABELS[version.status]}
+                        </Badge>
+                        {isCurrent && <Badge variant="outline">Actual</Badge>}
+                      </div>
+                      <p className="text-gray-600">
+                        {version.status === "draft" ? "Guardado" : "Publicada"}{" "}
+                        el {format(new Date(date), "dd/MM/yyyy HH:mm")}
+                        {author && ` por ${userNames.get(author) ?? author}`}
+                      </p>
+                      {version.change_note && (
+                        <p className="text-gray-700">{version.change_note}</p>
+                      )}
+                      {version.restored_from != null && (
+                        <p className="text-gray-500">
+                          Restaurada desde v{version.restored_from}
+                        </p>
+                      )}
+                      {!!version.in_flight_requests && (
+                        <p className="text-blue-700">
+                          {version.in_flight_requests} solicitudes en curso con
+                          esta versión
+                        </p>
+                      )}
+                    </div>
+
+                    <div className="flex shrink-0 gap-2">
+                      {previous && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() =>
+                            setCompare({
+                              base: previous.version,
+                              target: version.version,
+                            })
+                          }
+                        >
+                          <GitCompare className="w-4 h-4 mr-2" />
+                          Ver cambios
+                        </Button>
+                      )}
+                      {version.status !== "draft" && !isCurrent && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={rollbackMutation.isPending}
+                          onClick={() => handleRollback(version)}
+                        >
+                          <RotateCcw className="w-4 h-4 mr-2" />
+                          Restaurar
+                        </Button>
+                      )}
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,72 @@
+/**
+ * Tests for ApprovalActionButtons component
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { render, screen, fireEvent } from "@testing-library/react";
+import { ApprovalActionButtons } from "~/features/approvals/components/ApprovalActionButtons";
+import type { ApprovalRequestResponse } from "~/features/approvals/types/approval.types";
+
+const { mockUseRequestStepFormSchema } = vi.hoisted(() => ({
+  mockUseRequestStepFormSchema: vi.fn(),
+}));
+
+vi.mock("~/features/approvals/hooks/useApprovals", () => ({
+  useRequestStepFormSchema: mockUseRequestStepFormSchema,
+}));
+
+const request = {
+  id: "req-1",
+  flow_id: "flow-1",
+  flow_version: 2,
+  title: "Compra de portátiles",
+  entity_type: "order",
+  entity_id: "order-1",
+  status: "pending",
+  current_step: 1,
+  requested_at: "2026-05-01T00:00:00Z",
+  created_at: "2026-05-01T00:00:00Z",
+  updated_at: "2026-05-01T00:00:00Z",
+  tenant_id: "tenant-1",
+} as ApprovalRequestResponse;
+
+const formSchema = {
+  type: "object",
+  required: ["budget_code"],
+  properties: {
+    budget_code: { type: "string", widget: "text", title: "Partida" },
+  },
+};
+
+describe("ApprovalActionButtons", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("disables approve and reject while the step form is loading", () => {
+    mockUseRequestStepFormSchema.mockReturnValue({
+      formSchema: undefined,
+      isLoading: true,
+    });
+    const onAction = vi.fn();
+    render(<ApprovalActionButtons request={request} onAction={onAction} />);
+
+    expect(screen.getByRole("button", { name: /Aprobar/ })).toBeDisabled();
+    expect(screen.getByRole("button", { name: /Rechazar/ })).toBeDisabled();
+    expect(mockUseRequestStepFormSchema).toHaveBeenCalledWith(request, true);
+  });
+
+  it("asks for the step form before approving", () => {
+    mockUseRequestStepFormSchema.mockReturnValue({
+      formSchema,
+      isLoading: false,
+    });
+    const onAction = vi.fn();
+    render(<ApprovalActionButtons request={request} onAction={onAction} />);
+
+    fireEvent.click(screen.getByRole("button", { name: /Aprobar/ }));
+
+    expect(onAction).not.toHaveBeenCalled();
+    expect(screen.getByLabelText(/Partida/)).toBeInTheDocument();
+  });
+});
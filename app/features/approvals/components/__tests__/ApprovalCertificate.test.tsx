@@ -0,0 +1,171 @@
+/**
+ * Tests for ApprovalCertificate component
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import { render, screen, within } from "@testing-library/react";
+import { ApprovalCertificate } from "~/features/approvals/components/ApprovalCertificate";
+import type {
+  ApprovalFlowResponse,
+  ApprovalRequestResponse,
+  ApprovalTimelineItem,
+} from "~/features/approvals/types/approval.types";
+
+vi.mock("~/hooks/useThemeConfig", () => ({
+  useThemeConfig: () => ({
+    themeLight: { logo_primary: "/tenant-logo.png" },
+  }),
+}));
+
+const request = {
+  id: "0f8e1c2a-5b7d-4e11-9a0b-1234567890ab",
+  flow_id: "flow-1",
+  title: "Compra de servidores",
+  entity_type: "purchase_order",
+  entity_id: "PO-88",
+  status: "approved",
+  current_step: 2,
+  requested_by: "user-1",
+  requested_at: "2026-05-01T08:00:00Z",
+  completed_at: "2026-05-03T08:00:00Z",
+  created_at: "2026-05-01T08:00:00Z",
+  updated_at: "2026-05-03T08:00:00Z",
+  tenant_id: "tenant-1",
+  request_metadata: { amount: 48000 },
+} as ApprovalRequestResponse;
+
+const makeFlow = (
+  printConfig: Record<string, unknown> | null
+): ApprovalFlowResponse => ({
+  id: "flow-1",
+  tenant_id: "tenant-1",
+  name: "Compras > 10.000 €",
+  flow_type: "sequential",
+  module: "purchases",
+  is_active: true,
+  created_at: "2026-01-01T00:00:00Z",
+  updated_at: "2026-01-01T00:00:00Z",
+  steps: [
+    {
+      id: "step-1",
+      flow_id: "flow-1",
+      tenant_id: "tenant-1",
+      step_order: 1,
+      name: "Jefe de compras",
+      approver_type: "user",
+      require_all: false,
+      created_at: "2026-01-01T00:00:00Z",
+      updated_at: "2026-01-01T00:00:00Z",
+      form_schema: {
+        type: "object",
+        order: ["budget_code", "sign"],
+        required: [],
+        properties: {
+          budget_code: { type: "string", widget: "text", title: "Partida" },
+          sign: { type: "string", widget: "signature", title: "Firma" },
+        },
+      },
+    },
+    {
+      id: "step-2",
+      flow_id: "flow-1",
+      tenant_id: "tenant-1",
+      step_order: 2,
+      name: "Dirección financiera",
+      approver_type: "role",
+      require_all: false,
+      created_at: "2026-01-01T00:00:00Z",
+      updated_at: "2026-01-01T00:00:00Z",
+      print_config: printConfig,
+    },
+  ],
+});
+
+const timeline: ApprovalTimelineItem[] = [
+  {
+    id: "t1",
+    request_id: request.id,
+    action_type: "approve",
+    step_order: 1,
+    acted_by: "user-2",
+    acted_at: "2026-05-02T09:30:00Z",
+    comment: "Presupuesto disponible",
+    form_data: { budget_code: "IT-2026", sign: "data:image/png;base64,AAAA" },
+  },
+  {
+    id: "t2",
+    request_id: request.id,
+    action_type: "approve",
+    step_order: 2,
+    acted_by: "user-3",
+    acted_at: "2026-05-03T08:00:00Z",
+  },
+];
+
+const userNames = new Map([
+  ["user-1", "Ana Ruiz"],
+  ["user-2", "Luis Pérez"],
+]);
+
+describe("ApprovalCertificate", () => {
+  it("prints the request, the flow and every action with its form data", () => {
+    render(
+      <ApprovalCertificate
+        request={request}
+        flow={makeFlow(null)}
+        timeline={timeline}
+        userNames={userNames}
+      />
+    );
+
+    expect(screen.getByText("Certificado de aprobación")).toBeInTheDocument();
+    expect(screen.getByText("Referencia CERT-0F8E1C2A5B")).toBeInTheDocument();
+    expect(screen.getByText("Ana Ruiz")).toBeInTheDocument();
+    expect(screen.getByText("48000")).toBeInTheDocument();
+    expect(
+      screen.getByRole("img", { name: "Diagrama del flujo" })
+    ).toBeInTheDocument();
+
+    const rows = screen.getAllByRole("row").slice(-2);
+    expect(
+      within(rows[0]!).getByText("1. Jefe de compras")
+    ).toBeInTheDocument();
+    expect(within(rows[0]!).getByText("Luis Pérez")).toBeInTheDocument();
+    expect(
+      within(rows[0]!).getByText("Presupuesto disponible")
+    ).toBeInTheDocument();
+    expect(within(rows[0]!).getByText("IT-2026")).toBeInTheDocument();
+    expect(within(rows[0]!).getByAltText("Firmado")).toBeInTheDocument();
+    // Sin nombre conocido se imprime el id
+    expect(within(rows[1]!).getByText("user-3")).toBeInTheDocument();
+  });
+
+  it("follows the layout set in print_config", () => {
+    const { container } = render(
+      <ApprovalCertificate
+        request={request}
+        flow={makeFlow({
+          title: "Acta de compra",
+          orientation: "landscape",
+          show_flow_diagram: false,
+          show_metadata: false,
+          signature_lines: ["Director financiero"],
+          footer_text: "Documento para auditoría",
+        })}
+        timeline={timeline}
+        userNames={userNames}
+      />
+    );
+
+    expect(screen.getByText("Acta de compra")).toBeInTheDocument();
+    expect(
+      container.querySelector(".approval-certificate-page")
+    ).toHaveAttribute("data-orientation", "landscape");
+    expect(
+      screen.queryByRole("img", { name: "Diagrama del flujo" })
+    ).not.toBeInTheDocument();
+    expect(screen.queryByText("48000")).not.toBeInTheDocument();
+    expect(screen.getByText("Director financiero")).toBeInTheDocument();
+    expect(screen.getByText("Documento para auditoría")).toBeInTheDocument();
+  });
+});
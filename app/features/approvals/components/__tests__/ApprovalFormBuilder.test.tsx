@@ -0,0 +1,81 @@
+/**
+ * Tests for ApprovalFormBuilder component
+ */
+
+import { useState } from "react";
+import { describe, it, expect, vi } from "vitest";
+import { render, screen, fireEvent } from "@testing-library/react";
+import { ApprovalFormBuilder } from "~/features/approvals/components/ApprovalFormBuilder";
+import type { ApprovalFormSchema } from "~/features/approvals/types/approval-form.types";
+
+function BuilderHarness({
+  onChange,
+}: {
+  onChange: (schema: ApprovalFormSchema | null) => void;
+}) {
+  const [schema, setSchema] = useState<ApprovalFormSchema | null>(null);
+  return (
+    <ApprovalFormBuilder
+      value={schema}
+      onChange={(next) => {
+        setSchema(next);
+        onChange(next);
+      }}
+    />
+  );
+}
+
+describe("ApprovalFormBuilder", () => {
+  it("adds fields from the palette and edits their rules", () => {
+    const onChange = vi.fn();
+    render(<BuilderHarness onChange={onChange} />);
+
+    fireEvent.click(
+      screen.getByRole("button", { name: "Añadir campo Número" })
+    );
+    fireEvent.change(screen.getByLabelText("Etiqueta"), {
+      target: { value: "Importe" },
+    });
+    fireEvent.change(screen.getByLabelText("Máximo"), {
+      target: { value: "5000" },
+    });
+    fireEvent.click(screen.getByLabelText("Obligatorio"));
+
+    expect(onChange).toHaveBeenLastCalledWith({
+      type: "object",
+      properties: {
+        number_1: {
+          type: "number",
+          widget: "number",
+          title: "Importe",
+          maximum: 5000,
+        },
+      },
+      required: ["number_1"],
+      order: ["number_1"],
+    });
+    expect(screen.getByText("Importe *")).toBeInTheDocument();
+  });
+
+  it("renames field keys and saves an empty form as null", () => {
+    const onChange = vi.fn();
+    render(<BuilderHarness onChange={onChange} />);
+
+    fireEvent.click(screen.getByRole("button", { name: "Añadir campo Firma" }));
+    const keyInput = screen.getByLabelText("Clave");
+    fireEvent.change(keyInput, { target: { value: "2 firma" } });
+    fireEvent.blur(keyInput);
+    expect(
+      screen.getByText(
+        "Usa letras, números y guiones bajos, empezando por letra"
+      )
+    ).toBeInTheDocument();
+
+    fireEvent.change(keyInput, { target: { value: "manager_signature" } });
+    fireEvent.blur(keyInput);
+    expect(screen.getByText("manager_signature")).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole("button", { name: "Eliminar campo" }));
+    expect(onChange).toHaveBeenLastCalledWith(null);
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Tests for ApprovalInbox component
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, fireEvent, within } from "@testing-library/react";
+import { ApprovalInbox } from "~/features/approvals/components/ApprovalInbox";
+import type { ApprovalRequestResponse } from "~/features/approvals/types/approval.types";
+
+const { mockBulkMutate } = vi.hoisted(() => ({
+  mockBulkMutate: vi.fn(),
+}));
+
+const makeRequest = (
+  id: string,
+  title: string,
+  requestedAt: string
+): ApprovalRequestResponse => ({
+  id,
+  tenant_id: "tenant-1",
+  flow_id: "flow-1",
+  title,
+  entity_type: "order",
+  entity_id: `order-${id}`,
+  status: "pending",
+  current_step: 1,
+  requested_at: requestedAt,
+  created_at: requestedAt,
+  updated_at: requestedAt,
+});
+
+vi.mock("~/features/approvals/hooks/useApprovals", () => ({
+  useApprovalRequests: vi.fn(() => ({
+    data: {
+      data: [
+        makeRequest("req-1", "Pedido #1", "2026-08-01T08:00:00Z"),
+        makeRequest("req-2", "Pedido #2", "2026-08-02T08:00:00Z"),
+        makeRequest("req-3", "Pedido #3", "2026-08-03T08:00:00Z"),
+      ],
+    },
+    isLoading: false,
+    isFetching: false,
+    refetch: vi.fn(),
+  })),
+  useApprovalFlows: vi.fn(() => ({
+    data: { data: [{ id: "flow-1", module: "sales" }] },
+  })),
+  useApproverNames: vi.fn(() => new Map()),
+  useRequestTimeline: vi.fn(() => ({ data: { data: [] }, isLoading: false })),
+  useBulkApprovalAction: vi.fn(() => ({
+    mutate: mockBulkMutate,
+    isPending: false,
+  })),
+}));
+
+vi.mock("~/features/files/hooks/useFiles", () => ({
+  useFiles: vi.fn(() => ({ files: [], loading: false })),
+  useFileDownload: vi.fn(() => ({ mutate: vi.fn(), isPending: false })),
+}));
+
+vi.mock("~/features/users/hooks/useUsers", () => ({
+  useUsers: vi.fn(() => ({ users: [], loading: false })),
+}));
+
+const focusedTitle = () =>
+  within(screen.getByRole("option", { selected: true })).getByText(/Pedido #\d/)
+    .textContent;
+
+describe("ApprovalInbox", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("moves the focus with j/k and previews the focused request", () => {
+    render(<ApprovalInbox />);
+
+    expect(focusedTitle()).toBe("Pedido #1");
+
+    fireEvent.keyDown(window, { key: "j" });
+    fireEvent.keyDown(window, { key: "j" });
+    expect(focusedTitle()).toBe("Pedido #3");
+    expect(
+      within(screen.getByTestId("approval-inbox-preview")).getByText(
+        "Pedido #3"
+      )
+    ).toBeInTheDocument();
+
+    fireEvent.keyDown(window, { key: "j" });
+    expect(focusedTitle()).toBe("Pedido #3");
+
+    fireEvent.keyDown(window, { key: "k" });
+    expect(focusedTitle()).toBe("Pedido #2");
+  });
+
+  it("approves the selection with one comment and reports each result", () => {
+    mockBulkMutate.mockImplementation((_variables, options) =>
+      options.onSuccess({
+        action: "approve",
+        results: [
+          { requestId: "req-1", success: true },
+          {
+            requestId: "req-2",
+            success: false,
+            error: "No eres aprobador de este paso",
+          },
+        ],
+        succeeded: 1,
+        failed: 1,
+      })
+    );
+    render(<ApprovalInbox />);
+
+    fireEvent.keyDown(window, { key: "x" });
+    fireEvent.keyDown(window, { key: "j" });
+    fireEvent.keyDown(window, { key: "x" });
+    expect(screen.getByText("2 de 3 seleccionadas")).toBeInTheDocument();
+
+    fireEvent.keyDown(window, { key: "a" });
+    fireEvent.change(screen.getByLabelText("Comentario (opcional)"), {
+      target: { value: "Revisado" },
+    });
+    fireEvent.click(screen.getByRole("button", { name: "Aprobar (2)" }));
+
+    expect(mockBulkMutate).toHaveBeenCalledWith(
+      {
+        action: "approve",
+        requests: [
+          expect.objectContaining({ id: "req-1" }),
+          expect.objectContaining({ id: "req-2" }),
+        ],
+        comment: "Revisado",
+      },
+      expect.any(Object)
+    );
+    const results = screen.getByTestId("bulk-action-results");
+    expect(
+      within(results).getByText("No eres aprobador de este paso")
+    ).toBeInTheDocument();
+    expect(
+      screen.getByRole("button", { name: "Reintentar fallidas (1)" })
+    ).toBeInTheDocument();
+
+    // Approved requests leave the selection, failed ones stay selected
+    expect(screen.getByText("1 de 3 seleccionadas")).toBeInTheDocument();
+  });
+
+  it("acts on the focused request when nothing is selected", () => {
+    render(<ApprovalInbox />);
+
+    fireEvent.keyDown(window, { key: "r" });
+
+    expect(
+      screen.getByRole("button", { name: "Rechazar (1)" })
+    ).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Tests for ApprovalQuickActionModal component
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import { render, screen, fireEvent } from "@testing-library/react";
+import { ApprovalQuickActionModal } from "~/features/approvals/components/ApprovalQuickActionModal";
+import type { ApprovalRequestResponse } from "~/features/approvals/types/approval.types";
+
+const request = {
+  id: "req-1",
+  flow_id: "flow-1",
+  title: "Compra de portátiles",
+  entity_type: "order",
+  entity_id: "order-1",
+  status: "pending",
+  current_step: 1,
+  requested_at: "2026-05-01T00:00:00Z",
+  created_at: "2026-05-01T00:00:00Z",
+  updated_at: "2026-05-01T00:00:00Z",
+  tenant_id: "tenant-1",
+} as ApprovalRequestResponse;
+
+const formSchema = {
+  type: "object",
+  order: ["budget_code", "amount"],
+  required: ["budget_code"],
+  properties: {
+    budget_code: { type: "string", widget: "text", title: "Partida" },
+    amount: {
+      type: "number",
+      widget: "number",
+      title: "Importe aprobado",
+      maximum: 5000,
+    },
+  },
+};
+
+function renderModal(
+  props: Partial<React.ComponentProps<typeof ApprovalQuickActionModal>> = {}
+) {
+  const onAction = vi.fn();
+  const onOpenChange = vi.fn();
+  render(
+    <ApprovalQuickActionModal
+      request={request}
+      open
+      onOpenChange={onOpenChange}
+      onAction={onAction}
+      formSchema={formSchema}
+      {...props}
+    />
+  );
+  return { onAction, onOpenChange };
+}
+
+describe("ApprovalQuickActionModal", () => {
+  it("blocks the decision until the step form is valid", () => {
+    const { onAction } = renderModal();
+
+    fireEvent.change(screen.getByLabelText("Importe aprobado"), {
+      target: { value: "9000" },
+    });
+    fireEvent.click(screen.getByRole("button", { name: "Aprobar" }));
+
+    expect(onAction).not.toHaveBeenCalled();
+    expect(screen.getByText("Este campo es obligatorio")).toBeInTheDocument();
+    expect(screen.getByText("Máximo 5000")).toBeInTheDocument();
+  });
+
+  it("sends the validated form data with the decision", () => {
+    const { onAction, onOpenChange } = renderModal({ action: "reject" });
+
+    fireEvent.change(screen.getByLabelText("Partida *"), {
+      target: { value: "IT-2026" },
+    });
+    fireEvent.change(screen.getByLabelText("Importe aprobado"), {
+      target: { value: "1200" },
+    });
+    fireEvent.click(screen.getByRole("button", { name: "Rechazar" }));
+
+    expect(onAction).toHaveBeenCalledWith("req-1", "reject", {
+      comment: undefined,
+      form_data: { budget_code: "IT-2026", amount: 1200 },
+    });
+    expect(onOpenChange).toHaveBeenCalledWith(false);
+  });
+
+  it("does not ask for the form when delegating", () => {
+    renderModal({ action: "delegate" });
+
+    expect(screen.queryByLabelText("Partida *")).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * Tests for ApprovalSlaBadge component
+ */
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { act, render, screen } from "@testing-library/react";
+import { ApprovalSlaBadge } from "~/features/approvals/components/ApprovalSlaBadge";
+import type { ApprovalRequestResponse } from "~/features/approvals/types/approval.types";
+
+const request = {
+  id: "req-1",
+  flow_id: "flow-1",
+  title: "Compra",
+  entity_type: "order",
+  entity_id: "order-1",
+  status: "pending",
+  current_step: 1,
+  requested_at: "2026-05-10T08:00:00Z",
+  created_at: "2026-05-10T08:00:00Z",
+  updated_at: "2026-05-10T08:00:00Z",
+  tenant_id: "tenant-1",
+  current_step_started_at: "2026-05-10T08:00:00Z",
+  current_step_due_at: "2026-05-10T12:00:00Z",
+} as ApprovalRequestResponse;
+
+describe("ApprovalSlaBadge", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("counts down and turns overdue when the due date passes", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-05-10T11:58:00Z"));
+
+    render(<ApprovalSlaBadge request={request} />);
+    expect(screen.getByText("Vence en 2m")).toBeInTheDocument();
+
+    act(() => {
+      vi.advanceTimersByTime(5 * 60 * 1000);
+    });
+    expect(screen.getByText("Vencida hace 3m")).toBeInTheDocument();
+  });
+
+  it("marks escalated requests", () => {
+    render(
+      <ApprovalSlaBadge
+        request={{ ...request, escalated_at: "2026-05-10T12:00:00Z" }}
+      />
+    );
+
+    expect(screen.getByText("Escalada")).toBeInTheDocument();
+  });
+
+  it("renders nothing without a due date", () => {
+    const { container } = render(
+      <ApprovalSlaBadge request={{ ...request, current_step_due_at: null }} />
+    );
+
+    expect(container).toBeEmptyDOMElement();
+  });
+});
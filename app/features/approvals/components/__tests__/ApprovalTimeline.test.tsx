@@ -81,6 +81,51 @@ describe("ApprovalTimeline", () => {
       expect(screen.getByText("Presupuesto insuficiente")).toBeInTheDocument();
     });
 
+    it("debería mostrar las escaladas por SLA y su destino", () => {
+      render(
+        <ApprovalTimeline
+          items={[
+            {
+              id: "4",
+              request_id: "req-1",
+              action_type: "escalation",
+              step_order: 2,
+              comment: "Plazo de 48h vencido",
+              acted_at: "2025-01-14T12:00:00Z",
+              metadata: { escalated_to: "Dirección financiera" },
+            },
+          ]}
+        />
+      );
+      expect(screen.getByText("Escalado")).toBeInTheDocument();
+      expect(screen.getByText("Dirección financiera")).toBeInTheDocument();
+      expect(screen.getByText("Plazo de 48h vencido")).toBeInTheDocument();
+    });
+
+    it("debería distinguir las delegaciones por ausencia", () => {
+      render(
+        <ApprovalTimeline
+          items={[
+            {
+              id: "5",
+              request_id: "req-1",
+              action_type: "delegate",
+              step_order: 2,
+              acted_at: "2025-01-14T12:00:00Z",
+              metadata: {
+                auto_delegated: true,
+                from_user: "Ana Pérez",
+                to_user: "Luis Gómez",
+              },
+            },
+          ]}
+        />
+      );
+      expect(screen.getByText("Delegado automáticamente")).toBeInTheDocument();
+      expect(screen.getByText("Ana Pérez")).toBeInTheDocument();
+      expect(screen.getByText("Luis Gómez")).toBeInTheDocument();
+    });
+
     it("debería mostrar el número de paso", () => {
       render(<ApprovalTimeline items={mockItems} />);
       // Multiple items have step numbers; just verify at least one paso element exists
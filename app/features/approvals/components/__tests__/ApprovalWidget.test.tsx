@@ -164,6 +164,47 @@ describe("ApprovalWidget", () => {
     });
   });
 
+  describe("Delegación por ausencia", () => {
+    it("debería mostrar el aviso de delegación automática", async () => {
+      const { useApprovalWidget } = await import("~/features/approvals/hooks/useApprovals");
+      vi.mocked(useApprovalWidget).mockReturnValueOnce({
+        data: {
+          data: {
+            request: { id: "req-1", title: "Test", status: "pending" },
+            permissions: { can_approve: true },
+            current_step: { name: "Finanzas", step_order: 2 },
+            timeline: [
+              {
+                id: "t-1",
+                request_id: "req-1",
+                action_type: "delegate",
+                step_order: 2,
+                acted_at: "2025-01-14T12:00:00Z",
+                metadata: {
+                  auto_delegated: true,
+                  from_user: "Ana Pérez",
+                  to_user: "Luis Gómez",
+                },
+              },
+            ],
+          },
+        },
+        isLoading: false,
+        error: null,
+      } as any);
+      renderWithQueryClient(<ApprovalWidget requestId="req-1" variant="full" />);
+      const banner = screen.getByRole("status");
+      expect(banner).toHaveTextContent("Delegada automáticamente");
+      expect(banner).toHaveTextContent("Ana Pérez está fuera de la oficina");
+      expect(banner).toHaveTextContent("Ahora la aprueba Luis Gómez");
+    });
+
+    it("no debería mostrar el aviso sin delegación automática", () => {
+      renderWithQueryClient(<ApprovalWidget requestId="req-1" variant="full" />);
+      expect(screen.queryByRole("status")).not.toBeInTheDocument();
+    });
+  });
+
   describe("Acciones de usuario", () => {
     it("debería permitir agregar comentario", () => {
       renderWithQueryClient(
@@ -0,0 +1,142 @@
+/**
+ * Tests for FlowSimulatorPanel component
+ */
+
+import { useState } from "react";
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, fireEvent, waitFor } from "@testing-library/react";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import type { Node, Edge } from "reactflow";
+import { FlowSimulatorPanel } from "~/features/approvals/components/FlowSimulatorPanel";
+import { createSimulation } from "~/features/approvals/utils/flow-simulator.utils";
+
+const { get } = vi.hoisted(() => ({ get: vi.fn() }));
+
+vi.mock("~/lib/api/client", () => ({ default: { get } }));
+
+const nodes: Node[] = [
+  {
+    id: "start",
+    type: "start",
+    position: { x: 0, y: 0 },
+    data: { type: "start", name: "Inicio" },
+  },
+  {
+    id: "manager",
+    type: "approval",
+    position: { x: 0, y: 0 },
+    data: {
+      type: "approval",
+      name: "Gerente",
+      approverType: "user",
+      approvers: ["user-1"],
+      requireAll: true,
+    },
+  },
+  {
+    id: "end",
+    type: "end",
+    position: { x: 0, y: 0 },
+    data: { type: "end", name: "Fin" },
+  },
+];
+
+const edges: Edge[] = [
+  {
+    id: "start-manager",
+    source: "start",
+    target: "manager",
+    data: {
+      condition: {
+        logic: "AND",
+        rules: [{ field: "amount", operator: "gt", value: 100 }],
+      },
+    },
+  },
+  { id: "manager-end", source: "manager", target: "end" },
+];
+
+function SimulatorHarness() {
+  const [state, setState] = useState(() => createSimulation(nodes));
+  return (
+    <FlowSimulatorPanel
+      nodes={nodes}
+      edges={edges}
+      state={state}
+      onStateChange={setState}
+      onClose={vi.fn()}
+    />
+  );
+}
+
+function renderSimulator() {
+  const queryClient = new QueryClient({
+    defaultOptions: { queries: { retry: false } },
+  });
+  return render(
+    <QueryClientProvider client={queryClient}>
+      <SimulatorHarness />
+    </QueryClientProvider>
+  );
+}
+
+describe("FlowSimulatorPanel", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    get.mockImplementation((path: string) =>
+      Promise.resolve({
+        data: {
+          data: path === "/users" ? [{ id: "user-1", name: "Ana Ruiz" }] : [],
+        },
+      })
+    );
+  });
+
+  it("builds the sample data form from the edge conditions", () => {
+    renderSimulator();
+
+    expect(screen.getByLabelText("amount")).toBeInTheDocument();
+    expect(screen.getByText("En curso")).toBeInTheDocument();
+  });
+
+  it("steps the request through the flow and lists the approvers asked", async () => {
+    renderSimulator();
+    fireEvent.change(screen.getByLabelText("amount"), {
+      target: { value: "250" },
+    });
+
+    fireEvent.click(screen.getByRole("button", { name: "Paso" }));
+
+    expect(screen.getByText("1. Gerente")).toBeInTheDocument();
+    expect(await screen.findByText("Ana Ruiz")).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole("button", { name: "Paso" }));
+    fireEvent.click(screen.getByRole("button", { name: "Paso" }));
+    expect(screen.getByText("Aprobada")).toBeInTheDocument();
+  });
+
+  it("rejects the request when an approval node is set to reject", () => {
+    renderSimulator();
+    fireEvent.change(screen.getByLabelText("amount"), {
+      target: { value: "250" },
+    });
+    fireEvent.click(screen.getByRole("button", { name: "Rechazar" }));
+
+    fireEvent.click(screen.getByRole("button", { name: "Paso" }));
+    fireEvent.click(screen.getByRole("button", { name: "Paso" }));
+
+    expect(screen.getByText("Rechazada")).toBeInTheDocument();
+    expect(screen.getByText(/"Gerente" rechaza/)).toBeInTheDocument();
+  });
+
+  it("blocks the request when the data does not match any edge", async () => {
+    renderSimulator();
+
+    fireEvent.click(screen.getByRole("button", { name: "Paso" }));
+
+    await waitFor(() =>
+      expect(screen.getByText("Bloqueada")).toBeInTheDocument()
+    );
+    expect(screen.getByRole("button", { name: "Paso" })).toBeDisabled();
+  });
+});
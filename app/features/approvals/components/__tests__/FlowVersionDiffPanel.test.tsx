@@ -0,0 +1,72 @@
+/**
+ * Tests for FlowVersionDiffPanel component
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import { render, screen, fireEvent } from "@testing-library/react";
+import { FlowVersionDiffPanel } from "~/features/approvals/components/FlowVersionDiffPanel";
+import type { FlowGraphDiff } from "~/features/approvals/types/approval-version.types";
+
+const diff: FlowGraphDiff = {
+  nodes: { finance: "changed", legal: "removed" },
+  edges: { "efinance-end": "added" },
+  changes: [
+    {
+      kind: "node",
+      id: "finance",
+      status: "changed",
+      label: "Finanzas",
+      details: ["Aprobadores añadidos: Luis"],
+    },
+    {
+      kind: "node",
+      id: "legal",
+      status: "removed",
+      label: "Legal",
+      details: [],
+    },
+    {
+      kind: "edge",
+      id: "efinance-end",
+      status: "added",
+      label: "Finanzas → Fin",
+      details: [],
+    },
+  ],
+};
+
+describe("FlowVersionDiffPanel", () => {
+  it("summarizes and lists the changes between versions", () => {
+    render(
+      <FlowVersionDiffPanel diff={diff} baseLabel="v2" targetLabel="v3" />
+    );
+
+    expect(screen.getByText("v2 → v3")).toBeInTheDocument();
+    expect(screen.getByText("Añadido: 1")).toBeInTheDocument();
+    expect(screen.getByText("Modificado: 1")).toBeInTheDocument();
+    expect(screen.getByText("Eliminado: 1")).toBeInTheDocument();
+    expect(screen.getByText("Aprobadores añadidos: Luis")).toBeInTheDocument();
+    expect(screen.getByText("Conexión Finanzas → Fin")).toBeInTheDocument();
+    expect(
+      screen.queryByRole("button", { name: "Cerrar cambios" })
+    ).not.toBeInTheDocument();
+  });
+
+  it("shows when both versions are equal and can be closed", () => {
+    const onClose = vi.fn();
+    render(
+      <FlowVersionDiffPanel
+        diff={{ nodes: {}, edges: {}, changes: [] }}
+        baseLabel="v3"
+        targetLabel="Borrador"
+        onClose={onClose}
+      />
+    );
+
+    expect(
+      screen.getByText("No hay diferencias entre las versiones")
+    ).toBeInTheDocument();
+    fireEvent.click(screen.getByRole("button", { name: "Cerrar cambios" }));
+    expect(onClose).toHaveBeenCalled();
+  });
+});
@@ -10,10 +10,17 @@ import {
   useApprovalWidget,
   useEntityApprovalStatus,
   useCanApproveRequest,
+  useBulkApprovalAction,
+  useApproverNames,
+  useRequestStepFormSchema,
 } from "~/features/approvals/hooks/useApprovals";
 import * as approvalsApi from "~/features/approvals/api/approvals.api";
+import type { ApprovalRequestResponse } from "~/features/approvals/types/approval.types";
+
+const { mockGet } = vi.hoisted(() => ({ mockGet: vi.fn() }));
 
 vi.mock("~/features/approvals/api/approvals.api");
+vi.mock("~/lib/api/client", () => ({ default: { get: mockGet } }));
 
 const createMockQueryClient = () => {
   return new QueryClient({
@@ -297,3 +304,189 @@ describe("useCanApproveRequest", () => {
     expect(result.current.data?.data?.can_approve).toBe(false);
   });
 });
+
+describe("useBulkApprovalAction", () => {
+  const makeRequest = (id: string, overrides = {}) =>
+    ({
+      id,
+      flow_id: "flow-1",
+      current_step: 1,
+      flow_version: null,
+      status: "pending",
+      ...overrides,
+    }) as ApprovalRequestResponse;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(approvalsApi.getApprovalFlow).mockResolvedValue({
+      data: { steps: [{ step_order: 1, form_schema: null }] },
+    } as never);
+  });
+
+  it("debería reportar el resultado de cada solicitud", async () => {
+    vi.mocked(approvalsApi.approveRequest)
+      .mockResolvedValueOnce({ data: {} } as never)
+      .mockRejectedValueOnce({
+        response: { data: { detail: "No eres aprobador de este paso" } },
+      });
+
+    const { result } = renderHook(() => useBulkApprovalAction(), { wrapper });
+
+    const bulkResult = await result.current.mutateAsync({
+      action: "approve",
+      requests: [makeRequest("req-1"), makeRequest("req-2")],
+      comment: "Revisado",
+    });
+
+    expect(approvalsApi.approveRequest).toHaveBeenCalledWith("req-1", {
+      comment: "Revisado",
+    });
+    expect(approvalsApi.approveRequest).toHaveBeenCalledWith("req-2", {
+      comment: "Revisado",
+    });
+    expect(bulkResult).toEqual({
+      action: "approve",
+      results: [
+        { requestId: "req-1", success: true },
+        {
+          requestId: "req-2",
+          success: false,
+          error: "No eres aprobador de este paso",
+        },
+      ],
+      succeeded: 1,
+      failed: 1,
+    });
+  });
+
+  it("debería delegar con el comentario como motivo", async () => {
+    vi.mocked(approvalsApi.delegateRequest).mockResolvedValue({
+      data: {},
+    } as never);
+
+    const { result } = renderHook(() => useBulkApprovalAction(), { wrapper });
+
+    await result.current.mutateAsync({
+      action: "delegate",
+      requests: [makeRequest("req-1")],
+      comment: "Vacaciones",
+      to_user_id: "user-2",
+    });
+
+    expect(approvalsApi.delegateRequest).toHaveBeenCalledWith("req-1", {
+      to_user_id: "user-2",
+      reason: "Vacaciones",
+    });
+  });
+
+  it("debería rechazar las solicitudes cuyo paso pide un formulario", async () => {
+    vi.mocked(approvalsApi.getFlowVersion).mockResolvedValue({
+      data: {
+        steps: [
+          {
+            step_order: 2,
+            form_schema: {
+              type: "object",
+              properties: {
+                importe: { type: "number", widget: "number", title: "Importe" },
+              },
+              required: ["importe"],
+            },
+          },
+        ],
+      },
+    } as never);
+    vi.mocked(approvalsApi.approveRequest).mockResolvedValue({
+      data: {},
+    } as never);
+
+    const { result } = renderHook(() => useBulkApprovalAction(), { wrapper });
+
+    const bulkResult = await result.current.mutateAsync({
+      action: "approve",
+      requests: [
+        makeRequest("req-1"),
+        makeRequest("req-2", { current_step: 2, flow_version: 3 }),
+      ],
+    });
+
+    expect(approvalsApi.getFlowVersion).toHaveBeenCalledWith("flow-1", 3);
+    expect(approvalsApi.approveRequest).toHaveBeenCalledTimes(1);
+    expect(approvalsApi.approveRequest).toHaveBeenCalledWith("req-1", {
+      comment: undefined,
+    });
+    expect(bulkResult.results).toEqual([
+      { requestId: "req-1", success: true },
+      {
+        requestId: "req-2",
+        success: false,
+        error: "Requiere completar el formulario del paso",
+      },
+    ]);
+  });
+});
+
+describe("useApproverNames", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGet.mockImplementation((path: string) =>
+      Promise.resolve({
+        data: {
+          data:
+            path === "/roles"
+              ? [{ id: "role-1", name: "Gerente" }]
+              : [{ id: `${path.slice(1)}-1`, email: "ana@example.com" }],
+        },
+      })
+    );
+  });
+
+  it("debería resolver nombres sin usar las cachés globales de usuarios y roles", async () => {
+    const queryClient = createMockQueryClient();
+    const adminRoles = { data: [{ id: "role-1", permissions: [] }] };
+    queryClient.setQueryData(["roles"], adminRoles);
+
+    const { result } = renderHook(() => useApproverNames(), {
+      wrapper: ({ children }: { children: ReactNode }) =>
+        QueryClientProvider({ client: queryClient, children }),
+    });
+
+    await waitFor(() => expect(result.current.get("role-1")).toBe("Gerente"));
+    expect(result.current.get("users-1")).toBe("ana@example.com");
+    expect(mockGet).toHaveBeenCalledWith("/groups");
+    expect(queryClient.getQueryData(["roles"])).toBe(adminRoles);
+    expect(
+      queryClient.getQueryData(["approvals", "approvers", "roles"])
+    ).toEqual([{ id: "role-1", name: "Gerente" }]);
+  });
+});
+
+describe("useRequestStepFormSchema", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("debería leer el formulario de la versión en la que corre la solicitud", async () => {
+    const formSchema = { type: "object", properties: {} };
+    vi.mocked(approvalsApi.getFlowVersion).mockResolvedValue({
+      data: { steps: [{ step_order: 2, form_schema: formSchema }] },
+    } as never);
+
+    const { result } = renderHook(
+      () =>
+        useRequestStepFormSchema({
+          id: "req-1",
+          flow_id: "flow-1",
+          flow_version: 3,
+          current_step: 2,
+        } as ApprovalRequestResponse),
+      { wrapper }
+    );
+
+    expect(result.current.isLoading).toBe(true);
+    await waitFor(() => expect(result.current.formSchema).toBe(formSchema));
+    expect(result.current.isLoading).toBe(false);
+    expect(approvalsApi.getFlowVersion).toHaveBeenCalledWith("flow-1", 3);
+    expect(approvalsApi.getApprovalFlow).not.toHaveBeenCalled();
+  });
+});
@@ -4,7 +4,14 @@
  * Aligned with backend schemas from backend/app/schemas/approval.py
  */
 
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useMemo } from "react";
+import {
+  useQuery,
+  useMutation,
+  useQueryClient,
+  type QueryClient,
+} from "@tanstack/react-query";
+import apiClient from "~/lib/api/client";
 import {
   listApprovalFlows,
   getApprovalFlow,
@@ -24,6 +31,17 @@ import {
   getRequestWidgetData,
   getEntityApprovalStatus,
   checkUserCanApprove,
+  listOutOfOfficeRules,
+  createOutOfOfficeRule,
+  updateOutOfOfficeRule,
+  deleteOutOfOfficeRule,
+  listOutOfOfficeDelegations,
+  listFlowVersions,
+  getFlowVersion,
+  saveFlowDraft,
+  discardFlowDraft,
+  publishFlowDraft,
+  rollbackFlowVersion,
 } from "~/features/approvals/api/approvals.api";
 import type {
   ApprovalFlowUpdate,
@@ -32,8 +50,24 @@ import type {
   DelegateRequestRequest,
   ListApprovalFlowsParams,
   ListApprovalRequestsParams,
+  ApprovalRequestResponse,
   ApprovalStepCreate,
 } from "~/features/approvals/types/approval.types";
+import type {
+  ApprovalOutOfOfficeCreate,
+  ApprovalOutOfOfficeUpdate,
+} from "~/features/approvals/types/approval-delegation.types";
+import type {
+  ApprovalFlowDraftSave,
+  ApprovalFlowPublishRequest,
+} from "~/features/approvals/types/approval-version.types";
+import type {
+  BulkApprovalItemResult,
+  BulkApprovalRequest,
+  BulkApprovalResult,
+} from "~/features/approvals/types/approval-inbox.types";
+import { getBulkErrorMessage } from "~/features/approvals/utils/approval-inbox.utils";
+import { parseFormSchema } from "~/features/approvals/utils/approval-form.utils";
 
 // Approval Flow Query hooks
 export function useApprovalFlows(params?: ListApprovalFlowsParams) {
@@ -194,6 +228,145 @@ export function useUpdateFlowSteps() {
   });
 }
 
+// Flow version hooks
+export function useFlowVersions(flowId: string) {
+  return useQuery({
+    queryKey: ["approval-flows", flowId, "versions"],
+    queryFn: () => listFlowVersions(flowId),
+    staleTime: 1000 * 60 * 5, // 5 minutes
+    gcTime: 1000 * 60 * 10, // 10 minutes
+    retry: 2,
+    enabled: !!flowId,
+    refetchOnWindowFocus: false,
+    refetchOnMount: false,
+    refetchOnReconnect: false,
+    networkMode: "online",
+  });
+}
+
+export function useFlowVersion(flowId: string, version?: number | null) {
+  return useQuery({
+    queryKey: ["approval-flows", flowId, "versions", version],
+    queryFn: () => getFlowVersion(flowId, version!),
+    // Published versions never change
+    staleTime: Infinity,
+    gcTime: 1000 * 60 * 10, // 10 minutes
+    retry: 2,
+    enabled: !!flowId && version != null,
+    refetchOnWindowFocus: false,
+    refetchOnMount: false,
+    refetchOnReconnect: false,
+    networkMode: "online",
+  });
+}
+
+/**
+ * form_schema of the step a request is on, from the flow version the request
+ * runs on (the published flow for requests started before versions)
+ */
+export function useRequestStepFormSchema(
+  request: ApprovalRequestResponse,
+  enabled: boolean = true
+) {
+  const hasVersion = request.flow_version != null;
+  const flowQuery = useApprovalFlow(
+    enabled && !hasVersion ? request.flow_id : ""
+  );
+  const versionQuery = useFlowVersion(
+    enabled && hasVersion ? request.flow_id : "",
+    request.flow_version
+  );
+  const steps = hasVersion
+    ? versionQuery.data?.data?.steps
+    : flowQuery.data?.data?.steps;
+
+  return {
+    formSchema: steps?.find((step) => step.step_order === request.current_step)
+      ?.form_schema,
+    isLoading: hasVersion ? versionQuery.isLoading : flowQuery.isLoading,
+  };
+}
+
+export function useSaveFlowDraft() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      flowId,
+      data,
+    }: {
+      flowId: string;
+      data: ApprovalFlowDraftSave;
+    }) => saveFlowDraft(flowId, data),
+    onSuccess: (_, variables) => {
+      void queryClient.invalidateQueries({
+        queryKey: ["approval-flows", variables.flowId],
+      });
+    },
+    onError: (error) => {
+      console.error("Failed to save flow draft:", error);
+    },
+  });
+}
+
+export function useDiscardFlowDraft() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (flowId: string) => discardFlowDraft(flowId),
+    onSuccess: (_, flowId) => {
+      void queryClient.invalidateQueries({
+        queryKey: ["approval-flows", flowId],
+      });
+    },
+    onError: (error) => {
+      console.error("Failed to discard flow draft:", error);
+    },
+  });
+}
+
+export function usePublishFlowDraft() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      flowId,
+      data,
+    }: {
+      flowId: string;
+      data: ApprovalFlowPublishRequest;
+    }) => publishFlowDraft(flowId, data),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: ["approval-flows"] });
+    },
+    onError: (error) => {
+      console.error("Failed to publish flow:", error);
+    },
+  });
+}
+
+export function useRollbackFlowVersion() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      flowId,
+      version,
+      data,
+    }: {
+      flowId: string;
+      version: number;
+      data: ApprovalFlowPublishRequest;
+    }) => rollbackFlowVersion(flowId, version, data),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: ["approval-flows"] });
+    },
+    onError: (error) => {
+      console.error("Failed to roll back flow version:", error);
+    },
+  });
+}
+
 // Approval Request Mutation hooks
 export function useCreateApprovalRequest() {
   const queryClient = useQueryClient();
@@ -310,6 +483,193 @@ export function useDelegateRequest() {
   });
 }
 
+/**
+ * Applies one decision to many requests. Every request is sent on its own,
+ * so a failure never stops the rest; the result reports each item.
+ */
+/**
+ * form_schema of the step a request is on, read from the flow version the
+ * request runs on (the published flow for requests started before versions)
+ */
+async function fetchRequestStepFormSchema(
+  queryClient: QueryClient,
+  request: ApprovalRequestResponse
+) {
+  const { flow_id: flowId, flow_version: version } = request;
+  const response =
+    version != null
+      ? await queryClient.fetchQuery({
+          queryKey: ["approval-flows", flowId, "versions", version],
+          queryFn: () => getFlowVersion(flowId, version),
+          staleTime: Infinity,
+        })
+      : await queryClient.fetchQuery({
+          queryKey: ["approval-flows", flowId],
+          queryFn: () => getApprovalFlow(flowId),
+          staleTime: 1000 * 60 * 5, // 5 minutes
+        });
+  return response.data?.steps?.find(
+    (step) => step.step_order === request.current_step
+  )?.form_schema;
+}
+
+// Steps with a form are decided one by one, where the form can be filled in
+const STEP_FORM_REQUIRED_ERROR = "Requiere completar el formulario del paso";
+
+export function useBulkApprovalAction() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      action,
+      requests,
+      comment,
+      to_user_id,
+    }: BulkApprovalRequest): Promise<BulkApprovalResult> => {
+      const decide = async (request: ApprovalRequestResponse) => {
+        if (action === "delegate") {
+          return delegateRequest(request.id, {
+            to_user_id: to_user_id ?? "",
+            reason: comment,
+          });
+        }
+        const formSchema = await fetchRequestStepFormSchema(
+          queryClient,
+          request
+        );
+        if (parseFormSchema(formSchema)) {
+          throw new Error(STEP_FORM_REQUIRED_ERROR);
+        }
+        return action === "approve"
+          ? approveRequest(request.id, { comment })
+          : rejectRequest(request.id, { comment });
+      };
+
+      const results = await Promise.all(
+        requests.map(async (request): Promise<BulkApprovalItemResult> => {
+          try {
+            await decide(request);
+            return { requestId: request.id, success: true };
+          } catch (error) {
+            return {
+              requestId: request.id,
+              success: false,
+              error: getBulkErrorMessage(error),
+            };
+          }
+        })
+      );
+      const succeeded = results.filter((result) => result.success).length;
+
+      return {
+        action,
+        results,
+        succeeded,
+        failed: results.length - succeeded,
+      };
+    },
+    onSuccess: (result) => {
+      void queryClient.invalidateQueries({ queryKey: ["approval-requests"] });
+      result.results.forEach(({ requestId }) => {
+        void queryClient.invalidateQueries({
+          queryKey: ["approval-timeline", requestId],
+        });
+      });
+      void queryClient.invalidateQueries({ queryKey: ["approval-stats"] });
+    },
+    onError: (error) => {
+      console.error("Failed to apply bulk decision:", error);
+    },
+  });
+}
+
+// Out-of-office hooks
+export function useOutOfOfficeRules() {
+  return useQuery({
+    queryKey: ["approval-out-of-office"],
+    queryFn: () => listOutOfOfficeRules(),
+    staleTime: 1000 * 60 * 2, // 2 minutes
+    gcTime: 1000 * 60 * 5, // 5 minutes
+    retry: 2,
+    refetchOnWindowFocus: false,
+    refetchOnMount: false,
+    refetchOnReconnect: false,
+    networkMode: "online",
+  });
+}
+
+export function useOutOfOfficeDelegations(ruleId: string) {
+  return useQuery({
+    queryKey: ["approval-out-of-office", ruleId, "delegations"],
+    queryFn: () => listOutOfOfficeDelegations(ruleId),
+    staleTime: 1000 * 60 * 1, // 1 minute
+    gcTime: 1000 * 60 * 5, // 5 minutes
+    retry: 2,
+    enabled: !!ruleId,
+    refetchOnWindowFocus: false,
+    refetchOnMount: false,
+    refetchOnReconnect: false,
+    networkMode: "online",
+  });
+}
+
+// Saving a rule can delegate pending requests, so requests are refreshed too
+function useInvalidateOutOfOffice() {
+  const queryClient = useQueryClient();
+
+  return () => {
+    void queryClient.invalidateQueries({
+      queryKey: ["approval-out-of-office"],
+    });
+    void queryClient.invalidateQueries({ queryKey: ["approval-requests"] });
+    void queryClient.invalidateQueries({ queryKey: ["approval-widget"] });
+    void queryClient.invalidateQueries({ queryKey: ["approval-stats"] });
+  };
+}
+
+export function useCreateOutOfOfficeRule() {
+  const invalidate = useInvalidateOutOfOffice();
+
+  return useMutation({
+    mutationFn: (data: ApprovalOutOfOfficeCreate) =>
+      createOutOfOfficeRule(data),
+    onSuccess: invalidate,
+    onError: (error) => {
+      console.error("Failed to create out-of-office rule:", error);
+    },
+  });
+}
+
+export function useUpdateOutOfOfficeRule() {
+  const invalidate = useInvalidateOutOfOffice();
+
+  return useMutation({
+    mutationFn: ({
+      ruleId,
+      data,
+    }: {
+      ruleId: string;
+      data: ApprovalOutOfOfficeUpdate;
+    }) => updateOutOfOfficeRule(ruleId, data),
+    onSuccess: invalidate,
+    onError: (error) => {
+      console.error("Failed to update out-of-office rule:", error);
+    },
+  });
+}
+
+export function useDeleteOutOfOfficeRule() {
+  const invalidate = useInvalidateOutOfOffice();
+
+  return useMutation({
+    mutationFn: (ruleId: string) => deleteOutOfOfficeRule(ruleId),
+    onSuccess: invalidate,
+    onError: (error) => {
+      console.error("Failed to delete out-of-office rule:", error);
+    },
+  });
+}
+
 // Integration hooks for widgets and entity-based operations
 export function useApprovalWidget(requestId: string) {
   return useQuery({
@@ -359,3 +719,49 @@ export function useCanApproveRequest(requestId: string) {
     networkMode: "online",
   });
 }
+
+export type ApproverDirectory = "users" | "roles" | "groups";
+
+/**
+ * Users, roles or groups approvers can point to. Kept under the approvals
+ * key so it doesn't share a cache entry with the users and roles admin pages.
+ */
+export function useApproverOptions(
+  directory: ApproverDirectory,
+  enabled: boolean = true
+) {
+  return useQuery({
+    queryKey: ["approvals", "approvers", directory],
+    queryFn: async () => {
+      const response = await apiClient.get(`/${directory}`);
+      return (response.data.data || response.data || []) as Array<
+        Record<string, unknown>
+      >;
+    },
+    staleTime: 1000 * 60 * 5, // 5 minutes
+    gcTime: 1000 * 60 * 10, // 10 minutes
+    retry: 2,
+    enabled,
+    refetchOnWindowFocus: false,
+    refetchOnMount: false,
+    refetchOnReconnect: false,
+    networkMode: "online",
+  });
+}
+
+/**
+ * Names of the users, roles and groups approvers can point to
+ */
+export function useApproverNames() {
+  const { data: users } = useApproverOptions("users");
+  const { data: roles } = useApproverOptions("roles");
+  const { data: groups } = useApproverOptions("groups");
+
+  return useMemo(() => {
+    const names = new Map<string, string>();
+    [...(users || []), ...(roles || []), ...(groups || [])].forEach((item) => {
+      names.set(String(item.id), String(item.name || item.email || item.id));
+    });
+    return names;
+  }, [users, roles, groups]);
+}
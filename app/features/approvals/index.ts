@@ -17,6 +17,23 @@ export type {
   CanApproveResponse,
   ApprovalTimelineItem,
 } from "./types/approval.types";
+export type {
+  ApprovalOutOfOfficeCreate,
+  ApprovalOutOfOfficeResponse,
+  ApprovalOutOfOfficeUpdate,
+  ApprovalAutoDelegationResponse,
+} from "./types/approval-delegation.types";
+export type {
+  ApprovalFlowVersionResponse,
+  ApprovalFlowVersionStatus,
+  FlowGraphDiff,
+  FlowGraphSnapshot,
+} from "./types/approval-version.types";
+export type {
+  ApprovalInboxFilters,
+  BulkApprovalAction,
+  BulkApprovalResult,
+} from "./types/approval-inbox.types";
 
 // API functions
 export {
@@ -38,6 +55,17 @@ export {
   getRequestWidgetData,
   getEntityApprovalStatus,
   checkUserCanApprove,
+  listOutOfOfficeRules,
+  createOutOfOfficeRule,
+  updateOutOfOfficeRule,
+  deleteOutOfOfficeRule,
+  listOutOfOfficeDelegations,
+  listFlowVersions,
+  getFlowVersion,
+  saveFlowDraft,
+  discardFlowDraft,
+  publishFlowDraft,
+  rollbackFlowVersion,
 } from "./api/approvals.api";
 
 // Hooks
@@ -59,14 +87,33 @@ export {
   useApprovalWidget,
   useEntityApprovalStatus,
   useCanApproveRequest,
+  useOutOfOfficeRules,
+  useOutOfOfficeDelegations,
+  useCreateOutOfOfficeRule,
+  useUpdateOutOfOfficeRule,
+  useDeleteOutOfOfficeRule,
+  useFlowVersions,
+  useFlowVersion,
+  useRequestStepFormSchema,
+  useSaveFlowDraft,
+  useDiscardFlowDraft,
+  usePublishFlowDraft,
+  useRollbackFlowVersion,
+  useBulkApprovalAction,
 } from "./hooks/useApprovals";
 
 // Components
 export { ApprovalActionButtons } from "./components/ApprovalActionButtons";
+export { ApprovalBulkActionDialog } from "./components/ApprovalBulkActionDialog";
+export { ApprovalCertificate } from "./components/ApprovalCertificate";
+export { ApprovalCertificateDialog } from "./components/ApprovalCertificateDialog";
 export { ApprovalFlowForm } from "./components/ApprovalFlowForm";
 export { ApprovalFlowList } from "./components/ApprovalFlowList";
 export { ApprovalFlowVisualizer } from "./components/ApprovalFlowVisualizer";
 export { ApprovalFlowConfigPanel } from "./components/ApprovalFlowConfigPanel";
+export { ApprovalInbox } from "./components/ApprovalInbox";
+export { ApprovalOutOfOfficeModal } from "./components/ApprovalOutOfOfficeModal";
+export { ApprovalOutOfOfficePanel } from "./components/ApprovalOutOfOfficePanel";
 export { ApprovalQuickActionModal } from "./components/ApprovalQuickActionModal";
 export { ApprovalRequestCard } from "./components/ApprovalRequestCard";
 export { ApprovalRequestForm } from "./components/ApprovalRequestForm";
@@ -76,3 +123,6 @@ export { ApprovalStepsForm } from "./components/ApprovalStepsForm";
 export { ApprovalWidget } from "./components/ApprovalWidget";
 export { ApprovalStatusBadge } from "./components/ApprovalStatusBadge";
 export { ApprovalTimeline } from "./components/ApprovalTimeline";
+export { FlowPublishDialog } from "./components/FlowPublishDialog";
+export { FlowVersionDiffPanel } from "./components/FlowVersionDiffPanel";
+export { FlowVersionHistory } from "./components/FlowVersionHistory";
@@ -0,0 +1,67 @@
+/**
+ * Approval Out-of-Office Types
+ * Absence windows in which the approvals assigned to a user are delegated
+ * automatically to a default delegate. The backend applies the rules to new
+ * and pending requests and records every delegation it makes.
+ */
+
+export interface ApprovalOutOfOfficeBase {
+  delegate_to_user_id: string;
+  starts_at: string;
+  expires_at: string;
+  // Limit the rule to one flow or one module; neither means every approval
+  flow_id?: string | null;
+  module?: string | null;
+  reason?: string | null;
+}
+
+export type ApprovalOutOfOfficeCreate = ApprovalOutOfOfficeBase;
+
+export interface ApprovalOutOfOfficeUpdate {
+  delegate_to_user_id?: string;
+  starts_at?: string;
+  expires_at?: string;
+  flow_id?: string | null;
+  module?: string | null;
+  reason?: string | null;
+  is_active?: boolean;
+}
+
+export interface ApprovalOutOfOfficeResponse extends ApprovalOutOfOfficeBase {
+  id: string;
+  tenant_id: string;
+  user_id: string;
+  is_active: boolean;
+  // Pending requests delegated when the rule was saved
+  delegated_requests_count?: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export type ApprovalOutOfOfficeStatus =
+  | "scheduled"
+  | "active"
+  | "expired"
+  | "disabled";
+
+// Audit record of a request delegated by an out-of-office rule
+export interface ApprovalAutoDelegationResponse {
+  id: string;
+  rule_id: string;
+  request_id: string;
+  request_title?: string | null;
+  step_order: number;
+  from_user_id: string;
+  to_user_id: string;
+  delegated_at: string;
+}
+
+// Auto-delegation read from the "delegate" timeline item of a request
+export type ApprovalAutoDelegation = {
+  ruleId?: string;
+  stepOrder: number;
+  fromUser: string;
+  toUser: string;
+  delegatedAt: string;
+  expiresAt?: string;
+};
@@ -0,0 +1,55 @@
+/**
+ * Approval Form Types
+ * JSON-Schema-like definition of the form an approver fills in on a step
+ * (stored in ApprovalStepBase.form_schema)
+ */
+
+// Field widgets available in the form designer
+export type ApprovalFormFieldType =
+  | "text"
+  | "number"
+  | "date"
+  | "select"
+  | "file"
+  | "signature";
+
+// Field definition, using JSON Schema keywords where one exists
+export type ApprovalFormField = {
+  type: "string" | "number" | "object";
+  widget: ApprovalFormFieldType;
+  title: string;
+  description?: string;
+  // Select options
+  enum?: string[];
+  // Text
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  // Number
+  minimum?: number;
+  maximum?: number;
+  // Date (yyyy-MM-dd)
+  formatMinimum?: string;
+  formatMaximum?: string;
+  // File
+  accept?: string[];
+  maxSizeMb?: number;
+};
+
+export type ApprovalFormSchema = {
+  type: "object";
+  properties: Record<string, ApprovalFormField>;
+  required: string[];
+  // Field order in the designer and the renderer
+  order: string[];
+};
+
+// Value of a file field in form_data
+export type ApprovalFormFile = {
+  name: string;
+  size: number;
+  type: string;
+  data_url: string;
+};
+
+export type ApprovalFormValues = Record<string, unknown>;
@@ -0,0 +1,39 @@
+/**
+ * Approval Inbox Types
+ * Filters of the approvals inbox and per-item results of bulk decisions
+ */
+
+import type { ApprovalRequestResponse } from "./approval.types";
+
+export type BulkApprovalAction = "approve" | "reject" | "delegate";
+
+// Minimum age of the pending requests shown, "all" disables the filter
+export type InboxAgeFilter = "all" | "1d" | "3d" | "7d";
+
+export type ApprovalInboxFilters = {
+  module: string;
+  entityType: string;
+  age: InboxAgeFilter;
+};
+
+export interface BulkApprovalRequest {
+  action: BulkApprovalAction;
+  requests: ApprovalRequestResponse[];
+  // Shared comment sent with every decision
+  comment?: string | null;
+  // Required when delegating
+  to_user_id?: string;
+}
+
+export type BulkApprovalItemResult = {
+  requestId: string;
+  success: boolean;
+  error?: string;
+};
+
+export type BulkApprovalResult = {
+  action: BulkApprovalAction;
+  results: BulkApprovalItemResult[];
+  succeeded: number;
+  failed: number;
+};
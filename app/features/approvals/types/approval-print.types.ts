@@ -0,0 +1,28 @@
+/**
+ * Approval Print Types
+ * Layout of the approval certificate (stored in ApprovalStepBase.print_config)
+ */
+
+export type ApprovalCertificateOrientation = "portrait" | "landscape";
+
+// Certificate layout; when several steps set the same option the last step wins
+export type ApprovalCertificateLayout = {
+  title: string;
+  orientation: ApprovalCertificateOrientation;
+  show_logo: boolean;
+  show_flow_diagram: boolean;
+  show_metadata: boolean;
+  // Blank lines for handwritten signatures, one per label
+  signature_lines: string[];
+  footer_text: string;
+};
+
+export type ApprovalPrintConfig = Partial<ApprovalCertificateLayout> & {
+  // Print the actions of this step
+  include_in_certificate?: boolean;
+  // Print the form_data submitted on this step
+  show_form_data?: boolean;
+};
+
+// Outcome of a step, used to colour the flow diagram
+export type ApprovalStepOutcome = "approved" | "rejected" | "pending";
@@ -0,0 +1,31 @@
+/**
+ * Approval SLA Types
+ * Time limits of an approval step (stored in ApprovalStepBase.sla_config).
+ * Reminders and escalations are sent by the backend; the frontend only
+ * configures them and shows the resulting due dates.
+ */
+
+// Who receives the request when a step goes overdue
+export type ApprovalEscalationTargetType = "manager" | "role" | "user";
+
+export type ApprovalEscalationTarget = {
+  type: ApprovalEscalationTargetType;
+  // Role or user id; the manager is resolved from the pending approver
+  id?: string;
+};
+
+export type ApprovalSlaConfig = {
+  due_hours: number;
+  reminder_every_hours?: number;
+  escalate_to?: ApprovalEscalationTarget;
+};
+
+export type ApprovalSlaStatus = "on_time" | "due_soon" | "overdue";
+
+export type ApprovalRequestSla = {
+  dueAt: Date;
+  startedAt?: Date;
+  // Negative once overdue
+  remainingMs: number;
+  status: ApprovalSlaStatus;
+};
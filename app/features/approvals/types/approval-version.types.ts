@@ -0,0 +1,65 @@
+/**
+ * Approval Flow Version Types
+ * Saving in the editor updates the draft of a flow; publishing freezes it as
+ * a new version. Requests keep the version they started on, so editing never
+ * changes in-flight approvals.
+ */
+
+import type { Edge, Node } from "reactflow";
+import type { ApprovalStepResponse } from "./approval.types";
+
+export type ApprovalFlowVersionStatus = "draft" | "published" | "archived";
+
+// Editor graph stored with each version (nodes, edges and their conditions)
+export type FlowGraphSnapshot = {
+  nodes: Node[];
+  edges: Edge[];
+};
+
+export interface ApprovalFlowVersionResponse {
+  id: string;
+  tenant_id: string;
+  flow_id: string;
+  version: number;
+  status: ApprovalFlowVersionStatus;
+  steps: ApprovalStepResponse[];
+  graph?: FlowGraphSnapshot | null;
+  change_note?: string | null;
+  // Version this one was restored from on rollback
+  restored_from?: number | null;
+  // Requests still running on this version
+  in_flight_requests?: number;
+  created_by?: string | null;
+  created_at: string;
+  published_by?: string | null;
+  published_at?: string | null;
+}
+
+export interface ApprovalFlowDraftSave {
+  steps: Omit<
+    ApprovalStepResponse,
+    "id" | "tenant_id" | "created_at" | "updated_at"
+  >[];
+  graph: FlowGraphSnapshot;
+}
+
+export interface ApprovalFlowPublishRequest {
+  change_note?: string | null;
+}
+
+export type FlowDiffStatus = "added" | "removed" | "changed";
+
+export type FlowDiffChange = {
+  kind: "node" | "edge";
+  id: string;
+  status: FlowDiffStatus;
+  label: string;
+  // Human readable list of what changed
+  details: string[];
+};
+
+export type FlowGraphDiff = {
+  nodes: Record<string, FlowDiffStatus>;
+  edges: Record<string, FlowDiffStatus>;
+  changes: FlowDiffChange[];
+};
@@ -30,7 +30,11 @@ export interface ApprovalFlowResponse extends ApprovalFlowBase {
   created_by?: string | null;
   created_at: string;
   updated_at: string;
+  // Steps of the published version
   steps?: ApprovalStepResponse[];
+  published_version?: number | null;
+  // Unpublished changes saved from the editor
+  draft_version?: number | null;
 }
 
 // Approval Step types
@@ -47,6 +51,7 @@ export interface ApprovalStepBase {
   min_approvals?: number | null;
   form_schema?: Record<string, unknown> | null;
   print_config?: Record<string, unknown> | null;
+  sla_config?: Record<string, unknown> | null;
   rejection_required?: boolean;
 }
 
@@ -94,12 +99,29 @@ export interface ApprovalRequestResponse extends ApprovalRequestBase {
   created_at: string;
   updated_at: string;
   request_metadata?: Record<string, unknown> | null;
+  // Flow version the request started on; it keeps it until it finishes
+  flow_version?: number | null;
+  // SLA of the current step, computed by the backend from its sla_config
+  current_step_started_at?: string | null;
+  current_step_due_at?: string | null;
+  next_reminder_at?: string | null;
+  escalated_at?: string | null;
+  step_history?: ApprovalStepHistoryItem[] | null;
+}
+
+// Time spent on each step of a request
+export interface ApprovalStepHistoryItem {
+  step_order: number;
+  step_name?: string | null;
+  started_at: string;
+  completed_at?: string | null;
+  due_at?: string | null;
 }
 
 // Approval Action types
 export interface ApprovalActionBase {
   request_id: string;
-  action_type: "approve" | "reject" | "delegate" | "comment";
+  action_type: "approve" | "reject" | "delegate" | "comment" | "escalation";
   step_order: number;
   comment?: string | null;
   metadata?: Record<string, unknown> | null;
@@ -153,6 +175,7 @@ export interface ApprovalTimelineItem {
     | "reject"
     | "delegate"
     | "comment"
+    | "escalation"
     | "created"
     | "cancelled";
   step_order: number;
@@ -4,6 +4,9 @@
  */
 
 import type { Node as ReactFlowNode, Edge as ReactFlowEdge } from "reactflow";
+import type { ApprovalFormSchema } from "./approval-form.types";
+import type { ApprovalPrintConfig } from "./approval-print.types";
+import type { ApprovalSlaConfig } from "./approval-sla.types";
 
 // Node types
 export type FlowNodeType = "approval" | "concentrator" | "start" | "end";
@@ -45,6 +48,9 @@ export interface ApprovalNodeData {
   approvers: string[]; // IDs of users/roles/groups
   requireAll: boolean;
   minApprovals?: number;
+  formSchema?: ApprovalFormSchema | null;
+  printConfig?: ApprovalPrintConfig | null;
+  slaConfig?: ApprovalSlaConfig | null;
 }
 
 // Concentrator node data
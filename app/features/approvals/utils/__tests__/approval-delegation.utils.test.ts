@@ -0,0 +1,120 @@
+/**
+ * Approval out-of-office utils tests
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  findOverlappingRule,
+  getAutoDelegation,
+  getOutOfOfficeStatus,
+} from "~/features/approvals/utils/approval-delegation.utils";
+import type { ApprovalOutOfOfficeResponse } from "~/features/approvals/types/approval-delegation.types";
+import type { ApprovalTimelineItem } from "~/features/approvals/types/approval.types";
+
+const now = new Date("2026-08-10T12:00:00Z");
+
+const makeRule = (
+  overrides: Partial<ApprovalOutOfOfficeResponse> = {}
+): ApprovalOutOfOfficeResponse => ({
+  id: "rule-1",
+  tenant_id: "tenant-1",
+  user_id: "user-1",
+  delegate_to_user_id: "user-2",
+  starts_at: "2026-08-01T00:00:00Z",
+  expires_at: "2026-08-15T00:00:00Z",
+  is_active: true,
+  created_at: "2026-07-20T00:00:00Z",
+  updated_at: "2026-07-20T00:00:00Z",
+  ...overrides,
+});
+
+describe("getOutOfOfficeStatus", () => {
+  it("follows the window and the active flag", () => {
+    expect(getOutOfOfficeStatus(makeRule(), now)).toBe("active");
+    expect(
+      getOutOfOfficeStatus(makeRule({ starts_at: "2026-08-11T00:00:00Z" }), now)
+    ).toBe("scheduled");
+    expect(
+      getOutOfOfficeStatus(
+        makeRule({ expires_at: "2026-08-10T12:00:00Z" }),
+        now
+      )
+    ).toBe("expired");
+    expect(getOutOfOfficeStatus(makeRule({ is_active: false }), now)).toBe(
+      "disabled"
+    );
+  });
+});
+
+describe("findOverlappingRule", () => {
+  it("only matches enabled rules with the same scope", () => {
+    const rules = [
+      makeRule(),
+      makeRule({ id: "rule-2", module: "purchases" }),
+      makeRule({ id: "rule-3", is_active: false, module: "hr" }),
+    ];
+    const window = {
+      starts_at: "2026-08-14T00:00:00Z",
+      expires_at: "2026-08-20T00:00:00Z",
+    };
+
+    expect(findOverlappingRule(rules, window)?.id).toBe("rule-1");
+    expect(findOverlappingRule(rules, { ...window, id: "rule-1" })).toBeNull();
+    expect(findOverlappingRule(rules, { ...window, module: "hr" })).toBeNull();
+    expect(
+      findOverlappingRule(rules, {
+        starts_at: "2026-08-15T00:00:00Z",
+        expires_at: "2026-08-20T00:00:00Z",
+      })
+    ).toBeNull();
+  });
+});
+
+describe("getAutoDelegation", () => {
+  const item = (
+    overrides: Partial<ApprovalTimelineItem>
+  ): ApprovalTimelineItem => ({
+    id: "t-1",
+    request_id: "req-1",
+    action_type: "delegate",
+    step_order: 1,
+    acted_at: "2026-08-02T09:00:00Z",
+    ...overrides,
+  });
+
+  it("reads the latest auto-delegation of the step", () => {
+    const timeline = [
+      item({
+        metadata: { auto_delegated: true, from_user: "Ana", to_user: "Luis" },
+      }),
+      item({
+        id: "t-2",
+        step_order: 2,
+        acted_at: "2026-08-03T09:00:00Z",
+        metadata: {
+          auto_delegated: true,
+          rule_id: "rule-1",
+          from_user: "Marta",
+          to_user: "Pablo",
+          expires_at: "2026-08-15T00:00:00Z",
+        },
+      }),
+      item({ id: "t-3", step_order: 2, acted_at: "2026-08-04T09:00:00Z" }),
+    ];
+
+    expect(getAutoDelegation(timeline, 2)).toEqual({
+      ruleId: "rule-1",
+      stepOrder: 2,
+      fromUser: "Marta",
+      toUser: "Pablo",
+      delegatedAt: "2026-08-03T09:00:00Z",
+      expiresAt: "2026-08-15T00:00:00Z",
+    });
+    expect(getAutoDelegation(timeline, 1)?.fromUser).toBe("Ana");
+  });
+
+  it("ignores manual delegations", () => {
+    expect(getAutoDelegation([item({ metadata: null })])).toBeNull();
+    expect(getAutoDelegation(undefined)).toBeNull();
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Approval form utils tests
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  addFormField,
+  createEmptyFormSchema,
+  moveFormField,
+  parseFormSchema,
+  removeFormField,
+  renameFormField,
+  setFormFieldRequired,
+} from "~/features/approvals/utils/approval-form.utils";
+
+describe("parseFormSchema", () => {
+  it("keeps known fields, completing the order and dropping stale keys", () => {
+    const schema = parseFormSchema({
+      type: "object",
+      properties: {
+        amount: { widget: "number", title: "Importe" },
+        notes: { widget: "text", title: "Notas" },
+        legacy: { widget: "rating", title: "Valoración" },
+      },
+      required: ["amount", "legacy"],
+      order: ["notes", "gone"],
+    });
+
+    expect(schema?.order).toEqual(["notes", "amount"]);
+    expect(schema?.required).toEqual(["amount"]);
+    expect(schema?.properties.amount).toMatchObject({
+      type: "number",
+      widget: "number",
+    });
+  });
+
+  it("treats empty or unknown schemas as no form", () => {
+    expect(parseFormSchema(null)).toBeNull();
+    expect(parseFormSchema({})).toBeNull();
+    expect(parseFormSchema({ properties: {} })).toBeNull();
+  });
+});
+
+describe("form schema editing", () => {
+  it("adds, moves, renames and removes fields", () => {
+    let { schema } = addFormField(createEmptyFormSchema(), "text");
+    ({ schema } = addFormField(schema, "text"));
+    ({ schema } = addFormField(schema, "signature", 0));
+    expect(schema.order).toEqual(["signature_1", "text_1", "text_2"]);
+
+    schema = moveFormField(schema, 0, 2);
+    schema = setFormFieldRequired(schema, "text_1", true);
+    schema = renameFormField(schema, "text_1", "invoice");
+    expect(schema.order).toEqual(["invoice", "text_2", "signature_1"]);
+    expect(schema.required).toEqual(["invoice"]);
+
+    expect(renameFormField(schema, "text_2", "invoice")).toBe(schema);
+    expect(renameFormField(schema, "text_2", "2nd field")).toBe(schema);
+
+    schema = removeFormField(schema, "invoice");
+    expect(schema.order).toEqual(["text_2", "signature_1"]);
+    expect(schema.required).toEqual([]);
+    expect(schema.properties).not.toHaveProperty("invoice");
+  });
+});
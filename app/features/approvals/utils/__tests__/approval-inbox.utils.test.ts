@@ -0,0 +1,128 @@
+/**
+ * Approval inbox utils tests
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_INBOX_FILTERS,
+  filterInboxRequests,
+  getBulkErrorMessage,
+} from "~/features/approvals/utils/approval-inbox.utils";
+import type { ApprovalRequestResponse } from "~/features/approvals/types/approval.types";
+
+const now = new Date("2026-08-10T12:00:00Z");
+
+const makeRequest = (
+  overrides: Partial<ApprovalRequestResponse> = {}
+): ApprovalRequestResponse => ({
+  id: "req-1",
+  tenant_id: "tenant-1",
+  flow_id: "flow-sales",
+  title: "Pedido #1",
+  entity_type: "order",
+  entity_id: "order-1",
+  status: "pending",
+  current_step: 1,
+  requested_at: "2026-08-10T08:00:00Z",
+  created_at: "2026-08-10T08:00:00Z",
+  updated_at: "2026-08-10T08:00:00Z",
+  ...overrides,
+});
+
+const flowModules = new Map([
+  ["flow-sales", "sales"],
+  ["flow-purchases", "purchases"],
+]);
+
+const requests = [
+  makeRequest(),
+  makeRequest({
+    id: "req-2",
+    flow_id: "flow-purchases",
+    entity_type: "invoice",
+    requested_at: "2026-08-05T08:00:00Z",
+  }),
+  makeRequest({
+    id: "req-3",
+    requested_at: "2026-08-08T08:00:00Z",
+  }),
+  makeRequest({ id: "req-4", status: "approved" }),
+];
+
+const ids = (items: ApprovalRequestResponse[]) => items.map((item) => item.id);
+
+describe("filterInboxRequests", () => {
+  it("returns pending requests oldest first", () => {
+    expect(
+      ids(
+        filterInboxRequests(requests, DEFAULT_INBOX_FILTERS, flowModules, now)
+      )
+    ).toEqual(["req-2", "req-3", "req-1"]);
+  });
+
+  it("filters by the module of the flow", () => {
+    expect(
+      ids(
+        filterInboxRequests(
+          requests,
+          { ...DEFAULT_INBOX_FILTERS, module: "sales" },
+          flowModules,
+          now
+        )
+      )
+    ).toEqual(["req-3", "req-1"]);
+  });
+
+  it("filters by entity type", () => {
+    expect(
+      ids(
+        filterInboxRequests(
+          requests,
+          { ...DEFAULT_INBOX_FILTERS, entityType: "invoice" },
+          flowModules,
+          now
+        )
+      )
+    ).toEqual(["req-2"]);
+  });
+
+  it("keeps only requests older than the selected age", () => {
+    expect(
+      ids(
+        filterInboxRequests(
+          requests,
+          { ...DEFAULT_INBOX_FILTERS, age: "1d" },
+          flowModules,
+          now
+        )
+      )
+    ).toEqual(["req-2", "req-3"]);
+    expect(
+      ids(
+        filterInboxRequests(
+          requests,
+          { ...DEFAULT_INBOX_FILTERS, age: "3d" },
+          flowModules,
+          now
+        )
+      )
+    ).toEqual(["req-2"]);
+  });
+});
+
+describe("getBulkErrorMessage", () => {
+  it("prefers the backend detail", () => {
+    expect(
+      getBulkErrorMessage({
+        response: { data: { detail: "No eres aprobador de este paso" } },
+      })
+    ).toBe("No eres aprobador de este paso");
+  });
+
+  it("falls back to the error message", () => {
+    expect(getBulkErrorMessage(new Error("Network Error"))).toBe(
+      "Network Error"
+    );
+    expect(getBulkErrorMessage("boom")).toBe("Error desconocido");
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * Approval print utils tests
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  buildCertificateEntries,
+  getStepOutcomes,
+  parsePrintConfig,
+  resolveCertificateLayout,
+  updatePrintConfig,
+} from "~/features/approvals/utils/approval-print.utils";
+import type {
+  ApprovalStepResponse,
+  ApprovalTimelineItem,
+} from "~/features/approvals/types/approval.types";
+
+const step = (
+  stepOrder: number,
+  overrides: Partial<ApprovalStepResponse> = {}
+): ApprovalStepResponse => ({
+  id: `step-${stepOrder}`,
+  flow_id: "flow-1",
+  tenant_id: "tenant-1",
+  step_order: stepOrder,
+  name: `Paso ${stepOrder}`,
+  approver_type: "user",
+  require_all: false,
+  created_at: "2026-01-01T00:00:00Z",
+  updated_at: "2026-01-01T00:00:00Z",
+  ...overrides,
+});
+
+const action = (
+  id: string,
+  actionType: ApprovalTimelineItem["action_type"],
+  stepOrder: number,
+  actedAt: string,
+  overrides: Partial<ApprovalTimelineItem> = {}
+): ApprovalTimelineItem => ({
+  id,
+  request_id: "req-1",
+  action_type: actionType,
+  step_order: stepOrder,
+  acted_at: actedAt,
+  ...overrides,
+});
+
+describe("parsePrintConfig", () => {
+  it("keeps only known options with valid values", () => {
+    expect(
+      parsePrintConfig({
+        title: "Acta de compra",
+        orientation: "diagonal",
+        show_logo: "yes",
+        show_flow_diagram: false,
+        signature_lines: ["Director", "", 3],
+        unknown: true,
+      })
+    ).toEqual({
+      title: "Acta de compra",
+      show_flow_diagram: false,
+      signature_lines: ["Director"],
+    });
+    expect(parsePrintConfig({ orientation: "diagonal" })).toBeNull();
+    expect(parsePrintConfig(null)).toBeNull();
+  });
+
+  it("drops cleared options when updating", () => {
+    expect(
+      updatePrintConfig({ title: "Acta", show_logo: false }, { title: "" })
+    ).toEqual({ show_logo: false });
+    expect(updatePrintConfig({ footer_text: "Pie" }, { footer_text: "" })).toBe(
+      null
+    );
+  });
+});
+
+describe("resolveCertificateLayout", () => {
+  it("applies the print_config of later steps over earlier ones", () => {
+    const layout = resolveCertificateLayout([
+      step(2, {
+        print_config: {
+          orientation: "landscape",
+          include_in_certificate: false,
+        },
+      }),
+      step(1, {
+        print_config: { title: "Acta de compra", orientation: "portrait" },
+      }),
+    ]);
+
+    expect(layout).toMatchObject({
+      title: "Acta de compra",
+      orientation: "landscape",
+      show_flow_diagram: true,
+    });
+    expect(layout).not.toHaveProperty("include_in_certificate");
+  });
+});
+
+describe("buildCertificateEntries", () => {
+  const steps = [
+    step(1, {
+      name: "Jefe de área",
+      form_schema: {
+        type: "object",
+        order: ["amount", "due_date", "receipt"],
+        required: [],
+        properties: {
+          amount: { type: "number", widget: "number", title: "Importe" },
+          due_date: { type: "string", widget: "date", title: "Vencimiento" },
+          receipt: { type: "object", widget: "file", title: "Justificante" },
+        },
+      },
+    }),
+    step(2, { print_config: { show_form_data: false } }),
+    step(3, { print_config: { include_in_certificate: false } }),
+  ];
+
+  it("lists actions in order with labelled form data", () => {
+    const entries = buildCertificateEntries(
+      [
+        action("a3", "approve", 3, "2026-05-04T10:00:00Z"),
+        action("a2", "approve", 2, "2026-05-03T10:00:00Z", {
+          form_data: { note: "ok" },
+        }),
+        action("a1", "approve", 1, "2026-05-02T10:00:00Z", {
+          acted_by: "user-1",
+          comment: "Conforme",
+          form_data: {
+            legacy: "x",
+            receipt: { name: "factura.pdf", size: 2048 },
+            due_date: "2026-06-30",
+            amount: 1200,
+          },
+        }),
+        action("a0", "created", 0, "2026-05-01T10:00:00Z"),
+      ],
+      steps
+    );
+
+    expect(entries.map((entry) => entry.id)).toEqual(["a0", "a1", "a2"]);
+    expect(entries[1]).toMatchObject({
+      actionLabel: "Aprobado",
+      stepName: "Jefe de área",
+      actedBy: "user-1",
+      comment: "Conforme",
+      fields: [
+        { key: "amount", label: "Importe", text: "1200" },
+        { key: "due_date", label: "Vencimiento", text: "30/06/2026" },
+        { key: "receipt", label: "Justificante", text: "factura.pdf (2 KB)" },
+        { key: "legacy", label: "legacy", text: "x" },
+      ],
+    });
+    expect(entries[2]?.fields).toEqual([]);
+  });
+
+  it("takes the outcome of each step from its last decision", () => {
+    expect(
+      getStepOutcomes([
+        action("a2", "approve", 1, "2026-05-03T10:00:00Z"),
+        action("a1", "reject", 1, "2026-05-02T10:00:00Z"),
+        action("a3", "reject", 2, "2026-05-04T10:00:00Z"),
+        action("a4", "comment", 3, "2026-05-05T10:00:00Z"),
+      ])
+    ).toEqual({ 1: "approved", 2: "rejected" });
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Approval SLA utils tests
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  computeSlaStats,
+  formatSlaDuration,
+  getRequestSla,
+  parseSlaConfig,
+} from "~/features/approvals/utils/approval-sla.utils";
+import type { ApprovalRequestResponse } from "~/features/approvals/types/approval.types";
+
+const now = new Date("2026-05-10T12:00:00Z");
+
+const makeRequest = (
+  overrides: Partial<ApprovalRequestResponse> = {}
+): ApprovalRequestResponse => ({
+  id: "req-1",
+  tenant_id: "tenant-1",
+  flow_id: "flow-1",
+  title: "Compra",
+  entity_type: "order",
+  entity_id: "order-1",
+  status: "pending",
+  current_step: 2,
+  requested_at: "2026-05-08T12:00:00Z",
+  created_at: "2026-05-08T12:00:00Z",
+  updated_at: "2026-05-08T12:00:00Z",
+  ...overrides,
+});
+
+describe("parseSlaConfig", () => {
+  it("requires a due time and a complete escalation target", () => {
+    expect(
+      parseSlaConfig({
+        due_hours: 48,
+        reminder_every_hours: 0,
+        escalate_to: { type: "role" },
+      })
+    ).toEqual({ due_hours: 48 });
+    expect(
+      parseSlaConfig({
+        due_hours: 24,
+        reminder_every_hours: 8,
+        escalate_to: { type: "user", id: "user-9" },
+      })
+    ).toEqual({
+      due_hours: 24,
+      reminder_every_hours: 8,
+      escalate_to: { type: "user", id: "user-9" },
+    });
+    expect(parseSlaConfig({ reminder_every_hours: 8 })).toBeNull();
+  });
+});
+
+describe("getRequestSla", () => {
+  it("counts down to the due date of the current step", () => {
+    const sla = getRequestSla(
+      makeRequest({
+        current_step_started_at: "2026-05-09T12:00:00Z",
+        current_step_due_at: "2026-05-11T12:00:00Z",
+      }),
+      now
+    );
+
+    expect(sla?.status).toBe("on_time");
+    expect(formatSlaDuration(sla!.remainingMs)).toBe("1d 0h");
+  });
+
+  it("flags the last quarter of the time and overdue steps", () => {
+    const dueSoon = makeRequest({
+      step_history: [
+        {
+          step_order: 2,
+          started_at: "2026-05-09T16:00:00Z",
+          due_at: "2026-05-10T16:00:00Z",
+        },
+      ],
+    });
+    expect(getRequestSla(dueSoon, now)?.status).toBe("due_soon");
+
+    const overdue = makeRequest({
+      current_step_due_at: "2026-05-10T09:30:00Z",
+    });
+    const sla = getRequestSla(overdue, now);
+    expect(sla?.status).toBe("overdue");
+    expect(formatSlaDuration(sla!.remainingMs)).toBe("2h 30m");
+  });
+
+  it("ignores finished requests and steps without due date", () => {
+    expect(
+      getRequestSla(
+        makeRequest({
+          status: "approved",
+          current_step_due_at: "2026-05-09T00:00:00Z",
+        }),
+        now
+      )
+    ).toBeNull();
+    expect(getRequestSla(makeRequest(), now)).toBeNull();
+  });
+});
+
+describe("computeSlaStats", () => {
+  it("computes compliance and average time per step", () => {
+    const stats = computeSlaStats(
+      [
+        makeRequest({
+          status: "approved",
+          step_history: [
+            {
+              step_order: 1,
+              step_name: "Jefe de área",
+              started_at: "2026-05-01T00:00:00Z",
+              completed_at: "2026-05-01T10:00:00Z",
+              due_at: "2026-05-02T00:00:00Z",
+            },
+            {
+              step_order: 2,
+              step_name: "Finanzas",
+              started_at: "2026-05-01T10:00:00Z",
+              completed_at: "2026-05-04T10:00:00Z",
+              due_at: "2026-05-03T10:00:00Z",
+            },
+          ],
+        }),
+        makeRequest({
+          current_step_due_at: "2026-05-10T00:00:00Z",
+          step_history: [
+            {
+              step_order: 1,
+              started_at: "2026-05-08T00:00:00Z",
+              completed_at: "2026-05-08T20:00:00Z",
+              due_at: "2026-05-09T00:00:00Z",
+            },
+            {
+              step_order: 2,
+              started_at: "2026-05-08T20:00:00Z",
+              due_at: "2026-05-10T00:00:00Z",
+            },
+          ],
+        }),
+      ],
+      now
+    );
+
+    expect(stats).toEqual({
+      complianceRate: 50,
+      met: 2,
+      breached: 2,
+      overdue: 1,
+      stepAverages: [
+        { stepOrder: 1, stepName: "Jefe de área", avgHours: 15, count: 2 },
+        { stepOrder: 2, stepName: "Finanzas", avgHours: 72, count: 1 },
+      ],
+    });
+  });
+
+  it("has no compliance rate without due dates", () => {
+    expect(computeSlaStats([makeRequest()], now).complianceRate).toBeNull();
+  });
+});
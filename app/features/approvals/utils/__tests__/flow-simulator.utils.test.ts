@@ -0,0 +1,210 @@
+/**
+ * Flow simulator utils tests
+ */
+
+import { describe, it, expect } from "vitest";
+import type { Node, Edge } from "reactflow";
+import {
+  evaluateConditionRule,
+  evaluateEdgeCondition,
+  getConditionFields,
+  runSimulation,
+  setMetadataValue,
+} from "~/features/approvals/utils/flow-simulator.utils";
+import type {
+  EdgeCondition,
+  FlowNodeData,
+} from "~/features/approvals/types/flow-editor.types";
+
+const approval = (id: string, approvers: string[]): Node => ({
+  id,
+  type: "approval",
+  position: { x: 0, y: 0 },
+  data: {
+    type: "approval",
+    name: id,
+    approverType: "user",
+    approvers,
+    requireAll: false,
+    minApprovals: 1,
+  } satisfies FlowNodeData,
+});
+
+const node = (id: string, type: "start" | "end"): Node => ({
+  id,
+  type,
+  position: { x: 0, y: 0 },
+  data: { type, name: id } satisfies FlowNodeData,
+});
+
+const concentrator = (id: string, minApprovals: number): Node => ({
+  id,
+  type: "concentrator",
+  position: { x: 0, y: 0 },
+  data: {
+    type: "concentrator",
+    name: id,
+    requireAll: false,
+    minApprovals,
+  } satisfies FlowNodeData,
+});
+
+const edge = (
+  source: string,
+  target: string,
+  condition?: EdgeCondition
+): Edge => ({
+  id: `${source}-${target}`,
+  source,
+  target,
+  data: condition ? { condition } : undefined,
+});
+
+// Managers approve everything; purchases over 5000 also go to finance,
+// then to legal and compliance in parallel (one of them is enough)
+const nodes = [
+  node("start", "start"),
+  approval("manager", ["ana"]),
+  approval("finance", ["luis"]),
+  approval("legal", ["eva"]),
+  approval("compliance", ["raul"]),
+  concentrator("merge", 1),
+  node("end", "end"),
+];
+const edges = [
+  edge("start", "manager"),
+  edge("manager", "end", {
+    logic: "AND",
+    rules: [{ field: "amount", operator: "lte", value: 5000 }],
+  }),
+  edge("manager", "finance", {
+    logic: "OR",
+    rules: [
+      { field: "amount", operator: "gt", value: 5000 },
+      { field: "category", operator: "in", value: ["legal", "hr"] },
+    ],
+  }),
+  edge("finance", "legal"),
+  edge("finance", "compliance"),
+  edge("legal", "merge"),
+  edge("compliance", "merge"),
+  edge("merge", "end"),
+];
+
+describe("condition evaluation", () => {
+  it("compares numbers, lists, text and nested fields", () => {
+    const metadata = {
+      amount: "7500",
+      tags: ["urgent"],
+      cost: { center: "IT" },
+    };
+
+    expect(
+      evaluateConditionRule(
+        { field: "amount", operator: "gte", value: 7500 },
+        metadata
+      )
+    ).toBe(true);
+    expect(
+      evaluateConditionRule(
+        { field: "tags", operator: "contains", value: "urgent" },
+        metadata
+      )
+    ).toBe(true);
+    expect(
+      evaluateConditionRule(
+        { field: "cost.center", operator: "not_in", value: "HR, Sales" },
+        metadata
+      )
+    ).toBe(true);
+    expect(
+      evaluateConditionRule(
+        { field: "missing", operator: "eq", value: "x" },
+        metadata
+      )
+    ).toBe(false);
+  });
+
+  it("combines rules with AND / OR and takes edges without rules", () => {
+    const rules = [
+      { field: "amount", operator: "gt" as const, value: 100 },
+      { field: "category", operator: "eq" as const, value: "travel" },
+    ];
+    const metadata = { amount: 500, category: "office" };
+
+    expect(evaluateEdgeCondition({ logic: "AND", rules }, metadata)).toBe(
+      false
+    );
+    expect(evaluateEdgeCondition({ logic: "OR", rules }, metadata)).toBe(true);
+    expect(evaluateEdgeCondition(undefined, metadata)).toBe(true);
+  });
+
+  it("lists the fields the conditions use and sets nested values", () => {
+    expect(getConditionFields(edges)).toEqual(["amount", "category"]);
+    expect(setMetadataValue({ a: 1 }, "cost.center", "IT")).toEqual({
+      a: 1,
+      cost: { center: "IT" },
+    });
+  });
+});
+
+describe("runSimulation", () => {
+  it("follows the edges whose conditions match", () => {
+    const state = runSimulation(nodes, edges, { amount: 1200 });
+
+    expect(state.status).toBe("approved");
+    expect(state.requests.map((request) => request.nodeId)).toEqual([
+      "manager",
+    ]);
+    expect(state.traversedEdgeIds).toEqual(["start-manager", "manager-end"]);
+  });
+
+  it("asks parallel approvers in the same round and merges them", () => {
+    const state = runSimulation(nodes, edges, { amount: 9000 });
+
+    expect(state.status).toBe("approved");
+    expect(
+      state.requests.map((request) => [request.nodeId, request.order])
+    ).toEqual([
+      ["manager", 1],
+      ["finance", 2],
+      ["legal", 3],
+      ["compliance", 3],
+    ]);
+    expect(state.visitedNodeIds).toContain("merge");
+  });
+
+  it("lets a concentrator pass when enough branches approve", () => {
+    const state = runSimulation(
+      nodes,
+      edges,
+      { amount: 9000 },
+      { legal: "reject" }
+    );
+
+    expect(state.status).toBe("approved");
+    expect(state.rejectedNodeIds).toEqual(["legal"]);
+  });
+
+  it("rejects the request when a step or a concentrator rejects", () => {
+    expect(
+      runSimulation(nodes, edges, { amount: 9000 }, { finance: "reject" })
+        .status
+    ).toBe("rejected");
+    expect(
+      runSimulation(
+        nodes,
+        edges,
+        { amount: 9000 },
+        { legal: "reject", compliance: "reject" }
+      ).rejectedNodeIds
+    ).toEqual(["legal", "compliance", "merge"]);
+  });
+
+  it("stops when no edge matches the data", () => {
+    const state = runSimulation(nodes, edges, { amount: "n/a" });
+
+    expect(state.status).toBe("stuck");
+    expect(state.log.at(-1)?.message).toContain("manager");
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * Flow version utils tests
+ */
+
+import { describe, it, expect } from "vitest";
+import type { Edge, Node } from "reactflow";
+import {
+  diffFlowGraphs,
+  formatEdgeCondition,
+  getVersionGraph,
+  toGraphSnapshot,
+} from "~/features/approvals/utils/flow-version.utils";
+import type { ApprovalStepResponse } from "~/features/approvals/types/approval.types";
+
+const approval = (
+  id: string,
+  data: Record<string, unknown> = {},
+  position = { x: 0, y: 0 }
+): Node => ({
+  id,
+  type: "approval",
+  position,
+  data: {
+    type: "approval",
+    name: id,
+    approverType: "user",
+    approvers: ["user-1"],
+    requireAll: false,
+    minApprovals: 1,
+    ...data,
+  },
+});
+
+const point = (id: "start" | "end"): Node => ({
+  id,
+  type: id,
+  position: { x: 0, y: 0 },
+  data: { type: id, name: id === "start" ? "Inicio" : "Fin" },
+});
+
+const edge = (source: string, target: string, data?: Edge["data"]): Edge => ({
+  id: `e${source}-${target}`,
+  source,
+  target,
+  ...(data ? { data } : {}),
+});
+
+const before = {
+  nodes: [
+    point("start"),
+    approval("Jefe"),
+    approval("Finanzas"),
+    approval("Legal"),
+    point("end"),
+  ],
+  edges: [
+    edge("start", "Jefe"),
+    edge("Jefe", "Finanzas", {
+      condition: {
+        logic: "AND",
+        rules: [{ field: "amount", operator: "gt", value: 1000 }],
+      },
+    }),
+    edge("Finanzas", "Legal"),
+    edge("Legal", "end"),
+  ],
+};
+
+describe("diffFlowGraphs", () => {
+  it("reports added, removed and changed nodes, edges and conditions", () => {
+    const after = {
+      nodes: [
+        point("start"),
+        approval("Jefe", {}, { x: 300, y: 120 }),
+        approval("Finanzas", {
+          approvers: ["user-2"],
+          requireAll: true,
+        }),
+        approval("Compras"),
+        point("end"),
+      ],
+      edges: [
+        edge("start", "Jefe"),
+        edge("Jefe", "Finanzas", {
+          condition: {
+            logic: "AND",
+            rules: [{ field: "amount", operator: "gt", value: 5000 }],
+          },
+        }),
+        edge("Finanzas", "Compras"),
+        edge("Compras", "end"),
+      ],
+    };
+
+    const diff = diffFlowGraphs(
+      before,
+      after,
+      new Map([
+        ["user-1", "Ana"],
+        ["user-2", "Luis"],
+      ])
+    );
+
+    // Moving a node isn't a change
+    expect(diff.nodes).toEqual({
+      Finanzas: "changed",
+      Compras: "added",
+      Legal: "removed",
+    });
+    expect(diff.edges).toEqual({
+      "eJefe-Finanzas": "changed",
+      "eFinanzas-Compras": "added",
+      "eCompras-end": "added",
+      "eFinanzas-Legal": "removed",
+      "eLegal-end": "removed",
+    });
+    expect(
+      diff.changes.find((change) => change.id === "Finanzas")?.details
+    ).toEqual([
+      "Aprobadores añadidos: Luis",
+      "Aprobadores eliminados: Ana",
+      "Aprobaciones requeridas: 1 → todas",
+    ]);
+    expect(
+      diff.changes.find((change) => change.id === "eJefe-Finanzas")
+    ).toMatchObject({
+      label: "Jefe → Finanzas",
+      details: ["Condición: amount > 1000 → amount > 5000"],
+    });
+  });
+
+  it("finds no changes between equal graphs", () => {
+    expect(diffFlowGraphs(before, before).changes).toEqual([]);
+  });
+});
+
+describe("formatEdgeCondition", () => {
+  it("joins the rules with the condition logic", () => {
+    expect(
+      formatEdgeCondition({
+        logic: "OR",
+        rules: [
+          { field: "area", operator: "eq", value: "IT" },
+          { field: "amount", operator: "gte", value: 10 },
+        ],
+      })
+    ).toBe('area = "IT" O amount ≥ 10');
+    expect(formatEdgeCondition(undefined)).toBe("sin condición");
+  });
+});
+
+describe("toGraphSnapshot", () => {
+  it("drops the runtime state of the editor", () => {
+    const snapshot = toGraphSnapshot(
+      [
+        {
+          ...approval("Jefe"),
+          selected: true,
+          width: 200,
+          height: 80,
+          className: "ring-4",
+        },
+      ],
+      [{ ...edge("start", "Jefe"), selected: true, animated: true }]
+    );
+
+    expect(snapshot).toEqual({
+      nodes: [approval("Jefe")],
+      edges: [edge("start", "Jefe")],
+    });
+  });
+});
+
+describe("getVersionGraph", () => {
+  it("rebuilds the graph from the steps when none was stored", () => {
+    const steps = [
+      {
+        id: "step-1",
+        flow_id: "flow-1",
+        step_order: 1,
+        name: "Jefe",
+        approver_type: "user",
+        approver_id: "user-1",
+        require_all: false,
+        min_approvals: 1,
+      },
+    ] as ApprovalStepResponse[];
+
+    const graph = getVersionGraph({ steps, graph: null });
+    expect(graph.nodes.map((node) => node.id)).toEqual([
+      "start",
+      "step-1",
+      "end",
+    ]);
+    expect(getVersionGraph({ steps, graph: before })).toEqual(before);
+  });
+});
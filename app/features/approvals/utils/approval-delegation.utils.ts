@@ -0,0 +1,98 @@
+/**
+ * Approval Out-of-Office Utils
+ * State of the absence windows and the auto-delegations recorded in the
+ * timeline of a request
+ */
+
+import type {
+  ApprovalAutoDelegation,
+  ApprovalOutOfOfficeResponse,
+  ApprovalOutOfOfficeStatus,
+} from "../types/approval-delegation.types";
+import type { ApprovalTimelineItem } from "../types/approval.types";
+
+export const OUT_OF_OFFICE_STATUS_LABELS: Record<
+  ApprovalOutOfOfficeStatus,
+  string
+> = {
+  scheduled: "Programada",
+  active: "Activa",
+  expired: "Finalizada",
+  disabled: "Desactivada",
+};
+
+/**
+ * Status of an out-of-office window at the given time
+ */
+export function getOutOfOfficeStatus(
+  rule: Pick<ApprovalOutOfOfficeResponse, "starts_at" | "expires_at"> & {
+    is_active?: boolean;
+  },
+  now: Date = new Date()
+): ApprovalOutOfOfficeStatus {
+  if (rule.is_active === false) return "disabled";
+  if (now < new Date(rule.starts_at)) return "scheduled";
+  if (now >= new Date(rule.expires_at)) return "expired";
+  return "active";
+}
+
+/**
+ * Enabled rule with the same scope whose window overlaps the given one
+ */
+export function findOverlappingRule(
+  rules: ApprovalOutOfOfficeResponse[],
+  window: {
+    id?: string;
+    starts_at: string;
+    expires_at: string;
+    flow_id?: string | null;
+    module?: string | null;
+  }
+): ApprovalOutOfOfficeResponse | null {
+  const start = new Date(window.starts_at);
+  const end = new Date(window.expires_at);
+  return (
+    rules.find(
+      (rule) =>
+        rule.id !== window.id &&
+        rule.is_active &&
+        (rule.flow_id ?? null) === (window.flow_id ?? null) &&
+        (rule.module ?? null) === (window.module ?? null) &&
+        new Date(rule.starts_at) < end &&
+        start < new Date(rule.expires_at)
+    ) ?? null
+  );
+}
+
+/**
+ * Latest auto-delegation of a request, optionally limited to one step.
+ * Manual delegations are ignored.
+ */
+export function getAutoDelegation(
+  timeline: ApprovalTimelineItem[] | null | undefined,
+  stepOrder?: number | null
+): ApprovalAutoDelegation | null {
+  const items = (timeline ?? []).filter(
+    (item) =>
+      item.action_type === "delegate" &&
+      item.metadata?.auto_delegated === true &&
+      (stepOrder == null || item.step_order === stepOrder)
+  );
+  if (items.length === 0) return null;
+
+  const latest = items.reduce((last, item) =>
+    new Date(item.acted_at) > new Date(last.acted_at) ? item : last
+  );
+  const metadata = latest.metadata ?? {};
+  const text = (value: unknown) =>
+    typeof value === "string" && value ? value : undefined;
+
+  return {
+    ruleId: text(metadata.rule_id),
+    stepOrder: latest.step_order,
+    fromUser: text(metadata.from_user) ?? "",
+    toUser: text(metadata.to_user) ?? "",
+    delegatedAt: latest.acted_at,
+    expiresAt: text(metadata.expires_at),
+  };
+}
@@ -0,0 +1,216 @@
+/**
+ * Approval Form Utils
+ * Helpers to build and edit the form schema of an approval step
+ */
+
+import { arrayMove } from "@dnd-kit/sortable";
+import type {
+  ApprovalFormField,
+  ApprovalFormFieldType,
+  ApprovalFormSchema,
+} from "../types/approval-form.types";
+
+export const FORM_FIELD_TYPES: ApprovalFormFieldType[] = [
+  "text",
+  "number",
+  "date",
+  "select",
+  "file",
+  "signature",
+];
+
+export const FORM_FIELD_TYPE_LABELS: Record<ApprovalFormFieldType, string> = {
+  text: "Texto",
+  number: "Número",
+  date: "Fecha",
+  select: "Lista",
+  file: "Archivo",
+  signature: "Firma",
+};
+
+// Field keys end up as form_data properties, so keep them identifier-like
+const FIELD_KEY_PATTERN = /^[a-zA-Z][a-zA-Z0-9_]*$/;
+
+export function isValidFieldKey(key: string): boolean {
+  return FIELD_KEY_PATTERN.test(key);
+}
+
+export function createEmptyFormSchema(): ApprovalFormSchema {
+  return { type: "object", properties: {}, required: [], order: [] };
+}
+
+/**
+ * Default definition for a new field of a widget type
+ */
+export function createFormField(
+  widget: ApprovalFormFieldType
+): ApprovalFormField {
+  const title = FORM_FIELD_TYPE_LABELS[widget];
+  switch (widget) {
+    case "number":
+      return { type: "number", widget, title };
+    case "select":
+      return { type: "string", widget, title, enum: ["Opción 1", "Opción 2"] };
+    case "file":
+      return { type: "object", widget, title, maxSizeMb: 5 };
+    default:
+      return { type: "string", widget, title };
+  }
+}
+
+/**
+ * Read a stored form_schema, dropping anything the designer can't handle.
+ * Returns null when the step has no form.
+ */
+export function parseFormSchema(
+  raw: Record<string, unknown> | null | undefined
+): ApprovalFormSchema | null {
+  if (!raw || typeof raw.properties !== "object" || !raw.properties) {
+    return null;
+  }
+
+  const properties: Record<string, ApprovalFormField> = {};
+  Object.entries(raw.properties as Record<string, unknown>).forEach(
+    ([key, value]) => {
+      const field = value as Partial<ApprovalFormField> | null;
+      if (field && field.widget && FORM_FIELD_TYPES.includes(field.widget)) {
+        properties[key] = {
+          ...createFormField(field.widget),
+          ...field,
+        } as ApprovalFormField;
+      }
+    }
+  );
+
+  const keys = Object.keys(properties);
+  if (keys.length === 0) return null;
+
+  const storedOrder = Array.isArray(raw.order)
+    ? (raw.order as unknown[]).filter(
+        (key): key is string => typeof key === "string" && key in properties
+      )
+    : [];
+  const order = [
+    ...new Set([
+      ...storedOrder,
+      ...keys.filter((key) => !storedOrder.includes(key)),
+    ]),
+  ];
+  const required = Array.isArray(raw.required)
+    ? (raw.required as unknown[]).filter(
+        (key): key is string => typeof key === "string" && key in properties
+      )
+    : [];
+
+  return { type: "object", properties, required, order };
+}
+
+/**
+ * Fields of a schema in display order
+ */
+export function getFormFields(schema: ApprovalFormSchema) {
+  return schema.order.map((key) => ({
+    key,
+    field: schema.properties[key]!,
+    required: schema.required.includes(key),
+  }));
+}
+
+/**
+ * Add a field of a widget type, at the end or at a position
+ */
+export function addFormField(
+  schema: ApprovalFormSchema,
+  widget: ApprovalFormFieldType,
+  index = schema.order.length
+): { schema: ApprovalFormSchema; key: string } {
+  let count = 1;
+  while (`${widget}_${count}` in schema.properties) count += 1;
+  const key = `${widget}_${count}`;
+
+  const order = [...schema.order];
+  order.splice(Math.max(0, Math.min(index, order.length)), 0, key);
+  return {
+    key,
+    schema: {
+      ...schema,
+      properties: { ...schema.properties, [key]: createFormField(widget) },
+      order,
+    },
+  };
+}
+
+export function removeFormField(
+  schema: ApprovalFormSchema,
+  key: string
+): ApprovalFormSchema {
+  const properties = { ...schema.properties };
+  delete properties[key];
+  return {
+    ...schema,
+    properties,
+    required: schema.required.filter((item) => item !== key),
+    order: schema.order.filter((item) => item !== key),
+  };
+}
+
+export function moveFormField(
+  schema: ApprovalFormSchema,
+  from: number,
+  to: number
+): ApprovalFormSchema {
+  return { ...schema, order: arrayMove(schema.order, from, to) };
+}
+
+export function updateFormField(
+  schema: ApprovalFormSchema,
+  key: string,
+  changes: Partial<ApprovalFormField>
+): ApprovalFormSchema {
+  const field = schema.properties[key];
+  if (!field) return schema;
+  return {
+    ...schema,
+    properties: { ...schema.properties, [key]: { ...field, ...changes } },
+  };
+}
+
+export function setFormFieldRequired(
+  schema: ApprovalFormSchema,
+  key: string,
+  required: boolean
+): ApprovalFormSchema {
+  const others = schema.required.filter((item) => item !== key);
+  return { ...schema, required: required ? [...others, key] : others };
+}
+
+/**
+ * Rename a field key. Returns the schema unchanged when the new key is
+ * invalid or already taken.
+ */
+export function renameFormField(
+  schema: ApprovalFormSchema,
+  key: string,
+  newKey: string
+): ApprovalFormSchema {
+  const field = schema.properties[key];
+  if (
+    !field ||
+    key === newKey ||
+    !isValidFieldKey(newKey) ||
+    newKey in schema.properties
+  ) {
+    return schema;
+  }
+  const properties: Record<string, ApprovalFormField> = {};
+  Object.entries(schema.properties).forEach(([name, value]) => {
+    properties[name === key ? newKey : name] = value;
+  });
+  const rename = (item: string) => (item === key ? newKey : item);
+  return {
+    ...schema,
+    properties,
+    required: schema.required.map(rename),
+    order: schema.order.map(rename),
+  };
+}
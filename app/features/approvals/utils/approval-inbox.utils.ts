@@ -0,0 +1,85 @@
+/**
+ * Approval Inbox Utils
+ * Filtering of pending requests in the inbox and error messages of bulk
+ * decisions
+ */
+
+import { differenceInHours } from "date-fns";
+import type { ApprovalRequestResponse } from "../types/approval.types";
+import type {
+  ApprovalInboxFilters,
+  BulkApprovalAction,
+  InboxAgeFilter,
+} from "../types/approval-inbox.types";
+
+export const ALL_FILTER = "all";
+
+export const DEFAULT_INBOX_FILTERS: ApprovalInboxFilters = {
+  module: ALL_FILTER,
+  entityType: ALL_FILTER,
+  age: "all",
+};
+
+export const INBOX_AGE_OPTIONS: {
+  value: InboxAgeFilter;
+  label: string;
+  hours: number;
+}[] = [
+  { value: "all", label: "Cualquier antigüedad", hours: 0 },
+  { value: "1d", label: "Más de 1 día", hours: 24 },
+  { value: "3d", label: "Más de 3 días", hours: 72 },
+  { value: "7d", label: "Más de 7 días", hours: 168 },
+];
+
+export const BULK_ACTION_LABELS: Record<BulkApprovalAction, string> = {
+  approve: "Aprobar",
+  reject: "Rechazar",
+  delegate: "Delegar",
+};
+
+/**
+ * Pending requests matching the inbox filters, oldest first. The module of
+ * a request is the module of its flow.
+ */
+export function filterInboxRequests(
+  requests: ApprovalRequestResponse[],
+  filters: ApprovalInboxFilters,
+  flowModules: Map<string, string>,
+  now: Date = new Date()
+): ApprovalRequestResponse[] {
+  const minHours =
+    INBOX_AGE_OPTIONS.find((option) => option.value === filters.age)?.hours ??
+    0;
+
+  return requests
+    .filter((request) => request.status === "pending")
+    .filter(
+      (request) =>
+        filters.module === ALL_FILTER ||
+        flowModules.get(request.flow_id) === filters.module
+    )
+    .filter(
+      (request) =>
+        filters.entityType === ALL_FILTER ||
+        request.entity_type === filters.entityType
+    )
+    .filter(
+      (request) =>
+        minHours === 0 ||
+        differenceInHours(now, new Date(request.requested_at)) >= minHours
+    )
+    .sort(
+      (a, b) =>
+        new Date(a.requested_at).getTime() - new Date(b.requested_at).getTime()
+    );
+}
+
+/**
+ * Message of a failed decision, preferring the backend detail
+ */
+export function getBulkErrorMessage(error: unknown): string {
+  const detail = (error as { response?: { data?: { detail?: unknown } } })
+    ?.response?.data?.detail;
+  if (typeof detail === "string" && detail) return detail;
+  return error instanceof Error ? error.message : "Error desconocido";
+}
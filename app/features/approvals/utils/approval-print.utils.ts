@@ -0,0 +1,278 @@
+/**
+ * Approval Print Utils
+ * Builds the content of the approval certificate from the request, its
+ * timeline and the print_config of the flow steps
+ */
+
+import { format, parseISO } from "date-fns";
+import { parseFormSchema } from "./approval-form.utils";
+import type { ApprovalFormField } from "../types/approval-form.types";
+import type {
+  ApprovalCertificateLayout,
+  ApprovalPrintConfig,
+  ApprovalStepOutcome,
+} from "../types/approval-print.types";
+import type {
+  ApprovalRequestResponse,
+  ApprovalStepResponse,
+  ApprovalTimelineItem,
+} from "../types/approval.types";
+
+export const DEFAULT_CERTIFICATE_LAYOUT: ApprovalCertificateLayout = {
+  title: "Certificado de aprobación",
+  orientation: "portrait",
+  show_logo: true,
+  show_flow_diagram: true,
+  show_metadata: true,
+  signature_lines: [],
+  footer_text: "",
+};
+
+export const CERTIFICATE_ACTION_LABELS: Record<
+  ApprovalTimelineItem["action_type"],
+  string
+> = {
+  created: "Solicitud creada",
+  approve: "Aprobado",
+  reject: "Rechazado",
+  delegate: "Delegado",
+  comment: "Comentario",
+  escalation: "Escalado",
+  cancelled: "Cancelado",
+};
+
+const BOOLEAN_OPTIONS = [
+  "include_in_certificate",
+  "show_form_data",
+  "show_logo",
+  "show_flow_diagram",
+  "show_metadata",
+] as const;
+
+/**
+ * Read a stored print_config, keeping only the known options.
+ * Returns null when the step has no print options.
+ */
+export function parsePrintConfig(
+  raw: Record<string, unknown> | null | undefined
+): ApprovalPrintConfig | null {
+  if (!raw) return null;
+
+  const config: ApprovalPrintConfig = {};
+  BOOLEAN_OPTIONS.forEach((option) => {
+    if (typeof raw[option] === "boolean") config[option] = raw[option];
+  });
+  if (typeof raw.title === "string" && raw.title.trim()) {
+    config.title = raw.title;
+  }
+  if (raw.orientation === "portrait" || raw.orientation === "landscape") {
+    config.orientation = raw.orientation;
+  }
+  if (Array.isArray(raw.signature_lines)) {
+    config.signature_lines = raw.signature_lines.filter(
+      (line): line is string => typeof line === "string" && !!line.trim()
+    );
+  }
+  if (typeof raw.footer_text === "string") {
+    config.footer_text = raw.footer_text;
+  }
+
+  return Object.keys(config).length > 0 ? config : null;
+}
+
+const sortSteps = (steps: ApprovalStepResponse[]) =>
+  [...steps].sort((a, b) => a.step_order - b.step_order);
+
+/**
+ * Certificate layout of a flow: the defaults overridden by each step's
+ * print_config in step order
+ */
+export function resolveCertificateLayout(
+  steps: ApprovalStepResponse[]
+): ApprovalCertificateLayout {
+  return sortSteps(steps).reduce<ApprovalCertificateLayout>((layout, step) => {
+    const config = parsePrintConfig(step.print_config);
+    if (!config) return layout;
+    const {
+      include_in_certificate: _include,
+      show_form_data: _showFormData,
+      ...overrides
+    } = config;
+    return { ...layout, ...overrides };
+  }, DEFAULT_CERTIFICATE_LAYOUT);
+}
+
+/**
+ * Whether a step's actions and form data go into the certificate
+ */
+export function getStepPrintOptions(step: ApprovalStepResponse | undefined) {
+  const config = parsePrintConfig(step?.print_config);
+  return {
+    includeInCertificate: config?.include_in_certificate ?? true,
+    showFormData: config?.show_form_data ?? true,
+  };
+}
+
+/**
+ * Only finished requests have a certificate
+ */
+export function isCertificateAvailable(
+  request: Pick<ApprovalRequestResponse, "status">
+): boolean {
+  return request.status === "approved" || request.status === "rejected";
+}
+
+/**
+ * Short reference printed on the certificate so auditors can quote it
+ */
+export function getCertificateReference(
+  request: Pick<ApprovalRequestResponse, "id">
+): string {
+  return `CERT-${request.id.replace(/-/g, "").slice(0, 10).toUpperCase()}`;
+}
+
+/**
+ * Outcome of each step (by step_order), from the last decision taken on it
+ */
+export function getStepOutcomes(
+  timeline: ApprovalTimelineItem[]
+): Record<number, ApprovalStepOutcome> {
+  const outcomes: Record<number, ApprovalStepOutcome> = {};
+  [...timeline]
+    .sort((a, b) => a.acted_at.localeCompare(b.acted_at))
+    .forEach((item) => {
+      if (item.action_type === "approve")
+        outcomes[item.step_order] = "approved";
+      if (item.action_type === "reject") outcomes[item.step_order] = "rejected";
+    });
+  return outcomes;
+}
+
+export interface CertificateFieldRow {
+  key: string;
+  label: string;
+  text: string;
+  // Signatures are printed as an image
+  image?: string;
+}
+
+/**
+ * Printable text of a submitted form value
+ */
+export function formatFormDataValue(
+  value: unknown,
+  field?: ApprovalFormField
+): Pick<CertificateFieldRow, "text" | "image"> {
+  if (value === undefined || value === null || value === "") {
+    return { text: "—" };
+  }
+  if (
+    field?.widget === "signature" ||
+    (typeof value === "string" && value.startsWith("data:image/"))
+  ) {
+    return { text: "Firmado", image: String(value) };
+  }
+  if (typeof value === "object" && "name" in value) {
+    const file = value as { name: unknown; size?: unknown };
+    const size =
+      typeof file.size === "number"
+        ? ` (${Math.ceil(file.size / 1024)} KB)`
+        : "";
+    return { text: `${String(file.name)}${size}` };
+  }
+  if (field?.widget === "date" && typeof value === "string") {
+    const date = parseISO(value);
+    return {
+      text: Number.isNaN(date.getTime()) ? value : format(date, "dd/MM/yyyy"),
+    };
+  }
+  if (typeof value === "boolean") return { text: value ? "Sí" : "No" };
+  if (typeof value === "object") return { text: JSON.stringify(value) };
+  return { text: String(value) };
+}
+
+export interface CertificateEntry {
+  id: string;
+  actionLabel: string;
+  actionType: ApprovalTimelineItem["action_type"];
+  stepOrder: number;
+  stepName?: string;
+  actedBy?: string | null;
+  actedAt: string;
+  comment?: string | null;
+  rejectionReason?: string | null;
+  fields: CertificateFieldRow[];
+}
+
+/**
+ * Timeline rows of the certificate in chronological order, skipping the
+ * steps whose print_config leaves them out
+ */
+export function buildCertificateEntries(
+  timeline: ApprovalTimelineItem[],
+  steps: ApprovalStepResponse[]
+): CertificateEntry[] {
+  const stepsByOrder = new Map(steps.map((step) => [step.step_order, step]));
+
+  return [...timeline]
+    .sort((a, b) => a.acted_at.localeCompare(b.acted_at))
+    .flatMap((item) => {
+      const step = stepsByOrder.get(item.step_order);
+      const options = getStepPrintOptions(step);
+      if (step && !options.includeInCertificate) return [];
+
+      const schema = parseFormSchema(step?.form_schema);
+      const formData = options.showFormData ? (item.form_data ?? {}) : {};
+      // Campos en el orden del formulario; los que ya no existen, al final
+      const keys = [
+        ...(schema?.order ?? []).filter((key) => key in formData),
+        ...Object.keys(formData).filter((key) => !schema?.properties[key]),
+      ];
+      const fields = keys.map((key) => {
+        const field = schema?.properties[key];
+        return {
+          key,
+          label: field?.title ?? key,
+          ...formatFormDataValue(formData[key], field),
+        };
+      });
+
+      return [
+        {
+          id: item.id,
+          actionLabel:
+            CERTIFICATE_ACTION_LABELS[item.action_type] ?? item.action_type,
+          actionType: item.action_type,
+          stepOrder: item.step_order,
+          stepName: step?.name,
+          actedBy: item.acted_by,
+          actedAt: item.acted_at,
+          comment: item.comment,
+          rejectionReason: item.rejection_reason,
+          fields,
+        },
+      ];
+    });
+}
+
+/**
+ * Apply changes to a print_config, dropping cleared options.
+ * Returns null when nothing is left.
+ */
+export function updatePrintConfig(
+  config: ApprovalPrintConfig | null | undefined,
+  changes: Partial<ApprovalPrintConfig>
+): ApprovalPrintConfig | null {
+  const next: Record<string, unknown> = { ...config, ...changes };
+  Object.keys(next).forEach((key) => {
+    const value = next[key];
+    if (
+      value === undefined ||
+      value === "" ||
+      (Array.isArray(value) && value.length === 0)
+    ) {
+      delete next[key];
+    }
+  });
+  return parsePrintConfig(next);
+}
@@ -0,0 +1,194 @@
+/**
+ * Approval SLA Utils
+ * Reads the SLA settings of a step and the due dates the backend computes
+ * for each request
+ */
+
+import type {
+  ApprovalEscalationTargetType,
+  ApprovalRequestSla,
+  ApprovalSlaConfig,
+} from "../types/approval-sla.types";
+import type { ApprovalRequestResponse } from "../types/approval.types";
+
+const HOUR_MS = 1000 * 60 * 60;
+
+// A step is "due soon" in the last quarter of its time (or the last 4 hours
+// when the start isn't known)
+const DUE_SOON_RATIO = 0.25;
+const DUE_SOON_FALLBACK_MS = 4 * HOUR_MS;
+
+export const ESCALATION_TARGET_LABELS: Record<
+  ApprovalEscalationTargetType,
+  string
+> = {
+  manager: "Responsable del aprobador",
+  role: "Rol",
+  user: "Usuario",
+};
+
+const isPositiveNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value) && value > 0;
+
+/**
+ * Read a stored sla_config. Returns null when the step has no due time.
+ */
+export function parseSlaConfig(
+  raw: Record<string, unknown> | null | undefined
+): ApprovalSlaConfig | null {
+  if (!raw || !isPositiveNumber(raw.due_hours)) return null;
+
+  const config: ApprovalSlaConfig = { due_hours: raw.due_hours };
+  if (isPositiveNumber(raw.reminder_every_hours)) {
+    config.reminder_every_hours = raw.reminder_every_hours;
+  }
+  const target = raw.escalate_to as Record<string, unknown> | null | undefined;
+  if (target && typeof target.type === "string") {
+    if (target.type === "manager") {
+      config.escalate_to = { type: "manager" };
+    } else if (
+      (target.type === "role" || target.type === "user") &&
+      typeof target.id === "string" &&
+      target.id
+    ) {
+      config.escalate_to = { type: target.type, id: target.id };
+    }
+  }
+  return config;
+}
+
+const toDate = (value?: string | null) => (value ? new Date(value) : undefined);
+
+/**
+ * SLA of the current step of a pending request, or null when the step has
+ * no due date
+ */
+export function getRequestSla(
+  request: ApprovalRequestResponse,
+  now: Date = new Date()
+): ApprovalRequestSla | null {
+  if (request.status !== "pending") return null;
+
+  const current = request.step_history?.find(
+    (item) => item.step_order === request.current_step && !item.completed_at
+  );
+  const dueAt = toDate(request.current_step_due_at ?? current?.due_at);
+  if (!dueAt) return null;
+  const startedAt = toDate(
+    request.current_step_started_at ?? current?.started_at
+  );
+
+  const remainingMs = dueAt.getTime() - now.getTime();
+  const soonMs = startedAt
+    ? (dueAt.getTime() - startedAt.getTime()) * DUE_SOON_RATIO
+    : DUE_SOON_FALLBACK_MS;
+
+  return {
+    dueAt,
+    startedAt,
+    remainingMs,
+    status:
+      remainingMs < 0
+        ? "overdue"
+        : remainingMs <= soonMs
+          ? "due_soon"
+          : "on_time",
+  };
+}
+
+/**
+ * Compact duration for countdowns: "2d 4h", "3h 20m", "15m"
+ */
+export function formatSlaDuration(ms: number): string {
+  const totalMinutes = Math.max(0, Math.floor(Math.abs(ms) / (1000 * 60)));
+  const days = Math.floor(totalMinutes / (60 * 24));
+  const hours = Math.floor((totalMinutes % (60 * 24)) / 60);
+  const minutes = totalMinutes % 60;
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}m`;
+}
+
+export interface ApprovalStepAverage {
+  stepOrder: number;
+  stepName?: string | null;
+  avgHours: number;
+  count: number;
+}
+
+export interface ApprovalSlaStats {
+  // Percentage of steps with a due date resolved in time (null without data)
+  complianceRate: number | null;
+  met: number;
+  breached: number;
+  // Pending requests whose current step is overdue
+  overdue: number;
+  stepAverages: ApprovalStepAverage[];
+}
+
+/**
+ * SLA compliance and average time per step from the step history of the
+ * requests
+ */
+export function computeSlaStats(
+  requests: ApprovalRequestResponse[],
+  now: Date = new Date()
+): ApprovalSlaStats {
+  let met = 0;
+  let breached = 0;
+  const durations = new Map<
+    number,
+    { name?: string | null; totalMs: number; count: number }
+  >();
+
+  requests.forEach((request) => {
+    (request.step_history ?? []).forEach((item) => {
+      const completedAt = toDate(item.completed_at);
+      const dueAt = toDate(item.due_at);
+
+      if (dueAt) {
+        if (completedAt) {
+          if (completedAt <= dueAt) met += 1;
+          else breached += 1;
+        } else if (request.status === "pending" && now > dueAt) {
+          breached += 1;
+        }
+      }
+
+      if (completedAt) {
+        const entry = durations.get(item.step_order) ?? {
+          name: item.step_name,
+          totalMs: 0,
+          count: 0,
+        };
+        entry.totalMs +=
+          completedAt.getTime() - new Date(item.started_at).getTime();
+        entry.count += 1;
+        entry.name = entry.name ?? item.step_name;
+        durations.set(item.step_order, entry);
+      }
+    });
+  });
+
+  const overdue = requests.filter(
+    (request) => getRequestSla(request, now)?.status === "overdue"
+  ).length;
+
+  const stepAverages = [...durations.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([stepOrder, entry]) => ({
+      stepOrder,
+      stepName: entry.name,
+      avgHours: Math.round((entry.totalMs / entry.count / HOUR_MS) * 10) / 10,
+      count: entry.count,
+    }));
+
+  return {
+    complianceRate:
+      met + breached > 0 ? Math.round((met / (met + breached)) * 100) : null,
+    met,
+    breached,
+    overdue,
+    stepAverages,
+  };
+}
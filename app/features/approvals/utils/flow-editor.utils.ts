@@ -8,6 +8,9 @@ import type {
   ApprovalNodeData,
 } from "../types/flow-editor.types";
 import type { ApprovalStepResponse } from "../types/approval.types";
+import { parseFormSchema } from "./approval-form.utils";
+import { parsePrintConfig } from "./approval-print.utils";
+import { parseSlaConfig } from "./approval-sla.utils";
 
 /**
  * Convert flow editor nodes and edges to backend approval steps
@@ -50,8 +53,9 @@ export function convertFlowToSteps(
       },
       require_all: data.requireAll,
       min_approvals: data.minApprovals,
-      form_schema: null,
-      print_config: null,
+      form_schema: data.formSchema ?? null,
+      print_config: data.printConfig ?? null,
+      sla_config: data.slaConfig ?? null,
       rejection_required: false,
     });
   });
@@ -97,6 +101,9 @@ export function convertStepsToFlow(steps: ApprovalStepResponse[]): {
         approvers: step.approver_id ? [step.approver_id] : [],
         requireAll: step.require_all,
         minApprovals: step.min_approvals,
+        formSchema: parseFormSchema(step.form_schema),
+        printConfig: parsePrintConfig(step.print_config),
+        slaConfig: parseSlaConfig(step.sla_config),
       },
     });
   });
@@ -0,0 +1,462 @@
+/**
+ * Flow Simulator Utils
+ * Step-by-step simulation of an approval flow graph with sample request data
+ */
+
+import type { Node, Edge } from "reactflow";
+import type {
+  ApprovalNodeData,
+  ConcentratorNodeData,
+  ConditionRule,
+  EdgeCondition,
+  FlowNodeData,
+} from "../types/flow-editor.types";
+
+export type SimulationDecision = "approve" | "reject";
+
+export type SimulationStatus = "running" | "approved" | "rejected" | "stuck";
+
+// Approval node that would receive the request
+export interface SimulatedApprovalRequest {
+  nodeId: string;
+  name: string;
+  approverType: ApprovalNodeData["approverType"];
+  approvers: string[];
+  requireAll: boolean;
+  minApprovals?: number;
+  // Nodes reached in the same step share the order (parallel branches)
+  order: number;
+}
+
+export interface SimulationLogEntry {
+  step: number;
+  nodeId: string;
+  message: string;
+}
+
+export interface FlowSimulationState {
+  status: SimulationStatus;
+  step: number;
+  activeNodeIds: string[];
+  visitedNodeIds: string[];
+  rejectedNodeIds: string[];
+  traversedEdgeIds: string[];
+  // Branch results collected by each concentrator
+  arrivals: Record<string, { approved: number; rejected: number }>;
+  requests: SimulatedApprovalRequest[];
+  log: SimulationLogEntry[];
+  reachedEnd: boolean;
+}
+
+/**
+ * Read a metadata value by field name, allowing dot paths (e.g. "cost.total")
+ */
+export function getMetadataValue(
+  metadata: Record<string, unknown>,
+  field: string
+): unknown {
+  return field.split(".").reduce<unknown>((value, key) => {
+    if (value && typeof value === "object" && key in value) {
+      return (value as Record<string, unknown>)[key];
+    }
+    return undefined;
+  }, metadata);
+}
+
+/**
+ * Return a copy of the metadata with a value set by field name
+ */
+export function setMetadataValue(
+  metadata: Record<string, unknown>,
+  field: string,
+  value: unknown
+): Record<string, unknown> {
+  const [key, ...rest] = field.split(".");
+  if (!key) return metadata;
+  if (rest.length === 0) {
+    return { ...metadata, [key]: value };
+  }
+  const child = metadata[key];
+  return {
+    ...metadata,
+    [key]: setMetadataValue(
+      child && typeof child === "object"
+        ? (child as Record<string, unknown>)
+        : {},
+      rest.join("."),
+      value
+    ),
+  };
+}
+
+const toNumber = (value: unknown): number | null => {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value === "string" && value.trim() !== "") {
+    const number = Number(value);
+    return Number.isFinite(number) ? number : null;
+  }
+  return null;
+};
+
+const isEqual = (a: unknown, b: unknown): boolean => {
+  const numberA = toNumber(a);
+  const numberB = toNumber(b);
+  if (numberA !== null && numberB !== null) return numberA === numberB;
+  return String(a) === String(b);
+};
+
+const compare = (a: unknown, b: unknown): number | null => {
+  const numberA = toNumber(a);
+  const numberB = toNumber(b);
+  if (numberA !== null && numberB !== null) return numberA - numberB;
+  if (typeof a === "string" && typeof b === "string") {
+    const dateA = Date.parse(a);
+    const dateB = Date.parse(b);
+    if (!Number.isNaN(dateA) && !Number.isNaN(dateB)) return dateA - dateB;
+    return a.localeCompare(b);
+  }
+  return null;
+};
+
+const toList = (value: unknown): unknown[] => {
+  if (Array.isArray(value)) return value;
+  if (typeof value === "string") {
+    return value.split(",").map((item) => item.trim());
+  }
+  return [value];
+};
+
+/**
+ * Evaluate a single condition rule against the request metadata
+ */
+export function evaluateConditionRule(
+  rule: ConditionRule,
+  metadata: Record<string, unknown>
+): boolean {
+  const actual = getMetadataValue(metadata, rule.field);
+  if (actual === undefined) {
+    // Un campo ausente solo cumple las negaciones
+    return rule.operator === "ne" || rule.operator === "not_in";
+  }
+
+  switch (rule.operator) {
+    case "eq":
+      return isEqual(actual, rule.value);
+    case "ne":
+      return !isEqual(actual, rule.value);
+    case "gt":
+    case "lt":
+    case "gte":
+    case "lte": {
+      const result = compare(actual, rule.value);
+      if (result === null) return false;
+      if (rule.operator === "gt") return result > 0;
+      if (rule.operator === "lt") return result < 0;
+      if (rule.operator === "gte") return result >= 0;
+      return result <= 0;
+    }
+    case "in":
+      return toList(rule.value).some((item) => isEqual(actual, item));
+    case "not_in":
+      return !toList(rule.value).some((item) => isEqual(actual, item));
+    case "contains":
+      if (Array.isArray(actual)) {
+        return actual.some((item) => isEqual(item, rule.value));
+      }
+      return String(actual)
+        .toLowerCase()
+        .includes(String(rule.value).toLowerCase());
+    default:
+      return false;
+  }
+}
+
+/**
+ * Evaluate an edge condition. Edges without rules are always taken.
+ */
+export function evaluateEdgeCondition(
+  condition: EdgeCondition | undefined,
+  metadata: Record<string, unknown>
+): boolean {
+  if (!condition || condition.rules.length === 0) return true;
+  return condition.logic === "OR"
+    ? condition.rules.some((rule) => evaluateConditionRule(rule, metadata))
+    : condition.rules.every((rule) => evaluateConditionRule(rule, metadata));
+}
+
+const getEdgeCondition = (edge: Edge): EdgeCondition | undefined =>
+  (edge.data as { condition?: EdgeCondition } | undefined)?.condition;
+
+/**
+ * Metadata fields referenced by the conditions of the flow, to build the
+ * sample data form
+ */
+export function getConditionFields(edges: Edge[]): string[] {
+  const fields = new Set<string>();
+  edges.forEach((edge) => {
+    getEdgeCondition(edge)?.rules.forEach((rule) => {
+      if (rule.field) fields.add(rule.field);
+    });
+  });
+  return Array.from(fields).sort();
+}
+
+const getNodeName = (node: Node | undefined) =>
+  (node?.data as FlowNodeData | undefined)?.name ?? node?.id ?? "";
+
+/**
+ * Place the token on the start node
+ */
+export function createSimulation(nodes: Node[]): FlowSimulationState {
+  const startNode = nodes.find((node) => node.type === "start");
+  return {
+    status: startNode ? "running" : "stuck",
+    step: 0,
+    activeNodeIds: startNode ? [startNode.id] : [],
+    visitedNodeIds: startNode ? [startNode.id] : [],
+    rejectedNodeIds: [],
+    traversedEdgeIds: [],
+    arrivals: {},
+    requests: [],
+    log: startNode
+      ? []
+      : [{ step: 0, nodeId: "", message: "El flujo no tiene nodo de inicio" }],
+    reachedEnd: false,
+  };
+}
+
+/**
+ * Whether a token on `fromId` can still reach `targetId`
+ */
+function canReach(edges: Edge[], fromId: string, targetId: string): boolean {
+  const visited = new Set<string>();
+  const queue = [fromId];
+  while (queue.length > 0) {
+    const nodeId = queue.shift()!;
+    if (visited.has(nodeId)) continue;
+    visited.add(nodeId);
+    for (const edge of edges) {
+      if (edge.source !== nodeId) continue;
+      if (edge.target === targetId) return true;
+      queue.push(edge.target);
+    }
+  }
+  return false;
+}
+
+/**
+ * Move every token one node forward. Approval nodes resolve with the
+ * chosen decision (approve by default); concentrators wait until no other
+ * token can still reach them.
+ */
+export function stepSimulation(
+  nodes: Node[],
+  edges: Edge[],
+  state: FlowSimulationState,
+  metadata: Record<string, unknown>,
+  decisions: Record<string, SimulationDecision> = {}
+): FlowSimulationState {
+  if (state.status !== "running") return state;
+
+  const step = state.step + 1;
+  const nodesById = new Map(nodes.map((node) => [node.id, node]));
+  const next: FlowSimulationState = {
+    ...state,
+    step,
+    activeNodeIds: [],
+    visitedNodeIds: [...state.visitedNodeIds],
+    rejectedNodeIds: [...state.rejectedNodeIds],
+    traversedEdgeIds: [...state.traversedEdgeIds],
+    arrivals: { ...state.arrivals },
+    requests: [...state.requests],
+    log: [...state.log],
+  };
+  const log = (nodeId: string, message: string) =>
+    next.log.push({ step, nodeId, message });
+
+  const activate = (nodeId: string) => {
+    if (next.activeNodeIds.includes(nodeId)) return;
+    next.activeNodeIds.push(nodeId);
+    if (!next.visitedNodeIds.includes(nodeId)) {
+      next.visitedNodeIds.push(nodeId);
+    }
+    const node = nodesById.get(nodeId);
+    if (node?.type === "approval") {
+      const data = node.data as ApprovalNodeData;
+      next.requests.push({
+        nodeId,
+        name: data.name,
+        approverType: data.approverType,
+        approvers: data.approvers,
+        requireAll: data.requireAll,
+        minApprovals: data.minApprovals,
+        order: step,
+      });
+      log(nodeId, `Se solicita aprobación a "${data.name}"`);
+    }
+  };
+
+  const getMatchingEdges = (nodeId: string) =>
+    edges.filter(
+      (edge) =>
+        edge.source === nodeId &&
+        evaluateEdgeCondition(getEdgeCondition(edge), metadata)
+    );
+
+  const addArrival = (nodeId: string, outcome: "approved" | "rejected") => {
+    const current = next.arrivals[nodeId] ?? { approved: 0, rejected: 0 };
+    next.arrivals[nodeId] = { ...current, [outcome]: current[outcome] + 1 };
+  };
+
+  // Avanza el token por las conexiones cuya condición se cumple
+  const pass = (nodeId: string) => {
+    const outgoing = getMatchingEdges(nodeId);
+    if (outgoing.length === 0) {
+      next.status = "stuck";
+      log(
+        nodeId,
+        `Ninguna conexión de "${getNodeName(nodesById.get(nodeId))}" cumple sus condiciones`
+      );
+      return;
+    }
+    outgoing.forEach((edge) => {
+      if (!next.traversedEdgeIds.includes(edge.id)) {
+        next.traversedEdgeIds.push(edge.id);
+      }
+      if (nodesById.get(edge.target)?.type === "concentrator") {
+        addArrival(edge.target, "approved");
+      }
+      activate(edge.target);
+    });
+  };
+
+  // Un rechazo solo se reparte entre concentradores; en otro caso rechaza la solicitud
+  const reject = (nodeId: string) => {
+    if (!next.rejectedNodeIds.includes(nodeId)) {
+      next.rejectedNodeIds.push(nodeId);
+    }
+    const outgoing = getMatchingEdges(nodeId);
+    const toConcentrators =
+      outgoing.length > 0 &&
+      outgoing.every(
+        (edge) => nodesById.get(edge.target)?.type === "concentrator"
+      );
+    if (!toConcentrators) {
+      next.status = "rejected";
+      return;
+    }
+    outgoing.forEach((edge) => {
+      addArrival(edge.target, "rejected");
+      activate(edge.target);
+    });
+  };
+
+  const pending = state.activeNodeIds;
+  let progressed = false;
+
+  for (const nodeId of pending) {
+    if (next.status !== "running") break;
+    const node = nodesById.get(nodeId);
+    if (!node) continue;
+
+    switch (node.type) {
+      case "start":
+        progressed = true;
+        pass(nodeId);
+        break;
+      case "approval": {
+        progressed = true;
+        const data = node.data as ApprovalNodeData;
+        if ((decisions[nodeId] ?? "approve") === "approve") {
+          log(nodeId, `"${data.name}" aprueba`);
+          pass(nodeId);
+        } else {
+          log(nodeId, `"${data.name}" rechaza`);
+          reject(nodeId);
+        }
+        break;
+      }
+      case "concentrator": {
+        const data = node.data as ConcentratorNodeData;
+        const waiting = pending.some(
+          (otherId) =>
+            otherId !== nodeId &&
+            nodesById.get(otherId)?.type !== "end" &&
+            canReach(edges, otherId, nodeId)
+        );
+        if (waiting) {
+          activate(nodeId);
+          break;
+        }
+        progressed = true;
+        const { approved, rejected } = next.arrivals[nodeId] ?? {
+          approved: 0,
+          rejected: 0,
+        };
+        const passed = data.requireAll
+          ? rejected === 0 && approved > 0
+          : approved >= data.minApprovals;
+        log(
+          nodeId,
+          `"${data.name}" reúne ${approved} aprobación(es) y ${rejected} rechazo(s)`
+        );
+        delete next.arrivals[nodeId];
+        if (passed) pass(nodeId);
+        else reject(nodeId);
+        break;
+      }
+      case "end":
+        progressed = true;
+        next.reachedEnd = true;
+        break;
+      default:
+        progressed = true;
+    }
+  }
+
+  if (next.status === "running") {
+    if (next.activeNodeIds.length === 0) {
+      next.status = next.reachedEnd ? "approved" : "stuck";
+    } else if (!progressed) {
+      next.status = "stuck";
+      log("", "Los concentradores se esperan entre sí");
+    }
+  }
+  if (next.status !== "running") {
+    next.activeNodeIds = [];
+  }
+
+  return next;
+}
+
+/**
+ * Run the simulation until the request is approved, rejected or stuck
+ */
+export function runSimulation(
+  nodes: Node[],
+  edges: Edge[],
+  metadata: Record<string, unknown>,
+  decisions: Record<string, SimulationDecision> = {}
+): FlowSimulationState {
+  let state = createSimulation(nodes);
+  // Límite de pasos por si el flujo tiene ciclos
+  const maxSteps = nodes.length * 2 + 2;
+  while (state.status === "running" && state.step < maxSteps) {
+    state = stepSimulation(nodes, edges, state, metadata, decisions);
+  }
+  if (state.status === "running") {
+    return {
+      ...state,
+      status: "stuck",
+      log: [
+        ...state.log,
+        {
+          step: state.step,
+          nodeId: "",
+          message: "El flujo no termina (posible ciclo)",
+        },
+      ],
+    };
+  }
+  return state;
+}
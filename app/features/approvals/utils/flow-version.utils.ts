@@ -0,0 +1,287 @@
+/**
+ * Flow Version Utils
+ * Graph snapshots stored with each flow version and the diff between two of
+ * them
+ */
+
+import type { Edge, Node } from "reactflow";
+import { convertStepsToFlow } from "./flow-editor.utils";
+import type {
+  ApprovalFlowVersionResponse,
+  FlowDiffChange,
+  FlowDiffStatus,
+  FlowGraphDiff,
+  FlowGraphSnapshot,
+} from "../types/approval-version.types";
+import type {
+  ApprovalNodeData,
+  ConcentratorNodeData,
+  ConditionRule,
+  EdgeCondition,
+  FlowNodeData,
+} from "../types/flow-editor.types";
+
+export const VERSION_STATUS_LABELS: Record<
+  ApprovalFlowVersionResponse["status"],
+  string
+> = {
+  draft: "Borrador",
+  published: "Publicada",
+  archived: "Archivada",
+};
+
+/**
+ * Graph without the runtime state React Flow adds (selection, measured
+ * size, highlight classes), ready to be stored with a version
+ */
+export function toGraphSnapshot(
+  nodes: Node[],
+  edges: Edge[]
+): FlowGraphSnapshot {
+  return {
+    nodes: nodes.map(({ id, type, position, data }) => ({
+      id,
+      type,
+      position: { x: position.x, y: position.y },
+      data,
+    })),
+    edges: edges.map(
+      ({ id, source, target, sourceHandle, targetHandle, type, data }) => ({
+        id,
+        source,
+        target,
+        ...(sourceHandle ? { sourceHandle } : {}),
+        ...(targetHandle ? { targetHandle } : {}),
+        ...(type ? { type } : {}),
+        ...(data ? { data } : {}),
+      })
+    ),
+  };
+}
+
+/**
+ * Editor graph of a version; versions saved before graphs were stored are
+ * rebuilt from their steps
+ */
+export function getVersionGraph(
+  version: Pick<ApprovalFlowVersionResponse, "graph" | "steps">
+): FlowGraphSnapshot {
+  if (version.graph?.nodes?.length) {
+    return { nodes: version.graph.nodes, edges: version.graph.edges ?? [] };
+  }
+  return convertStepsToFlow(version.steps ?? []);
+}
+
+const APPROVER_TYPE_LABELS: Record<ApprovalNodeData["approverType"], string> = {
+  user: "usuario",
+  role: "rol",
+  group: "grupo",
+};
+
+const OPERATOR_SYMBOLS: Record<ConditionRule["operator"], string> = {
+  eq: "=",
+  ne: "≠",
+  gt: ">",
+  lt: "<",
+  gte: "≥",
+  lte: "≤",
+  in: "en",
+  not_in: "no en",
+  contains: "contiene",
+};
+
+const same = (a: unknown, b: unknown) =>
+  JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+const requiredLabel = (data: {
+  requireAll?: boolean;
+  minApprovals?: number;
+}) => (data.requireAll ? "todas" : String(data.minApprovals ?? 1));
+
+/**
+ * Readable condition of an edge: "amount > 1000 Y area = IT"
+ */
+export function formatEdgeCondition(condition?: EdgeCondition | null): string {
+  if (!condition?.rules?.length) return "sin condición";
+  return condition.rules
+    .map(
+      (rule) =>
+        `${rule.field} ${OPERATOR_SYMBOLS[rule.operator] ?? rule.operator} ${JSON.stringify(rule.value)}`
+    )
+    .join(condition.logic === "OR" ? " O " : " Y ");
+}
+
+function diffNodeData(
+  before: FlowNodeData,
+  after: FlowNodeData,
+  names: Map<string, string>
+): string[] {
+  const details: string[] = [];
+  if (before.name !== after.name) {
+    details.push(`Nombre: "${before.name}" → "${after.name}"`);
+  }
+  if (before.type !== after.type) {
+    details.push(`Tipo: ${before.type} → ${after.type}`);
+    return details;
+  }
+
+  if (after.type === "approval") {
+    const prev = before as ApprovalNodeData;
+    if ((prev.description ?? "") !== (after.description ?? "")) {
+      details.push("Descripción modificada");
+    }
+    if (prev.approverType !== after.approverType) {
+      details.push(
+        `Tipo de aprobador: ${APPROVER_TYPE_LABELS[prev.approverType]} → ${APPROVER_TYPE_LABELS[after.approverType]}`
+      );
+    }
+    const name = (id: string) => names.get(id) ?? id;
+    const added = after.approvers.filter((id) => !prev.approvers.includes(id));
+    const removed = prev.approvers.filter(
+      (id) => !after.approvers.includes(id)
+    );
+    if (added.length > 0) {
+      details.push(`Aprobadores añadidos: ${added.map(name).join(", ")}`);
+    }
+    if (removed.length > 0) {
+      details.push(`Aprobadores eliminados: ${removed.map(name).join(", ")}`);
+    }
+    if (requiredLabel(prev) !== requiredLabel(after)) {
+      details.push(
+        `Aprobaciones requeridas: ${requiredLabel(prev)} → ${requiredLabel(after)}`
+      );
+    }
+    if (!same(prev.formSchema, after.formSchema)) {
+      details.push("Formulario modificado");
+    }
+    if (!same(prev.slaConfig, after.slaConfig)) {
+      details.push("Plazos y escalado modificados");
+    }
+    if (!same(prev.printConfig, after.printConfig)) {
+      details.push("Certificado modificado");
+    }
+  } else if (after.type === "concentrator") {
+    const prev = before as ConcentratorNodeData;
+    if (requiredLabel(prev) !== requiredLabel(after)) {
+      details.push(
+        `Aprobaciones requeridas: ${requiredLabel(prev)} → ${requiredLabel(after)}`
+      );
+    }
+  }
+  return details;
+}
+
+// Edges are matched by their endpoints, ids change when they are redrawn
+const edgeKey = (edge: Edge) =>
+  `${edge.source}:${edge.sourceHandle ?? ""}->${edge.target}:${edge.targetHandle ?? ""}`;
+
+const edgeCondition = (edge: Edge) =>
+  (edge.data as { condition?: EdgeCondition } | undefined)?.condition;
+
+/**
+ * Added, removed and changed nodes and edges between two graphs. Layout
+ * changes (node positions) are ignored.
+ */
+export function diffFlowGraphs(
+  before: FlowGraphSnapshot,
+  after: FlowGraphSnapshot,
+  names: Map<string, string> = new Map()
+): FlowGraphDiff {
+  const nodes: Record<string, FlowDiffStatus> = {};
+  const edges: Record<string, FlowDiffStatus> = {};
+  const changes: FlowDiffChange[] = [];
+
+  const beforeNodes = new Map(before.nodes.map((node) => [node.id, node]));
+  const afterNodes = new Map(after.nodes.map((node) => [node.id, node]));
+  const nodeName = (id: string) =>
+    ((afterNodes.get(id) ?? beforeNodes.get(id))?.data as FlowNodeData)?.name ??
+    id;
+
+  after.nodes.forEach((node) => {
+    const data = node.data as FlowNodeData;
+    const previous = beforeNodes.get(node.id);
+    if (!previous) {
+      nodes[node.id] = "added";
+      changes.push({
+        kind: "node",
+        id: node.id,
+        status: "added",
+        label: data.name,
+        details: [],
+      });
+      return;
+    }
+    const details = diffNodeData(previous.data as FlowNodeData, data, names);
+    if (details.length > 0) {
+      nodes[node.id] = "changed";
+      changes.push({
+        kind: "node",
+        id: node.id,
+        status: "changed",
+        label: data.name,
+        details,
+      });
+    }
+  });
+
+  before.nodes.forEach((node) => {
+    if (afterNodes.has(node.id)) return;
+    nodes[node.id] = "removed";
+    changes.push({
+      kind: "node",
+      id: node.id,
+      status: "removed",
+      label: (node.data as FlowNodeData).name,
+      details: [],
+    });
+  });
+
+  const beforeEdges = new Map(
+    before.edges.map((edge) => [edgeKey(edge), edge])
+  );
+  const afterKeys = new Set(after.edges.map(edgeKey));
+  const edgeLabel = (edge: Edge) =>
+    `${nodeName(edge.source)} → ${nodeName(edge.target)}`;
+
+  after.edges.forEach((edge) => {
+    const previous = beforeEdges.get(edgeKey(edge));
+    const condition = edgeCondition(edge);
+    if (!previous) {
+      edges[edge.id] = "added";
+      changes.push({
+        kind: "edge",
+        id: edge.id,
+        status: "added",
+        label: edgeLabel(edge),
+        details: condition?.rules?.length
+          ? [`Condición: ${formatEdgeCondition(condition)}`]
+          : [],
+      });
+    } else if (!same(edgeCondition(previous), condition)) {
+      edges[edge.id] = "changed";
+      changes.push({
+        kind: "edge",
+        id: edge.id,
+        status: "changed",
+        label: edgeLabel(edge),
+        details: [
+          `Condición: ${formatEdgeCondition(edgeCondition(previous))} → ${formatEdgeCondition(condition)}`,
+        ],
+      });
+    }
+  });
+
+  before.edges.forEach((edge) => {
+    if (afterKeys.has(edgeKey(edge))) return;
+    edges[edge.id] = "removed";
+    changes.push({
+      kind: "edge",
+      id: edge.id,
+      status: "removed",
+      label: edgeLabel(edge),
+      details: [],
+    });
+  });
+
+  return { nodes, edges, changes };
+}
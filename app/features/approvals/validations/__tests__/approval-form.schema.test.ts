@@ -0,0 +1,114 @@
+/**
+ * Approval form validation tests
+ */
+
+import { describe, it, expect } from "vitest";
+import { validateFormData } from "~/features/approvals/validations/approval-form.schema";
+import type { ApprovalFormSchema } from "~/features/approvals/types/approval-form.types";
+
+const schema: ApprovalFormSchema = {
+  type: "object",
+  order: ["invoice", "amount", "due_date", "cost_center", "receipt", "sign"],
+  required: ["invoice", "amount", "sign"],
+  properties: {
+    invoice: {
+      type: "string",
+      widget: "text",
+      title: "Factura",
+      pattern: "^F-\\d+$",
+      maxLength: 10,
+    },
+    amount: {
+      type: "number",
+      widget: "number",
+      title: "Importe",
+      minimum: 1,
+      maximum: 10000,
+    },
+    due_date: {
+      type: "string",
+      widget: "date",
+      title: "Vencimiento",
+      formatMinimum: "2026-01-01",
+    },
+    cost_center: {
+      type: "string",
+      widget: "select",
+      title: "Centro de coste",
+      enum: ["IT", "Ventas"],
+    },
+    receipt: {
+      type: "object",
+      widget: "file",
+      title: "Justificante",
+      accept: [".pdf"],
+      maxSizeMb: 1,
+    },
+    sign: { type: "string", widget: "signature", title: "Firma" },
+  },
+};
+
+const file = (name: string, size: number) => ({
+  name,
+  size,
+  type: "application/pdf",
+  data_url: "data:application/pdf;base64,AAAA",
+});
+
+describe("validateFormData", () => {
+  it("returns typed data without the empty optional fields", () => {
+    const result = validateFormData(schema, {
+      invoice: " F-204 ",
+      amount: "950.5",
+      due_date: "",
+      cost_center: "IT",
+      sign: "data:image/png;base64,AAAA",
+    });
+
+    expect(result).toEqual({
+      success: true,
+      data: {
+        invoice: "F-204",
+        amount: 950.5,
+        cost_center: "IT",
+        sign: "data:image/png;base64,AAAA",
+      },
+    });
+  });
+
+  it("reports required fields and broken rules per field", () => {
+    const result = validateFormData(schema, {
+      amount: "20000",
+      due_date: "2025-12-31",
+      cost_center: "RRHH",
+      receipt: file("factura.docx", 2 * 1024 * 1024),
+    });
+
+    expect(result).toEqual({
+      success: false,
+      errors: {
+        invoice: "Este campo es obligatorio",
+        amount: "Máximo 10000",
+        due_date: "La fecha debe ser igual o posterior a 2026-01-01",
+        cost_center: "Selecciona una opción de la lista",
+        receipt: "El archivo supera 1 MB",
+        sign: "Este campo es obligatorio",
+      },
+    });
+  });
+
+  it("checks text patterns and accepted file types", () => {
+    const result = validateFormData(schema, {
+      invoice: "204",
+      amount: 10,
+      receipt: file("factura.docx", 1000),
+      sign: "data:image/png;base64,AAAA",
+    });
+
+    expect(result.success).toBe(false);
+    expect(!result.success && result.errors).toEqual({
+      invoice: "El formato no es válido",
+      receipt: "Tipo de archivo no permitido (.pdf)",
+    });
+  });
+});
@@ -0,0 +1,35 @@
+/**
+ * Out-of-office validation tests
+ */
+
+import { describe, it, expect } from "vitest";
+import { outOfOfficeSchema } from "~/features/approvals/validations/approval-out-of-office.schema";
+
+const valid = {
+  delegate_to_user_id: "7f0c1a52-3b1e-4d8a-9a1c-2f4b6d8e0a13",
+  starts_at: "2026-08-01T09:00",
+  expires_at: "2026-08-15T18:00",
+  module: null,
+  flow_id: null,
+  reason: "Vacaciones",
+};
+
+describe("outOfOfficeSchema", () => {
+  it("accepts a complete window", () => {
+    expect(outOfOfficeSchema.safeParse(valid).success).toBe(true);
+  });
+
+  it("requires a delegate and an end after the start", () => {
+    const result = outOfOfficeSchema.safeParse({
+      ...valid,
+      delegate_to_user_id: "",
+      expires_at: "2026-07-31T09:00",
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.flatten().fieldErrors).toEqual({
+      delegate_to_user_id: ["Usuario inválido"],
+      expires_at: ["El fin debe ser posterior al inicio"],
+    });
+  });
+});
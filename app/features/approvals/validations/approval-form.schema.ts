@@ -0,0 +1,190 @@
+/**
+ * Zod validation for the data approvers fill in on an approval step form
+ */
+
+import { z } from "zod";
+import type {
+  ApprovalFormField,
+  ApprovalFormSchema,
+  ApprovalFormValues,
+} from "../types/approval-form.types";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const isEmpty = (value: unknown) =>
+  value === undefined ||
+  value === null ||
+  (typeof value === "string" && value.trim() === "");
+
+const REQUIRED_MESSAGE = "Este campo es obligatorio";
+
+/**
+ * File field value, checked against the accepted types and size
+ */
+function fileSchema(field: ApprovalFormField) {
+  return z
+    .object({
+      name: z.string(),
+      size: z.number(),
+      type: z.string(),
+      data_url: z.string(),
+    })
+    .refine(
+      (file) => !field.maxSizeMb || file.size <= field.maxSizeMb * 1024 * 1024,
+      { message: `El archivo supera ${field.maxSizeMb} MB` }
+    )
+    .refine(
+      (file) =>
+        !field.accept?.length ||
+        field.accept.some((accepted) => {
+          const pattern = accepted.trim().toLowerCase();
+          if (pattern.startsWith(".")) {
+            return file.name.toLowerCase().endsWith(pattern);
+          }
+          if (pattern.endsWith("/*")) {
+            return file.type.startsWith(pattern.slice(0, -1));
+          }
+          return file.type === pattern;
+        }),
+      {
+        message: `Tipo de archivo no permitido (${field.accept?.join(", ")})`,
+      }
+    );
+}
+
+/**
+ * Schema for the value of one field, without the required check
+ */
+function fieldSchema(field: ApprovalFormField): z.ZodTypeAny {
+  switch (field.widget) {
+    case "number": {
+      let schema = z.coerce.number({
+        invalid_type_error: "Debe ser un número",
+      });
+      if (field.minimum !== undefined) {
+        schema = schema.min(field.minimum, `Mínimo ${field.minimum}`);
+      }
+      if (field.maximum !== undefined) {
+        schema = schema.max(field.maximum, `Máximo ${field.maximum}`);
+      }
+      return schema;
+    }
+    case "date":
+      return z
+        .string()
+        .regex(DATE_PATTERN, "Fecha no válida")
+        .refine(
+          (value) => !field.formatMinimum || value >= field.formatMinimum,
+          {
+            message: `La fecha debe ser igual o posterior a ${field.formatMinimum}`,
+          }
+        )
+        .refine(
+          (value) => !field.formatMaximum || value <= field.formatMaximum,
+          {
+            message: `La fecha debe ser igual o anterior a ${field.formatMaximum}`,
+          }
+        );
+    case "select":
+      return z.string().refine((value) => (field.enum ?? []).includes(value), {
+        message: "Selecciona una opción de la lista",
+      });
+    case "file":
+      return fileSchema(field);
+    case "signature":
+      return z.string().startsWith("data:image/", "Firma no válida");
+    default: {
+      let schema = z.string().trim();
+      if (field.minLength !== undefined) {
+        schema = schema.min(
+          field.minLength,
+          `Debe tener al menos ${field.minLength} caracteres`
+        );
+      }
+      if (field.maxLength !== undefined) {
+        schema = schema.max(
+          field.maxLength,
+          `Debe tener como máximo ${field.maxLength} caracteres`
+        );
+      }
+      if (field.pattern) {
+        try {
+          schema = schema.regex(
+            new RegExp(field.pattern),
+            "El formato no es válido"
+          );
+        } catch {
+          // Un patrón mal escrito en el diseñador no debe bloquear la aprobación
+        }
+      }
+      return schema;
+    }
+  }
+}
+
+/**
+ * Build the zod schema that validates the form_data of a step
+ */
+export function buildFormDataSchema(schema: ApprovalFormSchema) {
+  const shape: Record<string, z.ZodTypeAny> = {};
+  schema.order.forEach((key) => {
+    const field = schema.properties[key];
+    if (!field) return;
+    const required = schema.required.includes(key);
+    const valueSchema = fieldSchema(field);
+    shape[key] = z
+      .unknown()
+      .superRefine((value, ctx) => {
+        if (isEmpty(value)) {
+          if (required) {
+            ctx.addIssue({
+              code: z.ZodIssueCode.custom,
+              message: REQUIRED_MESSAGE,
+            });
+          }
+          return;
+        }
+        const result = valueSchema.safeParse(value);
+        if (!result.success) {
+          result.error.issues.forEach((issue) =>
+            ctx.addIssue({
+              code: z.ZodIssueCode.custom,
+              message: issue.message,
+            })
+          );
+        }
+      })
+      .transform((value) =>
+        isEmpty(value) ? undefined : (valueSchema.parse(value) as unknown)
+      );
+  });
+  return z.object(shape);
+}
+
+export type FormDataValidationResult =
+  | { success: true; data: ApprovalFormValues }
+  | { success: false; errors: Record<string, string> };
+
+/**
+ * Validate the values of a step form, returning the first error of each field
+ */
+export function validateFormData(
+  schema: ApprovalFormSchema,
+  values: ApprovalFormValues
+): FormDataValidationResult {
+  const result = buildFormDataSchema(schema).safeParse(values);
+  if (result.success) {
+    const data: ApprovalFormValues = {};
+    Object.entries(result.data).forEach(([key, value]) => {
+      if (value !== undefined) data[key] = value;
+    });
+    return { success: true, data };
+  }
+
+  const errors: Record<string, string> = {};
+  result.error.issues.forEach((issue) => {
+    const key = String(issue.path[0] ?? "");
+    if (key && !errors[key]) errors[key] = issue.message;
+  });
+  return { success: false, errors };
+}
@@ -0,0 +1,27 @@
+/**
+ * Zod validation for out-of-office windows
+ */
+
+import { z } from "zod";
+
+export const outOfOfficeSchema = z
+  .object({
+    delegate_to_user_id: z.string().uuid("Usuario inválido"),
+    starts_at: z.string().min(1, "Indica el inicio de la ausencia"),
+    expires_at: z.string().min(1, "Indica el fin de la ausencia"),
+    module: z.string().optional().nullable(),
+    flow_id: z.string().optional().nullable(),
+    reason: z.string().max(500, "Máximo 500 caracteres").optional().nullable(),
+  })
+  .refine(
+    (data) =>
+      !data.starts_at ||
+      !data.expires_at ||
+      new Date(data.expires_at) > new Date(data.starts_at),
+    {
+      message: "El fin debe ser posterior al inicio",
+      path: ["expires_at"],
+    }
+  );
+
+export type OutOfOfficeFormData = z.infer<typeof outOfOfficeSchema>;
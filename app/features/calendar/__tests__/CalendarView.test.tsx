@@ -9,6 +9,7 @@ import { describe, it, expect, beforeEach, vi } from "vitest";
 import { CalendarView } from "~/features/calendar/components/CalendarView";
 import { EventForm } from "~/features/calendar/components/EventForm";
 import { EventDetails } from "~/features/calendar/components/EventDetails";
+import { getLocalTimeZone } from "~/features/calendar/utils/timezone";
 import type { CalendarEvent, Calendar, CalendarViewType, RecurrenceType, ReminderType, AttendeeStatus } from "~/features/calendar/types/calendar.types";
 
 // Mock useTranslation
@@ -20,6 +21,9 @@ vi.mock("~/lib/i18n/useTranslation", () => ({
         "calendar.views.week": "Week",
         "calendar.views.day": "Day",
         "calendar.views.agenda": "Agenda",
+        "calendar.views.resources": "Resources",
+        "calendar.views.weeks": "Weeks",
+        "calendar.views.year": "Year",
         "calendar.today": "Today",
         "calendar.loading": "Loading calendar...",
         "calendar.events.create": "Create Event",
@@ -179,6 +183,7 @@ describe("Calendar Module", () => {
       expect(screen.getByText("Week")).toBeInTheDocument();
       expect(screen.getByText("Day")).toBeInTheDocument();
       expect(screen.getByText("Agenda")).toBeInTheDocument();
+      expect(screen.getByText("Resources")).toBeInTheDocument();
     });
 
     it("calls onDateChange when navigation buttons are clicked", async () => {
@@ -229,6 +234,15 @@ describe("Calendar Module", () => {
       await waitFor(() => {
         expect(onViewTypeChange).toHaveBeenCalledWith("week");
       });
+
+      fireEvent.click(screen.getByText("Resources"));
+      expect(onViewTypeChange).toHaveBeenCalledWith("resources");
+
+      fireEvent.click(screen.getByText("Weeks"));
+      expect(onViewTypeChange).toHaveBeenCalledWith("weeks");
+
+      fireEvent.click(screen.getByText("Year"));
+      expect(onViewTypeChange).toHaveBeenCalledWith("year");
     });
 
     it("calls onEventClick when event is clicked", async () => {
@@ -252,6 +266,61 @@ describe("Calendar Module", () => {
       expect(onEventClick).toBeDefined();
     });
 
+    it("renders events in the configured time zone with a secondary zone", () => {
+      render(
+        <QueryClientProvider client={queryClient}>
+          <CalendarView
+            events={[mockEvent]}
+            calendars={[mockCalendar]}
+            viewType="day"
+            currentDate={new Date(2025, 0, 15)}
+            onDateChange={vi.fn()}
+            onViewTypeChange={vi.fn()}
+            timeZone="Asia/Tokyo"
+            secondaryTimeZone="America/Mexico_City"
+          />
+        </QueryClientProvider>
+      );
+
+      // 10:00Z is 19:00 in Tokyo and 04:00 in Mexico City
+      expect(screen.getByText("19:00 – 20:00")).toBeInTheDocument();
+      expect(screen.getByText("GMT+9")).toBeInTheDocument();
+      expect(screen.getByText("GMT-6")).toBeInTheDocument();
+      // 19:00 Tokyo is labeled 04:00 in the secondary column
+      expect(screen.getAllByText("04:00")).toHaveLength(2);
+    });
+
+    it("passes the stored event and real instants to callbacks", () => {
+      const onEventClick = vi.fn();
+      const onEventCreate = vi.fn();
+
+      render(
+        <QueryClientProvider client={queryClient}>
+          <CalendarView
+            events={[mockEvent]}
+            calendars={[mockCalendar]}
+            viewType="day"
+            currentDate={new Date(2025, 0, 15)}
+            onDateChange={vi.fn()}
+            onViewTypeChange={vi.fn()}
+            onEventClick={onEventClick}
+            onEventCreate={onEventCreate}
+            timeZone="Asia/Tokyo"
+          />
+        </QueryClientProvider>
+      );
+
+      fireEvent.click(screen.getByText("Team Meeting"));
+      expect(onEventClick).toHaveBeenCalledWith(mockEvent, expect.anything());
+
+      // The 09:00 slot in Tokyo is midnight UTC
+      const hourSlots = document.querySelectorAll(".cursor-pointer.border-t");
+      fireEvent.click(hourSlots[9]!);
+      expect(onEventCreate).toHaveBeenCalledWith(
+        new Date("2025-01-15T00:00:00Z")
+      );
+    });
+
     it("shows loading state", () => {
       render(
         <QueryClientProvider client={queryClient}>
@@ -339,10 +408,11 @@ describe("Calendar Module", () => {
             calendar_id: "1",
             title: "New Event",
             description: "",
-            start_time: "2025-01-15T10:00",
-            end_time: "2025-01-15T11:00",
+            start_time: new Date("2025-01-15T10:00").toISOString(),
+            end_time: new Date("2025-01-15T11:00").toISOString(),
             location: "",
             all_day: false,
+            timezone: getLocalTimeZone(),
             recurrence_type: "none",
             recurrence_interval: 1,
           },
@@ -115,6 +115,22 @@ export async function getEventResources(
   return response.data;
 }
 
+/**
+ * Get the resources assigned to several events in one request
+ * GET /api/v1/calendar/events/resources?event_ids={id},{id}
+ *
+ * Requires: calendar.events.view permission
+ */
+export async function getEventsResources(
+  eventIds: string[]
+): Promise<StandardListResponse<EventResource>> {
+  const response = await apiClient.get<StandardListResponse<EventResource>>(
+    "/calendar/events/resources",
+    { params: { event_ids: eventIds.join(",") } }
+  );
+  return response.data;
+}
+
 /**
  * Assign resource to event
  * POST /api/v1/calendar/events/{eventId}/resources
@@ -218,6 +234,7 @@ export const calendarResourcesApi = {
   updateResource,
   deleteResource,
   getEventResources,
+  getEventsResources,
   assignResourceToEvent,
   removeResourceFromEvent,
   moveEvent,
@@ -3,15 +3,19 @@
  * List view of events grouped by date
  */
 
-import { useMemo } from "react";
+import { useMemo, useState } from "react";
 import { format, isSameDay, startOfDay } from "date-fns";
 import { es, enUS } from "date-fns/locale";
+import { PrinterIcon } from "lucide-react";
 import { useTranslation } from "~/lib/i18n/useTranslation";
 import { Card, CardContent } from "~/components/ui/card";
 import { Badge } from "~/components/ui/badge";
+import { Button } from "~/components/ui/button";
 import { Separator } from "~/components/ui/separator";
 import { cn } from "~/lib/utils";
-import type { CalendarEvent } from "../types/calendar.types";
+import type { Calendar, CalendarEvent } from "../types/calendar.types";
+import { expandRecurringEvents, isRecurringEvent } from "../utils/recurrence";
+import { CalendarPrintDialog } from "./CalendarPrintDialog";
 
 interface AgendaViewProps {
   events: CalendarEvent[];
@@ -19,6 +23,10 @@ interface AgendaViewProps {
   onEventClick?: (event: CalendarEvent) => void;
   getEventColor?: (event: CalendarEvent) => string;
   daysToShow?: number;
+  /** Calendars offered when printing the agenda */
+  calendars?: Calendar[];
+  /** IANA time zone the agenda is printed in (the browser's by default) */
+  timeZone?: string;
 }
 
 const DEFAULT_EVENT_COLOR = "#023E87";
@@ -29,9 +37,12 @@ export function AgendaView({
   onEventClick,
   getEventColor,
   daysToShow = 30,
+  calendars = [],
+  timeZone,
 }: AgendaViewProps) {
   const { t, language } = useTranslation();
   const dateLocale = language === "en" ? enUS : es;
+  const [printOpen, setPrintOpen] = useState(false);
 
   // Group events by date
   const groupedEvents = useMemo(() => {
@@ -40,7 +51,8 @@ export function AgendaView({
     const endDate = new Date(currentDate);
     endDate.setDate(endDate.getDate() + daysToShow);
 
-    events.forEach((event) => {
+    // Recurring events contribute one entry per occurrence in the range
+    expandRecurringEvents(events, currentDate, endDate).forEach((event) => {
       const eventDate = startOfDay(new Date(event.start_time));
 
       // Only show events within the date range
@@ -77,22 +89,46 @@ export function AgendaView({
     return getEventColor?.(event) ?? DEFAULT_EVENT_COLOR;
   };
 
+  const printToolbar = (
+    <>
+      <div className="flex justify-end">
+        <Button variant="outline" size="sm" onClick={() => setPrintOpen(true)}>
+          <PrinterIcon className="mr-1 h-4 w-4" />
+          {t("calendar.print.open")}
+        </Button>
+      </div>
+      <CalendarPrintDialog
+        open={printOpen}
+        onOpenChange={setPrintOpen}
+        calendars={calendars}
+        currentDate={currentDate}
+        defaultLayout="agenda"
+        timeZone={timeZone}
+        getEventColor={getEventColor}
+      />
+    </>
+  );
+
   if (groupedEvents.length === 0) {
     return (
-      <Card className="border-border/60">
-        <CardContent className="flex h-64 items-center justify-center">
-          <div className="text-center">
-            <p className="text-muted-foreground">
-              {t("calendar.agenda.noEvents")}
-            </p>
-          </div>
-        </CardContent>
-      </Card>
+      <div className="space-y-4">
+        {printToolbar}
+        <Card className="border-border/60">
+          <CardContent className="flex h-64 items-center justify-center">
+            <div className="text-center">
+              <p className="text-muted-foreground">
+                {t("calendar.agenda.noEvents")}
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
     );
   }
 
   return (
     <div className="space-y-4">
+      {printToolbar}
       {groupedEvents.map(({ date, dateKey, events: dayEvents, isToday }) => (
         <Card
           key={dateKey}
@@ -217,15 +253,12 @@ export function AgendaView({
                           )}
 
                           {/* Recurrence indicator */}
-                          {event.recurrence_type &&
-                            event.recurrence_type !== "none" && (
-                              <div className="flex items-center gap-1">
-                                <span>🔄</span>
-                                <span>
-                                  {t("calendar.recurrence.recurring")}
-                                </span>
-                              </div>
-                            )}
+                          {isRecurringEvent(event) && (
+                            <div className="flex items-center gap-1">
+                              <span>🔄</span>
+                              <span>{t("calendar.recurrence.recurring")}</span>
+                            </div>
+                          )}
                         </div>
                       </div>
                     </div>
@@ -4,15 +4,19 @@ import {
   addMonths,
   addWeeks,
   addDays,
+  addYears,
   subMonths,
   subWeeks,
   subDays,
+  subYears,
 } from "date-fns";
 import type { View } from "react-big-calendar";
 import { CalendarGrid } from "./CalendarGrid";
 import { CalendarToolbar } from "./CalendarToolbar";
 import { CalendarSidebar } from "./CalendarSidebar";
+import { CalendarView } from "./CalendarView";
 import { useCalendars, useEvents } from "../hooks/useCalendar";
+import { useCalendarViewConfig } from "../hooks/useCalendarViewConfig";
 import type { CalendarEvent, CalendarViewType } from "../types/calendar.types";
 
 interface CalendarContainerProps {
@@ -41,7 +45,8 @@ export function CalendarContainer({
   const { t } = useTranslation();
   // Estado local
   const [currentDate, setCurrentDate] = useState(new Date());
-  const [viewType, setViewType] = useState<CalendarViewType>(defaultView);
+  const { viewType, weekCount, setViewType, setWeekCount } =
+    useCalendarViewConfig(defaultView);
   const [selectedCalendarIds, setSelectedCalendarIds] = useState<string[]>(
     initialCalendarIds || []
   );
@@ -94,15 +99,30 @@ export function CalendarContainer({
             increment > 0 ? addMonths(prev, 1) : subMonths(prev, 1)
           );
           break;
+        case "weeks":
+          setCurrentDate((prev) =>
+            increment > 0
+              ? addWeeks(prev, weekCount)
+              : subWeeks(prev, weekCount)
+          );
+          break;
+        case "year":
+          setCurrentDate((prev) =>
+            increment > 0 ? addYears(prev, 1) : subYears(prev, 1)
+          );
+          break;
       }
     },
-    [viewType]
+    [viewType, weekCount]
   );
 
   // Cambio de vista
-  const handleViewChange = useCallback((view: CalendarViewType) => {
-    setViewType(view);
-  }, []);
+  const handleViewChange = useCallback(
+    (view: CalendarViewType) => {
+      setViewType(view);
+    },
+    [setViewType]
+  );
 
   // Toggle de calendario
   const handleToggleCalendar = useCallback((calendarId: string) => {
@@ -163,6 +183,8 @@ export function CalendarContainer({
           onViewChange={handleViewChange}
           onCreateEvent={() => onEventCreate?.({})}
           showCreateButton={mode === "modal"}
+          weekCount={weekCount}
+          onWeekCountChange={setWeekCount}
         />
       )}
 
@@ -185,6 +207,19 @@ export function CalendarContainer({
             <div className="flex h-full items-center justify-center">
               <p className="text-muted-foreground">{t("common.loading")}</p>
             </div>
+          ) : viewType === "year" || viewType === "weeks" ? (
+            // react-big-calendar no tiene vistas de año ni de N semanas
+            <CalendarView
+              events={events}
+              calendars={calendars}
+              viewType={viewType}
+              currentDate={currentDate}
+              onDateChange={setCurrentDate}
+              onViewTypeChange={setViewType}
+              onEventClick={handleSelectEvent}
+              showHeader={false}
+              weekCount={weekCount}
+            />
           ) : (
             <CalendarGrid
               events={events}
@@ -15,6 +15,11 @@ import { TaskQuickAdd } from "~/features/tasks/components/TaskQuickAdd";
 import { EventDetails } from "~/features/calendar/components/EventDetails";
 import { useEventQuickEdit } from "~/features/calendar/hooks/useEventQuickEdit";
 import { EventQuickEdit } from "~/features/calendar/components/EventQuickEdit";
+import { RecurrenceScopeDialog } from "~/features/calendar/components/RecurrenceScopeDialog";
+import { useRecurringEventEdit } from "~/features/calendar/hooks/useRecurringEventEdit";
+import { useCalendarTimeZone } from "~/features/calendar/hooks/useCalendarTimeZone";
+import { useCalendarViewConfig } from "~/features/calendar/hooks/useCalendarViewConfig";
+import { getViewRange } from "~/features/calendar/utils/calendarViews";
 import {
   useCalendars,
   useEvents,
@@ -27,7 +32,6 @@ import {
 } from "~/features/calendar/utils/eventDrag";
 import type {
   CalendarEvent,
-  CalendarViewType,
   EventUpdate,
 } from "~/features/calendar/types/calendar.types";
 
@@ -40,7 +44,8 @@ export function CalendarPanel({ showClose, onClose }: CalendarPanelProps) {
   const { t } = useTranslation();
   const navigate = useNavigate();
   const [currentDate, setCurrentDate] = useState(new Date());
-  const [viewType, setViewType] = useState<CalendarViewType>("month");
+  const { viewType, weekCount, setViewType, setWeekCount } =
+    useCalendarViewConfig();
   const [showEventForm, setShowEventForm] = useState(false);
   const [showEventDetails, setShowEventDetails] = useState(false);
   const [selectedEvent, setSelectedEvent] = useState<CalendarEvent | null>(
@@ -52,8 +57,11 @@ export function CalendarPanel({ showClose, onClose }: CalendarPanelProps) {
   const [quickEditAnchorStyle, setQuickEditAnchorStyle] = useState<React.CSSProperties>({});
 
   const { data: calendarsData, isLoading: calendarsLoading } = useCalendars();
-  const startDate = startOfMonth(currentDate);
-  const endDate = endOfMonth(currentDate);
+  // Las vistas de año y de N semanas pueden salirse del mes actual
+  const { start: startDate, end: endDate } =
+    viewType === "year" || viewType === "weeks"
+      ? getViewRange(viewType, currentDate, weekCount)
+      : { start: startOfMonth(currentDate), end: endOfMonth(currentDate) };
   const eventParams = {
     start_date: format(startDate, "yyyy-MM-dd"),
     end_date: format(endDate, "yyyy-MM-dd"),
@@ -66,11 +74,14 @@ export function CalendarPanel({ showClose, onClose }: CalendarPanelProps) {
   } = useEvents({
     start_date: eventParams.start_date,
     end_date: eventParams.end_date,
+    page_size: viewType === "year" ? 100 : undefined,
   });
 
   const updateEventMutation = useUpdateEvent();
   const deleteEventMutation = useDeleteEvent();
   const updateTaskMutation = useUpdateTask();
+  const recurringEdit = useRecurringEventEdit();
+  const { timeZone, secondaryTimeZone } = useCalendarTimeZone();
 
   const calendars = calendarsData?.data || [];
   const hasCalendars = calendars.length > 0;
@@ -117,12 +128,19 @@ export function CalendarPanel({ showClose, onClose }: CalendarPanelProps) {
   };
 
   const handleEventDelete = (event: CalendarEvent) => {
+    const onDeleted = () => {
+      void refetchEvents();
+      setShowEventDetails(false);
+    };
+
+    // Las series piden el alcance en lugar de la confirmación
+    if (recurringEdit.requestDelete(event, { onSuccess: onDeleted })) {
+      return;
+    }
+
     if (confirm(t("calendar.events.confirmDelete"))) {
       void deleteEventMutation.mutate(event.id, {
-        onSuccess: () => {
-          void refetchEvents();
-          setShowEventDetails(false);
-        },
+        onSuccess: onDeleted,
       });
     }
   };
@@ -165,6 +183,10 @@ export function CalendarPanel({ showClose, onClose }: CalendarPanelProps) {
         options?.preserveTime ?? true
       );
 
+      if (recurringEdit.requestEdit(event, payload)) {
+        return;
+      }
+
       void updateEventMutation.mutate({
         id: event.id,
         payload,
@@ -190,6 +212,12 @@ export function CalendarPanel({ showClose, onClose }: CalendarPanelProps) {
     if (event.end_time) {
       payload.end_time = event.end_time;
     }
+
+    // En una serie, el alcance se calcula sobre el evento sin redimensionar
+    const original = events.find((item) => item.id === event.id) ?? event;
+    if (recurringEdit.requestEdit(original, payload)) {
+      return;
+    }
     
     // Actualizar el evento
     void updateEventMutation.mutate({
@@ -264,6 +292,10 @@ export function CalendarPanel({ showClose, onClose }: CalendarPanelProps) {
           onEventMove={handleEventMove}
           onEventResize={handleEventResize}
           loading={eventsLoading}
+          timeZone={timeZone}
+          secondaryTimeZone={secondaryTimeZone}
+          weekCount={weekCount}
+          onWeekCountChange={setWeekCount}
         />
       )}
 
@@ -287,6 +319,9 @@ export function CalendarPanel({ showClose, onClose }: CalendarPanelProps) {
         </EventQuickEdit>
       )}
 
+      <RecurrenceScopeDialog {...quickEdit.recurrenceDialog} />
+      <RecurrenceScopeDialog {...recurringEdit.dialogProps} />
+
       <Dialog
         open={showEventForm}
         onOpenChange={(open) => setShowEventForm(open)}
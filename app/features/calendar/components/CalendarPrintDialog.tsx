@@ -0,0 +1,312 @@
+/**
+ * CalendarPrintDialog component
+ * Print options (layout, calendars and date range) with a preview of the
+ * pages. Printing goes through the browser's print dialog, which only shows
+ * the print pages (see the print styles in app.css).
+ */
+
+import { useMemo, useState } from "react";
+import { createPortal } from "react-dom";
+import { addDays, format, parseISO, subDays } from "date-fns";
+import { PrinterIcon } from "lucide-react";
+import { useTranslation } from "~/lib/i18n/useTranslation";
+import { Button } from "~/components/ui/button";
+import { Checkbox } from "~/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "~/components/ui/dialog";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import { CalendarPrintPages } from "~/features/calendar/components/CalendarPrintPages";
+import { usePrintEvents } from "~/features/calendar/hooks/useCalendarPrint";
+import {
+  buildPrintPages,
+  getDefaultPrintRange,
+  getPrintEvents,
+  validatePrintRange,
+  type PrintLayoutType,
+} from "~/features/calendar/utils/calendarPrint";
+import type {
+  Calendar,
+  CalendarEvent,
+} from "~/features/calendar/types/calendar.types";
+
+const DATE_FORMAT = "yyyy-MM-dd";
+const PRINT_LAYOUTS: PrintLayoutType[] = ["month", "week", "agenda"];
+
+interface CalendarPrintDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  calendars: Calendar[];
+  /** Date the default range is taken from */
+  currentDate: Date;
+  defaultLayout?: PrintLayoutType;
+  /** IANA time zone the events are printed in (the browser's by default) */
+  timeZone?: string;
+  getEventColor?: (event: CalendarEvent) => string;
+}
+
+type PrintOptionsProps = Omit<CalendarPrintDialogProps, "open">;
+
+function toRangeInputs(layout: PrintLayoutType, date: Date) {
+  const range = getDefaultPrintRange(layout, date);
+  return {
+    startDate: format(range.start, DATE_FORMAT),
+    endDate: format(range.end, DATE_FORMAT),
+  };
+}
+
+// Contenido aparte para empezar con las opciones por defecto en cada apertura
+function PrintOptions({
+  onOpenChange,
+  calendars,
+  currentDate,
+  defaultLayout = "month",
+  timeZone,
+  getEventColor,
+}: PrintOptionsProps) {
+  const { t } = useTranslation();
+  const [layout, setLayout] = useState<PrintLayoutType>(defaultLayout);
+  const [calendarIds, setCalendarIds] = useState(() =>
+    calendars.map((calendar) => calendar.id)
+  );
+  const [rangeInputs, setRangeInputs] = useState(() =>
+    toRangeInputs(defaultLayout, currentDate)
+  );
+
+  const range = useMemo(
+    () =>
+      rangeInputs.startDate && rangeInputs.endDate
+        ? {
+            start: parseISO(rangeInputs.startDate),
+            end: parseISO(rangeInputs.endDate),
+          }
+        : null,
+    [rangeInputs]
+  );
+  const rangeError = range
+    ? validatePrintRange(range)
+    : "calendar.print.errors.rangeRequired";
+
+  // Un día de margen para cubrir la diferencia con la zona de impresión
+  const { data: fetchedEvents, isLoading } = usePrintEvents(
+    range ? format(subDays(range.start, 1), DATE_FORMAT) : "",
+    range ? format(addDays(range.end, 1), DATE_FORMAT) : "",
+    !rangeError
+  );
+
+  const printedCalendars = calendars.filter((calendar) =>
+    calendarIds.includes(calendar.id)
+  );
+  const events = useMemo(
+    () =>
+      range && !rangeError
+        ? getPrintEvents(fetchedEvents ?? [], range, {
+            // Sin calendarios para elegir se imprimen todos los eventos
+            calendarIds: calendars.length > 0 ? calendarIds : undefined,
+            timeZone,
+          })
+        : [],
+    [fetchedEvents, range, rangeError, calendars, calendarIds, timeZone]
+  );
+  const pages = useMemo(
+    () => (range && !rangeError ? buildPrintPages(layout, events, range) : []),
+    [layout, events, range, rangeError]
+  );
+
+  const resolveEventColor = (event: CalendarEvent) =>
+    getEventColor?.(event) ??
+    calendars.find((calendar) => calendar.id === event.calendar_id)?.color ??
+    "#023E87";
+
+  const handleLayoutChange = (value: string) => {
+    const nextLayout = value as PrintLayoutType;
+    setLayout(nextLayout);
+    setRangeInputs(toRangeInputs(nextLayout, range?.start ?? currentDate));
+  };
+
+  const toggleCalendar = (calendarId: string, checked: boolean) => {
+    setCalendarIds((current) =>
+      checked
+        ? [...current, calendarId]
+        : current.filter((id) => id !== calendarId)
+    );
+  };
+
+  const canPrint =
+    !rangeError &&
+    !isLoading &&
+    pages.length > 0 &&
+    (calendars.length === 0 || printedCalendars.length > 0);
+
+  const printPages = range && (
+    <CalendarPrintPages
+      pages={pages}
+      events={events}
+      range={range}
+      calendars={printedCalendars}
+      getEventColor={resolveEventColor}
+    />
+  );
+
+  return (
+    <>
+      <div className="grid gap-4 md:grid-cols-[220px_minmax(0,1fr)]">
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="calendar-print-layout">
+              {t("calendar.print.layout")}
+            </Label>
+            <Select value={layout} onValueChange={handleLayoutChange}>
+              <SelectTrigger id="calendar-print-layout">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PRINT_LAYOUTS.map((item) => (
+                  <SelectItem key={item} value={item}>
+                    {t(`calendar.print.layouts.${item}`)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="calendar-print-from">
+              {t("calendar.print.from")}
+            </Label>
+            <Input
+              id="calendar-print-from"
+              type="date"
+              value={rangeInputs.startDate}
+              onChange={(e) =>
+                setRangeInputs((current) => ({
+                  ...current,
+                  startDate: e.target.value,
+                }))
+              }
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="calendar-print-to">{t("calendar.print.to")}</Label>
+            <Input
+              id="calendar-print-to"
+              type="date"
+              value={rangeInputs.endDate}
+              min={rangeInputs.startDate || undefined}
+              onChange={(e) =>
+                setRangeInputs((current) => ({
+                  ...current,
+                  endDate: e.target.value,
+                }))
+              }
+            />
+          </div>
+          {rangeError && (
+            <p className="text-xs text-destructive">{t(rangeError)}</p>
+          )}
+
+          {calendars.length > 0 && (
+            <div className="space-y-2">
+              <Label>{t("calendar.print.calendars")}</Label>
+              {calendars.map((calendar) => (
+                <div key={calendar.id} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`calendar-print-${calendar.id}`}
+                    checked={calendarIds.includes(calendar.id)}
+                    onCheckedChange={(checked) =>
+                      toggleCalendar(calendar.id, checked === true)
+                    }
+                  />
+                  <Label
+                    htmlFor={`calendar-print-${calendar.id}`}
+                    className="flex items-center gap-2 font-normal"
+                  >
+                    <span
+                      className="h-2.5 w-2.5 rounded-full"
+                      style={{ backgroundColor: calendar.color || "#023E87" }}
+                    />
+                    {calendar.name}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between text-xs text-muted-foreground">
+            <span>{t("calendar.print.preview")}</span>
+            {!rangeError && !isLoading && (
+              <span>
+                {t("calendar.print.pages").replace(
+                  "{count}",
+                  String(pages.length)
+                )}
+              </span>
+            )}
+          </div>
+          <div className="calendar-print-preview h-[60vh] overflow-auto rounded-md bg-muted p-4">
+            {isLoading ? (
+              <p className="text-sm text-muted-foreground">
+                {t("calendar.print.loading")}
+              </p>
+            ) : (
+              printPages
+            )}
+          </div>
+        </div>
+      </div>
+
+      <DialogFooter>
+        <Button variant="outline" onClick={() => onOpenChange(false)}>
+          {t("common.cancel")}
+        </Button>
+        <Button onClick={() => window.print()} disabled={!canPrint}>
+          <PrinterIcon className="mr-2 h-4 w-4" />
+          {t("calendar.print.print")}
+        </Button>
+      </DialogFooter>
+
+      {/* Copia de las páginas que solo se ve al imprimir */}
+      {canPrint &&
+        createPortal(
+          <div className="calendar-print-root">{printPages}</div>,
+          document.body
+        )}
+    </>
+  );
+}
+
+export function CalendarPrintDialog({
+  open,
+  ...props
+}: CalendarPrintDialogProps) {
+  const { t } = useTranslation();
+
+  return (
+    <Dialog open={open} onOpenChange={props.onOpenChange}>
+      <DialogContent className="sm:max-w-[1000px]">
+        <DialogHeader>
+          <DialogTitle>{t("calendar.print.title")}</DialogTitle>
+          <DialogDescription>
+            {t("calendar.print.description")}
+          </DialogDescription>
+        </DialogHeader>
+        {open && <PrintOptions {...props} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
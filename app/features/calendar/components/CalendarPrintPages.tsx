@@ -0,0 +1,306 @@
+/**
+ * CalendarPrintPages component
+ * Print layout of the calendar: one sheet per month, week or agenda page,
+ * with the tenant logo and the printed calendars in the header. Used both
+ * for the preview and for the browser's print dialog (see app.css).
+ */
+
+import { format, isSameMonth, isWithinInterval } from "date-fns";
+import { enUS, es } from "date-fns/locale";
+import { useTranslation } from "~/lib/i18n/useTranslation";
+import { cn } from "~/lib/utils";
+import { useThemeConfig } from "~/hooks/useThemeConfig";
+import {
+  getEventsForPrintDay,
+  type PrintAgendaPage,
+  type PrintMonthPage,
+  type PrintPage,
+  type PrintRange,
+  type PrintWeekPage,
+} from "~/features/calendar/utils/calendarPrint";
+import type {
+  Calendar,
+  CalendarEvent,
+} from "~/features/calendar/types/calendar.types";
+
+// Eventos visibles por día en la cuadrícula mensual antes de "+N más"
+const MONTH_EVENTS_PER_DAY = 4;
+
+interface CalendarPrintPagesProps {
+  pages: PrintPage[];
+  events: CalendarEvent[];
+  range: PrintRange;
+  calendars: Calendar[];
+  getEventColor: (event: CalendarEvent) => string;
+}
+
+export function CalendarPrintPages({
+  pages,
+  events,
+  range,
+  calendars,
+  getEventColor,
+}: CalendarPrintPagesProps) {
+  const { t, language } = useTranslation();
+  const dateLocale = language === "en" ? enUS : es;
+  // El papel es blanco: siempre el logo del tema claro
+  const { themeLight } = useThemeConfig();
+  const logo = themeLight.logo_primary || themeLight.logo_name;
+
+  const formatTime = (value: string) => format(new Date(value), "HH:mm");
+  const eventTime = (event: CalendarEvent) =>
+    event.all_day
+      ? t("calendar.events.allDay")
+      : `${formatTime(event.start_time)} – ${formatTime(event.end_time)}`;
+
+  const getTitle = (page: PrintPage) => {
+    if (page.layout === "month") {
+      return format(page.month, "MMMM yyyy", { locale: dateLocale });
+    }
+    const first = page.layout === "week" ? page.days[0]?.date : range.start;
+    const last =
+      page.layout === "week"
+        ? page.days[page.days.length - 1]?.date
+        : range.end;
+    if (!first || !last) return "";
+    return `${format(first, "d MMM", { locale: dateLocale })} – ${format(last, "d MMM yyyy", { locale: dateLocale })}`;
+  };
+
+  const renderMonth = (page: PrintMonthPage) => (
+    <div className="flex flex-1 flex-col border border-black/40 text-[9px]">
+      <div className="grid grid-cols-7 border-b border-black/40">
+        {page.weeks[0]?.map((day) => (
+          <div
+            key={day.toISOString()}
+            className="px-1 py-0.5 text-center font-semibold uppercase"
+          >
+            {format(day, "EEE", { locale: dateLocale })}
+          </div>
+        ))}
+      </div>
+      {page.weeks.map((week) => (
+        <div
+          key={week[0]?.toISOString()}
+          className="grid flex-1 grid-cols-7 border-b border-black/20 last:border-b-0"
+        >
+          {week.map((day) => {
+            const inRange =
+              isSameMonth(day, page.month) &&
+              isWithinInterval(day, { start: range.start, end: range.end });
+            const dayEvents = inRange ? getEventsForPrintDay(events, day) : [];
+            return (
+              <div
+                key={day.toISOString()}
+                className={cn(
+                  "overflow-hidden border-r border-black/20 p-0.5 last:border-r-0",
+                  !inRange && "bg-black/5 text-black/40"
+                )}
+              >
+                <div className="text-right font-semibold">
+                  {format(day, "d")}
+                </div>
+                {dayEvents.slice(0, MONTH_EVENTS_PER_DAY).map((event) => (
+                  <div
+                    key={event.id}
+                    className="truncate border-l-2 pl-0.5"
+                    style={{ borderColor: getEventColor(event) }}
+                  >
+                    {!event.all_day && (
+                      <span className="mr-0.5 font-medium">
+                        {formatTime(event.start_time)}
+                      </span>
+                    )}
+                    {event.title}
+                  </div>
+                ))}
+                {dayEvents.length > MONTH_EVENTS_PER_DAY && (
+                  <div className="text-black/60">
+                    {t("calendar.print.more").replace(
+                      "{count}",
+                      String(dayEvents.length - MONTH_EVENTS_PER_DAY)
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      ))}
+    </div>
+  );
+
+  const renderWeek = (page: PrintWeekPage) => {
+    const hours = Array.from(
+      { length: page.endHour - page.startHour },
+      (_, index) => page.startHour + index
+    );
+    const hasAllDay = page.days.some((day) => day.allDay.length > 0);
+    const columns = {
+      gridTemplateColumns: `2.5rem repeat(${page.days.length}, minmax(0, 1fr))`,
+    };
+
+    return (
+      <div className="flex flex-1 flex-col border border-black/40 text-[9px]">
+        <div className="grid border-b border-black/40" style={columns}>
+          <div />
+          {page.days.map((day) => (
+            <div
+              key={day.date.toISOString()}
+              className="border-l border-black/20 px-1 py-0.5 text-center font-semibold"
+            >
+              {format(day.date, "EEE d", { locale: dateLocale })}
+            </div>
+          ))}
+        </div>
+        {hasAllDay && (
+          <div className="grid border-b border-black/40" style={columns}>
+            <div className="px-0.5 py-0.5 text-black/60">
+              {t("calendar.events.allDay")}
+            </div>
+            {page.days.map((day) => (
+              <div
+                key={day.date.toISOString()}
+                className="space-y-px border-l border-black/20 p-0.5"
+              >
+                {day.allDay.map((event) => (
+                  <div
+                    key={event.id}
+                    className="truncate border-l-2 pl-0.5"
+                    style={{ borderColor: getEventColor(event) }}
+                  >
+                    {event.title}
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+        <div className="grid flex-1" style={columns}>
+          <div className="flex flex-col">
+            {hours.map((hour) => (
+              <div
+                key={hour}
+                className="flex-1 border-t border-black/20 px-0.5 text-black/60 first:border-t-0"
+              >
+                {String(hour).padStart(2, "0")}:00
+              </div>
+            ))}
+          </div>
+          {page.days.map((day) => (
+            <div
+              key={day.date.toISOString()}
+              className="relative flex flex-col border-l border-black/20"
+            >
+              {hours.map((hour) => (
+                <div
+                  key={hour}
+                  className="flex-1 border-t border-black/20 first:border-t-0"
+                />
+              ))}
+              {day.timed.map(({ event, top, height, column, totalColumns }) => (
+                <div
+                  key={event.id}
+                  className="absolute overflow-hidden rounded-sm border-l-2 bg-white px-0.5 leading-tight outline outline-1 outline-black/20"
+                  style={{
+                    top: `${top}%`,
+                    height: `${height}%`,
+                    left: `${(column / totalColumns) * 100}%`,
+                    width: `${100 / totalColumns}%`,
+                    borderColor: getEventColor(event),
+                  }}
+                >
+                  <div className="font-medium">
+                    {formatTime(event.start_time)}
+                  </div>
+                  <div className="truncate">{event.title}</div>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  const renderAgenda = (page: PrintAgendaPage) =>
+    page.days.length === 0 ? (
+      <p className="py-8 text-center text-xs text-black/60">
+        {t("calendar.agenda.noEvents")}
+      </p>
+    ) : (
+      <div className="space-y-2 text-[10px]">
+        {page.days.map((day) => (
+          <section key={`${day.date.toISOString()}-${day.continued}`}>
+            <h3 className="border-b border-black/40 pb-0.5 text-[11px] font-semibold capitalize">
+              {format(day.date, "EEEE d MMMM yyyy", { locale: dateLocale })}
+              {day.continued && (
+                <span className="ml-1 font-normal normal-case text-black/60">
+                  ({t("calendar.print.continued")})
+                </span>
+              )}
+            </h3>
+            {day.events.map((event) => (
+              <div
+                key={event.id}
+                className="flex gap-2 border-b border-black/10 py-0.5"
+              >
+                <span
+                  className="w-1 shrink-0 rounded-full"
+                  style={{ backgroundColor: getEventColor(event) }}
+                />
+                <span className="w-20 shrink-0 tabular-nums">
+                  {eventTime(event)}
+                </span>
+                <span className="flex-1 truncate font-medium">
+                  {event.title}
+                </span>
+                {event.location && (
+                  <span className="max-w-[40%] truncate text-black/60">
+                    {event.location}
+                  </span>
+                )}
+              </div>
+            ))}
+          </section>
+        ))}
+      </div>
+    );
+
+  return (
+    <>
+      {pages.map((page, index) => (
+        <article
+          key={index}
+          className="calendar-print-page flex flex-col gap-2"
+          data-orientation={page.layout === "agenda" ? "portrait" : "landscape"}
+        >
+          <header className="flex items-center gap-3 border-b border-black/40 pb-1">
+            {logo && <img src={logo} alt="" className="h-8 object-contain" />}
+            <h2 className="text-base font-semibold capitalize">
+              {getTitle(page)}
+            </h2>
+            <div className="ml-auto flex flex-wrap justify-end gap-x-3 text-[9px]">
+              {calendars.map((calendar) => (
+                <span key={calendar.id} className="flex items-center gap-1">
+                  <span
+                    className="h-2 w-2 rounded-full"
+                    style={{ backgroundColor: calendar.color || "#023E87" }}
+                  />
+                  {calendar.name}
+                </span>
+              ))}
+            </div>
+          </header>
+          {page.layout === "month" && renderMonth(page)}
+          {page.layout === "week" && renderWeek(page)}
+          {page.layout === "agenda" && renderAgenda(page)}
+          <footer className="mt-auto text-right text-[8px] text-black/60">
+            {t("calendar.print.pageOf")
+              .replace("{page}", String(index + 1))
+              .replace("{total}", String(pages.length))}
+          </footer>
+        </article>
+      ))}
+    </>
+  );
+}
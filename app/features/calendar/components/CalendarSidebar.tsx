@@ -1,13 +1,16 @@
 import { useState } from "react";
 import { format } from "date-fns";
 import { es, enUS } from "date-fns/locale";
-import { Search, Filter } from "lucide-react";
+import { Search, Filter, Download, Upload } from "lucide-react";
+import { Button } from "~/components/ui/button";
 import { Input } from "~/components/ui/input";
 import { Label } from "~/components/ui/label";
 import { Checkbox } from "~/components/ui/checkbox";
 import { ScrollArea } from "~/components/ui/scroll-area";
 import { Separator } from "~/components/ui/separator";
 import { useTranslation } from "~/lib/i18n/useTranslation";
+import { ICalExportDialog } from "./ICalExportDialog";
+import { ICalImportDialog } from "./ICalImportDialog";
 import type { Calendar } from "../types/calendar.types";
 
 interface CalendarSidebarProps {
@@ -31,6 +34,8 @@ export function CalendarSidebar({
   const { t, language } = useTranslation();
   const locale = language === "es" ? es : enUS;
   const [searchQuery, setSearchQuery] = useState("");
+  const [showImport, setShowImport] = useState(false);
+  const [showExport, setShowExport] = useState(false);
 
   const filteredCalendars = calendars.filter((calendar) =>
     calendar.name.toLowerCase().includes(searchQuery.toLowerCase())
@@ -126,6 +131,43 @@ export function CalendarSidebar({
           )}
         </ScrollArea>
       </div>
+
+      {/* Importar / exportar iCalendar */}
+      <div className="flex gap-2 border-t p-4">
+        <Button
+          variant="outline"
+          size="sm"
+          className="flex-1"
+          onClick={() => setShowImport(true)}
+          disabled={calendars.length === 0}
+        >
+          <Upload className="mr-2 h-4 w-4" />
+          {t("calendar.ical.import")}
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          className="flex-1"
+          onClick={() => setShowExport(true)}
+          disabled={calendars.length === 0}
+        >
+          <Download className="mr-2 h-4 w-4" />
+          {t("calendar.ical.export")}
+        </Button>
+      </div>
+
+      <ICalImportDialog
+        open={showImport}
+        onOpenChange={setShowImport}
+        calendars={calendars}
+        defaultCalendarId={selectedCalendarIds[0]}
+      />
+      <ICalExportDialog
+        open={showExport}
+        onOpenChange={setShowExport}
+        calendars={calendars}
+        defaultCalendarId={selectedCalendarIds[0]}
+      />
     </div>
   );
 }
@@ -1,4 +1,4 @@
-import { format } from "date-fns";
+import { addWeeks, endOfWeek, format, startOfWeek } from "date-fns";
 import { es, enUS } from "date-fns/locale";
 import {
   ChevronLeft,
@@ -16,6 +16,16 @@ import {
 } from "~/components/ui/select";
 import { useTranslation } from "~/lib/i18n/useTranslation";
 import type { CalendarViewType } from "../types/calendar.types";
+import {
+  DEFAULT_WEEK_COUNT,
+  MAX_WEEK_COUNT,
+  MIN_WEEK_COUNT,
+} from "../utils/calendarViews";
+
+const WEEK_COUNTS = Array.from(
+  { length: MAX_WEEK_COUNT - MIN_WEEK_COUNT + 1 },
+  (_, index) => MIN_WEEK_COUNT + index
+);
 
 interface CalendarToolbarProps {
   currentDate: Date;
@@ -24,6 +34,9 @@ interface CalendarToolbarProps {
   onViewChange: (view: CalendarViewType) => void;
   onCreateEvent?: () => void;
   showCreateButton?: boolean;
+  /** Weeks shown by the "weeks" view */
+  weekCount?: number;
+  onWeekCountChange?: (weekCount: number) => void;
 }
 
 export function CalendarToolbar({
@@ -33,6 +46,8 @@ export function CalendarToolbar({
   onViewChange,
   onCreateEvent,
   showCreateButton = true,
+  weekCount = DEFAULT_WEEK_COUNT,
+  onWeekCountChange,
 }: CalendarToolbarProps) {
   const { t, language } = useTranslation();
   const locale = language === "es" ? es : enUS;
@@ -47,6 +62,15 @@ export function CalendarToolbar({
         return format(currentDate, "EEEE, dd MMMM yyyy", { locale });
       case "agenda":
         return format(currentDate, "MMMM yyyy", { locale });
+      case "weeks": {
+        const start = startOfWeek(currentDate, { weekStartsOn: 1 });
+        const end = endOfWeek(addWeeks(start, weekCount - 1), {
+          weekStartsOn: 1,
+        });
+        return `${format(start, "dd MMM", { locale })} – ${format(end, "dd MMM yyyy", { locale })}`;
+      }
+      case "year":
+        return format(currentDate, "yyyy", { locale });
       default:
         return format(currentDate, "MMMM yyyy", { locale });
     }
@@ -107,9 +131,35 @@ export function CalendarToolbar({
             <SelectItem value="week">{t("calendar.views.week")}</SelectItem>
             <SelectItem value="day">{t("calendar.views.day")}</SelectItem>
             <SelectItem value="agenda">{t("calendar.views.agenda")}</SelectItem>
+            <SelectItem value="weeks">{t("calendar.views.weeks")}</SelectItem>
+            <SelectItem value="year">{t("calendar.views.year")}</SelectItem>
           </SelectContent>
         </Select>
 
+        {viewType === "weeks" && onWeekCountChange && (
+          <Select
+            value={String(weekCount)}
+            onValueChange={(value) => onWeekCountChange(Number(value))}
+          >
+            <SelectTrigger
+              className="w-[120px]"
+              aria-label={t("calendar.views.weekCount")}
+            >
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {WEEK_COUNTS.map((count) => (
+                <SelectItem key={count} value={String(count)}>
+                  {t("calendar.views.weeksCount").replace(
+                    "{count}",
+                    String(count)
+                  )}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
         {showCreateButton && onCreateEvent && (
           <Button onClick={onCreateEvent} size="sm">
             <Plus className="mr-2 h-4 w-4" />
@@ -51,8 +51,30 @@ import {
   useSensors,
 } from "@dnd-kit/core";
 import { ResizeHandle } from "~/features/calendar/components/ResizeHandle";
+import { ResourceTimelineView } from "~/features/calendar/components/ResourceTimelineView";
+import { YearView } from "~/features/calendar/components/YearView";
+import { CalendarPrintDialog } from "~/features/calendar/components/CalendarPrintDialog";
+import { getPrintLayoutForView } from "~/features/calendar/utils/calendarPrint";
+import {
+  DEFAULT_WEEK_COUNT,
+  MAX_WEEK_COUNT,
+  MIN_WEEK_COUNT,
+  getViewRange,
+} from "~/features/calendar/utils/calendarViews";
 import { canResizeEvent } from "~/features/calendar/utils/eventValidation";
+import {
+  expandRecurringEvents,
+  isRecurringEvent,
+} from "~/features/calendar/utils/recurrence";
 import { useEventResize } from "~/features/calendar/hooks/useEventResize";
+import {
+  formatTimeZoneOffset,
+  fromZonedEvent,
+  fromZonedTime,
+  getLocalTimeZone,
+  toZonedEvent,
+  toZonedTime,
+} from "~/features/calendar/utils/timezone";
 import {
   HOUR_HEIGHT,
   TOTAL_DAY_HEIGHT,
@@ -64,25 +86,32 @@ import {
   addDays,
   addMonths,
   addWeeks,
+  addYears,
   differenceInCalendarDays,
   eachDayOfInterval,
   endOfDay,
-  endOfMonth,
   endOfWeek,
   format,
   isSameDay,
   isSameMonth,
   startOfDay,
-  startOfMonth,
   startOfWeek,
   subDays,
   subMonths,
   subWeeks,
+  subYears,
 } from "date-fns";
 import { es, enUS } from "date-fns/locale";
 import { useTranslation } from "~/lib/i18n/useTranslation";
 import { Button } from "~/components/ui/button";
-import { ChevronLeftIcon, ChevronRightIcon } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import { ChevronLeftIcon, ChevronRightIcon, PrinterIcon } from "lucide-react";
 import type {
   CalendarViewType,
   CalendarEvent,
@@ -111,6 +140,13 @@ interface CalendarViewProps {
   ) => void;
   loading?: boolean;
   showHeader?: boolean;
+  /** IANA time zone the grid is drawn in (the browser's by default) */
+  timeZone?: string;
+  /** Extra time zone whose hours are shown next to the grid in week and day views */
+  secondaryTimeZone?: string | null;
+  /** Weeks shown by the "weeks" view */
+  weekCount?: number;
+  onWeekCountChange?: (weekCount: number) => void;
 }
 
 type DragAction = "move" | "resize";
@@ -424,19 +460,23 @@ function HourDropSlot({ slotDate, className, style, onClick, children }: HourDro
 }
 
 export function CalendarView({
-  events,
+  events: sourceEvents,
   calendars,
   viewType,
   currentDate,
   onDateChange,
   onViewTypeChange,
-  onEventClick,
+  onEventClick: onSourceEventClick,
   onEventCreate,
   getEventColor,
   onEventMove,
   onEventResize,
   loading: _loading,
   showHeader = true,
+  timeZone,
+  secondaryTimeZone,
+  weekCount = DEFAULT_WEEK_COUNT,
+  onWeekCountChange,
 }: CalendarViewProps) {
   const { t, language } = useTranslation();
   const dateLocale = language === "en" ? enUS : es;
@@ -445,7 +485,63 @@ export function CalendarView({
     useSensor(KeyboardSensor)
   );
   const [activeEventId, setActiveEventId] = useState<string | null>(null);
-  const { handleResize } = useEventResize({ onEventResize });
+  const [printOpen, setPrintOpen] = useState(false);
+
+  // La cuadrícula trabaja con fechas locales que muestran la hora de la zona
+  // configurada; sin conversión cuando es la del navegador
+  const primaryTimeZone = timeZone ?? getLocalTimeZone();
+  const displayTimeZone =
+    primaryTimeZone !== getLocalTimeZone() ? primaryTimeZone : undefined;
+  const secondaryZone =
+    secondaryTimeZone && secondaryTimeZone !== primaryTimeZone
+      ? secondaryTimeZone
+      : null;
+  const gutterWidth = secondaryZone ? 112 : 60;
+  const toInstant = (date: Date) =>
+    displayTimeZone ? fromZonedTime(date, displayTimeZone) : date;
+  const toDisplayTime = (date: Date) =>
+    displayTimeZone ? toZonedTime(date, displayTimeZone) : date;
+
+  const { handleResize } = useEventResize({
+    onEventResize:
+      onEventResize &&
+      ((event, targetDate, options) =>
+        onEventResize(
+          displayTimeZone ? fromZonedEvent(event, displayTimeZone) : event,
+          toInstant(targetDate),
+          options
+        )),
+  });
+
+  const expandedEvents = useMemo(() => {
+    const range = getViewRange(viewType, currentDate, weekCount);
+    const toRangeInstant = (date: Date) =>
+      displayTimeZone ? fromZonedTime(date, displayTimeZone) : date;
+    return expandRecurringEvents(
+      sourceEvents,
+      toRangeInstant(range.start),
+      toRangeInstant(range.end),
+      displayTimeZone
+    );
+  }, [sourceEvents, viewType, currentDate, weekCount, displayTimeZone]);
+
+  const events = useMemo(
+    () =>
+      displayTimeZone
+        ? expandedEvents.map((event) => toZonedEvent(event, displayTimeZone))
+        : expandedEvents,
+    [expandedEvents, displayTimeZone]
+  );
+
+  // Los callbacks reciben el evento original, no la copia con horas de la zona
+  const sourceEventsById = useMemo(
+    () => new Map(expandedEvents.map((event) => [event.id, event])),
+    [expandedEvents]
+  );
+  const onEventClick =
+    onSourceEventClick &&
+    ((event: CalendarEvent, mouseEvent?: React.MouseEvent) =>
+      onSourceEventClick(sourceEventsById.get(event.id) ?? event, mouseEvent));
   
   // Fetch configurable icons
   const { data: iconConfigs } = useActivityIcons();
@@ -568,11 +664,24 @@ export function CalendarView({
             : addWeeks(currentDate, 1);
         break;
       case "day":
+      case "resources":
         newDate =
           direction === "prev"
             ? subDays(currentDate, 1)
             : addDays(currentDate, 1);
         break;
+      case "weeks":
+        newDate =
+          direction === "prev"
+            ? subWeeks(currentDate, weekCount)
+            : addWeeks(currentDate, weekCount);
+        break;
+      case "year":
+        newDate =
+          direction === "prev"
+            ? subYears(currentDate, 1)
+            : addYears(currentDate, 1);
+        break;
       default:
         newDate = currentDate;
     }
@@ -581,10 +690,12 @@ export function CalendarView({
   };
 
   const renderMonthView = () => {
-    const monthStart = startOfMonth(currentDate);
-    const monthEnd = endOfMonth(monthStart);
-    const calendarStart = startOfWeek(monthStart, { weekStartsOn: 1 });
-    const calendarEnd = endOfWeek(monthEnd, { weekStartsOn: 1 });
+    // La vista de N semanas usa la misma cuadrícula con su propio rango
+    const { start: calendarStart, end: calendarEnd } = getViewRange(
+      viewType,
+      currentDate,
+      weekCount
+    );
 
     const days = eachDayOfInterval({ start: calendarStart, end: calendarEnd });
 
@@ -711,8 +822,10 @@ export function CalendarView({
                         <MonthDayCell
                           key={day.toISOString()}
                           day={day}
-                          isCurrentMonth={isSameMonth(day, currentDate)}
-                          isToday={isSameDay(day, new Date())}
+                          isCurrentMonth={
+                            viewType !== "month" || isSameMonth(day, currentDate)
+                          }
+                          isToday={isSameDay(day, toDisplayTime(new Date()))}
                           events={dayEvents}
                           onEventCreate={onEventCreate}
                           onEventClick={onEventClick}
@@ -961,6 +1074,56 @@ export function CalendarView({
     );
   };
 
+  // Etiquetas de zona sobre la columna de horas, solo con zona secundaria
+  const renderZoneLabels = (nowDate: Date) => {
+    if (!secondaryZone) return null;
+    const now = toInstant(nowDate);
+    return (
+      <div
+        className="flex text-[10px] text-muted-foreground"
+        style={{ width: gutterWidth }}
+      >
+        <span className="flex-1 truncate text-center" title={secondaryZone}>
+          {formatTimeZoneOffset(secondaryZone, now)}
+        </span>
+        <span className="flex-1 truncate text-center" title={primaryTimeZone}>
+          {formatTimeZoneOffset(primaryTimeZone, now)}
+        </span>
+      </div>
+    );
+  };
+
+  // Columna de horas; la zona secundaria muestra la hora del mismo instante
+  const renderHourGutter = (day: Date) => {
+    const hourLabels = (getLabel: (hour: number) => string) =>
+      Array.from({ length: 24 }, (_, hour) => (
+        <div
+          key={hour}
+          className="absolute right-0 left-0 text-[10px] text-muted-foreground text-right pr-2 -translate-y-1/2"
+          style={{ top: hour * HOUR_HEIGHT, height: HOUR_HEIGHT }}
+        >
+          {hour > 0 ? getLabel(hour) : ""}
+        </div>
+      ));
+
+    return (
+      <div className="relative flex" style={{ height: TOTAL_DAY_HEIGHT }}>
+        {secondaryZone && (
+          <div className="relative flex-1 border-r border-border/40">
+            {hourLabels((hour) => {
+              const slotDate = new Date(day);
+              slotDate.setHours(hour, 0, 0, 0);
+              return format(toZonedTime(toInstant(slotDate), secondaryZone), "HH:mm");
+            })}
+          </div>
+        )}
+        <div className="relative flex-1">
+          {hourLabels((hour) => `${hour.toString().padStart(2, "0")}:00`)}
+        </div>
+      </div>
+    );
+  };
+
   const renderWeekView = () => {
     const weekStart = startOfWeek(currentDate, { weekStartsOn: 1 });
     const weekEnd = endOfWeek(weekStart, { weekStartsOn: 1 });
@@ -984,7 +1147,7 @@ export function CalendarView({
       return calculateEventPositions(timedEvents, day);
     });
 
-    const nowDate = new Date();
+    const nowDate = toDisplayTime(new Date());
     const nowMinutes = nowDate.getHours() * 60 + nowDate.getMinutes();
 
     return (
@@ -992,9 +1155,9 @@ export function CalendarView({
         {/* Header row */}
         <div
           className="grid gap-0 border-b border-border/60"
-          style={{ gridTemplateColumns: "60px repeat(7, 1fr)", background: SURFACE_GRADIENT }}
+          style={{ gridTemplateColumns: `${gutterWidth}px repeat(7, 1fr)`, background: SURFACE_GRADIENT }}
         >
-          <div className="p-2" />
+          <div className="flex items-end py-2">{renderZoneLabels(nowDate)}</div>
           {days.map((day) => (
             <div
               key={day.toISOString()}
@@ -1020,7 +1183,7 @@ export function CalendarView({
         {/* All-day row */}
         <div
           className="grid gap-0 border-b border-border/60"
-          style={{ gridTemplateColumns: "60px repeat(7, 1fr)" }}
+          style={{ gridTemplateColumns: `${gutterWidth}px repeat(7, 1fr)` }}
         >
           <div
             className="text-[10px] text-muted-foreground p-1 text-right"
@@ -1062,20 +1225,10 @@ export function CalendarView({
         <div className="overflow-y-auto" style={{ maxHeight: "calc(100vh - 280px)" }}>
           <div
             className="grid gap-0"
-            style={{ gridTemplateColumns: "60px repeat(7, 1fr)" }}
+            style={{ gridTemplateColumns: `${gutterWidth}px repeat(7, 1fr)` }}
           >
             {/* Hour labels column */}
-            <div className="relative" style={{ height: TOTAL_DAY_HEIGHT }}>
-              {Array.from({ length: 24 }, (_, hour) => (
-                <div
-                  key={hour}
-                  className="absolute right-0 left-0 text-[10px] text-muted-foreground text-right pr-2 -translate-y-1/2"
-                  style={{ top: hour * HOUR_HEIGHT, height: HOUR_HEIGHT }}
-                >
-                  {hour > 0 ? `${hour.toString().padStart(2, "0")}:00` : ""}
-                </div>
-              ))}
-            </div>
+            {renderHourGutter(weekStart)}
 
             {/* Day columns */}
             {days.map((day, dayIndex) => (
@@ -1094,7 +1247,7 @@ export function CalendarView({
                       slotDate={slotDate}
                       className="absolute left-0 right-0 border-t border-border/40 cursor-pointer hover:bg-primary/5 transition-colors"
                       style={{ top: hour * HOUR_HEIGHT, height: HOUR_HEIGHT }}
-                      onClick={() => onEventCreate?.(slotDate)}
+                      onClick={() => onEventCreate?.(toInstant(slotDate))}
                     />
                   );
                 })}
@@ -1189,16 +1342,17 @@ export function CalendarView({
     const timedEvents = getTimedEventsForDay(events, currentDate);
     const positionedEvents = calculateEventPositions(timedEvents, currentDate);
 
-    const nowDate = new Date();
+    const nowDate = toDisplayTime(new Date());
     const nowMinutes = nowDate.getHours() * 60 + nowDate.getMinutes();
 
     return (
       <div className="flex flex-col">
         {/* Day header */}
         <div
-          className="text-center p-3 border-b border-border/60"
+          className="relative text-center p-3 border-b border-border/60"
           style={{ background: SURFACE_GRADIENT }}
         >
+          <div className="absolute bottom-2 left-0">{renderZoneLabels(nowDate)}</div>
           <div className="text-muted-foreground text-sm">
             {format(currentDate, "EEEE", { locale: dateLocale })}
           </div>
@@ -1252,16 +1406,8 @@ export function CalendarView({
         <div className="overflow-y-auto" style={{ maxHeight: "calc(100vh - 320px)" }}>
           <div className="flex">
             {/* Hour labels */}
-            <div className="relative shrink-0" style={{ width: 60, height: TOTAL_DAY_HEIGHT }}>
-              {Array.from({ length: 24 }, (_, hour) => (
-                <div
-                  key={hour}
-                  className="absolute right-0 left-0 text-[10px] text-muted-foreground text-right pr-2 -translate-y-1/2"
-                  style={{ top: hour * HOUR_HEIGHT, height: HOUR_HEIGHT }}
-                >
-                  {hour > 0 ? `${hour.toString().padStart(2, "0")}:00` : ""}
-                </div>
-              ))}
+            <div className="shrink-0" style={{ width: gutterWidth }}>
+              {renderHourGutter(currentDate)}
             </div>
 
             {/* Day column */}
@@ -1279,7 +1425,7 @@ export function CalendarView({
                     slotDate={slotDate}
                     className="absolute left-0 right-0 border-t border-border/40 cursor-pointer hover:bg-primary/5 transition-colors"
                     style={{ top: hour * HOUR_HEIGHT, height: HOUR_HEIGHT }}
-                    onClick={() => onEventCreate?.(slotDate)}
+                    onClick={() => onEventCreate?.(toInstant(slotDate))}
                   />
                 );
               })}
@@ -1370,7 +1516,7 @@ export function CalendarView({
     );
     
     // Group events by date similar to AgendaView
-    const today = startOfDay(new Date());
+    const today = startOfDay(toDisplayTime(new Date()));
     const startDate = subDays(today, 30); // Incluir 30 días atrás
     const endDate = new Date(currentDate);
     endDate.setDate(endDate.getDate() + 60); // Show next 60 days
@@ -1547,15 +1693,14 @@ export function CalendarView({
                             )}
 
                             {/* Recurrence indicator */}
-                            {event.recurrence_type &&
-                              event.recurrence_type !== "none" && (
-                                <div className="flex items-center gap-1">
-                                  <span>🔄</span>
-                                  <span>
-                                    {t("calendar.recurrence.recurring")}
-                                  </span>
-                                </div>
-                              )}
+                            {isRecurringEvent(event) && (
+                              <div className="flex items-center gap-1">
+                                <span>🔄</span>
+                                <span>
+                                  {t("calendar.recurrence.recurring")}
+                                </span>
+                              </div>
+                            )}
                           </div>
                         </div>
                       </div>
@@ -1593,9 +1738,11 @@ export function CalendarView({
               <ChevronRightIcon className="h-4 w-4" />
             </Button>
             <div className="text-sm font-medium truncate">
-              {format(currentDate, "MMMM yyyy", { locale: dateLocale })}
+              {format(currentDate, viewType === "year" ? "yyyy" : "MMMM yyyy", {
+                locale: dateLocale,
+              })}
             </div>
-            <Button variant="outline" className="min-h-[44px] sm:min-h-0" onClick={() => onDateChange(new Date())}>
+            <Button variant="outline" className="min-h-[44px] sm:min-h-0" onClick={() => onDateChange(toDisplayTime(new Date()))}>
               {t("calendar.today")}
             </Button>
           </div>
@@ -1633,6 +1780,65 @@ export function CalendarView({
               >
                 {t("calendar.views.agenda")}
               </Button>
+              <Button
+                variant={viewType === "resources" ? "default" : "outline"}
+                size="sm"
+                className="min-h-[44px] sm:min-h-0 text-xs sm:text-sm"
+                onClick={() => onViewTypeChange("resources")}
+              >
+                {t("calendar.views.resources")}
+              </Button>
+              <Button
+                variant={viewType === "weeks" ? "default" : "outline"}
+                size="sm"
+                className="min-h-[44px] sm:min-h-0 text-xs sm:text-sm"
+                onClick={() => onViewTypeChange("weeks")}
+              >
+                {t("calendar.views.weeks")}
+              </Button>
+              {viewType === "weeks" && onWeekCountChange && (
+                <Select
+                  value={String(weekCount)}
+                  onValueChange={(value) => onWeekCountChange(Number(value))}
+                >
+                  <SelectTrigger
+                    className="h-9 w-[110px]"
+                    aria-label={t("calendar.views.weekCount")}
+                  >
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Array.from(
+                      { length: MAX_WEEK_COUNT - MIN_WEEK_COUNT + 1 },
+                      (_, index) => MIN_WEEK_COUNT + index
+                    ).map((count) => (
+                      <SelectItem key={count} value={String(count)}>
+                        {t("calendar.views.weeksCount").replace(
+                          "{count}",
+                          String(count)
+                        )}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              <Button
+                variant={viewType === "year" ? "default" : "outline"}
+                size="sm"
+                className="min-h-[44px] sm:min-h-0 text-xs sm:text-sm"
+                onClick={() => onViewTypeChange("year")}
+              >
+                {t("calendar.views.year")}
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                className="min-h-[44px] sm:min-h-0 text-xs sm:text-sm"
+                onClick={() => setPrintOpen(true)}
+              >
+                <PrinterIcon className="h-4 w-4 sm:mr-1" />
+                <span className="hidden sm:inline">{t("calendar.print.open")}</span>
+              </Button>
             </div>
           </div>
         )}
@@ -1671,16 +1877,48 @@ export function CalendarView({
             }
             handleResize(draggedEvent, targetDate, direction, preserveTime);
           } else {
-            onEventMove?.(draggedEvent, targetDate, { preserveTime });
+            const sourceEvent =
+              sourceEventsById.get(draggedEvent.id) ?? draggedEvent;
+            if (displayTimeZone && preserveTime && !draggedEvent.all_day) {
+              // Conservar la hora que se ve en la cuadrícula, no la del navegador
+              const start = new Date(draggedEvent.start_time);
+              const target = new Date(targetDate);
+              target.setHours(start.getHours(), start.getMinutes(), start.getSeconds(), 0);
+              onEventMove?.(sourceEvent, toInstant(target), { preserveTime: false });
+            } else {
+              onEventMove?.(sourceEvent, preserveTime ? targetDate : toInstant(targetDate), { preserveTime });
+            }
           }
           setActiveEventId(null);
         }}
       >
         <div>
-          {viewType === "month" && renderMonthView()}
+          {(viewType === "month" || viewType === "weeks") &&
+            renderMonthView()}
           {viewType === "week" && renderWeekView()}
           {viewType === "day" && renderDayView()}
           {viewType === "agenda" && renderAgendaView()}
+          {viewType === "resources" && (
+            <ResourceTimelineView
+              events={events}
+              calendars={calendars}
+              currentDate={currentDate}
+              timeZone={displayTimeZone}
+              onEventClick={onEventClick}
+              getEventColor={resolveEventColor}
+            />
+          )}
+          {viewType === "year" && (
+            <YearView
+              events={events}
+              currentDate={currentDate}
+              today={toDisplayTime(new Date())}
+              onDayClick={(day) => {
+                onDateChange(day);
+                onViewTypeChange("day");
+              }}
+            />
+          )}
         </div>
         <DragOverlay>
           {activeEvent ? (
@@ -1690,6 +1928,16 @@ export function CalendarView({
           ) : null}
         </DragOverlay>
       </DndContext>
+
+      <CalendarPrintDialog
+        open={printOpen}
+        onOpenChange={setPrintOpen}
+        calendars={calendars}
+        currentDate={currentDate}
+        defaultLayout={getPrintLayoutForView(viewType)}
+        timeZone={displayTimeZone}
+        getEventColor={resolveEventColor}
+      />
     </div>
   );
 }
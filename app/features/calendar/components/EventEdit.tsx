@@ -29,11 +29,15 @@ import { Switch } from "~/components/ui/switch";
 import { Edit01Icon } from "@hugeicons/core-free-icons";
 import { HugeiconsIcon } from "@hugeicons/react";
 import { useUpdateEvent, useDeleteEvent, useEventReminders, useCreateReminder, useDeleteReminder } from "~/features/calendar/hooks/useCalendar";
+import { useRecurringEventEdit } from "~/features/calendar/hooks/useRecurringEventEdit";
+import { RecurrenceScopeDialog } from "~/features/calendar/components/RecurrenceScopeDialog";
 import { useEventComments, useAddEventComment } from "~/features/calendar/hooks/useEventComments";
 import { useEventFiles, useDetachEventFile } from "~/features/calendar/hooks/useEventFiles";
 import { useTags } from "~/features/tags/hooks/useTags";
 import { useUsers } from "~/features/users/hooks/useUsers";
 import { MultiSelect } from "~/components/ui/multi-select";
+import { SchedulingAssistant } from "~/features/calendar/components/SchedulingAssistant";
+import { useAssignResourceToEvent } from "~/features/calendar/hooks/useResources";
 import type { CalendarEvent, EventUpdate, RecurrenceType, EventReminderCreate, EventReminder, ReminderType } from "~/features/calendar/types/calendar.types";
 
 interface EventEditProps {
@@ -52,8 +56,13 @@ export function EventEdit({
   const { t } = useTranslation();
   const updateEvent = useUpdateEvent();
   const deleteEvent = useDeleteEvent();
+  const recurringEdit = useRecurringEventEdit();
   const { data: tagList = [] } = useTags();
   const { users } = useUsers({ page_size: 100 });
+  const assignResource = useAssignResourceToEvent();
+  const [showSchedulingAssistant, setShowSchedulingAssistant] = useState(false);
+  // Sala elegida en el asistente, se asigna al guardar
+  const [pickedRoomId, setPickedRoomId] = useState<string | null>(null);
   
   // Hooks para comentarios y archivos
   const { data: commentsData } = useEventComments(event?.id || "");
@@ -116,12 +125,25 @@ export function EventEdit({
 
   const handleDeleteEvent = () => {
     if (!event) return;
+
+    const onDeleted = () => {
+      onEventUpdated?.();
+      onOpenChange(false);
+    };
+
+    if (
+      recurringEdit.requestDelete(event, {
+        onSuccess: onDeleted,
+        onError: (error) => {
+          console.error("Error al eliminar evento:", error);
+        },
+      })
+    ) {
+      return;
+    }
     
     void deleteEvent.mutateAsync(event.id)
-      .then(() => {
-        onEventUpdated?.();
-        onOpenChange(false);
-      })
+      .then(onDeleted)
       .catch((error) => {
         console.error("Error al eliminar evento:", error);
       });
@@ -144,7 +166,7 @@ export function EventEdit({
     return parsed.toISOString();
   };
 
-  const [formData, setFormData] = useState<Partial<EventUpdate> & { tag_ids?: string[]; attendee_ids?: string[] }>({
+  const [formData, setFormData] = useState<Partial<EventUpdate> & { tag_ids?: string[]; attendee_ids?: string[]; optional_attendee_ids?: string[] }>({
     title: "",
     description: "",
     start_time: "",
@@ -161,6 +183,7 @@ export function EventEdit({
     recurrence_month_of_year: undefined,
     tag_ids: [],
     attendee_ids: [],
+    optional_attendee_ids: [],
   });
 
   const [formError, setFormError] = useState<string | null>(null);
@@ -185,7 +208,10 @@ export function EventEdit({
         recurrence_month_of_year: event.recurrence_month_of_year ?? undefined,
         tag_ids: (event.metadata?.tag_ids as string[]) || [],
         attendee_ids: (event.metadata?.attendee_ids as string[]) || [],
+        optional_attendee_ids:
+          (event.metadata?.optional_attendee_ids as string[]) || [],
       });
+      setPickedRoomId(null);
       setFormError(null);
     }
   }, [event]);
@@ -193,6 +219,7 @@ export function EventEdit({
   useEffect(() => {
     if (!open) {
       setFormError(null);
+      setShowSchedulingAssistant(false);
     }
   }, [open]);
 
@@ -224,6 +251,20 @@ export function EventEdit({
       return;
     }
 
+    const optionalAttendeeIds = formData.optional_attendee_ids?.filter((id) =>
+      formData.attendee_ids?.includes(id)
+    );
+    const onSaved = () => {
+      if (pickedRoomId) {
+        assignResource.mutate({
+          eventId: event.id,
+          data: { resource_id: pickedRoomId },
+        });
+      }
+      onEventUpdated?.();
+      onOpenChange(false);
+    };
+
     try {
       const payload: EventUpdate = {
         title: formData.title,
@@ -243,26 +284,39 @@ export function EventEdit({
         metadata: {
           tag_ids: formData.tag_ids?.length ? formData.tag_ids : undefined,
           attendee_ids: formData.attendee_ids?.length ? formData.attendee_ids : undefined,
+          optional_attendee_ids: optionalAttendeeIds?.length ? optionalAttendeeIds : undefined,
         },
       };
 
+      // En una serie se pregunta antes a qué ocurrencias aplicar los cambios
+      if (
+        recurringEdit.requestEdit(event, payload, {
+          onSuccess: onSaved,
+          onError: () => {
+            setFormError(t("calendar.recurrenceScope.error"));
+          },
+        })
+      ) {
+        return;
+      }
+
       await updateEvent.mutateAsync({
         id: event.id,
         payload,
       });
 
-      onEventUpdated?.();
-      onOpenChange(false);
+      onSaved();
     } catch (error) {
       console.error("Error al actualizar evento:", error);
       setFormError(t("calendar.errors.updateFailed") || "Error al actualizar el evento");
     }
   };
 
-  const isLoading = updateEvent.isPending;
+  const isLoading = updateEvent.isPending || recurringEdit.isSaving;
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
+      <RecurrenceScopeDialog {...recurringEdit.dialogProps} />
       <DialogContent className="sm:max-w-[560px] max-h-[85vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
@@ -643,6 +697,45 @@ export function EventEdit({
               placeholder={t("calendar.selectAttendees") || "Seleccionar participantes..."}
               label={t("calendar.attendees") || "Participantes"}
             />
+            {!formData.all_day && (
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                className="mt-3"
+                onClick={() => setShowSchedulingAssistant((shown) => !shown)}
+              >
+                {t("calendar.scheduling.findTime")}
+              </Button>
+            )}
+            {showSchedulingAssistant && !formData.all_day && (
+              <div className="mt-3">
+                <SchedulingAssistant
+                  attendees={users
+                    .filter((u) => formData.attendee_ids?.includes(u.id))
+                    .map((u) => ({
+                      id: u.id,
+                      name: `${u.first_name} ${u.last_name}`.trim() || u.email,
+                    }))}
+                  optionalAttendeeIds={formData.optional_attendee_ids || []}
+                  onOptionalAttendeeIdsChange={(ids) =>
+                    setFormData((prev) => ({ ...prev, optional_attendee_ids: ids }))
+                  }
+                  start={formData.start_time ? new Date(formData.start_time) : null}
+                  end={formData.end_time ? new Date(formData.end_time) : null}
+                  excludeEventId={event?.id}
+                  onSelect={({ start, end, room }) => {
+                    setFormData((prev) => ({
+                      ...prev,
+                      start_time: format(start, DATE_INPUT_FORMAT),
+                      end_time: format(end, DATE_INPUT_FORMAT),
+                      location: room ? room.name : prev.location,
+                    }));
+                    setPickedRoomId(room?.id ?? null);
+                  }}
+                />
+              </div>
+            )}
           </div>
 
           {/* Sección de Archivos */}
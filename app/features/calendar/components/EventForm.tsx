@@ -21,7 +21,13 @@ import { Card, CardContent, CardHeader, CardTitle } from "~/components/ui/card";
 import { Label } from "~/components/ui/label";
 import { RecurrenceEditor, type RecurrenceConfig } from "~/features/calendar/components/RecurrenceEditor";
 import { ReminderManager } from "~/features/calendar/components/ReminderManager";
+import { TimeZoneSelect } from "~/features/calendar/components/TimeZoneSelect";
+import { SchedulingAssistant } from "~/features/calendar/components/SchedulingAssistant";
+import { MultiSelect } from "~/components/ui/multi-select";
+import { useUsers } from "~/features/users/hooks/useUsers";
+import { useCalendarTimeZone } from "~/features/calendar/hooks/useCalendarTimeZone";
 import { configToBackend, backendToConfig } from "~/features/calendar/utils/recurrence";
+import { fromZonedTime, toZonedTime } from "~/features/calendar/utils/timezone";
 import type {
   CalendarEvent,
   EventCreate,
@@ -53,16 +59,22 @@ export function EventForm({
 }: EventFormProps) {
   const isFullMode = mode === "full";
   const { t } = useTranslation();
+  const { timeZone: calendarTimeZone } = useCalendarTimeZone();
+
+  // Timed events are entered in the wall-clock time of their time zone
+  const [timeZone, setTimeZone] = useState(
+    () => event?.timezone || calendarTimeZone
+  );
 
   const initialStartTime = event
     ? event.all_day
       ? format(new Date(event.start_time), "yyyy-MM-dd")
-      : event.start_time
+      : format(toZonedTime(new Date(event.start_time), timeZone), "yyyy-MM-dd'T'HH:mm")
     : format(initialDate || new Date(), "yyyy-MM-dd'T'HH:mm");
   const initialEndTime = event
     ? event.all_day
       ? format(new Date(event.end_time), "yyyy-MM-dd")
-      : event.end_time
+      : format(toZonedTime(new Date(event.end_time), timeZone), "yyyy-MM-dd'T'HH:mm")
     : format(initialDate || new Date(), "yyyy-MM-dd'T'HH:mm");
 
   const [formData, setFormData] = useState<EventCreate>({
@@ -80,6 +92,16 @@ export function EventForm({
   // Reminders state
   const [reminders, setReminders] = useState<EventReminderCreate[]>([]);
 
+  // Attendees, as stored in the event metadata
+  const { users } = useUsers({ page_size: 100 });
+  const [attendeeIds, setAttendeeIds] = useState<string[]>(
+    () => (event?.metadata?.attendee_ids as string[] | undefined) ?? []
+  );
+  const [optionalAttendeeIds, setOptionalAttendeeIds] = useState<string[]>(
+    () => (event?.metadata?.optional_attendee_ids as string[] | undefined) ?? []
+  );
+  const [showSchedulingAssistant, setShowSchedulingAssistant] = useState(false);
+
   // Initialize recurrence config from event
   const [recurrenceConfig, setRecurrenceConfig] = useState<RecurrenceConfig | null>(() => {
     if (event) {
@@ -115,16 +137,37 @@ export function EventForm({
       recurrence_days_of_week: recurrenceData.recurrence_days_of_week,
     };
 
+    const toInstant = (value: string) =>
+      fromZonedTime(new Date(value), timeZone).toISOString();
+
+    const attendeeData = attendeeIds.length
+      ? {
+          metadata: {
+            ...formData.metadata,
+            attendee_ids: attendeeIds,
+            optional_attendee_ids: optionalAttendeeIds.filter((id) =>
+              attendeeIds.includes(id)
+            ),
+          },
+        }
+      : {};
+
     const payload = formData.all_day
       ? {
           ...formData,
           ...typedRecurrenceData,
           start_time: normalizeAllDayTimestamp(formData.start_time, false),
           end_time: normalizeAllDayTimestamp(formData.end_time, true),
+          timezone: null,
+          ...attendeeData,
         }
       : {
           ...formData,
           ...typedRecurrenceData,
+          start_time: toInstant(formData.start_time),
+          end_time: toInstant(formData.end_time),
+          timezone: timeZone,
+          ...attendeeData,
         };
 
     onSubmit({ event: payload, reminders });
@@ -284,6 +327,21 @@ export function EventForm({
               </div>
             </div>
 
+            {/* Time zone - timed events only */}
+            {!formData.all_day && (
+              <div className="space-y-2">
+                <Label htmlFor="timezone">{t("calendar.timezone.label")}</Label>
+                <TimeZoneSelect
+                  id="timezone"
+                  value={timeZone}
+                  onValueChange={(value) => value && setTimeZone(value)}
+                />
+                <p className="text-xs text-muted-foreground">
+                  {t("calendar.timezone.eventHint")}
+                </p>
+              </div>
+            )}
+
             {/* All Day - full mode only */}
             {isFullMode && (
               <div className="flex items-center space-x-2">
@@ -309,6 +367,57 @@ export function EventForm({
               </div>
             )}
 
+            {/* Attendees - full mode only */}
+            {isFullMode && (
+              <div className="space-y-2">
+                <Label>{t("calendar.attendees")}</Label>
+                <MultiSelect
+                  options={users.map((user) => ({
+                    value: user.id,
+                    label: `${user.first_name ?? ""} ${user.last_name ?? ""}`.trim() || user.email,
+                  }))}
+                  selected={attendeeIds}
+                  onChange={setAttendeeIds}
+                  placeholder={t("calendar.selectAttendees")}
+                  label={t("calendar.attendees")}
+                />
+                {!formData.all_day && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setShowSchedulingAssistant((shown) => !shown)}
+                  >
+                    {t("calendar.scheduling.findTime")}
+                  </Button>
+                )}
+                {showSchedulingAssistant && !formData.all_day && (
+                  <SchedulingAssistant
+                    attendees={users
+                      .filter((user) => attendeeIds.includes(user.id))
+                      .map((user) => ({
+                        id: user.id,
+                        name: `${user.first_name ?? ""} ${user.last_name ?? ""}`.trim() || user.email,
+                      }))}
+                    optionalAttendeeIds={optionalAttendeeIds}
+                    onOptionalAttendeeIdsChange={setOptionalAttendeeIds}
+                    start={formData.start_time ? new Date(formData.start_time) : null}
+                    end={formData.end_time ? new Date(formData.end_time) : null}
+                    timeZone={timeZone}
+                    excludeEventId={event?.id}
+                    onSelect={({ start, end, room }) =>
+                      setFormData((prev) => ({
+                        ...prev,
+                        start_time: format(start, "yyyy-MM-dd'T'HH:mm"),
+                        end_time: format(end, "yyyy-MM-dd'T'HH:mm"),
+                        location: room ? room.name : prev.location,
+                      }))
+                    }
+                  />
+                )}
+              </div>
+            )}
+
             {/* Recurrence - full mode only */}
             {isFullMode && (
               <div className="space-y-2">
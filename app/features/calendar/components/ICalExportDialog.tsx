@@ -0,0 +1,172 @@
+/**
+ * ICalExportDialog component
+ * Downloads the events of a calendar, optionally limited to a date range,
+ * as an .ics file.
+ */
+
+import { useState } from "react";
+import { useTranslation } from "~/lib/i18n/useTranslation";
+import { showToast } from "~/components/common/Toast";
+import { Button } from "~/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "~/components/ui/dialog";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import { useUsers } from "~/features/users/hooks/useUsers";
+import { useExportICalendar } from "~/features/calendar/hooks/useICalendar";
+import { ICAL_MIME_TYPE } from "~/features/calendar/utils/ical";
+import type { Calendar } from "~/features/calendar/types/calendar.types";
+
+interface ICalExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  calendars: Calendar[];
+  defaultCalendarId?: string;
+}
+
+function downloadICalendar(content: string, calendarName: string) {
+  const fileName =
+    calendarName
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-|-$/g, "") || "calendar";
+  const blob = new Blob([content], {
+    type: `${ICAL_MIME_TYPE};charset=utf-8`,
+  });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${fileName}.ics`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function ICalExportDialog({
+  open,
+  onOpenChange,
+  calendars,
+  defaultCalendarId,
+}: ICalExportDialogProps) {
+  const { t } = useTranslation();
+  const exportCalendar = useExportICalendar();
+  const { users } = useUsers({ page_size: 100 });
+
+  const [pickedCalendarId, setPickedCalendarId] = useState("");
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const calendarId =
+    pickedCalendarId || defaultCalendarId || calendars[0]?.id || "";
+  const calendar = calendars.find((item) => item.id === calendarId);
+
+  const handleExport = () => {
+    if (!calendar) return;
+    exportCalendar.mutate(
+      {
+        calendar,
+        start_date: startDate || undefined,
+        end_date: endDate || undefined,
+        users,
+      },
+      {
+        onSuccess: (content) => {
+          downloadICalendar(content, calendar.name);
+          showToast(t("calendar.ical.exported"), "success");
+          onOpenChange(false);
+        },
+        onError: () => {
+          showToast(t("calendar.ical.exportError"), "error");
+        },
+      }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[440px]">
+        <DialogHeader>
+          <DialogTitle>{t("calendar.ical.exportTitle")}</DialogTitle>
+          <DialogDescription>
+            {t("calendar.ical.exportDescription")}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="ical-export-calendar">
+              {t("calendar.ical.calendar")}
+            </Label>
+            <Select value={calendarId} onValueChange={setPickedCalendarId}>
+              <SelectTrigger id="ical-export-calendar">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {calendars.map((item) => (
+                  <SelectItem key={item.id} value={item.id}>
+                    {item.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="ical-export-from">
+                {t("calendar.ical.from")}
+              </Label>
+              <Input
+                id="ical-export-from"
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="ical-export-to">{t("calendar.ical.to")}</Label>
+              <Input
+                id="ical-export-to"
+                type="date"
+                value={endDate}
+                min={startDate || undefined}
+                onChange={(e) => setEndDate(e.target.value)}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {t("calendar.ical.rangeHint")}
+          </p>
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={exportCalendar.isPending}
+          >
+            {t("common.cancel")}
+          </Button>
+          <Button
+            onClick={handleExport}
+            disabled={!calendar || exportCalendar.isPending}
+          >
+            {exportCalendar.isPending
+              ? t("calendar.ical.exporting")
+              : t("calendar.ical.export")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
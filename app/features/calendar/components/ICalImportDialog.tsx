@@ -0,0 +1,335 @@
+/**
+ * ICalImportDialog component
+ * Reads an .ics file, previews its events with duplicates and overlaps
+ * against the target calendar, and creates the selected ones.
+ */
+
+import { useMemo, useState } from "react";
+import { format } from "date-fns";
+import { es, enUS } from "date-fns/locale";
+import { AlertTriangle, Bell, Repeat, Users } from "lucide-react";
+import { useTranslation } from "~/lib/i18n/useTranslation";
+import { showToast } from "~/components/common/Toast";
+import { Badge } from "~/components/ui/badge";
+import { Button } from "~/components/ui/button";
+import { Checkbox } from "~/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "~/components/ui/dialog";
+import { Label } from "~/components/ui/label";
+import { ScrollArea } from "~/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import {
+  useCalendarEventsInRange,
+  useImportICalendar,
+} from "~/features/calendar/hooks/useICalendar";
+import {
+  findImportConflicts,
+  parseICalendar,
+  type ICalParseResult,
+} from "~/features/calendar/utils/ical";
+import {
+  expandRecurringEvents,
+  formatRecurrence,
+} from "~/features/calendar/utils/recurrence";
+import type { Calendar } from "~/features/calendar/types/calendar.types";
+
+interface ICalImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  calendars: Calendar[];
+  defaultCalendarId?: string;
+}
+
+export function ICalImportDialog({
+  open,
+  onOpenChange,
+  calendars,
+  defaultCalendarId,
+}: ICalImportDialogProps) {
+  const { t, language } = useTranslation();
+  const dateLocale = language === "en" ? enUS : es;
+  const importEvents = useImportICalendar();
+
+  const [pickedCalendarId, setPickedCalendarId] = useState("");
+  const calendarId =
+    pickedCalendarId || defaultCalendarId || calendars[0]?.id || "";
+  const [parsed, setParsed] = useState<ICalParseResult | null>(null);
+  const [parseError, setParseError] = useState<string | null>(null);
+  // Rows toggled by the user; the rest follow the default (not duplicated)
+  const [selection, setSelection] = useState<Record<number, boolean>>({});
+
+  const range = useMemo(() => {
+    const events = parsed?.events ?? [];
+    if (events.length === 0) return null;
+    const starts = events.map((item) => new Date(item.event.start_time));
+    const ends = events.map((item) => new Date(item.event.end_time));
+    return {
+      start: new Date(Math.min(...starts.map(Number))),
+      end: new Date(Math.max(...ends.map(Number))),
+    };
+  }, [parsed]);
+
+  const { data: existingEvents = [] } = useCalendarEventsInRange(
+    calendarId,
+    range ? format(range.start, "yyyy-MM-dd") : "",
+    range ? format(range.end, "yyyy-MM-dd") : ""
+  );
+
+  const conflicts = useMemo(() => {
+    if (!parsed || !range) return [];
+    const existing = expandRecurringEvents(
+      existingEvents,
+      range.start,
+      range.end
+    );
+    return parsed.events.map((item) => findImportConflicts(item, existing));
+  }, [parsed, range, existingEvents]);
+
+  const isSelected = (index: number) =>
+    selection[index] ?? !conflicts[index]?.duplicateOf;
+  const selectedEvents = (parsed?.events ?? []).filter((_, index) =>
+    isSelected(index)
+  );
+
+  const reset = () => {
+    setParsed(null);
+    setParseError(null);
+    setSelection({});
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) reset();
+    onOpenChange(nextOpen);
+  };
+
+  const handleFileChange = async (file: File | undefined) => {
+    reset();
+    if (!file) return;
+    const text = await file.text();
+    if (!/BEGIN:VCALENDAR/i.test(text)) {
+      setParseError(t("calendar.ical.parseError"));
+      return;
+    }
+    setParsed(parseICalendar(text));
+  };
+
+  const handleImport = () => {
+    importEvents.mutate(
+      { calendarId, events: selectedEvents },
+      {
+        onSuccess: (result) => {
+          if (result.created > 0) {
+            showToast(
+              t("calendar.ical.imported").replace(
+                "{count}",
+                String(result.created)
+              ),
+              "success"
+            );
+          }
+          if (result.failed.length > 0) {
+            showToast(
+              t("calendar.ical.importFailed").replace(
+                "{count}",
+                String(result.failed.length)
+              ),
+              "error"
+            );
+            return;
+          }
+          handleOpenChange(false);
+        },
+      }
+    );
+  };
+
+  const formatWhen = (start: string, allDay?: boolean) =>
+    format(new Date(start), allDay ? "PP" : "PP p", { locale: dateLocale });
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[640px]">
+        <DialogHeader>
+          <DialogTitle>{t("calendar.ical.importTitle")}</DialogTitle>
+          <DialogDescription>
+            {t("calendar.ical.importDescription")}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="ical-import-file">{t("calendar.ical.file")}</Label>
+            <input
+              id="ical-import-file"
+              type="file"
+              accept=".ics,text/calendar"
+              onChange={(e) => void handleFileChange(e.target.files?.[0])}
+              className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm file:border-0 file:bg-transparent file:text-sm file:font-medium"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="ical-import-calendar">
+              {t("calendar.ical.calendar")}
+            </Label>
+            <Select value={calendarId} onValueChange={setPickedCalendarId}>
+              <SelectTrigger id="ical-import-calendar">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {calendars.map((calendar) => (
+                  <SelectItem key={calendar.id} value={calendar.id}>
+                    {calendar.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {parseError && <p className="text-sm text-destructive">{parseError}</p>}
+
+        {parsed && (
+          <div className="space-y-2">
+            {parsed.skipped > 0 && (
+              <p className="text-sm text-muted-foreground">
+                {t("calendar.ical.skipped").replace(
+                  "{count}",
+                  String(parsed.skipped)
+                )}
+              </p>
+            )}
+            {parsed.events.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                {t("calendar.ical.noEvents")}
+              </p>
+            ) : (
+              <ScrollArea className="h-72 rounded-md border">
+                <ul className="divide-y">
+                  {parsed.events.map((item, index) => {
+                    const conflict = conflicts[index];
+                    return (
+                      <li
+                        key={`${item.uid}-${index}`}
+                        className="flex items-start gap-3 p-3"
+                      >
+                        <Checkbox
+                          id={`ical-import-event-${index}`}
+                          checked={isSelected(index)}
+                          onCheckedChange={(checked) =>
+                            setSelection((prev) => ({
+                              ...prev,
+                              [index]: checked === true,
+                            }))
+                          }
+                        />
+                        <div className="min-w-0 flex-1 space-y-1">
+                          <Label
+                            htmlFor={`ical-import-event-${index}`}
+                            className="block truncate font-medium"
+                          >
+                            {item.event.title}
+                          </Label>
+                          <p className="text-xs text-muted-foreground">
+                            {formatWhen(
+                              item.event.start_time,
+                              item.event.all_day
+                            )}
+                            {item.event.all_day &&
+                              ` · ${t("calendar.events.allDay")}`}
+                          </p>
+                          <div className="flex flex-wrap gap-1">
+                            {item.event.recurrence_rule && (
+                              <Badge variant="secondary" className="gap-1">
+                                <Repeat className="h-3 w-3" />
+                                {formatRecurrence(
+                                  item.event.recurrence_rule,
+                                  t
+                                )}
+                              </Badge>
+                            )}
+                            {item.reminders.length > 0 && (
+                              <Badge variant="outline" className="gap-1">
+                                <Bell className="h-3 w-3" />
+                                {t("calendar.ical.reminders").replace(
+                                  "{count}",
+                                  String(item.reminders.length)
+                                )}
+                              </Badge>
+                            )}
+                            {item.attendees.length > 0 && (
+                              <Badge variant="outline" className="gap-1">
+                                <Users className="h-3 w-3" />
+                                {t("calendar.ical.attendees").replace(
+                                  "{count}",
+                                  String(item.attendees.length)
+                                )}
+                              </Badge>
+                            )}
+                            {conflict?.duplicateOf && (
+                              <Badge variant="destructive">
+                                {t("calendar.ical.duplicate")}
+                              </Badge>
+                            )}
+                            {conflict && conflict.overlaps.length > 0 && (
+                              <Badge
+                                variant="outline"
+                                className="gap-1 border-amber-500 text-amber-600"
+                              >
+                                <AlertTriangle className="h-3 w-3" />
+                                {t("calendar.ical.overlaps").replace(
+                                  "{count}",
+                                  String(conflict.overlaps.length)
+                                )}
+                              </Badge>
+                            )}
+                          </div>
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ul>
+              </ScrollArea>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => handleOpenChange(false)}
+            disabled={importEvents.isPending}
+          >
+            {t("common.cancel")}
+          </Button>
+          <Button
+            onClick={handleImport}
+            disabled={
+              !calendarId ||
+              selectedEvents.length === 0 ||
+              importEvents.isPending
+            }
+          >
+            {importEvents.isPending
+              ? t("calendar.ical.importing")
+              : t("calendar.ical.importSelected").replace(
+                  "{count}",
+                  String(selectedEvents.length)
+                )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,106 @@
+/**
+ * RecurrenceScopeDialog component
+ * Asks which occurrences of a recurring event an edit or delete applies to:
+ * only this one, this and the following ones, or all of them.
+ */
+
+import { useEffect, useState } from "react";
+import { useTranslation } from "~/lib/i18n/useTranslation";
+import { Button } from "~/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "~/components/ui/dialog";
+import { Label } from "~/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "~/components/ui/radio-group";
+import type { RecurrenceEditScope } from "~/features/calendar/types/calendar.types";
+
+const SCOPES: RecurrenceEditScope[] = ["this", "following", "all"];
+
+export interface RecurrenceScopeDialogProps {
+  open: boolean;
+  mode: "edit" | "delete";
+  onConfirm: (scope: RecurrenceEditScope) => void;
+  onCancel: () => void;
+  isSaving?: boolean;
+}
+
+export function RecurrenceScopeDialog({
+  open,
+  mode,
+  onConfirm,
+  onCancel,
+  isSaving = false,
+}: RecurrenceScopeDialogProps) {
+  const { t } = useTranslation();
+  const [scope, setScope] = useState<RecurrenceEditScope>("this");
+
+  useEffect(() => {
+    if (open) setScope("this");
+  }, [open]);
+
+  const isDelete = mode === "delete";
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(nextOpen) => {
+        if (!nextOpen && !isSaving) onCancel();
+      }}
+    >
+      <DialogContent className="sm:max-w-[420px]">
+        <DialogHeader>
+          <DialogTitle>
+            {isDelete
+              ? t("calendar.recurrenceScope.deleteTitle")
+              : t("calendar.recurrenceScope.editTitle")}
+          </DialogTitle>
+          <DialogDescription>
+            {isDelete
+              ? t("calendar.recurrenceScope.deleteDescription")
+              : t("calendar.recurrenceScope.editDescription")}
+          </DialogDescription>
+        </DialogHeader>
+        <RadioGroup
+          value={scope}
+          onValueChange={(value) => setScope(value as RecurrenceEditScope)}
+          className="py-2"
+        >
+          {SCOPES.map((option) => (
+            <div key={option} className="flex items-center gap-2">
+              <RadioGroupItem
+                value={option}
+                id={`recurrence-scope-${option}`}
+              />
+              <Label htmlFor={`recurrence-scope-${option}`}>
+                {t(`calendar.recurrenceScope.${option}`)}
+              </Label>
+            </div>
+          ))}
+        </RadioGroup>
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel} disabled={isSaving}>
+            {t("common.cancel")}
+          </Button>
+          <Button
+            variant={isDelete ? "destructive" : "default"}
+            onClick={() => onConfirm(scope)}
+            disabled={isSaving}
+          >
+            {isDelete
+              ? isSaving
+                ? t("common.deleting")
+                : t("common.delete")
+              : isSaving
+                ? t("common.saving")
+                : t("common.save")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,206 @@
+/**
+ * ResourceBookingDialog component
+ * Books a room or piece of equipment for the time range selected on the
+ * resource timeline: creates the event and assigns the resource to it.
+ */
+
+import { useState } from "react";
+import { AlertTriangleIcon } from "lucide-react";
+import { useTranslation } from "~/lib/i18n/useTranslation";
+import { showToast } from "~/components/common/Toast";
+import { Button } from "~/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "~/components/ui/dialog";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import { useCreateEvent } from "~/features/calendar/hooks/useCalendar";
+import { useAssignResourceToEvent } from "~/features/calendar/hooks/useResources";
+import type {
+  Calendar,
+  CalendarEvent,
+  CalendarResource,
+} from "~/features/calendar/types/calendar.types";
+
+export interface ResourceBookingRequest {
+  resource: CalendarResource;
+  /** Booked range, as UTC ISO strings */
+  startTime: string;
+  endTime: string;
+  /** Range as shown on the timeline, e.g. "09:00 – 10:30" */
+  timeLabel: string;
+}
+
+interface ResourceBookingDialogProps {
+  booking: ResourceBookingRequest | null;
+  onOpenChange: (open: boolean) => void;
+  calendars: Calendar[];
+  /** Time zone the event is scheduled in */
+  timeZone?: string;
+  /** True while the resource availability is being checked */
+  checking?: boolean;
+  /** Bookings of the resource that overlap the selected range */
+  conflicts: CalendarEvent[];
+  /** Result of the availability check, false when the resource is taken */
+  available?: boolean;
+  onBooked?: (event: CalendarEvent) => void;
+}
+
+export function ResourceBookingDialog({
+  booking,
+  onOpenChange,
+  calendars,
+  timeZone,
+  checking = false,
+  conflicts,
+  available = true,
+  onBooked,
+}: ResourceBookingDialogProps) {
+  const { t } = useTranslation();
+  const createEvent = useCreateEvent();
+  const assignResource = useAssignResourceToEvent();
+
+  const [title, setTitle] = useState("");
+  const [pickedCalendarId, setPickedCalendarId] = useState("");
+  const calendarId =
+    pickedCalendarId ||
+    calendars.find((calendar) => calendar.is_default)?.id ||
+    calendars[0]?.id ||
+    "";
+
+  const hasConflict = !available || conflicts.length > 0;
+  const isSaving = createEvent.isPending || assignResource.isPending;
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) setTitle("");
+    onOpenChange(open);
+  };
+
+  const handleBook = async () => {
+    if (!booking || !calendarId || hasConflict) return;
+    const { resource } = booking;
+    try {
+      const created = await createEvent.mutateAsync({
+        calendar_id: calendarId,
+        title: title.trim() || resource.name,
+        start_time: booking.startTime,
+        end_time: booking.endTime,
+        all_day: false,
+        timezone: timeZone ?? null,
+        location: resource.resource_type === "room" ? resource.name : undefined,
+      });
+      await assignResource.mutateAsync({
+        eventId: created.data.id,
+        data: { resource_id: resource.id },
+      });
+      showToast(
+        t("calendar.resources.booked").replace("{resource}", resource.name),
+        "success"
+      );
+      onBooked?.(created.data);
+      handleOpenChange(false);
+    } catch {
+      showToast(t("calendar.resources.bookError"), "error");
+    }
+  };
+
+  return (
+    <Dialog open={!!booking} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[440px]">
+        <DialogHeader>
+          <DialogTitle>
+            {t("calendar.resources.bookTitle").replace(
+              "{resource}",
+              booking?.resource.name ?? ""
+            )}
+          </DialogTitle>
+          <DialogDescription>{booking?.timeLabel}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="resource-booking-title">
+              {t("calendar.events.title")}
+            </Label>
+            <Input
+              id="resource-booking-title"
+              value={title}
+              placeholder={booking?.resource.name}
+              onChange={(e) => setTitle(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="resource-booking-calendar">
+              {t("calendar.events.calendar")}
+            </Label>
+            <Select value={calendarId} onValueChange={setPickedCalendarId}>
+              <SelectTrigger id="resource-booking-calendar">
+                <SelectValue
+                  placeholder={t("calendar.events.calendarPlaceholder")}
+                />
+              </SelectTrigger>
+              <SelectContent>
+                {calendars.map((calendar) => (
+                  <SelectItem key={calendar.id} value={calendar.id}>
+                    {calendar.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {checking ? (
+            <p className="text-sm text-muted-foreground">
+              {t("calendar.resources.checking")}
+            </p>
+          ) : (
+            hasConflict && (
+              <div
+                role="alert"
+                className="flex gap-2 rounded-md border border-destructive/50 bg-destructive/10 p-3 text-sm text-destructive"
+              >
+                <AlertTriangleIcon className="h-4 w-4 shrink-0" />
+                <div>
+                  <p className="font-medium">
+                    {t("calendar.resources.unavailable")}
+                  </p>
+                  {conflicts.length > 0 && (
+                    <ul className="mt-1 list-disc pl-4">
+                      {conflicts.map((event) => (
+                        <li key={event.id}>{event.title}</li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              </div>
+            )
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            {t("common.cancel")}
+          </Button>
+          <Button
+            onClick={() => void handleBook()}
+            disabled={!calendarId || checking || hasConflict || isSaving}
+          >
+            {isSaving ? t("common.saving") : t("calendar.resources.book")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,473 @@
+/**
+ * ResourceTimelineView component
+ * One-day timeline with rooms and equipment as rows and time as columns.
+ * Dragging over a row books the resource; double bookings are highlighted.
+ */
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { addDays, format, isSameDay, startOfDay } from "date-fns";
+import { enUS, es } from "date-fns/locale";
+import { AlertTriangleIcon } from "lucide-react";
+import { useTranslation } from "~/lib/i18n/useTranslation";
+import { cn } from "~/lib/utils";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import {
+  useCheckResourceAvailability,
+  useEventsResources,
+  useResources,
+} from "~/features/calendar/hooks/useResources";
+import {
+  ResourceBookingDialog,
+  type ResourceBookingRequest,
+} from "~/features/calendar/components/ResourceBookingDialog";
+import {
+  RESOURCE_SLOTS_PER_DAY,
+  RESOURCE_SLOT_MINUTES,
+  filterResources,
+  findBookingConflicts,
+  getOverlappingBookings,
+  getResourceBookings,
+  getSlotRange,
+} from "~/features/calendar/utils/resourceTimeline";
+import { getRecurrenceMasterId } from "~/features/calendar/utils/recurrence";
+import {
+  fromZonedTime,
+  getLocalTimeZone,
+  toZonedTime,
+} from "~/features/calendar/utils/timezone";
+import type {
+  Calendar,
+  CalendarEvent,
+  ResourceType,
+} from "~/features/calendar/types/calendar.types";
+
+const RESOURCE_TYPES: ResourceType[] = ["room", "equipment", "user"];
+const ALL_RESOURCE_TYPES = "all";
+const SLOT_WIDTH = 32;
+const RESOURCE_COLUMN_WIDTH = 200;
+// Primera hora visible al abrir la vista
+const INITIAL_SCROLL_HOUR = 8;
+
+interface ResourceTimelineViewProps {
+  /** Events as drawn: zoned dates of `timeZone` when it is set */
+  events: CalendarEvent[];
+  calendars: Calendar[];
+  currentDate: Date;
+  /** Zone the dates are drawn in, undefined for the browser's */
+  timeZone?: string;
+  onEventClick?: (event: CalendarEvent, mouseEvent?: React.MouseEvent) => void;
+  getEventColor: (event: CalendarEvent) => string;
+}
+
+interface SlotSelection {
+  resourceId: string;
+  from: number;
+  to: number;
+}
+
+export function ResourceTimelineView({
+  events,
+  calendars,
+  currentDate,
+  timeZone,
+  onEventClick,
+  getEventColor,
+}: ResourceTimelineViewProps) {
+  const { t, language } = useTranslation();
+  const dateLocale = language === "en" ? enUS : es;
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  const [resourceType, setResourceType] = useState<ResourceType | null>(null);
+  const [minCapacity, setMinCapacity] = useState("");
+  const [selection, setSelection] = useState<SlotSelection | null>(null);
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [booking, setBooking] = useState<ResourceBookingRequest | null>(null);
+  const [available, setAvailable] = useState(true);
+
+  const { data: resourcesData, isLoading: resourcesLoading } = useResources({
+    resource_type: resourceType ?? undefined,
+    is_active: true,
+    page_size: 100,
+  });
+  const checkAvailability = useCheckResourceAvailability();
+
+  const resources = filterResources(resourcesData?.data ?? [], {
+    resourceType,
+    minCapacity: Number(minCapacity) || null,
+  });
+
+  const dayEvents = useMemo(() => {
+    const dayStart = startOfDay(currentDate);
+    const dayEnd = addDays(dayStart, 1);
+    return events.filter(
+      (event) =>
+        new Date(event.start_time) < dayEnd &&
+        new Date(event.end_time) > dayStart
+    );
+  }, [events, currentDate]);
+
+  // Los recursos se asignan a la serie, no a cada ocurrencia
+  const masterIds = useMemo(
+    () => Array.from(new Set(dayEvents.map(getRecurrenceMasterId))),
+    [dayEvents]
+  );
+  const { resourceIdsByEvent: resourceIdsByMaster } =
+    useEventsResources(masterIds);
+  const resourceIdsByEvent = new Map<string, string[]>();
+  dayEvents.forEach((event) => {
+    const resourceIds = resourceIdsByMaster.get(getRecurrenceMasterId(event));
+    if (resourceIds) resourceIdsByEvent.set(event.id, resourceIds);
+  });
+
+  const bookings = getResourceBookings(
+    dayEvents,
+    resourceIdsByEvent,
+    currentDate
+  );
+  const conflicts = findBookingConflicts(bookings);
+
+  const toInstant = (date: Date) =>
+    timeZone ? fromZonedTime(date, timeZone) : date;
+  const nowDate = timeZone ? toZonedTime(new Date(), timeZone) : new Date();
+  const showNow = isSameDay(currentDate, nowDate);
+  const nowOffset =
+    (nowDate.getHours() * 60 + nowDate.getMinutes()) / (24 * 60);
+
+  useEffect(() => {
+    if (scrollRef.current) {
+      scrollRef.current.scrollLeft =
+        INITIAL_SCROLL_HOUR * (60 / RESOURCE_SLOT_MINUTES) * SLOT_WIDTH;
+    }
+  }, []);
+
+  // Soltar el ratón fuera de la fila cancela la selección
+  useEffect(() => {
+    if (!isSelecting) return;
+    const handleMouseUp = () => {
+      setIsSelecting(false);
+      setSelection(null);
+    };
+    window.addEventListener("mouseup", handleMouseUp);
+    return () => window.removeEventListener("mouseup", handleMouseUp);
+  }, [isSelecting]);
+
+  const selectionRange = selection
+    ? getSlotRange(currentDate, selection.from, selection.to)
+    : null;
+  const selectionOverlaps =
+    selection && selectionRange
+      ? getOverlappingBookings(
+          bookings.get(selection.resourceId) ?? [],
+          selectionRange.start,
+          selectionRange.end
+        ).map((item) => item.event)
+      : [];
+  const selectionHasConflict =
+    selectionOverlaps.length > 0 ||
+    (!!booking && !checkAvailability.isPending && !available);
+
+  const handleSlotMouseDown = (
+    resourceId: string,
+    slot: number,
+    mouseEvent: React.MouseEvent
+  ) => {
+    if (mouseEvent.button !== 0 || booking) return;
+    mouseEvent.preventDefault();
+    setSelection({ resourceId, from: slot, to: slot });
+    setIsSelecting(true);
+  };
+
+  const handleSlotMouseEnter = (resourceId: string, slot: number) => {
+    if (!isSelecting || selection?.resourceId !== resourceId) return;
+    setSelection({ ...selection, to: slot });
+  };
+
+  const handleSlotMouseUp = (mouseEvent: React.MouseEvent) => {
+    if (!isSelecting || !selection || !selectionRange) return;
+    // Evita que el listener de window cancele la selección terminada
+    mouseEvent.stopPropagation();
+    setIsSelecting(false);
+    const resource = resources.find((item) => item.id === selection.resourceId);
+    if (!resource) {
+      setSelection(null);
+      return;
+    }
+
+    const startTime = toInstant(selectionRange.start).toISOString();
+    const endTime = toInstant(selectionRange.end).toISOString();
+    setAvailable(true);
+    setBooking({
+      resource,
+      startTime,
+      endTime,
+      timeLabel: `${format(selectionRange.start, "PPP", { locale: dateLocale })}, ${format(selectionRange.start, "HH:mm")} – ${format(selectionRange.end, "HH:mm")}`,
+    });
+    checkAvailability.mutate(
+      { resourceId: resource.id, startTime, endTime },
+      { onSuccess: (result) => setAvailable(result.available) }
+    );
+  };
+
+  const handleBookingOpenChange = (open: boolean) => {
+    if (open) return;
+    setBooking(null);
+    setSelection(null);
+  };
+
+  const hours = Array.from({ length: 24 }, (_, hour) => hour);
+  const slots = Array.from(
+    { length: RESOURCE_SLOTS_PER_DAY },
+    (_, slot) => slot
+  );
+  const timelineWidth = RESOURCE_SLOTS_PER_DAY * SLOT_WIDTH;
+  const slotLabel = (slot: number) =>
+    format(new Date(2000, 0, 1, 0, slot * RESOURCE_SLOT_MINUTES), "HH:mm");
+
+  return (
+    <div className="space-y-3">
+      {/* Filtros */}
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="resource-type-filter" className="text-xs">
+            {t("calendar.resources.type")}
+          </Label>
+          <Select
+            value={resourceType ?? ALL_RESOURCE_TYPES}
+            onValueChange={(value) =>
+              setResourceType(
+                value === ALL_RESOURCE_TYPES ? null : (value as ResourceType)
+              )
+            }
+          >
+            <SelectTrigger id="resource-type-filter" className="h-8 w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_RESOURCE_TYPES}>
+                {t("calendar.resources.allTypes")}
+              </SelectItem>
+              {RESOURCE_TYPES.map((type) => (
+                <SelectItem key={type} value={type}>
+                  {t(`calendar.resources.types.${type}`)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="resource-capacity-filter" className="text-xs">
+            {t("calendar.resources.minCapacity")}
+          </Label>
+          <Input
+            id="resource-capacity-filter"
+            type="number"
+            min={1}
+            className="h-8 w-28"
+            value={minCapacity}
+            onChange={(e) => setMinCapacity(e.target.value)}
+          />
+        </div>
+        <p className="text-xs text-muted-foreground sm:ml-auto">
+          {t("calendar.resources.dragHint")}
+        </p>
+      </div>
+
+      <div
+        ref={scrollRef}
+        className="overflow-x-auto rounded-md border border-border/60"
+      >
+        <div
+          role="grid"
+          aria-label={t("calendar.views.resources")}
+          className="select-none"
+          style={{ width: RESOURCE_COLUMN_WIDTH + timelineWidth }}
+        >
+          {/* Horas */}
+          <div
+            role="row"
+            className="flex border-b border-border/60 bg-muted/40"
+          >
+            <div
+              role="columnheader"
+              className="sticky left-0 z-20 shrink-0 border-r border-border/60 bg-muted px-3 py-2 text-xs font-medium"
+              style={{ width: RESOURCE_COLUMN_WIDTH }}
+            >
+              {format(currentDate, "EEEE d MMM", { locale: dateLocale })}
+            </div>
+            {hours.map((hour) => (
+              <div
+                key={hour}
+                role="columnheader"
+                className="shrink-0 border-r border-border/40 px-1 py-2 text-[10px] text-muted-foreground"
+                style={{ width: SLOT_WIDTH * (60 / RESOURCE_SLOT_MINUTES) }}
+              >
+                {slotLabel(hour * (60 / RESOURCE_SLOT_MINUTES))}
+              </div>
+            ))}
+          </div>
+
+          {resourcesLoading && (
+            <div className="px-3 py-6 text-sm text-muted-foreground">
+              {t("calendar.loading")}
+            </div>
+          )}
+          {!resourcesLoading && resources.length === 0 && (
+            <div className="px-3 py-6 text-sm text-muted-foreground">
+              {t("calendar.resources.empty")}
+            </div>
+          )}
+
+          {resources.map((resource) => {
+            const resourceBookings = bookings.get(resource.id) ?? [];
+            const hasConflicts = resourceBookings.some((item) =>
+              conflicts.has(item.event.id)
+            );
+            const isSelectedRow = selection?.resourceId === resource.id;
+
+            return (
+              <div
+                key={resource.id}
+                role="row"
+                aria-label={resource.name}
+                className="flex border-b border-border/40 last:border-b-0"
+              >
+                <div
+                  role="rowheader"
+                  className="sticky left-0 z-20 flex shrink-0 items-center gap-2 border-r border-border/60 bg-background px-3 py-2"
+                  style={{ width: RESOURCE_COLUMN_WIDTH }}
+                >
+                  <span
+                    className="h-2.5 w-2.5 shrink-0 rounded-full"
+                    style={{ backgroundColor: resource.color || "#023E87" }}
+                  />
+                  <div className="min-w-0 flex-1">
+                    <div className="truncate text-sm font-medium">
+                      {resource.name}
+                    </div>
+                    <div className="text-[10px] text-muted-foreground">
+                      {t(`calendar.resources.types.${resource.resource_type}`)}
+                      {resource.capacity
+                        ? ` · ${t("calendar.resources.capacity").replace("{count}", String(resource.capacity))}`
+                        : ""}
+                    </div>
+                  </div>
+                  {hasConflicts && (
+                    <AlertTriangleIcon
+                      className="h-4 w-4 shrink-0 text-destructive"
+                      aria-label={t("calendar.resources.conflict")}
+                    />
+                  )}
+                </div>
+
+                <div
+                  className="relative h-12 shrink-0"
+                  style={{ width: timelineWidth }}
+                >
+                  <div className="absolute inset-0 flex">
+                    {slots.map((slot) => (
+                      <div
+                        key={slot}
+                        role="gridcell"
+                        aria-label={`${resource.name} ${slotLabel(slot)}`}
+                        className={cn(
+                          "h-full shrink-0 cursor-pointer hover:bg-primary/5",
+                          slot % 2 === 1
+                            ? "border-r border-border/40"
+                            : "border-r border-dashed border-border/20"
+                        )}
+                        style={{ width: SLOT_WIDTH }}
+                        onMouseDown={(e) =>
+                          handleSlotMouseDown(resource.id, slot, e)
+                        }
+                        onMouseEnter={() =>
+                          handleSlotMouseEnter(resource.id, slot)
+                        }
+                        onMouseUp={handleSlotMouseUp}
+                      />
+                    ))}
+                  </div>
+
+                  {resourceBookings.map((item) => {
+                    const isConflict = conflicts.has(item.event.id);
+                    const color = getEventColor(item.event);
+                    return (
+                      <button
+                        key={item.event.id}
+                        type="button"
+                        title={
+                          isConflict
+                            ? `${item.event.title} · ${t("calendar.resources.conflict")}`
+                            : item.event.title
+                        }
+                        className={cn(
+                          "absolute top-1.5 bottom-1.5 z-10 overflow-hidden rounded px-2 text-left text-xs font-medium text-white shadow-sm transition hover:opacity-90",
+                          isConflict &&
+                            "ring-2 ring-destructive ring-offset-1 ring-offset-background"
+                        )}
+                        style={{
+                          left: `${item.offset * 100}%`,
+                          width: `${item.width * 100}%`,
+                          backgroundColor: color,
+                        }}
+                        onMouseDown={(e) => e.stopPropagation()}
+                        onClick={(e) => onEventClick?.(item.event, e)}
+                      >
+                        <span className="block truncate">
+                          {format(item.start, "HH:mm")} {item.event.title}
+                        </span>
+                      </button>
+                    );
+                  })}
+
+                  {isSelectedRow && selectionRange && (
+                    <div
+                      data-conflict={selectionHasConflict || undefined}
+                      className={cn(
+                        "pointer-events-none absolute top-0.5 bottom-0.5 z-10 rounded border-2",
+                        selectionHasConflict
+                          ? "border-destructive bg-destructive/20"
+                          : "border-primary bg-primary/15"
+                      )}
+                      style={{
+                        left:
+                          Math.min(selection.from, selection.to) * SLOT_WIDTH,
+                        width:
+                          (Math.abs(selection.to - selection.from) + 1) *
+                          SLOT_WIDTH,
+                      }}
+                    />
+                  )}
+
+                  {showNow && (
+                    <div
+                      className="pointer-events-none absolute top-0 bottom-0 z-10 w-0.5 bg-red-500"
+                      style={{ left: `${nowOffset * 100}%` }}
+                    />
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <ResourceBookingDialog
+        booking={booking}
+        onOpenChange={handleBookingOpenChange}
+        calendars={calendars}
+        timeZone={timeZone ?? getLocalTimeZone()}
+        checking={checkAvailability.isPending}
+        conflicts={selectionOverlaps}
+        available={available}
+      />
+    </div>
+  );
+}
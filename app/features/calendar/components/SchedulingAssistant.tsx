@@ -0,0 +1,368 @@
+/**
+ * SchedulingAssistant component
+ * Shows the attendees' and rooms' busy time on a shared grid and suggests
+ * the earliest slots that work for everyone required.
+ */
+
+import { useState } from "react";
+import {
+  addDays,
+  differenceInMinutes,
+  format,
+  max as maxDate,
+  startOfDay,
+  startOfWeek,
+  subDays,
+} from "date-fns";
+import { enUS, es } from "date-fns/locale";
+import { ChevronLeftIcon, ChevronRightIcon } from "lucide-react";
+import { useTranslation } from "~/lib/i18n/useTranslation";
+import { cn } from "~/lib/utils";
+import { Button } from "~/components/ui/button";
+import { MultiSelect } from "~/components/ui/multi-select";
+import {
+  useAttendeeAvailability,
+  useRoomBookings,
+} from "~/features/calendar/hooks/useSchedulingAvailability";
+import { useResources } from "~/features/calendar/hooks/useResources";
+import {
+  DEFAULT_WORKING_HOURS,
+  agendaItemsToBusyBlocks,
+  findFreeSlots,
+  roomBookingsToBusyBlocks,
+  type BusyBlock,
+  type SlotSuggestion,
+} from "~/features/calendar/utils/schedulingAssistant";
+import { toZonedTime } from "~/features/calendar/utils/timezone";
+import type { CalendarResource } from "~/features/calendar/types/calendar.types";
+
+// Días buscados a partir del lunes de la semana mostrada
+const SEARCH_DAYS = 14;
+const GRID_START_HOUR = 7;
+const GRID_END_HOUR = 20;
+const DEFAULT_DURATION_MINUTES = 60;
+
+export interface SchedulingAttendee {
+  id: string;
+  name: string;
+}
+
+interface SchedulingAssistantProps {
+  attendees: SchedulingAttendee[];
+  optionalAttendeeIds: string[];
+  onOptionalAttendeeIdsChange: (ids: string[]) => void;
+  /** Proposed start and end, as zoned dates of `timeZone` */
+  start: Date | null;
+  end: Date | null;
+  /** Zone the times are entered in, undefined for the browser's */
+  timeZone?: string;
+  /** Event being edited, so it doesn't block its own time */
+  excludeEventId?: string;
+  onSelect: (slot: { start: Date; end: Date; room?: CalendarResource }) => void;
+}
+
+interface GridRow {
+  id: string;
+  label: string;
+  kind: "required" | "optional" | "room";
+  busy: BusyBlock[];
+}
+
+export function SchedulingAssistant({
+  attendees,
+  optionalAttendeeIds,
+  onOptionalAttendeeIdsChange,
+  start,
+  end,
+  timeZone,
+  excludeEventId,
+  onSelect,
+}: SchedulingAssistantProps) {
+  const { t, language } = useTranslation();
+  const dateLocale = language === "en" ? enUS : es;
+  const [day, setDay] = useState(() => startOfDay(start ?? new Date()));
+  const [roomIds, setRoomIds] = useState<string[]>([]);
+
+  const toDisplayTime = (date: Date) =>
+    timeZone ? toZonedTime(date, timeZone) : date;
+
+  const rangeStart = startOfWeek(day, { weekStartsOn: 1 });
+  const rangeEnd = addDays(rangeStart, SEARCH_DAYS);
+  // Un día de margen para cubrir la diferencia con la zona del evento
+  const range = {
+    start_date: format(subDays(rangeStart, 1), "yyyy-MM-dd"),
+    end_date: format(addDays(rangeEnd, 1), "yyyy-MM-dd"),
+  };
+
+  const attendeeIds = attendees.map((attendee) => attendee.id);
+  const { agendaByUser, isLoading: attendeesLoading } = useAttendeeAvailability(
+    attendeeIds,
+    range
+  );
+  const { data: roomsData } = useResources({
+    resource_type: "room",
+    is_active: true,
+    page_size: 100,
+  });
+  const rooms = roomsData?.data ?? [];
+  const { bookingsByRoom, isLoading: roomsLoading } = useRoomBookings(
+    roomIds,
+    range
+  );
+  const isLoading = attendeesLoading || roomsLoading;
+
+  const toBusy = (blocks: BusyBlock[]) =>
+    blocks.map((block) => ({
+      ...block,
+      start: toDisplayTime(block.start),
+      end: toDisplayTime(block.end),
+    }));
+
+  const attendeeRows: GridRow[] = attendees.map((attendee) => ({
+    id: attendee.id,
+    label: attendee.name,
+    kind: optionalAttendeeIds.includes(attendee.id) ? "optional" : "required",
+    busy: toBusy(
+      agendaItemsToBusyBlocks(
+        agendaByUser.get(attendee.id) ?? [],
+        excludeEventId
+      )
+    ),
+  }));
+  const roomRows: GridRow[] = rooms
+    .filter((room) => roomIds.includes(room.id))
+    .map((room) => ({
+      id: room.id,
+      label: room.name,
+      kind: "room",
+      busy: toBusy(
+        roomBookingsToBusyBlocks(
+          bookingsByRoom.get(room.id) ?? [],
+          subDays(rangeStart, 1),
+          addDays(rangeEnd, 1),
+          excludeEventId,
+          timeZone
+        )
+      ),
+    }));
+
+  const durationMinutes =
+    start && end && end > start
+      ? differenceInMinutes(end, start)
+      : DEFAULT_DURATION_MINUTES;
+  const suggestions: SlotSuggestion[] = isLoading
+    ? []
+    : findFreeSlots({
+        from: maxDate([day, toDisplayTime(new Date())]),
+        to: rangeEnd,
+        durationMinutes,
+        attendees: attendeeRows.map((row) => ({
+          id: row.id,
+          required: row.kind === "required",
+          busy: row.busy,
+        })),
+        rooms: roomRows.map((row) => ({ id: row.id, busy: row.busy })),
+      });
+
+  const toggleOptional = (attendeeId: string) => {
+    onOptionalAttendeeIdsChange(
+      optionalAttendeeIds.includes(attendeeId)
+        ? optionalAttendeeIds.filter((id) => id !== attendeeId)
+        : [...optionalAttendeeIds, attendeeId]
+    );
+  };
+
+  const gridStart = new Date(day);
+  gridStart.setHours(GRID_START_HOUR, 0, 0, 0);
+  const gridMinutes = (GRID_END_HOUR - GRID_START_HOUR) * 60;
+  const position = (from: Date, to: Date) => {
+    const left = Math.max(0, differenceInMinutes(from, gridStart));
+    const right = Math.min(gridMinutes, differenceInMinutes(to, gridStart));
+    if (right <= left) return null;
+    return {
+      left: `${(left / gridMinutes) * 100}%`,
+      width: `${((right - left) / gridMinutes) * 100}%`,
+    };
+  };
+  const hours = Array.from(
+    { length: GRID_END_HOUR - GRID_START_HOUR },
+    (_, index) => GRID_START_HOUR + index
+  );
+  const proposed = start && end ? position(start, end) : null;
+
+  const renderRow = (row: GridRow) => (
+    <div key={`${row.kind}-${row.id}`} className="flex items-center gap-2">
+      <div className="flex w-40 shrink-0 items-center justify-between gap-1">
+        <span className="truncate text-xs">{row.label}</span>
+        {row.kind !== "room" && (
+          <button
+            type="button"
+            className={cn(
+              "shrink-0 rounded px-1.5 py-0.5 text-[10px] font-medium",
+              row.kind === "required"
+                ? "bg-primary/10 text-primary"
+                : "bg-muted text-muted-foreground"
+            )}
+            aria-label={`${row.label}: ${t(`calendar.scheduling.${row.kind}`)}`}
+            onClick={() => toggleOptional(row.id)}
+          >
+            {t(`calendar.scheduling.${row.kind}`)}
+          </button>
+        )}
+      </div>
+      <div className="relative h-6 flex-1 rounded bg-muted/30">
+        {row.busy.map((block, index) => {
+          const style = position(block.start, block.end);
+          if (!style) return null;
+          return (
+            <div
+              key={index}
+              title={block.title}
+              className={cn(
+                "absolute top-0.5 bottom-0.5 rounded-sm",
+                row.kind === "optional"
+                  ? "bg-muted-foreground/30"
+                  : "bg-muted-foreground/60"
+              )}
+              style={style}
+            />
+          );
+        })}
+        {proposed && (
+          <div
+            className="pointer-events-none absolute inset-y-0 rounded-sm border-2 border-primary"
+            style={proposed}
+          />
+        )}
+      </div>
+    </div>
+  );
+
+  const formatSuggestion = (suggestion: SlotSuggestion) => {
+    const label = `${format(suggestion.start, "EEE d MMM, HH:mm", { locale: dateLocale })} – ${format(suggestion.end, "HH:mm")}`;
+    const room = rooms.find((item) => item.id === suggestion.roomId);
+    return room ? `${label} · ${room.name}` : label;
+  };
+
+  return (
+    <div className="space-y-3 rounded-md border p-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          size="icon"
+          className="h-7 w-7"
+          aria-label={t("calendar.scheduling.previousDay")}
+          onClick={() => setDay((current) => subDays(current, 1))}
+        >
+          <ChevronLeftIcon className="h-4 w-4" />
+        </Button>
+        <span className="text-sm font-medium">
+          {format(day, "EEEE d MMMM", { locale: dateLocale })}
+        </span>
+        <Button
+          type="button"
+          variant="outline"
+          size="icon"
+          className="h-7 w-7"
+          aria-label={t("calendar.scheduling.nextDay")}
+          onClick={() => setDay((current) => addDays(current, 1))}
+        >
+          <ChevronRightIcon className="h-4 w-4" />
+        </Button>
+        <div className="ml-auto w-56">
+          <MultiSelect
+            options={rooms.map((room) => ({
+              value: room.id,
+              label: room.capacity
+                ? `${room.name} (${room.capacity})`
+                : room.name,
+            }))}
+            selected={roomIds}
+            onChange={setRoomIds}
+            placeholder={t("calendar.scheduling.rooms")}
+            label={t("calendar.scheduling.rooms")}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <div className="flex items-center gap-2">
+          <div className="w-40 shrink-0" />
+          <div className="flex flex-1">
+            {hours.map((hour) => (
+              <div
+                key={hour}
+                className={cn(
+                  "flex-1 text-[10px] text-muted-foreground",
+                  (hour < DEFAULT_WORKING_HOURS.startHour ||
+                    hour >= DEFAULT_WORKING_HOURS.endHour) &&
+                    "opacity-50"
+                )}
+              >
+                {String(hour).padStart(2, "0")}
+              </div>
+            ))}
+          </div>
+        </div>
+        {attendeeRows.length === 0 && roomRows.length === 0 ? (
+          <p className="py-2 text-xs text-muted-foreground">
+            {t("calendar.scheduling.noAttendees")}
+          </p>
+        ) : (
+          [...attendeeRows, ...roomRows].map(renderRow)
+        )}
+      </div>
+
+      <div className="space-y-1">
+        <p className="text-xs font-medium">
+          {t("calendar.scheduling.suggestions")}
+        </p>
+        {isLoading ? (
+          <p className="text-xs text-muted-foreground">
+            {t("calendar.scheduling.loading")}
+          </p>
+        ) : suggestions.length === 0 ? (
+          <p className="text-xs text-muted-foreground">
+            {t("calendar.scheduling.noSuggestions")}
+          </p>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            {suggestions.map((suggestion) => (
+              <Button
+                key={suggestion.start.getTime()}
+                type="button"
+                variant="outline"
+                size="sm"
+                className="h-auto flex-col items-start py-1 text-left"
+                onClick={() => {
+                  setDay(startOfDay(suggestion.start));
+                  onSelect({
+                    start: suggestion.start,
+                    end: suggestion.end,
+                    room: rooms.find((item) => item.id === suggestion.roomId),
+                  });
+                }}
+              >
+                <span className="text-xs">{formatSuggestion(suggestion)}</span>
+                {suggestion.unavailableOptional.length > 0 && (
+                  <span className="text-[10px] text-muted-foreground">
+                    {t("calendar.scheduling.optionalBusy").replace(
+                      "{names}",
+                      attendees
+                        .filter((attendee) =>
+                          suggestion.unavailableOptional.includes(attendee.id)
+                        )
+                        .map((attendee) => attendee.name)
+                        .join(", ")
+                    )}
+                  </span>
+                )}
+              </Button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+/**
+ * TimeZoneSelect component
+ * Picker for IANA time zones, labeled with their current UTC offset.
+ */
+
+import { useMemo } from "react";
+import { useTranslation } from "~/lib/i18n/useTranslation";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import {
+  formatTimeZoneLabel,
+  getTimeZoneNames,
+} from "~/features/calendar/utils/timezone";
+
+const NO_TIME_ZONE = "none";
+
+interface TimeZoneSelectProps {
+  value: string | null;
+  onValueChange: (timeZone: string | null) => void;
+  id?: string;
+  /** Adds a "none" option, selected when value is null */
+  allowNone?: boolean;
+  className?: string;
+  "aria-label"?: string;
+}
+
+export function TimeZoneSelect({
+  value,
+  onValueChange,
+  id,
+  allowNone = false,
+  className,
+  "aria-label": ariaLabel,
+}: TimeZoneSelectProps) {
+  const { t } = useTranslation();
+
+  const options = useMemo(() => {
+    const now = new Date();
+    const names = getTimeZoneNames();
+    // Keep zones the runtime doesn't list (e.g. legacy aliases) selectable
+    if (value && !names.includes(value)) names.unshift(value);
+    return names.map((timeZone) => ({
+      value: timeZone,
+      label: formatTimeZoneLabel(timeZone, now),
+    }));
+  }, [value]);
+
+  return (
+    <Select
+      value={value ?? NO_TIME_ZONE}
+      onValueChange={(next) =>
+        onValueChange(next === NO_TIME_ZONE ? null : next)
+      }
+    >
+      <SelectTrigger id={id} className={className} aria-label={ariaLabel}>
+        <SelectValue placeholder={t("calendar.timezone.placeholder")} />
+      </SelectTrigger>
+      <SelectContent className="max-h-72">
+        {allowNone && (
+          <SelectItem value={NO_TIME_ZONE}>
+            {t("calendar.timezone.none")}
+          </SelectItem>
+        )}
+        {options.map((option) => (
+          <SelectItem key={option.value} value={option.value}>
+            {option.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,148 @@
+/**
+ * YearView component
+ * Twelve mini-months with each day shaded by how many events it has.
+ * Clicking a day opens it in the day view.
+ */
+
+import { useMemo } from "react";
+import {
+  addMonths,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  endOfYear,
+  format,
+  isSameDay,
+  isSameMonth,
+  startOfMonth,
+  startOfWeek,
+  startOfYear,
+} from "date-fns";
+import { enUS, es } from "date-fns/locale";
+import { useTranslation } from "~/lib/i18n/useTranslation";
+import { cn } from "~/lib/utils";
+import {
+  countEventsByDay,
+  getDensityLevel,
+  type DensityLevel,
+} from "~/features/calendar/utils/calendarViews";
+import type { CalendarEvent } from "~/features/calendar/types/calendar.types";
+
+const DENSITY_CLASSES: Record<DensityLevel, string> = {
+  0: "text-foreground hover:bg-muted",
+  1: "bg-primary/15 text-foreground hover:bg-primary/25",
+  2: "bg-primary/35 text-foreground hover:bg-primary/45",
+  3: "bg-primary/60 text-primary-foreground hover:bg-primary/70",
+  4: "bg-primary text-primary-foreground hover:bg-primary/90",
+};
+
+interface YearViewProps {
+  events: CalendarEvent[];
+  currentDate: Date;
+  onDayClick: (day: Date) => void;
+  /** Today, in the zone the calendar is shown in */
+  today?: Date;
+}
+
+export function YearView({
+  events,
+  currentDate,
+  onDayClick,
+  today = new Date(),
+}: YearViewProps) {
+  const { t, language } = useTranslation();
+  const dateLocale = language === "en" ? enUS : es;
+
+  const year = currentDate.getFullYear();
+  const yearStart = startOfYear(currentDate);
+  const counts = useMemo(() => {
+    const start = new Date(year, 0, 1);
+    return countEventsByDay(events, start, endOfYear(start));
+  }, [events, year]);
+
+  const months = Array.from({ length: 12 }, (_, index) =>
+    addMonths(yearStart, index)
+  );
+  const weekdays = eachDayOfInterval({
+    start: startOfWeek(yearStart, { weekStartsOn: 1 }),
+    end: endOfWeek(yearStart, { weekStartsOn: 1 }),
+  });
+
+  const getDayLabel = (day: Date, count: number) => {
+    const eventsLabel =
+      count === 0
+        ? t("calendar.year.noEvents")
+        : count === 1
+          ? t("calendar.year.oneEvent")
+          : t("calendar.year.events").replace("{count}", String(count));
+    return `${format(day, "PPP", { locale: dateLocale })} · ${eventsLabel}`;
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
+        {months.map((month) => (
+          <section
+            key={month.toISOString()}
+            className="rounded-lg border border-border/60 p-3"
+          >
+            <h3 className="mb-2 text-sm font-semibold capitalize">
+              {format(month, "MMMM", { locale: dateLocale })}
+            </h3>
+            <div className="grid grid-cols-7 gap-0.5 text-center">
+              {weekdays.map((weekday) => (
+                <span
+                  key={weekday.toISOString()}
+                  className="text-[10px] font-medium uppercase text-muted-foreground"
+                >
+                  {format(weekday, "EEEEE", { locale: dateLocale })}
+                </span>
+              ))}
+              {eachDayOfInterval({
+                start: startOfWeek(startOfMonth(month), { weekStartsOn: 1 }),
+                end: endOfWeek(endOfMonth(month), { weekStartsOn: 1 }),
+              }).map((day) => {
+                if (!isSameMonth(day, month)) {
+                  return <span key={day.toISOString()} />;
+                }
+                const count = counts.get(format(day, "yyyy-MM-dd")) ?? 0;
+                const label = getDayLabel(day, count);
+                return (
+                  <button
+                    key={day.toISOString()}
+                    type="button"
+                    aria-label={label}
+                    title={label}
+                    className={cn(
+                      "aspect-square rounded text-[11px] tabular-nums transition-colors focus:outline-none focus-visible:ring-2 focus-visible:ring-primary/40",
+                      DENSITY_CLASSES[getDensityLevel(count)],
+                      isSameDay(day, today) &&
+                        "font-bold ring-1 ring-primary ring-offset-1"
+                    )}
+                    onClick={() => onDayClick(day)}
+                  >
+                    {format(day, "d")}
+                  </button>
+                );
+              })}
+            </div>
+          </section>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-end gap-1 text-xs text-muted-foreground">
+        <span>{t("calendar.year.less")}</span>
+        {([0, 1, 2, 3, 4] as DensityLevel[]).map((level) => (
+          <span
+            key={level}
+            className={cn(
+              "h-3 w-3 rounded-sm border border-border/60",
+              DENSITY_CLASSES[level]
+            )}
+          />
+        ))}
+        <span>{t("calendar.year.more")}</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+/**
+ * CalendarPrintDialog tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, fireEvent, waitFor } from "@testing-library/react";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { CalendarPrintDialog } from "~/features/calendar/components/CalendarPrintDialog";
+import type {
+  Calendar,
+  CalendarEvent,
+} from "~/features/calendar/types/calendar.types";
+
+const { listEvents } = vi.hoisted(() => ({ listEvents: vi.fn() }));
+
+vi.mock("~/lib/i18n/useTranslation", () => ({
+  useTranslation: () => ({
+    t: (key: string) => {
+      const translations: Record<string, string> = {
+        "calendar.print.print": "Print",
+        "calendar.print.pageOf": "Page {page} of {total}",
+        "calendar.print.pages": "{count} page(s)",
+      };
+      return translations[key] || key;
+    },
+    language: "en",
+  }),
+}));
+
+vi.mock("~/hooks/useThemeConfig", () => ({
+  useThemeConfig: () => ({
+    themeLight: { logo_primary: "/tenant-logo.png" },
+  }),
+}));
+
+vi.mock("~/features/calendar/api/calendar.api", () => ({ listEvents }));
+
+const makeCalendar = (id: string, name: string): Calendar => ({
+  id,
+  tenant_id: "tenant-1",
+  name,
+  color: "#10B981",
+  calendar_type: "user",
+  is_public: false,
+  is_default: false,
+  created_at: "2026-01-01T00:00:00Z",
+  updated_at: "2026-01-01T00:00:00Z",
+});
+
+const makeEvent = (id: string, calendarId: string, day: number) =>
+  ({
+    id,
+    title: id,
+    calendar_id: calendarId,
+    start_time: new Date(2026, 4, day, 9).toISOString(),
+    end_time: new Date(2026, 4, day, 10).toISOString(),
+    all_day: false,
+  }) as CalendarEvent;
+
+function renderDialog(
+  props: Partial<React.ComponentProps<typeof CalendarPrintDialog>> = {}
+) {
+  const queryClient = new QueryClient({
+    defaultOptions: { queries: { retry: false } },
+  });
+  return render(
+    <QueryClientProvider client={queryClient}>
+      <CalendarPrintDialog
+        open
+        onOpenChange={vi.fn()}
+        calendars={[
+          makeCalendar("work", "Work"),
+          makeCalendar("shifts", "Shifts"),
+        ]}
+        currentDate={new Date(2026, 4, 13)}
+        {...props}
+      />
+    </QueryClientProvider>
+  );
+}
+
+describe("CalendarPrintDialog", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    listEvents.mockResolvedValue({
+      data: [
+        makeEvent("Planning", "work", 12),
+        makeEvent("Night shift", "shifts", 14),
+      ],
+      meta: { total_pages: 1 },
+    });
+  });
+
+  it("previews the month of the current date with the tenant logo", async () => {
+    const { baseElement } = renderDialog();
+
+    expect(await screen.findAllByText("Planning")).not.toHaveLength(0);
+    expect(listEvents).toHaveBeenCalledWith(
+      expect.objectContaining({
+        start_date: "2026-04-30",
+        end_date: "2026-06-01",
+      })
+    );
+    expect(screen.getAllByText("Page 1 of 1")).not.toHaveLength(0);
+    expect(
+      baseElement.querySelector('img[src="/tenant-logo.png"]')
+    ).not.toBeNull();
+  });
+
+  it("leaves out the calendars that are not selected", async () => {
+    renderDialog();
+    await screen.findAllByText("Night shift");
+
+    fireEvent.click(screen.getByRole("checkbox", { name: "Shifts" }));
+
+    await waitFor(() =>
+      expect(screen.queryByText("Night shift")).not.toBeInTheDocument()
+    );
+    expect(screen.getAllByText("Planning")).not.toHaveLength(0);
+  });
+
+  it("opens the browser's print dialog with a print-only copy of the pages", async () => {
+    const print = vi.spyOn(window, "print").mockImplementation(() => {});
+    const { baseElement } = renderDialog({ defaultLayout: "agenda" });
+
+    const printButton = await screen.findByRole("button", { name: "Print" });
+    await waitFor(() => expect(printButton).toBeEnabled());
+    fireEvent.click(printButton);
+
+    expect(print).toHaveBeenCalled();
+    const printRoot = baseElement.querySelector(".calendar-print-root");
+    expect(
+      printRoot?.querySelector('[data-orientation="portrait"]')
+    ).not.toBeNull();
+    print.mockRestore();
+  });
+});
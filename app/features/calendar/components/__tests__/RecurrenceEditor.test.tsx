@@ -46,7 +46,9 @@ vi.mock("~/lib/i18n/useTranslation", () => ({
 }));
 
 // Mock date-fns
-vi.mock("date-fns", () => ({
+vi.mock("date-fns", async (importOriginal) => ({
+  // Keep the rest of date-fns for the RRULE expansion
+  ...(await importOriginal<typeof import("date-fns")>()),
   format: (date: Date, formatStr: string) => {
     if (formatStr === "PPP") {
       return date.toLocaleDateString();
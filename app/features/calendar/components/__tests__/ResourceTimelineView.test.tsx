@@ -0,0 +1,255 @@
+/**
+ * ResourceTimelineView tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, fireEvent, waitFor } from "@testing-library/react";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { ResourceTimelineView } from "~/features/calendar/components/ResourceTimelineView";
+import type {
+  Calendar,
+  CalendarEvent,
+  CalendarResource,
+} from "~/features/calendar/types/calendar.types";
+
+const { resourcesApi, createEvent } = vi.hoisted(() => ({
+  resourcesApi: {
+    getResources: vi.fn(),
+    getEventsResources: vi.fn(),
+    checkResourceAvailability: vi.fn(),
+    assignResourceToEvent: vi.fn(),
+  },
+  createEvent: vi.fn(),
+}));
+
+vi.mock("~/lib/i18n/useTranslation", () => ({
+  useTranslation: () => ({
+    t: (key: string) => {
+      const translations: Record<string, string> = {
+        "calendar.resources.minCapacity": "Min. capacity",
+        "calendar.resources.conflict": "Double booked",
+        "calendar.resources.unavailable": "Not available",
+        "calendar.resources.book": "Book",
+        "calendar.resources.bookTitle": "Book {resource}",
+        "calendar.events.title": "Event Title",
+      };
+      return translations[key] || key;
+    },
+    language: "en",
+  }),
+}));
+
+vi.mock("~/features/calendar/api/calendar-resources.api", () => ({
+  calendarResourcesApi: resourcesApi,
+}));
+
+vi.mock("~/features/calendar/hooks/useCalendar", () => ({
+  useCreateEvent: () => ({ mutateAsync: createEvent, isPending: false }),
+}));
+
+vi.mock("~/components/common/Toast", () => ({
+  showToast: vi.fn(),
+}));
+
+const makeResource = (
+  overrides: Partial<CalendarResource>
+): CalendarResource => ({
+  id: "room-a",
+  tenant_id: "tenant-1",
+  name: "Room A",
+  resource_type: "room",
+  capacity: 8,
+  is_active: true,
+  created_at: "2025-01-01T00:00:00Z",
+  updated_at: "2025-01-01T00:00:00Z",
+  ...overrides,
+});
+
+const makeEvent = (overrides: Partial<CalendarEvent>): CalendarEvent => ({
+  id: "event-1",
+  tenant_id: "tenant-1",
+  calendar_id: "calendar-1",
+  title: "Design review",
+  start_time: "2025-01-15T09:00:00.000Z",
+  end_time: "2025-01-15T10:00:00.000Z",
+  all_day: false,
+  status: "confirmed",
+  recurrence_type: "none",
+  recurrence_interval: 1,
+  read_only: false,
+  created_at: "2025-01-01T00:00:00Z",
+  updated_at: "2025-01-01T00:00:00Z",
+  ...overrides,
+});
+
+const calendars = [
+  {
+    id: "calendar-1",
+    name: "Work",
+    is_default: true,
+  } as Calendar,
+];
+
+const resources = [
+  makeResource({}),
+  makeResource({ id: "room-b", name: "Room B", capacity: 20 }),
+  makeResource({
+    id: "projector",
+    name: "Projector",
+    resource_type: "equipment",
+    capacity: null,
+  }),
+];
+
+function renderTimeline(events: CalendarEvent[]) {
+  const queryClient = new QueryClient({
+    defaultOptions: { queries: { retry: false } },
+  });
+  return render(
+    <QueryClientProvider client={queryClient}>
+      <ResourceTimelineView
+        events={events}
+        calendars={calendars}
+        currentDate={new Date(2025, 0, 15)}
+        timeZone="UTC"
+        getEventColor={() => "#023E87"}
+      />
+    </QueryClientProvider>
+  );
+}
+
+describe("ResourceTimelineView", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resourcesApi.getResources.mockResolvedValue({ data: resources });
+    resourcesApi.getEventsResources.mockImplementation((eventIds: string[]) =>
+      Promise.resolve({
+        data: eventIds
+          .filter((eventId) => eventId !== "event-3")
+          .map((eventId) => ({ event_id: eventId, resource_id: "room-a" })),
+      })
+    );
+    resourcesApi.checkResourceAvailability.mockResolvedValue({
+      available: true,
+    });
+  });
+
+  it("shows resources as rows and filters them by capacity", async () => {
+    renderTimeline([]);
+
+    expect(
+      await screen.findByRole("row", { name: "Room A" })
+    ).toBeInTheDocument();
+    expect(screen.getByRole("row", { name: "Projector" })).toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText("Min. capacity"), {
+      target: { value: "10" },
+    });
+
+    expect(
+      screen.queryByRole("row", { name: "Room A" })
+    ).not.toBeInTheDocument();
+    expect(
+      screen.queryByRole("row", { name: "Projector" })
+    ).not.toBeInTheDocument();
+    expect(screen.getByRole("row", { name: "Room B" })).toBeInTheDocument();
+  });
+
+  it("highlights double bookings of a resource", async () => {
+    renderTimeline([
+      makeEvent({}),
+      makeEvent({
+        id: "event-2",
+        title: "Sales call",
+        start_time: "2025-01-15T09:30:00.000Z",
+        end_time: "2025-01-15T11:00:00.000Z",
+      }),
+      makeEvent({ id: "event-3", title: "Unassigned" }),
+    ]);
+
+    expect(
+      await screen.findByRole("button", { name: /Design review/ })
+    ).toHaveAttribute("title", "Design review · Double booked");
+    expect(screen.getByRole("button", { name: /Sales call/ })).toHaveAttribute(
+      "title",
+      "Sales call · Double booked"
+    );
+    expect(screen.getByLabelText("Double booked")).toBeInTheDocument();
+    expect(screen.queryByText(/Unassigned/)).not.toBeInTheDocument();
+  });
+
+  it("books a resource by dragging over its row", async () => {
+    createEvent.mockResolvedValue({ data: makeEvent({ id: "new-event" }) });
+    resourcesApi.assignResourceToEvent.mockResolvedValue({ data: {} });
+    renderTimeline([]);
+
+    fireEvent.mouseDown(
+      await screen.findByRole("gridcell", { name: "Room B 14:00" })
+    );
+    fireEvent.mouseEnter(
+      screen.getByRole("gridcell", { name: "Room B 15:00" })
+    );
+    fireEvent.mouseUp(screen.getByRole("gridcell", { name: "Room B 15:00" }));
+
+    expect(await screen.findByText("Book Room B")).toBeInTheDocument();
+    expect(resourcesApi.checkResourceAvailability).toHaveBeenCalledWith(
+      "room-b",
+      "2025-01-15T14:00:00.000Z",
+      "2025-01-15T15:30:00.000Z",
+      undefined
+    );
+
+    fireEvent.change(screen.getByLabelText("Event Title"), {
+      target: { value: "Workshop" },
+    });
+    await waitFor(() =>
+      expect(screen.getByRole("button", { name: "Book" })).toBeEnabled()
+    );
+    fireEvent.click(screen.getByRole("button", { name: "Book" }));
+
+    await waitFor(() =>
+      expect(resourcesApi.assignResourceToEvent).toHaveBeenCalledWith(
+        "new-event",
+        { resource_id: "room-b" }
+      )
+    );
+    expect(createEvent).toHaveBeenCalledWith({
+      calendar_id: "calendar-1",
+      title: "Workshop",
+      start_time: "2025-01-15T14:00:00.000Z",
+      end_time: "2025-01-15T15:30:00.000Z",
+      all_day: false,
+      timezone: "UTC",
+      location: "Room B",
+    });
+  });
+
+  it("blocks bookings that overlap an existing one", async () => {
+    renderTimeline([makeEvent({})]);
+    await screen.findByRole("button", { name: /Design review/ });
+
+    fireEvent.mouseDown(screen.getByRole("gridcell", { name: "Room A 09:30" }));
+    fireEvent.mouseUp(screen.getByRole("gridcell", { name: "Room A 09:30" }));
+
+    expect(await screen.findByRole("alert")).toHaveTextContent("Not available");
+    expect(screen.getByRole("alert")).toHaveTextContent("Design review");
+    expect(screen.getByRole("button", { name: "Book" })).toBeDisabled();
+  });
+
+  it("blocks bookings the availability check rejects", async () => {
+    resourcesApi.checkResourceAvailability.mockResolvedValue({
+      available: false,
+    });
+    renderTimeline([]);
+
+    fireEvent.mouseDown(
+      await screen.findByRole("gridcell", { name: "Projector 11:00" })
+    );
+    fireEvent.mouseUp(
+      screen.getByRole("gridcell", { name: "Projector 11:00" })
+    );
+
+    expect(await screen.findByRole("alert")).toHaveTextContent("Not available");
+    expect(screen.getByRole("button", { name: "Book" })).toBeDisabled();
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * SchedulingAssistant tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, fireEvent } from "@testing-library/react";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { SchedulingAssistant } from "~/features/calendar/components/SchedulingAssistant";
+
+const { getAgenda } = vi.hoisted(() => ({ getAgenda: vi.fn() }));
+
+vi.mock("~/lib/i18n/useTranslation", () => ({
+  useTranslation: () => ({
+    t: (key: string) => {
+      const translations: Record<string, string> = {
+        "calendar.scheduling.required": "Required",
+        "calendar.scheduling.optional": "Optional",
+        "calendar.scheduling.optionalBusy": "Busy: {names}",
+      };
+      return translations[key] || key;
+    },
+    language: "en",
+  }),
+}));
+
+vi.mock("~/features/tasks/api/tasks.api", () => ({ getAgenda }));
+
+vi.mock("~/features/calendar/api/calendar-resources.api", () => ({
+  calendarResourcesApi: {
+    getResources: vi.fn().mockResolvedValue({ data: [] }),
+    getEventsResources: vi.fn().mockResolvedValue({ data: [] }),
+  },
+}));
+
+// Monday, January 7, 2030
+const at = (hours: number, minutes = 0, day = 7) =>
+  new Date(2030, 0, day, hours, minutes);
+
+const agendaItem = (title: string, start: Date, end: Date) => ({
+  id: title,
+  title,
+  start_date: start.toISOString(),
+  end_date: end.toISOString(),
+  source: "calendar",
+  type: "event",
+  created_at: "2030-01-01T00:00:00Z",
+  updated_at: "2030-01-01T00:00:00Z",
+});
+
+const attendees = [
+  { id: "ana", name: "Ana Ruiz" },
+  { id: "eva", name: "Eva Gil" },
+];
+
+function renderAssistant(
+  props: Partial<React.ComponentProps<typeof SchedulingAssistant>> = {}
+) {
+  const queryClient = new QueryClient({
+    defaultOptions: { queries: { retry: false } },
+  });
+  return render(
+    <QueryClientProvider client={queryClient}>
+      <SchedulingAssistant
+        attendees={attendees}
+        optionalAttendeeIds={[]}
+        onOptionalAttendeeIdsChange={vi.fn()}
+        start={at(9)}
+        end={at(10)}
+        onSelect={vi.fn()}
+        {...props}
+      />
+    </QueryClientProvider>
+  );
+}
+
+describe("SchedulingAssistant", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    getAgenda.mockImplementation(({ user_id }: { user_id: string }) =>
+      Promise.resolve({
+        data:
+          user_id === "ana"
+            ? [agendaItem("Budget review", at(9), at(11))]
+            : [agendaItem("Dentist", at(11), at(12))],
+      })
+    );
+  });
+
+  it("loads each attendee's agenda and shows their busy time", async () => {
+    renderAssistant();
+
+    expect(await screen.findByTitle("Budget review")).toBeInTheDocument();
+    expect(screen.getByTitle("Dentist")).toBeInTheDocument();
+    expect(getAgenda).toHaveBeenCalledWith({
+      start_date: "2030-01-06",
+      end_date: "2030-01-22",
+      user_id: "ana",
+    });
+    expect(getAgenda).toHaveBeenCalledWith(
+      expect.objectContaining({ user_id: "eva" })
+    );
+  });
+
+  it("fills in start and end from the earliest common free slot", async () => {
+    const onSelect = vi.fn();
+    renderAssistant({ onSelect });
+
+    fireEvent.click(await screen.findByText("Mon 7 Jan, 12:00 – 13:00"));
+
+    expect(onSelect).toHaveBeenCalledWith({
+      start: at(12),
+      end: at(13),
+      room: undefined,
+    });
+  });
+
+  it("only requires required attendees to be free", async () => {
+    getAgenda.mockImplementation(({ user_id }: { user_id: string }) =>
+      Promise.resolve({
+        data:
+          user_id === "ana"
+            ? [agendaItem("Budget review", at(9), at(11))]
+            : [agendaItem("Conference", at(0), at(0, 0, 21))],
+      })
+    );
+    renderAssistant({ optionalAttendeeIds: ["eva"] });
+
+    expect(
+      await screen.findByText("Mon 7 Jan, 11:00 – 12:00")
+    ).toBeInTheDocument();
+    expect(screen.getAllByText("Busy: Eva Gil").length).toBeGreaterThan(0);
+  });
+
+  it("switches attendees between required and optional", async () => {
+    const onOptionalAttendeeIdsChange = vi.fn();
+    renderAssistant({ onOptionalAttendeeIdsChange });
+
+    fireEvent.click(
+      await screen.findByRole("button", { name: "Eva Gil: Required" })
+    );
+
+    expect(onOptionalAttendeeIdsChange).toHaveBeenCalledWith(["eva"]);
+  });
+});
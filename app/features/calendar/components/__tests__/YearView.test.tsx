@@ -0,0 +1,96 @@
+/**
+ * YearView tests
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import { render, screen, fireEvent } from "@testing-library/react";
+import { YearView } from "~/features/calendar/components/YearView";
+import type { CalendarEvent } from "~/features/calendar/types/calendar.types";
+
+vi.mock("~/lib/i18n/useTranslation", () => ({
+  useTranslation: () => ({
+    t: (key: string) => {
+      const translations: Record<string, string> = {
+        "calendar.year.noEvents": "No events",
+        "calendar.year.oneEvent": "1 event",
+        "calendar.year.events": "{count} events",
+      };
+      return translations[key] || key;
+    },
+    language: "en",
+  }),
+}));
+
+const makeEvent = (id: string, start: Date, end: Date) =>
+  ({
+    id,
+    title: id,
+    calendar_id: "work",
+    start_time: start.toISOString(),
+    end_time: end.toISOString(),
+    all_day: false,
+  }) as CalendarEvent;
+
+function renderYear(
+  props: Partial<React.ComponentProps<typeof YearView>> = {}
+) {
+  return render(
+    <YearView
+      events={[
+        makeEvent(
+          "closing",
+          new Date(2026, 2, 31, 9),
+          new Date(2026, 2, 31, 10)
+        ),
+        makeEvent(
+          "audit",
+          new Date(2026, 2, 31, 11),
+          new Date(2026, 2, 31, 12)
+        ),
+      ]}
+      currentDate={new Date(2026, 4, 13)}
+      onDayClick={vi.fn()}
+      today={new Date(2026, 4, 13)}
+      {...props}
+    />
+  );
+}
+
+describe("YearView", () => {
+  it("shows the twelve months of the year with every day", () => {
+    renderYear();
+
+    expect(
+      screen.getByRole("heading", { name: "January" })
+    ).toBeInTheDocument();
+    expect(
+      screen.getByRole("heading", { name: "December" })
+    ).toBeInTheDocument();
+    expect(screen.getAllByRole("heading")).toHaveLength(12);
+    expect(screen.getAllByRole("button")).toHaveLength(365);
+  });
+
+  it("labels and shades each day by its number of events", () => {
+    renderYear();
+
+    const busyDay = screen.getByRole("button", {
+      name: "March 31st, 2026 · 2 events",
+    });
+    expect(busyDay.className).toContain("bg-primary/35");
+    expect(
+      screen.getByRole("button", { name: "April 1st, 2026 · No events" })
+        .className
+    ).not.toContain("bg-primary/");
+  });
+
+  it("opens the clicked day", () => {
+    const onDayClick = vi.fn();
+    renderYear({ onDayClick });
+
+    fireEvent.click(
+      screen.getByRole("button", { name: "March 31st, 2026 · 2 events" })
+    );
+
+    expect(onDayClick).toHaveBeenCalledWith(new Date(2026, 2, 31));
+  });
+});
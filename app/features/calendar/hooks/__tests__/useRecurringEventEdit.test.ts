@@ -0,0 +1,75 @@
+/**
+ * Tests for applyRecurrenceEditPlan
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { applyRecurrenceEditPlan } from "~/features/calendar/hooks/useRecurringEventEdit";
+import type { RecurrenceEditPlan } from "~/features/calendar/utils/recurrenceEdit";
+
+const { mockCreateEvent, mockUpdateEvent, mockDeleteEvent } = vi.hoisted(
+  () => ({
+    mockCreateEvent: vi.fn(),
+    mockUpdateEvent: vi.fn(),
+    mockDeleteEvent: vi.fn(),
+  })
+);
+
+vi.mock("~/features/calendar/api/calendar.api", () => ({
+  createEvent: mockCreateEvent,
+  updateEvent: mockUpdateEvent,
+  deleteEvent: mockDeleteEvent,
+}));
+
+// "This occurrence" edit: EXDATE on the series plus a detached override
+const plan: RecurrenceEditPlan = {
+  updates: [
+    {
+      id: "series-1",
+      payload: { recurrence_exdates: ["2026-05-13T09:00:00.000Z"] },
+    },
+  ],
+  creates: [
+    {
+      calendar_id: "calendar-1",
+      title: "Moved",
+      start_time: "2026-05-13T11:00:00.000Z",
+      end_time: "2026-05-13T12:00:00.000Z",
+    },
+  ],
+  deletes: [],
+};
+
+describe("applyRecurrenceEditPlan", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockCreateEvent.mockResolvedValue({ data: { id: "override-1" } });
+    mockUpdateEvent.mockResolvedValue({ data: { id: "series-1" } });
+    mockDeleteEvent.mockResolvedValue({ data: null });
+  });
+
+  it("creates the replacement before cutting the series", async () => {
+    await applyRecurrenceEditPlan(plan);
+
+    expect(mockCreateEvent.mock.invocationCallOrder[0]).toBeLessThan(
+      mockUpdateEvent.mock.invocationCallOrder[0]!
+    );
+    expect(mockDeleteEvent).not.toHaveBeenCalled();
+  });
+
+  it("leaves the series untouched when the replacement cannot be created", async () => {
+    mockCreateEvent.mockRejectedValue(new Error("Network error"));
+
+    await expect(applyRecurrenceEditPlan(plan)).rejects.toThrow(
+      "Network error"
+    );
+    expect(mockUpdateEvent).not.toHaveBeenCalled();
+    expect(mockDeleteEvent).not.toHaveBeenCalled();
+  });
+
+  it("deletes the replacement when the series cannot be cut", async () => {
+    mockUpdateEvent.mockRejectedValue(new Error("Conflict"));
+
+    await expect(applyRecurrenceEditPlan(plan)).rejects.toThrow("Conflict");
+    expect(mockDeleteEvent).toHaveBeenCalledWith("override-1");
+  });
+});
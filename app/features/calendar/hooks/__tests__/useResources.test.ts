@@ -0,0 +1,61 @@
+/**
+ * Tests for useEventsResources hook
+ */
+
+import { renderHook, waitFor } from "@testing-library/react";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import type { ReactNode } from "react";
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { useEventsResources } from "~/features/calendar/hooks/useResources";
+
+const { mockGet } = vi.hoisted(() => ({ mockGet: vi.fn() }));
+
+vi.mock("~/lib/api/client", () => ({
+  default: { get: mockGet },
+}));
+
+const wrapper = ({ children }: { children: ReactNode }) =>
+  QueryClientProvider({
+    client: new QueryClient({ defaultOptions: { queries: { retry: false } } }),
+    children,
+  });
+
+describe("useEventsResources", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGet.mockResolvedValue({
+      data: {
+        data: [
+          { id: "er-1", event_id: "event-1", resource_id: "room-1" },
+          { id: "er-2", event_id: "event-1", resource_id: "projector-1" },
+        ],
+      },
+    });
+  });
+
+  it("loads the resources of every event in one request", async () => {
+    const { result } = renderHook(
+      () => useEventsResources(["event-1", "event-2"]),
+      { wrapper }
+    );
+
+    await waitFor(() =>
+      expect(result.current.resourceIdsByEvent.get("event-1")).toEqual([
+        "room-1",
+        "projector-1",
+      ])
+    );
+    expect(result.current.resourceIdsByEvent.get("event-2")).toEqual([]);
+    expect(mockGet).toHaveBeenCalledTimes(1);
+    expect(mockGet).toHaveBeenCalledWith("/calendar/events/resources", {
+      params: { event_ids: "event-1,event-2" },
+    });
+  });
+
+  it("does not request anything without events", () => {
+    const { result } = renderHook(() => useEventsResources([]), { wrapper });
+
+    expect(result.current.resourceIdsByEvent.size).toBe(0);
+    expect(mockGet).not.toHaveBeenCalled();
+  });
+});
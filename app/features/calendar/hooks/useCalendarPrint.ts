@@ -0,0 +1,22 @@
+/**
+ * Calendar print hooks
+ */
+
+import { useQuery } from "@tanstack/react-query";
+import { listAllEvents } from "~/features/calendar/hooks/useICalendar";
+
+/**
+ * Events of every calendar between two dates (yyyy-MM-dd), to print them
+ */
+export function usePrintEvents(
+  startDate: string,
+  endDate: string,
+  enabled = true
+) {
+  return useQuery({
+    queryKey: ["events", "print", startDate, endDate],
+    queryFn: () => listAllEvents({ start_date: startDate, end_date: endDate }),
+    enabled: enabled && !!startDate && !!endDate,
+    staleTime: 1000 * 60, // 1 minute
+  });
+}
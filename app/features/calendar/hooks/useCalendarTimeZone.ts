@@ -0,0 +1,58 @@
+/**
+ * Calendar time zone hook
+ * Resolves the zone calendars are rendered in: the user's profile zone, then
+ * the tenant's general settings, then the browser. The optional secondary
+ * zone shown next to the hours is kept in localStorage.
+ */
+
+import { useCallback, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useAuthStore } from "~/stores/authStore";
+import { getGeneralSettings } from "~/features/config/api/config.api";
+import {
+  getLocalTimeZone,
+  isValidTimeZone,
+} from "~/features/calendar/utils/timezone";
+
+const SECONDARY_TIME_ZONE_STORAGE_KEY = "calendar_secondary_timezone";
+
+function readSecondaryTimeZone(): string | null {
+  if (typeof window === "undefined") return null;
+  const stored = localStorage.getItem(SECONDARY_TIME_ZONE_STORAGE_KEY);
+  return stored && isValidTimeZone(stored) ? stored : null;
+}
+
+export function useCalendarTimeZone() {
+  const userTimeZone = useAuthStore((state) => state.user?.timezone);
+  const { data: generalSettings } = useQuery({
+    queryKey: ["config", "general"],
+    queryFn: getGeneralSettings,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+    retry: 1,
+  });
+  const [secondaryTimeZone, setSecondaryTimeZoneState] = useState<
+    string | null
+  >(readSecondaryTimeZone);
+
+  const timeZone =
+    [userTimeZone, generalSettings?.timezone].find(
+      (zone): zone is string => !!zone && isValidTimeZone(zone)
+    ) ?? getLocalTimeZone();
+
+  const setSecondaryTimeZone = useCallback((zone: string | null) => {
+    setSecondaryTimeZoneState(zone);
+    if (typeof window === "undefined") return;
+    if (zone) {
+      localStorage.setItem(SECONDARY_TIME_ZONE_STORAGE_KEY, zone);
+    } else {
+      localStorage.removeItem(SECONDARY_TIME_ZONE_STORAGE_KEY);
+    }
+  }, []);
+
+  return {
+    timeZone,
+    secondaryTimeZone:
+      secondaryTimeZone === timeZone ? null : secondaryTimeZone,
+    setSecondaryTimeZone,
+  };
+}
@@ -0,0 +1,82 @@
+/**
+ * Calendar view config hook
+ * Remembers the last calendar view and the weeks of the N-week view in
+ * localStorage, so calendars open the way the user left them.
+ */
+
+import { useCallback, useState } from "react";
+import {
+  DEFAULT_WEEK_COUNT,
+  clampWeekCount,
+} from "~/features/calendar/utils/calendarViews";
+import type {
+  CalendarViewConfig,
+  CalendarViewType,
+} from "~/features/calendar/types/calendar.types";
+
+const VIEW_CONFIG_STORAGE_KEY = "calendar_view_config";
+
+const VIEW_TYPES: CalendarViewType[] = [
+  "month",
+  "week",
+  "day",
+  "agenda",
+  "resources",
+  "year",
+  "weeks",
+];
+
+type StoredViewConfig = Pick<CalendarViewConfig, "type" | "week_count">;
+
+function readViewConfig(defaultView: CalendarViewType): StoredViewConfig {
+  const fallback = { type: defaultView, week_count: DEFAULT_WEEK_COUNT };
+  if (typeof window === "undefined") return fallback;
+  try {
+    const stored = JSON.parse(
+      localStorage.getItem(VIEW_CONFIG_STORAGE_KEY) ?? "{}"
+    ) as Partial<CalendarViewConfig>;
+    return {
+      type:
+        stored.type && VIEW_TYPES.includes(stored.type)
+          ? stored.type
+          : defaultView,
+      week_count: clampWeekCount(stored.week_count ?? DEFAULT_WEEK_COUNT),
+    };
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * @param defaultView - View used until the user picks one
+ */
+export function useCalendarViewConfig(defaultView: CalendarViewType = "month") {
+  const [config, setConfig] = useState(() => readViewConfig(defaultView));
+
+  const updateConfig = useCallback((changes: Partial<StoredViewConfig>) => {
+    setConfig((current) => {
+      const next = { ...current, ...changes };
+      if (typeof window !== "undefined") {
+        localStorage.setItem(VIEW_CONFIG_STORAGE_KEY, JSON.stringify(next));
+      }
+      return next;
+    });
+  }, []);
+
+  const setViewType = useCallback(
+    (type: CalendarViewType) => updateConfig({ type }),
+    [updateConfig]
+  );
+  const setWeekCount = useCallback(
+    (weekCount: number) =>
+      updateConfig({ week_count: clampWeekCount(weekCount) }),
+    [updateConfig]
+  );
+
+  return {
+    viewType: config.type,
+    weekCount: config.week_count,
+    setViewType,
+    setWeekCount,
+  };
+}
@@ -2,10 +2,12 @@
  * useEventQuickEdit hook
  * Manages popover state and quick edit logic for calendar events.
  * Handles open/close, form state, save mutation, and transition to full edit.
+ * Changes to a recurring event go through the recurrence scope prompt.
  */
 
 import { useState, useCallback } from "react";
 import { useUpdateEvent } from "~/features/calendar/hooks/useCalendar";
+import { useRecurringEventEdit } from "~/features/calendar/hooks/useRecurringEventEdit";
 import { useTranslation } from "~/lib/i18n/useTranslation";
 import { showToast } from "~/components/common/Toast";
 import type { CalendarEvent, EventUpdate } from "~/features/calendar/types/calendar.types";
@@ -26,6 +28,11 @@ interface QuickEditFormData {
 export function useEventQuickEdit() {
   const { t } = useTranslation();
   const updateEvent = useUpdateEvent();
+  const {
+    requestEdit: requestRecurringEdit,
+    isSaving: isSavingRecurring,
+    dialogProps: recurrenceDialog,
+  } = useRecurringEventEdit();
 
   const [state, setState] = useState<QuickEditState>({
     isOpen: false,
@@ -74,27 +81,31 @@ export function useEventQuickEdit() {
         return;
       }
 
-      updateEvent.mutate(
-        { id: state.event.id, payload },
-        {
-          onSuccess: () => {
-            showToast(t("calendar.quickEdit.saved"), "success");
-            close();
-          },
-          onError: () => {
-            showToast(t("calendar.quickEdit.error"), "error");
-          },
-        }
-      );
+      const callbacks = {
+        onSuccess: () => {
+          showToast(t("calendar.quickEdit.saved"), "success");
+          close();
+        },
+        onError: () => {
+          showToast(t("calendar.quickEdit.error"), "error");
+        },
+      };
+
+      if (requestRecurringEdit(state.event, payload, callbacks)) {
+        return;
+      }
+
+      updateEvent.mutate({ id: state.event.id, payload }, callbacks);
     },
-    [state.event, updateEvent, close, t]
+    [state.event, updateEvent, requestRecurringEdit, close, t]
   );
 
   return {
     isOpen: state.isOpen,
     event: state.event,
     anchorRect: state.anchorRect,
-    isSaving: updateEvent.isPending,
+    isSaving: updateEvent.isPending || isSavingRecurring,
+    recurrenceDialog,
     open,
     close,
     save,
@@ -0,0 +1,170 @@
+/**
+ * iCalendar hooks
+ * Export a calendar (or a date range of it) to an .ics document and import
+ * the events parsed from an .ics file into a calendar.
+ */
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  createEvent,
+  createReminder,
+  listEventReminders,
+  listEvents,
+} from "~/features/calendar/api/calendar.api";
+import {
+  exportICalendar,
+  getEventAttendees,
+  type ICalImportedEvent,
+} from "~/features/calendar/utils/ical";
+import type {
+  Calendar,
+  CalendarEvent,
+  EventListParams,
+} from "~/features/calendar/types/calendar.types";
+
+const PAGE_SIZE = 100;
+
+export interface ICalExportParams {
+  calendar: Calendar;
+  start_date?: string;
+  end_date?: string;
+  /** Users to resolve `metadata.attendee_ids` into attendees */
+  users?: { id: string; email: string; full_name?: string | null }[];
+}
+
+export interface ICalImportParams {
+  calendarId: string;
+  events: ICalImportedEvent[];
+}
+
+export interface ICalImportResult {
+  created: number;
+  failed: { uid: string; title: string; error: unknown }[];
+}
+
+/**
+ * Every event matching the filters, following pagination
+ */
+export async function listAllEvents(
+  params: Omit<EventListParams, "page" | "page_size">
+): Promise<CalendarEvent[]> {
+  const events: CalendarEvent[] = [];
+  let page = 1;
+  let totalPages = 1;
+  do {
+    const response = await listEvents({
+      ...params,
+      page,
+      page_size: PAGE_SIZE,
+    });
+    events.push(...response.data);
+    totalPages = response.meta?.total_pages ?? 1;
+    page += 1;
+  } while (page <= totalPages);
+  return events;
+}
+
+/**
+ * Build the .ics document of a calendar, with the reminders of each event
+ */
+export function useExportICalendar() {
+  return useMutation({
+    mutationFn: async ({
+      calendar,
+      start_date,
+      end_date,
+      users = [],
+    }: ICalExportParams) => {
+      const events = await listAllEvents({
+        calendar_id: calendar.id,
+        start_date,
+        end_date,
+      });
+      const reminders = Object.fromEntries(
+        await Promise.all(
+          events.map(
+            async (event) =>
+              [event.id, (await listEventReminders(event.id)).data] as const
+          )
+        )
+      );
+      const attendees = Object.fromEntries(
+        events.map((event) => [event.id, getEventAttendees(event, users)])
+      );
+      return exportICalendar(events, {
+        calendarName: calendar.name,
+        reminders,
+        attendees,
+      });
+    },
+    onError: (error) => {
+      console.error("Failed to export calendar:", error);
+    },
+  });
+}
+
+/**
+ * Events of a calendar between two dates, to check an import for conflicts
+ */
+export function useCalendarEventsInRange(
+  calendarId: string,
+  startDate: string,
+  endDate: string
+) {
+  return useQuery({
+    queryKey: ["events", "range", calendarId, startDate, endDate],
+    queryFn: () =>
+      listAllEvents({
+        calendar_id: calendarId,
+        start_date: startDate,
+        end_date: endDate,
+      }),
+    enabled: !!calendarId && !!startDate && !!endDate,
+    staleTime: 1000 * 60, // 1 minute
+  });
+}
+
+/**
+ * Create the imported events one by one with their reminders. Attendees are
+ * kept in the event metadata. Failures don't stop the remaining events.
+ */
+export function useImportICalendar() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      calendarId,
+      events,
+    }: ICalImportParams): Promise<ICalImportResult> => {
+      const result: ICalImportResult = { created: 0, failed: [] };
+      for (const imported of events) {
+        try {
+          const response = await createEvent({
+            ...imported.event,
+            calendar_id: calendarId,
+            metadata: {
+              ...imported.event.metadata,
+              ...(imported.attendees.length > 0
+                ? { attendees: imported.attendees }
+                : {}),
+            },
+          });
+          for (const reminder of imported.reminders) {
+            await createReminder(response.data.id, reminder);
+          }
+          result.created += 1;
+        } catch (error) {
+          result.failed.push({
+            uid: imported.uid,
+            title: imported.event.title,
+            error,
+          });
+        }
+      }
+      return result;
+    },
+    onSettled: () => {
+      void queryClient.invalidateQueries({ queryKey: ["events"] });
+    },
+  });
+}
@@ -0,0 +1,142 @@
+/**
+ * useRecurringEventEdit hook
+ * Intercepts edits and deletes of recurring events to ask for the scope
+ * (this occurrence, this and following, all) and applies the resulting
+ * series changes.
+ */
+
+import { useCallback, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  createEvent,
+  deleteEvent,
+  updateEvent,
+} from "~/features/calendar/api/calendar.api";
+import { isRecurringEvent } from "~/features/calendar/utils/recurrence";
+import {
+  planRecurrenceDelete,
+  planRecurrenceEdit,
+  type RecurrenceEditPlan,
+} from "~/features/calendar/utils/recurrenceEdit";
+import type {
+  CalendarEvent,
+  EventUpdate,
+  RecurrenceEditScope,
+} from "~/features/calendar/types/calendar.types";
+import type { RecurrenceScopeDialogProps } from "~/features/calendar/components/RecurrenceScopeDialog";
+
+interface RecurrenceRequestCallbacks {
+  onSuccess?: () => void;
+  onError?: (error: unknown) => void;
+}
+
+type PendingRequest = RecurrenceRequestCallbacks & {
+  event: CalendarEvent;
+} & ({ mode: "edit"; changes: EventUpdate } | { mode: "delete" });
+
+/**
+ * Apply a plan. The new events are created before the series is cut, so a
+ * failure never leaves an occurrence removed without its replacement; if
+ * cutting the series fails, the events just created are deleted again.
+ */
+export async function applyRecurrenceEditPlan(
+  plan: RecurrenceEditPlan
+): Promise<void> {
+  const created: string[] = [];
+  try {
+    for (const payload of plan.creates) {
+      const response = await createEvent(payload);
+      created.push(response.data.id);
+    }
+    for (const { id, payload } of plan.updates) {
+      await updateEvent(id, payload);
+    }
+  } catch (error) {
+    await Promise.allSettled(created.map((id) => deleteEvent(id)));
+    throw error;
+  }
+  for (const id of plan.deletes) {
+    await deleteEvent(id);
+  }
+}
+
+export function useRecurringEventEdit() {
+  const queryClient = useQueryClient();
+  const [pending, setPending] = useState<PendingRequest | null>(null);
+
+  const applyPlan = useMutation({
+    mutationFn: applyRecurrenceEditPlan,
+    onSettled: () => {
+      void queryClient.invalidateQueries({ queryKey: ["events"] });
+    },
+    onError: (error) => {
+      console.error("Failed to update recurring event:", error);
+    },
+  });
+
+  /**
+   * Ask for the scope of an edit. Returns false for non-recurring events,
+   * which the caller updates as usual.
+   */
+  const requestEdit = useCallback(
+    (
+      event: CalendarEvent,
+      changes: EventUpdate,
+      callbacks: RecurrenceRequestCallbacks = {}
+    ): boolean => {
+      if (!isRecurringEvent(event)) return false;
+      setPending({ mode: "edit", event, changes, ...callbacks });
+      return true;
+    },
+    []
+  );
+
+  /**
+   * Ask for the scope of a delete. Returns false for non-recurring events.
+   */
+  const requestDelete = useCallback(
+    (
+      event: CalendarEvent,
+      callbacks: RecurrenceRequestCallbacks = {}
+    ): boolean => {
+      if (!isRecurringEvent(event)) return false;
+      setPending({ mode: "delete", event, ...callbacks });
+      return true;
+    },
+    []
+  );
+
+  const confirm = (scope: RecurrenceEditScope) => {
+    if (!pending) return;
+    const plan =
+      pending.mode === "edit"
+        ? planRecurrenceEdit(pending.event, scope, pending.changes)
+        : planRecurrenceDelete(pending.event, scope);
+
+    applyPlan.mutate(plan, {
+      onSuccess: () => {
+        setPending(null);
+        pending.onSuccess?.();
+      },
+      onError: (error) => {
+        setPending(null);
+        pending.onError?.(error);
+      },
+    });
+  };
+
+  const dialogProps: RecurrenceScopeDialogProps = {
+    open: pending !== null,
+    mode: pending?.mode ?? "edit",
+    onConfirm: confirm,
+    onCancel: () => setPending(null),
+    isSaving: applyPlan.isPending,
+  };
+
+  return {
+    requestEdit,
+    requestDelete,
+    isSaving: applyPlan.isPending,
+    dialogProps,
+  };
+}
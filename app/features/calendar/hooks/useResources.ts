@@ -1,3 +1,4 @@
+import { useMemo } from "react";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import type {
   CalendarResourceCreate,
@@ -86,6 +87,30 @@ export function useEventResources(eventId: string | undefined) {
   });
 }
 
+/**
+ * Hook para obtener los recursos de varios eventos en una sola petición
+ * Devuelve un mapa de id de evento a ids de recursos asignados
+ */
+export function useEventsResources(eventIds: string[]) {
+  const { data, isLoading } = useQuery({
+    queryKey: ["calendar", "events", "resources", eventIds],
+    queryFn: () => calendarResourcesApi.getEventsResources(eventIds),
+    enabled: eventIds.length > 0,
+  });
+
+  const resourceIdsByEvent = useMemo(() => {
+    const byEvent = new Map<string, string[]>();
+    if (!data) return byEvent;
+    eventIds.forEach((eventId) => byEvent.set(eventId, []));
+    data.data.forEach((item) => {
+      byEvent.get(item.event_id)?.push(item.resource_id);
+    });
+    return byEvent;
+  }, [data, eventIds]);
+
+  return { resourceIdsByEvent, isLoading };
+}
+
 /**
  * Hook para asignar un recurso a un evento
  */
@@ -0,0 +1,75 @@
+/**
+ * Scheduling availability hooks
+ * Load what the scheduling assistant needs to find free time: the agenda
+ * (events and tasks) of each attendee and the bookings of the rooms.
+ */
+
+import { useQueries, useQuery } from "@tanstack/react-query";
+import { getAgenda } from "~/features/tasks/api/tasks.api";
+import { listEvents } from "~/features/calendar/api/calendar.api";
+import { useEventsResources } from "~/features/calendar/hooks/useResources";
+import type { AgendaItem } from "~/features/tasks/types/task.types";
+import type { CalendarEvent } from "~/features/calendar/types/calendar.types";
+
+interface AvailabilityRange {
+  start_date: string;
+  end_date: string;
+}
+
+/**
+ * Agenda of each attendee, one query per user
+ */
+export function useAttendeeAvailability(
+  userIds: string[],
+  range: AvailabilityRange
+) {
+  return useQueries({
+    queries: userIds.map((userId) => ({
+      queryKey: ["tasks", "agenda", { ...range, user_id: userId }],
+      queryFn: () => getAgenda({ ...range, user_id: userId }),
+      staleTime: 1000 * 60, // 1 minute
+    })),
+    combine: (results) => {
+      const agendaByUser = new Map<string, AgendaItem[]>();
+      results.forEach((result, index) => {
+        const userId = userIds[index];
+        if (userId && result.data) agendaByUser.set(userId, result.data.data);
+      });
+      return {
+        agendaByUser,
+        isLoading: results.some((result) => result.isLoading),
+      };
+    },
+  });
+}
+
+/**
+ * Events booking each of the given rooms. Nothing is loaded until a room
+ * is requested.
+ */
+export function useRoomBookings(roomIds: string[], range: AvailabilityRange) {
+  const params = { ...range, page_size: 100 };
+  const { data: eventsData, isLoading } = useQuery({
+    queryKey: ["events", params],
+    queryFn: () => listEvents(params),
+    staleTime: 1000 * 60 * 2, // 2 minutes
+    enabled: roomIds.length > 0,
+  });
+  const events = roomIds.length ? (eventsData?.data ?? []) : [];
+  const { resourceIdsByEvent, isLoading: resourcesLoading } =
+    useEventsResources(events.map((event) => event.id));
+
+  const bookingsByRoom = new Map<string, CalendarEvent[]>();
+  roomIds.forEach((roomId) =>
+    bookingsByRoom.set(
+      roomId,
+      events.filter((event) =>
+        resourceIdsByEvent.get(event.id)?.includes(roomId)
+      )
+    )
+  );
+  return {
+    bookingsByRoom,
+    isLoading: roomIds.length > 0 && (isLoading || resourcesLoading),
+  };
+}
@@ -88,7 +88,19 @@ export const translations = {
       "weekly": "Weekly",
       "weeks": "Weeks",
       "yearly": "Yearly",
-      "years": "Years"
+      "years": "Years",
+      "day": "day",
+      "in": "in",
+      "times": "{count} times",
+      "ordinals": {
+        "first": "first",
+        "second": "second",
+        "third": "third",
+        "fourth": "fourth",
+        "fifth": "fifth",
+        "last": "last",
+        "secondLast": "second to last"
+      }
     },
     "recurrenceCount": "Recurrence Count",
     "recurrenceEndDate": "Recurrence End Date",
@@ -137,7 +149,12 @@ export const translations = {
       "agenda": "Agenda",
       "day": "Day",
       "month": "Month",
-      "week": "Week"
+      "week": "Week",
+      "resources": "Resources",
+      "year": "Year",
+      "weeks": "Weeks",
+      "weekCount": "Weeks shown",
+      "weeksCount": "{count} weeks"
     },
     "weekdays": {
       "fri": "Fri",
@@ -148,7 +165,131 @@ export const translations = {
       "tue": "Tue",
       "wed": "Wed"
     },
-    "description": "Calendar and event management"
+    "description": "Calendar and event management",
+    "months": {
+      "jan": "January",
+      "feb": "February",
+      "mar": "March",
+      "apr": "April",
+      "may": "May",
+      "jun": "June",
+      "jul": "July",
+      "aug": "August",
+      "sep": "September",
+      "oct": "October",
+      "nov": "November",
+      "dec": "December"
+    },
+    "recurrenceScope": {
+      "editTitle": "Edit recurring event",
+      "deleteTitle": "Delete recurring event",
+      "editDescription": "This event is part of a series. Which events do you want to change?",
+      "deleteDescription": "This event is part of a series. Which events do you want to delete?",
+      "this": "This event",
+      "following": "This and following events",
+      "all": "All events",
+      "error": "Could not update the recurring event"
+    },
+    "ical": {
+      "import": "Import .ics",
+      "export": "Export .ics",
+      "importTitle": "Import events",
+      "importDescription": "Add the events of an .ics file exported from Google Calendar, Outlook or another calendar app.",
+      "exportTitle": "Export calendar",
+      "exportDescription": "Download the events of a calendar as an .ics file.",
+      "file": ".ics file",
+      "calendar": "Calendar",
+      "from": "From",
+      "to": "To",
+      "rangeHint": "Leave the dates empty to export every event.",
+      "parseError": "The file is not a valid iCalendar file",
+      "noEvents": "The file has no events",
+      "skipped": "{count} events without a start date were skipped",
+      "duplicate": "Already exists",
+      "overlaps": "Overlaps {count} events",
+      "reminders": "{count} reminders",
+      "attendees": "{count} attendees",
+      "importSelected": "Import {count} events",
+      "importing": "Importing...",
+      "imported": "{count} events imported",
+      "importFailed": "{count} events could not be imported",
+      "exporting": "Exporting...",
+      "exported": "Calendar exported",
+      "exportError": "Could not export the calendar"
+    },
+    "timezone": {
+      "label": "Time zone",
+      "secondary": "Secondary time zone",
+      "none": "No secondary time zone",
+      "placeholder": "Select a time zone",
+      "eventHint": "Start and end are in this time zone. Repeats keep its local time across daylight saving changes."
+    },
+    "resources": {
+      "type": "Resource type",
+      "allTypes": "All types",
+      "types": {
+        "room": "Room",
+        "equipment": "Equipment",
+        "user": "Person"
+      },
+      "minCapacity": "Min. capacity",
+      "capacity": "{count} people",
+      "dragHint": "Drag across a row to book a resource",
+      "empty": "No resources match the filters",
+      "conflict": "Double booked",
+      "unavailable": "The resource is not available at this time",
+      "checking": "Checking availability...",
+      "book": "Book",
+      "bookTitle": "Book {resource}",
+      "booked": "{resource} booked",
+      "bookError": "Could not book the resource"
+    },
+    "scheduling": {
+      "findTime": "Find a time",
+      "required": "Required",
+      "optional": "Optional",
+      "rooms": "Rooms",
+      "previousDay": "Previous day",
+      "nextDay": "Next day",
+      "noAttendees": "Add attendees or rooms to see their availability",
+      "suggestions": "Suggested times",
+      "loading": "Loading availability...",
+      "noSuggestions": "No common free time found",
+      "optionalBusy": "Busy: {names}"
+    },
+    "print": {
+      "open": "Print",
+      "title": "Print calendar",
+      "description": "Choose the layout, calendars and dates to print. Printing opens your browser's print dialog, where you can also save as PDF.",
+      "layout": "Layout",
+      "layouts": {
+        "month": "Month grid",
+        "week": "Week grid with hours",
+        "agenda": "Agenda list"
+      },
+      "from": "From",
+      "to": "To",
+      "calendars": "Calendars",
+      "preview": "Preview",
+      "pages": "{count} page(s)",
+      "pageOf": "Page {page} of {total}",
+      "loading": "Loading events...",
+      "print": "Print",
+      "more": "+{count} more",
+      "continued": "continued",
+      "errors": {
+        "rangeRequired": "Choose the first and last day to print",
+        "endBeforeStart": "The last day must be after the first one",
+        "rangeTooLong": "Print at most one year at a time"
+      }
+    },
+    "year": {
+      "noEvents": "No events",
+      "oneEvent": "1 event",
+      "events": "{count} events",
+      "less": "Less",
+      "more": "More"
+    }
   },
   "comments": {
     "addPlaceholder": "Add Placeholder"
@@ -88,7 +88,19 @@ export const translations = {
       "weekly": "Weekly",
       "weeks": "Weeks",
       "yearly": "Yearly",
-      "years": "Years"
+      "years": "Years",
+      "day": "día",
+      "in": "en",
+      "times": "{count} veces",
+      "ordinals": {
+        "first": "primer",
+        "second": "segundo",
+        "third": "tercer",
+        "fourth": "cuarto",
+        "fifth": "quinto",
+        "last": "último",
+        "secondLast": "penúltimo"
+      }
     },
     "recurrenceCount": "Recurrence Count",
     "recurrenceEndDate": "Recurrence End Date",
@@ -137,7 +149,12 @@ export const translations = {
       "agenda": "Agenda",
       "day": "Day",
       "month": "Month",
-      "week": "Week"
+      "week": "Week",
+      "resources": "Recursos",
+      "year": "Año",
+      "weeks": "Semanas",
+      "weekCount": "Semanas visibles",
+      "weeksCount": "{count} semanas"
     },
     "weekdays": {
       "fri": "Fri",
@@ -148,7 +165,131 @@ export const translations = {
       "tue": "Tue",
       "wed": "Wed"
     },
-    "description": "Gestión de calendarios y eventos"
+    "description": "Gestión de calendarios y eventos",
+    "months": {
+      "jan": "enero",
+      "feb": "febrero",
+      "mar": "marzo",
+      "apr": "abril",
+      "may": "mayo",
+      "jun": "junio",
+      "jul": "julio",
+      "aug": "agosto",
+      "sep": "septiembre",
+      "oct": "octubre",
+      "nov": "noviembre",
+      "dec": "diciembre"
+    },
+    "recurrenceScope": {
+      "editTitle": "Editar evento recurrente",
+      "deleteTitle": "Eliminar evento recurrente",
+      "editDescription": "Este evento forma parte de una serie. ¿Qué eventos quieres cambiar?",
+      "deleteDescription": "Este evento forma parte de una serie. ¿Qué eventos quieres eliminar?",
+      "this": "Este evento",
+      "following": "Este evento y los siguientes",
+      "all": "Todos los eventos",
+      "error": "No se pudo actualizar el evento recurrente"
+    },
+    "ical": {
+      "import": "Importar .ics",
+      "export": "Exportar .ics",
+      "importTitle": "Importar eventos",
+      "importDescription": "Añade los eventos de un archivo .ics exportado desde Google Calendar, Outlook u otra aplicación de calendario.",
+      "exportTitle": "Exportar calendario",
+      "exportDescription": "Descarga los eventos de un calendario como archivo .ics.",
+      "file": "Archivo .ics",
+      "calendar": "Calendario",
+      "from": "Desde",
+      "to": "Hasta",
+      "rangeHint": "Deja las fechas vacías para exportar todos los eventos.",
+      "parseError": "El archivo no es un iCalendar válido",
+      "noEvents": "El archivo no tiene eventos",
+      "skipped": "Se omitieron {count} eventos sin fecha de inicio",
+      "duplicate": "Ya existe",
+      "overlaps": "Se solapa con {count} eventos",
+      "reminders": "{count} recordatorios",
+      "attendees": "{count} participantes",
+      "importSelected": "Importar {count} eventos",
+      "importing": "Importando...",
+      "imported": "{count} eventos importados",
+      "importFailed": "No se pudieron importar {count} eventos",
+      "exporting": "Exportando...",
+      "exported": "Calendario exportado",
+      "exportError": "No se pudo exportar el calendario"
+    },
+    "timezone": {
+      "label": "Zona horaria",
+      "secondary": "Zona horaria secundaria",
+      "none": "Sin zona secundaria",
+      "placeholder": "Selecciona una zona horaria",
+      "eventHint": "El inicio y el fin están en esta zona horaria. Las repeticiones conservan su hora local en los cambios de horario de verano."
+    },
+    "resources": {
+      "type": "Tipo de recurso",
+      "allTypes": "Todos los tipos",
+      "types": {
+        "room": "Sala",
+        "equipment": "Equipo",
+        "user": "Persona"
+      },
+      "minCapacity": "Capacidad mín.",
+      "capacity": "{count} personas",
+      "dragHint": "Arrastra sobre una fila para reservar un recurso",
+      "empty": "Ningún recurso coincide con los filtros",
+      "conflict": "Reserva duplicada",
+      "unavailable": "El recurso no está disponible en este horario",
+      "checking": "Comprobando disponibilidad...",
+      "book": "Reservar",
+      "bookTitle": "Reservar {resource}",
+      "booked": "{resource} reservado",
+      "bookError": "No se pudo reservar el recurso"
+    },
+    "scheduling": {
+      "findTime": "Buscar horario",
+      "required": "Obligatorio",
+      "optional": "Opcional",
+      "rooms": "Salas",
+      "previousDay": "Día anterior",
+      "nextDay": "Día siguiente",
+      "noAttendees": "Añade participantes o salas para ver su disponibilidad",
+      "suggestions": "Horarios sugeridos",
+      "loading": "Cargando disponibilidad...",
+      "noSuggestions": "No se encontró tiempo libre en común",
+      "optionalBusy": "Ocupados: {names}"
+    },
+    "print": {
+      "open": "Imprimir",
+      "title": "Imprimir calendario",
+      "description": "Elige el diseño, los calendarios y las fechas a imprimir. Se abre el diálogo de impresión del navegador, donde también puedes guardar como PDF.",
+      "layout": "Diseño",
+      "layouts": {
+        "month": "Cuadrícula mensual",
+        "week": "Cuadrícula semanal con horas",
+        "agenda": "Lista de agenda"
+      },
+      "from": "Desde",
+      "to": "Hasta",
+      "calendars": "Calendarios",
+      "preview": "Vista previa",
+      "pages": "{count} página(s)",
+      "pageOf": "Página {page} de {total}",
+      "loading": "Cargando eventos...",
+      "print": "Imprimir",
+      "more": "+{count} más",
+      "continued": "continuación",
+      "errors": {
+        "rangeRequired": "Elige el primer y el último día a imprimir",
+        "endBeforeStart": "El último día debe ser posterior al primero",
+        "rangeTooLong": "Imprime como máximo un año cada vez"
+      }
+    },
+    "year": {
+      "noEvents": "Sin eventos",
+      "oneEvent": "1 evento",
+      "events": "{count} eventos",
+      "less": "Menos",
+      "more": "Más"
+    }
   },
   "comments": {
     "addPlaceholder": "Add placeholder"
@@ -9,12 +9,15 @@ export * from "./api/calendar-resources.api";
 
 // Hooks
 export * from "./hooks/useCalendar";
+export * from "./hooks/useCalendarTimeZone";
 export * from "./hooks/useResources";
 export * from "./hooks/useReminders";
 export * from "./hooks/useEventComments";
 export * from "./hooks/useEventFiles";
+export * from "./hooks/useICalendar";
 export * from "./hooks/useEventQuickEdit";
 export * from "./hooks/useEventResize";
+export * from "./hooks/useRecurringEventEdit";
 export * from "./hooks/useTouchGestures";
 export * from "./hooks/useTouchResize";
 
@@ -54,6 +54,8 @@ export interface CalendarEvent {
   location?: string | null;
   all_day: boolean;
   status: string;
+  // IANA time zone the event was scheduled in (recurrences keep its wall clock)
+  timezone?: string | null;
 
   // Simple recurrence fields (backward compatibility)
   recurrence_type: RecurrenceType;
@@ -93,6 +95,7 @@ export interface EventCreate {
   location?: string;
   all_day?: boolean;
   status?: string;
+  timezone?: string | null;
   recurrence_type?: RecurrenceType;
   recurrence_end_date?: string;
   recurrence_count?: number;
@@ -100,6 +103,8 @@ export interface EventCreate {
   recurrence_days_of_week?: string;
   recurrence_day_of_month?: number;
   recurrence_month_of_year?: number;
+  recurrence_rule?: string | null;
+  recurrence_exdates?: string[];
   metadata?: Record<string, unknown>;
 }
 
@@ -112,6 +117,7 @@ export interface EventUpdate {
   location?: string;
   all_day?: boolean;
   status?: string;
+  timezone?: string | null;
   recurrence_type?: RecurrenceType;
   recurrence_end_date?: string;
   recurrence_count?: number;
@@ -119,6 +125,8 @@ export interface EventUpdate {
   recurrence_days_of_week?: string;
   recurrence_day_of_month?: number;
   recurrence_month_of_year?: number;
+  recurrence_rule?: string | null;
+  recurrence_exdates?: string[];
   metadata?: Record<string, unknown>;
 }
 
@@ -126,6 +134,9 @@ export interface EventUpdate {
 // Recurrence types
 export type RecurrenceType = "none" | "daily" | "weekly" | "monthly" | "yearly";
 
+// Which occurrences of a series an edit or delete applies to
+export type RecurrenceEditScope = "this" | "following" | "all";
+
 // Event reminder
 export interface EventReminder {
   id?: string;
@@ -240,7 +251,14 @@ export interface ResourceListParams {
 }
 
 // Calendar view types
-export type CalendarViewType = "month" | "week" | "day" | "agenda";
+export type CalendarViewType =
+  | "month"
+  | "week"
+  | "day"
+  | "agenda"
+  | "resources"
+  | "year"
+  | "weeks";
 
 // Calendar view configuration
 export interface CalendarViewConfig {
@@ -250,4 +268,6 @@ export interface CalendarViewConfig {
   show_weekends: boolean;
   start_hour: number;
   end_hour: number;
+  /** Weeks shown by the "weeks" view (2-6) */
+  week_count: number;
 }
@@ -0,0 +1,167 @@
+/**
+ * Calendar print utils tests
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  AGENDA_LINES_PER_PAGE,
+  buildPrintPages,
+  getDefaultPrintRange,
+  getPrintEvents,
+  getPrintLayoutForView,
+  validatePrintRange,
+  type PrintAgendaPage,
+  type PrintMonthPage,
+  type PrintWeekPage,
+} from "~/features/calendar/utils/calendarPrint";
+import type { CalendarEvent } from "~/features/calendar/types/calendar.types";
+
+// Wednesday, May 13, 2026
+const at = (day: number, hours = 0, minutes = 0) =>
+  new Date(2026, 4, day, hours, minutes);
+
+const makeEvent = (
+  id: string,
+  start: Date,
+  end: Date,
+  overrides: Partial<CalendarEvent> = {}
+): CalendarEvent =>
+  ({
+    id,
+    title: id,
+    calendar_id: "work",
+    start_time: start.toISOString(),
+    end_time: end.toISOString(),
+    all_day: false,
+    ...overrides,
+  }) as CalendarEvent;
+
+const ids = (events: CalendarEvent[]) => events.map((event) => event.id);
+
+describe("print ranges", () => {
+  it("defaults to the month, week or next 30 days of the date", () => {
+    expect(getDefaultPrintRange("month", at(13, 10))).toEqual({
+      start: at(1),
+      end: at(31),
+    });
+    expect(getDefaultPrintRange("week", at(13, 10))).toEqual({
+      start: at(11),
+      end: at(17),
+    });
+    expect(getDefaultPrintRange("agenda", at(13, 10))).toEqual({
+      start: at(13),
+      end: new Date(2026, 5, 11),
+    });
+    expect(getPrintLayoutForView("day")).toBe("week");
+    expect(getPrintLayoutForView("agenda")).toBe("agenda");
+  });
+
+  it("rejects invalid, reversed and overly long ranges", () => {
+    expect(validatePrintRange({ start: at(1), end: at(31) })).toBeNull();
+    expect(validatePrintRange({ start: at(1), end: new Date("") })).toBe(
+      "calendar.print.errors.rangeRequired"
+    );
+    expect(validatePrintRange({ start: at(13), end: at(12) })).toBe(
+      "calendar.print.errors.endBeforeStart"
+    );
+    expect(
+      validatePrintRange({ start: at(1), end: new Date(2027, 4, 2) })
+    ).toBe("calendar.print.errors.rangeTooLong");
+  });
+});
+
+describe("getPrintEvents", () => {
+  it("keeps the selected calendars' events in the range, with occurrences", () => {
+    const events = getPrintEvents(
+      [
+        makeEvent("standup", at(4, 9), at(4, 9, 15), {
+          recurrence_rule: "FREQ=WEEKLY;COUNT=4",
+        }),
+        makeEvent("review", at(12, 15), at(12, 16)),
+        makeEvent("private", at(12, 10), at(12, 11), { calendar_id: "home" }),
+        makeEvent("earlier", at(8, 10), at(8, 11)),
+      ],
+      { start: at(11), end: at(17) },
+      { calendarIds: ["work"] }
+    );
+
+    expect(events.map((event) => event.start_time)).toEqual([
+      at(11, 9).toISOString(),
+      at(12, 15).toISOString(),
+    ]);
+    expect(events[0]?.id).toContain("standup");
+  });
+
+  it("shows the times of the print time zone", () => {
+    const [event] = getPrintEvents(
+      [makeEvent("call", new Date("2026-05-13T14:00:00Z"), at(13, 15))],
+      { start: at(13), end: at(13) },
+      { timeZone: "America/New_York" }
+    );
+
+    expect(new Date(event!.start_time)).toEqual(at(13, 10));
+  });
+});
+
+describe("buildPrintPages", () => {
+  it("prints one month grid per month of the range", () => {
+    const pages = buildPrintPages("month", [], {
+      start: at(20),
+      end: new Date(2026, 5, 3),
+    }) as PrintMonthPage[];
+
+    expect(pages.map((page) => page.month)).toEqual([
+      at(1),
+      new Date(2026, 5, 1),
+    ]);
+    expect(pages[0]?.weeks).toHaveLength(5);
+    expect(pages[0]?.weeks[0]?.[0]).toEqual(new Date(2026, 3, 27));
+  });
+
+  it("splits week grids at Monday and fits the hours to the events", () => {
+    const pages = buildPrintPages(
+      "week",
+      [
+        makeEvent("early", at(14, 6), at(14, 7, 30)),
+        makeEvent("holiday", at(15), at(15), { all_day: true }),
+        makeEvent("next", at(18, 9), at(18, 10)),
+      ],
+      { start: at(13), end: at(19) }
+    ) as PrintWeekPage[];
+
+    expect(pages).toHaveLength(2);
+    expect(pages[0]?.days.map((day) => day.date.getDate())).toEqual([
+      13, 14, 15, 16, 17,
+    ]);
+    expect(pages[0]).toMatchObject({ startHour: 6, endHour: 20 });
+    expect(ids(pages[0]?.days[2]?.allDay ?? [])).toEqual(["holiday"]);
+    expect(pages[1]).toMatchObject({ startHour: 7, endHour: 20 });
+    expect(pages[1]?.days[0]?.timed[0]).toMatchObject({
+      top: (2 / 13) * 100,
+      height: (1 / 13) * 100,
+    });
+  });
+
+  it("paginates the agenda, continuing long days on the next page", () => {
+    const busyDay = Array.from({ length: AGENDA_LINES_PER_PAGE }, (_, index) =>
+      makeEvent(`event-${index}`, at(12, 8), at(12, 9))
+    );
+    const pages = buildPrintPages(
+      "agenda",
+      [makeEvent("first", at(11, 9), at(11, 10)), ...busyDay],
+      { start: at(11), end: at(17) }
+    ) as PrintAgendaPage[];
+
+    expect(pages).toHaveLength(2);
+    expect(pages[0]?.days.map((day) => day.events.length)).toEqual([
+      1,
+      AGENDA_LINES_PER_PAGE - 3,
+    ]);
+    expect(pages[1]?.days).toMatchObject([{ date: at(12), continued: true }]);
+    expect(pages[1]?.days[0]?.events).toHaveLength(3);
+
+    expect(
+      buildPrintPages("agenda", [], { start: at(11), end: at(17) })
+    ).toEqual([{ layout: "agenda", days: [] }]);
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Calendar view utils tests
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  clampWeekCount,
+  countEventsByDay,
+  getDensityLevel,
+  getViewRange,
+} from "~/features/calendar/utils/calendarViews";
+import type { CalendarEvent } from "~/features/calendar/types/calendar.types";
+
+// Wednesday, May 13, 2026
+const at = (day: number, hours = 0, minutes = 0) =>
+  new Date(2026, 4, day, hours, minutes);
+
+const makeEvent = (id: string, start: Date, end: Date): CalendarEvent =>
+  ({
+    id,
+    title: id,
+    calendar_id: "work",
+    start_time: start.toISOString(),
+    end_time: end.toISOString(),
+    all_day: false,
+  }) as CalendarEvent;
+
+describe("getViewRange", () => {
+  it("spans N weeks from the Monday of the date", () => {
+    expect(getViewRange("weeks", at(13, 10), 3)).toEqual({
+      start: at(11),
+      end: new Date(2026, 4, 31, 23, 59, 59, 999),
+    });
+    expect(getViewRange("weeks", at(13, 10), 9).end).toEqual(
+      new Date(2026, 5, 21, 23, 59, 59, 999)
+    );
+  });
+
+  it("spans the whole year of the date", () => {
+    expect(getViewRange("year", at(13, 10))).toEqual({
+      start: new Date(2026, 0, 1),
+      end: new Date(2026, 11, 31, 23, 59, 59, 999),
+    });
+  });
+});
+
+describe("clampWeekCount", () => {
+  it("keeps the week count between 2 and 6", () => {
+    expect(clampWeekCount(1)).toBe(2);
+    expect(clampWeekCount(4)).toBe(4);
+    expect(clampWeekCount(12)).toBe(6);
+    expect(clampWeekCount(Number.NaN)).toBe(2);
+  });
+});
+
+describe("countEventsByDay", () => {
+  it("counts multi-day events on each day they cover within the range", () => {
+    const counts = countEventsByDay(
+      [
+        makeEvent("review", at(12, 9), at(12, 10)),
+        makeEvent("offsite", at(11, 9), at(13, 17)),
+        makeEvent("night", at(14, 20), at(15)),
+        makeEvent("earlier", at(1, 9), at(1, 10)),
+      ],
+      at(10),
+      at(20)
+    );
+
+    expect(Object.fromEntries(counts)).toEqual({
+      "2026-05-11": 1,
+      "2026-05-12": 2,
+      "2026-05-13": 1,
+      "2026-05-14": 1,
+    });
+  });
+
+  it("clips events to the range", () => {
+    const counts = countEventsByDay(
+      [makeEvent("vacation", new Date(2025, 11, 22), new Date(2026, 0, 9))],
+      new Date(2026, 0, 1),
+      new Date(2026, 0, 2, 23, 59)
+    );
+
+    expect([...counts.keys()]).toEqual(["2026-01-01", "2026-01-02"]);
+  });
+});
+
+describe("getDensityLevel", () => {
+  it("shades days darker as events pile up", () => {
+    expect([0, 1, 2, 3, 4, 5, 6, 20].map(getDensityLevel)).toEqual([
+      0, 1, 2, 2, 3, 3, 4, 4,
+    ]);
+  });
+});
@@ -179,6 +179,15 @@ describe("eventValidation utils", () => {
       };
       expect(canResizeEvent(eventWithMetadata)).toBe(true);
     });
+
+    it("allows resizing virtual occurrences of a recurring event", () => {
+      const occurrence = {
+        ...mockEvent,
+        id: "test-event-id__2024-01-08T10:00:00.000Z",
+        metadata: { recurrence_master_id: "test-event-id" },
+      };
+      expect(canResizeEvent(occurrence)).toBe(true);
+    });
   });
 
   describe("getMinimumEventDuration", () => {
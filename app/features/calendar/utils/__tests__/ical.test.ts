@@ -0,0 +1,339 @@
+/**
+ * iCalendar import/export tests
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  exportICalendar,
+  findImportConflicts,
+  getEventAttendees,
+  parseDuration,
+  parseICalendar,
+} from "~/features/calendar/utils/ical";
+import type { CalendarEvent } from "~/features/calendar/types/calendar.types";
+
+const makeEvent = (overrides: Partial<CalendarEvent> = {}): CalendarEvent => ({
+  id: "event-1",
+  tenant_id: "tenant-1",
+  calendar_id: "calendar-1",
+  title: "Team sync",
+  start_time: "2026-03-10T09:00:00.000Z",
+  end_time: "2026-03-10T10:00:00.000Z",
+  all_day: false,
+  status: "confirmed",
+  recurrence_type: "none",
+  recurrence_interval: 1,
+  read_only: false,
+  created_at: "2026-01-01T00:00:00Z",
+  updated_at: "2026-01-01T00:00:00Z",
+  ...overrides,
+});
+
+const NOW = new Date("2026-03-01T12:00:00.000Z");
+
+const unfold = (ics: string) => ics.replace(/\r\n /g, "").split("\r\n");
+
+describe("exportICalendar", () => {
+  it("builds a VCALENDAR with one VEVENT per event", () => {
+    const ics = exportICalendar([makeEvent()], {
+      calendarName: "Sales",
+      now: NOW,
+    });
+    const lines = ics.split("\r\n");
+
+    expect(lines.slice(0, 3)).toEqual([
+      "BEGIN:VCALENDAR",
+      "VERSION:2.0",
+      "PRODID:-//ERP//Calendar//EN",
+    ]);
+    expect(lines).toContain("X-WR-CALNAME:Sales");
+    expect(lines).toContain("UID:event-1");
+    expect(lines).toContain("DTSTAMP:20260301T120000Z");
+    expect(lines).toContain("DTSTART:20260310T090000Z");
+    expect(lines).toContain("DTEND:20260310T100000Z");
+    expect(lines).toContain("STATUS:CONFIRMED");
+    expect(ics.endsWith("END:VEVENT\r\nEND:VCALENDAR\r\n")).toBe(true);
+  });
+
+  it("escapes text and folds long lines at 75 octets", () => {
+    const description = `Agenda; budget, hiring\nNotes: ${"ñ".repeat(80)}`;
+    const ics = exportICalendar([makeEvent({ description })], { now: NOW });
+
+    ics.split("\r\n").forEach((line) => {
+      expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75);
+    });
+    expect(unfold(ics)).toContain(
+      `DESCRIPTION:Agenda\\; budget\\, hiring\\nNotes: ${"ñ".repeat(80)}`
+    );
+  });
+
+  it("exports all-day events with exclusive DATE end", () => {
+    const ics = exportICalendar(
+      [
+        makeEvent({
+          all_day: true,
+          start_time: new Date(2026, 2, 10).toISOString(),
+          end_time: new Date(2026, 2, 11, 23, 59, 59).toISOString(),
+        }),
+      ],
+      { now: NOW }
+    );
+
+    expect(ics).toContain("DTSTART;VALUE=DATE:20260310\r\n");
+    expect(ics).toContain("DTEND;VALUE=DATE:20260312\r\n");
+  });
+
+  it("includes recurrence, exceptions, attendees and alarms", () => {
+    const event = makeEvent({
+      recurrence_type: "weekly",
+      recurrence_rule: "FREQ=WEEKLY;COUNT=5;BYDAY=TU",
+      recurrence_exdates: ["2026-03-17T09:00:00.000Z"],
+    });
+    const lines = unfold(
+      exportICalendar([event], {
+        now: NOW,
+        reminders: {
+          "event-1": [
+            { minutes_before: 15, reminder_type: "in_app" },
+            { minutes_before: 1530, reminder_type: "email" },
+          ],
+        },
+        attendees: {
+          "event-1": [
+            { email: "ana@example.com", name: "Doe, Ana", status: "accepted" },
+            { name: "No email", status: "pending" },
+          ],
+        },
+      })
+    );
+
+    expect(lines).toContain("RRULE:FREQ=WEEKLY;COUNT=5;BYDAY=TU");
+    expect(lines).toContain("EXDATE:20260317T090000Z");
+    expect(
+      lines.filter((line) => line.startsWith("ATTENDEE")).slice(0, 1)
+    ).toEqual([
+      'ATTENDEE;CN="Doe, Ana";PARTSTAT=ACCEPTED:mailto:ana@example.com',
+    ]);
+    expect(lines).toContain("TRIGGER:-PT15M");
+    expect(lines).toContain("TRIGGER:-P1DT1H30M");
+    expect(lines.filter((line) => line === "ACTION:EMAIL")).toHaveLength(1);
+    expect(lines.filter((line) => line === "ACTION:DISPLAY")).toHaveLength(1);
+  });
+});
+
+describe("parseICalendar", () => {
+  const ics = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "X-WR-CALNAME:Imported",
+    "BEGIN:VTIMEZONE",
+    "TZID:Europe/Madrid",
+    "END:VTIMEZONE",
+    "BEGIN:VEVENT",
+    "UID:abc@example.com",
+    "DTSTART;TZID=Europe/Madrid:20260710T090000",
+    "DURATION:PT1H30M",
+    "SUMMARY:Planning\\, Q3",
+    "DESCRIPTION:First line\\nSecond line with a long text that is folded ",
+    " across two lines",
+    "LOCATION:Room 1",
+    "STATUS:TENTATIVE",
+    "RRULE:FREQ=WEEKLY;BYDAY=FR;UNTIL=20260831T000000Z",
+    "EXDATE;TZID=Europe/Madrid:20260717T090000,20260724T090000",
+    'ATTENDEE;CN="Ruiz, Eva";PARTSTAT=DECLINED:mailto:eva@example.com',
+    "BEGIN:VALARM",
+    "ACTION:EMAIL",
+    "TRIGGER:-PT1H",
+    "END:VALARM",
+    "BEGIN:VALARM",
+    "ACTION:DISPLAY",
+    "TRIGGER;RELATED=END:PT0S",
+    "END:VALARM",
+    "END:VEVENT",
+    "BEGIN:VEVENT",
+    "UID:holiday",
+    "DTSTART;VALUE=DATE:20260815",
+    "SUMMARY:Holiday",
+    "END:VEVENT",
+    "BEGIN:VEVENT",
+    "SUMMARY:No start",
+    "END:VEVENT",
+    "END:VCALENDAR",
+  ].join("\r\n");
+
+  it("reads events, converting TZID times to UTC", () => {
+    const result = parseICalendar(ics);
+
+    expect(result.calendarName).toBe("Imported");
+    expect(result.skipped).toBe(1);
+    expect(result.events).toHaveLength(2);
+
+    const [planning] = result.events;
+    expect(planning?.uid).toBe("abc@example.com");
+    expect(planning?.event).toMatchObject({
+      title: "Planning, Q3",
+      description:
+        "First line\nSecond line with a long text that is folded across two lines",
+      location: "Room 1",
+      status: "tentative",
+      start_time: "2026-07-10T07:00:00.000Z",
+      end_time: "2026-07-10T08:30:00.000Z",
+      all_day: false,
+      recurrence_type: "weekly",
+      recurrence_rule: "FREQ=WEEKLY;UNTIL=20260831T000000Z;BYDAY=FR",
+      recurrence_exdates: [
+        "2026-07-17T07:00:00.000Z",
+        "2026-07-24T07:00:00.000Z",
+      ],
+      timezone: "Europe/Madrid",
+      metadata: { ical_uid: "abc@example.com" },
+    });
+  });
+
+  it("keeps start-relative alarms and attendees", () => {
+    const [planning] = parseICalendar(ics).events;
+
+    expect(planning?.reminders).toEqual([
+      { minutes_before: 60, reminder_type: "email" },
+    ]);
+    expect(planning?.attendees).toEqual([
+      { email: "eva@example.com", name: "Ruiz, Eva", status: "declined" },
+    ]);
+  });
+
+  it("stores all-day events up to the end of their last day", () => {
+    const holiday = parseICalendar(ics).events[1];
+
+    expect(holiday?.event).toMatchObject({
+      all_day: true,
+      start_time: new Date(2026, 7, 15).toISOString(),
+      end_time: new Date(2026, 7, 15, 23, 59, 59).toISOString(),
+    });
+  });
+
+  it("reads back what it exports", () => {
+    const event = makeEvent({
+      description: "Line 1\nLine 2; with, separators",
+      recurrence_type: "daily",
+      recurrence_rule: "FREQ=DAILY;COUNT=3",
+    });
+    const [parsed] = parseICalendar(
+      exportICalendar([event], {
+        now: NOW,
+        reminders: {
+          "event-1": [{ minutes_before: 30, reminder_type: "in_app" }],
+        },
+      })
+    ).events;
+
+    expect(parsed?.event).toMatchObject({
+      title: event.title,
+      description: event.description,
+      start_time: event.start_time,
+      end_time: event.end_time,
+      recurrence_rule: "FREQ=DAILY;COUNT=3",
+    });
+    expect(parsed?.reminders).toEqual([
+      { minutes_before: 30, reminder_type: "in_app" },
+    ]);
+  });
+
+  it("keeps the time zone of zoned events through export and import", () => {
+    // Mondays at 09:00 Madrid time, across the March DST change
+    const event = makeEvent({
+      start_time: "2026-03-23T08:00:00.000Z",
+      end_time: "2026-03-23T09:00:00.000Z",
+      timezone: "Europe/Madrid",
+      recurrence_type: "weekly",
+      recurrence_rule: "FREQ=WEEKLY;COUNT=4;BYDAY=MO",
+      recurrence_exdates: ["2026-03-30T07:00:00.000Z"],
+    });
+    const ics = exportICalendar([event], { now: NOW });
+    const lines = unfold(ics);
+
+    expect(lines).toContain("DTSTART;TZID=Europe/Madrid:20260323T090000");
+    expect(lines).toContain("DTEND;TZID=Europe/Madrid:20260323T100000");
+    expect(lines).toContain("EXDATE;TZID=Europe/Madrid:20260330T090000");
+
+    const [parsed] = parseICalendar(ics).events;
+    expect(parsed?.event).toMatchObject({
+      start_time: event.start_time,
+      end_time: event.end_time,
+      timezone: "Europe/Madrid",
+      recurrence_exdates: event.recurrence_exdates,
+    });
+  });
+
+  it("returns no events for text that is not iCalendar", () => {
+    expect(parseICalendar("hello")).toEqual({ events: [], skipped: 0 });
+  });
+});
+
+describe("parseDuration", () => {
+  it("converts durations to milliseconds", () => {
+    expect(parseDuration("PT1H30M")).toBe(90 * 60000);
+    expect(parseDuration("-P1D")).toBe(-86400000);
+    expect(parseDuration("P2W")).toBe(14 * 86400000);
+    expect(parseDuration("P")).toBeNull();
+    expect(parseDuration("1H")).toBeNull();
+  });
+});
+
+describe("getEventAttendees", () => {
+  it("combines imported attendees with the selected users", () => {
+    const event = makeEvent({
+      metadata: {
+        attendees: [{ email: "guest@example.com", status: "tentative" }],
+        attendee_ids: ["user-1", "missing"],
+      },
+    });
+
+    expect(
+      getEventAttendees(event, [
+        { id: "user-1", email: "ana@example.com", full_name: "Ana" },
+      ])
+    ).toEqual([
+      { email: "guest@example.com", status: "tentative" },
+      {
+        user_id: "user-1",
+        email: "ana@example.com",
+        name: "Ana",
+        status: "pending",
+      },
+    ]);
+  });
+});
+
+describe("findImportConflicts", () => {
+  const [imported] = parseICalendar(
+    exportICalendar([makeEvent({ id: "remote-1" })], { now: NOW })
+  ).events;
+
+  it("detects duplicates by UID or by title and start", () => {
+    const byUid = makeEvent({ id: "a", metadata: { ical_uid: "remote-1" } });
+    const byTitle = makeEvent({ id: "b" });
+
+    expect(findImportConflicts(imported!, [byUid]).duplicateOf).toBe(byUid);
+    expect(findImportConflicts(imported!, [byTitle]).duplicateOf).toBe(byTitle);
+  });
+
+  it("lists overlapping events", () => {
+    const overlapping = makeEvent({
+      id: "c",
+      title: "Other",
+      start_time: "2026-03-10T09:30:00.000Z",
+      end_time: "2026-03-10T11:00:00.000Z",
+    });
+    const adjacent = makeEvent({
+      id: "d",
+      title: "Later",
+      start_time: "2026-03-10T10:00:00.000Z",
+      end_time: "2026-03-10T11:00:00.000Z",
+    });
+
+    expect(findImportConflicts(imported!, [overlapping, adjacent])).toEqual({
+      duplicateOf: undefined,
+      overlaps: [overlapping],
+    });
+  });
+});
@@ -9,8 +9,13 @@ import {
   configToBackend,
   backendToConfig,
   validateRecurrence,
+  expandRecurringEvents,
+  getEventRecurrenceRule,
+  getRecurrenceMasterId,
+  isRecurrenceOccurrence,
 } from "~/features/calendar/utils/recurrence";
 import type { RecurrenceConfig } from "~/features/calendar/components/RecurrenceEditor";
+import type { CalendarEvent } from "~/features/calendar/types/calendar.types";
 
 describe("recurrence utils", () => {
   describe("calculateNextOccurrences", () => {
@@ -418,4 +423,199 @@ describe("recurrence utils", () => {
       expect(result).toBeNull();
     });
   });
+
+  describe("RRULE support", () => {
+    const mockT = (key: string) => key;
+
+    const makeEvent = (overrides: Partial<CalendarEvent> = {}): CalendarEvent => ({
+      id: "event-1",
+      tenant_id: "tenant-1",
+      calendar_id: "calendar-1",
+      title: "Team sync",
+      start_time: new Date(2026, 0, 13, 10).toISOString(),
+      end_time: new Date(2026, 0, 13, 11).toISOString(),
+      all_day: false,
+      status: "confirmed",
+      recurrence_type: "none",
+      recurrence_interval: 1,
+      read_only: false,
+      created_at: "2026-01-01T00:00:00Z",
+      updated_at: "2026-01-01T00:00:00Z",
+      ...overrides,
+    });
+
+    it("includes every selected weekday in weekly occurrences", () => {
+      const config: RecurrenceConfig = {
+        type: "weekly",
+        interval: 1,
+        daysOfWeek: [1, 3],
+      };
+
+      const result = calculateNextOccurrences(new Date(2024, 0, 1), config, 4);
+
+      expect(result.map((date) => date.getDate())).toEqual([1, 3, 8, 10]);
+    });
+
+    it("calculates occurrences from an RRULE string", () => {
+      const result = calculateNextOccurrences(
+        new Date(2026, 0, 13),
+        "FREQ=MONTHLY;BYDAY=2TU",
+        3
+      );
+
+      expect(result).toEqual([
+        new Date(2026, 0, 13),
+        new Date(2026, 1, 10),
+        new Date(2026, 2, 10),
+      ]);
+    });
+
+    it("formats ordinal weekdays", () => {
+      expect(formatRecurrence("FREQ=MONTHLY;BYDAY=2TU", mockT)).toBe(
+        "calendar.recurrence.monthly calendar.recurrence.on calendar.recurrence.ordinals.second calendar.weekdays.tue"
+      );
+    });
+
+    it("formats BYSETPOS, month days, months and COUNT", () => {
+      expect(
+        formatRecurrence("FREQ=MONTHLY;BYDAY=MO,FR;BYSETPOS=-1", mockT)
+      ).toBe(
+        "calendar.recurrence.monthly calendar.recurrence.on calendar.recurrence.ordinals.last calendar.weekdays.mon calendar.recurrence.and calendar.weekdays.fri"
+      );
+      expect(formatRecurrence("FREQ=MONTHLY;BYMONTHDAY=-1,1", mockT)).toBe(
+        "calendar.recurrence.monthly calendar.recurrence.on calendar.recurrence.day 1 calendar.recurrence.and calendar.recurrence.ordinals.last calendar.recurrence.day"
+      );
+      expect(
+        formatRecurrence("FREQ=YEARLY;INTERVAL=2;BYMONTH=3;COUNT=5", mockT)
+      ).toBe(
+        "calendar.recurrence.interval 2 calendar.recurrence.years calendar.recurrence.in calendar.months.mar, calendar.recurrence.times"
+      );
+    });
+
+    it("formats invalid RRULE strings as no recurrence", () => {
+      expect(formatRecurrence("FREQ=SOMETIMES", mockT)).toBe(
+        "calendar.recurrence.none"
+      );
+    });
+
+    it("prefers recurrence_rule over the simple recurrence fields", () => {
+      const rule = getEventRecurrenceRule(
+        makeEvent({
+          recurrence_type: "daily",
+          recurrence_rule: "RRULE:FREQ=MONTHLY;BYDAY=2TU",
+        })
+      );
+
+      expect(rule?.freq).toBe("MONTHLY");
+      expect(rule?.byDay).toEqual([{ day: 2, ordinal: 2 }]);
+    });
+
+    it("builds a rule from the simple recurrence fields", () => {
+      const rule = getEventRecurrenceRule(
+        makeEvent({
+          recurrence_type: "weekly",
+          recurrence_interval: 2,
+          recurrence_days_of_week: "1,3",
+          recurrence_end_date: "2026-03-31",
+        })
+      );
+
+      expect(rule).toMatchObject({
+        freq: "WEEKLY",
+        interval: 2,
+        byDay: [{ day: 1 }, { day: 3 }],
+        until: new Date(2026, 2, 31, 23, 59, 59, 999),
+      });
+      expect(getEventRecurrenceRule(makeEvent())).toBeNull();
+    });
+
+    it("keeps non-recurring events untouched", () => {
+      const event = makeEvent();
+
+      expect(
+        expandRecurringEvents([event], new Date(2030, 0, 1), new Date(2030, 0, 31))
+      ).toEqual([event]);
+    });
+
+    it("expands a series into the occurrences of the range", () => {
+      const event = makeEvent({
+        recurrence_rule: "FREQ=MONTHLY;BYDAY=2TU",
+        recurrence_exdates: [new Date(2026, 2, 10, 10).toISOString()],
+      });
+
+      const result = expandRecurringEvents(
+        [event],
+        new Date(2026, 0, 1),
+        new Date(2026, 3, 30)
+      );
+
+      // The first occurrence is the stored event itself
+      expect(result[0]).toBe(event);
+      expect(result.map((item) => new Date(item.start_time))).toEqual([
+        new Date(2026, 0, 13, 10),
+        new Date(2026, 1, 10, 10),
+        new Date(2026, 3, 14, 10),
+      ]);
+
+      const occurrence = result[1]!;
+      expect(occurrence.id).toBe(`event-1__${occurrence.start_time}`);
+      expect(occurrence.end_time).toBe(new Date(2026, 1, 10, 11).toISOString());
+      expect(isRecurrenceOccurrence(occurrence)).toBe(true);
+      expect(getRecurrenceMasterId(occurrence)).toBe("event-1");
+      expect(isRecurrenceOccurrence(event)).toBe(false);
+      expect(getRecurrenceMasterId(event)).toBe("event-1");
+    });
+
+    it("includes occurrences that started before the range but are still running", () => {
+      const event = makeEvent({
+        start_time: new Date(2026, 0, 5, 22).toISOString(),
+        end_time: new Date(2026, 0, 6, 2).toISOString(),
+        recurrence_rule: "FREQ=DAILY",
+      });
+
+      const result = expandRecurringEvents(
+        [event],
+        new Date(2026, 0, 10),
+        new Date(2026, 0, 10, 23, 59)
+      );
+
+      expect(result.map((item) => new Date(item.start_time))).toEqual([
+        new Date(2026, 0, 9, 22),
+        new Date(2026, 0, 10, 22),
+      ]);
+    });
+
+    it("expands in the event's time zone, or the calendar's one", () => {
+      const event = makeEvent({
+        start_time: "2026-10-20T16:00:00.000Z",
+        end_time: "2026-10-20T17:00:00.000Z",
+        recurrence_rule: "FREQ=WEEKLY;COUNT=2",
+      });
+      const range = [new Date("2026-10-01"), new Date("2026-11-30")] as const;
+
+      // 10:00 in Mexico City, where there is no DST
+      expect(
+        expandRecurringEvents([event], ...range, "America/Mexico_City").map(
+          (item) => item.start_time
+        )
+      ).toEqual(["2026-10-20T16:00:00.000Z", "2026-10-27T16:00:00.000Z"]);
+
+      // 12:00 in New York, which leaves DST on November 1
+      const scheduled = { ...event, id: "event-2", timezone: "America/New_York" };
+      expect(
+        expandRecurringEvents([scheduled], ...range, "America/Mexico_City").map(
+          (item) => item.start_time
+        )
+      ).toEqual(["2026-10-20T16:00:00.000Z", "2026-10-27T16:00:00.000Z"]);
+
+      const later = {
+        ...scheduled,
+        start_time: "2026-10-27T16:00:00.000Z",
+        end_time: "2026-10-27T17:00:00.000Z",
+      };
+      expect(
+        expandRecurringEvents([later], ...range).map((item) => item.start_time)
+      ).toEqual(["2026-10-27T16:00:00.000Z", "2026-11-03T17:00:00.000Z"]);
+    });
+  });
 });
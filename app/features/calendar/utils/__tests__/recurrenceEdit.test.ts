@@ -0,0 +1,254 @@
+/**
+ * Recurring event edit tests
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  getOccurrenceStart,
+  getRecurrenceMaster,
+  planRecurrenceDelete,
+  planRecurrenceEdit,
+} from "~/features/calendar/utils/recurrenceEdit";
+import { expandRecurringEvents } from "~/features/calendar/utils/recurrence";
+import { parseRRule } from "~/features/calendar/utils/rrule";
+import type { CalendarEvent } from "~/features/calendar/types/calendar.types";
+
+const at = (day: number, hour = 10) =>
+  new Date(2026, 0, day, hour).toISOString();
+const FEB_3 = new Date(2026, 1, 3, 10).toISOString();
+
+// Weekly on Tuesdays at 10:00, ten times from Tuesday January 13, 2026
+const makeSeries = (overrides: Partial<CalendarEvent> = {}): CalendarEvent => ({
+  id: "series-1",
+  tenant_id: "tenant-1",
+  calendar_id: "calendar-1",
+  title: "Team sync",
+  start_time: at(13),
+  end_time: at(13, 11),
+  all_day: false,
+  status: "confirmed",
+  recurrence_type: "weekly",
+  recurrence_interval: 1,
+  recurrence_rule: "FREQ=WEEKLY;COUNT=10;BYDAY=TU",
+  read_only: false,
+  metadata: { tag_ids: ["tag-1"] },
+  created_at: "2026-01-01T00:00:00Z",
+  updated_at: "2026-01-01T00:00:00Z",
+  ...overrides,
+});
+
+const getOccurrence = (series: CalendarEvent, day: number): CalendarEvent => {
+  const occurrence = expandRecurringEvents(
+    [series],
+    new Date(2026, 0, 1),
+    new Date(2026, 2, 31)
+  ).find((event) => event.start_time === at(day));
+  if (!occurrence) throw new Error(`No occurrence on January ${day}`);
+  return occurrence;
+};
+
+describe("getRecurrenceMaster", () => {
+  it("rebuilds the series from a virtual occurrence", () => {
+    const series = makeSeries();
+    const occurrence = getOccurrence(series, 27);
+
+    expect(getOccurrenceStart(occurrence)).toBe(at(27));
+    expect(getRecurrenceMaster(occurrence)).toEqual(series);
+  });
+
+  it("keeps the original times of an occurrence that was already resized", () => {
+    const occurrence = {
+      ...getOccurrence(makeSeries(), 27),
+      end_time: at(27, 12),
+    };
+
+    expect(getOccurrenceStart(occurrence)).toBe(at(27));
+    expect(getRecurrenceMaster(occurrence).end_time).toBe(at(13, 11));
+  });
+
+  it("returns other events unchanged", () => {
+    const series = makeSeries();
+    expect(getRecurrenceMaster(series)).toBe(series);
+    expect(getOccurrenceStart(series)).toBe(series.start_time);
+  });
+});
+
+describe("planRecurrenceEdit", () => {
+  it("turns a single occurrence into an exception and a detached event", () => {
+    const series = makeSeries({ recurrence_exdates: [at(20)] });
+    const plan = planRecurrenceEdit(getOccurrence(series, 27), "this", {
+      title: "Moved sync",
+      start_time: at(27, 15),
+      end_time: at(27, 16),
+    });
+
+    expect(plan.updates).toEqual([
+      { id: "series-1", payload: { recurrence_exdates: [at(20), at(27)] } },
+    ]);
+    expect(plan.creates).toEqual([
+      expect.objectContaining({
+        calendar_id: "calendar-1",
+        title: "Moved sync",
+        start_time: at(27, 15),
+        end_time: at(27, 16),
+        recurrence_type: "none",
+        recurrence_rule: null,
+        metadata: {
+          tag_ids: ["tag-1"],
+          recurrence_override_of: "series-1",
+          recurrence_original_start: at(27),
+        },
+      }),
+    ]);
+    expect(plan.deletes).toEqual([]);
+  });
+
+  it("splits the series for this and following occurrences", () => {
+    const series = makeSeries({ recurrence_exdates: [at(20), FEB_3] });
+    const plan = planRecurrenceEdit(getOccurrence(series, 27), "following", {
+      title: "New sync",
+    });
+
+    const [update] = plan.updates;
+    expect(update?.id).toBe("series-1");
+    const truncated = parseRRule(update?.payload.recurrence_rule);
+    expect(truncated?.count).toBeUndefined();
+    expect(truncated?.until?.getTime()).toBeLessThan(
+      new Date(at(27)).getTime()
+    );
+    expect(truncated?.until?.getTime()).toBeGreaterThan(
+      new Date(at(20)).getTime()
+    );
+    expect(update?.payload.recurrence_exdates).toEqual([at(20)]);
+
+    const [created] = plan.creates;
+    expect(created).toMatchObject({
+      title: "New sync",
+      start_time: at(27),
+      end_time: at(27, 11),
+      recurrence_type: "weekly",
+      recurrence_exdates: [FEB_3],
+    });
+    // Two of the ten occurrences stay in the original series
+    expect(parseRRule(created?.recurrence_rule)).toMatchObject({
+      freq: "WEEKLY",
+      count: 8,
+      byDay: [{ day: 2 }],
+    });
+  });
+
+  it("keeps the weekday of a split series in line with its new start", () => {
+    const plan = planRecurrenceEdit(
+      getOccurrence(makeSeries(), 27),
+      "following",
+      { start_time: at(28), end_time: at(28, 11) }
+    );
+
+    expect(parseRRule(plan.creates[0]?.recurrence_rule)?.byDay).toEqual([
+      { day: 3 },
+    ]);
+  });
+
+  it("keeps the time zone of a zoned series on the events it creates", () => {
+    // Tuesdays at 09:00 Madrid time, across the March DST change
+    const series = makeSeries({
+      start_time: "2026-03-17T08:00:00.000Z",
+      end_time: "2026-03-17T09:00:00.000Z",
+      timezone: "Europe/Madrid",
+    });
+    const [, , occurrence] = expandRecurringEvents(
+      [series],
+      new Date(2026, 2, 1),
+      new Date(2026, 3, 30)
+    );
+    if (!occurrence) throw new Error("No third occurrence");
+
+    const single = planRecurrenceEdit(occurrence, "this", { title: "Moved" });
+    const following = planRecurrenceEdit(occurrence, "following", {
+      title: "New sync",
+    });
+
+    expect(single.creates[0]?.timezone).toBe("Europe/Madrid");
+    expect(following.creates[0]?.timezone).toBe("Europe/Madrid");
+    // The occurrence after the DST change still starts at 09:00 in Madrid
+    expect(following.creates[0]?.start_time).toBe("2026-03-31T07:00:00.000Z");
+  });
+
+  it("updates the whole series when editing from its first occurrence", () => {
+    const series = makeSeries();
+    const plan = planRecurrenceEdit(series, "following", { title: "Renamed" });
+
+    expect(plan).toEqual({
+      updates: [{ id: "series-1", payload: { title: "Renamed" } }],
+      creates: [],
+      deletes: [],
+    });
+  });
+
+  it("moves every occurrence by the same amount for all events", () => {
+    const series = makeSeries({ recurrence_exdates: [at(20)] });
+    const plan = planRecurrenceEdit(getOccurrence(series, 27), "all", {
+      start_time: at(28),
+      end_time: at(28, 11),
+    });
+
+    const payload = plan.updates[0]?.payload;
+    expect(payload?.start_time).toBe(at(14));
+    expect(payload?.end_time).toBe(at(14, 11));
+    expect(payload?.recurrence_exdates).toEqual([at(21)]);
+    expect(parseRRule(payload?.recurrence_rule)?.byDay).toEqual([{ day: 3 }]);
+  });
+
+  it("only changes the length of the series when an occurrence is resized", () => {
+    const occurrence = getOccurrence(makeSeries(), 27);
+    const plan = planRecurrenceEdit(
+      { ...occurrence, end_time: at(27, 12) },
+      "all",
+      { start_time: at(27), end_time: at(27, 12) }
+    );
+
+    expect(plan.updates[0]?.payload).toEqual({
+      start_time: at(13),
+      end_time: at(13, 12),
+    });
+  });
+
+  it("clears the rule when recurrence is turned off for all events", () => {
+    const plan = planRecurrenceEdit(getOccurrence(makeSeries(), 27), "all", {
+      recurrence_type: "none",
+    });
+
+    expect(plan.updates[0]?.payload).toMatchObject({
+      recurrence_type: "none",
+      recurrence_rule: null,
+      recurrence_exdates: [],
+    });
+  });
+});
+
+describe("planRecurrenceDelete", () => {
+  const occurrence = getOccurrence(makeSeries(), 27);
+
+  it("adds an exception for a single occurrence", () => {
+    expect(planRecurrenceDelete(occurrence, "this")).toEqual({
+      updates: [{ id: "series-1", payload: { recurrence_exdates: [at(27)] } }],
+      creates: [],
+      deletes: [],
+    });
+  });
+
+  it("ends the series before this and following occurrences", () => {
+    const plan = planRecurrenceDelete(occurrence, "following");
+
+    const until = parseRRule(plan.updates[0]?.payload.recurrence_rule)?.until;
+    expect(until?.getTime()).toBeLessThan(new Date(at(27)).getTime());
+    expect(plan.creates).toEqual([]);
+    expect(plan.deletes).toEqual([]);
+  });
+
+  it("deletes the series for all events or from its first occurrence", () => {
+    const expected = { updates: [], creates: [], deletes: ["series-1"] };
+    expect(planRecurrenceDelete(occurrence, "all")).toEqual(expected);
+    expect(planRecurrenceDelete(makeSeries(), "following")).toEqual(expected);
+  });
+});
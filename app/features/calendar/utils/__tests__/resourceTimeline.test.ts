@@ -0,0 +1,139 @@
+/**
+ * Resource timeline utils tests
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  filterResources,
+  findBookingConflicts,
+  getOverlappingBookings,
+  getResourceBookings,
+  getSlotRange,
+} from "~/features/calendar/utils/resourceTimeline";
+import type {
+  CalendarEvent,
+  CalendarResource,
+} from "~/features/calendar/types/calendar.types";
+
+const makeResource = (
+  overrides: Partial<CalendarResource>
+): CalendarResource => ({
+  id: "room-a",
+  tenant_id: "tenant-1",
+  name: "Room A",
+  resource_type: "room",
+  capacity: 8,
+  is_active: true,
+  created_at: "2026-01-01T00:00:00Z",
+  updated_at: "2026-01-01T00:00:00Z",
+  ...overrides,
+});
+
+const makeEvent = (id: string, start: Date, end: Date): CalendarEvent =>
+  ({
+    id,
+    title: id,
+    start_time: start.toISOString(),
+    end_time: end.toISOString(),
+    all_day: false,
+  }) as CalendarEvent;
+
+const DAY = new Date(2026, 4, 12);
+const at = (hours: number, minutes = 0, day = 12) =>
+  new Date(2026, 4, day, hours, minutes);
+
+describe("filterResources", () => {
+  const resources = [
+    makeResource({}),
+    makeResource({ id: "hall", capacity: 40 }),
+    makeResource({ id: "screen", resource_type: "equipment", capacity: null }),
+  ];
+
+  it("filters by type and minimum capacity", () => {
+    const ids = (list: CalendarResource[]) => list.map((item) => item.id);
+
+    expect(ids(filterResources(resources, {}))).toEqual([
+      "room-a",
+      "hall",
+      "screen",
+    ]);
+    expect(
+      ids(filterResources(resources, { resourceType: "equipment" }))
+    ).toEqual(["screen"]);
+    expect(ids(filterResources(resources, { minCapacity: 10 }))).toEqual([
+      "hall",
+    ]);
+  });
+});
+
+describe("getSlotRange", () => {
+  it("covers the selected slots in either direction", () => {
+    expect(getSlotRange(DAY, 18, 20)).toEqual({
+      start: at(9),
+      end: at(10, 30),
+    });
+    expect(getSlotRange(DAY, 20, 18)).toEqual({
+      start: at(9),
+      end: at(10, 30),
+    });
+    expect(getSlotRange(DAY, 47, 47)).toEqual({
+      start: at(23, 30),
+      end: at(0, 0, 13),
+    });
+  });
+});
+
+describe("getResourceBookings", () => {
+  it("places each event on its resources, clipped to the day", () => {
+    const overnight = makeEvent("overnight", at(22, 0, 11), at(6));
+    const meeting = makeEvent("meeting", at(12), at(18));
+    const tomorrow = makeEvent("tomorrow", at(9, 0, 13), at(10, 0, 13));
+    const bookings = getResourceBookings(
+      [meeting, overnight, tomorrow],
+      new Map([
+        ["meeting", ["room-a", "screen"]],
+        ["overnight", ["room-a"]],
+        ["tomorrow", ["room-a"]],
+      ]),
+      DAY
+    );
+
+    const roomA = bookings.get("room-a") ?? [];
+    expect(roomA.map((item) => item.event.id)).toEqual([
+      "overnight",
+      "meeting",
+    ]);
+    expect(roomA[0]).toMatchObject({ start: at(0), offset: 0, width: 0.25 });
+    expect(roomA[1]).toMatchObject({ offset: 0.5, width: 0.25 });
+    expect(bookings.get("screen")?.map((item) => item.event.id)).toEqual([
+      "meeting",
+    ]);
+  });
+});
+
+describe("findBookingConflicts", () => {
+  it("flags overlapping bookings of the same resource only", () => {
+    const bookings = getResourceBookings(
+      [
+        makeEvent("a", at(9), at(10)),
+        makeEvent("b", at(9, 30), at(11)),
+        makeEvent("c", at(11), at(12)),
+        makeEvent("d", at(9), at(10)),
+      ],
+      new Map([
+        ["a", ["room-a"]],
+        ["b", ["room-a"]],
+        ["c", ["room-a"]],
+        ["d", ["room-b"]],
+      ]),
+      DAY
+    );
+
+    expect(findBookingConflicts(bookings)).toEqual(new Set(["a", "b"]));
+    expect(
+      getOverlappingBookings(bookings.get("room-a") ?? [], at(10), at(11)).map(
+        (item) => item.event.id
+      )
+    ).toEqual(["b"]);
+  });
+});
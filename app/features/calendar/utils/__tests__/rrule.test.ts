@@ -0,0 +1,434 @@
+/**
+ * RRULE parser and expander tests
+ */
+
+import { describe, it, expect } from "vitest";
+import { format } from "date-fns";
+import {
+  expandRRule,
+  MAX_OCCURRENCES,
+  parseICalDate,
+  parseRRule,
+  serializeRRule,
+  type ExpandOptions,
+} from "~/features/calendar/utils/rrule";
+
+// Local date helper (month is 1-based)
+const at = (year: number, month: number, day: number, hours = 9, minutes = 0) =>
+  new Date(year, month - 1, day, hours, minutes);
+
+const expandDays = (rule: string, start: Date, options?: ExpandOptions) =>
+  expandRRule(rule, start, options).map((date) => format(date, "yyyy-MM-dd"));
+
+describe("parseRRule", () => {
+  it("parses parts case-insensitively with an optional RRULE: prefix", () => {
+    expect(parseRRule("rrule:freq=weekly;interval=2;byday=mo,we")).toEqual({
+      freq: "WEEKLY",
+      interval: 2,
+      byDay: [{ day: 1 }, { day: 3 }],
+      byMonthDay: [],
+      byMonth: [],
+      byYearDay: [],
+      bySetPos: [],
+      wkst: 1,
+    });
+  });
+
+  it("parses BYDAY ordinals and list parts", () => {
+    const rule = parseRRule(
+      "FREQ=MONTHLY;BYDAY=2TU,-1FR,+3MO;BYMONTHDAY=1,-1;BYSETPOS=-1;WKST=SU"
+    );
+    expect(rule?.byDay).toEqual([
+      { day: 2, ordinal: 2 },
+      { day: 5, ordinal: -1 },
+      { day: 1, ordinal: 3 },
+    ]);
+    expect(rule?.byMonthDay).toEqual([1, -1]);
+    expect(rule?.bySetPos).toEqual([-1]);
+    expect(rule?.wkst).toBe(0);
+  });
+
+  it("parses COUNT and both forms of UNTIL", () => {
+    expect(parseRRule("FREQ=DAILY;COUNT=10")?.count).toBe(10);
+    // A DATE value includes the whole day
+    expect(parseRRule("FREQ=DAILY;UNTIL=20260331")?.until).toEqual(
+      new Date(2026, 2, 31, 23, 59, 59, 999)
+    );
+    expect(
+      parseRRule("FREQ=DAILY;UNTIL=20260331T120000Z")?.until?.getTime()
+    ).toBe(Date.UTC(2026, 2, 31, 12));
+  });
+
+  it("ignores unknown extension parts", () => {
+    expect(parseRRule("FREQ=YEARLY;X-NAME=value")?.freq).toBe("YEARLY");
+  });
+
+  it.each([
+    ["empty rule", ""],
+    ["missing FREQ", "INTERVAL=2"],
+    ["sub-daily FREQ", "FREQ=HOURLY"],
+    ["COUNT together with UNTIL", "FREQ=DAILY;COUNT=2;UNTIL=20260101"],
+    ["zero INTERVAL", "FREQ=DAILY;INTERVAL=0"],
+    ["non-numeric COUNT", "FREQ=DAILY;COUNT=abc"],
+    ["invalid UNTIL", "FREQ=DAILY;UNTIL=tomorrow"],
+    ["unknown weekday", "FREQ=WEEKLY;BYDAY=XX"],
+    ["zero BYDAY ordinal", "FREQ=MONTHLY;BYDAY=0MO"],
+    ["ordinal BYDAY in a weekly rule", "FREQ=WEEKLY;BYDAY=1MO"],
+    ["zero BYMONTHDAY", "FREQ=MONTHLY;BYMONTHDAY=0"],
+    ["out of range BYMONTHDAY", "FREQ=MONTHLY;BYMONTHDAY=32"],
+    ["out of range BYMONTH", "FREQ=YEARLY;BYMONTH=13"],
+    ["negative BYMONTH", "FREQ=YEARLY;BYMONTH=-1"],
+    ["out of range BYYEARDAY", "FREQ=YEARLY;BYYEARDAY=367"],
+    ["unknown WKST", "FREQ=WEEKLY;WKST=XY"],
+    ["unsupported BYHOUR", "FREQ=DAILY;BYHOUR=9"],
+    ["unsupported BYWEEKNO", "FREQ=YEARLY;BYWEEKNO=20"],
+    ["part without value", "FREQ=DAILY;COUNT="],
+  ])("returns null for %s", (_, rule) => {
+    expect(parseRRule(rule)).toBeNull();
+  });
+
+  it("returns null for null or undefined", () => {
+    expect(parseRRule(null)).toBeNull();
+    expect(parseRRule(undefined)).toBeNull();
+  });
+});
+
+describe("serializeRRule", () => {
+  it("round-trips a parsed rule", () => {
+    const value =
+      "FREQ=MONTHLY;INTERVAL=2;UNTIL=20261231T235959Z;BYDAY=2TU,-1FR;BYMONTHDAY=-1;BYMONTH=1,6;BYYEARDAY=100;BYSETPOS=1;WKST=SU";
+    const rule = parseRRule(value);
+    expect(rule && serializeRRule(rule)).toBe(value);
+  });
+
+  it("omits default INTERVAL and WKST", () => {
+    const rule = parseRRule("FREQ=WEEKLY;INTERVAL=1;COUNT=3;WKST=MO");
+    expect(rule && serializeRRule(rule)).toBe("FREQ=WEEKLY;COUNT=3");
+  });
+});
+
+describe("parseICalDate", () => {
+  it("reads DATE values as local midnight", () => {
+    expect(parseICalDate("20260310")).toEqual({
+      date: new Date(2026, 2, 10),
+      dateOnly: true,
+    });
+    expect(parseICalDate("2026-03-10")?.dateOnly).toBe(true);
+  });
+
+  it("reads UTC, offset and floating DATE-TIME values", () => {
+    expect(parseICalDate("20260310T090000Z")?.date.getTime()).toBe(
+      Date.UTC(2026, 2, 10, 9)
+    );
+    expect(parseICalDate("2026-03-10T09:00:00+02:00")?.date.getTime()).toBe(
+      Date.UTC(2026, 2, 10, 7)
+    );
+    expect(parseICalDate("20260310T090000+0200")?.date.getTime()).toBe(
+      Date.UTC(2026, 2, 10, 7)
+    );
+    expect(parseICalDate("2026-03-10T09:00:00.000Z")?.date.getTime()).toBe(
+      Date.UTC(2026, 2, 10, 9)
+    );
+    expect(parseICalDate("20260310T090000")).toEqual({
+      date: at(2026, 3, 10),
+      dateOnly: false,
+    });
+  });
+
+  it("returns null for invalid values", () => {
+    expect(parseICalDate("not a date")).toBeNull();
+    expect(parseICalDate("")).toBeNull();
+  });
+});
+
+describe("expandRRule", () => {
+  describe("DAILY", () => {
+    it("repeats every INTERVAL days up to COUNT", () => {
+      expect(
+        expandDays("FREQ=DAILY;INTERVAL=2;COUNT=4", at(2026, 3, 1))
+      ).toEqual(["2026-03-01", "2026-03-03", "2026-03-05", "2026-03-07"]);
+    });
+
+    it("includes the whole UNTIL date", () => {
+      expect(expandDays("FREQ=DAILY;UNTIL=20260303", at(2026, 3, 1))).toEqual([
+        "2026-03-01",
+        "2026-03-02",
+        "2026-03-03",
+      ]);
+    });
+
+    it("uses BYDAY and BYMONTH as filters", () => {
+      expect(
+        expandDays("FREQ=DAILY;BYDAY=SA,SU;BYMONTH=3;COUNT=4", at(2026, 2, 28))
+      ).toEqual(["2026-02-28", "2026-03-01", "2026-03-07", "2026-03-08"]);
+    });
+
+    it("keeps the wall-clock time of DTSTART", () => {
+      const dates = expandRRule("FREQ=DAILY;COUNT=5", at(2026, 3, 27, 9, 30));
+      expect(dates.map((date) => format(date, "HH:mm"))).toEqual(
+        Array(5).fill("09:30")
+      );
+    });
+  });
+
+  describe("WEEKLY", () => {
+    it("expands BYDAY inside each week", () => {
+      expect(
+        expandDays("FREQ=WEEKLY;BYDAY=MO,WE,FR;COUNT=5", at(2026, 3, 2))
+      ).toEqual([
+        "2026-03-02",
+        "2026-03-04",
+        "2026-03-06",
+        "2026-03-09",
+        "2026-03-11",
+      ]);
+    });
+
+    it("repeats on the DTSTART weekday without BYDAY", () => {
+      expect(expandDays("FREQ=WEEKLY;COUNT=3", at(2026, 3, 5))).toEqual([
+        "2026-03-05",
+        "2026-03-12",
+        "2026-03-19",
+      ]);
+    });
+
+    it("skips weeks with INTERVAL", () => {
+      expect(
+        expandDays(
+          "FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,TH;UNTIL=20260331",
+          at(2026, 3, 3)
+        )
+      ).toEqual([
+        "2026-03-03",
+        "2026-03-05",
+        "2026-03-17",
+        "2026-03-19",
+        "2026-03-31",
+      ]);
+    });
+
+    it("uses WKST to decide which days share a week (RFC 5545 example)", () => {
+      const start = new Date(1997, 7, 5, 9);
+      expect(
+        expandDays("FREQ=WEEKLY;INTERVAL=2;COUNT=4;BYDAY=TU,SU;WKST=MO", start)
+      ).toEqual(["1997-08-05", "1997-08-10", "1997-08-19", "1997-08-24"]);
+      expect(
+        expandDays("FREQ=WEEKLY;INTERVAL=2;COUNT=4;BYDAY=TU,SU;WKST=SU", start)
+      ).toEqual(["1997-08-05", "1997-08-17", "1997-08-19", "1997-08-31"]);
+    });
+  });
+
+  describe("MONTHLY", () => {
+    it("supports the second Tuesday of every month", () => {
+      expect(
+        expandDays("FREQ=MONTHLY;BYDAY=2TU;COUNT=4", at(2026, 1, 13))
+      ).toEqual(["2026-01-13", "2026-02-10", "2026-03-10", "2026-04-14"]);
+    });
+
+    it("supports negative ordinals (last Friday)", () => {
+      expect(
+        expandDays("FREQ=MONTHLY;BYDAY=-1FR;COUNT=3", at(2026, 1, 30))
+      ).toEqual(["2026-01-30", "2026-02-27", "2026-03-27"]);
+    });
+
+    it("expands every matching weekday without an ordinal", () => {
+      expect(
+        expandDays("FREQ=MONTHLY;BYDAY=MO;COUNT=6", at(2026, 3, 2))
+      ).toEqual([
+        "2026-03-02",
+        "2026-03-09",
+        "2026-03-16",
+        "2026-03-23",
+        "2026-03-30",
+        "2026-04-06",
+      ]);
+    });
+
+    it("expands several BYMONTHDAY values", () => {
+      expect(
+        expandDays("FREQ=MONTHLY;BYMONTHDAY=1,15;COUNT=4", at(2026, 1, 1))
+      ).toEqual(["2026-01-01", "2026-01-15", "2026-02-01", "2026-02-15"]);
+    });
+
+    it("skips months without the requested day", () => {
+      expect(
+        expandDays("FREQ=MONTHLY;BYMONTHDAY=31;COUNT=4", at(2026, 1, 31))
+      ).toEqual(["2026-01-31", "2026-03-31", "2026-05-31", "2026-07-31"]);
+      expect(expandDays("FREQ=MONTHLY;COUNT=3", at(2026, 1, 30))).toEqual([
+        "2026-01-30",
+        "2026-03-30",
+        "2026-04-30",
+      ]);
+    });
+
+    it("counts negative BYMONTHDAY from the end of the month", () => {
+      expect(
+        expandDays("FREQ=MONTHLY;BYMONTHDAY=-1;COUNT=3", at(2026, 1, 31))
+      ).toEqual(["2026-01-31", "2026-02-28", "2026-03-31"]);
+    });
+
+    it("intersects BYMONTHDAY with BYDAY (Friday the 13th)", () => {
+      expect(
+        expandDays(
+          "FREQ=MONTHLY;BYDAY=FR;BYMONTHDAY=13;COUNT=3",
+          at(2026, 2, 13)
+        )
+      ).toEqual(["2026-02-13", "2026-03-13", "2026-11-13"]);
+    });
+
+    it("picks positions with BYSETPOS (last weekday of the month)", () => {
+      expect(
+        expandDays(
+          "FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1;COUNT=3",
+          at(2026, 1, 30)
+        )
+      ).toEqual(["2026-01-30", "2026-02-27", "2026-03-31"]);
+    });
+
+    it("picks several BYSETPOS positions in order", () => {
+      expect(
+        expandDays(
+          "FREQ=MONTHLY;BYDAY=SA,SU;BYSETPOS=-1,1;COUNT=4",
+          at(2026, 3, 1)
+        )
+      ).toEqual(["2026-03-01", "2026-03-29", "2026-04-04", "2026-04-26"]);
+    });
+
+    it("repeats every INTERVAL months", () => {
+      expect(
+        expandDays("FREQ=MONTHLY;INTERVAL=3;COUNT=3", at(2026, 1, 15))
+      ).toEqual(["2026-01-15", "2026-04-15", "2026-07-15"]);
+    });
+  });
+
+  describe("YEARLY", () => {
+    it("repeats Feb 29 only in leap years", () => {
+      expect(expandDays("FREQ=YEARLY;COUNT=3", at(2024, 2, 29))).toEqual([
+        "2024-02-29",
+        "2028-02-29",
+        "2032-02-29",
+      ]);
+    });
+
+    it("supports the last Sunday of March", () => {
+      expect(
+        expandDays("FREQ=YEARLY;BYMONTH=3;BYDAY=-1SU;COUNT=3", at(2026, 3, 29))
+      ).toEqual(["2026-03-29", "2027-03-28", "2028-03-26"]);
+    });
+
+    it("uses year-relative ordinals without BYMONTH", () => {
+      expect(
+        expandDays("FREQ=YEARLY;BYDAY=20MO;COUNT=2", at(2026, 5, 18))
+      ).toEqual(["2026-05-18", "2027-05-17"]);
+    });
+
+    it("repeats DTSTART's day in every BYMONTH", () => {
+      expect(
+        expandDays("FREQ=YEARLY;BYMONTH=1,7;COUNT=3", at(2026, 1, 10))
+      ).toEqual(["2026-01-10", "2026-07-10", "2027-01-10"]);
+    });
+
+    it("repeats BYMONTHDAY in every month without BYMONTH", () => {
+      expect(
+        expandDays("FREQ=YEARLY;BYMONTHDAY=1;COUNT=3", at(2026, 11, 1))
+      ).toEqual(["2026-11-01", "2026-12-01", "2027-01-01"]);
+    });
+
+    it("expands BYYEARDAY, including negative values", () => {
+      expect(
+        expandDays("FREQ=YEARLY;BYYEARDAY=1,100,200;COUNT=4", at(2026, 1, 1))
+      ).toEqual(["2026-01-01", "2026-04-10", "2026-07-19", "2027-01-01"]);
+      expect(
+        expandDays("FREQ=YEARLY;BYYEARDAY=-1;COUNT=2", at(2026, 12, 31))
+      ).toEqual(["2026-12-31", "2027-12-31"]);
+    });
+  });
+
+  describe("DTSTART, EXDATE and ranges", () => {
+    it("always starts with DTSTART, counting it towards COUNT", () => {
+      expect(
+        expandDays("FREQ=WEEKLY;BYDAY=WE;COUNT=3", at(2026, 3, 2))
+      ).toEqual(["2026-03-02", "2026-03-04", "2026-03-11"]);
+    });
+
+    it("returns DTSTART when the rule never matches", () => {
+      expect(
+        expandDays("FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=30", at(2026, 1, 5))
+      ).toEqual(["2026-01-05"]);
+    });
+
+    it("removes EXDATE values after applying COUNT", () => {
+      expect(
+        expandDays("FREQ=DAILY;COUNT=5", at(2026, 3, 1), {
+          exdates: ["20260302T090000", "2026-03-04"],
+        })
+      ).toEqual(["2026-03-01", "2026-03-03", "2026-03-05"]);
+    });
+
+    it("accepts comma-separated and Date exclusions", () => {
+      expect(
+        expandDays("FREQ=DAILY;COUNT=4", at(2026, 3, 1), {
+          exdates: ["20260301,20260302", at(2026, 3, 3)],
+        })
+      ).toEqual(["2026-03-04"]);
+    });
+
+    it("only excludes DATE-TIME values at the exact start", () => {
+      expect(
+        expandDays("FREQ=DAILY;COUNT=2", at(2026, 3, 1), {
+          exdates: [at(2026, 3, 2, 10)],
+        })
+      ).toEqual(["2026-03-01", "2026-03-02"]);
+    });
+
+    it("returns only occurrences inside from/to", () => {
+      const dates = expandRRule("FREQ=DAILY", at(2020, 1, 1), {
+        from: at(2026, 6, 10, 0),
+        to: at(2026, 6, 12, 23),
+      });
+      expect(dates).toEqual([
+        at(2026, 6, 10),
+        at(2026, 6, 11),
+        at(2026, 6, 12),
+      ]);
+    });
+
+    it("keeps counting from DTSTART when a range starts later", () => {
+      expect(
+        expandDays("FREQ=DAILY;COUNT=10", at(2026, 3, 1), {
+          from: at(2026, 3, 8, 0),
+        })
+      ).toEqual(["2026-03-08", "2026-03-09", "2026-03-10"]);
+    });
+
+    it("stops at limit and caps open-ended rules", () => {
+      expect(
+        expandRRule("FREQ=DAILY", at(2026, 3, 1), { limit: 2 })
+      ).toHaveLength(2);
+      expect(expandRRule("FREQ=DAILY", at(2026, 3, 1))).toHaveLength(
+        MAX_OCCURRENCES
+      );
+    });
+
+    it("keeps the wall-clock time of a time zone across DST changes", () => {
+      const dates = expandRRule(
+        "FREQ=WEEKLY;COUNT=3",
+        new Date("2026-03-22T08:00:00Z"),
+        {
+          timeZone: "Europe/Madrid",
+          exdates: ["20260405T070000Z"],
+        }
+      );
+      // 09:00 in Madrid, which moves to summer time on March 29
+      expect(dates.map((date) => date.toISOString())).toEqual([
+        "2026-03-22T08:00:00.000Z",
+        "2026-03-29T07:00:00.000Z",
+      ]);
+    });
+
+    it("returns nothing for invalid rules or dates", () => {
+      expect(expandRRule("FREQ=HOURLY", at(2026, 3, 1))).toEqual([]);
+      expect(expandRRule("FREQ=DAILY", new Date("invalid"))).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * Scheduling assistant utils tests
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  agendaItemsToBusyBlocks,
+  findFreeSlots,
+  roomBookingsToBusyBlocks,
+  type AttendeeAvailability,
+} from "~/features/calendar/utils/schedulingAssistant";
+import type { AgendaItem } from "~/features/tasks/types/task.types";
+import type { CalendarEvent } from "~/features/calendar/types/calendar.types";
+
+// Monday, May 11, 2026
+const at = (day: number, hours: number, minutes = 0) =>
+  new Date(2026, 4, day, hours, minutes);
+
+const makeItem = (overrides: Partial<AgendaItem>): AgendaItem => ({
+  id: "item-1",
+  title: "Busy",
+  start_date: at(11, 9).toISOString(),
+  end_date: at(11, 10).toISOString(),
+  source: "calendar",
+  type: "event",
+  created_at: "2026-01-01T00:00:00Z",
+  updated_at: "2026-01-01T00:00:00Z",
+  ...overrides,
+});
+
+const attendee = (
+  id: string,
+  busy: [Date, Date][],
+  required = true
+): AttendeeAvailability => ({
+  id,
+  required,
+  busy: busy.map(([start, end]) => ({ start, end })),
+});
+
+const starts = (slots: { start: Date }[]) => slots.map((slot) => slot.start);
+
+describe("agendaItemsToBusyBlocks", () => {
+  it("keeps timed events and tasks, skipping what doesn't block time", () => {
+    const blocks = agendaItemsToBusyBlocks(
+      [
+        makeItem({}),
+        makeItem({ id: "task", type: "task", title: "Report" }),
+        makeItem({ id: "deadline", type: "deadline" }),
+        makeItem({ id: "cancelled", status: "cancelled" }),
+        makeItem({ id: "open", end_date: undefined }),
+        makeItem({ id: "holiday", metadata: { all_day: true } }),
+        makeItem({ id: "other", source_id: "event-being-edited" }),
+      ],
+      "event-being-edited"
+    );
+
+    expect(blocks.map((block) => block.title)).toEqual(["Busy", "Report"]);
+    expect(blocks[0]).toEqual({
+      start: at(11, 9),
+      end: at(11, 10),
+      title: "Busy",
+    });
+  });
+});
+
+describe("roomBookingsToBusyBlocks", () => {
+  const makeBooking = (overrides: Partial<CalendarEvent>): CalendarEvent => ({
+    id: "booking-1",
+    tenant_id: "tenant-1",
+    calendar_id: "calendar-1",
+    title: "Daily standup",
+    start_time: at(4, 9).toISOString(),
+    end_time: at(4, 10).toISOString(),
+    all_day: false,
+    status: "confirmed",
+    recurrence_type: "none",
+    recurrence_interval: 1,
+    read_only: false,
+    created_at: "2026-01-01T00:00:00Z",
+    updated_at: "2026-01-01T00:00:00Z",
+    ...overrides,
+  });
+
+  it("blocks every occurrence of a recurring booking in the range", () => {
+    const blocks = roomBookingsToBusyBlocks(
+      [
+        makeBooking({
+          recurrence_type: "daily",
+          recurrence_rule: "FREQ=DAILY",
+        }),
+      ],
+      at(11, 0),
+      at(13, 0)
+    );
+
+    expect(blocks.map((block) => block.start)).toEqual([at(11, 9), at(12, 9)]);
+  });
+
+  it("skips cancelled, all-day and excluded bookings", () => {
+    const blocks = roomBookingsToBusyBlocks(
+      [
+        makeBooking({ id: "cancelled", status: "cancelled" }),
+        makeBooking({ id: "all-day", all_day: true }),
+        makeBooking({ id: "editing" }),
+      ],
+      at(1, 0),
+      at(30, 0),
+      "editing"
+    );
+
+    expect(blocks).toEqual([]);
+  });
+});
+
+describe("findFreeSlots", () => {
+  const base = {
+    from: at(11, 0),
+    to: at(25, 0),
+    durationMinutes: 60,
+  };
+
+  it("suggests the earliest slots where every required attendee is free", () => {
+    const slots = findFreeSlots({
+      ...base,
+      attendees: [
+        attendee("ana", [[at(11, 9), at(11, 11)]]),
+        attendee("luis", [[at(11, 11), at(11, 12, 30)]]),
+      ],
+      limit: 3,
+    });
+
+    expect(starts(slots)).toEqual([at(11, 12, 30), at(11, 13), at(11, 13, 30)]);
+    expect(slots[0]?.end).toEqual(at(11, 13, 30));
+  });
+
+  it("stays within working hours and skips weekends", () => {
+    const slots = findFreeSlots({
+      ...base,
+      from: at(15, 16),
+      durationMinutes: 90,
+      attendees: [],
+      limit: 3,
+    });
+
+    // Friday 16:00 and 16:30 fit before 18:00; the next one is on Monday
+    expect(starts(slots)).toEqual([at(15, 16), at(15, 16, 30), at(18, 9)]);
+  });
+
+  it("prefers slots optional attendees can make, and reports who is busy", () => {
+    const slots = findFreeSlots({
+      ...base,
+      attendees: [
+        attendee("ana", []),
+        attendee("eva", [[at(11, 9), at(11, 17)]], false),
+      ],
+      limit: 3,
+    });
+
+    expect(starts(slots)).toEqual([at(11, 17), at(12, 9), at(12, 9, 30)]);
+    expect(slots.every((slot) => slot.unavailableOptional.length === 0)).toBe(
+      true
+    );
+
+    const [busy] = findFreeSlots({
+      ...base,
+      to: at(11, 17),
+      attendees: [
+        attendee("ana", []),
+        attendee("eva", [[at(11, 9), at(11, 17)]], false),
+      ],
+    });
+    expect(busy).toMatchObject({
+      start: at(11, 9),
+      unavailableOptional: ["eva"],
+    });
+  });
+
+  it("requires one of the requested rooms to be free", () => {
+    const slots = findFreeSlots({
+      ...base,
+      attendees: [attendee("ana", [])],
+      rooms: [
+        { id: "room-a", busy: [{ start: at(11, 9), end: at(11, 12) }] },
+        { id: "room-b", busy: [{ start: at(11, 9), end: at(11, 10) }] },
+      ],
+      limit: 3,
+    });
+
+    expect(slots.map(({ start, roomId }) => ({ start, roomId }))).toEqual([
+      { start: at(11, 10), roomId: "room-b" },
+      { start: at(11, 10, 30), roomId: "room-b" },
+      { start: at(11, 11), roomId: "room-b" },
+    ]);
+  });
+});
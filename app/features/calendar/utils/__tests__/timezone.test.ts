@@ -0,0 +1,90 @@
+/**
+ * Time zone utils tests
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  formatTimeZoneLabel,
+  formatTimeZoneOffset,
+  fromZonedEvent,
+  fromZonedTime,
+  getTimeZoneOffset,
+  isValidTimeZone,
+  toZonedEvent,
+  toZonedTime,
+  zonedTimeToUtc,
+} from "~/features/calendar/utils/timezone";
+import type { CalendarEvent } from "~/features/calendar/types/calendar.types";
+
+describe("timezone utils", () => {
+  it("validates time zone names", () => {
+    expect(isValidTimeZone("America/Mexico_City")).toBe(true);
+    expect(isValidTimeZone("Romance Standard Time")).toBe(false);
+  });
+
+  it("returns the offset at a given instant, following DST", () => {
+    const hour = 3600000;
+    expect(
+      getTimeZoneOffset("Europe/Madrid", new Date("2026-01-15T12:00:00Z"))
+    ).toBe(hour);
+    expect(
+      getTimeZoneOffset("Europe/Madrid", new Date("2026-07-15T12:00:00Z"))
+    ).toBe(2 * hour);
+    expect(
+      getTimeZoneOffset("America/New_York", new Date("2026-07-15T12:00:00Z"))
+    ).toBe(-4 * hour);
+  });
+
+  it("converts a wall-clock time in a zone to UTC", () => {
+    expect(zonedTimeToUtc("Europe/Madrid", 2026, 6, 10, 9).toISOString()).toBe(
+      "2026-07-10T07:00:00.000Z"
+    );
+    expect(
+      zonedTimeToUtc("America/New_York", 2026, 0, 10, 9, 30).toISOString()
+    ).toBe("2026-01-10T14:30:00.000Z");
+  });
+
+  it("moves times skipped by DST forward by the gap", () => {
+    // 02:30 doesn't exist in Madrid on March 29, 2026: it becomes 03:30 CEST
+    expect(
+      zonedTimeToUtc("Europe/Madrid", 2026, 2, 29, 2, 30).toISOString()
+    ).toBe("2026-03-29T01:30:00.000Z");
+  });
+
+  it("converts instants to zoned dates and back", () => {
+    const instant = new Date("2026-07-10T07:00:00.000Z");
+    const zoned = toZonedTime(instant, "Europe/Madrid");
+
+    expect([zoned.getDate(), zoned.getHours(), zoned.getMinutes()]).toEqual([
+      10, 9, 0,
+    ]);
+    expect(fromZonedTime(zoned, "Europe/Madrid")).toEqual(instant);
+  });
+
+  it("formats offsets and picker labels", () => {
+    const date = new Date("2026-01-15T12:00:00Z");
+    expect(formatTimeZoneOffset("America/Mexico_City", date)).toBe("GMT-6");
+    expect(formatTimeZoneOffset("Asia/Kolkata", date)).toBe("GMT+5:30");
+    expect(formatTimeZoneOffset("UTC", date)).toBe("GMT");
+    expect(formatTimeZoneLabel("America/Mexico_City", date)).toBe(
+      "(GMT-6) America/Mexico City"
+    );
+  });
+
+  it("shifts timed events but keeps all-day events", () => {
+    const event = {
+      id: "1",
+      title: "Standup",
+      start_time: "2026-01-15T15:00:00.000Z",
+      end_time: "2026-01-15T15:30:00.000Z",
+      all_day: false,
+    } as CalendarEvent;
+    const zoned = toZonedEvent(event, "America/Mexico_City");
+
+    expect(new Date(zoned.start_time).getHours()).toBe(9);
+    expect(fromZonedEvent(zoned, "America/Mexico_City")).toEqual(event);
+
+    const allDay = { ...event, all_day: true };
+    expect(toZonedEvent(allDay, "America/Mexico_City")).toBe(allDay);
+  });
+});
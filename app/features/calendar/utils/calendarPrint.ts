@@ -0,0 +1,345 @@
+/**
+ * Calendar print utilities
+ * Split a date range into the pages of the month grid, week grid and agenda
+ * print layouts. Dates are local dates; events are expected as zoned copies
+ * (see utils/timezone) when printing in another time zone.
+ */
+
+import {
+  addDays,
+  addMonths,
+  differenceInCalendarDays,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  isAfter,
+  isBefore,
+  isValid,
+  max as maxDate,
+  min as minDate,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns";
+import type {
+  CalendarEvent,
+  CalendarViewType,
+} from "~/features/calendar/types/calendar.types";
+import {
+  HOUR_HEIGHT,
+  calculateEventPositions,
+} from "~/features/calendar/utils/eventLayout";
+import { expandRecurringEvents } from "~/features/calendar/utils/recurrence";
+import {
+  fromZonedTime,
+  toZonedEvent,
+} from "~/features/calendar/utils/timezone";
+
+export type PrintLayoutType = "month" | "week" | "agenda";
+
+/** Longest range that can be printed at once */
+export const MAX_PRINT_DAYS = 366;
+
+/** Lines of an agenda page; a day header takes one line, each event another */
+export const AGENDA_LINES_PER_PAGE = 34;
+
+/** Hours always shown by the week grid, widened to fit earlier or later events */
+export const PRINT_DAY_START_HOUR = 7;
+export const PRINT_DAY_END_HOUR = 20;
+
+const WEEK_OPTIONS = { weekStartsOn: 1 } as const;
+
+/** First and last day printed, both at midnight */
+export interface PrintRange {
+  start: Date;
+  end: Date;
+}
+
+export interface PrintMonthPage {
+  layout: "month";
+  month: Date;
+  /** Weeks of the grid, Monday first; days outside the month are shown muted */
+  weeks: Date[][];
+}
+
+export interface PrintTimedEvent {
+  event: CalendarEvent;
+  /** Offsets within the hours of the page, as percentages */
+  top: number;
+  height: number;
+  column: number;
+  totalColumns: number;
+}
+
+export interface PrintWeekDay {
+  date: Date;
+  allDay: CalendarEvent[];
+  timed: PrintTimedEvent[];
+}
+
+export interface PrintWeekPage {
+  layout: "week";
+  days: PrintWeekDay[];
+  startHour: number;
+  endHour: number;
+}
+
+export interface PrintAgendaDay {
+  date: Date;
+  events: CalendarEvent[];
+  /** The day started on a previous page */
+  continued: boolean;
+}
+
+export interface PrintAgendaPage {
+  layout: "agenda";
+  days: PrintAgendaDay[];
+}
+
+export type PrintPage = PrintMonthPage | PrintWeekPage | PrintAgendaPage;
+
+/**
+ * Print layout that matches a calendar view
+ */
+export function getPrintLayoutForView(
+  viewType: CalendarViewType
+): PrintLayoutType {
+  if (viewType === "month" || viewType === "agenda") return viewType;
+  return "week";
+}
+
+/**
+ * Range printed by default: the month or week of the date, or the next
+ * 30 days for the agenda (as AgendaView shows them)
+ */
+export function getDefaultPrintRange(
+  layout: PrintLayoutType,
+  date: Date
+): PrintRange {
+  switch (layout) {
+    case "month":
+      return {
+        start: startOfMonth(date),
+        end: startOfDay(endOfMonth(date)),
+      };
+    case "week":
+      return {
+        start: startOfWeek(date, WEEK_OPTIONS),
+        end: startOfDay(endOfWeek(date, WEEK_OPTIONS)),
+      };
+    case "agenda":
+      return { start: startOfDay(date), end: addDays(startOfDay(date), 29) };
+  }
+}
+
+/**
+ * Check a range before printing it
+ * @returns Error key or null if the range is valid
+ */
+export function validatePrintRange(range: PrintRange): string | null {
+  if (!isValid(range.start) || !isValid(range.end)) {
+    return "calendar.print.errors.rangeRequired";
+  }
+  if (isBefore(range.end, range.start)) {
+    return "calendar.print.errors.endBeforeStart";
+  }
+  if (differenceInCalendarDays(range.end, range.start) >= MAX_PRINT_DAYS) {
+    return "calendar.print.errors.rangeTooLong";
+  }
+  return null;
+}
+
+/**
+ * Events of the selected calendars that overlap the range, with recurring
+ * events expanded and times shown in `timeZone`, sorted by start
+ */
+export function getPrintEvents(
+  events: CalendarEvent[],
+  range: PrintRange,
+  options: { calendarIds?: string[]; timeZone?: string } = {}
+): CalendarEvent[] {
+  const { calendarIds, timeZone } = options;
+  const rangeEnd = addDays(range.end, 1);
+  const toInstant = (date: Date) =>
+    timeZone ? fromZonedTime(date, timeZone) : date;
+
+  return expandRecurringEvents(
+    events.filter(
+      (event) => !calendarIds || calendarIds.includes(event.calendar_id)
+    ),
+    toInstant(range.start),
+    toInstant(rangeEnd),
+    timeZone
+  )
+    .map((event) => (timeZone ? toZonedEvent(event, timeZone) : event))
+    .filter(
+      (event) =>
+        isBefore(new Date(event.start_time), rangeEnd) &&
+        !isBefore(new Date(event.end_time), range.start)
+    )
+    .sort(
+      (a, b) =>
+        new Date(a.start_time).getTime() - new Date(b.start_time).getTime()
+    );
+}
+
+/**
+ * Events shown on a day, all-day events first
+ */
+export function getEventsForPrintDay(
+  events: CalendarEvent[],
+  day: Date
+): CalendarEvent[] {
+  const dayStart = startOfDay(day);
+  const dayEnd = addDays(dayStart, 1);
+  const onDay = events.filter((event) => {
+    const start = new Date(event.start_time);
+    const end = new Date(event.end_time);
+    // Los eventos que terminan justo a medianoche no ocupan el día siguiente
+    return (
+      isBefore(start, dayEnd) &&
+      (isAfter(end, dayStart) ||
+        (+start === +end && !isBefore(start, dayStart)))
+    );
+  });
+  return [
+    ...onDay.filter((event) => event.all_day),
+    ...onDay.filter((event) => !event.all_day),
+  ];
+}
+
+function buildMonthPages(range: PrintRange): PrintMonthPage[] {
+  const pages: PrintMonthPage[] = [];
+  for (
+    let month = startOfMonth(range.start);
+    !isAfter(month, range.end);
+    month = addMonths(month, 1)
+  ) {
+    const days = eachDayOfInterval({
+      start: startOfWeek(month, WEEK_OPTIONS),
+      end: endOfWeek(endOfMonth(month), WEEK_OPTIONS),
+    });
+    const weeks: Date[][] = [];
+    for (let index = 0; index < days.length; index += 7) {
+      weeks.push(days.slice(index, index + 7));
+    }
+    pages.push({ layout: "month", month, weeks });
+  }
+  return pages;
+}
+
+function buildWeekPages(
+  events: CalendarEvent[],
+  range: PrintRange
+): PrintWeekPage[] {
+  const pages: PrintWeekPage[] = [];
+  for (
+    let week = startOfWeek(range.start, WEEK_OPTIONS);
+    !isAfter(week, range.end);
+    week = addDays(week, 7)
+  ) {
+    const dates = eachDayOfInterval({
+      start: maxDate([week, range.start]),
+      end: minDate([addDays(week, 6), range.end]),
+    });
+    const positions = dates.map((date) =>
+      calculateEventPositions(
+        getEventsForPrintDay(events, date).filter((event) => !event.all_day),
+        date
+      )
+    );
+
+    let startHour = PRINT_DAY_START_HOUR;
+    let endHour = PRINT_DAY_END_HOUR;
+    positions.flat().forEach((position) => {
+      startHour = Math.min(startHour, Math.floor(position.top / HOUR_HEIGHT));
+      endHour = Math.max(
+        endHour,
+        Math.ceil((position.top + position.height) / HOUR_HEIGHT)
+      );
+    });
+    endHour = Math.min(endHour, 24);
+    const totalHeight = (endHour - startHour) * HOUR_HEIGHT;
+    const toPercent = (pixels: number) => (pixels / totalHeight) * 100;
+
+    pages.push({
+      layout: "week",
+      startHour,
+      endHour,
+      days: dates.map((date, index) => ({
+        date,
+        allDay: getEventsForPrintDay(events, date).filter(
+          (event) => event.all_day
+        ),
+        timed: (positions[index] ?? []).map((position) => ({
+          event: position.event,
+          top: toPercent(position.top - startHour * HOUR_HEIGHT),
+          height: toPercent(position.height),
+          column: position.column,
+          totalColumns: position.totalColumns,
+        })),
+      })),
+    });
+  }
+  return pages;
+}
+
+function buildAgendaPages(
+  events: CalendarEvent[],
+  range: PrintRange
+): PrintAgendaPage[] {
+  const pages: PrintAgendaPage[] = [];
+  let current: PrintAgendaDay[] = [];
+  let lines = 0;
+
+  const closePage = () => {
+    if (current.length > 0) pages.push({ layout: "agenda", days: current });
+    current = [];
+    lines = 0;
+  };
+
+  eachDayOfInterval(range).forEach((date) => {
+    let pending = getEventsForPrintDay(events, date);
+    if (pending.length === 0) return;
+
+    // No empezar un día en la última línea de la página
+    if (lines + Math.min(pending.length + 1, 2) > AGENDA_LINES_PER_PAGE) {
+      closePage();
+    }
+    let continued = false;
+    while (pending.length > 0) {
+      const fits = AGENDA_LINES_PER_PAGE - lines - 1;
+      current.push({ date, events: pending.slice(0, fits), continued });
+      lines += 1 + Math.min(fits, pending.length);
+      pending = pending.slice(fits);
+      if (pending.length > 0) {
+        closePage();
+        continued = true;
+      }
+    }
+  });
+  closePage();
+
+  // Una página aunque no haya eventos, con la cabecera y el rango
+  return pages.length > 0 ? pages : [{ layout: "agenda", days: [] }];
+}
+
+/**
+ * Pages of a layout for the range. Month pages hold only the grid; the
+ * events of each day are looked up with `getEventsForPrintDay`.
+ * @param events - Events from `getPrintEvents`
+ */
+export function buildPrintPages(
+  layout: PrintLayoutType,
+  events: CalendarEvent[],
+  range: PrintRange
+): PrintPage[] {
+  switch (layout) {
+    case "month":
+      return buildMonthPages(range);
+    case "week":
+      return buildWeekPages(events, range);
+    case "agenda":
+      return buildAgendaPages(events, range);
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * Calendar view utilities
+ * Visible range of each view and the per-day event counts of the year view.
+ */
+
+import {
+  addDays,
+  addWeeks,
+  eachDayOfInterval,
+  endOfDay,
+  endOfMonth,
+  endOfWeek,
+  endOfYear,
+  format,
+  isAfter,
+  isBefore,
+  max as maxDate,
+  min as minDate,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+  startOfYear,
+  subDays,
+} from "date-fns";
+import type {
+  CalendarEvent,
+  CalendarViewType,
+} from "~/features/calendar/types/calendar.types";
+
+/** Weeks the N-week view can show */
+export const MIN_WEEK_COUNT = 2;
+export const MAX_WEEK_COUNT = 6;
+export const DEFAULT_WEEK_COUNT = 2;
+
+/** Event counts from which a day of the year view gets a darker shade */
+const DENSITY_THRESHOLDS = [1, 2, 4, 6];
+
+export type DensityLevel = 0 | 1 | 2 | 3 | 4;
+
+/**
+ * Keep a week count within the range the N-week view supports
+ */
+export function clampWeekCount(weekCount: number): number {
+  if (!Number.isFinite(weekCount)) return DEFAULT_WEEK_COUNT;
+  return Math.min(
+    MAX_WEEK_COUNT,
+    Math.max(MIN_WEEK_COUNT, Math.round(weekCount))
+  );
+}
+
+/**
+ * Visible range of a view, used to expand recurring events and to fetch
+ * the events of the view
+ * @param weekCount - Weeks of the N-week view
+ */
+export function getViewRange(
+  viewType: CalendarViewType,
+  currentDate: Date,
+  weekCount = DEFAULT_WEEK_COUNT
+) {
+  switch (viewType) {
+    case "month":
+      return {
+        start: startOfWeek(startOfMonth(currentDate), { weekStartsOn: 1 }),
+        end: endOfWeek(endOfMonth(currentDate), { weekStartsOn: 1 }),
+      };
+    case "week":
+      return {
+        start: startOfWeek(currentDate, { weekStartsOn: 1 }),
+        end: endOfWeek(currentDate, { weekStartsOn: 1 }),
+      };
+    case "weeks": {
+      const start = startOfWeek(currentDate, { weekStartsOn: 1 });
+      return {
+        start,
+        end: endOfWeek(addWeeks(start, clampWeekCount(weekCount) - 1), {
+          weekStartsOn: 1,
+        }),
+      };
+    }
+    case "year":
+      return { start: startOfYear(currentDate), end: endOfYear(currentDate) };
+    case "day":
+    case "resources":
+      return { start: startOfDay(currentDate), end: endOfDay(currentDate) };
+    default:
+      // Igual que la agenda: 30 días atrás y 60 días desde la fecha actual
+      return {
+        start: subDays(startOfDay(new Date()), 30),
+        end: endOfDay(addDays(currentDate, 60)),
+      };
+  }
+}
+
+/**
+ * Number of events on each day between two dates, keyed by yyyy-MM-dd.
+ * Events spanning several days count on each of them.
+ */
+export function countEventsByDay(
+  events: CalendarEvent[],
+  rangeStart: Date,
+  rangeEnd: Date
+): Map<string, number> {
+  const counts = new Map<string, number>();
+  events.forEach((event) => {
+    const start = new Date(event.start_time);
+    const end = new Date(event.end_time ?? event.start_time);
+    if (isBefore(end, start)) return;
+    if (isAfter(start, rangeEnd) || isBefore(end, rangeStart)) return;
+
+    // Un evento que termina a medianoche no ocupa el día siguiente
+    const lastDay =
+      end > start && +end === +startOfDay(end) ? subDays(end, 1) : end;
+    const first = maxDate([startOfDay(start), startOfDay(rangeStart)]);
+    const last = minDate([startOfDay(lastDay), startOfDay(rangeEnd)]);
+    if (isBefore(last, first)) return;
+    eachDayOfInterval({ start: first, end: last }).forEach((day) => {
+      const key = format(day, "yyyy-MM-dd");
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    });
+  });
+  return counts;
+}
+
+/**
+ * Shade of a day in the year view for its number of events
+ */
+export function getDensityLevel(count: number): DensityLevel {
+  return DENSITY_THRESHOLDS.filter((threshold) => count >= threshold)
+    .length as DensityLevel;
+}
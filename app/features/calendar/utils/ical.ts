@@ -0,0 +1,605 @@
+/**
+ * iCalendar (RFC 5545) import and export
+ * Serializes events with their recurrence, reminders (VALARM) and attendees
+ * into a VCALENDAR, and parses .ics files back into event payloads.
+ */
+
+import { addDays, addSeconds, format, startOfDay } from "date-fns";
+import type {
+  AttendeeStatus,
+  CalendarEvent,
+  EventAttendee,
+  EventCreate,
+  EventReminder,
+  EventReminderCreate,
+  RecurrenceType,
+} from "~/features/calendar/types/calendar.types";
+import { getEventRecurrenceRule } from "~/features/calendar/utils/recurrence";
+import {
+  parseICalDate,
+  parseRRule,
+  serializeRRule,
+} from "~/features/calendar/utils/rrule";
+import {
+  isValidTimeZone,
+  toZonedTime,
+  zonedTimeToUtc,
+} from "~/features/calendar/utils/timezone";
+
+export interface ICalExportOptions {
+  calendarName?: string;
+  /** Reminders of each event, by event id */
+  reminders?: Record<string, EventReminder[]>;
+  /** Attendees of each event, by event id */
+  attendees?: Record<string, EventAttendee[]>;
+  /** DTSTAMP of the generated events */
+  now?: Date;
+}
+
+export interface ICalImportedEvent {
+  uid: string;
+  event: Omit<EventCreate, "calendar_id">;
+  reminders: EventReminderCreate[];
+  attendees: EventAttendee[];
+}
+
+export interface ICalParseResult {
+  calendarName?: string;
+  events: ICalImportedEvent[];
+  /** VEVENTs without a usable DTSTART */
+  skipped: number;
+}
+
+interface ICalProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+interface ICalComponent {
+  name: string;
+  properties: ICalProperty[];
+  components: ICalComponent[];
+}
+
+export const ICAL_MIME_TYPE = "text/calendar";
+
+const PRODUCT_ID = "-//ERP//Calendar//EN";
+const MAX_LINE_OCTETS = 75;
+
+const PARTSTAT_BY_STATUS: Record<AttendeeStatus, string> = {
+  pending: "NEEDS-ACTION",
+  accepted: "ACCEPTED",
+  declined: "DECLINED",
+  tentative: "TENTATIVE",
+};
+
+const EVENT_STATUSES = ["confirmed", "tentative", "cancelled"];
+
+// Values
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char === "n" || char === "N" ? "\n" : char
+  );
+}
+
+/** Parameter value, quoted when it contains separators */
+function paramValue(value: string): string {
+  const clean = value.replace(/"/g, "'");
+  return /[;:,]/.test(clean) ? `"${clean}"` : clean;
+}
+
+function formatUtcDateTime(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+}
+
+function formatDate(date: Date): string {
+  return format(date, "yyyyMMdd");
+}
+
+/**
+ * Date-time property of a timed event. Zoned events are written as the wall
+ * clock of their zone (TZID) so their recurrences follow its DST changes.
+ */
+function formatDateTimeProperty(
+  name: string,
+  date: Date,
+  timeZone?: string | null
+): string {
+  if (timeZone && isValidTimeZone(timeZone)) {
+    const local = format(toZonedTime(date, timeZone), "yyyyMMdd'T'HHmmss");
+    return `${name};TZID=${timeZone}:${local}`;
+  }
+  return `${name}:${formatUtcDateTime(date)}`;
+}
+
+/** Alarm trigger relative to the start, e.g. -PT15M or -P1DT2H */
+function formatTrigger(minutesBefore: number): string {
+  if (minutesBefore <= 0) return "PT0S";
+  const days = Math.floor(minutesBefore / 1440);
+  const hours = Math.floor((minutesBefore % 1440) / 60);
+  const minutes = minutesBefore % 60;
+  const time = `${hours ? `${hours}H` : ""}${minutes ? `${minutes}M` : ""}`;
+  return `-P${days ? `${days}D` : ""}${time ? `T${time}` : ""}`;
+}
+
+/**
+ * Parse an iCalendar DURATION ("PT1H30M", "-P1D", "P2W") into milliseconds
+ */
+export function parseDuration(value: string): number | null {
+  const match =
+    /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(
+      value.trim().toUpperCase()
+    );
+  if (!match || value.trim().length <= 2) return null;
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const total =
+    Number(weeks ?? 0) * 604800 +
+    Number(days ?? 0) * 86400 +
+    Number(hours ?? 0) * 3600 +
+    Number(minutes ?? 0) * 60 +
+    Number(seconds ?? 0);
+  return (sign === "-" ? -total : total) * 1000;
+}
+
+// Export
+
+/**
+ * Attendees of an event: those imported with it (`metadata.attendees`) and
+ * the users picked in the event form (`metadata.attendee_ids`)
+ */
+export function getEventAttendees(
+  event: CalendarEvent,
+  users: { id: string; email: string; full_name?: string | null }[] = []
+): EventAttendee[] {
+  const imported = Array.isArray(event.metadata?.attendees)
+    ? (event.metadata.attendees as EventAttendee[])
+    : [];
+  const attendeeIds = Array.isArray(event.metadata?.attendee_ids)
+    ? (event.metadata.attendee_ids as string[])
+    : [];
+  const fromUsers = attendeeIds.flatMap((userId): EventAttendee[] => {
+    const user = users.find((item) => item.id === userId);
+    return user
+      ? [
+          {
+            user_id: user.id,
+            email: user.email,
+            name: user.full_name ?? undefined,
+            status: "pending",
+          },
+        ]
+      : [];
+  });
+  return [...imported, ...fromUsers];
+}
+
+/**
+ * Fold a content line at 75 octets, as required by RFC 5545
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= MAX_LINE_OCTETS) return line;
+
+  const parts: string[] = [];
+  let current = "";
+  let size = 0;
+  let limit = MAX_LINE_OCTETS;
+  for (const char of line) {
+    const charSize = encoder.encode(char).length;
+    if (size + charSize > limit) {
+      parts.push(current);
+      current = "";
+      size = 0;
+      limit = MAX_LINE_OCTETS - 1; // Continuation lines start with a space
+    }
+    current += char;
+    size += charSize;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+function buildAttendeeLine(attendee: EventAttendee): string | null {
+  if (!attendee.email) return null;
+  const params = [
+    attendee.name ? `CN=${paramValue(attendee.name)}` : null,
+    `PARTSTAT=${PARTSTAT_BY_STATUS[attendee.status] ?? "NEEDS-ACTION"}`,
+  ].filter(Boolean);
+  return `ATTENDEE;${params.join(";")}:mailto:${attendee.email}`;
+}
+
+function buildAlarm(
+  event: CalendarEvent,
+  reminder: EventReminder,
+  attendeeLines: string[]
+): string[] {
+  const isEmail = reminder.reminder_type === "email" && attendeeLines.length;
+  return [
+    "BEGIN:VALARM",
+    `ACTION:${isEmail ? "EMAIL" : "DISPLAY"}`,
+    `TRIGGER:${formatTrigger(reminder.minutes_before)}`,
+    `DESCRIPTION:${escapeText(event.title)}`,
+    ...(isEmail
+      ? [`SUMMARY:${escapeText(event.title)}`, ...attendeeLines]
+      : []),
+    "END:VALARM",
+  ];
+}
+
+function buildEventLines(
+  event: CalendarEvent,
+  options: ICalExportOptions,
+  now: Date
+): string[] {
+  const start = new Date(event.start_time);
+  const end = new Date(event.end_time);
+  const uid =
+    typeof event.metadata?.ical_uid === "string"
+      ? event.metadata.ical_uid
+      : event.id;
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${uid}`,
+    `DTSTAMP:${formatUtcDateTime(now)}`,
+  ];
+
+  if (event.all_day) {
+    // All-day events are stored up to 23:59:59 of their last day, while
+    // DTEND is the exclusive next day
+    const startDay = startOfDay(start);
+    const endDay = startOfDay(end);
+    const exclusiveEnd =
+      end.getTime() === endDay.getTime() && endDay > startDay
+        ? endDay
+        : addDays(endDay, 1);
+    lines.push(
+      `DTSTART;VALUE=DATE:${formatDate(startDay)}`,
+      `DTEND;VALUE=DATE:${formatDate(exclusiveEnd)}`
+    );
+  } else {
+    lines.push(
+      formatDateTimeProperty("DTSTART", start, event.timezone),
+      formatDateTimeProperty("DTEND", end, event.timezone)
+    );
+  }
+
+  lines.push(`SUMMARY:${escapeText(event.title)}`);
+  if (event.description) {
+    lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  }
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  if (EVENT_STATUSES.includes(event.status)) {
+    lines.push(`STATUS:${event.status.toUpperCase()}`);
+  }
+
+  const rule = getEventRecurrenceRule(event);
+  if (rule) {
+    let value = serializeRRule(rule);
+    // UNTIL has to be a DATE when DTSTART is one
+    if (event.all_day && rule.until) {
+      value = value.replace(/UNTIL=[^;]+/, `UNTIL=${formatDate(rule.until)}`);
+    }
+    lines.push(`RRULE:${value}`);
+
+    (event.recurrence_exdates ?? []).forEach((exdate) => {
+      const parsed = parseICalDate(exdate);
+      if (!parsed) return;
+      lines.push(
+        event.all_day || parsed.dateOnly
+          ? `EXDATE;VALUE=DATE:${formatDate(parsed.date)}`
+          : formatDateTimeProperty("EXDATE", parsed.date, event.timezone)
+      );
+    });
+  }
+
+  const attendeeLines = (options.attendees?.[event.id] ?? [])
+    .map(buildAttendeeLine)
+    .filter((line): line is string => line !== null);
+  lines.push(...attendeeLines);
+
+  (options.reminders?.[event.id] ?? []).forEach((reminder) => {
+    lines.push(...buildAlarm(event, reminder, attendeeLines));
+  });
+
+  lines.push("END:VEVENT");
+  return lines;
+}
+
+/**
+ * Build a VCALENDAR document with one VEVENT per event. Recurring events are
+ * exported as a single VEVENT with their RRULE and EXDATE values.
+ */
+export function exportICalendar(
+  events: CalendarEvent[],
+  options: ICalExportOptions = {}
+): string {
+  const now = options.now ?? new Date();
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    ...(options.calendarName
+      ? [`X-WR-CALNAME:${escapeText(options.calendarName)}`]
+      : []),
+    ...events.flatMap((event) => buildEventLines(event, options, now)),
+    "END:VCALENDAR",
+  ];
+  return `${lines.map(foldLine).join("\r\n")}\r\n`;
+}
+
+// Import
+
+/** Split a content line into name, parameters and value, honoring quotes */
+function parseContentLine(line: string): ICalProperty | null {
+  let inQuotes = false;
+  let valueStart = -1;
+  const separators: number[] = [];
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && char === ";") separators.push(i);
+    else if (!inQuotes && char === ":") {
+      valueStart = i;
+      break;
+    }
+  }
+  if (valueStart === -1) return null;
+
+  const name = line.slice(0, separators[0] ?? valueStart).toUpperCase();
+  const params: Record<string, string> = {};
+  separators.forEach((position, index) => {
+    const param = line.slice(position + 1, separators[index + 1] ?? valueStart);
+    const [key, ...rest] = param.split("=");
+    if (key) {
+      params[key.toUpperCase()] = rest.join("=").replace(/^"|"$/g, "");
+    }
+  });
+  return { name, params, value: line.slice(valueStart + 1) };
+}
+
+function parseComponents(text: string): ICalComponent[] {
+  const lines = text
+    .replace(/\r?\n[ \t]/g, "")
+    .split(/\r?\n/)
+    .filter((line) => line.trim() !== "");
+
+  const root: ICalComponent = { name: "ROOT", properties: [], components: [] };
+  const stack = [root];
+  lines.forEach((line) => {
+    const property = parseContentLine(line);
+    if (!property) return;
+    const current = stack[stack.length - 1] ?? root;
+    if (property.name === "BEGIN") {
+      const component: ICalComponent = {
+        name: property.value.trim().toUpperCase(),
+        properties: [],
+        components: [],
+      };
+      current.components.push(component);
+      stack.push(component);
+    } else if (property.name === "END") {
+      if (stack.length > 1) stack.pop();
+    } else {
+      current.properties.push(property);
+    }
+  });
+  return root.components;
+}
+
+/**
+ * Date of a DTSTART/DTEND/EXDATE value, honoring VALUE=DATE and TZID.
+ * Unknown time zones are read as local time.
+ */
+function parseDateValue(
+  value: string,
+  params: Record<string, string>
+): { date: Date; dateOnly: boolean } | null {
+  const tzid = params.TZID;
+  const match = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})$/.exec(
+    value.trim()
+  );
+  if (tzid && match && isValidTimeZone(tzid)) {
+    const [, y, mo, d, h, mi, s] = match.map(Number);
+    return {
+      date: zonedTimeToUtc(tzid, y!, mo! - 1, d!, h, mi, s),
+      dateOnly: false,
+    };
+  }
+  const parsed = parseICalDate(value.trim());
+  if (!parsed) return null;
+  return { ...parsed, dateOnly: parsed.dateOnly || params.VALUE === "DATE" };
+}
+
+function getProperty(
+  component: ICalComponent,
+  name: string
+): ICalProperty | undefined {
+  return component.properties.find((property) => property.name === name);
+}
+
+function getText(component: ICalComponent, name: string): string | undefined {
+  const property = getProperty(component, name);
+  return property ? unescapeText(property.value) : undefined;
+}
+
+function parseAttendee(property: ICalProperty): EventAttendee {
+  const email = property.value.replace(/^mailto:/i, "").trim();
+  const partstat = property.params.PARTSTAT?.toUpperCase();
+  const status =
+    (Object.keys(PARTSTAT_BY_STATUS) as AttendeeStatus[]).find(
+      (key) => PARTSTAT_BY_STATUS[key] === partstat
+    ) ?? "pending";
+  return {
+    email: email || undefined,
+    name: property.params.CN || undefined,
+    status,
+  };
+}
+
+function parseAlarm(alarm: ICalComponent): EventReminderCreate | null {
+  const trigger = getProperty(alarm, "TRIGGER");
+  // Only alarms relative to the start can be stored as reminders
+  if (!trigger || trigger.params.RELATED === "END") return null;
+  const offset = parseDuration(trigger.value);
+  if (offset === null || offset > 0) return null;
+  const action = getProperty(alarm, "ACTION")?.value.trim().toUpperCase();
+  return {
+    minutes_before: Math.round(-offset / 60000),
+    reminder_type: action === "EMAIL" ? "email" : "in_app",
+  };
+}
+
+function parseEvent(
+  component: ICalComponent,
+  index: number
+): ICalImportedEvent | null {
+  const dtstart = getProperty(component, "DTSTART");
+  const start = dtstart ? parseDateValue(dtstart.value, dtstart.params) : null;
+  if (!start) return null;
+
+  const dtend = getProperty(component, "DTEND");
+  const duration = getProperty(component, "DURATION");
+  const allDay = start.dateOnly;
+  let end = dtend ? parseDateValue(dtend.value, dtend.params)?.date : undefined;
+  if (!end && duration) {
+    const ms = parseDuration(duration.value);
+    if (ms !== null) end = new Date(start.date.getTime() + ms);
+  }
+  if (!end || end < start.date) {
+    end = allDay ? addDays(start.date, 1) : start.date;
+  }
+
+  const startTime = allDay ? startOfDay(start.date) : start.date;
+  // Stored all-day events end at 23:59:59 of their last day
+  const endTime = allDay
+    ? addSeconds(startOfDay(end > startTime ? end : addDays(startTime, 1)), -1)
+    : end;
+
+  const uid = getText(component, "UID")?.trim() || `import-${index + 1}`;
+  const status = getText(component, "STATUS")?.trim().toLowerCase();
+  const event: Omit<EventCreate, "calendar_id"> = {
+    title: getText(component, "SUMMARY")?.trim() || uid,
+    description: getText(component, "DESCRIPTION"),
+    location: getText(component, "LOCATION"),
+    start_time: startTime.toISOString(),
+    end_time: endTime.toISOString(),
+    all_day: allDay,
+    status: status && EVENT_STATUSES.includes(status) ? status : "confirmed",
+    metadata: { ical_uid: uid },
+  };
+  // Recurrences keep the wall-clock time of the zone they were created in
+  const tzid = dtstart?.params.TZID;
+  if (!allDay && tzid && isValidTimeZone(tzid)) event.timezone = tzid;
+
+  const rruleValue = getProperty(component, "RRULE")?.value;
+  const rule = parseRRule(rruleValue);
+  if (rule) {
+    event.recurrence_type = rule.freq.toLowerCase() as RecurrenceType;
+    event.recurrence_interval = rule.interval;
+    event.recurrence_rule = serializeRRule(rule);
+    event.recurrence_exdates = component.properties
+      .filter((property) => property.name === "EXDATE")
+      .flatMap((property) =>
+        property.value.split(",").map((value) => {
+          const parsed = parseDateValue(value, property.params);
+          if (!parsed) return null;
+          return parsed.dateOnly
+            ? formatDate(parsed.date)
+            : parsed.date.toISOString();
+        })
+      )
+      .filter((value): value is string => value !== null);
+  }
+
+  return {
+    uid,
+    event,
+    reminders: component.components
+      .filter((child) => child.name === "VALARM")
+      .map(parseAlarm)
+      .filter((reminder): reminder is EventReminderCreate => reminder !== null),
+    attendees: component.properties
+      .filter((property) => property.name === "ATTENDEE")
+      .map(parseAttendee),
+  };
+}
+
+/**
+ * Parse an .ics document. Events that override a single occurrence
+ * (RECURRENCE-ID) are imported as standalone events.
+ */
+export function parseICalendar(text: string): ICalParseResult {
+  const calendars = parseComponents(text).filter(
+    (component) => component.name === "VCALENDAR"
+  );
+  const result: ICalParseResult = { events: [], skipped: 0 };
+
+  calendars.forEach((calendar) => {
+    result.calendarName ??= getText(calendar, "X-WR-CALNAME");
+    calendar.components
+      .filter((component) => component.name === "VEVENT")
+      .forEach((component) => {
+        const parsed = parseEvent(component, result.events.length);
+        if (parsed) {
+          result.events.push(parsed);
+        } else {
+          result.skipped += 1;
+        }
+      });
+  });
+
+  return result;
+}
+
+// Conflicts
+
+export interface ICalImportConflicts {
+  /** An existing event has the same UID, or the same title and start */
+  duplicateOf?: CalendarEvent;
+  /** Existing events whose time overlaps the imported one */
+  overlaps: CalendarEvent[];
+}
+
+/**
+ * Compare an imported event with the events already in the calendar
+ */
+export function findImportConflicts(
+  imported: ICalImportedEvent,
+  existing: CalendarEvent[]
+): ICalImportConflicts {
+  const start = new Date(imported.event.start_time).getTime();
+  const end = new Date(imported.event.end_time).getTime();
+
+  const duplicateOf = existing.find(
+    (event) =>
+      event.metadata?.ical_uid === imported.uid ||
+      (event.title === imported.event.title &&
+        new Date(event.start_time).getTime() === start)
+  );
+
+  const overlaps = existing.filter(
+    (event) =>
+      event !== duplicateOf &&
+      !event.all_day &&
+      !imported.event.all_day &&
+      new Date(event.start_time).getTime() < end &&
+      new Date(event.end_time).getTime() > start
+  );
+
+  return { duplicateOf, overlaps };
+}
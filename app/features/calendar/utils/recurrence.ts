@@ -3,74 +3,122 @@
  * Provides functions to calculate and format recurring events
  */
 
+import { endOfDay } from 'date-fns';
 import type { RecurrenceConfig } from "~/features/calendar/components/RecurrenceEditor";
+import type { CalendarEvent } from "~/features/calendar/types/calendar.types";
+import {
+  expandRRule,
+  parseICalDate,
+  parseRRule,
+  type RRule,
+  type RRuleFrequency,
+} from "~/features/calendar/utils/rrule";
+
+const FREQUENCY_TYPES: Record<RRuleFrequency, Exclude<RecurrenceConfig['type'], 'none'>> = {
+  DAILY: 'daily',
+  WEEKLY: 'weekly',
+  MONTHLY: 'monthly',
+  YEARLY: 'yearly',
+};
+
+const ORDINAL_KEYS: Record<number, string> = {
+  1: 'first',
+  2: 'second',
+  3: 'third',
+  4: 'fourth',
+  5: 'fifth',
+  [-1]: 'last',
+  [-2]: 'secondLast',
+};
+
+const WEEKDAY_KEYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const MONTH_KEYS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+/** Separator between the series id and the start of a virtual occurrence */
+export const OCCURRENCE_ID_SEPARATOR = '__';
+
+/**
+ * Convert a RecurrenceConfig into an RRULE
+ * @param config - Recurrence configuration
+ * @returns The equivalent rule, or null for 'none'
+ */
+export function recurrenceConfigToRRule(config: RecurrenceConfig | null): RRule | null {
+  if (!config || config.type === 'none') {
+    return null;
+  }
+
+  return {
+    freq: config.type.toUpperCase() as RRuleFrequency,
+    interval: Math.max(1, config.interval),
+    until: config.endDate ? endOfDay(config.endDate) : undefined,
+    byDay: config.type === 'weekly' ? (config.daysOfWeek ?? []).map(day => ({ day })) : [],
+    byMonthDay: [],
+    byMonth: [],
+    byYearDay: [],
+    bySetPos: [],
+    wkst: 1,
+  };
+}
 
 /**
  * Calculate the next occurrences of a recurring event
  * @param startDate - The start date of the event
- * @param config - Recurrence configuration
+ * @param config - Recurrence configuration or RRULE string
  * @param limit - Maximum number of occurrences to return (default: 10)
  * @returns Array of dates representing the next occurrences
  */
 export function calculateNextOccurrences(
   startDate: Date,
-  config: RecurrenceConfig,
+  config: RecurrenceConfig | string,
   limit: number = 10
 ): Date[] {
-  if (config.type === 'none') {
+  const rule = typeof config === 'string' ? parseRRule(config) : recurrenceConfigToRRule(config);
+  if (!rule) {
     return [];
   }
 
-  const occurrences: Date[] = [];
   // Use local date to avoid timezone shifts
   const start = new Date(startDate.getFullYear(), startDate.getMonth(), startDate.getDate());
-  const endDate = config.endDate ? new Date(config.endDate.getFullYear(), config.endDate.getMonth(), config.endDate.getDate()) : null;
-  let currentDate = new Date(start);
-
-  while (occurrences.length < limit && (!endDate || currentDate <= endDate)) {
-    // Add the current occurrence
-    occurrences.push(new Date(currentDate));
-
-    // Calculate next occurrence
-    const nextDate = new Date(currentDate);
-    switch (config.type) {
-      case 'daily':
-        nextDate.setDate(nextDate.getDate() + config.interval);
-        break;
-      case 'weekly':
-        nextDate.setDate(nextDate.getDate() + (config.interval * 7));
-        break;
-      case 'monthly':
-        nextDate.setMonth(nextDate.getMonth() + config.interval);
-        break;
-      case 'yearly':
-        nextDate.setFullYear(nextDate.getFullYear() + config.interval);
-        break;
-      default:
-        // Should never reach here
-        break;
-    }
-    currentDate = nextDate;
+  return expandRRule(rule, start, { limit });
+}
+
+function joinLabels(labels: string[], t: (key: string) => string): string {
+  if (labels.length <= 1) {
+    return labels.join('');
+  }
+  if (labels.length === 2) {
+    return labels.join(' ' + t('calendar.recurrence.and') + ' ');
   }
+  return `${labels.slice(0, -1).join(', ')} ${t('calendar.recurrence.and')} ${labels[labels.length - 1]}`;
+}
 
-  return occurrences;
+function formatOrdinal(n: number, t: (key: string) => string): string {
+  const key = ORDINAL_KEYS[n];
+  return key ? t(`calendar.recurrence.ordinals.${key}`) : String(n);
 }
 
 /**
  * Format recurrence configuration into human-readable text
- * @param config - Recurrence configuration
+ * @param config - Recurrence configuration, parsed rule or RRULE string
  * @param t - Translation function
  * @returns Human-readable description of the recurrence
  */
 export function formatRecurrence(
-  config: RecurrenceConfig,
+  config: RecurrenceConfig | RRule | string,
   t: (key: string) => string
 ): string {
-  if (config.type === 'none') {
+  const rule =
+    typeof config === 'string'
+      ? parseRRule(config)
+      : 'freq' in config
+        ? config
+        : recurrenceConfigToRRule(config);
+  if (!rule) {
     return t('calendar.recurrence.none');
   }
 
-  const interval = config.interval;
+  const type = FREQUENCY_TYPES[rule.freq];
+  const interval = rule.interval;
   const typeLabels = {
     daily: t('calendar.recurrence.daily'),
     weekly: t('calendar.recurrence.weekly'),
@@ -88,44 +136,179 @@ export function formatRecurrence(
   let baseText = '';
   
   if (interval === 1) {
-    baseText = typeLabels[config.type];
+    baseText = typeLabels[type];
   } else {
-    baseText = `${t('calendar.recurrence.interval')} ${interval} ${intervalLabels[config.type]}`;
+    baseText = `${t('calendar.recurrence.interval')} ${interval} ${intervalLabels[type]}`;
   }
 
-  // Add days of week for weekly recurrence
-  if (config.type === 'weekly' && config.daysOfWeek && config.daysOfWeek.length > 0) {
-    const dayLabels = [
-      t('calendar.weekdays.sun'),
-      t('calendar.weekdays.mon'),
-      t('calendar.weekdays.tue'),
-      t('calendar.weekdays.wed'),
-      t('calendar.weekdays.thu'),
-      t('calendar.weekdays.fri'),
-      t('calendar.weekdays.sat'),
-    ];
-
-    const selectedDays = config.daysOfWeek
+  // Days of the month, e.g. "on day 1 and last day"
+  if (rule.byMonthDay.length > 0) {
+    const dayLabels = [...rule.byMonthDay]
+      .sort((a, b) => (a > 0 ? a : 100 - a) - (b > 0 ? b : 100 - b))
+      .map(day =>
+        day > 0
+          ? `${t('calendar.recurrence.day')} ${day}`
+          : `${formatOrdinal(day, t)} ${t('calendar.recurrence.day')}`
+      );
+    baseText += ` ${t('calendar.recurrence.on')} ${joinLabels(dayLabels, t)}`;
+  }
+
+  // Days of week, optionally with ordinals ("second Tue") or BYSETPOS ("last Mon, Tue...")
+  if (rule.byDay.length > 0) {
+    const dayLabels = [...rule.byDay]
+      .sort((a, b) => (a.ordinal ?? 0) - (b.ordinal ?? 0) || a.day - b.day)
+      .map(({ day, ordinal }) => {
+        const label = t(`calendar.weekdays.${WEEKDAY_KEYS[day]}`);
+        return ordinal === undefined ? label : `${formatOrdinal(ordinal, t)} ${label}`;
+      });
+    const setPos = rule.bySetPos.length > 0
+      ? `${joinLabels(rule.bySetPos.map(pos => formatOrdinal(pos, t)), t)} `
+      : '';
+    baseText += ` ${t('calendar.recurrence.on')} ${setPos}${joinLabels(dayLabels, t)}`;
+  }
+
+  if (rule.byMonth.length > 0) {
+    const monthLabels = [...rule.byMonth]
       .sort((a, b) => a - b)
-      .map(day => dayLabels[day]);
-
-    if (selectedDays.length === 1) {
-      baseText += ` ${t('calendar.recurrence.on')} ${selectedDays[0]}`;
-    } else if (selectedDays.length === 2) {
-      baseText += ` ${t('calendar.recurrence.on')} ${selectedDays.join(' ' + t('calendar.recurrence.and') + ' ')}`;
-    } else {
-      baseText += ` ${t('calendar.recurrence.on')} ${selectedDays.slice(0, -1).join(', ')} ${t('calendar.recurrence.and')} ${selectedDays[selectedDays.length - 1]}`;
-    }
+      .map(month => t(`calendar.months.${MONTH_KEYS[month - 1]}`));
+    baseText += ` ${t('calendar.recurrence.in')} ${joinLabels(monthLabels, t)}`;
+  }
+
+  if (rule.count !== undefined) {
+    baseText += `, ${t('calendar.recurrence.times').replace('{count}', String(rule.count))}`;
   }
 
   // Add end date if specified
-  if (config.endDate) {
-    baseText += ` ${t('calendar.recurrence.until')} ${config.endDate.toLocaleDateString()}`;
+  const endDate = typeof config === 'object' && 'endDate' in config ? config.endDate : rule.until;
+  if (endDate) {
+    baseText += ` ${t('calendar.recurrence.until')} ${endDate.toLocaleDateString()}`;
   }
 
   return baseText;
 }
 
+/**
+ * Get the recurrence rule of an event, from its RRULE or from the simple
+ * recurrence fields
+ * @param event - Calendar event
+ * @returns The rule, or null if the event doesn't repeat
+ */
+export function getEventRecurrenceRule(event: CalendarEvent): RRule | null {
+  if (event.recurrence_rule) {
+    return parseRRule(event.recurrence_rule);
+  }
+  if (!event.recurrence_type || event.recurrence_type === 'none') {
+    return null;
+  }
+
+  const until = event.recurrence_end_date ? parseICalDate(event.recurrence_end_date) : null;
+  const byDay = (event.recurrence_days_of_week ?? '')
+    .split(',')
+    .map(d => parseInt(d.trim()))
+    .filter(d => !isNaN(d) && d >= 0 && d <= 6)
+    .map(day => ({ day }));
+
+  return {
+    freq: event.recurrence_type.toUpperCase() as RRuleFrequency,
+    interval: event.recurrence_interval || 1,
+    count: event.recurrence_count ?? undefined,
+    until: until ? (until.dateOnly ? endOfDay(until.date) : until.date) : undefined,
+    byDay: event.recurrence_type === 'weekly' ? byDay : [],
+    byMonthDay:
+      event.recurrence_day_of_month &&
+      (event.recurrence_type === 'monthly' || event.recurrence_type === 'yearly')
+        ? [event.recurrence_day_of_month]
+        : [],
+    byMonth:
+      event.recurrence_month_of_year && event.recurrence_type === 'yearly'
+        ? [event.recurrence_month_of_year]
+        : [],
+    byYearDay: [],
+    bySetPos: [],
+    wkst: 1,
+  };
+}
+
+/**
+ * Check whether an event repeats
+ */
+export function isRecurringEvent(event: CalendarEvent): boolean {
+  return getEventRecurrenceRule(event) !== null;
+}
+
+/**
+ * Check whether an event is a virtual occurrence generated from a series
+ */
+export function isRecurrenceOccurrence(event: CalendarEvent): boolean {
+  return typeof event.metadata?.recurrence_master_id === 'string';
+}
+
+/**
+ * Id of the series an event belongs to (the event's own id for regular events)
+ */
+export function getRecurrenceMasterId(event: CalendarEvent): string {
+  const masterId = event.metadata?.recurrence_master_id;
+  return typeof masterId === 'string' ? masterId : event.id;
+}
+
+/**
+ * Replace recurring events with their occurrences inside a date range.
+ * The occurrence at the event's own start keeps the original event; the
+ * others are virtual copies with their own id, and the series id and times in
+ * `metadata.recurrence_master_id`, `recurrence_master_start` and
+ * `recurrence_master_end`. Occurrences that started before the range
+ * but are still running are included. Non-recurring events are kept as is.
+ * Occurrences keep the wall-clock time of the event's own time zone, or of
+ * `timeZone` for events without one.
+ * @param events - Events as stored (series masters)
+ * @param rangeStart - Start of the visible range
+ * @param rangeEnd - End of the visible range
+ * @param timeZone - Calendar time zone (the local zone by default)
+ * @returns Events to render
+ */
+export function expandRecurringEvents(
+  events: CalendarEvent[],
+  rangeStart: Date,
+  rangeEnd: Date,
+  timeZone?: string
+): CalendarEvent[] {
+  return events.flatMap((event) => {
+    const rule = getEventRecurrenceRule(event);
+    if (!rule) {
+      return [event];
+    }
+
+    const start = new Date(event.start_time);
+    const duration = Math.max(0, new Date(event.end_time).getTime() - start.getTime());
+    const occurrences = expandRRule(rule, start, {
+      from: new Date(rangeStart.getTime() - duration),
+      to: rangeEnd,
+      exdates: event.recurrence_exdates,
+      timeZone: event.all_day ? undefined : (event.timezone ?? timeZone),
+    });
+
+    return occurrences.map((occurrence): CalendarEvent => {
+      if (occurrence.getTime() === start.getTime()) {
+        return event;
+      }
+      const occurrenceStart = occurrence.toISOString();
+      return {
+        ...event,
+        id: `${event.id}${OCCURRENCE_ID_SEPARATOR}${occurrenceStart}`,
+        start_time: occurrenceStart,
+        end_time: new Date(occurrence.getTime() + duration).toISOString(),
+        metadata: {
+          ...event.metadata,
+          recurrence_master_id: event.id,
+          recurrence_master_start: event.start_time,
+          recurrence_master_end: event.end_time,
+          recurrence_occurrence_start: occurrenceStart,
+        },
+      };
+    });
+  });
+}
+
 /**
  * Convert RecurrenceConfig to backend format
  * @param config - Recurrence configuration
@@ -0,0 +1,398 @@
+/**
+ * Recurring event edit utilities
+ * Turn a change to one occurrence of a series into the API operations for the
+ * scope picked by the user: only that occurrence, that one and the following
+ * ones, or the whole series.
+ */
+
+import { format } from "date-fns";
+import type {
+  CalendarEvent,
+  EventCreate,
+  EventUpdate,
+  RecurrenceEditScope,
+} from "~/features/calendar/types/calendar.types";
+import {
+  getEventRecurrenceRule,
+  getRecurrenceMasterId,
+  isRecurrenceOccurrence,
+} from "~/features/calendar/utils/recurrence";
+import {
+  expandRRule,
+  parseICalDate,
+  serializeRRule,
+  type RRule,
+} from "~/features/calendar/utils/rrule";
+
+export interface RecurrenceEditPlan {
+  updates: { id: string; payload: EventUpdate }[];
+  creates: EventCreate[];
+  deletes: string[];
+}
+
+const OCCURRENCE_METADATA_KEYS = [
+  "recurrence_master_id",
+  "recurrence_master_start",
+  "recurrence_master_end",
+  "recurrence_occurrence_start",
+];
+
+const toTime = (value: string) => new Date(value).getTime();
+
+function withoutOccurrenceMetadata(
+  metadata: CalendarEvent["metadata"]
+): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(metadata ?? {}).filter(
+      ([key]) => !OCCURRENCE_METADATA_KEYS.includes(key)
+    )
+  );
+}
+
+/**
+ * Start of an occurrence as generated by its series, before any edit
+ */
+export function getOccurrenceStart(event: CalendarEvent): string {
+  const start = event.metadata?.recurrence_occurrence_start;
+  return typeof start === "string" ? start : event.start_time;
+}
+
+/**
+ * Series event an occurrence belongs to. Virtual occurrences carry the series
+ * times in their metadata; any other event is its own series.
+ */
+export function getRecurrenceMaster(event: CalendarEvent): CalendarEvent {
+  if (!isRecurrenceOccurrence(event)) return event;
+
+  const { recurrence_master_start: start, recurrence_master_end: end } =
+    event.metadata ?? {};
+  return {
+    ...event,
+    id: getRecurrenceMasterId(event),
+    start_time: typeof start === "string" ? start : event.start_time,
+    end_time: typeof end === "string" ? end : event.end_time,
+    metadata: withoutOccurrenceMetadata(event.metadata),
+  };
+}
+
+/**
+ * Move the parts of a rule pinned to the series start (weekday, day of month,
+ * month) along with it, so the series keeps matching its new start.
+ */
+function shiftRule(rule: RRule, from: Date, to: Date, delta: number): RRule {
+  const replace = (values: number[], before: number, after: number) =>
+    before === after || !values.includes(before)
+      ? values
+      : Array.from(new Set(values.map((v) => (v === before ? after : v))));
+
+  const byDay =
+    rule.freq === "WEEKLY" &&
+    from.getDay() !== to.getDay() &&
+    rule.byDay.some((d) => d.day === from.getDay() && !d.ordinal)
+      ? replace(
+          rule.byDay.map((d) => d.day),
+          from.getDay(),
+          to.getDay()
+        ).map((day) => ({ day }))
+      : rule.byDay;
+
+  return {
+    ...rule,
+    until: rule.until ? new Date(rule.until.getTime() + delta) : undefined,
+    byDay,
+    byMonthDay:
+      rule.freq === "MONTHLY" || rule.freq === "YEARLY"
+        ? replace(rule.byMonthDay, from.getDate(), to.getDate())
+        : rule.byMonthDay,
+    byMonth:
+      rule.freq === "YEARLY"
+        ? replace(rule.byMonth, from.getMonth() + 1, to.getMonth() + 1)
+        : rule.byMonth,
+  };
+}
+
+/**
+ * Move EXDATE values by `delta` milliseconds, keeping DATE values as dates
+ */
+function shiftExdates(exdates: string[], delta: number): string[] {
+  if (delta === 0) return exdates;
+  return exdates.map((value) => {
+    const parsed = parseICalDate(value);
+    if (!parsed) return value;
+    const shifted = new Date(parsed.date.getTime() + delta);
+    return parsed.dateOnly
+      ? format(shifted, "yyyyMMdd")
+      : shifted.toISOString();
+  });
+}
+
+function splitExdates(
+  exdates: string[],
+  at: string
+): { before: string[]; after: string[] } {
+  const before: string[] = [];
+  const after: string[] = [];
+  exdates.forEach((value) => {
+    const parsed = parseICalDate(value);
+    if (parsed && parsed.date.getTime() < toTime(at)) {
+      before.push(value);
+    } else {
+      after.push(value);
+    }
+  });
+  return { before, after };
+}
+
+function toEventCreate(event: CalendarEvent): EventCreate {
+  return {
+    calendar_id: event.calendar_id,
+    title: event.title,
+    description: event.description ?? undefined,
+    start_time: event.start_time,
+    end_time: event.end_time,
+    location: event.location ?? undefined,
+    all_day: event.all_day,
+    status: event.status,
+    timezone: event.timezone ?? null,
+    metadata: withoutOccurrenceMetadata(event.metadata),
+  };
+}
+
+/**
+ * New start and end of the series after an occurrence is moved or resized
+ */
+function getShiftedTimes(
+  master: CalendarEvent,
+  occurrenceStart: string,
+  changes: EventUpdate
+): { start: number; end: number; delta: number } {
+  const duration = toTime(master.end_time) - toTime(master.start_time);
+  const delta = changes.start_time
+    ? toTime(changes.start_time) - toTime(occurrenceStart)
+    : 0;
+  const endDelta = changes.end_time
+    ? toTime(changes.end_time) - (toTime(occurrenceStart) + duration)
+    : 0;
+  return {
+    start: toTime(master.start_time) + delta,
+    end: toTime(master.end_time) + endDelta,
+    delta,
+  };
+}
+
+function isTurningOffRecurrence(
+  master: CalendarEvent,
+  changes: EventUpdate
+): boolean {
+  return (
+    changes.recurrence_type === "none" && master.recurrence_type !== "none"
+  );
+}
+
+function planSeriesEdit(
+  master: CalendarEvent,
+  occurrenceStart: string,
+  changes: EventUpdate
+): RecurrenceEditPlan {
+  const payload: EventUpdate = { ...changes };
+  const { start, end, delta } = getShiftedTimes(
+    master,
+    occurrenceStart,
+    changes
+  );
+  if (changes.start_time) payload.start_time = new Date(start).toISOString();
+  if (changes.end_time) payload.end_time = new Date(end).toISOString();
+
+  const rule = getEventRecurrenceRule({ ...master, ...changes });
+  if (isTurningOffRecurrence(master, changes)) {
+    payload.recurrence_rule = null;
+    payload.recurrence_exdates = [];
+  } else if (rule && delta !== 0) {
+    const shifted = shiftRule(
+      rule,
+      new Date(master.start_time),
+      new Date(start),
+      delta
+    );
+    if (serializeRRule(shifted) !== serializeRRule(rule)) {
+      payload.recurrence_rule = serializeRRule(shifted);
+    }
+    if (master.recurrence_exdates?.length) {
+      payload.recurrence_exdates = shiftExdates(
+        master.recurrence_exdates,
+        delta
+      );
+    }
+  }
+
+  return {
+    updates: [{ id: master.id, payload }],
+    creates: [],
+    deletes: [],
+  };
+}
+
+/**
+ * Rule of the series cut right before `occurrenceStart`
+ */
+function truncateRule(rule: RRule, occurrenceStart: string): RRule {
+  return {
+    ...rule,
+    count: undefined,
+    until: new Date(toTime(occurrenceStart) - 1000),
+  };
+}
+
+/**
+ * Occurrences generated before `occurrenceStart`, to carry COUNT over to the
+ * new series
+ */
+function countOccurrencesBefore(
+  rule: RRule,
+  master: CalendarEvent,
+  occurrenceStart: string
+): number {
+  return expandRRule(rule, new Date(master.start_time), {
+    to: new Date(toTime(occurrenceStart) - 1),
+  }).length;
+}
+
+/**
+ * API operations that apply `changes` to an occurrence of a recurring event.
+ * - "this": the occurrence becomes an EXDATE of the series and a detached
+ *   event with the changes is created in its place.
+ * - "following": the series ends right before the occurrence (UNTIL) and a
+ *   new series with the changes starts at it, keeping the remaining COUNT or
+ *   the original UNTIL.
+ * - "all": the series itself is updated; moving the occurrence moves every
+ *   occurrence by the same amount.
+ * @param occurrence - Occurrence as rendered; it may already carry the new
+ * times, the original ones are read from its metadata
+ * @param changes - Changes relative to the occurrence
+ */
+export function planRecurrenceEdit(
+  occurrence: CalendarEvent,
+  scope: RecurrenceEditScope,
+  changes: EventUpdate
+): RecurrenceEditPlan {
+  const master = getRecurrenceMaster(occurrence);
+  const occurrenceStart = getOccurrenceStart(occurrence);
+  const rule = getEventRecurrenceRule(master);
+  const exdates = master.recurrence_exdates ?? [];
+  const isFirst = toTime(occurrenceStart) <= toTime(master.start_time);
+
+  if (!rule || scope === "all" || (scope === "following" && isFirst)) {
+    return planSeriesEdit(master, occurrenceStart, changes);
+  }
+
+  const duration = toTime(master.end_time) - toTime(master.start_time);
+  const base = toEventCreate({
+    ...master,
+    start_time: occurrenceStart,
+    end_time: new Date(toTime(occurrenceStart) + duration).toISOString(),
+  });
+
+  if (scope === "this") {
+    return {
+      updates: [
+        {
+          id: master.id,
+          payload: { recurrence_exdates: [...exdates, occurrenceStart] },
+        },
+      ],
+      creates: [
+        {
+          ...base,
+          ...changes,
+          recurrence_type: "none",
+          recurrence_rule: null,
+          recurrence_exdates: [],
+          metadata: {
+            ...base.metadata,
+            ...changes.metadata,
+            recurrence_override_of: master.id,
+            recurrence_original_start: occurrenceStart,
+          },
+        },
+      ],
+      deletes: [],
+    };
+  }
+
+  const { before, after } = splitExdates(exdates, occurrenceStart);
+  const series: EventCreate = {
+    ...base,
+    ...changes,
+    metadata: { ...base.metadata, ...changes.metadata },
+  };
+  const delta = changes.start_time
+    ? toTime(changes.start_time) - toTime(occurrenceStart)
+    : 0;
+  const newRule = getEventRecurrenceRule({ ...master, ...changes });
+
+  if (newRule && !isTurningOffRecurrence(master, changes)) {
+    const remaining =
+      newRule.count !== undefined
+        ? Math.max(
+            1,
+            newRule.count -
+              countOccurrencesBefore(rule, master, occurrenceStart)
+          )
+        : undefined;
+    series.recurrence_type = master.recurrence_type;
+    series.recurrence_interval = master.recurrence_interval;
+    series.recurrence_rule = serializeRRule(
+      shiftRule(
+        { ...newRule, count: remaining },
+        new Date(occurrenceStart),
+        new Date(series.start_time),
+        delta
+      )
+    );
+    series.recurrence_exdates = shiftExdates(after, delta);
+  }
+
+  return {
+    updates: [
+      {
+        id: master.id,
+        payload: {
+          recurrence_rule: serializeRRule(truncateRule(rule, occurrenceStart)),
+          recurrence_exdates: before,
+        },
+      },
+    ],
+    creates: [series],
+    deletes: [],
+  };
+}
+
+/**
+ * API operations that delete an occurrence of a recurring event: an EXDATE
+ * for "this", an UNTIL right before it for "following" and the whole series
+ * for "all".
+ */
+export function planRecurrenceDelete(
+  occurrence: CalendarEvent,
+  scope: RecurrenceEditScope
+): RecurrenceEditPlan {
+  const master = getRecurrenceMaster(occurrence);
+  const occurrenceStart = getOccurrenceStart(occurrence);
+  const rule = getEventRecurrenceRule(master);
+  const exdates = master.recurrence_exdates ?? [];
+  const isFirst = toTime(occurrenceStart) <= toTime(master.start_time);
+
+  if (!rule || scope === "all" || (scope === "following" && isFirst)) {
+    return { updates: [], creates: [], deletes: [master.id] };
+  }
+
+  const payload: EventUpdate =
+    scope === "this"
+      ? { recurrence_exdates: [...exdates, occurrenceStart] }
+      : {
+          recurrence_rule: serializeRRule(truncateRule(rule, occurrenceStart)),
+          recurrence_exdates: splitExdates(exdates, occurrenceStart).before,
+        };
+
+  return { updates: [{ id: master.id, payload }], creates: [], deletes: [] };
+}
@@ -0,0 +1,149 @@
+/**
+ * Resource timeline utilities
+ * Lay out the bookings of rooms and equipment on a one-day timeline and
+ * find double bookings.
+ */
+
+import { addDays, startOfDay } from "date-fns";
+import type {
+  CalendarEvent,
+  CalendarResource,
+  ResourceType,
+} from "~/features/calendar/types/calendar.types";
+
+/** Length of a timeline slot in minutes */
+export const RESOURCE_SLOT_MINUTES = 30;
+
+/** Number of slots in a day */
+export const RESOURCE_SLOTS_PER_DAY = (24 * 60) / RESOURCE_SLOT_MINUTES;
+
+export interface ResourceFilters {
+  resourceType?: ResourceType | null;
+  /** Minimum number of people the resource must hold */
+  minCapacity?: number | null;
+}
+
+export interface ResourceBooking {
+  event: CalendarEvent;
+  start: Date;
+  end: Date;
+  /** Position on the day, as a fraction (0-1) of its width */
+  offset: number;
+  width: number;
+}
+
+/**
+ * Keep the resources matching the type and capacity filters. Resources
+ * without a capacity never match a capacity filter.
+ */
+export function filterResources(
+  resources: CalendarResource[],
+  filters: ResourceFilters
+): CalendarResource[] {
+  return resources.filter((resource) => {
+    if (filters.resourceType && resource.resource_type !== filters.resourceType)
+      return false;
+    if (filters.minCapacity && filters.minCapacity > 0) {
+      return (resource.capacity ?? 0) >= filters.minCapacity;
+    }
+    return true;
+  });
+}
+
+/**
+ * Start and end of a slot selection, in either direction
+ * @param day - Any time of the day the timeline shows
+ * @param fromSlot - Slot where the selection started
+ * @param toSlot - Slot where it ended (included)
+ */
+export function getSlotRange(
+  day: Date,
+  fromSlot: number,
+  toSlot: number
+): { start: Date; end: Date } {
+  const dayStart = startOfDay(day);
+  const first = Math.min(fromSlot, toSlot);
+  const last = Math.max(fromSlot, toSlot);
+  const slotMs = RESOURCE_SLOT_MINUTES * 60000;
+  return {
+    start: new Date(dayStart.getTime() + first * slotMs),
+    end: new Date(dayStart.getTime() + (last + 1) * slotMs),
+  };
+}
+
+/**
+ * Bookings of each resource on a day, sorted by start. Events are matched to
+ * resources through `resourceIdsByEvent` (event id to assigned resource ids)
+ * and clipped to the day.
+ */
+export function getResourceBookings(
+  events: CalendarEvent[],
+  resourceIdsByEvent: Map<string, string[]>,
+  day: Date
+): Map<string, ResourceBooking[]> {
+  const dayStart = startOfDay(day);
+  const dayEnd = addDays(dayStart, 1);
+  const dayMs = dayEnd.getTime() - dayStart.getTime();
+  const bookings = new Map<string, ResourceBooking[]>();
+
+  events.forEach((event) => {
+    const resourceIds = resourceIdsByEvent.get(event.id);
+    if (!resourceIds?.length) return;
+    const eventStart = new Date(event.start_time);
+    const eventEnd = new Date(event.end_time);
+    if (eventStart >= dayEnd || eventEnd <= dayStart) return;
+
+    const start = eventStart < dayStart ? dayStart : eventStart;
+    const end = eventEnd > dayEnd ? dayEnd : eventEnd;
+    const booking: ResourceBooking = {
+      event,
+      start,
+      end,
+      offset: (start.getTime() - dayStart.getTime()) / dayMs,
+      width: (end.getTime() - start.getTime()) / dayMs,
+    };
+    resourceIds.forEach((resourceId) => {
+      const list = bookings.get(resourceId) ?? [];
+      list.push(booking);
+      bookings.set(resourceId, list);
+    });
+  });
+
+  bookings.forEach((list) =>
+    list.sort((a, b) => a.start.getTime() - b.start.getTime())
+  );
+  return bookings;
+}
+
+/**
+ * Ids of the events that overlap another booking of the same resource
+ */
+export function findBookingConflicts(
+  bookings: Map<string, ResourceBooking[]>
+): Set<string> {
+  const conflicts = new Set<string>();
+  bookings.forEach((list) => {
+    list.forEach((booking, index) => {
+      list.slice(index + 1).forEach((other) => {
+        if (other.start < booking.end && other.end > booking.start) {
+          conflicts.add(booking.event.id);
+          conflicts.add(other.event.id);
+        }
+      });
+    });
+  });
+  return conflicts;
+}
+
+/**
+ * Bookings of a resource overlapping a time range
+ */
+export function getOverlappingBookings(
+  bookings: ResourceBooking[],
+  start: Date,
+  end: Date
+): ResourceBooking[] {
+  return bookings.filter(
+    (booking) => booking.start < end && booking.end > start
+  );
+}
@@ -0,0 +1,644 @@
+/**
+ * RFC 5545 recurrence rule utilities.
+ * Parses, serializes and expands RRULE values (FREQ, INTERVAL, COUNT, UNTIL,
+ * BYDAY, BYMONTHDAY, BYMONTH, BYYEARDAY, BYSETPOS and WKST) together with
+ * EXDATE exclusions.
+ */
+
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  addYears,
+  differenceInCalendarDays,
+  differenceInCalendarMonths,
+  differenceInCalendarWeeks,
+  differenceInCalendarYears,
+  eachDayOfInterval,
+  endOfDay,
+  endOfMonth,
+  endOfWeek,
+  endOfYear,
+  getDaysInMonth,
+  isSameDay,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+  startOfYear,
+} from "date-fns";
+import {
+  fromZonedTime,
+  isValidTimeZone,
+  toZonedTime,
+} from "~/features/calendar/utils/timezone";
+
+export type RRuleFrequency = "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+
+export interface RRuleWeekday {
+  day: number; // 0-6 (Sun-Sat)
+  ordinal?: number; // e.g. 2 for "2TU", -1 for "-1FR"
+}
+
+export interface RRule {
+  freq: RRuleFrequency;
+  interval: number;
+  count?: number;
+  until?: Date;
+  byDay: RRuleWeekday[];
+  byMonthDay: number[]; // 1-31 or -31..-1
+  byMonth: number[]; // 1-12
+  byYearDay: number[]; // 1-366 or -366..-1
+  bySetPos: number[];
+  wkst: number; // 0-6 (Sun-Sat), Monday by default
+}
+
+export interface ExpandOptions {
+  /** Only return occurrences starting at or after this date */
+  from?: Date;
+  /** Only return occurrences starting at or before this date */
+  to?: Date;
+  /** EXDATE values, as ISO strings, iCalendar values or dates */
+  exdates?: (string | Date)[] | null;
+  /** Maximum number of occurrences to return */
+  limit?: number;
+  /**
+   * IANA time zone whose wall-clock time of `dtstart` the occurrences keep
+   * (the local zone by default)
+   */
+  timeZone?: string;
+}
+
+export const WEEKDAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+/** Safety cap for open-ended rules expanded without `to` or `limit` */
+export const MAX_OCCURRENCES = 1000;
+
+// Upper bound on iterated periods, so rules that never match stop
+const MAX_PERIODS = 10000;
+
+const FREQUENCIES: RRuleFrequency[] = ["DAILY", "WEEKLY", "MONTHLY", "YEARLY"];
+
+// Parts we can't honour; ignoring them would produce wrong dates
+const UNSUPPORTED_PARTS = ["BYWEEKNO", "BYHOUR", "BYMINUTE", "BYSECOND"];
+
+/** Comma-separated non-zero integers within ±max */
+function parseNumberList(
+  value: string,
+  max: number,
+  allowNegative = true
+): number[] | null {
+  const numbers = value.split(",").map((item) => Number(item.trim()));
+  const valid = numbers.every(
+    (n) =>
+      Number.isInteger(n) &&
+      n !== 0 &&
+      Math.abs(n) <= max &&
+      (allowNegative || n > 0)
+  );
+  return valid ? numbers : null;
+}
+
+function parseWeekdays(value: string): RRuleWeekday[] | null {
+  const weekdays: RRuleWeekday[] = [];
+  for (const item of value.split(",")) {
+    const match = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/.exec(item.trim());
+    if (!match) return null;
+    const day = WEEKDAY_CODES.indexOf(match[2]!);
+    if (match[1] === undefined) {
+      weekdays.push({ day });
+      continue;
+    }
+    const ordinal = Number(match[1]);
+    if (ordinal === 0 || Math.abs(ordinal) > 53) return null;
+    weekdays.push({ day, ordinal });
+  }
+  return weekdays;
+}
+
+/**
+ * Parse an iCalendar DATE or DATE-TIME value ("20260310", "20260310T090000",
+ * "20260310T090000Z") or an ISO 8601 string. Dates and floating times are
+ * read in local time.
+ */
+export function parseICalDate(
+  value: string
+): { date: Date; dateOnly: boolean } | null {
+  const trimmed = value.trim();
+  const match =
+    /^(\d{4})-?(\d{2})-?(\d{2})(?:T(\d{2}):?(\d{2}):?(\d{2})(?:\.\d+)?(Z|[+-]\d{2}:?\d{2})?)?$/i.exec(
+      trimmed
+    );
+  if (!match) {
+    const date = new Date(trimmed);
+    return trimmed && !Number.isNaN(date.getTime())
+      ? { date, dateOnly: false }
+      : null;
+  }
+
+  const [, year, month, day, hours, minutes, seconds, zone] = match;
+  if (hours === undefined) {
+    return {
+      date: new Date(Number(year), Number(month) - 1, Number(day)),
+      dateOnly: true,
+    };
+  }
+  if (zone) {
+    const offset =
+      zone.toUpperCase() === "Z"
+        ? "Z"
+        : `${zone.slice(0, 3)}:${zone.slice(-2)}`;
+    const iso = `${year}-${month}-${day}T${hours}:${minutes}:${seconds}${offset}`;
+    const date = new Date(iso);
+    return Number.isNaN(date.getTime()) ? null : { date, dateOnly: false };
+  }
+  return {
+    date: new Date(
+      Number(year),
+      Number(month) - 1,
+      Number(day),
+      Number(hours),
+      Number(minutes),
+      Number(seconds)
+    ),
+    dateOnly: false,
+  };
+}
+
+/**
+ * Parse an RRULE value. A leading "RRULE:" prefix is accepted and parts are
+ * case-insensitive. Unknown X- parts are ignored.
+ * @returns null for empty, malformed or unsupported rules
+ */
+export function parseRRule(rule: string | null | undefined): RRule | null {
+  if (!rule?.trim()) return null;
+
+  const parts = new Map<string, string>();
+  for (const part of rule
+    .trim()
+    .replace(/^RRULE:/i, "")
+    .split(";")) {
+    if (!part) continue;
+    const [key, value] = part.split("=");
+    if (!key || value === undefined || value === "") return null;
+    parts.set(key.trim().toUpperCase(), value.trim().toUpperCase());
+  }
+
+  const freq = parts.get("FREQ") as RRuleFrequency | undefined;
+  if (!freq || !FREQUENCIES.includes(freq)) return null;
+  if (UNSUPPORTED_PARTS.some((part) => parts.has(part))) return null;
+  // COUNT and UNTIL must not occur together
+  if (parts.has("COUNT") && parts.has("UNTIL")) return null;
+
+  const parsed: RRule = {
+    freq,
+    interval: 1,
+    byDay: [],
+    byMonthDay: [],
+    byMonth: [],
+    byYearDay: [],
+    bySetPos: [],
+    wkst: 1,
+  };
+
+  for (const [key, value] of parts) {
+    switch (key) {
+      case "INTERVAL":
+      case "COUNT": {
+        const n = Number(value);
+        if (!Number.isInteger(n) || n < 1) return null;
+        if (key === "INTERVAL") parsed.interval = n;
+        else parsed.count = n;
+        break;
+      }
+      case "UNTIL": {
+        const until = parseICalDate(value);
+        if (!until) return null;
+        // A DATE value includes the whole day
+        parsed.until = until.dateOnly ? endOfDay(until.date) : until.date;
+        break;
+      }
+      case "BYDAY": {
+        const byDay = parseWeekdays(value);
+        if (!byDay) return null;
+        parsed.byDay = byDay;
+        break;
+      }
+      case "BYMONTHDAY": {
+        const byMonthDay = parseNumberList(value, 31);
+        if (!byMonthDay) return null;
+        parsed.byMonthDay = byMonthDay;
+        break;
+      }
+      case "BYMONTH": {
+        const byMonth = parseNumberList(value, 12, false);
+        if (!byMonth) return null;
+        parsed.byMonth = byMonth;
+        break;
+      }
+      case "BYYEARDAY": {
+        const byYearDay = parseNumberList(value, 366);
+        if (!byYearDay) return null;
+        parsed.byYearDay = byYearDay;
+        break;
+      }
+      case "BYSETPOS": {
+        const bySetPos = parseNumberList(value, 366);
+        if (!bySetPos) return null;
+        parsed.bySetPos = bySetPos;
+        break;
+      }
+      case "WKST": {
+        const wkst = WEEKDAY_CODES.indexOf(value);
+        if (wkst === -1) return null;
+        parsed.wkst = wkst;
+        break;
+      }
+      default:
+        break;
+    }
+  }
+
+  // Ordinal BYDAY values only make sense in monthly and yearly rules
+  if (
+    (freq === "DAILY" || freq === "WEEKLY") &&
+    parsed.byDay.some((weekday) => weekday.ordinal !== undefined)
+  ) {
+    return null;
+  }
+
+  return parsed;
+}
+
+function formatUtc(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return (
+    `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+    `T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`
+  );
+}
+
+/**
+ * Serialize a rule back to an RRULE value (without the "RRULE:" prefix).
+ * Default values (INTERVAL=1, WKST=MO) are omitted.
+ */
+export function serializeRRule(rule: RRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${formatUtc(rule.until)}`);
+  if (rule.byDay.length > 0) {
+    parts.push(
+      `BYDAY=${rule.byDay
+        .map(({ day, ordinal }) => `${ordinal ?? ""}${WEEKDAY_CODES[day]}`)
+        .join(",")}`
+    );
+  }
+  if (rule.byMonthDay.length > 0) {
+    parts.push(`BYMONTHDAY=${rule.byMonthDay.join(",")}`);
+  }
+  if (rule.byMonth.length > 0) parts.push(`BYMONTH=${rule.byMonth.join(",")}`);
+  if (rule.byYearDay.length > 0) {
+    parts.push(`BYYEARDAY=${rule.byYearDay.join(",")}`);
+  }
+  if (rule.bySetPos.length > 0) {
+    parts.push(`BYSETPOS=${rule.bySetPos.join(",")}`);
+  }
+  if (rule.wkst !== 1) parts.push(`WKST=${WEEKDAY_CODES[rule.wkst]}`);
+  return parts.join(";");
+}
+
+function uniqueSorted(days: Date[]): Date[] {
+  const byTime = new Map(days.map((day) => [day.getTime(), day]));
+  return Array.from(byTime.values()).sort((a, b) => a.getTime() - b.getTime());
+}
+
+/** Pick positions from a list, 1-based from the start or negative from the end */
+function pickPositions<T>(items: T[], positions: number[]): T[] {
+  return positions
+    .map((position) =>
+      position > 0 ? items[position - 1] : items[items.length + position]
+    )
+    .filter((item): item is T => item !== undefined);
+}
+
+/** Days in [start, end] matching BYDAY, with ordinals relative to the range */
+function expandWeekdays(start: Date, end: Date, byDay: RRuleWeekday[]): Date[] {
+  const days = eachDayOfInterval({ start, end });
+  return uniqueSorted(
+    byDay.flatMap(({ day, ordinal }) => {
+      const matching = days.filter((date) => date.getDay() === day);
+      return ordinal === undefined
+        ? matching
+        : pickPositions(matching, [ordinal]);
+    })
+  );
+}
+
+function resolveMonthDays(monthStart: Date, byMonthDay: number[]): Date[] {
+  const daysInMonth = getDaysInMonth(monthStart);
+  return uniqueSorted(
+    byMonthDay
+      .map((n) => (n > 0 ? n : daysInMonth + n + 1))
+      .filter((n) => n >= 1 && n <= daysInMonth)
+      .map((n) => addDays(monthStart, n - 1))
+  );
+}
+
+function resolveYearDays(yearStart: Date, byYearDay: number[]): Date[] {
+  const daysInYear =
+    differenceInCalendarDays(endOfYear(yearStart), yearStart) + 1;
+  return uniqueSorted(
+    byYearDay
+      .map((n) => (n > 0 ? n : daysInYear + n + 1))
+      .filter((n) => n >= 1 && n <= daysInYear)
+      .map((n) => addDays(yearStart, n - 1))
+  );
+}
+
+function matchesWeekday(date: Date, byDay: RRuleWeekday[]): boolean {
+  return byDay.length === 0 || byDay.some(({ day }) => date.getDay() === day);
+}
+
+function matchesMonth(date: Date, byMonth: number[]): boolean {
+  return byMonth.length === 0 || byMonth.includes(date.getMonth() + 1);
+}
+
+/** Candidate days of one month for MONTHLY rules and YEARLY rules with BYMONTH */
+function getMonthDays(rule: RRule, monthStart: Date, dtstart: Date): Date[] {
+  if (!matchesMonth(monthStart, rule.byMonth)) return [];
+
+  if (rule.byMonthDay.length > 0) {
+    const days = resolveMonthDays(monthStart, rule.byMonthDay);
+    if (rule.byDay.length === 0) return days;
+    const allowed = expandWeekdays(
+      monthStart,
+      endOfMonth(monthStart),
+      rule.byDay
+    );
+    return days.filter((day) => allowed.some((date) => isSameDay(date, day)));
+  }
+  if (rule.byDay.length > 0) {
+    return expandWeekdays(monthStart, endOfMonth(monthStart), rule.byDay);
+  }
+  // Months without the start day (e.g. the 31st) are skipped
+  return resolveMonthDays(monthStart, [dtstart.getDate()]);
+}
+
+function getYearDays(rule: RRule, yearStart: Date, dtstart: Date): Date[] {
+  if (rule.byYearDay.length > 0) {
+    return resolveYearDays(yearStart, rule.byYearDay).filter(
+      (day) =>
+        matchesMonth(day, rule.byMonth) &&
+        matchesWeekday(day, rule.byDay) &&
+        (rule.byMonthDay.length === 0 ||
+          resolveMonthDays(startOfMonth(day), rule.byMonthDay).some((date) =>
+            isSameDay(date, day)
+          ))
+    );
+  }
+
+  if (rule.byMonth.length > 0 || rule.byMonthDay.length > 0) {
+    // BYMONTHDAY alone repeats in every month of the year
+    const months =
+      rule.byMonth.length > 0
+        ? [...rule.byMonth].sort((a, b) => a - b)
+        : Array.from({ length: 12 }, (_, index) => index + 1);
+    return uniqueSorted(
+      months.flatMap((month) =>
+        getMonthDays(rule, addMonths(yearStart, month - 1), dtstart)
+      )
+    );
+  }
+
+  if (rule.byDay.length > 0) {
+    return expandWeekdays(yearStart, endOfYear(yearStart), rule.byDay);
+  }
+
+  // Without BY* parts the rule repeats on the start date (Feb 29 only in leap years)
+  return getMonthDays(
+    { ...rule, byMonth: [dtstart.getMonth() + 1] },
+    addMonths(yearStart, dtstart.getMonth()),
+    dtstart
+  );
+}
+
+function getPeriodStart(rule: RRule, startDay: Date, index: number): Date {
+  const step = index * rule.interval;
+  switch (rule.freq) {
+    case "DAILY":
+      return addDays(startDay, step);
+    case "WEEKLY":
+      return addWeeks(
+        startOfWeek(startDay, { weekStartsOn: weekStart(rule) }),
+        step
+      );
+    case "MONTHLY":
+      return addMonths(startOfMonth(startDay), step);
+    case "YEARLY":
+      return addYears(startOfYear(startDay), step);
+  }
+}
+
+function weekStart(rule: RRule) {
+  return rule.wkst as 0 | 1 | 2 | 3 | 4 | 5 | 6;
+}
+
+/** Candidate days of one period, before BYSETPOS */
+function getPeriodDays(rule: RRule, periodStart: Date, dtstart: Date): Date[] {
+  switch (rule.freq) {
+    case "DAILY":
+      return matchesMonth(periodStart, rule.byMonth) &&
+        matchesWeekday(periodStart, rule.byDay) &&
+        (rule.byMonthDay.length === 0 ||
+          resolveMonthDays(startOfMonth(periodStart), rule.byMonthDay).some(
+            (date) => isSameDay(date, periodStart)
+          ))
+        ? [periodStart]
+        : [];
+    case "WEEKLY": {
+      const days = eachDayOfInterval({
+        start: periodStart,
+        end: endOfWeek(periodStart, { weekStartsOn: weekStart(rule) }),
+      });
+      const byDay =
+        rule.byDay.length > 0 ? rule.byDay : [{ day: dtstart.getDay() }];
+      return days.filter(
+        (day) => matchesWeekday(day, byDay) && matchesMonth(day, rule.byMonth)
+      );
+    }
+    case "MONTHLY":
+      return getMonthDays(rule, periodStart, dtstart);
+    case "YEARLY":
+      return getYearDays(rule, periodStart, dtstart);
+  }
+}
+
+/** Number of whole periods between the start and a later date */
+function periodsBetween(rule: RRule, startDay: Date, date: Date): number {
+  let units: number;
+  switch (rule.freq) {
+    case "DAILY":
+      units = differenceInCalendarDays(date, startDay);
+      break;
+    case "WEEKLY":
+      units = differenceInCalendarWeeks(date, startDay, {
+        weekStartsOn: weekStart(rule),
+      });
+      break;
+    case "MONTHLY":
+      units = differenceInCalendarMonths(date, startDay);
+      break;
+    case "YEARLY":
+      units = differenceInCalendarYears(date, startDay);
+      break;
+  }
+  return Math.floor(units / rule.interval);
+}
+
+function withTimeOf(day: Date, time: Date): Date {
+  return new Date(
+    day.getFullYear(),
+    day.getMonth(),
+    day.getDate(),
+    time.getHours(),
+    time.getMinutes(),
+    time.getSeconds(),
+    time.getMilliseconds()
+  );
+}
+
+/**
+ * Build a predicate for EXDATE values. DATE values exclude any occurrence on
+ * that day; DATE-TIME values exclude the occurrence starting at that instant.
+ */
+export function createExdateMatcher(
+  exdates: (string | Date)[] | null | undefined
+): (occurrence: Date) => boolean {
+  const parsed = (exdates ?? [])
+    .flatMap((value): (string | Date)[] =>
+      typeof value === "string" ? value.split(",") : [value]
+    )
+    .map((value) =>
+      typeof value === "string"
+        ? parseICalDate(value)
+        : { date: value, dateOnly: false }
+    )
+    .filter((value): value is { date: Date; dateOnly: boolean } => !!value);
+
+  return (occurrence) =>
+    parsed.some(({ date, dateOnly }) =>
+      dateOnly
+        ? isSameDay(date, occurrence)
+        : date.getTime() === occurrence.getTime()
+    );
+}
+
+/**
+ * Expand a rule into a zone's wall-clock time: dates and EXDATE-TIME values
+ * are converted to zoned dates, expanded locally and converted back.
+ */
+function expandRRuleInTimeZone(
+  rule: RRule,
+  dtstart: Date,
+  options: ExpandOptions & { timeZone: string }
+): Date[] {
+  const { timeZone, from, to } = options;
+  const toZoned = (date: Date) => toZonedTime(date, timeZone);
+  // DATE values already name a day of the zone
+  const exdates = (options.exdates ?? [])
+    .flatMap((value): (string | Date)[] =>
+      typeof value === "string" ? value.split(",") : [value]
+    )
+    .map((value) => {
+      if (value instanceof Date) return toZoned(value);
+      const parsed = parseICalDate(value);
+      return !parsed || parsed.dateOnly ? value : toZoned(parsed.date);
+    });
+
+  return expandRRule(
+    rule.until ? { ...rule, until: toZoned(rule.until) } : rule,
+    toZoned(dtstart),
+    {
+      ...options,
+      timeZone: undefined,
+      from: from && toZoned(from),
+      to: to && toZoned(to),
+      exdates,
+    }
+  ).map((occurrence) => fromZonedTime(occurrence, timeZone));
+}
+
+/**
+ * Expand a rule into occurrence start dates. Each occurrence keeps the
+ * time of day of `dtstart` in `options.timeZone` (or the local zone), so they
+ * stay at the same wall-clock time across DST changes. As in RFC 5545, `dtstart` is always the first occurrence and
+ * counts towards COUNT, even when it doesn't match the rule. EXDATE removes
+ * occurrences after COUNT is applied.
+ * @returns Sorted occurrence dates, or [] for invalid rules
+ */
+export function expandRRule(
+  rule: RRule | string,
+  dtstart: Date,
+  options: ExpandOptions = {}
+): Date[] {
+  const parsed = typeof rule === "string" ? parseRRule(rule) : rule;
+  if (!parsed || Number.isNaN(dtstart.getTime())) return [];
+  if (options.timeZone && isValidTimeZone(options.timeZone)) {
+    return expandRRuleInTimeZone(parsed, dtstart, {
+      ...options,
+      timeZone: options.timeZone,
+    });
+  }
+
+  const { from, to } = options;
+  const limit = Math.min(options.limit ?? MAX_OCCURRENCES, MAX_OCCURRENCES);
+  const isExcluded = createExdateMatcher(options.exdates);
+  const startDay = startOfDay(dtstart);
+  const occurrences: Date[] = [];
+  let generated = 0;
+
+  // Open-ended rules can skip straight to the requested range
+  const firstPeriod =
+    from && parsed.count === undefined && from > dtstart
+      ? Math.max(0, periodsBetween(parsed, startDay, from) - 1)
+      : 0;
+  let dtstartSeen = firstPeriod > 0;
+
+  // Returns false once no more occurrences can follow
+  const emit = (occurrence: Date): boolean => {
+    if (parsed.until && occurrence > parsed.until) return false;
+    if (parsed.count !== undefined && generated >= parsed.count) return false;
+    generated += 1;
+    if (to && occurrence > to) return false;
+    if ((!from || occurrence >= from) && !isExcluded(occurrence)) {
+      occurrences.push(occurrence);
+    }
+    return occurrences.length < limit;
+  };
+
+  for (let index = firstPeriod; index < firstPeriod + MAX_PERIODS; index++) {
+    const periodStart = getPeriodStart(parsed, startDay, index);
+    if (parsed.until && periodStart > parsed.until) break;
+    if (to && periodStart > to) break;
+
+    let days = getPeriodDays(parsed, periodStart, dtstart);
+    if (parsed.bySetPos.length > 0) {
+      days = uniqueSorted(pickPositions(days, parsed.bySetPos));
+    }
+
+    for (const day of days) {
+      const occurrence = withTimeOf(day, dtstart);
+      if (occurrence < dtstart) continue;
+      if (!dtstartSeen) {
+        dtstartSeen = true;
+        if (occurrence.getTime() !== dtstart.getTime() && !emit(dtstart)) {
+          return occurrences;
+        }
+      }
+      if (!emit(occurrence)) return occurrences;
+    }
+  }
+
+  if (!dtstartSeen) emit(dtstart);
+  return occurrences;
+}
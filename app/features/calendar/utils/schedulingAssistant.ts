@@ -0,0 +1,181 @@
+/**
+ * Scheduling assistant utilities
+ * Turn attendees' agenda items into busy blocks and find the earliest
+ * slots in working hours where every required attendee, and a room when
+ * rooms are requested, is free.
+ *
+ * All dates are compared by their local fields, so callers can pass zoned
+ * dates (see utils/timezone) to search in another zone's working hours.
+ */
+
+import { addDays, addMinutes, isBefore, setHours, startOfDay } from "date-fns";
+import type { AgendaItem } from "~/features/tasks/types/task.types";
+import type { CalendarEvent } from "~/features/calendar/types/calendar.types";
+import { expandRecurringEvents } from "~/features/calendar/utils/recurrence";
+
+export interface BusyBlock {
+  start: Date;
+  end: Date;
+  title?: string;
+}
+
+export interface WorkingHours {
+  startHour: number;
+  endHour: number;
+  /** Days of the week, 0 = Sunday */
+  days: number[];
+}
+
+export const DEFAULT_WORKING_HOURS: WorkingHours = {
+  startHour: 9,
+  endHour: 18,
+  days: [1, 2, 3, 4, 5],
+};
+
+export interface AttendeeAvailability {
+  id: string;
+  required: boolean;
+  busy: BusyBlock[];
+}
+
+export interface RoomAvailability {
+  id: string;
+  busy: BusyBlock[];
+}
+
+export interface SlotSuggestion {
+  start: Date;
+  end: Date;
+  /** Optional attendees who are busy during the slot */
+  unavailableOptional: string[];
+  /** First requested room that is free during the slot */
+  roomId?: string;
+}
+
+export interface FindFreeSlotsOptions {
+  from: Date;
+  to: Date;
+  durationMinutes: number;
+  attendees: AttendeeAvailability[];
+  /** Candidate rooms; when given, a slot needs one of them free */
+  rooms?: RoomAvailability[];
+  workingHours?: WorkingHours;
+  /** Distance between candidate start times */
+  stepMinutes?: number;
+  limit?: number;
+}
+
+/**
+ * Busy blocks of an agenda. Deadlines, cancelled items, all-day items and
+ * items without an end don't block time.
+ * @param excludeId - Event being edited, so it doesn't block itself
+ */
+export function agendaItemsToBusyBlocks(
+  items: AgendaItem[],
+  excludeId?: string
+): BusyBlock[] {
+  return items.flatMap((item) => {
+    if (excludeId && (item.id === excludeId || item.source_id === excludeId))
+      return [];
+    if (item.type === "deadline" || item.status === "cancelled") return [];
+    if (!item.end_date || item.metadata?.all_day === true) return [];
+    const start = new Date(item.start_date);
+    const end = new Date(item.end_date);
+    if (!isBefore(start, end)) return [];
+    return [{ start, end, title: item.title }];
+  });
+}
+
+/**
+ * Busy blocks of a room from the events booking it. Recurring bookings are
+ * expanded over the range; cancelled and all-day bookings don't block time.
+ * @param excludeId - Event being edited, so it doesn't block itself
+ * @param timeZone - Zone of the series that don't have their own
+ */
+export function roomBookingsToBusyBlocks(
+  events: CalendarEvent[],
+  rangeStart: Date,
+  rangeEnd: Date,
+  excludeId?: string,
+  timeZone?: string
+): BusyBlock[] {
+  const bookings = events.filter(
+    (event) =>
+      event.id !== excludeId && event.status !== "cancelled" && !event.all_day
+  );
+  return expandRecurringEvents(bookings, rangeStart, rangeEnd, timeZone).map(
+    (event) => ({
+      start: new Date(event.start_time),
+      end: new Date(event.end_time),
+      title: event.title,
+    })
+  );
+}
+
+/**
+ * Check whether any block overlaps a time range
+ */
+export function isBusy(blocks: BusyBlock[], start: Date, end: Date): boolean {
+  return blocks.some((block) => block.start < end && block.end > start);
+}
+
+/**
+ * Candidate slots, best first: slots where every optional attendee can come
+ * go before slots that miss some, and earlier slots before later ones.
+ * Slots where a required attendee is busy, or no requested room is free,
+ * are never suggested.
+ */
+export function findFreeSlots({
+  from,
+  to,
+  durationMinutes,
+  attendees,
+  rooms,
+  workingHours = DEFAULT_WORKING_HOURS,
+  stepMinutes = 30,
+  limit = 5,
+}: FindFreeSlotsOptions): SlotSuggestion[] {
+  if (durationMinutes <= 0) return [];
+  const required = attendees.filter((attendee) => attendee.required);
+  const optional = attendees.filter((attendee) => !attendee.required);
+  const candidates: SlotSuggestion[] = [];
+
+  for (let day = startOfDay(from); day < to; day = addDays(day, 1)) {
+    if (!workingHours.days.includes(day.getDay())) continue;
+    const dayEnd = setHours(day, workingHours.endHour);
+
+    for (
+      let start = setHours(day, workingHours.startHour);
+      addMinutes(start, durationMinutes) <= dayEnd;
+      start = addMinutes(start, stepMinutes)
+    ) {
+      if (start < from) continue;
+      const end = addMinutes(start, durationMinutes);
+      if (end > to) break;
+      if (required.some((attendee) => isBusy(attendee.busy, start, end)))
+        continue;
+
+      const room = rooms?.length
+        ? rooms.find((item) => !isBusy(item.busy, start, end))
+        : undefined;
+      if (rooms?.length && !room) continue;
+
+      candidates.push({
+        start,
+        end,
+        unavailableOptional: optional
+          .filter((attendee) => isBusy(attendee.busy, start, end))
+          .map((attendee) => attendee.id),
+        roomId: room?.id,
+      });
+    }
+  }
+
+  return candidates
+    .sort(
+      (a, b) =>
+        a.unavailableOptional.length - b.unavailableOptional.length ||
+        a.start.getTime() - b.start.getTime()
+    )
+    .slice(0, limit);
+}
@@ -0,0 +1,198 @@
+/**
+ * Time zone utilities
+ * Conversions between instants and wall-clock times in IANA time zones,
+ * based on Intl so no time zone database has to be bundled.
+ *
+ * Views work with "zoned" dates: Date objects whose local fields show the
+ * wall-clock time of another zone, so date-fns can be used on them as is.
+ */
+
+import type { CalendarEvent } from "~/features/calendar/types/calendar.types";
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+function getZonedParts(timeZone: string, date: Date) {
+  const parts = getFormatter(timeZone).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value);
+  return {
+    year: get("year"),
+    month: get("month") - 1,
+    day: get("day"),
+    hours: get("hour"),
+    minutes: get("minute"),
+    seconds: get("second"),
+  };
+}
+
+/**
+ * Check whether a time zone name is known to the runtime
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Offset of a time zone from UTC at a given instant, in milliseconds
+ * (positive east of Greenwich)
+ */
+export function getTimeZoneOffset(timeZone: string, date: Date): number {
+  const { year, month, day, hours, minutes, seconds } = getZonedParts(
+    timeZone,
+    date
+  );
+  const wallClock = Date.UTC(year, month, day, hours, minutes, seconds);
+  return wallClock - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Instant at which the wall clock of `timeZone` shows the given time.
+ * Times skipped by a DST change move forward by the gap (02:30 becomes
+ * 03:30).
+ * @param year - Full year
+ * @param month - Month, 0-11
+ */
+export function zonedTimeToUtc(
+  timeZone: string,
+  year: number,
+  month: number,
+  day: number,
+  hours = 0,
+  minutes = 0,
+  seconds = 0
+): Date {
+  const wallClock = Date.UTC(year, month, day, hours, minutes, seconds);
+  const guess = wallClock - getTimeZoneOffset(timeZone, new Date(wallClock));
+  // The offset may change between the guess and the real instant
+  return new Date(wallClock - getTimeZoneOffset(timeZone, new Date(guess)));
+}
+
+/**
+ * Time zone of the browser
+ */
+export function getLocalTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+/**
+ * Time zones known to the runtime, for pickers
+ */
+export function getTimeZoneNames(): string[] {
+  const names = Intl.supportedValuesOf("timeZone");
+  return names.includes("UTC") ? names : [...names, "UTC"];
+}
+
+/**
+ * Zoned date showing, in its local fields, the wall-clock time of `timeZone`
+ * at `date`
+ */
+export function toZonedTime(date: Date, timeZone: string): Date {
+  const { year, month, day, hours, minutes, seconds } = getZonedParts(
+    timeZone,
+    date
+  );
+  return new Date(
+    year,
+    month,
+    day,
+    hours,
+    minutes,
+    seconds,
+    date.getMilliseconds()
+  );
+}
+
+/**
+ * Instant of a zoned date, reading its local fields as the wall-clock time
+ * of `timeZone`. Inverse of `toZonedTime`.
+ */
+export function fromZonedTime(date: Date, timeZone: string): Date {
+  const instant = zonedTimeToUtc(
+    timeZone,
+    date.getFullYear(),
+    date.getMonth(),
+    date.getDate(),
+    date.getHours(),
+    date.getMinutes(),
+    date.getSeconds()
+  );
+  return new Date(instant.getTime() + date.getMilliseconds());
+}
+
+/**
+ * Short UTC offset label of a zone at a given instant, e.g. "GMT-6" or
+ * "GMT+5:30"
+ */
+export function formatTimeZoneOffset(timeZone: string, date: Date): string {
+  const offsetMinutes = Math.round(getTimeZoneOffset(timeZone, date) / 60000);
+  if (offsetMinutes === 0) return "GMT";
+  const sign = offsetMinutes > 0 ? "+" : "-";
+  const hours = Math.floor(Math.abs(offsetMinutes) / 60);
+  const minutes = Math.abs(offsetMinutes) % 60;
+  return `GMT${sign}${hours}${minutes ? `:${String(minutes).padStart(2, "0")}` : ""}`;
+}
+
+/**
+ * Picker label of a zone, e.g. "(GMT-6) America/Mexico City"
+ */
+export function formatTimeZoneLabel(timeZone: string, date: Date): string {
+  return `(${formatTimeZoneOffset(timeZone, date)}) ${timeZone.replace(/_/g, " ")}`;
+}
+
+/**
+ * Copy of an event with its times as zoned dates of `timeZone`, for views
+ * that lay out events with local dates. All-day events are floating dates
+ * and are returned as is.
+ */
+export function toZonedEvent(
+  event: CalendarEvent,
+  timeZone: string
+): CalendarEvent {
+  if (event.all_day) return event;
+  return {
+    ...event,
+    start_time: toZonedTime(new Date(event.start_time), timeZone).toISOString(),
+    end_time: toZonedTime(new Date(event.end_time), timeZone).toISOString(),
+  };
+}
+
+/**
+ * Inverse of `toZonedEvent`
+ */
+export function fromZonedEvent(
+  event: CalendarEvent,
+  timeZone: string
+): CalendarEvent {
+  if (event.all_day) return event;
+  return {
+    ...event,
+    start_time: fromZonedTime(
+      new Date(event.start_time),
+      timeZone
+    ).toISOString(),
+    end_time: fromZonedTime(new Date(event.end_time), timeZone).toISOString(),
+  };
+}
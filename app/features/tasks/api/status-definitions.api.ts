@@ -5,6 +5,7 @@
  */
 
 import apiClient from '~/lib/api/client';
+import type { WipPolicy } from '../types/status.types';
 
 interface StandardResponse<T> {
   data: T;
@@ -31,6 +32,8 @@ export interface TaskStatusDefinition {
   color: string;
   is_system: boolean;
   order: number;
+  wip_limit?: number | null; // Max tasks in the board column, null = unlimited
+  wip_policy?: WipPolicy;
 }
 
 export interface TaskStatusDefinitionCreate {
@@ -38,6 +41,8 @@ export interface TaskStatusDefinitionCreate {
   type: 'open' | 'in_progress' | 'closed';
   color: string;
   order?: number;
+  wip_limit?: number | null;
+  wip_policy?: WipPolicy;
 }
 
 export interface TaskStatusDefinitionUpdate {
@@ -45,6 +50,8 @@ export interface TaskStatusDefinitionUpdate {
   type?: 'open' | 'in_progress' | 'closed';
   color?: string;
   order?: number;
+  wip_limit?: number | null;
+  wip_policy?: WipPolicy;
 }
 
 /**
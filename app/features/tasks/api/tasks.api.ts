@@ -25,6 +25,8 @@ import type {
   CalendarSourcePreferences,
   SavedView,
   ViewCreate,
+  Timesheet,
+  TimesheetUpdate,
 } from "~/features/tasks/types/task.types";
 
 /**
@@ -43,6 +45,9 @@ export async function listTasks(
       status: params?.status,
       assigned_to_id: params?.assigned_to_id,
       priority: params?.priority,
+      ids: params?.ids?.join(","),
+      start_date: params?.start_date,
+      end_date: params?.end_date,
     },
   });
   return response.data;
@@ -115,6 +120,26 @@ export async function updateTask(
   return response.data;
 }
 
+/**
+ * Create the instance that follows a recurring task
+ * POST /api/v1/tasks/{id}/recurrence/next-instance
+ *
+ * The backend copies checklist items and assignments and links the instance
+ * from the source task. Generation is keyed on the series and the next date,
+ * so repeated calls return the existing instance instead of a duplicate.
+ * Fixed-schedule series are generated by the backend scheduler.
+ *
+ * Requires: tasks.manage permission
+ */
+export async function createNextRecurringInstance(
+  id: string
+): Promise<StandardResponse<Task>> {
+  const response = await apiClient.post<StandardResponse<Task>>(
+    `/tasks/${id}/recurrence/next-instance`
+  );
+  return response.data;
+}
+
 /**
  * Delete task
  * DELETE /api/v1/tasks/{id}
@@ -128,6 +153,22 @@ export async function deleteTask(id: string): Promise<StandardResponse<null>> {
   return response.data;
 }
 
+/**
+ * Restore a deleted task
+ * POST /api/v1/tasks/{id}/restore
+ *
+ * Deleted tasks are kept in the trash, so the task comes back with the same
+ * id, checklist, assignments, comments and files.
+ *
+ * Requires: tasks.manage permission
+ */
+export async function restoreTask(id: string): Promise<StandardResponse<Task>> {
+  const response = await apiClient.post<StandardResponse<Task>>(
+    `/tasks/${id}/restore`
+  );
+  return response.data;
+}
+
 /**
  * Add checklist item to task
  * POST /api/v1/tasks/{id}/checklist
@@ -288,6 +329,7 @@ export async function getAgenda(
         start_date: params?.start_date,
         end_date: params?.end_date,
         sources: params?.sources,
+        user_id: params?.user_id,
       },
     }
   );
@@ -352,3 +394,52 @@ export async function createView(
   );
   return response.data;
 }
+
+/**
+ * Get the current user's timesheet for a week (created as draft if missing)
+ * GET /api/v1/tasks/timesheets/week/{week_start}
+ *
+ * Requires: tasks.view permission
+ */
+export async function getTimesheet(
+  weekStart: string
+): Promise<StandardResponse<Timesheet>> {
+  const response = await apiClient.get<StandardResponse<Timesheet>>(
+    `/tasks/timesheets/week/${weekStart}`
+  );
+  return response.data;
+}
+
+/**
+ * Replace the entries of a draft or rejected timesheet
+ * PUT /api/v1/tasks/timesheets/{timesheet_id}
+ *
+ * Requires: tasks.view permission
+ */
+export async function updateTimesheet(
+  timesheetId: string,
+  payload: TimesheetUpdate
+): Promise<StandardResponse<Timesheet>> {
+  const response = await apiClient.put<StandardResponse<Timesheet>>(
+    `/tasks/timesheets/${timesheetId}`,
+    payload
+  );
+  return response.data;
+}
+
+/**
+ * Mark a timesheet as submitted and link its approval request
+ * POST /api/v1/tasks/timesheets/{timesheet_id}/submit
+ *
+ * Requires: tasks.view permission
+ */
+export async function submitTimesheet(
+  timesheetId: string,
+  approvalRequestId: string
+): Promise<StandardResponse<Timesheet>> {
+  const response = await apiClient.post<StandardResponse<Timesheet>>(
+    `/tasks/timesheets/${timesheetId}/submit`,
+    { approval_request_id: approvalRequestId }
+  );
+  return response.data;
+}
@@ -1,28 +1,64 @@
 /**
  * BoardView component
- * Kanban-style board for tasks grouped by status
+ * Kanban-style board for tasks grouped by status, with WIP limits,
+ * optional swimlanes and collapsible columns
  */
 
-import { useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
 import { useTranslation } from "~/lib/i18n/useTranslation";
 import { Card, CardContent, CardHeader } from "~/components/ui/card";
 import { Badge } from "~/components/ui/badge";
 import { Button } from "~/components/ui/button";
+import { Label } from "~/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import { showToast } from "~/components/common/Toast";
 import { cn } from "~/lib/utils";
 import { format } from "date-fns";
 import { es, enUS } from "date-fns/locale";
-import type { Task } from "../types/task.types";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import {
+  NO_LANE_ID,
+  buildLaneUpdate,
+  buildSwimlanes,
+  getWipState,
+  isDropBlocked,
+  type SwimlaneGroupBy,
+} from "../utils/kanban";
+import type { Task, TaskUpdate } from "../types/task.types";
 import type { TaskStatus } from "../types/status.types";
 
 interface BoardViewProps {
   tasks: Task[];
   statuses: TaskStatus[];
+  users?: { id: string; name: string }[];
+  tags?: { id: string; name: string }[];
   onTaskClick?: (task: Task) => void;
-  onTaskMove?: (taskId: string, newStatusId: string, newOrder: number) => void;
+  onTaskMove?: (
+    taskId: string,
+    newStatusId: string,
+    newOrder: number,
+    laneUpdate?: TaskUpdate | null
+  ) => void;
   onCreateTask?: (statusId: string) => void;
   loading?: boolean;
 }
 
+const COLLAPSED_STORAGE_KEY = "tasks_board_collapsed_statuses";
+const SWIMLANES_STORAGE_KEY = "tasks_board_swimlanes";
+
+const SWIMLANE_OPTIONS: SwimlaneGroupBy[] = [
+  "none",
+  "assignee",
+  "priority",
+  "tag",
+];
+
 const priorityColors: Record<string, string> = {
   low: "bg-green-500/10 text-green-700 dark:text-green-400 border-green-500/20",
   medium:
@@ -31,6 +67,13 @@ const priorityColors: Record<string, string> = {
   urgent: "bg-red-500/10 text-red-700 dark:text-red-400 border-red-500/20",
 };
 
+const wipBadgeClasses = {
+  ok: "",
+  at_limit:
+    "border-amber-500/40 bg-amber-500/10 text-amber-700 dark:text-amber-400",
+  over: "border-destructive/40 bg-destructive/10 text-destructive",
+};
+
 // Mapeo de nombres de status en español a claves de traducción
 const statusNameToKey: Record<string, string> = {
   "Por Hacer": "todo",
@@ -42,9 +85,40 @@ const statusNameToKey: Record<string, string> = {
   "En Revisión": "review",
 };
 
+// Group tasks by status, sorted by board_order
+function groupTasksByStatus(tasks: Task[], statuses: TaskStatus[]) {
+  const groups = new Map<string, Task[]>();
+
+  // Initialize all status groups
+  statuses.forEach((status) => {
+    groups.set(status.id, []);
+  });
+
+  // Group tasks
+  tasks.forEach((task) => {
+    const statusId = task.status_id || "";
+    if (groups.has(statusId)) {
+      groups.get(statusId)!.push(task);
+    }
+  });
+
+  // Sort tasks within each status by board_order
+  groups.forEach((statusTasks) => {
+    statusTasks.sort((a, b) => {
+      const orderA = a.board_order ?? Number.MAX_SAFE_INTEGER;
+      const orderB = b.board_order ?? Number.MAX_SAFE_INTEGER;
+      return orderA - orderB;
+    });
+  });
+
+  return groups;
+}
+
 export function BoardView({
   tasks,
   statuses,
+  users = [],
+  tags = [],
   onTaskClick,
   onTaskMove,
   onCreateTask,
@@ -53,42 +127,99 @@ export function BoardView({
   const { t, language } = useTranslation();
   const dateLocale = language === "en" ? enUS : es;
   const [draggedTask, setDraggedTask] = useState<Task | null>(null);
-  const [dragOverStatus, setDragOverStatus] = useState<string | null>(null);
-
-  // Group tasks by status
-  const tasksByStatus = useMemo(() => {
-    const groups = new Map<string, Task[]>();
-
-    // Initialize all status groups
-    statuses.forEach((status) => {
-      groups.set(status.id, []);
-    });
-
-    // Group tasks
-    tasks.forEach((task) => {
-      const statusId = task.status_id || "";
-      if (groups.has(statusId)) {
-        groups.get(statusId)!.push(task);
+  const [dragOverCell, setDragOverCell] = useState<string | null>(null);
+  const [collapsedStatuses, setCollapsedStatuses] = useState<string[]>(() => {
+    // Load from localStorage
+    if (typeof window !== "undefined") {
+      const saved = localStorage.getItem(COLLAPSED_STORAGE_KEY);
+      if (saved) {
+        try {
+          return JSON.parse(saved) as string[];
+        } catch {
+          return [];
+        }
       }
-    });
+    }
+    return [];
+  });
+  const [groupBy, setGroupBy] = useState<SwimlaneGroupBy>(() => {
+    if (typeof window !== "undefined") {
+      const saved = localStorage.getItem(SWIMLANES_STORAGE_KEY);
+      if (SWIMLANE_OPTIONS.includes(saved as SwimlaneGroupBy)) {
+        return saved as SwimlaneGroupBy;
+      }
+    }
+    return "none";
+  });
 
-    // Sort tasks within each status by board_order
-    groups.forEach((statusTasks) => {
-      statusTasks.sort((a, b) => {
-        const orderA = a.board_order ?? Number.MAX_SAFE_INTEGER;
-        const orderB = b.board_order ?? Number.MAX_SAFE_INTEGER;
-        return orderA - orderB;
-      });
-    });
+  // Persist board layout to localStorage
+  useEffect(() => {
+    if (typeof window !== "undefined") {
+      localStorage.setItem(
+        COLLAPSED_STORAGE_KEY,
+        JSON.stringify(collapsedStatuses)
+      );
+      localStorage.setItem(SWIMLANES_STORAGE_KEY, groupBy);
+    }
+  }, [collapsedStatuses, groupBy]);
 
-    return groups;
-  }, [tasks, statuses]);
+  const tasksByStatus = useMemo(
+    () => groupTasksByStatus(tasks, statuses),
+    [tasks, statuses]
+  );
 
   // Sort statuses by order
   const sortedStatuses = useMemo(() => {
     return [...statuses].sort((a, b) => a.order - b.order);
   }, [statuses]);
 
+  const getLaneLabel = useCallback(
+    (laneId: string): string => {
+      switch (groupBy) {
+        case "assignee":
+          return laneId === NO_LANE_ID
+            ? t("tasks.board.swimlanes.unassigned")
+            : (users.find((user) => user.id === laneId)?.name ?? laneId);
+        case "priority":
+          return t(`tasks.priorities.${laneId}`);
+        case "tag":
+          return laneId === NO_LANE_ID
+            ? t("tasks.board.swimlanes.noTag")
+            : (tags.find((tag) => tag.id === laneId)?.name ?? laneId);
+        case "none":
+          return "";
+      }
+    },
+    [groupBy, users, tags, t]
+  );
+
+  const lanes = useMemo(() => {
+    const boardTasks = tasks.filter((task) =>
+      tasksByStatus.has(task.status_id || "")
+    );
+    return buildSwimlanes(boardTasks, groupBy, getLaneLabel).map((lane) => ({
+      ...lane,
+      tasksByStatus: groupTasksByStatus(lane.tasks, statuses),
+    }));
+  }, [tasks, statuses, tasksByStatus, groupBy, getLaneLabel]);
+
+  const getStatusName = (status: TaskStatus) =>
+    t(`tasks.statuses.${statusNameToKey[status.name] || status.name}`) ||
+    status.name;
+
+  const isBlockedFor = (status: TaskStatus, task: Task | null) =>
+    !!task &&
+    task.status_id !== status.id &&
+    isDropBlocked(status, tasksByStatus.get(status.id)?.length ?? 0);
+
+  const toggleCollapsed = (statusId: string) => {
+    setCollapsedStatuses((prev) =>
+      prev.includes(statusId)
+        ? prev.filter((id) => id !== statusId)
+        : [...prev, statusId]
+    );
+  };
+
   const handleDragStart = (e: React.DragEvent, task: Task) => {
     setDraggedTask(task);
     // Establecer data transfer para mejor compatibilidad
@@ -96,42 +227,144 @@ export function BoardView({
     e.dataTransfer.setData("text/plain", task.id);
   };
 
-  const handleDragOver = (e: React.DragEvent, statusId: string) => {
+  const handleDragOver = (
+    e: React.DragEvent,
+    status: TaskStatus,
+    laneId: string
+  ) => {
     e.preventDefault();
-    e.dataTransfer.dropEffect = "move";
-    setDragOverStatus(statusId);
+    e.dataTransfer.dropEffect = isBlockedFor(status, draggedTask)
+      ? "none"
+      : "move";
+    setDragOverCell(`${status.id}:${laneId}`);
   };
 
   const handleDragLeave = () => {
-    setDragOverStatus(null);
+    setDragOverCell(null);
   };
 
   const handleDragEnd = () => {
     setDraggedTask(null);
-    setDragOverStatus(null);
+    setDragOverCell(null);
   };
 
-  const handleDrop = (e: React.DragEvent, statusId: string) => {
+  const handleDrop = (
+    e: React.DragEvent,
+    status: TaskStatus,
+    laneId: string
+  ) => {
     e.preventDefault();
-    setDragOverStatus(null);
+    setDragOverCell(null);
 
     if (!draggedTask || !onTaskMove) {
       return;
     }
 
-    // Si la tarea ya está en este estado, no hacer nada
-    if (draggedTask.status_id === statusId) {
+    const laneUpdate = buildLaneUpdate(draggedTask, groupBy, laneId);
+
+    // Si la tarea ya está en este estado y carril, no hacer nada
+    if (draggedTask.status_id === status.id && !laneUpdate) {
+      setDraggedTask(null);
+      return;
+    }
+
+    if (isBlockedFor(status, draggedTask)) {
+      showToast(
+        t("tasks.board.wipBlocked")
+          .replace("{status}", getStatusName(status))
+          .replace("{limit}", String(status.wip_limit)),
+        "error"
+      );
       setDraggedTask(null);
       return;
     }
 
-    const targetTasks = tasksByStatus.get(statusId) || [];
-    const newOrder = targetTasks.length;
+    const targetTasks = tasksByStatus.get(status.id) || [];
+    const newOrder =
+      draggedTask.status_id === status.id
+        ? (draggedTask.board_order ?? targetTasks.length)
+        : targetTasks.length;
 
-    onTaskMove(draggedTask.id, statusId, newOrder);
+    onTaskMove(draggedTask.id, status.id, newOrder, laneUpdate);
     setDraggedTask(null);
   };
 
+  const renderTaskCard = (task: Task) => (
+    <Card
+      key={task.id}
+      draggable
+      onDragStart={(e) => handleDragStart(e, task)}
+      onDragEnd={handleDragEnd}
+      className={cn(
+        "cursor-move border-border/60 transition-all hover:border-primary/40 hover:shadow-md",
+        draggedTask?.id === task.id && "opacity-50"
+      )}
+      onClick={() => onTaskClick?.(task)}
+    >
+      <CardContent className="p-3">
+        {/* Task title */}
+        <h4 className="mb-1.5 font-medium text-foreground line-clamp-2 text-sm">
+          {task.title}
+        </h4>
+
+        {/* Task description */}
+        {task.description && (
+          <p className="mb-2 text-xs text-muted-foreground line-clamp-2">
+            {task.description}
+          </p>
+        )}
+
+        {/* Task metadata */}
+        <div className="flex flex-wrap items-center gap-1.5">
+          {/* Priority badge */}
+          <Badge
+            variant="outline"
+            className={cn(
+              "text-xs",
+              priorityColors[task.priority] || priorityColors.medium
+            )}
+          >
+            {t(`tasks.priorities.${task.priority}` as const)}
+          </Badge>
+
+          {/* Due date */}
+          {task.due_date && (
+            <div className="flex items-center gap-1 text-xs text-muted-foreground">
+              <span>📅</span>
+              <span>
+                {format(new Date(task.due_date), "MMM d", {
+                  locale: dateLocale,
+                })}
+              </span>
+            </div>
+          )}
+
+          {/* Assigned user indicator */}
+          {task.assigned_to_id && (
+            <div className="ml-auto flex h-6 w-6 items-center justify-center rounded-full bg-primary/10 text-xs font-medium text-primary">
+              {task.assigned_to_id.slice(0, 2).toUpperCase()}
+            </div>
+          )}
+        </div>
+
+        {/* Checklist progress */}
+        {task.checklist_items && task.checklist_items.length > 0 && (
+          <div className="mt-3 flex items-center gap-2 text-xs text-muted-foreground">
+            <span>☑</span>
+            <span>
+              {
+                task.checklist_items.filter(
+                  (item: { completed: boolean }) => item.completed
+                ).length
+              }
+              /{task.checklist_items.length}
+            </span>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+
   if (loading) {
     return (
       <div className="flex h-64 items-center justify-center">
@@ -140,146 +373,209 @@ export function BoardView({
     );
   }
 
+  const hasLanes = groupBy !== "none";
+
   return (
-    <div className="h-full flex gap-3 overflow-x-auto pb-4">
-      {sortedStatuses.map((status) => {
-        const statusTasks = tasksByStatus.get(status.id) || [];
-        const isClosedType = status.type === "completed" || status.type === "canceled";
-
-        return (
-          <div
-            key={status.id}
-            className={cn(
-              "flex min-w-[280px] max-h-[600px] flex-col rounded-lg transition-all",
-              dragOverStatus === status.id &&
-                "bg-primary/5 ring-2 ring-primary/20"
-            )}
-            onDragOver={(e) => handleDragOver(e, status.id)}
-            onDragLeave={handleDragLeave}
-            onDrop={(e) => handleDrop(e, status.id)}
-          >
-            {/* Column header */}
-            <Card className="mb-2 border-border/60">
-              <CardHeader className="p-3">
-                <div className="flex items-center justify-between">
-                  <div className="flex items-center gap-2">
+    <div className="flex h-full flex-col gap-3">
+      {/* Swimlane selector */}
+      <div className="flex items-center gap-2">
+        <Label htmlFor="board-swimlanes" className="text-sm">
+          {t("tasks.board.swimlanes.label")}
+        </Label>
+        <Select
+          value={groupBy}
+          onValueChange={(value) => setGroupBy(value as SwimlaneGroupBy)}
+        >
+          <SelectTrigger id="board-swimlanes" className="h-8 w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SWIMLANE_OPTIONS.map((option) => (
+              <SelectItem key={option} value={option}>
+                {t(`tasks.board.swimlanes.${option}`)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex-1 overflow-auto pb-4">
+        <div className="inline-flex min-w-full flex-col gap-2">
+          {/* Column headers */}
+          <div className="flex gap-3">
+            {sortedStatuses.map((status) => {
+              const count = tasksByStatus.get(status.id)?.length ?? 0;
+              const wipState = getWipState(count, status.wip_limit);
+              const collapsed = collapsedStatuses.includes(status.id);
+
+              if (collapsed) {
+                return (
+                  <button
+                    key={status.id}
+                    type="button"
+                    className="flex w-10 shrink-0 flex-col items-center gap-2 rounded-lg border border-border/60 bg-card py-3 hover:bg-muted/50"
+                    onClick={() => toggleCollapsed(status.id)}
+                    title={t("tasks.board.expandColumn")}
+                    aria-label={`${t("tasks.board.expandColumn")}: ${getStatusName(status)}`}
+                  >
+                    <ChevronRight className="h-4 w-4 text-muted-foreground" />
                     <div
                       className="h-3 w-3 rounded-full"
                       style={{ backgroundColor: status.color }}
                     />
-                    <h3 className="font-semibold text-foreground">
-                      {t(`tasks.statuses.${statusNameToKey[status.name] || status.name}`) || status.name}
-                    </h3>
-                  </div>
-                  <Badge variant="outline" className="ml-2">
-                    {statusTasks.length}
-                  </Badge>
-                </div>
-              </CardHeader>
-            </Card>
+                    <span className="text-sm font-semibold [writing-mode:vertical-rl]">
+                      {getStatusName(status)}
+                    </span>
+                    <Badge
+                      variant="outline"
+                      className={cn("px-1", wipBadgeClasses[wipState])}
+                    >
+                      {count}
+                    </Badge>
+                  </button>
+                );
+              }
 
-            {/* Tasks list */}
-            <div className="flex-1 space-y-1.5 overflow-y-auto min-h-[400px]">
-              {statusTasks.map((task) => (
+              return (
                 <Card
-                  key={task.id}
-                  draggable
-                  onDragStart={(e) => handleDragStart(e, task)}
-                  onDragEnd={handleDragEnd}
+                  key={status.id}
                   className={cn(
-                    "cursor-move border-border/60 transition-all hover:border-primary/40 hover:shadow-md",
-                    draggedTask?.id === task.id && "opacity-50"
+                    "w-[280px] shrink-0 border-border/60",
+                    wipState === "over" && "border-destructive/50"
                   )}
-                  onClick={() => onTaskClick?.(task)}
                 >
-                  <CardContent className="p-3">
-                    {/* Task title */}
-                    <h4 className="mb-1.5 font-medium text-foreground line-clamp-2 text-sm">
-                      {task.title}
-                    </h4>
-
-                    {/* Task description */}
-                    {task.description && (
-                      <p className="mb-2 text-xs text-muted-foreground line-clamp-2">
-                        {task.description}
+                  <CardHeader className="p-3">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-2">
+                        <div
+                          className="h-3 w-3 rounded-full"
+                          style={{ backgroundColor: status.color }}
+                        />
+                        <h3 className="font-semibold text-foreground">
+                          {getStatusName(status)}
+                        </h3>
+                      </div>
+                      <div className="flex items-center gap-1">
+                        <Badge
+                          variant="outline"
+                          className={cn("ml-2", wipBadgeClasses[wipState])}
+                          title={
+                            status.wip_limit
+                              ? t("tasks.board.wipLimit").replace(
+                                  "{limit}",
+                                  String(status.wip_limit)
+                                )
+                              : undefined
+                          }
+                        >
+                          {status.wip_limit
+                            ? `${count}/${status.wip_limit}`
+                            : count}
+                        </Badge>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-6 w-6"
+                          onClick={() => toggleCollapsed(status.id)}
+                          title={t("tasks.board.collapseColumn")}
+                          aria-label={t("tasks.board.collapseColumn")}
+                        >
+                          <ChevronLeft className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                    {wipState === "over" && (
+                      <p className="mt-1 text-xs text-destructive">
+                        {t("tasks.board.wipExceeded")}
                       </p>
                     )}
+                  </CardHeader>
+                </Card>
+              );
+            })}
+          </div>
 
-                    {/* Task metadata */}
-                    <div className="flex flex-wrap items-center gap-1.5">
-                      {/* Priority badge */}
-                      <Badge
-                        variant="outline"
-                        className={cn(
-                          "text-xs",
-                          priorityColors[task.priority] || priorityColors.medium
-                        )}
-                      >
-                        {t(`tasks.priorities.${task.priority}` as const)}
-                      </Badge>
-
-                      {/* Due date */}
-                      {task.due_date && (
-                        <div className="flex items-center gap-1 text-xs text-muted-foreground">
-                          <span>📅</span>
-                          <span>
-                            {format(new Date(task.due_date), "MMM d", {
-                              locale: dateLocale,
-                            })}
-                          </span>
-                        </div>
-                      )}
+          {/* Swimlanes */}
+          {lanes.map((lane) => (
+            <div key={lane.id} className="space-y-1">
+              {hasLanes && (
+                <div className="sticky left-0 flex w-fit items-center gap-2 py-1">
+                  <span className="text-sm font-medium text-foreground">
+                    {getLaneLabel(lane.id)}
+                  </span>
+                  <Badge variant="secondary">{lane.tasks.length}</Badge>
+                </div>
+              )}
 
-                      {/* Assigned user indicator */}
-                      {task.assigned_to_id && (
-                        <div className="ml-auto flex h-6 w-6 items-center justify-center rounded-full bg-primary/10 text-xs font-medium text-primary">
-                          {task.assigned_to_id.slice(0, 2).toUpperCase()}
-                        </div>
+              <div className="flex gap-3">
+                {sortedStatuses.map((status) => {
+                  const cellTasks = lane.tasksByStatus.get(status.id) || [];
+                  const isClosedType =
+                    status.type === "completed" || status.type === "canceled";
+                  const collapsed = collapsedStatuses.includes(status.id);
+                  const isDragOver = dragOverCell === `${status.id}:${lane.id}`;
+                  const blocked =
+                    isDragOver && isBlockedFor(status, draggedTask);
+
+                  return (
+                    <div
+                      key={status.id}
+                      className={cn(
+                        "shrink-0 rounded-lg transition-all",
+                        collapsed
+                          ? "w-10 border border-dashed border-border/60"
+                          : "w-[280px]",
+                        isDragOver &&
+                          (blocked
+                            ? "bg-destructive/5 ring-2 ring-destructive/30"
+                            : "bg-primary/5 ring-2 ring-primary/20")
                       )}
-                    </div>
+                      onDragOver={(e) => handleDragOver(e, status, lane.id)}
+                      onDragLeave={handleDragLeave}
+                      onDrop={(e) => handleDrop(e, status, lane.id)}
+                    >
+                      {collapsed ? (
+                        <div className="flex justify-center py-2 text-xs text-muted-foreground">
+                          {cellTasks.length || ""}
+                        </div>
+                      ) : (
+                        <div
+                          className={cn(
+                            "space-y-1.5",
+                            hasLanes ? "min-h-[80px]" : "min-h-[400px]"
+                          )}
+                        >
+                          {cellTasks.map(renderTaskCard)}
 
-                    {/* Checklist progress */}
-                    {task.checklist_items &&
-                      task.checklist_items.length > 0 && (
-                        <div className="mt-3 flex items-center gap-2 text-xs text-muted-foreground">
-                          <span>☑</span>
-                          <span>
-                            {
-                              task.checklist_items.filter(
-                                (item: { completed: boolean }) => item.completed
-                              ).length
-                            }
-                            /{task.checklist_items.length}
-                          </span>
+                          {/* Add task button */}
+                          {!hasLanes && !isClosedType && (
+                            <Button
+                              variant="ghost"
+                              className="w-full justify-start text-muted-foreground hover:text-foreground"
+                              onClick={() => onCreateTask?.(status.id)}
+                            >
+                              + {t("tasks.createActivity") || "Crear Actividad"}
+                            </Button>
+                          )}
+
+                          {/* Empty state */}
+                          {!hasLanes && cellTasks.length === 0 && (
+                            <div className="flex h-32 items-center justify-center rounded-lg border-2 border-dashed border-border/60">
+                              <p className="text-sm text-muted-foreground">
+                                {t("tasks.board.emptyColumn")}
+                              </p>
+                            </div>
+                          )}
                         </div>
                       )}
-                  </CardContent>
-                </Card>
-              ))}
-
-              {/* Add task button */}
-              {!isClosedType && (
-                <Button
-                  variant="ghost"
-                  className="w-full justify-start text-muted-foreground hover:text-foreground"
-                  onClick={() => onCreateTask?.(status.id)}
-                >
-                  + {t("tasks.createActivity") || "Crear Actividad"}
-                </Button>
-              )}
-
-              {/* Empty state */}
-              {statusTasks.length === 0 && (
-                <div className="flex h-32 items-center justify-center rounded-lg border-2 border-dashed border-border/60">
-                  <p className="text-sm text-muted-foreground">
-                    {t("tasks.board.emptyColumn")}
-                  </p>
-                </div>
-              )}
+                    </div>
+                  );
+                })}
+              </div>
             </div>
-          </div>
-        );
-      })}
+          ))}
+        </div>
+      </div>
     </div>
   );
 }
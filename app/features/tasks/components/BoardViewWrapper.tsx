@@ -8,11 +8,16 @@ import { useTranslation } from "~/lib/i18n/useTranslation";
 import { BoardView } from "./BoardView";
 import { TaskStatusManagerModal } from "./TaskStatusManagerModal";
 import { useUpdateTask } from "../hooks/useTasks";
+import { useTaskHistory } from "../hooks/useTaskHistory";
 import { useTaskStatuses } from "../hooks/useTaskStatuses";
+import { useTaskStatusDefinitions } from "../hooks/useTaskStatusDefinitions";
+import { useUsers } from "~/features/users/hooks/useUsers";
+import { useTags } from "~/features/tags/hooks/useTags";
+import { applyWipSettings } from "../utils/kanban";
 import { showToast } from "~/components/common/Toast";
 import { Button } from "~/components/ui/button";
 import { Settings } from "lucide-react";
-import type { Task } from "../types/task.types";
+import type { Task, TaskUpdate } from "../types/task.types";
 
 interface BoardViewWrapperProps {
   tasks: Task[];
@@ -29,7 +34,11 @@ export function BoardViewWrapper({
 }: BoardViewWrapperProps) {
   const { t } = useTranslation();
   const { statuses: userStatuses } = useTaskStatuses();
+  const { data: statusDefinitions } = useTaskStatusDefinitions();
+  const { users } = useUsers({ page_size: 100 });
+  const { data: tags = [] } = useTags();
   const updateTaskMutation = useUpdateTask();
+  const { undoAction } = useTaskHistory();
 
   // Combinar estados del sistema con estados del usuario
   const allStatuses = useMemo(() => {
@@ -41,9 +50,21 @@ export function BoardViewWrapper({
       { id: "cancelled", name: "Cancelado", type: "canceled" as const, color: "#ef4444", order: 4, tenant_id: "", is_system: true, created_at: "", updated_at: "" },
     ];
     
-    return [...systemStatuses, ...(userStatuses || [])]
+    const statuses = [...systemStatuses, ...(userStatuses || [])]
       .sort((a, b) => a.order - b.order);
-  }, [userStatuses]);
+
+    // WIP limits are stored on the status definitions
+    return applyWipSettings(statuses, statusDefinitions?.data ?? []);
+  }, [userStatuses, statusDefinitions]);
+
+  const boardUsers = useMemo(
+    () =>
+      users.map((u) => ({
+        id: u.id,
+        name: `${u.first_name ?? ""} ${u.last_name ?? ""}`.trim() || u.email,
+      })),
+    [users]
+  );
 
   // Preparar tareas con status_id mapeado desde status
   const preparedTasks = useMemo(() => {
@@ -60,7 +81,8 @@ export function BoardViewWrapper({
   const handleTaskMove = (
     taskId: string,
     newStatusId: string,
-    newOrder: number
+    newOrder: number,
+    laneUpdate?: TaskUpdate | null
   ) => {
     // Validar que newStatusId es un TaskStatus válido
     const validStatuses = [
@@ -82,6 +104,8 @@ export function BoardViewWrapper({
       {
         id: taskId,
         payload: {
+          // Cambios de carril (responsable, prioridad o etiqueta)
+          ...laneUpdate,
           status: newStatusId as Task["status"], // Cast a TaskStatus
           status_id: newStatusId,
           board_order: newOrder,
@@ -89,7 +113,12 @@ export function BoardViewWrapper({
       },
       {
         onSuccess: () => {
-          showToast(t("tasks.board.taskMovedSuccess"), "success");
+          showToast(
+            t("tasks.board.taskMovedSuccess"),
+            "success",
+            5000,
+            undoAction
+          );
           // Refrescar lista de tareas
           if (onRefresh) {
             onRefresh();
@@ -132,6 +161,8 @@ export function BoardViewWrapper({
         <BoardView
           tasks={preparedTasks}
           statuses={allStatuses}
+          users={boardUsers}
+          tags={tags}
           onTaskClick={onTaskClick}
           onTaskMove={handleTaskMove}
           onCreateTask={handleCreateTask}
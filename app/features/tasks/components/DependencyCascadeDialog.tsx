@@ -0,0 +1,111 @@
+/**
+ * DependencyCascadeDialog component
+ * Previews the successor date shifts caused by rescheduling a task
+ */
+
+import { differenceInCalendarDays, format } from "date-fns";
+import { es, enUS } from "date-fns/locale";
+import { ArrowRight } from "lucide-react";
+import { useTranslation } from "~/lib/i18n/useTranslation";
+import { Button } from "~/components/ui/button";
+import { Badge } from "~/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "~/components/ui/dialog";
+import type { Task } from "../types/task.types";
+import type { TaskSchedule } from "../utils/gantt";
+import type { ScheduleShift } from "../utils/scheduling";
+
+interface DependencyCascadeDialogProps {
+  open: boolean;
+  task: Task | null;
+  schedule: TaskSchedule | null;
+  shifts: ScheduleShift[];
+  isApplying?: boolean;
+  onApplyAll: () => void;
+  onApplyTaskOnly: () => void;
+  onCancel: () => void;
+}
+
+export function DependencyCascadeDialog({
+  open,
+  task,
+  schedule,
+  shifts,
+  isApplying = false,
+  onApplyAll,
+  onApplyTaskOnly,
+  onCancel,
+}: DependencyCascadeDialogProps) {
+  const { t, language } = useTranslation();
+  const dateLocale = language === "en" ? enUS : es;
+
+  const formatRange = (range: TaskSchedule) =>
+    `${format(range.start, "PP", { locale: dateLocale })} – ${format(range.end, "PP", { locale: dateLocale })}`;
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="sm:max-w-[600px]">
+        <DialogHeader>
+          <DialogTitle>{t("tasks.dependencies.cascadeTitle")}</DialogTitle>
+          <DialogDescription>
+            {t("tasks.dependencies.cascadeDescription")
+              .replace("{task}", task?.title ?? "")
+              .replace("{count}", String(shifts.length))}
+          </DialogDescription>
+        </DialogHeader>
+
+        {task && schedule && (
+          <div className="rounded-md border bg-muted/40 p-3 text-sm">
+            <p className="font-medium">{task.title}</p>
+            <p className="text-muted-foreground">{formatRange(schedule)}</p>
+          </div>
+        )}
+
+        <div className="max-h-80 space-y-2 overflow-y-auto">
+          {shifts.map((shift) => (
+            <div
+              key={shift.task.id}
+              className="flex items-center justify-between gap-3 rounded-md border p-3 text-sm"
+            >
+              <div className="min-w-0 flex-1">
+                <p className="truncate font-medium">{shift.task.title}</p>
+                <div className="flex flex-wrap items-center gap-1 text-xs text-muted-foreground">
+                  <span>{formatRange(shift.from)}</span>
+                  <ArrowRight className="h-3 w-3" />
+                  <span className="text-foreground">
+                    {formatRange(shift.to)}
+                  </span>
+                </div>
+              </div>
+              <Badge variant="outline" className="shrink-0">
+                +{differenceInCalendarDays(shift.to.start, shift.from.start)}d
+              </Badge>
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="ghost" onClick={onCancel} disabled={isApplying}>
+            {t("common.cancel")}
+          </Button>
+          <Button
+            variant="outline"
+            onClick={onApplyTaskOnly}
+            disabled={isApplying}
+          >
+            {t("tasks.dependencies.applyTaskOnly")}
+          </Button>
+          <Button onClick={onApplyAll} disabled={isApplying}>
+            {t("tasks.dependencies.applyCascade")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,524 @@
+/**
+ * GanttView component
+ * Timeline of tasks with dependency arrows, drag/resize and critical path
+ */
+
+import { useMemo, useRef, useState } from "react";
+import {
+  addDays,
+  differenceInCalendarDays,
+  eachDayOfInterval,
+  format,
+  isSameDay,
+  isWeekend,
+  startOfDay,
+} from "date-fns";
+import { es, enUS } from "date-fns/locale";
+import { useTranslation } from "~/lib/i18n/useTranslation";
+import { Button } from "~/components/ui/button";
+import { Badge } from "~/components/ui/badge";
+import { Switch } from "~/components/ui/switch";
+import { Label } from "~/components/ui/label";
+import { showToast } from "~/components/common/Toast";
+import { cn } from "~/lib/utils";
+import {
+  useScheduleCascadePreview,
+  useTasksDependencies,
+  type ScheduleChange,
+} from "../hooks/useDependencies";
+import { useReschedule } from "../hooks/useReschedule";
+import { normalizeDependencyType } from "../utils/dependencies";
+import {
+  buildGanttBars,
+  computeCriticalPath,
+  shiftSchedule,
+  type GanttBar,
+  type TaskSchedule,
+} from "../utils/gantt";
+import type { ScheduleShift } from "../utils/scheduling";
+import { DependencyCascadeDialog } from "./DependencyCascadeDialog";
+import type { Task } from "../types/task.types";
+
+interface GanttViewProps {
+  tasks: Task[];
+  loading?: boolean;
+  onTaskClick?: (task: Task) => void;
+  onRefresh?: () => void;
+}
+
+type GanttZoom = "day" | "week";
+type DragMode = "move" | "resize-start" | "resize-end";
+
+interface DragState {
+  taskId: string;
+  mode: DragMode;
+  originX: number;
+  days: number;
+  moved: boolean;
+}
+
+interface PendingChange {
+  task: Task;
+  schedule: TaskSchedule;
+  shifts: ScheduleShift[];
+}
+
+const DAY_WIDTH: Record<GanttZoom, number> = { day: 40, week: 16 };
+const ROW_HEIGHT = 36;
+const BAR_HEIGHT = 20;
+const HEADER_HEIGHT = 40;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const priorityBarColors: Record<string, string> = {
+  low: "bg-green-500/80",
+  medium: "bg-blue-500/80",
+  high: "bg-orange-500/80",
+  urgent: "bg-red-500/80",
+};
+
+export function GanttView({
+  tasks,
+  loading = false,
+  onTaskClick,
+  onRefresh,
+}: GanttViewProps) {
+  const { t, language } = useTranslation();
+  const dateLocale = language === "en" ? enUS : es;
+  const cascadePreview = useScheduleCascadePreview();
+  const { reschedule, isApplying } = useReschedule();
+  const [zoom, setZoom] = useState<GanttZoom>("day");
+  const [showCriticalPath, setShowCriticalPath] = useState(true);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [pendingChange, setPendingChange] = useState<PendingChange | null>(
+    null
+  );
+  const timelineRef = useRef<HTMLDivElement>(null);
+
+  const bars = useMemo(() => buildGanttBars(tasks), [tasks]);
+  const unscheduledCount = tasks.length - bars.length;
+  const taskIds = useMemo(() => bars.map((bar) => bar.task.id), [bars]);
+  const {
+    data: dependencies = [],
+    isError: dependenciesError,
+    refetch: refetchDependencies,
+  } = useTasksDependencies(taskIds);
+
+  const criticalIds = useMemo(
+    () => computeCriticalPath(bars, dependencies),
+    [bars, dependencies]
+  );
+
+  const dayWidth = DAY_WIDTH[zoom];
+
+  const range = useMemo(() => {
+    if (bars.length === 0) return null;
+    const minStart = Math.min(...bars.map((bar) => bar.start.getTime()));
+    const maxEnd = Math.max(...bars.map((bar) => bar.end.getTime()));
+    const start = addDays(startOfDay(new Date(minStart)), -2);
+    const end = addDays(startOfDay(new Date(maxEnd)), 3);
+    return { start, days: eachDayOfInterval({ start, end }) };
+  }, [bars]);
+
+  const getPreviewSchedule = (bar: GanttBar): TaskSchedule => {
+    if (pendingChange) {
+      if (pendingChange.task.id === bar.task.id) return pendingChange.schedule;
+      const shift = pendingChange.shifts.find(
+        (item) => item.task.id === bar.task.id
+      );
+      if (shift) return shift.to;
+    }
+    if (!drag || drag.taskId !== bar.task.id || drag.days === 0) {
+      return bar;
+    }
+    return shiftSchedule(bar, drag.days, drag.mode);
+  };
+
+  const toX = (date: Date) =>
+    range ? ((date.getTime() - range.start.getTime()) / DAY_MS) * dayWidth : 0;
+
+  const rowIndex = useMemo(
+    () => new Map(bars.map((bar, index) => [bar.task.id, index])),
+    [bars]
+  );
+
+  const handlePointerDown = (
+    e: React.PointerEvent,
+    taskId: string,
+    mode: DragMode
+  ) => {
+    e.stopPropagation();
+    timelineRef.current?.setPointerCapture(e.pointerId);
+    setDrag({ taskId, mode, originX: e.clientX, days: 0, moved: false });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!drag) return;
+    const deltaX = e.clientX - drag.originX;
+    const days = Math.round(deltaX / dayWidth);
+    const moved = drag.moved || Math.abs(deltaX) > 4;
+    if (days !== drag.days || moved !== drag.moved) {
+      setDrag({ ...drag, days, moved });
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (!drag) return;
+    const bar = bars.find((item) => item.task.id === drag.taskId);
+    setDrag(null);
+    if (!bar) return;
+
+    if (!drag.moved) {
+      onTaskClick?.(bar.task);
+      return;
+    }
+    if (drag.days === 0) return;
+    // Without the links the cascade to successors can't be computed
+    if (dependenciesError) {
+      showToast(t("tasks.gantt.dependenciesError"), "error");
+      return;
+    }
+
+    const task = bar.task;
+    const schedule = shiftSchedule(bar, drag.days, drag.mode);
+    // Successors may be outside the loaded tasks, so the cascade comes from
+    // the whole dependency graph
+    cascadePreview.mutate(
+      { task, schedule },
+      {
+        onSuccess: (shifts) => {
+          if (shifts.length > 0) {
+            setPendingChange({ task, schedule, shifts });
+            return;
+          }
+          void applyChanges([{ task, schedule }]);
+        },
+        onError: () => {
+          showToast(t("tasks.dependencies.cascadeError"), "error");
+        },
+      }
+    );
+  };
+
+  const applyChanges = async (changes: ScheduleChange[]) => {
+    // Failures are reported by useReschedule, with a rollback action
+    await reschedule(changes);
+    setPendingChange(null);
+    onRefresh?.();
+  };
+
+  if (loading) {
+    return (
+      <div className="flex h-64 items-center justify-center">
+        <p className="text-muted-foreground">{t("common.loading")}</p>
+      </div>
+    );
+  }
+
+  const timelineWidth = range ? range.days.length * dayWidth : 0;
+  const chartHeight = bars.length * ROW_HEIGHT;
+  const today = new Date();
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h3 className="text-lg font-semibold">{t("tasks.tabs.gantt")}</h3>
+        <div className="flex items-center gap-4">
+          <div className="text-sm text-muted-foreground">
+            {t("tasks.gantt.dragHint")}
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch
+              id="gantt-critical-path"
+              checked={showCriticalPath}
+              onCheckedChange={setShowCriticalPath}
+            />
+            <Label htmlFor="gantt-critical-path" className="text-sm">
+              {t("tasks.gantt.criticalPath")}
+            </Label>
+          </div>
+          <div className="flex gap-1">
+            {(["day", "week"] as const).map((value) => (
+              <Button
+                key={value}
+                size="sm"
+                variant={zoom === value ? "default" : "outline"}
+                onClick={() => setZoom(value)}
+              >
+                {t(`tasks.gantt.zoom.${value}`)}
+              </Button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {dependenciesError && (
+        <div
+          role="alert"
+          className="flex items-center justify-between gap-4 rounded-lg border border-destructive/30 bg-destructive/5 px-4 py-2 text-sm text-destructive"
+        >
+          <span>{t("tasks.gantt.dependenciesError")}</span>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => void refetchDependencies()}
+          >
+            {t("common.retry")}
+          </Button>
+        </div>
+      )}
+
+      {!range ? (
+        <div className="flex h-32 items-center justify-center rounded-lg border-2 border-dashed border-border/60">
+          <p className="text-sm text-muted-foreground">
+            {t("tasks.gantt.empty")}
+          </p>
+        </div>
+      ) : (
+        <div className="flex overflow-hidden rounded-lg border">
+          {/* Task names */}
+          <div className="w-56 shrink-0 border-r bg-muted/30">
+            <div
+              className="flex items-center border-b px-3 text-xs font-medium text-muted-foreground"
+              style={{ height: HEADER_HEIGHT }}
+            >
+              {t("tasks.gantt.task")}
+            </div>
+            {bars.map((bar) => (
+              <button
+                key={bar.task.id}
+                type="button"
+                className="flex w-full items-center gap-2 border-b px-3 text-left text-sm hover:bg-accent"
+                style={{ height: ROW_HEIGHT }}
+                onClick={() => onTaskClick?.(bar.task)}
+              >
+                <span className="truncate">{bar.task.title}</span>
+                {showCriticalPath && criticalIds.has(bar.task.id) && (
+                  <Badge
+                    variant="outline"
+                    className="ml-auto shrink-0 border-red-500/30 text-[10px] text-red-600"
+                    title={t("tasks.gantt.criticalPath")}
+                  >
+                    {t("tasks.gantt.criticalPathShort")}
+                  </Badge>
+                )}
+              </button>
+            ))}
+          </div>
+
+          {/* Timeline */}
+          <div className="flex-1 overflow-x-auto">
+            <div
+              ref={timelineRef}
+              className={cn("relative select-none", drag && "cursor-grabbing")}
+              style={{ width: timelineWidth }}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={() => setDrag(null)}
+            >
+              {/* Day header */}
+              <div className="flex border-b" style={{ height: HEADER_HEIGHT }}>
+                {range.days.map((day) => (
+                  <div
+                    key={day.toISOString()}
+                    className={cn(
+                      "shrink-0 border-r text-center text-[10px] leading-tight text-muted-foreground",
+                      isWeekend(day) && "bg-muted/50",
+                      isSameDay(day, today) && "bg-primary/10 text-primary"
+                    )}
+                    style={{ width: dayWidth }}
+                  >
+                    {zoom === "day" ? (
+                      <>
+                        <div>{format(day, "EEE", { locale: dateLocale })}</div>
+                        <div className="font-medium">{format(day, "d")}</div>
+                      </>
+                    ) : (
+                      day.getDay() === 1 && (
+                        <div className="whitespace-nowrap pl-0.5 pt-3 text-left">
+                          {format(day, "d MMM", { locale: dateLocale })}
+                        </div>
+                      )
+                    )}
+                  </div>
+                ))}
+              </div>
+
+              <div className="relative" style={{ height: chartHeight }}>
+                {/* Row grid */}
+                {bars.map((bar, index) => (
+                  <div
+                    key={bar.task.id}
+                    className="absolute left-0 right-0 border-b"
+                    style={{ top: index * ROW_HEIGHT, height: ROW_HEIGHT }}
+                  />
+                ))}
+
+                {/* Today marker */}
+                {differenceInCalendarDays(today, range.start) >= 0 && (
+                  <div
+                    className="absolute bottom-0 top-0 w-px bg-primary/60"
+                    style={{ left: toX(today) }}
+                  />
+                )}
+
+                {/* Dependency arrows */}
+                <svg
+                  className="pointer-events-none absolute inset-0"
+                  width={timelineWidth}
+                  height={chartHeight}
+                >
+                  <defs>
+                    <marker
+                      id="gantt-arrow"
+                      markerWidth="6"
+                      markerHeight="6"
+                      refX="5"
+                      refY="3"
+                      orient="auto"
+                    >
+                      <path d="M0,0 L6,3 L0,6 z" fill="#64748b" />
+                    </marker>
+                    <marker
+                      id="gantt-arrow-critical"
+                      markerWidth="6"
+                      markerHeight="6"
+                      refX="5"
+                      refY="3"
+                      orient="auto"
+                    >
+                      <path d="M0,0 L6,3 L0,6 z" fill="#ef4444" />
+                    </marker>
+                  </defs>
+                  {dependencies.map((dep) => {
+                    const fromIndex = rowIndex.get(dep.depends_on_id);
+                    const toIndex = rowIndex.get(dep.task_id);
+                    if (fromIndex === undefined || toIndex === undefined) {
+                      return null;
+                    }
+                    const from = getPreviewSchedule(bars[fromIndex]!);
+                    const to = getPreviewSchedule(bars[toIndex]!);
+                    const type = normalizeDependencyType(dep.dependency_type);
+                    const x1 = toX(
+                      type === "start_to_start" || type === "start_to_finish"
+                        ? from.start
+                        : from.end
+                    );
+                    const x2 = toX(
+                      type === "finish_to_start" || type === "start_to_start"
+                        ? to.start
+                        : to.end
+                    );
+                    const y1 = fromIndex * ROW_HEIGHT + ROW_HEIGHT / 2;
+                    const y2 = toIndex * ROW_HEIGHT + ROW_HEIGHT / 2;
+                    const isCritical =
+                      showCriticalPath &&
+                      criticalIds.has(dep.task_id) &&
+                      criticalIds.has(dep.depends_on_id);
+                    const elbow = Math.max(x1, x2) + 8;
+
+                    return (
+                      <path
+                        key={dep.id}
+                        d={`M ${x1} ${y1} H ${elbow} V ${y2} H ${x2}`}
+                        fill="none"
+                        stroke={isCritical ? "#ef4444" : "#64748b"}
+                        strokeWidth={isCritical ? 2 : 1.25}
+                        markerEnd={
+                          isCritical
+                            ? "url(#gantt-arrow-critical)"
+                            : "url(#gantt-arrow)"
+                        }
+                      />
+                    );
+                  })}
+                </svg>
+
+                {/* Bars */}
+                {bars.map((bar, index) => {
+                  const schedule = getPreviewSchedule(bar);
+                  const left = toX(schedule.start);
+                  const width = Math.max(toX(schedule.end) - left, 6);
+                  const isCritical =
+                    showCriticalPath && criticalIds.has(bar.task.id);
+
+                  return (
+                    <div
+                      key={bar.task.id}
+                      title={`${bar.task.title} · ${format(schedule.start, "PP", { locale: dateLocale })} – ${format(schedule.end, "PP", { locale: dateLocale })}`}
+                      className={cn(
+                        "group absolute flex cursor-grab items-center overflow-hidden rounded text-[11px] text-white shadow-sm",
+                        priorityBarColors[bar.task.priority] ||
+                          priorityBarColors.medium,
+                        bar.task.status === "done" && "opacity-60",
+                        isCritical && "ring-2 ring-red-500",
+                        drag?.taskId === bar.task.id && "opacity-80"
+                      )}
+                      style={{
+                        left,
+                        width,
+                        top: index * ROW_HEIGHT + (ROW_HEIGHT - BAR_HEIGHT) / 2,
+                        height: BAR_HEIGHT,
+                        backgroundColor: bar.task.color_override || undefined,
+                      }}
+                      onPointerDown={(e) =>
+                        handlePointerDown(e, bar.task.id, "move")
+                      }
+                    >
+                      <div
+                        className="absolute inset-y-0 left-0 w-1.5 cursor-ew-resize opacity-0 group-hover:bg-black/20 group-hover:opacity-100"
+                        onPointerDown={(e) =>
+                          handlePointerDown(e, bar.task.id, "resize-start")
+                        }
+                      />
+                      <span className="truncate px-2">{bar.task.title}</span>
+                      <div
+                        className="absolute inset-y-0 right-0 w-1.5 cursor-ew-resize opacity-0 group-hover:bg-black/20 group-hover:opacity-100"
+                        onPointerDown={(e) =>
+                          handlePointerDown(e, bar.task.id, "resize-end")
+                        }
+                      />
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <DependencyCascadeDialog
+        open={Boolean(pendingChange)}
+        task={pendingChange?.task ?? null}
+        schedule={pendingChange?.schedule ?? null}
+        shifts={pendingChange?.shifts ?? []}
+        isApplying={isApplying}
+        onCancel={() => setPendingChange(null)}
+        onApplyTaskOnly={() =>
+          pendingChange &&
+          void applyChanges([
+            { task: pendingChange.task, schedule: pendingChange.schedule },
+          ])
+        }
+        onApplyAll={() =>
+          pendingChange &&
+          void applyChanges([
+            { task: pendingChange.task, schedule: pendingChange.schedule },
+            ...pendingChange.shifts.map((shift) => ({
+              task: shift.task,
+              schedule: shift.to,
+            })),
+          ])
+        }
+      />
+
+      {unscheduledCount > 0 && (
+        <p className="text-xs text-muted-foreground">
+          {t("tasks.gantt.unscheduled").replace(
+            "{count}",
+            String(unscheduledCount)
+          )}
+        </p>
+      )}
+    </div>
+  );
+}
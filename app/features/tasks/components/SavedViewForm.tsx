@@ -112,8 +112,13 @@ export function SavedViewForm({
       sort_config: {
         field: sortField,
         direction: sortDirection,
+        // Secondary sort levels are set from the list headers
+        ...(initialData?.sort_config?.then_by
+          ? { then_by: initialData.sort_config.then_by }
+          : {}),
       },
       column_config: initialData?.column_config ?? {},
+      ...(initialData?.group_by ? { group_by: initialData.group_by } : {}),
       is_default: isDefault,
       is_public: isPublic,
     };
@@ -1,118 +1,430 @@
-import { useMemo } from "react";
-import { Card } from "~/components/ui/card";
-import { format, startOfWeek, endOfWeek, eachDayOfInterval } from "date-fns";
-import { es } from "date-fns/locale";
-import { useTasks } from "../hooks/useTasks";
-
-interface Task {
-  id: string;
-  assigned_to_id?: string;
-  start_at?: string;
-  title: string;
-  estimated_duration?: number;
+/**
+ * SchedulerView component
+ * Resource planner showing booked hours per user and day against a daily
+ * capacity, with drag and drop to reassign or reschedule tasks
+ */
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  addMonths,
+  addWeeks,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isToday,
+  isWeekend,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns";
+import { es, enUS } from "date-fns/locale";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { useTranslation } from "~/lib/i18n/useTranslation";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import { showToast } from "~/components/common/Toast";
+import { cn } from "~/lib/utils";
+import { useUsers } from "~/features/users/hooks/useUsers";
+import {
+  useMoveTaskAssignment,
+  useTaskAssignments,
+  useTasks,
+} from "../hooks/useTasks";
+import {
+  DEFAULT_DAILY_CAPACITY_HOURS,
+  UNASSIGNED_ROW_ID,
+  buildRescheduleUpdate,
+  buildWorkload,
+  getLoadLevel,
+  getTaskEstimatedHours,
+  toDayKey,
+  type LoadLevel,
+} from "../utils/workload";
+import type { Task } from "../types/task.types";
+
+interface SchedulerViewProps {
+  onTaskClick?: (task: Task) => void;
+}
+
+type SchedulerRange = "week" | "month";
+
+interface DraggedTask {
+  task: Task;
+  fromUserId: string;
+  fromDay: Date;
 }
 
-export function SchedulerView() {
-  const { data: tasksData, isLoading } = useTasks({});
+const CAPACITY_STORAGE_KEY = "tasks_scheduler_daily_capacity";
+
+const LOAD_LEVEL_CLASSES: Record<LoadLevel, string> = {
+  none: "",
+  low: "bg-emerald-50 dark:bg-emerald-950/30",
+  medium: "bg-yellow-50 dark:bg-yellow-950/30",
+  high: "bg-orange-100 dark:bg-orange-950/40",
+  over: "bg-red-100 dark:bg-red-950/50",
+};
+
+const formatHours = (hours: number) =>
+  Number.isInteger(hours) ? String(hours) : hours.toFixed(1);
+
+export function SchedulerView({ onTaskClick }: SchedulerViewProps) {
+  const { t, language } = useTranslation();
+  const dateLocale = language === "en" ? enUS : es;
+  const { users } = useUsers({ page_size: 100 });
+  const moveTask = useMoveTaskAssignment();
+
+  const [range, setRange] = useState<SchedulerRange>("week");
+  const [anchorDate, setAnchorDate] = useState(() => new Date());
+  const [capacity, setCapacity] = useState<number>(() => {
+    // Load from localStorage, default to a standard work day
+    if (typeof window !== "undefined") {
+      const saved = Number(localStorage.getItem(CAPACITY_STORAGE_KEY));
+      if (saved > 0) return saved;
+    }
+    return DEFAULT_DAILY_CAPACITY_HOURS;
+  });
+  const [dragged, setDragged] = useState<DraggedTask | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
 
-  const currentWeek = useMemo(() => {
-    const now = new Date();
-    const start = startOfWeek(now, { locale: es });
-    const end = endOfWeek(now, { locale: es });
+  // Persist capacity to localStorage
+  useEffect(() => {
+    if (typeof window !== "undefined") {
+      localStorage.setItem(CAPACITY_STORAGE_KEY, String(capacity));
+    }
+  }, [capacity]);
+
+  const days = useMemo(() => {
+    const start =
+      range === "week"
+        ? startOfWeek(anchorDate, { weekStartsOn: 1 })
+        : startOfMonth(anchorDate);
+    const end =
+      range === "week"
+        ? endOfWeek(anchorDate, { weekStartsOn: 1 })
+        : endOfMonth(anchorDate);
     return eachDayOfInterval({ start, end });
-  }, []);
+  }, [anchorDate, range]);
 
-  // Agrupar tareas por usuario y día
-  const tasksByUserAndDay = useMemo(() => {
-    const tasks = (tasksData?.data || []) as Task[];
-    const grouped = new Map();
+  // Only the tasks booked in the visible week or month
+  const { data: tasksData, isLoading } = useTasks({
+    page_size: 100,
+    start_date: format(days[0]!, "yyyy-MM-dd"),
+    end_date: format(days[days.length - 1]!, "yyyy-MM-dd"),
+  });
 
-    tasks.forEach((task: Task) => {
-      if (!task.assigned_to_id || !task.start_at) return;
+  const tasks = useMemo(() => tasksData?.data ?? [], [tasksData]);
+  const taskIds = useMemo(() => tasks.map((task) => task.id), [tasks]);
+  const { assignments } = useTaskAssignments(taskIds);
 
-      const userId = task.assigned_to_id;
-      const day = format(new Date(task.start_at), "yyyy-MM-dd");
+  const getAssigneeIds = useCallback(
+    (task: Task) => {
+      const ids = (assignments[task.id] ?? [])
+        .map((assignment) => assignment.assigned_to_id)
+        .filter((id): id is string => Boolean(id));
+      if (ids.length > 0) return [...new Set(ids)];
+      return task.assigned_to_id ? [task.assigned_to_id] : [];
+    },
+    [assignments]
+  );
 
-      if (!grouped.has(userId)) {
-        grouped.set(userId, new Map());
-      }
+  const workload = useMemo(
+    () => buildWorkload(tasks, getAssigneeIds, days),
+    [tasks, getAssigneeIds, days]
+  );
 
-      if (!grouped.get(userId).has(day)) {
-        grouped.get(userId).set(day, []);
-      }
+  const rows = useMemo(() => {
+    const userName = (id: string) => {
+      const user = users.find((option) => option.id === id);
+      if (!user) return t("tasks.scheduler.unknownUser");
+      return (
+        user.full_name ||
+        [user.first_name, user.last_name].filter(Boolean).join(" ") ||
+        user.email
+      );
+    };
+
+    const ids = new Set([
+      ...users.map((user) => user.id),
+      ...[...workload.keys()].filter((id) => id !== UNASSIGNED_ROW_ID),
+    ]);
+    const result = [...ids]
+      .map((id) => ({ id, name: userName(id) }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+
+    if (workload.has(UNASSIGNED_ROW_ID)) {
+      result.push({
+        id: UNASSIGNED_ROW_ID,
+        name: t("tasks.scheduler.unassigned"),
+      });
+    }
+    return result;
+  }, [users, workload, t]);
+
+  const navigate = (direction: -1 | 1) => {
+    setAnchorDate((current) =>
+      range === "week"
+        ? addWeeks(current, direction)
+        : addMonths(current, direction)
+    );
+  };
+
+  const rangeLabel =
+    range === "week"
+      ? `${format(days[0]!, "d MMM", { locale: dateLocale })} – ${format(days[days.length - 1]!, "d MMM yyyy", { locale: dateLocale })}`
+      : format(anchorDate, "LLLL yyyy", { locale: dateLocale });
 
-      grouped.get(userId).get(day).push(task);
-    });
+  const handleDragStart = (
+    e: React.DragEvent,
+    task: Task,
+    fromUserId: string,
+    fromDay: Date
+  ) => {
+    setDragged({ task, fromUserId, fromDay });
+    e.dataTransfer.effectAllowed = "move";
+    e.dataTransfer.setData("text/plain", task.id);
+  };
 
-    return grouped;
-  }, [tasksData]);
+  const handleDragEnd = () => {
+    setDragged(null);
+    setDropTarget(null);
+  };
+
+  const handleDrop = (e: React.DragEvent, toUserId: string, day: Date) => {
+    e.preventDefault();
+    setDropTarget(null);
+    if (!dragged) return;
+
+    const { task, fromUserId, fromDay } = dragged;
+    setDragged(null);
+
+    const update = buildRescheduleUpdate(task, fromDay, day);
+    if (!update && fromUserId === toUserId) return;
+
+    const toAssignee = toUserId === UNASSIGNED_ROW_ID ? null : toUserId;
+    const fromAssignee = fromUserId === UNASSIGNED_ROW_ID ? null : fromUserId;
+
+    moveTask.mutate(
+      {
+        task,
+        update,
+        fromUserId: fromAssignee,
+        toUserId: toAssignee,
+        assignments: assignments[task.id] ?? [],
+      },
+      {
+        onSuccess: () => showToast(t("tasks.scheduler.moveSuccess"), "success"),
+        onError: () => showToast(t("tasks.scheduler.moveError"), "error"),
+      }
+    );
+  };
 
   if (isLoading) {
-    return <div className="text-center py-8">Cargando vista scheduler...</div>;
+    return (
+      <div className="text-center py-8">{t("tasks.scheduler.loading")}</div>
+    );
   }
 
+  const isMonth = range === "month";
+
   return (
     <div className="space-y-4">
-      <h3 className="text-lg font-semibold">Vista Scheduler</h3>
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => navigate(-1)}
+            aria-label={t("tasks.scheduler.previous")}
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" onClick={() => setAnchorDate(new Date())}>
+            {t("tasks.scheduler.today")}
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => navigate(1)}
+            aria-label={t("tasks.scheduler.next")}
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <h3 className="ml-2 text-lg font-semibold capitalize">
+            {rangeLabel}
+          </h3>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <div className="flex items-center gap-2">
+            <Label htmlFor="scheduler-capacity" className="text-sm">
+              {t("tasks.scheduler.dailyCapacity")}
+            </Label>
+            <Input
+              id="scheduler-capacity"
+              type="number"
+              min={1}
+              max={24}
+              step={0.5}
+              value={capacity}
+              onChange={(e) => {
+                const value = Number(e.target.value);
+                if (value > 0 && value <= 24) setCapacity(value);
+              }}
+              className="h-9 w-20"
+            />
+            <span className="text-sm text-muted-foreground">h</span>
+          </div>
+          <div className="flex rounded-md border">
+            {(["week", "month"] as const).map((option) => (
+              <Button
+                key={option}
+                variant={range === option ? "default" : "ghost"}
+                size="sm"
+                onClick={() => setRange(option)}
+              >
+                {t(`tasks.scheduler.range.${option}`)}
+              </Button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        {t("tasks.scheduler.dragHint")}
+      </p>
 
       <div className="overflow-x-auto">
-        <table className="w-full border-collapse">
+        <table className="w-full border-collapse text-sm">
           <thead>
             <tr>
-              <th className="border p-2 bg-muted">Recurso</th>
-              {currentWeek.map((day) => (
+              <th className="sticky left-0 z-10 min-w-[160px] border bg-muted p-2 text-left">
+                {t("tasks.scheduler.resource")}
+              </th>
+              {days.map((day) => (
                 <th
                   key={day.toISOString()}
-                  className="border p-2 bg-muted min-w-[120px]"
+                  className={cn(
+                    "border bg-muted p-2 font-medium",
+                    isMonth ? "min-w-[72px]" : "min-w-[140px]",
+                    isToday(day) && "text-primary"
+                  )}
                 >
-                  {format(day, "EEE dd/MM", { locale: es })}
+                  {format(day, isMonth ? "EEEEE d" : "EEE dd/MM", {
+                    locale: dateLocale,
+                  })}
                 </th>
               ))}
             </tr>
           </thead>
           <tbody>
-            {Array.from(tasksByUserAndDay.entries()).map(([userId, dayMap]) => (
-              <tr key={userId}>
-                <td className="border p-2 font-medium">
-                  Usuario {userId.slice(0, 8)}
-                </td>
-                {currentWeek.map((day) => {
-                  const dayKey = format(day, "yyyy-MM-dd");
-                  const dayTasks = dayMap.get(dayKey) || [];
-
-                  return (
-                    <td key={day.toISOString()} className="border p-2">
-                      <div className="space-y-1">
-                        {dayTasks.map((task: Task) => (
-                          <Card
-                            key={task.id}
-                            className="p-2 text-xs hover:bg-accent cursor-pointer"
+            {rows.map((row) => {
+              const rowCells = workload.get(row.id);
+              return (
+                <tr key={row.id}>
+                  <td className="sticky left-0 z-10 border bg-background p-2 font-medium">
+                    {row.name}
+                  </td>
+                  {days.map((day) => {
+                    const dayKey = toDayKey(day);
+                    const cell = rowCells?.get(dayKey);
+                    const hours = cell?.hours ?? 0;
+                    const level = getLoadLevel(hours, capacity);
+                    const targetKey = `${row.id}:${dayKey}`;
+
+                    return (
+                      <td
+                        key={dayKey}
+                        className={cn(
+                          "border p-1 align-top",
+                          LOAD_LEVEL_CLASSES[level],
+                          level === "none" && isWeekend(day) && "bg-muted/40",
+                          dropTarget === targetKey &&
+                            "ring-2 ring-inset ring-primary"
+                        )}
+                        onDragOver={(e) => {
+                          e.preventDefault();
+                          e.dataTransfer.dropEffect = "move";
+                          setDropTarget(targetKey);
+                        }}
+                        onDragLeave={() => setDropTarget(null)}
+                        onDrop={(e) => handleDrop(e, row.id, day)}
+                      >
+                        {hours > 0 && (
+                          <div
+                            className={cn(
+                              "mb-1 text-right text-[11px] tabular-nums text-muted-foreground",
+                              level === "over" &&
+                                "font-semibold text-destructive"
+                            )}
+                            title={t("tasks.scheduler.bookedOfCapacity")
+                              .replace("{hours}", formatHours(hours))
+                              .replace("{capacity}", formatHours(capacity))}
                           >
-                            <div className="font-medium truncate">
-                              {task.title}
-                            </div>
-                            <div className="text-muted-foreground">
-                              {task.estimated_duration
-                                ? `${task.estimated_duration}min`
-                                : ""}
-                            </div>
-                          </Card>
-                        ))}
-                      </div>
-                    </td>
-                  );
-                })}
-              </tr>
-            ))}
+                            {formatHours(hours)}/{formatHours(capacity)}h
+                          </div>
+                        )}
+                        <div className="space-y-1">
+                          {cell?.tasks.map((task) => {
+                            const estimate = getTaskEstimatedHours(task);
+                            return (
+                              <div
+                                key={task.id}
+                                draggable
+                                onDragStart={(e) =>
+                                  handleDragStart(e, task, row.id, day)
+                                }
+                                onDragEnd={handleDragEnd}
+                                onClick={() => onTaskClick?.(task)}
+                                className={cn(
+                                  "cursor-grab rounded border bg-card px-1.5 py-1 text-xs shadow-sm hover:bg-accent",
+                                  dragged?.task.id === task.id && "opacity-50"
+                                )}
+                                title={task.title}
+                              >
+                                <div className="truncate font-medium">
+                                  {task.title}
+                                </div>
+                                {!isMonth && (
+                                  <div className="text-muted-foreground">
+                                    {estimate > 0
+                                      ? `${formatHours(estimate)}h`
+                                      : t("tasks.scheduler.noEstimate")}
+                                  </div>
+                                )}
+                              </div>
+                            );
+                          })}
+                        </div>
+                      </td>
+                    );
+                  })}
+                </tr>
+              );
+            })}
           </tbody>
         </table>
 
-        {tasksByUserAndDay.size === 0 && (
+        {rows.length === 0 && (
           <div className="text-center py-8 text-muted-foreground">
-            No hay tareas asignadas con fechas para esta semana
+            {t("tasks.scheduler.empty")}
           </div>
         )}
       </div>
+
+      <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
+        {(["low", "medium", "high", "over"] as const).map((level) => (
+          <div key={level} className="flex items-center gap-1">
+            <span
+              className={cn(
+                "h-3 w-3 rounded-sm border",
+                LOAD_LEVEL_CLASSES[level]
+              )}
+            />
+            {t(`tasks.scheduler.load.${level}`)}
+          </div>
+        ))}
+      </div>
     </div>
   );
 }
@@ -43,6 +43,7 @@ import type {
   TaskStatusDefinition,
   TaskStatusDefinitionCreate,
 } from '../api/status-definitions.api';
+import type { WipPolicy } from '../types/status.types';
 import { showToast } from '~/components/common/Toast';
 
 const STATUS_TYPES = [
@@ -92,6 +93,7 @@ export function StatusCustomizer() {
   });
 
   const statuses = data?.data || [];
+  const isSystemEdit = !!editingStatus?.is_system;
 
   const handleCreate = () => {
     setEditingStatus(null);
@@ -104,17 +106,16 @@ export function StatusCustomizer() {
     setShowDialog(true);
   };
 
+  // Los estados del sistema solo permiten cambiar el límite WIP
   const handleEdit = (status: TaskStatusDefinition) => {
-    if (status.is_system) {
-      showToast('No se pueden editar estados del sistema', 'error');
-      return;
-    }
     setEditingStatus(status);
     setFormData({
       name: status.name,
       type: status.type,
       color: status.color,
       order: status.order,
+      wip_limit: status.wip_limit ?? null,
+      wip_policy: status.wip_policy ?? 'warn',
     });
     setShowDialog(true);
   };
@@ -149,7 +150,9 @@ export function StatusCustomizer() {
       if (editingStatus) {
         await updateMutation.mutateAsync({
           statusId: editingStatus.id,
-          data: formData,
+          data: editingStatus.is_system
+            ? { wip_limit: formData.wip_limit, wip_policy: formData.wip_policy }
+            : formData,
         });
         showToast('Estado actualizado correctamente', 'success');
       } else {
@@ -222,6 +225,9 @@ export function StatusCustomizer() {
                     <span className="text-sm text-muted-foreground">
                       {STATUS_TYPES.find((t) => t.value === status.type)
                         ?.label || status.type}
+                      {status.wip_limit
+                        ? ` · ${t('tasks.statusCustomizer.wipLimit')}: ${status.wip_limit}`
+                        : ''}
                     </span>
                   </div>
                 </div>
@@ -230,7 +236,6 @@ export function StatusCustomizer() {
                     variant="ghost"
                     size="sm"
                     onClick={() => handleEdit(status)}
-                    disabled={status.is_system}
                   >
                     <HugeiconsIcon icon={Edit01Icon} size={16} />
                   </Button>
@@ -273,6 +278,7 @@ export function StatusCustomizer() {
                   setFormData({ ...formData, name: e.target.value })
                 }
                 placeholder="Ej: En Revisión"
+                disabled={isSystemEdit}
               />
             </div>
 
@@ -283,6 +289,7 @@ export function StatusCustomizer() {
                 onValueChange={(value: 'open' | 'in_progress' | 'closed') =>
                   setFormData({ ...formData, type: value })
                 }
+                disabled={isSystemEdit}
               >
                 <SelectTrigger>
                   <SelectValue />
@@ -297,31 +304,85 @@ export function StatusCustomizer() {
               </Select>
             </div>
 
-            <div className="space-y-2">
-              <Label>{t('tasks.statusCustomizer.color') || 'Color'}</Label>
-              <div className="grid grid-cols-9 gap-2">
-                {PRESET_COLORS.map((color) => (
-                  <button
-                    key={color}
-                    type="button"
-                    className={`w-8 h-8 rounded border-2 transition-all ${
-                      formData.color === color
-                        ? 'border-primary scale-110'
-                        : 'border-transparent hover:scale-105'
-                    }`}
-                    style={{ backgroundColor: color }}
-                    onClick={() => setFormData({ ...formData, color })}
-                  />
-                ))}
+            {!isSystemEdit && (
+              <div className="space-y-2">
+                <Label>{t('tasks.statusCustomizer.color') || 'Color'}</Label>
+                <div className="grid grid-cols-9 gap-2">
+                  {PRESET_COLORS.map((color) => (
+                    <button
+                      key={color}
+                      type="button"
+                      className={`w-8 h-8 rounded border-2 transition-all ${
+                        formData.color === color
+                          ? 'border-primary scale-110'
+                          : 'border-transparent hover:scale-105'
+                      }`}
+                      style={{ backgroundColor: color }}
+                      onClick={() => setFormData({ ...formData, color })}
+                    />
+                  ))}
+                </div>
+                <Input
+                  type="color"
+                  value={formData.color}
+                  onChange={(e) =>
+                    setFormData({ ...formData, color: e.target.value })
+                  }
+                  className="w-full h-10"
+                />
               </div>
-              <Input
-                type="color"
-                value={formData.color}
-                onChange={(e) =>
-                  setFormData({ ...formData, color: e.target.value })
-                }
-                className="w-full h-10"
-              />
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="status-wip-limit">
+                  {t('tasks.statusCustomizer.wipLimit')}
+                </Label>
+                <Input
+                  id="status-wip-limit"
+                  type="number"
+                  min={1}
+                  value={formData.wip_limit ?? ''}
+                  onChange={(e) =>
+                    setFormData({
+                      ...formData,
+                      wip_limit:
+                        Number(e.target.value) > 0
+                          ? Math.floor(Number(e.target.value))
+                          : null,
+                    })
+                  }
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="status-wip-policy">
+                  {t('tasks.statusCustomizer.wipPolicy')}
+                </Label>
+                <Select
+                  value={formData.wip_policy ?? 'warn'}
+                  onValueChange={(value: WipPolicy) =>
+                    setFormData({ ...formData, wip_policy: value })
+                  }
+                  disabled={!formData.wip_limit}
+                >
+                  <SelectTrigger id="status-wip-policy">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="warn">
+                      {t('tasks.statusCustomizer.wipPolicies.warn')}
+                    </SelectItem>
+                    <SelectItem value="block">
+                      {t('tasks.statusCustomizer.wipPolicies.block')}
+                    </SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <p className="col-span-2 text-xs text-muted-foreground">
+                {isSystemEdit
+                  ? t('tasks.statusCustomizer.systemWipHint')
+                  : t('tasks.statusCustomizer.wipLimitHint')}
+              </p>
             </div>
           </div>
 
@@ -21,6 +21,8 @@ import {
   subDays,
   addWeeks,
   subWeeks,
+  addYears,
+  subYears,
 } from "date-fns";
 import { es, enUS } from "date-fns/locale";
 import { useTranslation } from "~/lib/i18n/useTranslation";
@@ -47,6 +49,16 @@ import { CalendarView } from "~/features/calendar/components/CalendarView";
 import { useMyTasks, useUpdateTask } from "../hooks/useTasks";
 import { useTags } from "~/features/tags/hooks/useTags";
 import { useEvents, useUpdateEvent } from "~/features/calendar/hooks/useCalendar";
+import { useRecurringEventEdit } from "~/features/calendar/hooks/useRecurringEventEdit";
+import { RecurrenceScopeDialog } from "~/features/calendar/components/RecurrenceScopeDialog";
+import { TimeZoneSelect } from "~/features/calendar/components/TimeZoneSelect";
+import { useCalendarTimeZone } from "~/features/calendar/hooks/useCalendarTimeZone";
+import { useCalendarViewConfig } from "~/features/calendar/hooks/useCalendarViewConfig";
+import {
+  MAX_WEEK_COUNT,
+  MIN_WEEK_COUNT,
+} from "~/features/calendar/utils/calendarViews";
+import { isRecurrenceOccurrence } from "~/features/calendar/utils/recurrence";
 import type { Task, TaskListParams, TaskUpdate } from "../types/task.types";
 import type {
   CalendarEvent,
@@ -287,7 +299,8 @@ export function TaskCalendar({
   const { t, language } = useTranslation();
   const dateLocale = language === "en" ? enUS : es;
   const [currentDate, setCurrentDate] = useState(new Date());
-  const [viewType, setViewType] = useState<CalendarViewType>("month");
+  const { viewType, weekCount, setViewType, setWeekCount } =
+    useCalendarViewConfig();
   const [isQuickAddOpen, setIsQuickAddOpen] = useState(false);
   const [quickAddDate, setQuickAddDate] = useState<Date | null>(null);
   const [quickAddDefaults, setQuickAddDefaults] = useState<QuickAddDefaults>(
@@ -307,6 +320,9 @@ export function TaskCalendar({
   const tasksQuery = useMyTasks(fetchParams ?? { page: 1, page_size: 100 });
   const updateTaskMutation = useUpdateTask();
   const updateEventMutation = useUpdateEvent();
+  const recurringEdit = useRecurringEventEdit();
+  const { timeZone, secondaryTimeZone, setSecondaryTimeZone } =
+    useCalendarTimeZone();
   const { data: tagList = [] } = useTags();
   
   // Obtener eventos del calendario
@@ -631,6 +647,17 @@ export function TaskCalendar({
         end_time: event.end_time,
       };
 
+      // En una serie, el alcance se calcula sobre el evento sin redimensionar
+      const original =
+        calendarEvents.find((item) => item.id === event.id) ?? event;
+      if (
+        recurringEdit.requestEdit(original, eventPayload, {
+          onSuccess: handleRefresh,
+        })
+      ) {
+        return;
+      }
+
       updateEventMutation.mutate(
         {
           id: event.id,
@@ -653,7 +680,11 @@ export function TaskCalendar({
   const hasEvents = events.length > 0;
   const monthLabel = format(
     currentDate,
-    viewType === "day" ? "PPP" : "MMMM yyyy",
+    viewType === "day" || viewType === "resources"
+      ? "PPP"
+      : viewType === "year"
+        ? "yyyy"
+        : "MMMM yyyy",
     { locale: dateLocale }
   );
 
@@ -678,10 +709,24 @@ export function TaskCalendar({
       );
       return;
     }
-    if (viewType === "day") {
+    if (viewType === "day" || viewType === "resources") {
       setCurrentDate(
         direction === "prev" ? subDays(currentDate, 1) : addDays(currentDate, 1)
       );
+      return;
+    }
+    if (viewType === "weeks") {
+      setCurrentDate(
+        direction === "prev"
+          ? subWeeks(currentDate, weekCount)
+          : addWeeks(currentDate, weekCount)
+      );
+      return;
+    }
+    if (viewType === "year") {
+      setCurrentDate(
+        direction === "prev" ? subYears(currentDate, 1) : addYears(currentDate, 1)
+      );
     }
   };
 
@@ -753,7 +798,17 @@ export function TaskCalendar({
           </div>
 
           <div className="flex items-center gap-2">
-            {(["month", "week", "day", "agenda"] as CalendarViewType[]).map(
+            {(
+              [
+                "month",
+                "week",
+                "day",
+                "agenda",
+                "resources",
+                "weeks",
+                "year",
+              ] as CalendarViewType[]
+            ).map(
               (option) => (
                 <Button
                   key={option}
@@ -768,6 +823,41 @@ export function TaskCalendar({
                 </Button>
               )
             )}
+            {viewType === "weeks" && (
+              <Select
+                value={String(weekCount)}
+                onValueChange={(value) => setWeekCount(Number(value))}
+              >
+                <SelectTrigger
+                  className="h-8 w-[110px]"
+                  aria-label={t("calendar.views.weekCount")}
+                >
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Array.from(
+                    { length: MAX_WEEK_COUNT - MIN_WEEK_COUNT + 1 },
+                    (_, index) => MIN_WEEK_COUNT + index
+                  ).map((count) => (
+                    <SelectItem key={count} value={String(count)}>
+                      {t("calendar.views.weeksCount").replace(
+                        "{count}",
+                        String(count)
+                      )}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            {(viewType === "week" || viewType === "day") && (
+              <TimeZoneSelect
+                value={secondaryTimeZone}
+                onValueChange={setSecondaryTimeZone}
+                allowNone
+                aria-label={t("calendar.timezone.secondary")}
+                className="h-8 w-[200px]"
+              />
+            )}
             <Button variant="outline" size="icon" onClick={handleRefresh}>
               <HugeiconsIcon icon={Refresh01Icon} size={16} />
             </Button>
@@ -824,6 +914,7 @@ export function TaskCalendar({
           }}
         />
       )}
+      <RecurrenceScopeDialog {...recurringEdit.dialogProps} />
       <EventEdit
         event={editingEvent}
         open={Boolean(editingEvent)}
@@ -1100,12 +1191,17 @@ export function TaskCalendar({
                     );
                     if (calendarEvent) {
                       setEditingEvent(calendarEvent);
+                    } else if (isRecurrenceOccurrence(event)) {
+                      setEditingEvent(event);
                     }
                   }}
                   onEventCreate={handleEventCreate}
                   onEventMove={handleEventMove}
                   onEventResize={handleEventResize}
                   showHeader={false}
+                  timeZone={timeZone}
+                  secondaryTimeZone={secondaryTimeZone}
+                  weekCount={weekCount}
                 />
               </div>
               <div className="border-t border-border/50 dark:border-border/40 bg-[hsl(var(--surface))] dark:bg-[hsl(var(--background))] px-6 py-4 flex flex-wrap items-center justify-between gap-4">
@@ -1,13 +1,25 @@
+import { useMemo, useState } from "react";
 import { Card } from "~/components/ui/card";
 import { Button } from "~/components/ui/button";
 import { Badge } from "~/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
 import { showToast } from "~/components/common/Toast";
 import {
   useTaskDependencies,
+  useAddDependency,
   useRemoveDependency,
   type TaskDependency,
+  type TaskDependencyType,
 } from "../hooks/useDependencies";
-import { Trash2 } from "lucide-react";
+import { useTasks } from "../hooks/useTasks";
+import { DEPENDENCY_TYPES } from "../utils/dependencies";
+import { Plus, Trash2 } from "lucide-react";
 
 interface TaskDependenciesProps {
   taskId: string;
@@ -15,10 +27,57 @@ interface TaskDependenciesProps {
 
 export function TaskDependencies({ taskId }: TaskDependenciesProps) {
   const { data: depsData, isLoading } = useTaskDependencies(taskId);
+  const { data: tasksData } = useTasks({ page_size: 100 });
+  const addDependency = useAddDependency();
   const removeDependency = useRemoveDependency();
+  const [newDependsOnId, setNewDependsOnId] = useState("");
+  const [newType, setNewType] = useState<TaskDependencyType>("finish_to_start");
+
+  const dependencies: TaskDependency[] = depsData?.data?.dependencies || [];
+  const dependents: TaskDependency[] = depsData?.data?.dependents || [];
+
+  const allTasks = useMemo(() => tasksData?.data ?? [], [tasksData]);
+
+  const taskTitles = useMemo(
+    () => new Map(allTasks.map((task) => [task.id, task.title])),
+    [allTasks]
+  );
+
+  const getTaskLabel = (id: string) =>
+    taskTitles.get(id) ?? `Tarea ${id.slice(0, 8)}`;
 
-  const dependencies = depsData?.data?.dependencies || [];
-  const dependents = depsData?.data?.dependents || [];
+  const candidateTasks = allTasks.filter(
+    (task) =>
+      task.id !== taskId &&
+      !dependencies.some((dep) => dep.depends_on_id === task.id)
+  );
+
+  const handleAdd = () => {
+    if (!newDependsOnId) return;
+
+    // The hook checks the link against the whole dependency graph
+    addDependency.mutate(
+      {
+        taskId,
+        dependsOnId: newDependsOnId,
+        dependencyType: newType,
+      },
+      {
+        onSuccess: () => {
+          setNewDependsOnId("");
+          showToast("Dependencia agregada", "success");
+        },
+        onError: (error) => {
+          showToast(
+            error.message === "Circular dependency detected"
+              ? "La dependencia crearía un ciclo"
+              : "Error al agregar dependencia",
+            "error"
+          );
+        },
+      }
+    );
+  };
 
   const handleRemove = (dependencyId: string) => {
     removeDependency.mutate(
@@ -45,7 +104,11 @@ export function TaskDependencies({ taskId }: TaskDependenciesProps) {
   };
 
   if (isLoading) {
-    return <div className="text-sm text-muted-foreground">Cargando dependencias...</div>;
+    return (
+      <div className="text-sm text-muted-foreground">
+        Cargando dependencias...
+      </div>
+    );
   }
 
   return (
@@ -54,6 +117,45 @@ export function TaskDependencies({ taskId }: TaskDependenciesProps) {
         <h4 className="font-semibold">Dependencias</h4>
       </div>
 
+      {/* Nueva dependencia */}
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={newDependsOnId} onValueChange={setNewDependsOnId}>
+          <SelectTrigger className="h-8 flex-1 min-w-[180px]">
+            <SelectValue placeholder="Depende de..." />
+          </SelectTrigger>
+          <SelectContent>
+            {candidateTasks.map((task) => (
+              <SelectItem key={task.id} value={task.id}>
+                {task.title}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={newType}
+          onValueChange={(value) => setNewType(value as TaskDependencyType)}
+        >
+          <SelectTrigger className="h-8 w-[200px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {DEPENDENCY_TYPES.map((type) => (
+              <SelectItem key={type} value={type}>
+                {getDependencyTypeLabel(type)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          size="sm"
+          onClick={handleAdd}
+          disabled={!newDependsOnId || addDependency.isPending}
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Agregar
+        </Button>
+      </div>
+
       {/* Tareas de las que depende esta */}
       {dependencies.length > 0 && (
         <div>
@@ -64,7 +166,7 @@ export function TaskDependencies({ taskId }: TaskDependenciesProps) {
                 <div className="flex items-center justify-between">
                   <div className="flex-1">
                     <p className="text-sm font-medium">
-                      Tarea {dep.depends_on_id.slice(0, 8)}
+                      {getTaskLabel(dep.depends_on_id)}
                     </p>
                     <Badge variant="outline" className="mt-1">
                       {getDependencyTypeLabel(dep.dependency_type)}
@@ -88,14 +190,16 @@ export function TaskDependencies({ taskId }: TaskDependenciesProps) {
       {/* Tareas que dependen de esta */}
       {dependents.length > 0 && (
         <div>
-          <p className="text-sm font-medium mb-2">Tareas que dependen de esta:</p>
+          <p className="text-sm font-medium mb-2">
+            Tareas que dependen de esta:
+          </p>
           <div className="space-y-2">
             {dependents.map((dep: TaskDependency) => (
               <Card key={dep.id} className="p-3">
                 <div className="flex items-center justify-between">
                   <div className="flex-1">
                     <p className="text-sm font-medium">
-                      Tarea {dep.task_id.slice(0, 8)}
+                      {getTaskLabel(dep.task_id)}
                     </p>
                     <Badge variant="outline" className="mt-1">
                       {getDependencyTypeLabel(dep.dependency_type)}
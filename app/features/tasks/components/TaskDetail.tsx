@@ -20,6 +20,7 @@ import { HugeiconsIcon } from "@hugeicons/react";
 import { useTask, useUpdateTask } from "~/features/tasks/hooks/useTasks";
 import { SubtaskTree } from "~/features/tasks/components/SubtaskTree";
 import { TimeTracker } from "~/features/tasks/components/TimeTracker";
+import { TaskDependencies } from "~/features/tasks/components/TaskDependencies";
 import type {
   TaskStatus,
   TaskPriority,
@@ -271,6 +272,13 @@ export function TaskDetail() {
           </CardContent>
         </Card>
 
+        {/* Dependencies */}
+        <Card>
+          <CardContent className="pt-6">
+            <TaskDependencies taskId={task.id} />
+          </CardContent>
+        </Card>
+
         {/* Time Tracking */}
         <Card>
           <CardHeader>
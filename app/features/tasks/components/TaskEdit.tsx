@@ -29,18 +29,24 @@ import { Switch } from "~/components/ui/switch";
 import { Edit01Icon } from "@hugeicons/core-free-icons";
 import { HugeiconsIcon } from "@hugeicons/react";
 import { useUpdateTask, useDeleteTask } from "../hooks/useTasks";
+import { useScheduleCascadePreview } from "../hooks/useDependencies";
+import { useReschedule } from "../hooks/useReschedule";
 import { useUsers } from "~/features/users/hooks/useUsers";
 import { useTags } from "~/features/tags/hooks/useTags";
 import { useAuthStore } from "~/stores/authStore";
 import { CalendarSyncToggle } from "./CalendarSyncToggle";
+import { TaskRecurrenceFields } from "./TaskRecurrenceFields";
 import { FileUploader } from "./FileUploader";
 import { CommentThread } from "./CommentThread";
+import { DependencyCascadeDialog } from "./DependencyCascadeDialog";
 import {
   createAssignment,
   deleteAssignment,
   listAssignments,
 } from "../api/tasks.api";
 import { MultiSelect } from "~/components/ui/multi-select";
+import { getTaskSchedule, type TaskSchedule } from "../utils/gantt";
+import type { ScheduleShift } from "../utils/scheduling";
 import type {
   Task,
   TaskUpdate,
@@ -48,6 +54,12 @@ import type {
   TaskPriority,
 } from "../types/task.types";
 
+interface PendingSave {
+  payload: TaskUpdate;
+  schedule: TaskSchedule;
+  shifts: ScheduleShift[];
+}
+
 interface TaskEditProps {
   task: Task | null;
   open: boolean;
@@ -64,6 +76,8 @@ export function TaskEdit({
   const { t } = useTranslation();
   const updateTask = useUpdateTask();
   const deleteTask = useDeleteTask();
+  const cascadePreview = useScheduleCascadePreview();
+  const { reschedule, isApplying } = useReschedule();
   const { users } = useUsers({ page_size: 100 });
   const { data: tagList = [] } = useTags();
   const { user } = useAuthStore();
@@ -113,11 +127,15 @@ export function TaskEdit({
     tag_ids: [],
     color_override: "",
     assigned_to_id: null,
+    recurrence_rule: null,
+    recurrence_mode: null,
   });
 
   const [assignedUserIds, setAssignedUserIds] = useState<string[]>([]);
   const [assignedGroupIds, setAssignedGroupIds] = useState<string[]>([]);
   const [formError, setFormError] = useState<string | null>(null);
+  // Date change waiting for the user to review its effect on dependent tasks
+  const [pendingSave, setPendingSave] = useState<PendingSave | null>(null);
 
   // Update form data when task changes
   useEffect(() => {
@@ -134,6 +152,8 @@ export function TaskEdit({
         tag_ids: task.tag_ids ?? [],
         color_override: task.color_override ?? "",
         assigned_to_id: task.assigned_to_id,
+        recurrence_rule: task.recurrence_rule ?? null,
+        recurrence_mode: task.recurrence_mode ?? null,
       });
 
       setFormError(null);
@@ -208,12 +228,51 @@ export function TaskEdit({
             }
           : {
               ...basePayload,
-              due_date: toUTCISOString(formData.due_date),
+              due_date: toUTCISOString(formData.due_date) ?? null,
               start_at: undefined,
               end_at: undefined,
               all_day: false,
             };
 
+      // Date changes may move dependent tasks: preview the cascade first
+      const datesChanged =
+        (formData.start_at ?? "") !== toDateTimeLocalValue(task.start_at) ||
+        (formData.end_at ?? "") !== toDateTimeLocalValue(task.end_at) ||
+        (formData.due_date ?? "") !== toDateTimeLocalValue(task.due_date);
+      // Preview against the dates being saved, including cleared ones (null)
+      const schedule = datesChanged
+        ? getTaskSchedule({
+            ...task,
+            start_at:
+              payload.start_at === undefined ? task.start_at : payload.start_at,
+            end_at: payload.end_at === undefined ? task.end_at : payload.end_at,
+            due_date:
+              payload.due_date === undefined
+                ? task.due_date
+                : (payload.due_date ?? undefined),
+          })
+        : null;
+      if (schedule) {
+        const shifts = await cascadePreview.mutateAsync({ task, schedule });
+        if (shifts.length > 0) {
+          setPendingSave({ payload, schedule, shifts });
+          return;
+        }
+      }
+
+      if (await saveTask(payload)) {
+        // Notificar que la tarea fue actualizada pero no cerrar el modal
+        onTaskUpdated?.();
+      }
+    } catch (error) {
+      console.error("Error al calcular dependencias:", error);
+      setFormError(t("tasks.dependencies.cascadeError"));
+    }
+  };
+
+  const saveTask = async (payload: TaskUpdate) => {
+    if (!task) return false;
+    try {
       await updateTask.mutateAsync({
         id: task.id,
         payload,
@@ -266,14 +325,32 @@ export function TaskEdit({
         }
       }
 
-      // Notificar que la tarea fue actualizada pero no cerrar el modal
-      onTaskUpdated?.();
+      return true;
     } catch (error) {
       console.error("Error al actualizar tarea:", error);
+      return false;
+    }
+  };
+
+  const handleCascadeSave = async (applyToDependents: boolean) => {
+    if (!task || !pendingSave) return;
+    const { payload, shifts } = pendingSave;
+    const saved = await saveTask(payload);
+    setPendingSave(null);
+    if (!saved) return;
+
+    if (applyToDependents) {
+      // The edited task is rolled back together with its dependents
+      await reschedule(
+        shifts.map((shift) => ({ task: shift.task, schedule: shift.to })),
+        [task]
+      );
     }
+    onTaskUpdated?.();
   };
 
-  const isLoading = updateTask.isPending;
+  const isLoading =
+    updateTask.isPending || cascadePreview.isPending || isApplying;
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -473,6 +550,23 @@ export function TaskEdit({
             </div>
           )}
 
+          <TaskRecurrenceFields
+            rule={formData.recurrence_rule ?? null}
+            mode={formData.recurrence_mode ?? null}
+            startDate={
+              formData.due_date || formData.start_at
+                ? new Date((formData.due_date || formData.start_at)!)
+                : undefined
+            }
+            onChange={(recurrence_rule, recurrence_mode) =>
+              setFormData((prev) => ({
+                ...prev,
+                recurrence_rule,
+                recurrence_mode,
+              }))
+            }
+          />
+
           {/* Calendar Sync Toggle - Sprint 2.1 Fase 2 */}
           {task && (formData.start_at || formData.due_date || formData.end_at) && (
             <div className="pt-4 border-t">
@@ -601,6 +695,17 @@ export function TaskEdit({
             </Button>
           </DialogFooter>
         </form>
+
+        <DependencyCascadeDialog
+          open={Boolean(pendingSave)}
+          task={task}
+          schedule={pendingSave?.schedule ?? null}
+          shifts={pendingSave?.shifts ?? []}
+          isApplying={isLoading}
+          onCancel={() => setPendingSave(null)}
+          onApplyTaskOnly={() => void handleCascadeSave(false)}
+          onApplyAll={() => void handleCascadeSave(true)}
+        />
       </DialogContent>
     </Dialog>
   );
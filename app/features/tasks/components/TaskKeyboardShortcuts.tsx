@@ -13,6 +13,7 @@ import {
   DialogTitle,
 } from "~/components/ui/dialog";
 import { Badge } from "~/components/ui/badge";
+import { useTaskHistory } from "../hooks/useTaskHistory";
 
 interface ShortcutItem {
   keys: string[];
@@ -36,12 +37,14 @@ export function TaskKeyboardShortcuts({
   onHelpClose,
 }: TaskKeyboardShortcutsProps) {
   const navigate = useNavigate();
+  const { undo, redo } = useTaskHistory();
 
   const shortcuts = useMemo<ShortcutItem[]>(() => [
     {
       keys: ["c"],
       description: "Crear nueva tarea",
-      action: () => onCreateTask?.() || void navigate("/tasks-create"),
+      action: () =>
+        onCreateTask ? onCreateTask() : void navigate("/tasks-create"),
     },
     {
       keys: ["/", "s"],
@@ -112,11 +115,22 @@ export function TaskKeyboardShortcuts({
           onSearch?.();
         }
       }
+
+      // Undo / redo (Ctrl+Z, Ctrl+Shift+Z or Ctrl+Y)
+      if ((e.ctrlKey || e.metaKey) && !e.altKey) {
+        if (key === "z" && !e.shiftKey) {
+          e.preventDefault();
+          void undo();
+        } else if ((key === "z" && e.shiftKey) || (key === "y" && !e.shiftKey)) {
+          e.preventDefault();
+          void redo();
+        }
+      }
     };
 
     window.addEventListener("keydown", handleKeyDown);
     return () => window.removeEventListener("keydown", handleKeyDown);
-  }, [shortcuts, onSearch]);
+  }, [shortcuts, onSearch, undo, redo]);
 
   return (
     <Dialog open={showHelp} onOpenChange={onHelpClose}>
@@ -147,6 +161,21 @@ export function TaskKeyboardShortcuts({
               <Badge variant="secondary" className="font-mono">K</Badge>
             </div>
           </div>
+          <div className="flex items-center justify-between p-3 border rounded-lg">
+            <span className="text-sm">Deshacer último cambio</span>
+            <div className="flex gap-1">
+              <Badge variant="secondary" className="font-mono">CTRL</Badge>
+              <Badge variant="secondary" className="font-mono">Z</Badge>
+            </div>
+          </div>
+          <div className="flex items-center justify-between p-3 border rounded-lg">
+            <span className="text-sm">Rehacer cambio</span>
+            <div className="flex gap-1">
+              <Badge variant="secondary" className="font-mono">CTRL</Badge>
+              <Badge variant="secondary" className="font-mono">SHIFT</Badge>
+              <Badge variant="secondary" className="font-mono">Z</Badge>
+            </div>
+          </div>
         </div>
       </DialogContent>
     </Dialog>
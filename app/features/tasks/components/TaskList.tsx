@@ -5,7 +5,7 @@
 
 import { format } from "date-fns";
 import { es, enUS } from "date-fns/locale";
-import { useState, useMemo, memo } from "react";
+import { useState, useMemo, useCallback, memo } from "react";
 import { useTranslation } from "~/lib/i18n/useTranslation";
 import { Button } from "~/components/ui/button";
 import { Card, CardContent } from "~/components/ui/card";
@@ -19,18 +19,41 @@ import {
 } from "~/components/ui/select";
 import { Input } from "~/components/ui/input";
 import { Label } from "~/components/ui/label";
-import { DataTable } from "~/components/common/DataTable";
+import { Checkbox } from "~/components/ui/checkbox";
+import { showToast } from "~/components/common/Toast";
 import { HugeiconsIcon } from "@hugeicons/react";
 import { Delete01Icon, Edit01Icon, Refresh01Icon, ViewIcon } from "@hugeicons/core-free-icons";
 import { TaskEdit } from "./TaskEdit";
 import { TaskView } from "./TaskView";
+import { TaskRecurrenceBadge } from "./TaskRecurrenceBadge";
+import { TaskListTable, type TaskListColumn } from "./TaskListTable";
+import { ViewSelector } from "./ViewSelector";
+import { BulkActionsBar } from "./BulkActionsBar";
 import { useTaskAssignments } from "../hooks/useTasks";
+import {
+  useBulkOperations,
+  type BulkOperationResult,
+} from "../hooks/useBulkOperations";
+import { useTaskHistory } from "../hooks/useTaskHistory";
+import { useUsers } from "~/features/users/hooks/useUsers";
+import { useTags } from "~/features/tags/hooks/useTags";
 import { calculateSubtaskProgress } from "~/features/tasks/utils/subtasks";
+import {
+  buildSortConfig,
+  getSortKeys,
+  groupTasks,
+  NO_GROUP_ID,
+  sortTasks,
+  type ColumnConfig,
+} from "~/features/tasks/utils/taskListView";
 import type {
+  SavedView,
   Task,
   TaskStatus,
   TaskPriority,
   TaskAssignment,
+  TaskGroupBy,
+  TaskSortKey,
 } from "~/features/tasks/types/task.types";
 
 interface TaskListProps {
@@ -41,6 +64,7 @@ interface TaskListProps {
   onTaskDelete?: (task: Task) => void;
   onTaskComplete?: (taskId: string, itemId: string) => void;
   onTaskCreate?: () => void;
+  onTemplateCreate?: () => void;
   onFilterBySourceModule?: (sourceModule: string | null) => void;
   onFilterChange?: (filters: TaskFilters) => void;
 }
@@ -65,6 +89,15 @@ const statusColors: Record<TaskStatus, string> = {
   cancelled: "bg-gray-100 text-gray-800 border-gray-200",
 };
 
+const GROUP_BY_OPTIONS: TaskGroupBy[] = [
+  "none",
+  "status",
+  "assignee",
+  "priority",
+  "tag",
+  "due",
+];
+
 const priorityColors: Record<TaskPriority, string> = {
   low: "bg-gray-100 text-gray-800 border-gray-200",
   medium: "bg-orange-100 text-orange-800 border-orange-200",
@@ -80,6 +113,7 @@ export const TaskAdvancedFilter = memo(({
   onTaskDelete,
   onTaskComplete: _onTaskComplete,
   onTaskCreate,
+  onTemplateCreate,
   onFilterBySourceModule: _onFilterBySourceModule,
   onFilterChange,
 }: TaskListProps) => {
@@ -97,6 +131,13 @@ export const TaskAdvancedFilter = memo(({
   const [isEditOpen, setIsEditOpen] = useState(false);
   const [viewingTask, setViewingTask] = useState<Task | null>(null);
   const [isViewOpen, setIsViewOpen] = useState(false);
+  const [groupBy, setGroupBy] = useState<TaskGroupBy>("none");
+  const [sortKeys, setSortKeys] = useState<TaskSortKey[]>([]);
+  const [columnConfig, setColumnConfig] = useState<ColumnConfig>({});
+  const { users } = useUsers({ page_size: 100 });
+  const { data: tags = [] } = useTags();
+  const bulk = useBulkOperations();
+  const { undoAction } = useTaskHistory();
 
   // Memoizar filtrado de tareas
   const filteredTasks = useMemo(() => {
@@ -126,6 +167,64 @@ export const TaskAdvancedFilter = memo(({
     });
   }, [tasks, filters]);
 
+  const getGroupLabel = useCallback(
+    (groupId: string) => {
+      switch (groupBy) {
+        case "status":
+          return t(`tasks.statuses.${groupId}`);
+        case "priority":
+          return t(`tasks.priorities.${groupId}`);
+        case "due":
+          return t(`tasks.list.dueBuckets.${groupId}`);
+        case "assignee": {
+          if (groupId === NO_GROUP_ID) return t("tasks.list.unassigned");
+          const user = users.find((u) => u.id === groupId);
+          return user
+            ? `${user.first_name ?? ""} ${user.last_name ?? ""}`.trim() ||
+                user.email
+            : groupId;
+        }
+        case "tag":
+          if (groupId === NO_GROUP_ID) return t("tasks.list.noTag");
+          return tags.find((tag) => tag.id === groupId)?.name ?? groupId;
+        default:
+          return groupId;
+      }
+    },
+    [groupBy, t, users, tags]
+  );
+
+  // Ordenar y agrupar las tareas filtradas
+  const taskGroups = useMemo(
+    () => groupTasks(sortTasks(filteredTasks, sortKeys), groupBy, getGroupLabel),
+    [filteredTasks, sortKeys, groupBy, getGroupLabel]
+  );
+
+  const currentViewFilters: SavedView["filters"] = {
+    status: filters.status ? [filters.status] : undefined,
+    priority: filters.priority ? [filters.priority] : undefined,
+    assigned_to_id: filters.assignedToId ? [filters.assignedToId] : undefined,
+    date_range:
+      filters.dueDateFrom && filters.dueDateTo
+        ? { start: filters.dueDateFrom, end: filters.dueDateTo }
+        : undefined,
+  };
+
+  const handleApplyView = (view: SavedView) => {
+    const viewFilters: TaskFilters = {
+      status: view.filters.status?.[0],
+      priority: view.filters.priority?.[0],
+      assignedToId: view.filters.assigned_to_id?.[0],
+      dueDateFrom: view.filters.date_range?.start,
+      dueDateTo: view.filters.date_range?.end,
+    };
+    setFilters(viewFilters);
+    onFilterChange?.(viewFilters);
+    setSortKeys(getSortKeys(view.sort_config));
+    setGroupBy(view.group_by ?? "none");
+    setColumnConfig(view.column_config ?? {});
+  };
+
   const handleFilterChange = (updates: Partial<TaskFilters>) => {
     const newFilters = { ...filters, ...updates };
     setFilters(newFilters);
@@ -148,6 +247,41 @@ export const TaskAdvancedFilter = memo(({
     onRefresh?.();
   };
 
+  // Run a bulk action on the selection, reporting tasks it failed on
+  const runBulkAction = (action: () => Promise<BulkOperationResult>) => {
+    action()
+      .then((result) => {
+        const count = String(result.success_count + result.error_count);
+        const undo = result.success_count > 0 ? undoAction : undefined;
+        if (result.error_count > 0) {
+          showToast(
+            t("tasks.bulkActions.partialError")
+              .replace("{failed}", String(result.error_count))
+              .replace("{count}", count),
+            "error",
+            8000,
+            undo
+          );
+        } else {
+          showToast(
+            t("tasks.bulkActions.success").replace("{count}", count),
+            "success",
+            5000,
+            undo
+          );
+        }
+        onRefresh?.();
+      })
+      .catch((error) => {
+        console.error("Bulk action failed:", error);
+        showToast(t("tasks.bulkActions.error"), "error");
+      });
+  };
+
+  const allSelected =
+    filteredTasks.length > 0 &&
+    filteredTasks.every((task) => bulk.isSelected(task.id));
+
   const handleViewTask = (task: Task) => {
     setViewingTask(task);
     setIsViewOpen(true);
@@ -238,10 +372,25 @@ export const TaskAdvancedFilter = memo(({
     return "-";
   };
 
-  const columns = [
+  const columns: TaskListColumn[] = [
+    {
+      key: "select",
+      header: "",
+      cell: (task: Task) => (
+        <Checkbox
+          checked={bulk.isSelected(task.id)}
+          onCheckedChange={() => bulk.toggleSelection(task.id)}
+          aria-label={t("tasks.bulkActions.selectTask").replace(
+            "{task}",
+            task.title
+          )}
+        />
+      ),
+    },
     {
       key: "title",
       header: "Descripción",
+      sortField: "title",
       cell: (task: Task) => {
         const activityType = getActivityType(task);
         const typeLabel = activityType === "evento" ? "Evento" : "Tarea";
@@ -254,6 +403,7 @@ export const TaskAdvancedFilter = memo(({
                 {progress.completed}/{progress.total}
               </Badge>
             )}
+            {task.recurrence_rule && <TaskRecurrenceBadge task={task} />}
           </div>
         );
       },
@@ -261,6 +411,7 @@ export const TaskAdvancedFilter = memo(({
     {
       key: "status",
       header: t("tasks.statuses.title") || "Status",
+      sortField: "status",
       cell: (task: Task) => {
         const activityType = getActivityType(task);
         
@@ -281,6 +432,7 @@ export const TaskAdvancedFilter = memo(({
     {
       key: "priority",
       header: t("tasks.priorities.title") || "Priority",
+      sortField: "priority",
       cell: (task: Task) => getPriorityBadge(task.priority),
     },
     {
@@ -311,6 +463,7 @@ export const TaskAdvancedFilter = memo(({
     {
       key: "due_date",
       header: "Fechas",
+      sortField: "due_date",
       cell: (task: Task) => {
         const activityType = getActivityType(task);
         
@@ -547,6 +700,11 @@ export const TaskAdvancedFilter = memo(({
               <Button onClick={onRefresh} disabled={loading} variant="outline" size="sm">
                 <HugeiconsIcon icon={Refresh01Icon} size={16} className="mr-2" />
               </Button>
+              {onTemplateCreate && (
+                <Button onClick={onTemplateCreate} variant="outline" size="sm">
+                  {t("tasks.templates.fromTemplate")}
+                </Button>
+              )}
               <Button onClick={onTaskCreate} size="sm">
                 {t("tasks.createActivity") || "Crear Actividad"}
               </Button>
@@ -623,19 +781,89 @@ export const TaskAdvancedFilter = memo(({
         </CardContent>
       </Card>
 
+      {/* Agrupación y vistas guardadas */}
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="task-list-select-all"
+            checked={allSelected}
+            onCheckedChange={(checked) =>
+              checked
+                ? bulk.selectAll(filteredTasks.map((task) => task.id))
+                : bulk.clearSelection()
+            }
+          />
+          <Label
+            htmlFor="task-list-select-all"
+            className="mr-4 text-sm text-muted-foreground"
+          >
+            {t("tasks.bulkActions.selectAll")}
+          </Label>
+          <Label className="text-sm text-muted-foreground">
+            {t("tasks.list.groupBy")}
+          </Label>
+          <Select
+            value={groupBy}
+            onValueChange={(value) => setGroupBy(value as TaskGroupBy)}
+          >
+            <SelectTrigger className="h-8 w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {GROUP_BY_OPTIONS.map((option) => (
+                <SelectItem key={option} value={option}>
+                  {t(`tasks.list.groupByOptions.${option}`)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex items-center gap-2">
+          {(sortKeys.length > 0 || Object.keys(columnConfig).length > 0) && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                setSortKeys([]);
+                setColumnConfig({});
+              }}
+            >
+              {t("tasks.list.resetLayout")}
+            </Button>
+          )}
+          <ViewSelector
+            currentFilters={currentViewFilters}
+            currentSort={buildSortConfig(sortKeys)}
+            currentColumns={columnConfig}
+            currentGroupBy={groupBy}
+            onApplyView={handleApplyView}
+          />
+        </div>
+      </div>
+
       {/* Tasks table */}
-      <DataTable
+      <TaskListTable
         columns={columns}
-        data={filteredTasks}
-        pagination={{
-          page: 1,
-          pageSize: 20,
-          total: filteredTasks.length,
-          onPageChange: () => {
-            // Handle pagination
-          },
-        }}
-        inCard={false}
+        groups={taskGroups}
+        grouped={groupBy !== "none"}
+        getGroupLabel={getGroupLabel}
+        sortKeys={sortKeys}
+        onSortChange={setSortKeys}
+        columnConfig={columnConfig}
+        onColumnConfigChange={setColumnConfig}
+      />
+
+      <BulkActionsBar
+        selectedCount={bulk.selectedCount}
+        onUpdateStatus={(status) =>
+          runBulkAction(() => bulk.bulkUpdateStatus(status))
+        }
+        onUpdatePriority={(priority) =>
+          runBulkAction(() => bulk.bulkUpdatePriority(priority))
+        }
+        onDelete={() => runBulkAction(bulk.bulkDelete)}
+        onClearSelection={bulk.clearSelection}
+        isProcessing={bulk.isProcessing}
       />
 
       {/* Task Edit Modal */}
@@ -0,0 +1,281 @@
+/**
+ * TaskListTable component
+ * Task table with collapsible groups, multi-key sorting (shift+click adds a
+ * level) and columns that can be reordered by dragging and resized
+ */
+
+import { useRef, useState, type ReactNode } from "react";
+import { ArrowDown, ArrowUp, ChevronDown, ChevronRight } from "lucide-react";
+import { useTranslation } from "~/lib/i18n/useTranslation";
+import { Badge } from "~/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "~/components/ui/table";
+import { cn } from "~/lib/utils";
+import {
+  moveColumn,
+  resizeColumn,
+  resolveColumnLayout,
+  toggleSortKey,
+  type ColumnConfig,
+  type TaskGroup,
+} from "../utils/taskListView";
+import type { Task, TaskSortKey } from "../types/task.types";
+
+export interface TaskListColumn {
+  key: string;
+  header: string;
+  cell: (task: Task) => ReactNode;
+  sortField?: string; // Task field used when the header is clicked
+}
+
+interface TaskListTableProps {
+  columns: TaskListColumn[];
+  groups: TaskGroup[];
+  grouped?: boolean;
+  getGroupLabel?: (groupId: string) => string;
+  sortKeys: TaskSortKey[];
+  onSortChange: (keys: TaskSortKey[]) => void;
+  columnConfig: ColumnConfig;
+  onColumnConfigChange: (config: ColumnConfig) => void;
+  emptyState?: ReactNode;
+}
+
+export function TaskListTable({
+  columns,
+  groups,
+  grouped = false,
+  getGroupLabel = (groupId) => groupId,
+  sortKeys,
+  onSortChange,
+  columnConfig,
+  onColumnConfigChange,
+  emptyState,
+}: TaskListTableProps) {
+  const { t } = useTranslation();
+  const [collapsedGroups, setCollapsedGroups] = useState<Set<string>>(
+    new Set()
+  );
+  const [draggingKey, setDraggingKey] = useState<string | null>(null);
+  const [dropTargetKey, setDropTargetKey] = useState<string | null>(null);
+  // Width shown while a resize handle is being dragged
+  const [draftWidth, setDraftWidth] = useState<{
+    key: string;
+    width: number;
+  } | null>(null);
+  const resizingRef = useRef(false);
+
+  const columnKeys = columns.map((column) => column.key);
+  const visibleColumns = resolveColumnLayout(columnKeys, columnConfig)
+    .filter((layout) => layout.visible)
+    .map((layout) => ({
+      ...layout,
+      column: columns.find((column) => column.key === layout.key)!,
+    }));
+
+  const toggleGroup = (groupId: string) => {
+    setCollapsedGroups((prev) => {
+      const next = new Set(prev);
+      if (next.has(groupId)) {
+        next.delete(groupId);
+      } else {
+        next.add(groupId);
+      }
+      return next;
+    });
+  };
+
+  const startResize = (e: React.MouseEvent<HTMLDivElement>, key: string) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const header = e.currentTarget.parentElement;
+    if (!header) return;
+
+    resizingRef.current = true;
+    const startX = e.clientX;
+    const startWidth = header.getBoundingClientRect().width;
+    let width = startWidth;
+
+    const handleMove = (event: MouseEvent) => {
+      width = startWidth + event.clientX - startX;
+      setDraftWidth({ key, width });
+    };
+    const handleUp = () => {
+      window.removeEventListener("mousemove", handleMove);
+      window.removeEventListener("mouseup", handleUp);
+      resizingRef.current = false;
+      setDraftWidth(null);
+      if (width !== startWidth) {
+        onColumnConfigChange(
+          resizeColumn(columnKeys, columnConfig, key, width)
+        );
+      }
+    };
+    window.addEventListener("mousemove", handleMove);
+    window.addEventListener("mouseup", handleUp);
+  };
+
+  const handleDrop = (targetKey: string) => {
+    if (draggingKey && draggingKey !== targetKey) {
+      onColumnConfigChange(
+        moveColumn(columnKeys, columnConfig, draggingKey, targetKey)
+      );
+    }
+    setDraggingKey(null);
+    setDropTargetKey(null);
+  };
+
+  const renderSortIndicator = (field?: string) => {
+    const index = sortKeys.findIndex((key) => key.field === field);
+    const sortKey = sortKeys[index];
+    if (!sortKey) return null;
+    const Icon = sortKey.direction === "asc" ? ArrowUp : ArrowDown;
+    return (
+      <span className="inline-flex items-center text-muted-foreground">
+        <Icon className="h-3 w-3" />
+        {sortKeys.length > 1 && (
+          <span className="text-[10px] leading-none">{index + 1}</span>
+        )}
+      </span>
+    );
+  };
+
+  const totalTasks = groups.reduce((sum, group) => sum + group.tasks.length, 0);
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          {visibleColumns.map(({ key, width, column }) => {
+            const shownWidth =
+              draftWidth?.key === key ? draftWidth.width : width;
+            return (
+              <TableHead
+                key={key}
+                draggable
+                onDragStart={(e) => {
+                  if (resizingRef.current) {
+                    e.preventDefault();
+                    return;
+                  }
+                  e.dataTransfer.effectAllowed = "move";
+                  setDraggingKey(key);
+                }}
+                onDragOver={(e) => {
+                  if (!draggingKey) return;
+                  e.preventDefault();
+                  setDropTargetKey(key);
+                }}
+                onDragLeave={() => setDropTargetKey(null)}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  handleDrop(key);
+                }}
+                onDragEnd={() => {
+                  setDraggingKey(null);
+                  setDropTargetKey(null);
+                }}
+                style={
+                  shownWidth
+                    ? { width: shownWidth, minWidth: shownWidth }
+                    : undefined
+                }
+                className={cn(
+                  "relative select-none cursor-grab",
+                  draggingKey === key && "opacity-50",
+                  dropTargetKey === key && draggingKey !== key && "bg-muted"
+                )}
+              >
+                {column.sortField ? (
+                  <button
+                    type="button"
+                    className="inline-flex items-center gap-1 hover:text-foreground"
+                    title={t("tasks.list.sortHint")}
+                    onClick={(e) =>
+                      onSortChange(
+                        toggleSortKey(sortKeys, column.sortField!, e.shiftKey)
+                      )
+                    }
+                  >
+                    {column.header}
+                    {renderSortIndicator(column.sortField)}
+                  </button>
+                ) : (
+                  column.header
+                )}
+                <div
+                  role="separator"
+                  aria-orientation="vertical"
+                  aria-label={t("tasks.list.resizeColumn")}
+                  className="absolute right-0 top-0 h-full w-1.5 cursor-col-resize hover:bg-primary/40"
+                  onMouseDown={(e) => startResize(e, key)}
+                />
+              </TableHead>
+            );
+          })}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {totalTasks === 0 && (
+          <TableRow>
+            <TableCell
+              colSpan={visibleColumns.length}
+              className="h-24 text-center text-muted-foreground"
+            >
+              {emptyState ?? t("tasks.noTasks")}
+            </TableCell>
+          </TableRow>
+        )}
+        {groups.map((group) => {
+          const collapsed = grouped && collapsedGroups.has(group.id);
+          return [
+            grouped && group.tasks.length > 0 && (
+              <TableRow
+                key={`group-${group.id}`}
+                className="bg-muted/40 hover:bg-muted/60"
+              >
+                <TableCell colSpan={visibleColumns.length} className="py-2">
+                  <button
+                    type="button"
+                    className="flex items-center gap-2 font-medium"
+                    aria-expanded={!collapsed}
+                    aria-label={
+                      collapsed
+                        ? t("tasks.list.expandGroup")
+                        : t("tasks.list.collapseGroup")
+                    }
+                    onClick={() => toggleGroup(group.id)}
+                  >
+                    {collapsed ? (
+                      <ChevronRight className="h-4 w-4" />
+                    ) : (
+                      <ChevronDown className="h-4 w-4" />
+                    )}
+                    <span>{getGroupLabel(group.id)}</span>
+                    <Badge variant="secondary" className="text-xs">
+                      {group.tasks.length}
+                    </Badge>
+                  </button>
+                </TableCell>
+              </TableRow>
+            ),
+            ...(collapsed
+              ? []
+              : group.tasks.map((task) => (
+                  <TableRow key={`${group.id}-${task.id}`}>
+                    {visibleColumns.map(({ key, column }) => (
+                      <TableCell key={key}>{column.cell(task)}</TableCell>
+                    ))}
+                  </TableRow>
+                ))),
+          ];
+        })}
+      </TableBody>
+    </Table>
+  );
+}
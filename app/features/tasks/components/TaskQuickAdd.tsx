@@ -40,6 +40,8 @@ import { MultiSelect } from "~/components/ui/multi-select";
 import { useTags } from "~/features/tags/hooks/useTags";
 import { FileUploader } from "./FileUploader";
 import { CommentThread } from "./CommentThread";
+import { TaskQuickCapture } from "./TaskQuickCapture";
+import { TaskRecurrenceFields } from "./TaskRecurrenceFields";
 import type { EventCreate, EventReminderCreate, RecurrenceType, ReminderType } from "~/features/calendar/types/calendar.types";
 import type { TaskCreate, TaskStatus, TaskPriority } from "../types/task.types";
 
@@ -527,6 +529,19 @@ export function TaskQuickAdd({
               </Button>
             </div>
 
+            {/* Captura rápida en lenguaje natural */}
+            {mode === "task" && (
+              <div className="mb-4 border-b pb-4">
+                <TaskQuickCapture
+                  autoFocus
+                  onTaskCreated={(taskId) => {
+                    setCreatedTaskId(taskId);
+                    onTaskCreated?.();
+                  }}
+                />
+              </div>
+            )}
+
             {/* Selector de calendario para eventos */}
             {mode === "event" && calendars.length > 0 && (
               <div className="space-y-2">
@@ -568,7 +583,7 @@ export function TaskQuickAdd({
               }
               placeholder={t("tasks.quickAddPlaceholder")}
               required
-              autoFocus
+              autoFocus={isEventMode}
             />
           </div>
 
@@ -822,6 +837,24 @@ export function TaskQuickAdd({
             </div>
           )}
 
+          {/* Recurrencia - Solo para tareas */}
+          {mode === "task" && (
+            <TaskRecurrenceFields
+              rule={formData.recurrence_rule ?? null}
+              mode={formData.recurrence_mode ?? null}
+              startDate={
+                formData.due_date ? new Date(formData.due_date) : undefined
+              }
+              onChange={(recurrence_rule, recurrence_mode) =>
+                setFormData((prev) => ({
+                  ...prev,
+                  recurrence_rule,
+                  recurrence_mode,
+                }))
+              }
+            />
+          )}
+
           {/* Info Note - Solo para tareas */}
           {mode === "task" && (
             <div className="pt-4 border-t">
@@ -0,0 +1,453 @@
+/**
+ * TaskQuickCapture component
+ * Single-line task capture that understands natural-language phrases
+ * and shows the parsed fields as editable chips
+ */
+
+import { useMemo, useState, type ReactNode } from "react";
+import { format } from "date-fns";
+import { es, enUS } from "date-fns/locale";
+import {
+  AlertCircle,
+  AtSign,
+  Calendar,
+  Flag,
+  Hash,
+  Repeat,
+  X,
+} from "lucide-react";
+import { useTranslation } from "~/lib/i18n/useTranslation";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "~/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import { showToast } from "~/components/common/Toast";
+import { cn } from "~/lib/utils";
+import { useAuthStore } from "~/stores/authStore";
+import { useUsers } from "~/features/users/hooks/useUsers";
+import { useTags } from "~/features/tags/hooks/useTags";
+import { useCreateTask } from "../hooks/useTasks";
+import { createAssignment } from "../api/tasks.api";
+import {
+  matchTag,
+  matchUser,
+  parseQuickTask,
+  type QuickToken,
+  type QuickTokenType,
+} from "../utils/quickAddParser";
+import { DEFAULT_RECURRENCE_MODE } from "../utils/taskRecurrence";
+import type { TaskCreate, TaskPriority } from "../types/task.types";
+
+interface TaskQuickCaptureProps {
+  onTaskCreated?: (taskId: string) => void;
+  autoFocus?: boolean;
+}
+
+type ChipField = "date" | "priority" | "assignee" | "recurrence";
+
+/** A value picked by editing a chip, valid while its source text is unchanged */
+interface ChipOverride {
+  source: string;
+  value: string | null;
+}
+
+const PRIORITIES: TaskPriority[] = ["low", "medium", "high", "urgent"];
+
+const RECURRENCE_PRESETS = [
+  "FREQ=DAILY",
+  "FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR",
+  "FREQ=WEEKLY",
+  "FREQ=MONTHLY",
+  "FREQ=YEARLY",
+];
+
+const DATE_INPUT_FORMAT = "yyyy-MM-dd'T'HH:mm";
+
+const WEEKDAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+export function TaskQuickCapture({
+  onTaskCreated,
+  autoFocus = false,
+}: TaskQuickCaptureProps) {
+  const { t, language } = useTranslation();
+  const dateLocale = language === "en" ? enUS : es;
+  const createTask = useCreateTask();
+  const { user } = useAuthStore();
+  const { users } = useUsers({ page_size: 100 });
+  const { data: tagList = [] } = useTags();
+
+  const [text, setText] = useState("");
+  const [overrides, setOverrides] = useState<
+    Partial<Record<ChipField, ChipOverride>>
+  >({});
+  const [removedTags, setRemovedTags] = useState<string[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const parsed = useMemo(() => parseQuickTask(text), [text]);
+
+  const tokensOf = (...types: QuickTokenType[]) =>
+    parsed.tokens.filter((token) => types.includes(token.type));
+
+  const sourceOf = (field: ChipField) => {
+    const types: QuickTokenType[] =
+      field === "date" ? ["date", "time", "recurrence"] : [field];
+    return tokensOf(...types)
+      .map((token) => token.text)
+      .join(" ");
+  };
+
+  const overrideOf = (field: ChipField) => {
+    const override = overrides[field];
+    return override && override.source === sourceOf(field)
+      ? override
+      : undefined;
+  };
+
+  const dueDateOverride = overrideOf("date");
+  const dueDate = dueDateOverride
+    ? dueDateOverride.value
+      ? new Date(dueDateOverride.value)
+      : null
+    : parsed.dueDate;
+  const hasTime = dueDateOverride ? Boolean(dueDate) : parsed.hasTime;
+
+  const priority = (overrideOf("priority")?.value ??
+    parsed.priority) as TaskPriority | null;
+
+  const assigneeOverride = overrideOf("assignee");
+  const assignee = assigneeOverride
+    ? users.find((option) => option.id === assigneeOverride.value)
+    : parsed.assignee
+      ? matchUser(parsed.assignee, users)
+      : undefined;
+
+  const rrule = overrideOf("recurrence")?.value ?? parsed.recurrence?.rrule;
+
+  const tags = parsed.tags
+    .filter((name) => !removedTags.includes(name))
+    .map((name) => ({ name, tag: matchTag(name, tagList) }));
+
+  const setOverride = (field: ChipField, value: string | null) => {
+    setOverrides((prev) => ({
+      ...prev,
+      [field]: { source: sourceOf(field), value },
+    }));
+  };
+
+  /** Remove the token text from the input so the field is no longer parsed */
+  const removeTokens = (tokens: QuickToken[]) => {
+    let next = text;
+    for (const token of [...tokens].sort((a, b) => b.start - a.start)) {
+      next = next.slice(0, token.start) + next.slice(token.end);
+    }
+    setText(next.replace(/\s{2,}/g, " "));
+  };
+
+  const formatRecurrence = (rule: string) => {
+    const freq = /FREQ=(\w+)/.exec(rule)?.[1] ?? "";
+    const interval = Number(/INTERVAL=(\d+)/.exec(rule)?.[1] ?? 1);
+    const byDay = /BYDAY=([\w,]+)/.exec(rule)?.[1]?.split(",") ?? [];
+    const unit = freq.charAt(0) + freq.slice(1).toLowerCase();
+    let label =
+      interval > 1
+        ? t(`tasks.quickCapture.recurrence.interval${unit}`).replace(
+            "{interval}",
+            String(interval)
+          )
+        : t(`tasks.quickCapture.recurrence.${freq.toLowerCase()}`);
+    if (byDay.length > 0) {
+      const days = byDay.map((code) =>
+        dateLocale.localize.day(WEEKDAY_CODES.indexOf(code) as 0, {
+          width: "abbreviated",
+        })
+      );
+      label = `${label}: ${days.join(", ")}`;
+    }
+    return label;
+  };
+
+  const getUserName = (option: (typeof users)[number]) =>
+    option.full_name ||
+    [option.first_name, option.last_name].filter(Boolean).join(" ") ||
+    option.email;
+
+  const reset = () => {
+    setText("");
+    setOverrides({});
+    setRemovedTags([]);
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!parsed.title || isSubmitting) return;
+
+    const payload: TaskCreate = {
+      title: parsed.title,
+      description: "",
+      status: "todo",
+      priority: priority ?? "medium",
+      assigned_to_id: assignee?.id ?? null,
+      due_date: dueDate?.toISOString(),
+      start_at: dueDate && hasTime ? dueDate.toISOString() : undefined,
+      tag_ids: tags.flatMap(({ tag }) => (tag ? [tag.id] : [])),
+      recurrence_rule: rrule ?? null,
+      recurrence_mode: rrule ? DEFAULT_RECURRENCE_MODE : null,
+      metadata: { source: "quick_capture" },
+    };
+
+    setIsSubmitting(true);
+    try {
+      const response = await createTask.mutateAsync(payload);
+      const taskId = response.data.id;
+
+      if (assignee && user?.id) {
+        await createAssignment(taskId, {
+          task_id: taskId,
+          assigned_to_id: assignee.id,
+          created_by_id: user.id,
+        });
+      }
+
+      showToast(t("tasks.quickCapture.created"), "success");
+      reset();
+      onTaskCreated?.(taskId);
+    } catch (error) {
+      console.error("Error al crear tarea:", error);
+      showToast(t("tasks.quickCapture.error"), "error");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const hasChips =
+    Boolean(dueDate || priority || parsed.assignee || rrule) || tags.length > 0;
+
+  return (
+    <form onSubmit={(event) => void handleSubmit(event)} className="space-y-2">
+      <div className="flex gap-2">
+        <Input
+          id="quick-capture"
+          value={text}
+          onChange={(event) => setText(event.target.value)}
+          placeholder={t("tasks.quickCapture.placeholder")}
+          aria-label={t("tasks.quickCapture.label")}
+          autoFocus={autoFocus}
+          disabled={isSubmitting}
+        />
+        <Button type="submit" disabled={!parsed.title || isSubmitting}>
+          {t("tasks.quickCapture.create")}
+        </Button>
+      </div>
+
+      {hasChips && (
+        <div className="flex flex-wrap items-center gap-1.5">
+          {dueDate && (
+            <CaptureChip
+              icon={<Calendar className="h-3 w-3" />}
+              label={format(dueDate, hasTime ? "PPp" : "PP", {
+                locale: dateLocale,
+              })}
+              removeLabel={t("tasks.quickCapture.remove")}
+              onRemove={() => {
+                setOverride("date", null);
+                removeTokens(tokensOf("date", "time"));
+              }}
+            >
+              <Input
+                type="datetime-local"
+                aria-label={t("tasks.quickCapture.dueDate")}
+                value={format(dueDate, DATE_INPUT_FORMAT)}
+                onChange={(event) =>
+                  setOverride("date", event.target.value || null)
+                }
+              />
+            </CaptureChip>
+          )}
+
+          {priority && (
+            <CaptureChip
+              icon={<Flag className="h-3 w-3" />}
+              label={t(`tasks.priorities.${priority}`)}
+              removeLabel={t("tasks.quickCapture.remove")}
+              onRemove={() => removeTokens(tokensOf("priority"))}
+            >
+              <Select
+                value={priority}
+                onValueChange={(value) => setOverride("priority", value)}
+              >
+                <SelectTrigger aria-label={t("tasks.priorities.title")}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PRIORITIES.map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {t(`tasks.priorities.${option}`)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </CaptureChip>
+          )}
+
+          {tags.map(({ name, tag }) => (
+            <CaptureChip
+              key={name}
+              icon={<Hash className="h-3 w-3" />}
+              label={tag?.name ?? name}
+              color={tag?.color}
+              invalid={!tag}
+              invalidLabel={t("tasks.quickCapture.tagNotFound")}
+              removeLabel={t("tasks.quickCapture.remove")}
+              onRemove={() => setRemovedTags((prev) => [...prev, name])}
+            />
+          ))}
+
+          {parsed.assignee && (
+            <CaptureChip
+              icon={<AtSign className="h-3 w-3" />}
+              label={assignee ? getUserName(assignee) : parsed.assignee}
+              invalid={!assignee}
+              invalidLabel={t("tasks.quickCapture.userNotFound")}
+              removeLabel={t("tasks.quickCapture.remove")}
+              onRemove={() => removeTokens(tokensOf("assignee"))}
+            >
+              <Select
+                value={assignee?.id}
+                onValueChange={(value) => setOverride("assignee", value)}
+              >
+                <SelectTrigger aria-label={t("tasks.quickCapture.assignee")}>
+                  <SelectValue
+                    placeholder={t("tasks.quickCapture.selectUser")}
+                  />
+                </SelectTrigger>
+                <SelectContent>
+                  {users.map((option) => (
+                    <SelectItem key={option.id} value={option.id}>
+                      {getUserName(option)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </CaptureChip>
+          )}
+
+          {rrule && (
+            <CaptureChip
+              icon={<Repeat className="h-3 w-3" />}
+              label={formatRecurrence(rrule)}
+              removeLabel={t("tasks.quickCapture.remove")}
+              onRemove={() => {
+                setOverride("recurrence", null);
+                removeTokens(tokensOf("recurrence"));
+              }}
+            >
+              <Select
+                value={rrule}
+                onValueChange={(value) => setOverride("recurrence", value)}
+              >
+                <SelectTrigger aria-label={t("tasks.quickCapture.repeat")}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {[...new Set([rrule, ...RECURRENCE_PRESETS])].map(
+                    (option) => (
+                      <SelectItem key={option} value={option}>
+                        {formatRecurrence(option)}
+                      </SelectItem>
+                    )
+                  )}
+                </SelectContent>
+              </Select>
+            </CaptureChip>
+          )}
+        </div>
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        {t("tasks.quickCapture.hint")}
+      </p>
+    </form>
+  );
+}
+
+interface CaptureChipProps {
+  icon: ReactNode;
+  label: string;
+  color?: string | null;
+  invalid?: boolean;
+  invalidLabel?: string;
+  removeLabel: string;
+  onRemove: () => void;
+  children?: ReactNode;
+}
+
+/**
+ * Parsed field chip; opens an inline editor when it has one
+ */
+function CaptureChip({
+  icon,
+  label,
+  color,
+  invalid = false,
+  invalidLabel,
+  removeLabel,
+  onRemove,
+  children,
+}: CaptureChipProps) {
+  const chipClassName = cn(
+    "inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs",
+    invalid
+      ? "border-dashed border-destructive/60 text-destructive"
+      : "bg-secondary text-secondary-foreground"
+  );
+
+  const content = (
+    <>
+      {invalid ? <AlertCircle className="h-3 w-3" /> : icon}
+      {color && (
+        <span
+          className="h-2 w-2 rounded-full"
+          style={{ backgroundColor: color }}
+        />
+      )}
+      <span>{label}</span>
+    </>
+  );
+
+  return (
+    <span className={chipClassName} title={invalid ? invalidLabel : undefined}>
+      {children ? (
+        <Popover>
+          <PopoverTrigger asChild>
+            <button type="button" className="inline-flex items-center gap-1">
+              {content}
+            </button>
+          </PopoverTrigger>
+          <PopoverContent className="w-64 p-3" align="start">
+            {children}
+          </PopoverContent>
+        </Popover>
+      ) : (
+        content
+      )}
+      <button
+        type="button"
+        onClick={onRemove}
+        aria-label={removeLabel}
+        className="rounded-full opacity-60 hover:opacity-100"
+      >
+        <X className="h-3 w-3" />
+      </button>
+    </span>
+  );
+}
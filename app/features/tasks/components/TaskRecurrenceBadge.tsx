@@ -0,0 +1,87 @@
+/**
+ * TaskRecurrenceBadge component
+ * Marks a recurring task and previews its upcoming occurrences
+ */
+
+import { useMemo } from "react";
+import { format } from "date-fns";
+import { es, enUS } from "date-fns/locale";
+import { Repeat } from "lucide-react";
+import { useTranslation } from "~/lib/i18n/useTranslation";
+import { Badge } from "~/components/ui/badge";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "~/components/ui/popover";
+import { formatRecurrence } from "~/features/calendar/utils/recurrence";
+import {
+  DEFAULT_RECURRENCE_MODE,
+  getUpcomingOccurrences,
+  rruleToRecurrenceConfig,
+} from "../utils/taskRecurrence";
+import type { Task } from "../types/task.types";
+
+const PREVIEW_COUNT = 5;
+
+interface TaskRecurrenceBadgeProps {
+  task: Task;
+}
+
+export function TaskRecurrenceBadge({ task }: TaskRecurrenceBadgeProps) {
+  const { t, language } = useTranslation();
+  const dateLocale = language === "en" ? enUS : es;
+
+  const config = useMemo(
+    () => rruleToRecurrenceConfig(task.recurrence_rule),
+    [task.recurrence_rule]
+  );
+
+  const occurrences = useMemo(
+    () => getUpcomingOccurrences(task, PREVIEW_COUNT),
+    [task]
+  );
+
+  if (!config) return null;
+
+  const mode = task.recurrence_mode ?? DEFAULT_RECURRENCE_MODE;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className="ml-2 align-middle"
+          aria-label={t("tasks.recurrence.upcoming")}
+          onClick={(e) => e.stopPropagation()}
+        >
+          <Badge variant="outline" className="gap-1 px-1.5 py-0 text-[10px]">
+            <Repeat className="h-3 w-3" />
+            {formatRecurrence(config, t)}
+          </Badge>
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 p-3" align="start">
+        <p className="text-sm font-medium">{t("tasks.recurrence.upcoming")}</p>
+        <p className="mb-2 text-xs text-muted-foreground">
+          {mode === "on_completion"
+            ? t("tasks.recurrence.onCompletionHint")
+            : t("tasks.recurrence.fixedScheduleHint")}
+        </p>
+        {occurrences.length > 0 ? (
+          <ul className="space-y-1 text-sm">
+            {occurrences.map((date) => (
+              <li key={date.toISOString()}>
+                {format(date, "EEE PP", { locale: dateLocale })}
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            {t("tasks.recurrence.ended")}
+          </p>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,82 @@
+/**
+ * TaskRecurrenceFields component
+ * Recurrence settings for tasks, reusing the calendar RecurrenceEditor
+ */
+
+import { useTranslation } from "~/lib/i18n/useTranslation";
+import { Label } from "~/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import { RecurrenceEditor } from "~/features/calendar/components/RecurrenceEditor";
+import {
+  DEFAULT_RECURRENCE_MODE,
+  recurrenceConfigToRRule,
+  rruleToRecurrenceConfig,
+} from "../utils/taskRecurrence";
+import type { TaskRecurrenceMode } from "../types/task.types";
+
+interface TaskRecurrenceFieldsProps {
+  rule: string | null;
+  mode: TaskRecurrenceMode | null;
+  startDate?: Date;
+  onChange: (rule: string | null, mode: TaskRecurrenceMode | null) => void;
+}
+
+export function TaskRecurrenceFields({
+  rule,
+  mode,
+  startDate,
+  onChange,
+}: TaskRecurrenceFieldsProps) {
+  const { t } = useTranslation();
+  const currentMode = mode ?? DEFAULT_RECURRENCE_MODE;
+
+  return (
+    <div className="space-y-3">
+      <RecurrenceEditor
+        value={rruleToRecurrenceConfig(rule)}
+        startDate={startDate}
+        onChange={(config) => {
+          const nextRule = recurrenceConfigToRRule(config, startDate);
+          onChange(nextRule, nextRule ? currentMode : null);
+        }}
+      />
+
+      {rule && (
+        <div className="space-y-2">
+          <Label htmlFor="task-recurrence-mode">
+            {t("tasks.recurrence.mode")}
+          </Label>
+          <Select
+            value={currentMode}
+            onValueChange={(value) =>
+              onChange(rule, value as TaskRecurrenceMode)
+            }
+          >
+            <SelectTrigger id="task-recurrence-mode">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="on_completion">
+                {t("tasks.recurrence.modes.onCompletion")}
+              </SelectItem>
+              <SelectItem value="fixed_schedule">
+                {t("tasks.recurrence.modes.fixedSchedule")}
+              </SelectItem>
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            {currentMode === "on_completion"
+              ? t("tasks.recurrence.onCompletionHint")
+              : t("tasks.recurrence.fixedScheduleHint")}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,284 @@
+/**
+ * TemplateInstantiateForm component
+ * Prompts for the variables, start date and role assignees of a template and
+ * previews the task tree it will create
+ */
+
+import { useMemo, useState } from "react";
+import { format, parseISO, startOfDay } from "date-fns";
+import { es, enUS } from "date-fns/locale";
+import { GitBranch, User } from "lucide-react";
+import { useTranslation } from "~/lib/i18n/useTranslation";
+import { Badge } from "~/components/ui/badge";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import { ScrollArea } from "~/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import { useUsers } from "~/features/users/hooks/useUsers";
+import {
+  buildTemplatePlan,
+  getMissingVariables,
+  getTemplateRoles,
+  getTemplateVariables,
+  validateTemplate,
+  type TemplateTaskPlan,
+} from "../utils/taskTemplates";
+import type { TaskTemplate } from "../types/task.types";
+
+const UNASSIGNED = "__unassigned__";
+
+interface TemplateInstantiateFormProps {
+  template: TaskTemplate;
+  onSubmit: (plan: TemplateTaskPlan[]) => void;
+  onCancel: () => void;
+  isSubmitting?: boolean;
+}
+
+export function TemplateInstantiateForm({
+  template,
+  onSubmit,
+  onCancel,
+  isSubmitting = false,
+}: TemplateInstantiateFormProps) {
+  const { t, language } = useTranslation();
+  const dateLocale = language === "en" ? enUS : es;
+  const { users } = useUsers({ page_size: 100 });
+
+  const variables = useMemo(() => getTemplateVariables(template), [template]);
+  const roles = useMemo(() => getTemplateRoles(template), [template]);
+  const issues = useMemo(() => validateTemplate(template), [template]);
+
+  const [title, setTitle] = useState("");
+  const [startDate, setStartDate] = useState(() =>
+    format(new Date(), "yyyy-MM-dd")
+  );
+  const [values, setValues] = useState<Record<string, string>>(() =>
+    Object.fromEntries(
+      variables.map((variable) => [variable.key, variable.default_value ?? ""])
+    )
+  );
+  const [roleAssignments, setRoleAssignments] = useState<
+    Record<string, string>
+  >({});
+
+  const userNames = useMemo(
+    () =>
+      new Map(
+        users.map((u) => [
+          u.id,
+          `${u.first_name ?? ""} ${u.last_name ?? ""}`.trim() || u.email,
+        ])
+      ),
+    [users]
+  );
+
+  const plan = useMemo(
+    () =>
+      buildTemplatePlan(template, {
+        startDate: startOfDay(startDate ? parseISO(startDate) : new Date()),
+        values,
+        roleAssignments,
+        title,
+      }),
+    [template, startDate, values, roleAssignments, title]
+  );
+
+  const missing = getMissingVariables(variables, values);
+  const canSubmit =
+    !isSubmitting && !!startDate && missing.length === 0 && issues.length === 0;
+
+  const formatDate = (value?: string | null) =>
+    value ? format(parseISO(value), "d MMM", { locale: dateLocale }) : "—";
+
+  return (
+    <form
+      className="space-y-6"
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (canSubmit) onSubmit(plan);
+      }}
+    >
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="template-title">
+            {t("tasks.templates.tree.title")}
+          </Label>
+          <Input
+            id="template-title"
+            value={title}
+            placeholder={plan[0]?.payload.title}
+            onChange={(e) => setTitle(e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="template-start">
+            {t("tasks.templates.tree.startDate")}
+          </Label>
+          <Input
+            id="template-start"
+            type="date"
+            value={startDate}
+            onChange={(e) => setStartDate(e.target.value)}
+            required
+          />
+        </div>
+      </div>
+
+      {variables.length > 0 && (
+        <div className="space-y-3">
+          <h4 className="text-sm font-semibold">
+            {t("tasks.templates.tree.variables")}
+          </h4>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {variables.map((variable) => (
+              <div key={variable.key} className="space-y-2">
+                <Label htmlFor={`template-var-${variable.key}`}>
+                  {variable.label}
+                  {variable.required !== false && " *"}
+                </Label>
+                <Input
+                  id={`template-var-${variable.key}`}
+                  type={variable.type ?? "text"}
+                  value={values[variable.key] ?? ""}
+                  onChange={(e) =>
+                    setValues((prev) => ({
+                      ...prev,
+                      [variable.key]: e.target.value,
+                    }))
+                  }
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {roles.length > 0 && (
+        <div className="space-y-3">
+          <h4 className="text-sm font-semibold">
+            {t("tasks.templates.tree.roles")}
+          </h4>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {roles.map((role) => (
+              <div key={role} className="space-y-2">
+                <Label>{role}</Label>
+                <Select
+                  value={roleAssignments[role] ?? UNASSIGNED}
+                  onValueChange={(value) =>
+                    setRoleAssignments((prev) => {
+                      const next = { ...prev };
+                      if (value === UNASSIGNED) {
+                        delete next[role];
+                      } else {
+                        next[role] = value;
+                      }
+                      return next;
+                    })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={UNASSIGNED}>
+                      {t("tasks.templates.tree.unassigned")}
+                    </SelectItem>
+                    {Array.from(userNames).map(([id, name]) => (
+                      <SelectItem key={id} value={id}>
+                        {name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {issues.length > 0 && (
+        <div className="rounded-md border border-destructive/50 bg-destructive/10 p-3 text-sm text-destructive space-y-1">
+          {issues.map((issue, index) => (
+            <p key={`${issue.type}-${issue.key}-${index}`}>
+              {t(`tasks.templates.tree.issues.${issue.type}`).replace(
+                "{key}",
+                issue.key
+              )}
+            </p>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <h4 className="text-sm font-semibold">
+          {t("tasks.templates.tree.preview").replace(
+            "{count}",
+            String(plan.length)
+          )}
+        </h4>
+        <ScrollArea className="h-64 rounded-md border">
+          <ul className="divide-y text-sm">
+            {plan.map((item) => (
+              <li
+                key={item.key}
+                className="flex items-center gap-3 py-2 pr-3"
+                style={{ paddingLeft: 12 + item.depth * 20 }}
+              >
+                <span
+                  className={
+                    item.depth === 0 ? "font-semibold flex-1" : "flex-1"
+                  }
+                >
+                  {item.payload.title}
+                </span>
+                {item.dependsOn.length > 0 && (
+                  <Badge variant="outline" className="gap-1">
+                    <GitBranch className="h-3 w-3" />
+                    {item.dependsOn.length}
+                  </Badge>
+                )}
+                {item.payload.assigned_to_id && (
+                  <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                    <User className="h-3 w-3" />
+                    {userNames.get(item.payload.assigned_to_id)}
+                  </span>
+                )}
+                <span className="text-xs text-muted-foreground whitespace-nowrap">
+                  {formatDate(item.payload.start_at)} →{" "}
+                  {formatDate(item.payload.due_date)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </ScrollArea>
+      </div>
+
+      {missing.length > 0 && (
+        <p className="text-sm text-muted-foreground">
+          {t("tasks.templates.tree.missingVariables")}
+        </p>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="outline" onClick={onCancel}>
+          {t("common.cancel")}
+        </Button>
+        <Button type="submit" disabled={!canSubmit}>
+          {isSubmitting
+            ? t("tasks.templates.tree.creating")
+            : t("tasks.templates.tree.create").replace(
+                "{count}",
+                String(plan.length)
+              )}
+        </Button>
+      </div>
+    </form>
+  );
+}
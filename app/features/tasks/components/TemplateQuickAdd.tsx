@@ -8,7 +8,13 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from "~/components/u
 import { Button } from "~/components/ui/button";
 import { TemplateSelector } from "./TemplateSelector";
 import { TaskForm } from "./TaskForm";
-import { useCreateTaskFromTemplate } from "../hooks/useTaskTemplates";
+import { TemplateInstantiateForm } from "./TemplateInstantiateForm";
+import {
+  useCreateTaskFromTemplate,
+  useInstantiateTemplate,
+} from "../hooks/useTaskTemplates";
+import { isTreeTemplate, type TemplateTaskPlan } from "../utils/taskTemplates";
+import { showToast } from "~/components/common/Toast";
 import type { TaskTemplate, TaskCreate } from "../types/task.types";
 
 interface TemplateQuickAddProps {
@@ -21,6 +27,7 @@ export function TemplateQuickAdd({ open, onOpenChange, onSuccess }: TemplateQuic
   const [selectedTemplate, setSelectedTemplate] = useState<TaskTemplate | null>(null);
   const [showForm, setShowForm] = useState(false);
   const createFromTemplate = useCreateTaskFromTemplate();
+  const instantiateTemplate = useInstantiateTemplate();
 
   const handleTemplateSelect = (template: TaskTemplate) => {
     setSelectedTemplate(template);
@@ -65,6 +72,22 @@ export function TemplateQuickAdd({ open, onOpenChange, onSuccess }: TemplateQuic
     }
   };
 
+  // Templates with subtasks, variables or roles create the whole tree at once
+  const handleTreeSubmit = async (plan: TemplateTaskPlan[]) => {
+    try {
+      const created = await instantiateTemplate.mutateAsync(plan);
+      showToast(`${created.length} tareas creadas desde el template`, "success");
+
+      setShowForm(false);
+      setSelectedTemplate(null);
+      onOpenChange(false);
+      onSuccess?.();
+    } catch (error) {
+      console.error("Error creating task tree from template:", error);
+      showToast("No se pudieron crear las tareas del template", "error");
+    }
+  };
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
@@ -96,18 +119,27 @@ export function TemplateQuickAdd({ open, onOpenChange, onSuccess }: TemplateQuic
               )}
             </div>
 
-            {/* Task form with template defaults */}
-            <TaskForm
-              initialData={{
-                title: selectedTemplate.name,
-                description: selectedTemplate.description,
-                checklist: selectedTemplate.checklist_items || [],
-              }}
-              onSubmit={handleFormSubmit}
-              onCancel={handleBack}
-              submitLabel="Crear Tarea"
-              isSubmitting={createFromTemplate.isPending}
-            />
+            {isTreeTemplate(selectedTemplate) ? (
+              <TemplateInstantiateForm
+                template={selectedTemplate}
+                onSubmit={(plan) => void handleTreeSubmit(plan)}
+                onCancel={handleBack}
+                isSubmitting={instantiateTemplate.isPending}
+              />
+            ) : (
+              /* Task form with template defaults */
+              <TaskForm
+                initialData={{
+                  title: selectedTemplate.name,
+                  description: selectedTemplate.description,
+                  checklist: selectedTemplate.checklist_items || [],
+                }}
+                onSubmit={handleFormSubmit}
+                onCancel={handleBack}
+                submitLabel="Crear Tarea"
+                isSubmitting={createFromTemplate.isPending}
+              />
+            )}
 
             <div className="flex justify-between pt-4">
               <Button variant="outline" onClick={handleBack}>
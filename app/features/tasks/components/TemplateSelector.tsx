@@ -9,6 +9,10 @@ import { Badge } from "~/components/ui/badge";
 import { ScrollArea } from "~/components/ui/scroll-area";
 import { Skeleton } from "~/components/ui/skeleton";
 import { useTaskTemplates } from "../hooks/useTaskTemplates";
+import {
+  flattenTemplateNodes,
+  getTemplateVariables,
+} from "../utils/taskTemplates";
 import type { TaskTemplate } from "../types/task.types";
 
 interface TemplateSelectorProps {
@@ -108,6 +112,17 @@ export function TemplateSelector({ onSelect, onCancel }: TemplateSelectorProps)
                     </div>
                   )}
 
+                  {/* Subtask tree and variables */}
+                  {(template.subtasks?.length ?? 0) > 0 && (
+                    <div className="text-xs text-muted-foreground">
+                      <span className="font-medium">
+                        {flattenTemplateNodes(template.subtasks).length} subtareas
+                      </span>
+                      {getTemplateVariables(template).length > 0 &&
+                        ` · ${getTemplateVariables(template).length} variables`}
+                    </div>
+                  )}
+
                   {/* Usage count */}
                   {template.usage_count !== undefined && template.usage_count > 0 && (
                     <div className="text-xs text-muted-foreground">
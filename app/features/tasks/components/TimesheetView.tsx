@@ -0,0 +1,520 @@
+/**
+ * TimesheetView component
+ * Weekly timesheet grid (tasks x days) for manual hour entry, validated
+ * against the daily limit and submitted for approval
+ */
+
+import { useEffect, useMemo, useState } from "react";
+import { addWeeks, format, isToday } from "date-fns";
+import { es, enUS } from "date-fns/locale";
+import { ChevronLeft, ChevronRight, Plus, Send, Trash2 } from "lucide-react";
+import { useTranslation } from "~/lib/i18n/useTranslation";
+import { Badge } from "~/components/ui/badge";
+import { Button } from "~/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "~/components/ui/card";
+import { Input } from "~/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "~/components/ui/table";
+import { showToast } from "~/components/common/Toast";
+import { cn } from "~/lib/utils";
+import {
+  useApprovalFlows,
+  useEntityApprovalStatus,
+} from "~/features/approvals/hooks/useApprovals";
+import {
+  useSaveTimesheet,
+  useSubmitTimesheet,
+  useTimesheet,
+} from "../hooks/useTimesheet";
+import {
+  DEFAULT_DAILY_LIMIT_HOURS,
+  TIMESHEET_ENTITY_TYPE,
+  entriesToGrid,
+  getDayTotals,
+  getRowTotal,
+  getWeekDays,
+  getWeekStart,
+  gridToEntries,
+  isTimesheetEditable,
+  parseHoursInput,
+  resolveTimesheetStatus,
+  setGridHours,
+  validateTimesheet,
+  type TimesheetGrid,
+} from "../utils/timesheet";
+import { toDayKey } from "../utils/workload";
+import type { Task, TimesheetStatus } from "../types/task.types";
+
+interface TimesheetViewProps {
+  tasks: Task[];
+  dailyLimit?: number;
+}
+
+const statusClasses: Record<TimesheetStatus, string> = {
+  draft: "bg-muted text-muted-foreground",
+  submitted:
+    "border-yellow-500/30 bg-yellow-500/10 text-yellow-700 dark:text-yellow-400",
+  approved:
+    "border-green-500/30 bg-green-500/10 text-green-700 dark:text-green-400",
+  rejected: "border-red-500/30 bg-red-500/10 text-red-700 dark:text-red-400",
+};
+
+const cellKey = (taskId: string, dayKey: string) => `${taskId}:${dayKey}`;
+
+export function TimesheetView({
+  tasks,
+  dailyLimit = DEFAULT_DAILY_LIMIT_HOURS,
+}: TimesheetViewProps) {
+  const { t, language } = useTranslation();
+  const dateLocale = language === "en" ? enUS : es;
+
+  const [weekStart, setWeekStart] = useState(() => getWeekStart(new Date()));
+  const weekKey = toDayKey(weekStart);
+  const days = useMemo(() => getWeekDays(weekStart), [weekStart]);
+  const weekLabel = `${format(days[0]!, "PP", { locale: dateLocale })} – ${format(days[6]!, "PP", { locale: dateLocale })}`;
+
+  const { data, isLoading } = useTimesheet(weekKey);
+  const timesheet = data?.data ?? null;
+  const saveMutation = useSaveTimesheet();
+  const submitMutation = useSubmitTimesheet();
+  const { data: approvalStatusData } = useEntityApprovalStatus(
+    TIMESHEET_ENTITY_TYPE,
+    timesheet?.approval_request_id ? timesheet.id : ""
+  );
+  const { data: flowsData } = useApprovalFlows({
+    module: "tasks",
+    is_active: true,
+  });
+  const flows = flowsData?.data ?? [];
+
+  const [grid, setGrid] = useState<TimesheetGrid>({});
+  const [rowIds, setRowIds] = useState<string[]>([]);
+  // Raw text of cells that do not hold a valid amount of hours
+  const [invalidCells, setInvalidCells] = useState<Record<string, string>>({});
+  const [isDirty, setIsDirty] = useState(false);
+  const [selectedFlowId, setSelectedFlowId] = useState<string>("");
+  const flowId = selectedFlowId || flows[0]?.id || "";
+
+  // Load the stored entries whenever the week or its server copy changes
+  // (query results keep their identity while the data is unchanged)
+  useEffect(() => {
+    const entries = timesheet?.entries ?? [];
+    setGrid(entriesToGrid(entries));
+    setRowIds([...new Set(entries.map((entry) => entry.task_id))]);
+    setInvalidCells({});
+    setIsDirty(false);
+  }, [timesheet]);
+
+  const status = resolveTimesheetStatus(
+    timesheet?.status ?? "draft",
+    approvalStatusData?.data?.status
+  );
+  const editable = isTimesheetEditable(status);
+
+  const taskById = useMemo(
+    () => new Map(tasks.map((task) => [task.id, task])),
+    [tasks]
+  );
+  const availableTasks = tasks.filter((task) => !rowIds.includes(task.id));
+  const dayTotals = getDayTotals(grid, days);
+  const weekTotal = Object.values(dayTotals).reduce((acc, h) => acc + h, 0);
+  const violations = validateTimesheet(grid, days, dailyLimit);
+  const hasInvalidCells = Object.keys(invalidCells).length > 0;
+
+  const handleCellChange = (taskId: string, dayKey: string, value: string) => {
+    const key = cellKey(taskId, dayKey);
+    const hours = parseHoursInput(value);
+    setIsDirty(true);
+
+    if (hours === null || hours > 24) {
+      setInvalidCells((prev) => ({ ...prev, [key]: value }));
+      return;
+    }
+
+    setInvalidCells((prev) => {
+      const next = { ...prev };
+      delete next[key];
+      return next;
+    });
+    setGrid((prev) => setGridHours(prev, taskId, dayKey, hours));
+  };
+
+  const handleAddRow = (taskId: string) => {
+    setRowIds((prev) => [...prev, taskId]);
+  };
+
+  const handleRemoveRow = (taskId: string) => {
+    setRowIds((prev) => prev.filter((id) => id !== taskId));
+    setGrid((prev) => {
+      const next = { ...prev };
+      delete next[taskId];
+      return next;
+    });
+    setInvalidCells((prev) =>
+      Object.fromEntries(
+        Object.entries(prev).filter(([key]) => !key.startsWith(`${taskId}:`))
+      )
+    );
+    setIsDirty(true);
+  };
+
+  const handleSave = () => {
+    if (!timesheet) return;
+    if (hasInvalidCells) {
+      showToast(t("tasks.timesheet.invalidHours"), "error");
+      return;
+    }
+
+    saveMutation.mutate(
+      { timesheetId: timesheet.id, entries: gridToEntries(grid) },
+      {
+        onSuccess: () => {
+          setIsDirty(false);
+          showToast(t("tasks.timesheet.saved"), "success");
+        },
+        onError: () => showToast(t("tasks.timesheet.saveError"), "error"),
+      }
+    );
+  };
+
+  const handleSubmit = () => {
+    if (!timesheet) return;
+
+    const entries = gridToEntries(grid);
+    if (hasInvalidCells) {
+      showToast(t("tasks.timesheet.invalidHours"), "error");
+      return;
+    }
+    if (violations.length > 0) {
+      showToast(
+        t("tasks.timesheet.dailyLimitExceeded").replace(
+          "{limit}",
+          String(dailyLimit)
+        ),
+        "error"
+      );
+      return;
+    }
+    if (entries.length === 0) {
+      showToast(t("tasks.timesheet.empty"), "error");
+      return;
+    }
+    if (!flowId) {
+      showToast(t("tasks.timesheet.noFlow"), "error");
+      return;
+    }
+
+    submitMutation.mutate(
+      {
+        timesheet,
+        entries,
+        flowId,
+        title: t("tasks.timesheet.approvalTitle").replace("{week}", weekLabel),
+      },
+      {
+        onSuccess: () => {
+          setIsDirty(false);
+          showToast(t("tasks.timesheet.submitted"), "success");
+        },
+        onError: () => showToast(t("tasks.timesheet.submitError"), "error"),
+      }
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader className="space-y-3">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="flex items-center gap-2">
+            <CardTitle className="text-lg">
+              {t("tasks.timesheet.title")}
+            </CardTitle>
+            <Badge variant="outline" className={statusClasses[status]}>
+              {t(`tasks.timesheet.statuses.${status}`)}
+            </Badge>
+          </div>
+
+          <div className="flex items-center gap-1">
+            <Button
+              variant="outline"
+              size="icon"
+              className="h-8 w-8"
+              onClick={() => setWeekStart((prev) => addWeeks(prev, -1))}
+              aria-label={t("tasks.timesheet.previousWeek")}
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-8"
+              onClick={() => setWeekStart(getWeekStart(new Date()))}
+            >
+              {t("tasks.timesheet.thisWeek")}
+            </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              className="h-8 w-8"
+              onClick={() => setWeekStart((prev) => addWeeks(prev, 1))}
+              aria-label={t("tasks.timesheet.nextWeek")}
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+            <span className="ml-2 text-sm text-muted-foreground">
+              {weekLabel}
+            </span>
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {t("tasks.timesheet.hint").replace("{limit}", String(dailyLimit))}
+        </p>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            {t("common.loading")}
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="min-w-[200px]">
+                  {t("tasks.timesheet.task")}
+                </TableHead>
+                {days.map((day) => (
+                  <TableHead
+                    key={day.toISOString()}
+                    className={cn(
+                      "w-20 text-center",
+                      isToday(day) && "text-primary"
+                    )}
+                  >
+                    <div className="capitalize">
+                      {format(day, "EEE", { locale: dateLocale })}
+                    </div>
+                    <div className="text-xs font-normal">
+                      {format(day, "d MMM", { locale: dateLocale })}
+                    </div>
+                  </TableHead>
+                ))}
+                <TableHead className="w-20 text-right">
+                  {t("tasks.timesheet.total")}
+                </TableHead>
+                <TableHead className="w-10" />
+              </TableRow>
+            </TableHeader>
+
+            <TableBody>
+              {rowIds.length === 0 && (
+                <TableRow>
+                  <TableCell
+                    colSpan={days.length + 3}
+                    className="py-6 text-center text-sm text-muted-foreground"
+                  >
+                    {t("tasks.timesheet.noRows")}
+                  </TableCell>
+                </TableRow>
+              )}
+              {rowIds.map((taskId) => (
+                <TableRow key={taskId}>
+                  <TableCell className="max-w-[260px] truncate font-medium">
+                    {taskById.get(taskId)?.title ??
+                      t("tasks.timesheet.unknownTask")}
+                  </TableCell>
+                  {days.map((day) => {
+                    const dayKey = toDayKey(day);
+                    const key = cellKey(taskId, dayKey);
+                    const invalid = key in invalidCells;
+                    const hours = grid[taskId]?.[dayKey] ?? 0;
+
+                    return (
+                      <TableCell key={dayKey} className="p-1">
+                        <Input
+                          value={
+                            invalid
+                              ? invalidCells[key]
+                              : hours
+                                ? String(hours)
+                                : ""
+                          }
+                          onChange={(e) =>
+                            handleCellChange(taskId, dayKey, e.target.value)
+                          }
+                          disabled={!editable}
+                          inputMode="decimal"
+                          placeholder="0"
+                          aria-label={`${taskById.get(taskId)?.title ?? taskId} ${dayKey}`}
+                          aria-invalid={invalid}
+                          className={cn(
+                            "h-8 text-center",
+                            invalid &&
+                              "border-destructive focus-visible:ring-destructive"
+                          )}
+                        />
+                      </TableCell>
+                    );
+                  })}
+                  <TableCell className="text-right font-medium">
+                    {getRowTotal(grid, taskId)}
+                  </TableCell>
+                  <TableCell className="p-1">
+                    {editable && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => handleRemoveRow(taskId)}
+                        aria-label={t("tasks.timesheet.removeRow")}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+
+            <TableFooter>
+              <TableRow>
+                <TableCell>{t("tasks.timesheet.dailyTotal")}</TableCell>
+                {days.map((day) => {
+                  const dayKey = toDayKey(day);
+                  const total = dayTotals[dayKey] ?? 0;
+                  return (
+                    <TableCell
+                      key={dayKey}
+                      className={cn(
+                        "text-center",
+                        total > dailyLimit && "text-destructive"
+                      )}
+                      title={
+                        total > dailyLimit
+                          ? t("tasks.timesheet.dailyLimitExceeded").replace(
+                              "{limit}",
+                              String(dailyLimit)
+                            )
+                          : undefined
+                      }
+                    >
+                      {total}
+                    </TableCell>
+                  );
+                })}
+                <TableCell className="text-right">
+                  {Math.round(weekTotal * 100) / 100}
+                </TableCell>
+                <TableCell />
+              </TableRow>
+            </TableFooter>
+          </Table>
+        )}
+
+        {violations.length > 0 && (
+          <p className="text-sm text-destructive">
+            {t("tasks.timesheet.dailyLimitExceeded").replace(
+              "{limit}",
+              String(dailyLimit)
+            )}
+          </p>
+        )}
+
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          {editable ? (
+            <Select value="" onValueChange={handleAddRow}>
+              <SelectTrigger className="h-8 w-64">
+                <Plus className="mr-1 h-4 w-4" />
+                <SelectValue placeholder={t("tasks.timesheet.addTask")} />
+              </SelectTrigger>
+              <SelectContent>
+                {availableTasks.length === 0 ? (
+                  <div className="px-2 py-1.5 text-sm text-muted-foreground">
+                    {t("tasks.timesheet.noMoreTasks")}
+                  </div>
+                ) : (
+                  availableTasks.map((task) => (
+                    <SelectItem key={task.id} value={task.id}>
+                      {task.title}
+                    </SelectItem>
+                  ))
+                )}
+              </SelectContent>
+            </Select>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              {status === "approved"
+                ? t("tasks.timesheet.approvedHint")
+                : t("tasks.timesheet.submittedHint")}
+            </p>
+          )}
+
+          {editable && (
+            <div className="flex items-center gap-2">
+              {flows.length > 1 && (
+                <Select value={flowId} onValueChange={setSelectedFlowId}>
+                  <SelectTrigger
+                    className="h-8 w-52"
+                    aria-label={t("tasks.timesheet.flow")}
+                  >
+                    <SelectValue placeholder={t("tasks.timesheet.flow")} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {flows.map((flow) => (
+                      <SelectItem key={flow.id} value={flow.id}>
+                        {flow.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleSave}
+                disabled={!timesheet || !isDirty || saveMutation.isPending}
+              >
+                {saveMutation.isPending
+                  ? t("common.saving")
+                  : t("tasks.timesheet.saveDraft")}
+              </Button>
+              <Button
+                size="sm"
+                onClick={handleSubmit}
+                disabled={
+                  !timesheet ||
+                  submitMutation.isPending ||
+                  violations.length > 0 ||
+                  hasInvalidCells
+                }
+              >
+                <Send className="mr-2 h-4 w-4" />
+                {t("tasks.timesheet.submitWeek")}
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {editable && flows.length === 0 && (
+          <p className="text-xs text-muted-foreground">
+            {t("tasks.timesheet.noFlow")}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
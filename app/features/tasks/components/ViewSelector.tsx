@@ -16,17 +16,24 @@ import {
   DropdownMenuTrigger,
 } from "~/components/ui/dropdown-menu";
 import { useSavedViews } from "~/features/tasks/hooks/useSavedViews";
-import type { SavedView } from "~/features/tasks/types/task.types";
+import type {
+  SavedView,
+  TaskGroupBy,
+} from "~/features/tasks/types/task.types";
 
 interface ViewSelectorProps {
   currentFilters: SavedView["filters"];
   currentSort: SavedView["sort_config"];
+  currentColumns?: SavedView["column_config"];
+  currentGroupBy?: TaskGroupBy;
   onApplyView: (view: SavedView) => void;
 }
 
 export function ViewSelector({
   currentFilters,
   currentSort,
+  currentColumns = {},
+  currentGroupBy,
   onApplyView,
 }: ViewSelectorProps) {
   const { t } = useTranslation();
@@ -42,7 +49,8 @@ export function ViewSelector({
       name: trimmed,
       filters: currentFilters,
       sort_config: currentSort,
-      column_config: {},
+      column_config: currentColumns,
+      group_by: currentGroupBy,
       is_default: false,
       is_public: false,
     });
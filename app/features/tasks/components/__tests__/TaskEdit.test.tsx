@@ -36,6 +36,10 @@ vi.mock("~/lib/i18n/useTranslation", () => ({
         "tasks.priorities.urgent": "Urgente",
         "tasks.errors.eventTimesRequired": "Debes indicar inicio y fin",
         "tasks.errors.invalidEventRange": "La hora de fin debe ser posterior",
+        "tasks.dependencies.applyCascade": "Aplicar todos los cambios",
+        "tasks.dependencies.applyTaskOnly": "Mover solo esta tarea",
+        "tasks.dependencies.cascadeTitle": "¿Reprogramar las tareas dependientes?",
+        "tasks.dependencies.cascadeError": "No se pudieron calcular los cambios",
         "common.name": "Nombre",
         "common.cancel": "Cancelar",
         "common.delete": "Eliminar",
@@ -63,6 +67,18 @@ vi.mock("~/features/tasks/hooks/useTasks", () => ({
   useDeleteTask: () => mockDeleteTask(),
 }));
 
+// Cascade preview and rescheduling of dependent tasks
+const mockPreviewCascade = vi.fn();
+const mockReschedule = vi.fn();
+
+vi.mock("~/features/tasks/hooks/useDependencies", () => ({
+  useScheduleCascadePreview: () => ({ mutateAsync: mockPreviewCascade, isPending: false }),
+}));
+
+vi.mock("~/features/tasks/hooks/useReschedule", () => ({
+  useReschedule: () => ({ reschedule: mockReschedule, isApplying: false }),
+}));
+
 vi.mock("~/features/users/hooks/useUsers", () => ({
   useUsers: () => ({
     users: [
@@ -152,6 +168,8 @@ describe("TaskEdit component", () => {
     vi.clearAllMocks();
     mockUpdateTask.mockReturnValue({ mutateAsync: vi.fn().mockResolvedValue({}), isPending: false });
     mockDeleteTask.mockReturnValue({ mutateAsync: vi.fn().mockResolvedValue({}), isPending: false });
+    mockPreviewCascade.mockResolvedValue([]);
+    mockReschedule.mockResolvedValue({ applied: [], failed: [] });
   });
 
   const renderTaskEdit = (task: Task | null = makeTask(), extraProps: Record<string, unknown> = {}) => {
@@ -296,6 +314,104 @@ describe("TaskEdit component", () => {
     });
   });
 
+  describe("Dependent Tasks", () => {
+    const dependent = makeTask({
+      id: "task-456",
+      title: "Tarea dependiente",
+      due_date: "2024-01-12T10:00:00.000Z",
+    });
+    const shift = {
+      task: dependent,
+      from: { start: new Date("2024-01-11T10:00:00.000Z"), end: new Date("2024-01-12T10:00:00.000Z") },
+      to: { start: new Date("2024-01-13T10:00:00.000Z"), end: new Date("2024-01-14T10:00:00.000Z") },
+    };
+
+    const changeDueDate = async (task: Task) => {
+      renderTaskEdit(task);
+      await waitFor(() => expect(screen.getByDisplayValue("Test Task")).toBeInTheDocument());
+      const dueInput = document.querySelector<HTMLInputElement>('input[type="datetime-local"]');
+      fireEvent.change(dueInput!, { target: { value: "2024-01-12T10:00" } });
+      const updateBtn = screen.getAllByRole("button").find((b) => /actualizar/i.test(b.textContent ?? ""));
+      fireEvent.click(updateBtn!);
+    };
+
+    it("saves without preview when the dates did not change", async () => {
+      const mockMutateAsync = vi.fn().mockResolvedValue({});
+      mockUpdateTask.mockReturnValue({ mutateAsync: mockMutateAsync, isPending: false });
+
+      renderTaskEdit(makeTask({ due_date: "2024-01-10T10:00:00.000Z" }));
+      await waitFor(() => expect(screen.getByDisplayValue("Test Task")).toBeInTheDocument());
+      fireEvent.click(screen.getAllByRole("button").find((b) => /actualizar/i.test(b.textContent ?? ""))!);
+
+      await waitFor(() => expect(mockMutateAsync).toHaveBeenCalled());
+      expect(mockPreviewCascade).not.toHaveBeenCalled();
+    });
+
+    it("asks before moving dependents and saves nothing until confirmed", async () => {
+      const mockMutateAsync = vi.fn().mockResolvedValue({});
+      mockUpdateTask.mockReturnValue({ mutateAsync: mockMutateAsync, isPending: false });
+      mockPreviewCascade.mockResolvedValue([shift]);
+
+      const task = makeTask({ due_date: "2024-01-10T10:00:00.000Z" });
+      await changeDueDate(task);
+
+      await screen.findByText("¿Reprogramar las tareas dependientes?");
+      expect(mockPreviewCascade).toHaveBeenCalledWith(expect.objectContaining({ task }));
+      expect(mockMutateAsync).not.toHaveBeenCalled();
+
+      fireEvent.click(screen.getByText("Aplicar todos los cambios"));
+
+      await waitFor(() => expect(mockReschedule).toHaveBeenCalled());
+      expect(mockMutateAsync).toHaveBeenCalledTimes(1);
+      // The edited task is rolled back with its dependents
+      expect(mockReschedule).toHaveBeenCalledWith([{ task: dependent, schedule: shift.to }], [task]);
+    });
+
+    it("moves only the edited task when chosen", async () => {
+      const mockMutateAsync = vi.fn().mockResolvedValue({});
+      mockUpdateTask.mockReturnValue({ mutateAsync: mockMutateAsync, isPending: false });
+      mockPreviewCascade.mockResolvedValue([shift]);
+
+      await changeDueDate(makeTask({ due_date: "2024-01-10T10:00:00.000Z" }));
+
+      fireEvent.click(await screen.findByText("Mover solo esta tarea"));
+
+      await waitFor(() => expect(mockMutateAsync).toHaveBeenCalledTimes(1));
+      expect(mockReschedule).not.toHaveBeenCalled();
+    });
+
+    it("clears the due date without previewing against the old one", async () => {
+      const mockMutateAsync = vi.fn().mockResolvedValue({});
+      mockUpdateTask.mockReturnValue({ mutateAsync: mockMutateAsync, isPending: false });
+      mockPreviewCascade.mockResolvedValue([shift]);
+
+      renderTaskEdit(makeTask({ due_date: "2024-01-10T10:00:00.000Z" }));
+      await waitFor(() => expect(screen.getByDisplayValue("Test Task")).toBeInTheDocument());
+      const dueInput = document.querySelector<HTMLInputElement>('input[type="datetime-local"]');
+      fireEvent.change(dueInput!, { target: { value: "" } });
+      fireEvent.click(screen.getAllByRole("button").find((b) => /actualizar/i.test(b.textContent ?? ""))!);
+
+      await waitFor(() => expect(mockMutateAsync).toHaveBeenCalled());
+      expect(mockPreviewCascade).not.toHaveBeenCalled();
+      expect(mockMutateAsync).toHaveBeenCalledWith(
+        expect.objectContaining({ payload: expect.objectContaining({ due_date: null }) })
+      );
+    });
+
+    it("does not save when the cascade cannot be computed", async () => {
+      const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+      const mockMutateAsync = vi.fn().mockResolvedValue({});
+      mockUpdateTask.mockReturnValue({ mutateAsync: mockMutateAsync, isPending: false });
+      mockPreviewCascade.mockRejectedValue(new Error("Network error"));
+
+      await changeDueDate(makeTask({ due_date: "2024-01-10T10:00:00.000Z" }));
+
+      expect(await screen.findByText("No se pudieron calcular los cambios")).toBeInTheDocument();
+      expect(mockMutateAsync).not.toHaveBeenCalled();
+      consoleSpy.mockRestore();
+    });
+  });
+
   describe("Error Handling", () => {
     it("logs error to console when mutateAsync rejects", async () => {
       const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
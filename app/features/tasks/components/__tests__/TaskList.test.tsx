@@ -0,0 +1,174 @@
+/**
+ * TaskList component tests
+ * Bulk actions on the selected tasks, with partial failures and undo
+ */
+
+import { render, screen, fireEvent, waitFor } from "@testing-library/react";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { TaskAdvancedFilter } from "~/features/tasks/components/TaskList";
+import { resetTaskHistory } from "~/features/tasks/hooks/useTaskHistory";
+import type { ToastAction } from "~/components/common/Toast";
+import type { Task } from "~/features/tasks/types/task.types";
+
+// Use vi.hoisted() so mocks are available when vi.mock factories run
+const { mockGet, mockPost, mockShowToast } = vi.hoisted(() => ({
+  mockGet: vi.fn(),
+  mockPost: vi.fn(),
+  mockShowToast: vi.fn(),
+}));
+
+vi.mock("~/lib/api/client", () => ({
+  default: {
+    get: mockGet,
+    post: mockPost,
+    put: vi.fn(),
+    delete: vi.fn(),
+  },
+}));
+
+vi.mock("~/components/common/Toast", () => ({
+  showToast: mockShowToast,
+}));
+
+vi.mock("~/lib/i18n/useTranslation", () => ({
+  useTranslation: () => ({ t: (key: string) => key, language: "es" }),
+}));
+
+vi.mock("~/features/users/hooks/useUsers", () => ({
+  useUsers: () => ({ users: [] }),
+}));
+
+vi.mock("~/features/tags/hooks/useTags", () => ({
+  useTags: () => ({ data: [] }),
+}));
+
+vi.mock("~/features/tasks/hooks/useSavedViews", () => ({
+  useSavedViews: () => ({
+    views: [],
+    createView: vi.fn(),
+    deleteView: vi.fn(),
+    isCreating: false,
+  }),
+}));
+
+const makeTask = (id: string, title: string): Task => ({
+  id,
+  tenant_id: "tenant-1",
+  title,
+  description: "",
+  assigned_to_id: null,
+  created_by_id: "user-1",
+  status: "todo",
+  priority: "medium",
+  checklist: [],
+  created_at: "2026-03-01T00:00:00Z",
+  updated_at: "2026-03-01T00:00:00Z",
+});
+
+const tasks = [makeTask("task-1", "Informe"), makeTask("task-2", "Factura")];
+
+function renderTaskList() {
+  const queryClient = new QueryClient({
+    defaultOptions: {
+      queries: { retry: false },
+      mutations: { retry: false },
+    },
+  });
+  return render(
+    <QueryClientProvider client={queryClient}>
+      <TaskAdvancedFilter tasks={tasks} />
+    </QueryClientProvider>
+  );
+}
+
+describe("TaskList bulk actions", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resetTaskHistory();
+    mockGet.mockResolvedValue({ data: { data: [] } });
+    mockPost.mockImplementation((url: string) =>
+      Promise.resolve({
+        data: {
+          data:
+            url === "/tasks/bulk/delete"
+              ? {
+                  success_count: 1,
+                  error_count: 1,
+                  errors: ["Factura: bloqueada"],
+                  failed_ids: ["task-2"],
+                }
+              : tasks[0],
+        },
+      })
+    );
+  });
+
+  it("reports partial failures and undoes only the tasks that were deleted", async () => {
+    renderTaskList();
+
+    fireEvent.click(screen.getByLabelText("tasks.bulkActions.selectAll"));
+    fireEvent.click(await screen.findByText("tasks.bulkActions.delete"));
+
+    await waitFor(() =>
+      expect(mockShowToast).toHaveBeenCalledWith(
+        "tasks.bulkActions.partialError",
+        "error",
+        8000,
+        expect.objectContaining({ label: "tasks.history.undo" })
+      )
+    );
+    expect(mockPost).toHaveBeenCalledWith("/tasks/bulk/delete", {
+      task_ids: ["task-1", "task-2"],
+    });
+
+    const undo = mockShowToast.mock.calls[0]?.[3] as ToastAction;
+    undo.onClick();
+
+    await waitFor(() =>
+      expect(mockPost).toHaveBeenCalledWith("/tasks/task-1/restore")
+    );
+    expect(mockPost).not.toHaveBeenCalledWith("/tasks/task-2/restore");
+  });
+
+  it("offers undo after a bulk action that succeeded", async () => {
+    mockPost.mockResolvedValue({
+      data: { data: { success_count: 1, error_count: 0, errors: [] } },
+    });
+    renderTaskList();
+
+    fireEvent.click(
+      screen.getAllByRole("checkbox", {
+        name: "tasks.bulkActions.selectTask",
+      })[0]!
+    );
+    fireEvent.click(await screen.findByText("tasks.bulkActions.delete"));
+
+    await waitFor(() =>
+      expect(mockShowToast).toHaveBeenCalledWith(
+        "tasks.bulkActions.success",
+        "success",
+        5000,
+        expect.objectContaining({ label: "tasks.history.undo" })
+      )
+    );
+    expect(mockPost).toHaveBeenCalledWith("/tasks/bulk/delete", {
+      task_ids: ["task-1"],
+    });
+  });
+
+  it("shows an error when the bulk request fails", async () => {
+    mockPost.mockRejectedValue(new Error("Network error"));
+    renderTaskList();
+
+    fireEvent.click(screen.getByLabelText("tasks.bulkActions.selectAll"));
+    fireEvent.click(await screen.findByText("tasks.bulkActions.delete"));
+
+    await waitFor(() =>
+      expect(mockShowToast).toHaveBeenCalledWith(
+        "tasks.bulkActions.error",
+        "error"
+      )
+    );
+  });
+});
@@ -7,12 +7,22 @@ import { renderHook, waitFor } from "@testing-library/react";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import type { ReactElement, ReactNode } from "react";
 import { describe, it, expect, beforeEach, vi } from "vitest";
-import { useTaskDependencies, useAddDependency, useRemoveDependency } from "~/features/tasks/hooks/useDependencies";
+import {
+  useTaskDependencies,
+  useTasksDependencies,
+  useAddDependency,
+  useRemoveDependency,
+  useApplyScheduleChanges,
+  useRevertScheduleChanges,
+  useScheduleCascadePreview,
+} from "~/features/tasks/hooks/useDependencies";
+import type { Task } from "~/features/tasks/types/task.types";
 
 // Use vi.hoisted() so mocks are available when vi.mock factories run
-const { mockGet, mockPost, mockDelete, mockInvalidateQueries } = vi.hoisted(() => ({
+const { mockGet, mockPost, mockPut, mockDelete, mockInvalidateQueries } = vi.hoisted(() => ({
   mockGet: vi.fn(),
   mockPost: vi.fn(),
+  mockPut: vi.fn(),
   mockDelete: vi.fn(),
   mockInvalidateQueries: vi.fn(),
 }));
@@ -21,6 +31,7 @@ vi.mock("~/lib/api/client", () => ({
   default: {
     get: mockGet,
     post: mockPost,
+    put: mockPut,
     delete: mockDelete,
   },
 }));
@@ -54,6 +65,8 @@ describe("useTaskDependencies hook", () => {
       });
 
     vi.clearAllMocks();
+    // Empty dependency graph, loaded by useAddDependency before each link
+    mockGet.mockResolvedValue({ data: { data: [] } });
   });
 
   describe("useDependencies", () => {
@@ -161,6 +174,138 @@ describe("useTaskDependencies hook", () => {
     });
   });
 
+  describe("useTasksDependencies", () => {
+    it("loads the links of all tasks in a single request", async () => {
+      mockGet.mockResolvedValue({
+        data: {
+          data: [
+            {
+              id: "dep1",
+              task_id: "task-2",
+              depends_on_id: "task-1",
+              dependency_type: "finish_to_start",
+              created_at: "2024-01-01T00:00:00Z",
+            },
+          ],
+        },
+      });
+
+      const { result } = renderHook(
+        () => useTasksDependencies(["task-1", "task-2", "task-3"]),
+        { wrapper }
+      );
+
+      await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+      expect(mockGet).toHaveBeenCalledTimes(1);
+      expect(mockGet).toHaveBeenCalledWith("/tasks/dependency-graph", {
+        params: { task_ids: "task-1,task-2,task-3" },
+      });
+      expect(result.current.data).toHaveLength(1);
+    });
+
+    it("surfaces errors instead of returning an empty graph", async () => {
+      mockGet.mockRejectedValue(new Error("Failed to load dependencies"));
+
+      const { result } = renderHook(
+        () => useTasksDependencies(["task-1", "task-2"]),
+        { wrapper }
+      );
+
+      await waitFor(() => expect(result.current.isError).toBe(true));
+      expect(result.current.data).toBeUndefined();
+    });
+  });
+
+  describe("schedule changes", () => {
+    const makeTask = (id: string, start: string, end: string) =>
+      ({ id, title: `Tarea ${id}`, start_at: start, end_at: end }) as Task;
+    const design = makeTask("task-1", "2024-01-01T00:00:00.000Z", "2024-01-03T00:00:00.000Z");
+    const build = makeTask("task-2", "2024-01-03T00:00:00.000Z", "2024-01-05T00:00:00.000Z");
+
+    it("previews the shifts of successors loaded from the whole graph", async () => {
+      mockGet.mockImplementation((url: string) =>
+        Promise.resolve(
+          url === "/tasks/dependency-graph"
+            ? {
+                data: {
+                  data: [
+                    {
+                      id: "dep1",
+                      task_id: "task-2",
+                      depends_on_id: "task-1",
+                      dependency_type: "finish_to_start",
+                      created_at: "2024-01-01T00:00:00Z",
+                    },
+                  ],
+                },
+              }
+            : { data: { data: [build] } }
+        )
+      );
+
+      const { result } = renderHook(() => useScheduleCascadePreview(), { wrapper });
+      const shifts = await result.current.mutateAsync({
+        task: design,
+        schedule: {
+          start: new Date("2024-01-02T00:00:00.000Z"),
+          end: new Date("2024-01-04T00:00:00.000Z"),
+        },
+      });
+
+      expect(mockGet).toHaveBeenCalledWith("/tasks", {
+        params: expect.objectContaining({ ids: "task-2" }),
+      });
+      expect(shifts).toHaveLength(1);
+      expect(shifts[0]?.task.id).toBe("task-2");
+    });
+
+    it("reports the tasks that failed instead of rejecting the whole batch", async () => {
+      mockPut.mockImplementation((url: string) =>
+        url === "/tasks/task-2"
+          ? Promise.reject(new Error("Conflict"))
+          : Promise.resolve({ data: { data: design } })
+      );
+
+      const { result } = renderHook(() => useApplyScheduleChanges(), { wrapper });
+      const outcome = await result.current.mutateAsync([
+        {
+          task: design,
+          schedule: {
+            start: new Date("2024-01-02T00:00:00.000Z"),
+            end: new Date("2024-01-04T00:00:00.000Z"),
+          },
+        },
+        {
+          task: build,
+          schedule: {
+            start: new Date("2024-01-04T00:00:00.000Z"),
+            end: new Date("2024-01-06T00:00:00.000Z"),
+          },
+        },
+      ]);
+
+      expect(mockPut).toHaveBeenCalledTimes(2);
+      expect(outcome.applied.map((task) => task.id)).toEqual(["task-1"]);
+      expect(outcome.failed.map((item) => item.task.id)).toEqual(["task-2"]);
+      expect(mockInvalidateQueries).toHaveBeenCalledWith({ queryKey: ["tasks"] });
+    });
+
+    it("restores the previous dates of the applied tasks", async () => {
+      mockPut.mockResolvedValue({ data: { data: design } });
+
+      const { result } = renderHook(() => useRevertScheduleChanges(), { wrapper });
+      const outcome = await result.current.mutateAsync([design]);
+
+      expect(mockPut).toHaveBeenCalledWith("/tasks/task-1", {
+        start_at: "2024-01-01T00:00:00.000Z",
+        end_at: "2024-01-03T00:00:00.000Z",
+        due_date: undefined,
+      });
+      expect(outcome.failed).toHaveLength(0);
+    });
+  });
+
   describe("useAddDependency", () => {
     it("adds dependency successfully", async () => {
       const taskId = "task-123";
@@ -255,6 +400,37 @@ describe("useTaskDependencies hook", () => {
       expect(mockInvalidateQueries).not.toHaveBeenCalled();
     });
 
+    it("rejects dependencies that would create a cycle", async () => {
+      mockGet.mockResolvedValue({
+        data: {
+          data: [
+            {
+              id: "dep1",
+              task_id: "task-456",
+              depends_on_id: "task-123",
+              dependency_type: "finish_to_start",
+              created_at: "2024-01-01T00:00:00Z",
+            },
+          ],
+        },
+      });
+
+      const { result } = renderHook(() => useAddDependency(), { wrapper });
+
+      await expect(
+        result.current.mutateAsync({
+          taskId: "task-123",
+          dependsOnId: "task-456",
+        })
+      ).rejects.toThrow("Circular dependency detected");
+
+      expect(mockGet).toHaveBeenCalledWith("/tasks/dependency-graph", {
+        params: undefined,
+      });
+      expect(mockPost).not.toHaveBeenCalled();
+      expect(mockInvalidateQueries).not.toHaveBeenCalled();
+    });
+
     it("handles different dependency types", async () => {
       const taskId = "task-123";
       const dependsOnId = "task-456";
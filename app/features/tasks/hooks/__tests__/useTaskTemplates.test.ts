@@ -0,0 +1,103 @@
+/**
+ * useTaskTemplates tests
+ * Tests for creating the whole task tree of a template
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { instantiateTaskTemplate } from "~/features/tasks/hooks/useTaskTemplates";
+import type { TemplateTaskPlan } from "~/features/tasks/utils/taskTemplates";
+
+// Use vi.hoisted() so mocks are available when vi.mock factories run
+const { mockPost, mockDelete } = vi.hoisted(() => ({
+  mockPost: vi.fn(),
+  mockDelete: vi.fn(),
+}));
+
+vi.mock("~/lib/api/client", () => ({
+  default: {
+    post: mockPost,
+    delete: mockDelete,
+  },
+}));
+
+const payload = (title: string) => ({
+  title,
+  description: "",
+  assigned_to_id: null,
+  status: "todo" as const,
+  priority: "medium" as const,
+});
+
+const plan: TemplateTaskPlan[] = [
+  {
+    key: "__root__",
+    parentKey: null,
+    depth: 0,
+    dependsOn: [],
+    payload: payload("Onboarding"),
+  },
+  {
+    key: "kickoff",
+    parentKey: "__root__",
+    depth: 1,
+    dependsOn: [],
+    payload: payload("Kickoff"),
+  },
+  {
+    key: "setup",
+    parentKey: "__root__",
+    depth: 1,
+    dependsOn: ["kickoff"],
+    payload: payload("Setup"),
+  },
+];
+
+describe("instantiateTaskTemplate", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    let nextId = 0;
+    mockPost.mockImplementation((url: string, body: { title?: string }) =>
+      Promise.resolve({
+        data: {
+          data:
+            url === "/tasks"
+              ? { id: `task-${++nextId}`, ...body }
+              : { id: "dep" },
+        },
+      })
+    );
+    mockDelete.mockResolvedValue({ data: { data: null } });
+  });
+
+  it("creates parents first and links subtasks and dependencies", async () => {
+    const created = await instantiateTaskTemplate(plan);
+
+    expect(created.map((task) => task.id)).toEqual([
+      "task-1",
+      "task-2",
+      "task-3",
+    ]);
+    expect(mockPost).toHaveBeenCalledWith(
+      "/tasks",
+      expect.objectContaining({ title: "Onboarding", parent_task_id: null })
+    );
+    expect(mockPost).toHaveBeenCalledWith(
+      "/tasks",
+      expect.objectContaining({ title: "Setup", parent_task_id: "task-1" })
+    );
+    expect(mockPost).toHaveBeenCalledWith("/tasks/task-3/dependencies", {
+      depends_on_id: "task-2",
+      dependency_type: "finish_to_start",
+    });
+  });
+
+  it("removes the tasks already created when a call fails", async () => {
+    mockPost
+      .mockResolvedValueOnce({ data: { data: { id: "task-1" } } })
+      .mockRejectedValueOnce(new Error("Server error"));
+
+    await expect(instantiateTaskTemplate(plan)).rejects.toThrow("Server error");
+    expect(mockDelete).toHaveBeenCalledTimes(1);
+    expect(mockDelete).toHaveBeenCalledWith("/tasks/task-1");
+  });
+});
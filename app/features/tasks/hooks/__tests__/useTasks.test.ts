@@ -0,0 +1,187 @@
+/**
+ * useTasks hook tests
+ * Date-range listing, and completion of recurring tasks, whose next instance
+ * is created by the backend for on-completion series
+ */
+
+import { act, renderHook, waitFor } from "@testing-library/react";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import type { ReactElement, ReactNode } from "react";
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { useTasks, useUpdateTask } from "~/features/tasks/hooks/useTasks";
+import { useBulkOperations } from "~/features/tasks/hooks/useBulkOperations";
+import { useOptimizedUpdateTask } from "~/features/tasks/hooks/useOptimizedTasks";
+import type { Task } from "~/features/tasks/types/task.types";
+
+// Use vi.hoisted() so mocks are available when vi.mock factories run
+const { mockGet, mockPost, mockPut } = vi.hoisted(() => ({
+  mockGet: vi.fn(),
+  mockPost: vi.fn(),
+  mockPut: vi.fn(),
+}));
+
+vi.mock("~/lib/api/client", () => ({
+  default: {
+    get: mockGet,
+    post: mockPost,
+    put: mockPut,
+  },
+}));
+
+const recurringTask: Task = {
+  id: "task-1",
+  tenant_id: "tenant-1",
+  title: "Cierre mensual",
+  description: "",
+  assigned_to_id: "user-1",
+  created_by_id: "user-1",
+  status: "done",
+  priority: "medium",
+  due_date: "2026-03-31T17:00:00.000Z",
+  recurrence_rule: "FREQ=MONTHLY;BYMONTHDAY=31",
+  recurrence_mode: "on_completion",
+  checklist: [],
+  created_at: "2026-01-01T00:00:00Z",
+  updated_at: "2026-01-01T00:00:00Z",
+};
+
+describe("useUpdateTask", () => {
+  let wrapper: ({ children }: { children: ReactNode }) => ReactElement;
+
+  beforeEach(() => {
+    const queryClient = new QueryClient({
+      defaultOptions: {
+        queries: { retry: false },
+        mutations: { retry: false },
+      },
+    });
+    wrapper = ({ children }: { children: ReactNode }) =>
+      QueryClientProvider({ client: queryClient, children });
+
+    vi.clearAllMocks();
+    mockGet.mockResolvedValue({ data: { data: { ...recurringTask, status: "todo" } } });
+    mockPut.mockResolvedValue({ data: { data: recurringTask } });
+    mockPost.mockResolvedValue({ data: { data: { ...recurringTask, id: "task-2" } } });
+  });
+
+  it("asks the backend for the next instance when a recurring task is completed", async () => {
+    const { result } = renderHook(() => useUpdateTask(), { wrapper });
+
+    await result.current.mutateAsync({ id: "task-1", payload: { status: "done" } });
+
+    await waitFor(() => expect(mockPost).toHaveBeenCalledTimes(1));
+    expect(mockPost).toHaveBeenCalledWith("/tasks/task-1/recurrence/next-instance");
+  });
+
+  it("does not create instances for other updates", async () => {
+    const { result } = renderHook(() => useUpdateTask(), { wrapper });
+
+    await result.current.mutateAsync({ id: "task-1", payload: { title: "Cierre" } });
+
+    expect(mockPost).not.toHaveBeenCalled();
+  });
+
+  it("leaves fixed-schedule series to the backend scheduler", async () => {
+    mockPut.mockResolvedValue({
+      data: { data: { ...recurringTask, recurrence_mode: "fixed_schedule" } },
+    });
+    const { result } = renderHook(() => useUpdateTask(), { wrapper });
+
+    await result.current.mutateAsync({ id: "task-1", payload: { status: "done" } });
+
+    expect(mockPost).not.toHaveBeenCalled();
+  });
+
+  it("does not create instances for tasks without a rule", async () => {
+    mockPut.mockResolvedValue({ data: { data: { ...recurringTask, recurrence_rule: null } } });
+    const { result } = renderHook(() => useUpdateTask(), { wrapper });
+
+    await result.current.mutateAsync({ id: "task-1", payload: { status: "done" } });
+
+    expect(mockPost).not.toHaveBeenCalled();
+  });
+});
+
+describe("completing recurring tasks elsewhere", () => {
+  let wrapper: ({ children }: { children: ReactNode }) => ReactElement;
+
+  beforeEach(() => {
+    const queryClient = new QueryClient({
+      defaultOptions: {
+        queries: { retry: false },
+        mutations: { retry: false },
+      },
+    });
+    wrapper = ({ children }: { children: ReactNode }) =>
+      QueryClientProvider({ client: queryClient, children });
+
+    vi.clearAllMocks();
+    mockPut.mockResolvedValue({ data: { data: recurringTask } });
+  });
+
+  it("creates the next instance from the optimistic update", async () => {
+    mockGet.mockResolvedValue({ data: { data: { ...recurringTask, status: "todo" } } });
+    mockPost.mockResolvedValue({ data: { data: { ...recurringTask, id: "task-2" } } });
+    const { result } = renderHook(() => useOptimizedUpdateTask(), { wrapper });
+
+    await result.current.mutateAsync({ id: "task-1", payload: { status: "done" } });
+
+    await waitFor(() =>
+      expect(mockPost).toHaveBeenCalledWith("/tasks/task-1/recurrence/next-instance")
+    );
+  });
+
+  it("creates next instances for on-completion series completed in bulk", async () => {
+    const fixedTask = { ...recurringTask, id: "task-3", recurrence_mode: "fixed_schedule" };
+    mockGet.mockImplementation((url: string) =>
+      Promise.resolve({
+        data: {
+          data: url.endsWith("task-3")
+            ? { ...fixedTask, status: "todo" }
+            : { ...recurringTask, status: "todo" },
+        },
+      })
+    );
+    mockPost.mockResolvedValue({
+      data: { data: { success_count: 2, error_count: 0, errors: [] } },
+    });
+    const { result } = renderHook(() => useBulkOperations(), { wrapper });
+
+    act(() => result.current.selectAll(["task-1", "task-3"]));
+    await result.current.bulkUpdateStatus("done");
+
+    await waitFor(() =>
+      expect(mockPost).toHaveBeenCalledWith("/tasks/task-1/recurrence/next-instance")
+    );
+    expect(mockPost).not.toHaveBeenCalledWith("/tasks/task-3/recurrence/next-instance");
+  });
+});
+
+describe("useTasks", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGet.mockResolvedValue({ data: { data: [], meta: {} } });
+  });
+
+  it("lists only the tasks within the requested date range", async () => {
+    const queryClient = new QueryClient({
+      defaultOptions: { queries: { retry: false } },
+    });
+    const wrapper = ({ children }: { children: ReactNode }) =>
+      QueryClientProvider({ client: queryClient, children });
+
+    const { result } = renderHook(
+      () => useTasks({ page_size: 100, start_date: "2026-03-30", end_date: "2026-04-05" }),
+      { wrapper }
+    );
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+    expect(mockGet).toHaveBeenCalledWith("/tasks", {
+      params: expect.objectContaining({
+        page_size: 100,
+        start_date: "2026-03-30",
+        end_date: "2026-04-05",
+      }),
+    });
+  });
+});
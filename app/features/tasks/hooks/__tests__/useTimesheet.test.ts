@@ -0,0 +1,115 @@
+/**
+ * useTimesheet tests
+ * Tests for submitting a weekly timesheet through the approvals API
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { submitTimesheetForApproval } from "~/features/tasks/hooks/useTimesheet";
+import type { Timesheet } from "~/features/tasks/types/task.types";
+
+// Use vi.hoisted() so mocks are available when vi.mock factories run
+const { mockPost, mockPut } = vi.hoisted(() => ({
+  mockPost: vi.fn(),
+  mockPut: vi.fn(),
+}));
+
+vi.mock("~/lib/api/client", () => ({
+  default: {
+    post: mockPost,
+    put: mockPut,
+  },
+}));
+
+const timesheet: Timesheet = {
+  id: "ts-1",
+  tenant_id: "tenant-1",
+  user_id: "user-1",
+  week_start: "2026-03-02",
+  status: "draft",
+  entries: [],
+  total_hours: 0,
+  created_at: "2026-03-02T00:00:00Z",
+  updated_at: "2026-03-02T00:00:00Z",
+};
+
+const entries = [{ task_id: "task-1", date: "2026-03-02", hours: 6 }];
+
+describe("submitTimesheetForApproval", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPut.mockResolvedValue({ data: { data: { ...timesheet, entries } } });
+    mockPost.mockImplementation((url: string) =>
+      Promise.resolve({
+        data: {
+          data:
+            url === "/approvals/requests"
+              ? { id: "request-1" }
+              : {
+                  ...timesheet,
+                  status: "submitted",
+                  approval_request_id: "request-1",
+                },
+        },
+      })
+    );
+  });
+
+  it("saves the entries, creates the approval request and submits the week", async () => {
+    const result = await submitTimesheetForApproval({
+      timesheet,
+      entries,
+      flowId: "flow-1",
+      title: "Timesheet",
+    });
+
+    expect(mockPut).toHaveBeenCalledWith("/tasks/timesheets/ts-1", {
+      entries,
+    });
+    expect(mockPost).toHaveBeenCalledWith(
+      "/approvals/requests",
+      expect.objectContaining({
+        flow_id: "flow-1",
+        entity_type: "timesheet",
+        entity_id: "ts-1",
+      })
+    );
+    expect(mockPost).toHaveBeenCalledWith("/tasks/timesheets/ts-1/submit", {
+      approval_request_id: "request-1",
+    });
+    expect(result.status).toBe("submitted");
+  });
+
+  it("does not submit the week when the approval request fails", async () => {
+    mockPost.mockRejectedValueOnce(new Error("No flow"));
+
+    await expect(
+      submitTimesheetForApproval({
+        timesheet,
+        entries,
+        flowId: "flow-1",
+        title: "Timesheet",
+      })
+    ).rejects.toThrow("No flow");
+    expect(mockPost).toHaveBeenCalledTimes(1);
+  });
+
+  it("cancels the approval request when the week cannot be submitted", async () => {
+    mockPost.mockImplementation((url: string) =>
+      url === "/tasks/timesheets/ts-1/submit"
+        ? Promise.reject(new Error("Already submitted"))
+        : Promise.resolve({ data: { data: { id: "request-1" } } })
+    );
+
+    await expect(
+      submitTimesheetForApproval({
+        timesheet,
+        entries,
+        flowId: "flow-1",
+        title: "Timesheet",
+      })
+    ).rejects.toThrow("Already submitted");
+    expect(mockPost).toHaveBeenCalledWith(
+      "/approvals/requests/request-1/cancel"
+    );
+  });
+});
@@ -8,12 +8,66 @@ import { useState, useCallback } from "react";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import apiClient from "~/lib/api/client";
 import type { StandardResponse } from "~/lib/api/types/common.types";
-import type { TaskStatus, TaskPriority } from "~/features/tasks/types/task.types";
+import { restoreTask, updateTask } from "~/features/tasks/api/tasks.api";
+import {
+  getTaskSnapshot,
+  recordTaskChange,
+} from "~/features/tasks/hooks/useTaskHistory";
+import { createNextInstanceOnCompletion } from "~/features/tasks/hooks/useTasks";
+import {
+  buildBulkHistoryEntry,
+  type TaskHistoryAction,
+} from "~/features/tasks/utils/taskHistory";
+import type {
+  Task,
+  TaskStatus,
+  TaskPriority,
+} from "~/features/tasks/types/task.types";
 
-interface BulkOperationResult {
+export interface BulkOperationResult {
   success_count: number;
   error_count: number;
   errors: string[];
+  failed_ids?: string[]; // Tasks the operation was not applied to
+}
+
+type BulkPath = "status" | "priority" | "assign" | "delete";
+
+async function postBulk(path: BulkPath, payload: Record<string, unknown>) {
+  const response = await apiClient.post<StandardResponse<BulkOperationResult>>(
+    `/tasks/bulk/${path}`,
+    payload
+  );
+  return response.data;
+}
+
+/**
+ * Run a bulk request and return the ids it failed on; all of them when the
+ * request itself fails.
+ */
+async function postBulkFailures(
+  path: BulkPath,
+  taskIds: string[],
+  payload: Record<string, unknown> = {}
+): Promise<string[]> {
+  if (taskIds.length === 0) return [];
+  try {
+    const response = await postBulk(path, { task_ids: taskIds, ...payload });
+    return response.data.failed_ids ?? [];
+  } catch {
+    return taskIds;
+  }
+}
+
+/**
+ * Run a request per task and return the ids whose request failed.
+ */
+async function settleEach(
+  taskIds: string[],
+  run: (id: string) => Promise<unknown>
+): Promise<string[]> {
+  const results = await Promise.allSettled(taskIds.map(run));
+  return taskIds.filter((_, index) => results[index]?.status === "rejected");
 }
 
 export function useBulkOperations() {
@@ -44,67 +98,100 @@ export function useBulkOperations() {
     void queryClient.invalidateQueries({ queryKey: ["tasks"] });
   };
 
+  /**
+   * Apply a bulk operation to the selection and record it in the history.
+   * Only the tasks it was applied to are recorded; undo and redo report the
+   * tasks they fail on instead of stopping at the first error.
+   * `onApplied` receives those tasks as they were before the change.
+   */
+  const runBulk = async (
+    action: TaskHistoryAction,
+    path: BulkPath,
+    payload: Record<string, unknown>,
+    undoTask: (id: string, previous?: Task) => Promise<unknown>,
+    onApplied?: (tasks: Task[]) => void
+  ) => {
+    const taskIds = Array.from(selectedIds);
+    // Tasks as they were before the change, to revert field updates
+    const snapshots =
+      path === "delete"
+        ? []
+        : await Promise.all(
+            taskIds.map((id) => getTaskSnapshot(queryClient, id))
+          );
+    const previous = new Map(
+      snapshots
+        .filter((task): task is Task => !!task)
+        .map((task) => [task.id, task])
+    );
+
+    const result = await postBulk(path, { task_ids: taskIds, ...payload });
+    const failed = new Set(result.data.failed_ids ?? []);
+    const applied = taskIds.filter(
+      (id) => !failed.has(id) && (path === "delete" || previous.has(id))
+    );
+    onApplied?.(applied.map((id) => previous.get(id)).filter((task) => !!task));
+    if (applied.length > 0) {
+      recordTaskChange(
+        buildBulkHistoryEntry(action, applied, {
+          undo: (ids) =>
+            settleEach(ids, (id) => undoTask(id, previous.get(id))),
+          redo: (ids) => postBulkFailures(path, ids, payload),
+        })
+      );
+    }
+    return result.data;
+  };
+
+  const onSuccess = () => {
+    clearSelection();
+    invalidateAll();
+  };
+
   const bulkUpdateStatus = useMutation({
-    mutationFn: async (status: TaskStatus) => {
-      const response = await apiClient.post<
-        StandardResponse<BulkOperationResult>
-      >("/tasks/bulk/status", {
-        task_ids: Array.from(selectedIds),
-        status,
-      });
-      return response.data;
-    },
-    onSuccess: () => {
-      clearSelection();
-      invalidateAll();
-    },
+    mutationFn: (status: TaskStatus) =>
+      runBulk(
+        "bulkStatus",
+        "status",
+        { status },
+        (id, previous) => updateTask(id, { status: previous?.status }),
+        (tasks) => {
+          if (status !== "done") return;
+          tasks
+            .filter((task) => task.status !== "done")
+            .forEach((task) =>
+              createNextInstanceOnCompletion(queryClient, task)
+            );
+        }
+      ),
+    onSuccess,
   });
 
   const bulkUpdatePriority = useMutation({
-    mutationFn: async (priority: TaskPriority) => {
-      const response = await apiClient.post<
-        StandardResponse<BulkOperationResult>
-      >("/tasks/bulk/priority", {
-        task_ids: Array.from(selectedIds),
-        priority,
-      });
-      return response.data;
-    },
-    onSuccess: () => {
-      clearSelection();
-      invalidateAll();
-    },
+    mutationFn: (priority: TaskPriority) =>
+      runBulk("bulkPriority", "priority", { priority }, (id, previous) =>
+        updateTask(id, { priority: previous?.priority })
+      ),
+    onSuccess,
   });
 
   const bulkAssign = useMutation({
-    mutationFn: async (assignedToId: string) => {
-      const response = await apiClient.post<
-        StandardResponse<BulkOperationResult>
-      >("/tasks/bulk/assign", {
-        task_ids: Array.from(selectedIds),
-        assigned_to_id: assignedToId,
-      });
-      return response.data;
-    },
-    onSuccess: () => {
-      clearSelection();
-      invalidateAll();
-    },
+    mutationFn: (assignedToId: string) =>
+      runBulk(
+        "bulkAssign",
+        "assign",
+        { assigned_to_id: assignedToId },
+        (id, previous) =>
+          updateTask(id, { assigned_to_id: previous?.assigned_to_id ?? null })
+      ),
+    onSuccess,
   });
 
+  // Deleted tasks are restored from the trash with the same id
   const bulkDelete = useMutation({
-    mutationFn: async () => {
-      const response = await apiClient.post<
-        StandardResponse<BulkOperationResult>
-      >("/tasks/bulk/delete", {
-        task_ids: Array.from(selectedIds),
-      });
-      return response.data;
-    },
-    onSuccess: () => {
-      clearSelection();
-      invalidateAll();
-    },
+    mutationFn: () =>
+      runBulk("bulkDelete", "delete", {}, (id) => restoreTask(id)),
+    onSuccess,
   });
 
   return {
@@ -118,8 +205,7 @@ export function useBulkOperations() {
       bulkUpdateStatus.mutateAsync(status),
     bulkUpdatePriority: (priority: TaskPriority) =>
       bulkUpdatePriority.mutateAsync(priority),
-    bulkAssign: (assignedToId: string) =>
-      bulkAssign.mutateAsync(assignedToId),
+    bulkAssign: (assignedToId: string) => bulkAssign.mutateAsync(assignedToId),
     bulkDelete: () => bulkDelete.mutateAsync(),
     isProcessing:
       bulkUpdateStatus.isPending ||
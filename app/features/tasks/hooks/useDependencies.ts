@@ -1,11 +1,32 @@
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import apiClient from "~/lib/api/client";
+import { listTasks, updateTask } from "~/features/tasks/api/tasks.api";
+import {
+  dedupeDependencies,
+  getDownstreamTaskIds,
+  wouldCreateDependencyCycle,
+} from "~/features/tasks/utils/dependencies";
+import {
+  buildScheduleUpdate,
+  type TaskSchedule,
+} from "~/features/tasks/utils/gantt";
+import {
+  computeScheduleCascade,
+  type ScheduleShift,
+} from "~/features/tasks/utils/scheduling";
+import type { Task } from "~/features/tasks/types/task.types";
+
+export type TaskDependencyType =
+  | "finish_to_start"
+  | "start_to_start"
+  | "finish_to_finish"
+  | "start_to_finish";
 
 export interface TaskDependency {
   id: string;
   task_id: string;
   depends_on_id: string;
-  dependency_type: string;
+  dependency_type: TaskDependencyType | string;
   created_at: string;
 }
 
@@ -14,6 +35,17 @@ export interface TaskDependenciesData {
   dependents: TaskDependency[];
 }
 
+export interface ScheduleChange {
+  task: Task;
+  schedule: TaskSchedule;
+}
+
+// Outcome of a batch of date updates; each task is updated on its own
+export interface ScheduleChangesResult {
+  applied: Task[];
+  failed: { task: Task; error: unknown }[];
+}
+
 export function useTaskDependencies(taskId: string) {
   return useQuery({
     queryKey: ["task-dependencies", taskId],
@@ -25,6 +57,33 @@ export function useTaskDependencies(taskId: string) {
   });
 }
 
+/**
+ * Dependency links among the given tasks in one request, or the whole graph
+ * of the tenant when no ids are passed
+ * GET /api/v1/tasks/dependency-graph
+ */
+async function fetchDependencyGraph(
+  taskIds?: string[]
+): Promise<TaskDependency[]> {
+  const response = await apiClient.get("/tasks/dependency-graph", {
+    params: taskIds ? { task_ids: taskIds.join(",") } : undefined,
+  });
+  return dedupeDependencies(
+    (response.data?.data as TaskDependency[] | undefined) ?? []
+  );
+}
+
+// Dependencies of several tasks at once (Gantt view). Keyed under "tasks" so
+// any task mutation also refreshes the links.
+export function useTasksDependencies(taskIds: string[]) {
+  return useQuery({
+    queryKey: ["tasks", "dependencies", taskIds],
+    queryFn: () => fetchDependencyGraph(taskIds),
+    enabled: taskIds.length > 0,
+    staleTime: 1000 * 60 * 5,
+  });
+}
+
 export function useAddDependency() {
   const queryClient = useQueryClient();
 
@@ -38,6 +97,14 @@ export function useAddDependency() {
       dependsOnId: string;
       dependencyType?: string;
     }) => {
+      if (taskId === dependsOnId) {
+        throw new Error("Task cannot depend on itself");
+      }
+      // Always checked against the whole graph, not only the loaded tasks
+      const graph = await fetchDependencyGraph();
+      if (wouldCreateDependencyCycle(taskId, dependsOnId, graph)) {
+        throw new Error("Circular dependency detected");
+      }
       const response = await apiClient.post(`/tasks/${taskId}/dependencies`, {
         depends_on_id: dependsOnId,
         dependency_type: dependencyType,
@@ -77,3 +144,94 @@ export function useRemoveDependency() {
     },
   });
 }
+
+// Run one update per task, collecting the ones that failed instead of
+// stopping at the first error
+async function updateEach(
+  tasks: Task[],
+  update: (task: Task) => Promise<unknown>
+): Promise<ScheduleChangesResult> {
+  const settled = await Promise.allSettled(tasks.map(update));
+  const result: ScheduleChangesResult = { applied: [], failed: [] };
+  settled.forEach((outcome, index) => {
+    const task = tasks[index]!;
+    if (outcome.status === "fulfilled") {
+      result.applied.push(task);
+    } else {
+      result.failed.push({ task, error: outcome.reason });
+    }
+  });
+  return result;
+}
+
+/**
+ * Successor shifts caused by rescheduling a task, computed from the whole
+ * dependency graph so tasks outside the current view are included
+ */
+export function useScheduleCascadePreview() {
+  return useMutation({
+    mutationFn: async ({
+      task,
+      schedule,
+    }: ScheduleChange): Promise<ScheduleShift[]> => {
+      const graph = await fetchDependencyGraph();
+      const downstream = [...getDownstreamTaskIds(task.id, graph)];
+      if (downstream.length === 0) return [];
+
+      const response = await listTasks({
+        ids: downstream,
+        page_size: downstream.length,
+      });
+      return computeScheduleCascade(
+        [task, ...response.data],
+        graph,
+        task.id,
+        schedule
+      );
+    },
+  });
+}
+
+// Apply a rescheduled task and its cascaded successors. Tasks that fail are
+// reported in the result so the caller can roll back the rest.
+export function useApplyScheduleChanges() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (changes: ScheduleChange[]) => {
+      const schedules = new Map(
+        changes.map(({ task, schedule }) => [task.id, schedule])
+      );
+      return updateEach(
+        changes.map(({ task }) => task),
+        (task) =>
+          updateTask(
+            task.id,
+            buildScheduleUpdate(task, schedules.get(task.id)!)
+          )
+      );
+    },
+    onSettled: () => {
+      void queryClient.invalidateQueries({ queryKey: ["tasks"] });
+    },
+  });
+}
+
+// Restore the dates the given tasks had before a schedule change
+export function useRevertScheduleChanges() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (tasks: Task[]) =>
+      updateEach(tasks, (task) =>
+        updateTask(task.id, {
+          start_at: task.start_at ?? null,
+          end_at: task.end_at ?? null,
+          due_date: task.due_date,
+        })
+      ),
+    onSettled: () => {
+      void queryClient.invalidateQueries({ queryKey: ["tasks"] });
+    },
+  });
+}
@@ -6,6 +6,12 @@
 import { useQuery, useQueryClient, useMutation } from "@tanstack/react-query";
 import { listTasks, getTask, createTask, updateTask } from "../api/tasks.api";
 import type { Task, TaskListParams, TaskCreate, TaskUpdate } from "../types/task.types";
+import {
+  getTaskSnapshot,
+  recordTaskCreate,
+  recordTaskUpdate,
+} from "./useTaskHistory";
+import { createNextInstanceOnCompletion } from "./useTasks";
 
 const TASKS_QUERY_KEY = ["tasks"];
 const TASK_DETAIL_STALE_TIME = 5 * 60 * 1000; // 5 minutos
@@ -74,6 +80,9 @@ export function useOptimizedCreateTask() {
 
       return { previousTasks };
     },
+    onSuccess: (response) => {
+      if (response?.data) recordTaskCreate(response.data);
+    },
     onError: (_err, _newTask, context) => {
       // Rollback on error
       if (context?.previousTasks) {
@@ -100,8 +109,9 @@ export function useOptimizedUpdateTask() {
       // Cancel outgoing refetches
       await queryClient.cancelQueries({ queryKey: [...TASKS_QUERY_KEY, id] });
 
-      // Snapshot previous value
+      // Snapshot previous value (taken before the optimistic update so undo restores it)
       const previousTask = queryClient.getQueryData([...TASKS_QUERY_KEY, id]);
+      const snapshot = await getTaskSnapshot(queryClient, id);
 
       // Optimistically update
       queryClient.setQueryData([...TASKS_QUERY_KEY, id], (old: unknown) => {
@@ -118,7 +128,13 @@ export function useOptimizedUpdateTask() {
         };
       });
 
-      return { previousTask };
+      return { previousTask, snapshot };
+    },
+    onSuccess: (response, { payload }, context) => {
+      if (context?.snapshot) recordTaskUpdate(context.snapshot, payload);
+      if (payload.status === "done") {
+        createNextInstanceOnCompletion(queryClient, response?.data);
+      }
     },
     onError: (_err, { id }, context) => {
       // Rollback on error
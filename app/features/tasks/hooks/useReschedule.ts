@@ -0,0 +1,83 @@
+/**
+ * useReschedule hook
+ * Applies date changes to a task and its dependents, reporting the tasks that
+ * could not be updated and offering to roll back the ones that were.
+ */
+
+import {
+  useApplyScheduleChanges,
+  useRevertScheduleChanges,
+  type ScheduleChange,
+  type ScheduleChangesResult,
+} from "~/features/tasks/hooks/useDependencies";
+import { showToast } from "~/components/common/Toast";
+import { useTranslation } from "~/lib/i18n/useTranslation";
+import type { Task } from "~/features/tasks/types/task.types";
+
+function taskTitles(tasks: Task[]): string {
+  return tasks.map((task) => `"${task.title}"`).join(", ");
+}
+
+export function useReschedule() {
+  const { t } = useTranslation();
+  const applyScheduleChanges = useApplyScheduleChanges();
+  const revertScheduleChanges = useRevertScheduleChanges();
+
+  const revert = (tasks: Task[]) => {
+    revertScheduleChanges.mutate(tasks, {
+      onSuccess: ({ failed }) => {
+        if (failed.length > 0) {
+          showToast(
+            t("tasks.dependencies.revertError").replace(
+              "{tasks}",
+              taskTitles(failed.map((item) => item.task))
+            ),
+            "error"
+          );
+          return;
+        }
+        showToast(t("tasks.dependencies.reverted"), "success");
+      },
+    });
+  };
+
+  /**
+   * Apply the changes one task at a time. `alreadyApplied` are tasks (with
+   * their previous dates) saved by the caller beforehand, rolled back together
+   * with the batch.
+   */
+  const reschedule = async (
+    changes: ScheduleChange[],
+    alreadyApplied: Task[] = []
+  ): Promise<ScheduleChangesResult> => {
+    const result = await applyScheduleChanges.mutateAsync(changes);
+    const applied = [...alreadyApplied, ...result.applied];
+    const revertAction = {
+      label: t("tasks.dependencies.revert"),
+      onClick: () => revert(applied),
+    };
+
+    if (result.failed.length === 0) {
+      showToast(t("tasks.gantt.updateSuccess"), "success", 5000, revertAction);
+    } else if (applied.length === 0) {
+      showToast(t("tasks.gantt.updateError"), "error");
+    } else {
+      showToast(
+        t("tasks.dependencies.partialFailure").replace(
+          "{tasks}",
+          taskTitles(result.failed.map((item) => item.task))
+        ),
+        "error",
+        10000,
+        revertAction
+      );
+    }
+    return result;
+  };
+
+  return {
+    reschedule,
+    isApplying: applyScheduleChanges.isPending,
+    isReverting: revertScheduleChanges.isPending,
+  };
+}
@@ -0,0 +1,257 @@
+/**
+ * useTaskHistory hook
+ * Per-session undo/redo history for task mutations.
+ * Each mutation records its inverse; undo/redo replay them against the API.
+ */
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useQueryClient, type QueryClient } from "@tanstack/react-query";
+import {
+  deleteTask,
+  getTask,
+  restoreTask,
+  updateTask,
+} from "~/features/tasks/api/tasks.api";
+import {
+  buildInverseUpdate,
+  isMoveUpdate,
+  pushHistoryEntry,
+  shiftHistory,
+  type TaskHistoryEntry,
+  type TaskHistoryState,
+} from "~/features/tasks/utils/taskHistory";
+import { showToast, type ToastAction } from "~/components/common/Toast";
+import { useTranslation } from "~/lib/i18n/useTranslation";
+import type { Task, TaskUpdate } from "~/features/tasks/types/task.types";
+
+let history: TaskHistoryState = { past: [], future: [] };
+let running = false;
+const listeners: Array<() => void> = [];
+
+function notify() {
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Record a step in the history. Calls made while a step is being undone or
+ * redone are ignored so replaying never creates new steps.
+ */
+export function recordTaskChange(entry: TaskHistoryEntry) {
+  if (running) return;
+  history = pushHistoryEntry(history, entry);
+  notify();
+}
+
+/**
+ * Undo or redo the latest step. A step that failed for some of its tasks
+ * stays where it was, so running it again retries the failed ones.
+ */
+async function runHistoryStep(
+  direction: "undo" | "redo"
+): Promise<{ entry: TaskHistoryEntry; failed: number } | null> {
+  const shifted = shiftHistory(history, direction);
+  if (!shifted) return null;
+
+  running = true;
+  try {
+    const result = await (direction === "undo"
+      ? shifted.entry.undo()
+      : shifted.entry.redo());
+    const failed = result?.failed ?? 0;
+    if (failed === 0) history = shifted.state;
+    return { entry: shifted.entry, failed };
+  } finally {
+    running = false;
+    notify();
+  }
+}
+
+export function resetTaskHistory() {
+  history = { past: [], future: [] };
+  notify();
+}
+
+/**
+ * Find a task in any cached ["tasks", ...] query (lists or detail).
+ */
+export function findCachedTask(
+  queryClient: QueryClient,
+  id: string
+): Task | undefined {
+  for (const [, data] of queryClient.getQueriesData<{ data?: unknown }>({
+    queryKey: ["tasks"],
+  })) {
+    const payload = data?.data;
+    if (Array.isArray(payload)) {
+      const match = (payload as Task[]).find((task) => task?.id === id);
+      if (match) return match;
+    } else if ((payload as Task | undefined)?.id === id) {
+      return payload as Task;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * State of a task before a mutation: from the cache when possible, otherwise
+ * from the API. Returns undefined when the task cannot be loaded, in which
+ * case the mutation is simply not undoable.
+ */
+export async function getTaskSnapshot(
+  queryClient: QueryClient,
+  id: string
+): Promise<Task | undefined> {
+  const cached = findCachedTask(queryClient, id);
+  if (cached) return cached;
+  try {
+    const response = await getTask(id);
+    return response?.data ?? undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Deleted tasks are restored from the trash with the same id
+export function recordTaskCreate(task: Task) {
+  recordTaskChange({
+    action: "create",
+    count: 1,
+    undo: async () => {
+      await deleteTask(task.id);
+    },
+    redo: async () => {
+      await restoreTask(task.id);
+    },
+  });
+}
+
+export function recordTaskUpdate(previous: Task, payload: TaskUpdate) {
+  const inverse = buildInverseUpdate(previous, payload);
+  recordTaskChange({
+    action: isMoveUpdate(payload) ? "move" : "update",
+    count: 1,
+    undo: async () => {
+      await updateTask(previous.id, inverse);
+    },
+    redo: async () => {
+      await updateTask(previous.id, payload);
+    },
+  });
+}
+
+export function recordTaskDelete(task: Task) {
+  recordTaskChange({
+    action: "delete",
+    count: 1,
+    undo: async () => {
+      await restoreTask(task.id);
+    },
+    redo: async () => {
+      await deleteTask(task.id);
+    },
+  });
+}
+
+type Translate = (key: string) => string;
+
+async function runWithFeedback(
+  queryClient: QueryClient,
+  t: Translate,
+  direction: "undo" | "redo"
+) {
+  if (running) return;
+
+  try {
+    const step = await runHistoryStep(direction);
+    if (!step) {
+      showToast(
+        t(
+          direction === "undo"
+            ? "tasks.history.nothingToUndo"
+            : "tasks.history.nothingToRedo"
+        ),
+        "info"
+      );
+      return;
+    }
+
+    void queryClient.invalidateQueries({ queryKey: ["tasks"] });
+    const { entry, failed } = step;
+    const label = t(`tasks.history.actions.${entry.action}`).replace(
+      "{count}",
+      String(entry.count)
+    );
+    if (failed > 0) {
+      showToast(
+        t("tasks.history.partialError")
+          .replace("{failed}", String(failed))
+          .replace("{count}", String(entry.count)),
+        "error",
+        8000,
+        {
+          label: t("common.retry"),
+          onClick: () => void runWithFeedback(queryClient, t, direction),
+        }
+      );
+    } else if (direction === "undo") {
+      showToast(
+        t("tasks.history.undone").replace("{action}", label),
+        "info",
+        5000,
+        {
+          label: t("tasks.history.redo"),
+          onClick: () => void runWithFeedback(queryClient, t, "redo"),
+        }
+      );
+    } else {
+      showToast(t("tasks.history.redone").replace("{action}", label), "info");
+    }
+  } catch (error) {
+    console.error(`Failed to ${direction} task change:`, error);
+    showToast(t("tasks.history.error"), "error");
+  }
+}
+
+export function useTaskHistory() {
+  const queryClient = useQueryClient();
+  const { t } = useTranslation();
+  const [state, setState] = useState<TaskHistoryState>(history);
+
+  useEffect(() => {
+    const listener = () => {
+      setState(history);
+    };
+    listeners.push(listener);
+    setState(history);
+
+    return () => {
+      const index = listeners.indexOf(listener);
+      if (index > -1) {
+        listeners.splice(index, 1);
+      }
+    };
+  }, []);
+
+  const undo = useCallback(
+    () => runWithFeedback(queryClient, t, "undo"),
+    [queryClient, t]
+  );
+  const redo = useCallback(
+    () => runWithFeedback(queryClient, t, "redo"),
+    [queryClient, t]
+  );
+
+  // Toast action offering to undo the step that was just made
+  const undoAction = useMemo<ToastAction>(
+    () => ({ label: t("tasks.history.undo"), onClick: () => void undo() }),
+    [t, undo]
+  );
+
+  return {
+    canUndo: state.past.length > 0,
+    canRedo: state.future.length > 0,
+    undo,
+    redo,
+    undoAction,
+  };
+}
@@ -5,7 +5,13 @@
 
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import apiClient from "~/lib/api/client";
-import type { TaskTemplate, TaskTemplateCreate } from "../types/task.types";
+import { createTask, deleteTask } from "../api/tasks.api";
+import type { TemplateTaskPlan } from "../utils/taskTemplates";
+import type {
+  Task,
+  TaskTemplate,
+  TaskTemplateCreate,
+} from "../types/task.types";
 
 /**
  * Hook to fetch all task templates
@@ -69,6 +75,69 @@ export function useCreateTaskFromTemplate() {
   });
 }
 
+/**
+ * Create every task of a template plan, then the dependencies between them.
+ * The plan lists parents before subtasks, so parent ids are always known.
+ * If any call fails the tasks already created are removed, so a template is
+ * never left half instantiated.
+ */
+export async function instantiateTaskTemplate(
+  plan: TemplateTaskPlan[]
+): Promise<Task[]> {
+  const ids = new Map<string, string>();
+  const created: Task[] = [];
+
+  try {
+    for (const item of plan) {
+      const response = await createTask({
+        ...item.payload,
+        parent_task_id: item.parentKey ? ids.get(item.parentKey) ?? null : null,
+      });
+      ids.set(item.key, response.data.id);
+      created.push(response.data);
+    }
+
+    for (const item of plan) {
+      for (const dependsOn of item.dependsOn) {
+        const dependsOnId = ids.get(dependsOn);
+        if (!dependsOnId) continue;
+        await apiClient.post(`/tasks/${ids.get(item.key)}/dependencies`, {
+          depends_on_id: dependsOnId,
+          dependency_type: "finish_to_start",
+        });
+      }
+    }
+  } catch (error) {
+    // Subtasks first so parents are not deleted while they still have children
+    for (const task of [...created].reverse()) {
+      await deleteTask(task.id).catch((cleanupError) => {
+        console.error(
+          `Failed to remove task ${task.id} after template error:`,
+          cleanupError
+        );
+      });
+    }
+    throw error;
+  }
+
+  return created;
+}
+
+/**
+ * Hook to create the whole task tree of a template
+ */
+export function useInstantiateTemplate() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: instantiateTaskTemplate,
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: ["tasks"] });
+      void queryClient.invalidateQueries({ queryKey: ["task-templates"] });
+    },
+  });
+}
+
 /**
  * Hook to create a new template
  */
@@ -4,7 +4,12 @@
  * Following frontend-api.md rules
  */
 
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  useQuery,
+  useMutation,
+  useQueryClient,
+  type QueryClient,
+} from "@tanstack/react-query";
 import React from "react";
 import {
   listTasks,
@@ -22,10 +27,18 @@ import {
   deleteAssignment as deleteAssignmentApi,
   getTaskModuleSettings,
   updateTaskModuleSettings,
+  createNextRecurringInstance,
 } from "~/features/tasks/api/tasks.api";
 import { useUsers } from "~/features/users/hooks/useUsers";
+import {
+  getTaskSnapshot,
+  recordTaskCreate,
+  recordTaskDelete,
+  recordTaskUpdate,
+} from "~/features/tasks/hooks/useTaskHistory";
 import { useAuthStore } from "~/stores/authStore";
 import type {
+  Task,
   TaskUpdate,
   TaskListParams,
   ChecklistItem,
@@ -101,7 +114,8 @@ export function useCreateTask() {
 
   return useMutation({
     mutationFn: createTask,
-    onSuccess: () => {
+    onSuccess: (response) => {
+      if (response?.data) recordTaskCreate(response.data);
       // Invalidate tasks list queries
       void queryClient.invalidateQueries({ queryKey: ["tasks"] });
     },
@@ -111,16 +125,48 @@ export function useCreateTask() {
   });
 }
 
+/**
+ * Create the next instance of a recurring task that was just completed.
+ * Only on-completion series: fixed-schedule ones are generated by the backend
+ * scheduler whatever the status of their instances.
+ */
+export function createNextInstanceOnCompletion(
+  queryClient: QueryClient,
+  task: Task | undefined
+) {
+  if (!task?.recurrence_rule || task.recurrence_mode === "fixed_schedule") {
+    return;
+  }
+  void createNextRecurringInstance(task.id)
+    .then(() => {
+      void queryClient.invalidateQueries({ queryKey: ["tasks"] });
+    })
+    .catch((error) => {
+      console.error("Failed to create recurring task instance:", error);
+    });
+}
+
 export function useUpdateTask() {
   const queryClient = useQueryClient();
 
   return useMutation({
     mutationFn: ({ id, payload }: { id: string; payload: TaskUpdate }) =>
       updateTask(id, payload),
-    onSuccess: (_, variables) => {
+    // Snapshot the task so the change can be undone
+    onMutate: async ({ id }) => ({
+      previous: await getTaskSnapshot(queryClient, id),
+    }),
+    onSuccess: (response, variables, context) => {
+      if (context?.previous) {
+        recordTaskUpdate(context.previous, variables.payload);
+      }
       // Invalidate specific task and list queries
       void queryClient.invalidateQueries({ queryKey: ["tasks", variables.id] });
       void queryClient.invalidateQueries({ queryKey: ["tasks"] });
+
+      if (variables.payload.status === "done") {
+        createNextInstanceOnCompletion(queryClient, response?.data);
+      }
     },
     onError: (error) => {
       console.error("Failed to update task:", error);
@@ -133,7 +179,11 @@ export function useDeleteTask() {
 
   return useMutation({
     mutationFn: deleteTask,
-    onSuccess: () => {
+    onMutate: async (id: string) => ({
+      previous: await getTaskSnapshot(queryClient, id),
+    }),
+    onSuccess: (_response, _id, context) => {
+      if (context?.previous) recordTaskDelete(context.previous);
       // Invalidate tasks list queries
       void queryClient.invalidateQueries({ queryKey: ["tasks"] });
     },
@@ -253,6 +303,69 @@ export function useAssignmentMutations() {
   };
 }
 
+/**
+ * Move a task between resources and/or days in the scheduler.
+ * Reschedules through updateTask and swaps the source assignment for one
+ * on the target user through the assignment endpoints.
+ */
+export function useMoveTaskAssignment() {
+  const queryClient = useQueryClient();
+  const { user } = useAuthStore();
+
+  return useMutation({
+    mutationFn: async ({
+      task,
+      update,
+      fromUserId,
+      toUserId,
+      assignments,
+    }: {
+      task: Task;
+      update: TaskUpdate | null;
+      fromUserId: string | null;
+      toUserId: string | null;
+      assignments: TaskAssignment[];
+    }) => {
+      const payload: TaskUpdate = { ...update };
+      const isReassign = fromUserId !== toUserId;
+
+      // Keep the legacy single-assignee field in sync
+      if (isReassign && task.assigned_to_id === fromUserId) {
+        payload.assigned_to_id = toUserId;
+      }
+      if (Object.keys(payload).length > 0) {
+        await updateTask(task.id, payload);
+      }
+      if (!isReassign) return;
+
+      const alreadyAssigned = assignments.some(
+        (assignment) => assignment.assigned_to_id === toUserId
+      );
+      if (toUserId && !alreadyAssigned) {
+        await createAssignmentApi(task.id, {
+          task_id: task.id,
+          assigned_to_id: toUserId,
+          created_by_id: user?.id ?? "",
+        });
+      }
+
+      const previous = assignments.find(
+        (assignment) => assignment.assigned_to_id === fromUserId
+      );
+      if (fromUserId && previous) {
+        await deleteAssignmentApi(task.id, previous.id);
+      }
+    },
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: ["tasks"] });
+      void queryClient.invalidateQueries({ queryKey: ["assignments"] });
+    },
+    onError: (error) => {
+      console.error("Failed to move task assignment:", error);
+    },
+  });
+}
+
 export function useTaskModuleSettingsMutation() {
   const queryClient = useQueryClient();
 
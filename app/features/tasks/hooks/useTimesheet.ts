@@ -0,0 +1,98 @@
+/**
+ * useTimesheet hooks
+ * TanStack Query hooks for the weekly timesheet and its approval.
+ */
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  getTimesheet,
+  submitTimesheet,
+  updateTimesheet,
+} from "~/features/tasks/api/tasks.api";
+import {
+  cancelApprovalRequest,
+  createApprovalRequest,
+} from "~/features/approvals/api/approvals.api";
+import { buildTimesheetApprovalRequest } from "~/features/tasks/utils/timesheet";
+import type {
+  Timesheet,
+  TimesheetEntry,
+} from "~/features/tasks/types/task.types";
+
+interface SubmitTimesheetPayload {
+  timesheet: Timesheet;
+  entries: TimesheetEntry[];
+  flowId: string;
+  title: string;
+}
+
+/**
+ * Save the entries of a timesheet, open its approval request and mark it as
+ * submitted. Entries are saved first so the request never refers to hours
+ * that were not stored, and the request is cancelled again if the week cannot
+ * be submitted.
+ */
+export async function submitTimesheetForApproval({
+  timesheet,
+  entries,
+  flowId,
+  title,
+}: SubmitTimesheetPayload): Promise<Timesheet> {
+  await updateTimesheet(timesheet.id, { entries });
+  const request = await createApprovalRequest(
+    buildTimesheetApprovalRequest(timesheet, entries, flowId, title)
+  );
+  try {
+    const response = await submitTimesheet(timesheet.id, request.data.id);
+    return response.data;
+  } catch (error) {
+    // Best effort: the submit error is the one worth reporting
+    await cancelApprovalRequest(request.data.id).catch(() => undefined);
+    throw error;
+  }
+}
+
+export function useTimesheet(weekStart: string) {
+  return useQuery({
+    queryKey: ["tasks", "timesheets", weekStart],
+    queryFn: () => getTimesheet(weekStart),
+    staleTime: 1000 * 60 * 2,
+    retry: 1,
+  });
+}
+
+export function useSaveTimesheet() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      timesheetId,
+      entries,
+    }: {
+      timesheetId: string;
+      entries: TimesheetEntry[];
+    }) => updateTimesheet(timesheetId, { entries }),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({
+        queryKey: ["tasks", "timesheets"],
+      });
+    },
+  });
+}
+
+export function useSubmitTimesheet() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: submitTimesheetForApproval,
+    onSuccess: (timesheet) => {
+      void queryClient.invalidateQueries({
+        queryKey: ["tasks", "timesheets"],
+      });
+      void queryClient.invalidateQueries({ queryKey: ["approval-requests"] });
+      void queryClient.invalidateQueries({
+        queryKey: ["entity-approval-status", "timesheet", timesheet.id],
+      });
+    },
+  });
+}
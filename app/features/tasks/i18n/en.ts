@@ -103,18 +103,37 @@ export const translations = {
     "all": "All",
     "assignedTo": "Assigned To",
     "board": {
+      "collapseColumn": "Collapse column",
       "createTaskInStatus": "Create Task In Status",
       "dragDropHint": "Drag Drop Hint",
       "emptyColumn": "Empty Column",
+      "expandColumn": "Expand column",
       "invalidStatus": "Invalid Status",
+      "swimlanes": {
+        "assignee": "Assignee",
+        "label": "Swimlanes",
+        "noTag": "No tag",
+        "none": "None",
+        "priority": "Priority",
+        "tag": "Tag",
+        "unassigned": "Unassigned"
+      },
       "taskMoveError": "Task Move Error",
-      "taskMovedSuccess": "Task Moved Success"
+      "taskMovedSuccess": "Task Moved Success",
+      "wipBlocked": "{status} has reached its WIP limit of {limit} tasks",
+      "wipExceeded": "Over the WIP limit",
+      "wipLimit": "WIP limit: {limit}"
     },
     "bulkActions": {
       "changePriority": "Change Priority",
       "changeStatus": "Change Status",
       "delete": "Delete",
-      "selected": "Selected"
+      "error": "The bulk action could not be completed",
+      "partialError": "{failed} of {count} tasks could not be updated",
+      "selectAll": "Select all",
+      "selectTask": "Select \"{task}\"",
+      "selected": "Selected",
+      "success": "{count} tasks updated"
     },
     "calendarSync": {
       "description": "Description",
@@ -160,6 +179,17 @@ export const translations = {
     "createdSuccess": "Created Success",
     "deleteConfirm": "Delete Confirm",
     "deleteSuccess": "Delete Success",
+    "dependencies": {
+      "applyCascade": "Apply all changes",
+      "applyTaskOnly": "Move only this task",
+      "cascadeDescription": "Moving \"{task}\" affects {count} dependent tasks. Review the new dates before applying them.",
+      "cascadeError": "Changes to dependent tasks could not be calculated",
+      "cascadeTitle": "Reschedule dependent tasks?",
+      "partialFailure": "Dates of {tasks} could not be updated; the other changes were applied",
+      "revert": "Revert",
+      "revertError": "Dates of {tasks} could not be reverted",
+      "reverted": "Dates restored"
+    },
     "description": "Description",
     "descriptionPlaceholder": "Description Placeholder",
     "details": "Details",
@@ -203,6 +233,41 @@ export const translations = {
     "filtersTo": "Filters To",
     "filtersToLabel": "Filters To Label",
     "from": "From",
+    "gantt": {
+      "criticalPath": "Critical path",
+      "criticalPathShort": "CP",
+      "dependenciesError": "Dependencies could not be loaded: arrows and the critical path are hidden",
+      "dragHint": "Drag bars to reschedule, drag their edges to resize",
+      "empty": "No tasks with dates to show on the timeline",
+      "task": "Task",
+      "unscheduled": "{count} tasks without dates are not shown",
+      "updateError": "Error updating task dates",
+      "updateSuccess": "Task dates updated",
+      "zoom": {
+        "day": "Days",
+        "week": "Weeks"
+      }
+    },
+    "history": {
+      "actions": {
+        "bulkAssign": "assignment of {count} tasks",
+        "bulkDelete": "deletion of {count} tasks",
+        "bulkPriority": "priority of {count} tasks",
+        "bulkStatus": "status of {count} tasks",
+        "create": "task created",
+        "delete": "task deleted",
+        "move": "task moved",
+        "update": "task edited"
+      },
+      "error": "The change could not be reverted",
+      "nothingToRedo": "Nothing to redo",
+      "nothingToUndo": "Nothing to undo",
+      "partialError": "The step could not be completed for {failed} of {count} tasks",
+      "redo": "Redo",
+      "redone": "Redone: {action}",
+      "undo": "Undo",
+      "undone": "Undone: {action}"
+    },
     "inbox": {
       "assignMe": "Assign Me",
       "bulkAction": "Bulk Action",
@@ -219,6 +284,31 @@ export const translations = {
     "infoNote": {
       "addFilesAndComments": "Add Files And Comments"
     },
+    "list": {
+      "collapseGroup": "Collapse group",
+      "dueBuckets": {
+        "later": "Later",
+        "noDate": "No due date",
+        "overdue": "Overdue",
+        "thisWeek": "This week",
+        "today": "Today"
+      },
+      "expandGroup": "Expand group",
+      "groupBy": "Group by",
+      "groupByOptions": {
+        "assignee": "Assignee",
+        "due": "Due date",
+        "none": "No grouping",
+        "priority": "Priority",
+        "status": "Status",
+        "tag": "Tag"
+      },
+      "noTag": "No tag",
+      "resetLayout": "Reset sort and columns",
+      "resizeColumn": "Resize column",
+      "sortHint": "Click to sort, Shift+click to add a sort level",
+      "unassigned": "Unassigned"
+    },
     "loading": "Loading",
     "modules": {
       "projects": "Projects",
@@ -249,6 +339,42 @@ export const translations = {
     },
     "quickAddDescription": "Quick Add Description",
     "quickAddPlaceholder": "Quick Add Placeholder",
+    "quickCapture": {
+      "assignee": "Assignee",
+      "create": "Create",
+      "created": "Task created",
+      "dueDate": "Due date",
+      "error": "Could not create the task",
+      "hint": "Try \"Call Ana tomorrow 10am #sales !high @maria every monday\". Click a chip to edit it.",
+      "label": "Quick capture",
+      "placeholder": "Describe the task in one line…",
+      "recurrence": {
+        "daily": "Daily",
+        "intervalDaily": "Every {interval} days",
+        "intervalMonthly": "Every {interval} months",
+        "intervalWeekly": "Every {interval} weeks",
+        "intervalYearly": "Every {interval} years",
+        "monthly": "Monthly",
+        "weekly": "Weekly",
+        "yearly": "Yearly"
+      },
+      "remove": "Remove",
+      "repeat": "Repeat",
+      "selectUser": "Select user",
+      "tagNotFound": "Tag not found, it will be ignored",
+      "userNotFound": "User not found, the task will be unassigned"
+    },
+    "recurrence": {
+      "ended": "The series has ended",
+      "fixedScheduleHint": "The next instance is created when the current one is due, even if it is not completed.",
+      "mode": "Create next instance",
+      "modes": {
+        "fixedSchedule": "On a fixed schedule",
+        "onCompletion": "When completed"
+      },
+      "onCompletionHint": "The next instance is created when this one is completed, counting from the completion date.",
+      "upcoming": "Upcoming occurrences"
+    },
     "savedViews": {
       "ascending": "Ascending",
       "clearView": "Clear View",
@@ -271,6 +397,32 @@ export const translations = {
       "sortDirection": "Sort Direction",
       "title": "Title"
     },
+    "scheduler": {
+      "bookedOfCapacity": "{hours}h booked of {capacity}h",
+      "dailyCapacity": "Daily capacity",
+      "dragHint": "Drag a task to another person to reassign it or to another day to reschedule it.",
+      "empty": "No users to plan",
+      "load": {
+        "high": "Near capacity",
+        "low": "Light",
+        "medium": "Moderate",
+        "over": "Overloaded"
+      },
+      "loading": "Loading scheduler...",
+      "moveError": "Could not move the task",
+      "moveSuccess": "Task updated",
+      "next": "Next",
+      "noEstimate": "No estimate",
+      "previous": "Previous",
+      "range": {
+        "month": "Month",
+        "week": "Week"
+      },
+      "resource": "Resource",
+      "today": "Today",
+      "unassigned": "Unassigned",
+      "unknownUser": "Unknown user"
+    },
     "settings": {
       "board": "Board",
       "boardDescription": "Board Description",
@@ -371,8 +523,16 @@ export const translations = {
       "editStatus": "Edit Status",
       "name": "Name",
       "system": "System",
+      "systemWipHint": "System statuses only allow changing the WIP limit.",
       "title": "Title",
-      "type": "Type"
+      "type": "Type",
+      "wipLimit": "WIP limit",
+      "wipLimitHint": "Maximum number of tasks in the board column. Leave empty for no limit.",
+      "wipPolicies": {
+        "block": "Block new tasks",
+        "warn": "Show a warning"
+      },
+      "wipPolicy": "When the limit is reached"
     },
     "statusManager": {
       "color": "Color",
@@ -422,20 +582,42 @@ export const translations = {
     "tabs": {
       "board": "Board",
       "calendar": "Calendar",
+      "gantt": "Gantt",
       "inbox": "Inbox",
       "list": "List",
+      "scheduler": "Scheduler",
       "stats": "Stats",
-      "taskBoard": "Task Board"
+      "taskBoard": "Task Board",
+      "timesheet": "Timesheet"
     },
     "templates": {
       "createError": "Create Error",
       "createErrorDescription": "Create Error Description",
       "createSuccess": "Create Success",
       "createSuccessDescription": "Create Success Description",
+      "fromTemplate": "From template",
       "saveError": "Save Error",
       "saveErrorDescription": "Save Error Description",
       "saveSuccess": "Save Success",
-      "saveSuccessDescription": "Save Success Description"
+      "saveSuccessDescription": "Save Success Description",
+      "tree": {
+        "create": "Create {count} tasks",
+        "creating": "Creating tasks...",
+        "issues": {
+          "dependencyCycle": "The template dependencies form a cycle",
+          "duplicateKey": "Duplicate template task key: {key}",
+          "invalidOffset": "Task {key} has an invalid date offset",
+          "tooDeep": "Task {key} exceeds the maximum subtask depth",
+          "unknownDependency": "Task {key} depends on a task that is not in the template"
+        },
+        "missingVariables": "Fill in the required variables to continue",
+        "preview": "Tasks to create ({count})",
+        "roles": "Assignees by role",
+        "startDate": "Start date",
+        "title": "Project title",
+        "unassigned": "Unassigned",
+        "variables": "Template variables"
+      }
     },
     "timeReports": {
       "allTime": "All Time",
@@ -466,6 +648,41 @@ export const translations = {
       "title": "Title",
       "totalTracked": "Total Tracked"
     },
+    "timesheet": {
+      "addTask": "Add task",
+      "approvalTitle": "Timesheet {week}",
+      "approvedHint": "This week has been approved.",
+      "dailyLimitExceeded": "Some days exceed the daily limit of {limit} h",
+      "dailyTotal": "Daily total",
+      "empty": "Log some hours before submitting the week",
+      "flow": "Approval flow",
+      "hint": "Enter hours per task and day (e.g. 1.5 or 1:30). Maximum {limit} h per day.",
+      "invalidHours": "Some cells have invalid hours",
+      "nextWeek": "Next week",
+      "noFlow": "There is no active approval flow for tasks. Ask an administrator to create one.",
+      "noMoreTasks": "All your tasks are already in the timesheet",
+      "noRows": "Add a task to start logging hours for this week.",
+      "previousWeek": "Previous week",
+      "removeRow": "Remove row",
+      "saveDraft": "Save draft",
+      "saveError": "Could not save the timesheet",
+      "saved": "Timesheet saved",
+      "statuses": {
+        "approved": "Approved",
+        "draft": "Draft",
+        "rejected": "Rejected",
+        "submitted": "Pending approval"
+      },
+      "submitError": "Could not submit the week",
+      "submitWeek": "Submit week",
+      "submitted": "Week submitted for approval",
+      "submittedHint": "This week is waiting for approval and cannot be edited.",
+      "task": "Task",
+      "thisWeek": "This week",
+      "title": "Weekly timesheet",
+      "total": "Total",
+      "unknownTask": "Task not available"
+    },
     "title": "Title",
     "titlePlaceholder": "Title Placeholder",
     "to": "To",
@@ -103,18 +103,37 @@ export const translations = {
     "all": "Todos",
     "assignedTo": "Assigned To",
     "board": {
+      "collapseColumn": "Contraer columna",
       "createTaskInStatus": "Crear tarea In estado",
       "dragDropHint": "Drag Drop Hint",
       "emptyColumn": "Vacio Column",
+      "expandColumn": "Expandir columna",
       "invalidStatus": "Invalid estado",
+      "swimlanes": {
+        "assignee": "Responsable",
+        "label": "Carriles",
+        "noTag": "Sin etiqueta",
+        "none": "Ninguno",
+        "priority": "Prioridad",
+        "tag": "Etiqueta",
+        "unassigned": "Sin asignar"
+      },
       "taskMoveError": "Tarea Move error",
-      "taskMovedSuccess": "Tarea Moved Success"
+      "taskMovedSuccess": "Tarea Moved Success",
+      "wipBlocked": "{status} alcanzó su límite WIP de {limit} tareas",
+      "wipExceeded": "Límite WIP superado",
+      "wipLimit": "Límite WIP: {limit}"
     },
     "bulkActions": {
       "changePriority": "Change prioridad",
       "changeStatus": "Change estado",
       "delete": "Eliminar",
-      "selected": "Selected"
+      "error": "No se pudo completar la acción masiva",
+      "partialError": "{failed} de {count} tareas no se pudieron actualizar",
+      "selectAll": "Seleccionar todas",
+      "selectTask": "Seleccionar \"{task}\"",
+      "selected": "Selected",
+      "success": "{count} tareas actualizadas"
     },
     "calendarSync": {
       "description": "Descripcion",
@@ -160,6 +179,17 @@ export const translations = {
     "createdSuccess": "Created Success",
     "deleteConfirm": "Eliminar Confirm",
     "deleteSuccess": "Eliminar Success",
+    "dependencies": {
+      "applyCascade": "Aplicar todos los cambios",
+      "applyTaskOnly": "Mover solo esta tarea",
+      "cascadeDescription": "Mover \"{task}\" afecta a {count} tareas dependientes. Revisa las nuevas fechas antes de aplicarlas.",
+      "cascadeError": "No se pudieron calcular los cambios en las tareas dependientes",
+      "cascadeTitle": "¿Reprogramar las tareas dependientes?",
+      "partialFailure": "No se pudieron actualizar las fechas de {tasks}; el resto de cambios se aplicó",
+      "revert": "Revertir",
+      "revertError": "No se pudieron revertir las fechas de {tasks}",
+      "reverted": "Fechas restauradas"
+    },
     "description": "Descripcion",
     "descriptionPlaceholder": "Descripcion placeholder",
     "details": "Detalles",
@@ -203,6 +233,41 @@ export const translations = {
     "filtersTo": "Filtros To",
     "filtersToLabel": "Filtros To Label",
     "from": "From",
+    "gantt": {
+      "criticalPath": "Ruta crítica",
+      "criticalPathShort": "RC",
+      "dependenciesError": "No se pudieron cargar las dependencias: las flechas y la ruta crítica no se muestran",
+      "dragHint": "Arrastra las barras para reprogramar y sus bordes para cambiar la duración",
+      "empty": "No hay tareas con fechas para mostrar en la línea de tiempo",
+      "task": "Tarea",
+      "unscheduled": "{count} tareas sin fechas no se muestran",
+      "updateError": "Error al actualizar las fechas de la tarea",
+      "updateSuccess": "Fechas de la tarea actualizadas",
+      "zoom": {
+        "day": "Días",
+        "week": "Semanas"
+      }
+    },
+    "history": {
+      "actions": {
+        "bulkAssign": "asignación de {count} tareas",
+        "bulkDelete": "eliminación de {count} tareas",
+        "bulkPriority": "prioridad de {count} tareas",
+        "bulkStatus": "estado de {count} tareas",
+        "create": "tarea creada",
+        "delete": "tarea eliminada",
+        "move": "tarea movida",
+        "update": "tarea editada"
+      },
+      "error": "No se pudo revertir el cambio",
+      "nothingToRedo": "No hay nada que rehacer",
+      "nothingToUndo": "No hay nada que deshacer",
+      "partialError": "El paso no se pudo completar en {failed} de {count} tareas",
+      "redo": "Rehacer",
+      "redone": "Rehecho: {action}",
+      "undo": "Deshacer",
+      "undone": "Deshecho: {action}"
+    },
     "inbox": {
       "assignMe": "Assign Me",
       "bulkAction": "Bulk accion",
@@ -219,6 +284,31 @@ export const translations = {
     "infoNote": {
       "addFilesAndComments": "Add archivos y comentarios"
     },
+    "list": {
+      "collapseGroup": "Contraer grupo",
+      "dueBuckets": {
+        "later": "Más adelante",
+        "noDate": "Sin fecha",
+        "overdue": "Vencidas",
+        "thisWeek": "Esta semana",
+        "today": "Hoy"
+      },
+      "expandGroup": "Expandir grupo",
+      "groupBy": "Agrupar por",
+      "groupByOptions": {
+        "assignee": "Responsable",
+        "due": "Vencimiento",
+        "none": "Sin agrupar",
+        "priority": "Prioridad",
+        "status": "Estado",
+        "tag": "Etiqueta"
+      },
+      "noTag": "Sin etiqueta",
+      "resetLayout": "Restablecer orden y columnas",
+      "resizeColumn": "Redimensionar columna",
+      "sortHint": "Clic para ordenar, Mayús+clic para añadir un nivel de orden",
+      "unassigned": "Sin asignar"
+    },
     "loading": "Cargando",
     "modules": {
       "projects": "Projects",
@@ -249,6 +339,42 @@ export const translations = {
     },
     "quickAddDescription": "Rapidas Add descripcion",
     "quickAddPlaceholder": "Rapidas Add placeholder",
+    "quickCapture": {
+      "assignee": "Responsable",
+      "create": "Crear",
+      "created": "Tarea creada",
+      "dueDate": "Fecha de vencimiento",
+      "error": "No se pudo crear la tarea",
+      "hint": "Prueba \"Llamar a Ana mañana 10am #ventas !alta @maria cada lunes\". Haz clic en un chip para editarlo.",
+      "label": "Captura rápida",
+      "placeholder": "Describe la tarea en una línea…",
+      "recurrence": {
+        "daily": "Diaria",
+        "intervalDaily": "Cada {interval} días",
+        "intervalMonthly": "Cada {interval} meses",
+        "intervalWeekly": "Cada {interval} semanas",
+        "intervalYearly": "Cada {interval} años",
+        "monthly": "Mensual",
+        "weekly": "Semanal",
+        "yearly": "Anual"
+      },
+      "remove": "Quitar",
+      "repeat": "Repetir",
+      "selectUser": "Seleccionar usuario",
+      "tagNotFound": "Etiqueta no encontrada, se ignorará",
+      "userNotFound": "Usuario no encontrado, la tarea quedará sin asignar"
+    },
+    "recurrence": {
+      "ended": "La serie ha finalizado",
+      "fixedScheduleHint": "La siguiente instancia se crea al vencer la actual, aunque no se haya completado.",
+      "mode": "Crear siguiente instancia",
+      "modes": {
+        "fixedSchedule": "Según calendario fijo",
+        "onCompletion": "Al completarse"
+      },
+      "onCompletionHint": "La siguiente instancia se crea al completar esta, contando desde la fecha de finalización.",
+      "upcoming": "Próximas ocurrencias"
+    },
     "savedViews": {
       "ascending": "Ascending",
       "clearView": "Limpiar View",
@@ -271,6 +397,32 @@ export const translations = {
       "sortDirection": "Sort Direction",
       "title": "Titulo"
     },
+    "scheduler": {
+      "bookedOfCapacity": "{hours}h reservadas de {capacity}h",
+      "dailyCapacity": "Capacidad diaria",
+      "dragHint": "Arrastra una tarea a otra persona para reasignarla o a otro día para reprogramarla.",
+      "empty": "No hay usuarios para planificar",
+      "load": {
+        "high": "Cerca del límite",
+        "low": "Ligera",
+        "medium": "Moderada",
+        "over": "Sobrecarga"
+      },
+      "loading": "Cargando planificador...",
+      "moveError": "No se pudo mover la tarea",
+      "moveSuccess": "Tarea actualizada",
+      "next": "Siguiente",
+      "noEstimate": "Sin estimación",
+      "previous": "Anterior",
+      "range": {
+        "month": "Mes",
+        "week": "Semana"
+      },
+      "resource": "Recurso",
+      "today": "Hoy",
+      "unassigned": "Sin asignar",
+      "unknownUser": "Usuario desconocido"
+    },
     "settings": {
       "board": "Tablero",
       "boardDescription": "Tablero descripcion",
@@ -371,8 +523,16 @@ export const translations = {
       "editStatus": "Editar estado",
       "name": "Nombre",
       "system": "System",
+      "systemWipHint": "En los estados del sistema solo se puede cambiar el límite WIP.",
       "title": "Titulo",
-      "type": "Type"
+      "type": "Type",
+      "wipLimit": "Límite WIP",
+      "wipLimitHint": "Número máximo de tareas en la columna del tablero. Déjalo vacío para no limitar.",
+      "wipPolicies": {
+        "block": "Bloquear nuevas tareas",
+        "warn": "Mostrar aviso"
+      },
+      "wipPolicy": "Al alcanzar el límite"
     },
     "statusManager": {
       "color": "Color",
@@ -422,20 +582,42 @@ export const translations = {
     "tabs": {
       "board": "Tablero",
       "calendar": "Calendario",
+      "gantt": "Gantt",
       "inbox": "Bandeja",
       "list": "Lista",
+      "scheduler": "Planificador",
       "stats": "Estadisticas",
-      "taskBoard": "Tarea tablero"
+      "taskBoard": "Tarea tablero",
+      "timesheet": "Hoja de horas"
     },
     "templates": {
       "createError": "Crear error",
       "createErrorDescription": "Crear error descripcion",
       "createSuccess": "Crear Success",
       "createSuccessDescription": "Crear Success descripcion",
+      "fromTemplate": "Desde template",
       "saveError": "Guardar error",
       "saveErrorDescription": "Guardar error descripcion",
       "saveSuccess": "Guardar Success",
-      "saveSuccessDescription": "Guardar Success descripcion"
+      "saveSuccessDescription": "Guardar Success descripcion",
+      "tree": {
+        "create": "Crear {count} tareas",
+        "creating": "Creando tareas...",
+        "issues": {
+          "dependencyCycle": "Las dependencias del template forman un ciclo",
+          "duplicateKey": "Clave de tarea duplicada en el template: {key}",
+          "invalidOffset": "La tarea {key} tiene un desplazamiento de fecha no válido",
+          "tooDeep": "La tarea {key} supera la profundidad máxima de subtareas",
+          "unknownDependency": "La tarea {key} depende de una tarea que no está en el template"
+        },
+        "missingVariables": "Completa las variables obligatorias para continuar",
+        "preview": "Tareas a crear ({count})",
+        "roles": "Responsables por rol",
+        "startDate": "Fecha de inicio",
+        "title": "Título del proyecto",
+        "unassigned": "Sin asignar",
+        "variables": "Variables del template"
+      }
     },
     "timeReports": {
       "allTime": "Todos Time",
@@ -466,6 +648,41 @@ export const translations = {
       "title": "Titulo",
       "totalTracked": "Total rastreado"
     },
+    "timesheet": {
+      "addTask": "Añadir tarea",
+      "approvalTitle": "Hoja de horas {week}",
+      "approvedHint": "Esta semana ha sido aprobada.",
+      "dailyLimitExceeded": "Algunos días superan el límite diario de {limit} h",
+      "dailyTotal": "Total diario",
+      "empty": "Registra alguna hora antes de enviar la semana",
+      "flow": "Flujo de aprobación",
+      "hint": "Introduce las horas por tarea y día (p. ej. 1,5 o 1:30). Máximo {limit} h por día.",
+      "invalidHours": "Hay celdas con horas no válidas",
+      "nextWeek": "Semana siguiente",
+      "noFlow": "No hay un flujo de aprobación activo para tareas. Pide a un administrador que cree uno.",
+      "noMoreTasks": "Todas tus tareas ya están en la hoja",
+      "noRows": "Añade una tarea para empezar a registrar horas esta semana.",
+      "previousWeek": "Semana anterior",
+      "removeRow": "Quitar fila",
+      "saveDraft": "Guardar borrador",
+      "saveError": "No se pudo guardar la hoja de horas",
+      "saved": "Hoja de horas guardada",
+      "statuses": {
+        "approved": "Aprobada",
+        "draft": "Borrador",
+        "rejected": "Rechazada",
+        "submitted": "Pendiente de aprobación"
+      },
+      "submitError": "No se pudo enviar la semana",
+      "submitWeek": "Enviar semana",
+      "submitted": "Semana enviada a aprobación",
+      "submittedHint": "Esta semana está pendiente de aprobación y no se puede editar.",
+      "task": "Tarea",
+      "thisWeek": "Esta semana",
+      "title": "Hoja de horas semanal",
+      "total": "Total",
+      "unknownTask": "Tarea no disponible"
+    },
     "title": "Tareas",
     "titlePlaceholder": "Titulo placeholder",
     "to": "To",
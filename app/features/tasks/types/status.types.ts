@@ -11,12 +11,17 @@ export interface TaskStatus {
   type: TaskStatusType;
   order: number;
   is_system: boolean;
+  wip_limit?: number | null;
+  wip_policy?: WipPolicy;
   created_at: string;
   updated_at: string;
 }
 
 export type TaskStatusType = 'open' | 'in_progress' | 'on_hold' | 'completed' | 'canceled' | 'closed';
 
+// What happens when a board column reaches its WIP limit
+export type WipPolicy = 'warn' | 'block';
+
 export interface TaskStatusCreate {
   name: string;
   color?: string;
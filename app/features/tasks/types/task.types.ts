@@ -17,6 +17,7 @@ export interface Task {
   start_at?: string | null;
   end_at?: string | null;
   all_day?: boolean;
+  estimated_duration?: number; // Minutes
   tag_ids?: string[] | null;
   color_override?: string | null;
   completed_at?: string;
@@ -31,6 +32,10 @@ export interface Task {
   source_module?: string; // e.g., 'projects', 'workflows'
   source_id?: string; // ID of source entity
   source_context?: Record<string, unknown>; // Additional context from source module
+  // Recurrence (RFC 5545 RRULE)
+  recurrence_rule?: string | null;
+  recurrence_mode?: TaskRecurrenceMode | null;
+  recurrence_parent_id?: string | null; // First task of the series
   // Subtask hierarchy
   parent_task_id?: string | null;
   subtasks?: Task[];
@@ -52,6 +57,7 @@ export interface TaskCreate {
   start_at?: string | null;
   end_at?: string | null;
   all_day?: boolean;
+  estimated_duration?: number; // Minutes
   tag_ids?: string[] | null;
   color_override?: string | null;
   checklist?: ChecklistItem[];
@@ -60,8 +66,13 @@ export interface TaskCreate {
   source_module?: string;
   source_id?: string;
   source_context?: Record<string, unknown>;
+  // Recurrence (RFC 5545 RRULE)
+  recurrence_rule?: string | null;
+  recurrence_mode?: TaskRecurrenceMode | null;
+  recurrence_parent_id?: string | null;
   // Subtask hierarchy
   parent_task_id?: string | null;
+  template_id?: string | null;
   // Legacy fields
   related_entity_type?: string;
   related_entity_id?: string;
@@ -74,10 +85,11 @@ export interface TaskUpdate {
   assigned_to_id?: string | null;
   status?: TaskStatus;
   priority?: TaskPriority;
-  due_date?: string;
+  due_date?: string | null;
   start_at?: string | null;
   end_at?: string | null;
   all_day?: boolean;
+  estimated_duration?: number; // Minutes
   tag_ids?: string[] | null;
   color_override?: string | null;
   checklist?: ChecklistItem[];
@@ -86,6 +98,10 @@ export interface TaskUpdate {
   status_id?: string | null;
   board_order?: number | null;
   template_id?: string | null;
+  // Recurrence (RFC 5545 RRULE)
+  recurrence_rule?: string | null;
+  recurrence_mode?: TaskRecurrenceMode | null;
+  recurrence_parent_id?: string | null;
   // Subtask hierarchy
   parent_task_id?: string | null;
   // Multi-module integration
@@ -101,6 +117,10 @@ export interface TaskListParams {
   status?: TaskStatus;
   assigned_to_id?: string; // UUID from backend
   priority?: TaskPriority;
+  ids?: string[]; // Only these tasks
+  // Tasks scheduled or due within the range (yyyy-MM-dd, inclusive)
+  start_date?: string;
+  end_date?: string;
 }
 
 // Task template types
@@ -113,6 +133,12 @@ export interface TaskTemplate {
   estimated_hours?: number;
   default_status_id?: string;
   checklist_items?: ChecklistItem[];
+  // Project templates: whole subtask tree created at once
+  priority?: TaskPriority;
+  default_role?: string | null; // Role whose user is assigned to the root task
+  due_offset?: string | null; // Relative to the start date, e.g. "+30d"
+  subtasks?: TaskTemplateNode[];
+  variables?: TaskTemplateVariable[]; // Prompted for {{key}} placeholders
   usage_count?: number;
   created_by_id: string;
   created_at: string;
@@ -126,6 +152,37 @@ export interface TaskTemplateCreate {
   estimated_hours?: number;
   default_status_id?: string;
   checklist_items?: ChecklistItem[];
+  priority?: TaskPriority;
+  default_role?: string | null;
+  due_offset?: string | null;
+  subtasks?: TaskTemplateNode[];
+  variables?: TaskTemplateVariable[];
+}
+
+// Task inside a template tree. Offsets ("+2d", "-4h", "+1w") are relative to
+// the start of the parent task.
+export interface TaskTemplateNode {
+  key: string; // Unique within the template, referenced by depends_on
+  title: string;
+  description?: string;
+  priority?: TaskPriority;
+  estimated_hours?: number;
+  start_offset?: string | null;
+  due_offset?: string | null;
+  default_role?: string | null;
+  depends_on?: string[]; // Keys of template tasks that must finish first
+  checklist_items?: ChecklistItem[];
+  subtasks?: TaskTemplateNode[];
+}
+
+export type TaskTemplateVariableType = "text" | "number" | "date";
+
+export interface TaskTemplateVariable {
+  key: string;
+  label: string;
+  type?: TaskTemplateVariableType;
+  required?: boolean;
+  default_value?: string;
 }
 
 // Task assignment types
@@ -258,6 +315,9 @@ export type TaskStatus =
 // Task priority values
 export type TaskPriority = "low" | "medium" | "high" | "urgent";
 
+// How the next instance of a recurring task is created
+export type TaskRecurrenceMode = "on_completion" | "fixed_schedule";
+
 // Agenda item types
 export interface AgendaItem {
   id: string;
@@ -280,6 +340,8 @@ export interface AgendaListParams {
   start_date?: string;
   end_date?: string;
   sources?: string;
+  // Agenda of another user (the current user's by default)
+  user_id?: string;
 }
 
 // Calendar source types
@@ -326,7 +388,9 @@ export interface SavedView {
   sort_config: {
     field: string;
     direction: "asc" | "desc";
+    then_by?: TaskSortKey[]; // Secondary keys, applied in order
   };
+  group_by?: TaskGroupBy;
   column_config: Record<
     string,
     {
@@ -342,6 +406,19 @@ export interface SavedView {
   updated_at: string;
 }
 
+export interface TaskSortKey {
+  field: string;
+  direction: "asc" | "desc";
+}
+
+export type TaskGroupBy =
+  | "none"
+  | "status"
+  | "assignee"
+  | "priority"
+  | "tag"
+  | "due";
+
 // View creation payload
 export interface ViewCreate {
   name: string;
@@ -349,6 +426,35 @@ export interface ViewCreate {
   filters: SavedView["filters"];
   sort_config: SavedView["sort_config"];
   column_config: SavedView["column_config"];
+  group_by?: TaskGroupBy;
   is_default?: boolean;
   is_public?: boolean;
 }
+
+// Timesheet types
+export type TimesheetStatus = "draft" | "submitted" | "approved" | "rejected";
+
+export interface TimesheetEntry {
+  task_id: string;
+  date: string; // yyyy-MM-dd
+  hours: number;
+}
+
+export interface Timesheet {
+  id: string;
+  tenant_id: string;
+  user_id: string;
+  week_start: string; // yyyy-MM-dd (Monday)
+  status: TimesheetStatus;
+  entries: TimesheetEntry[];
+  total_hours: number;
+  approval_request_id?: string | null;
+  submitted_at?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Timesheet update payload
+export interface TimesheetUpdate {
+  entries: TimesheetEntry[];
+}
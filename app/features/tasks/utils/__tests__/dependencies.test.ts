@@ -0,0 +1,177 @@
+/**
+ * Tests para utilidades de dependencias y reprogramación en cascada
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  dedupeDependencies,
+  getDownstreamTaskIds,
+  topologicalSort,
+  wouldCreateDependencyCycle,
+} from "../dependencies";
+import { computeScheduleCascade } from "../scheduling";
+import type { Task } from "~/features/tasks/types/task.types";
+import type { TaskDependency } from "~/features/tasks/hooks/useDependencies";
+
+const makeTask = (overrides: Partial<Task> = {}): Task => ({
+  id: "task-1",
+  tenant_id: "tenant-1",
+  title: "Test Task",
+  description: "",
+  assigned_to_id: null,
+  created_by_id: null,
+  status: "todo",
+  priority: "medium",
+  checklist: [],
+  created_at: "2026-01-01T00:00:00Z",
+  updated_at: "2026-01-01T00:00:00Z",
+  ...overrides,
+});
+
+const makeDep = (
+  dependsOnId: string,
+  taskId: string,
+  type = "finish_to_start"
+): TaskDependency => ({
+  id: `${dependsOnId}-${taskId}`,
+  task_id: taskId,
+  depends_on_id: dependsOnId,
+  dependency_type: type,
+  created_at: "2026-01-01T00:00:00Z",
+});
+
+const day = (date: string) => new Date(`2026-03-${date}T00:00:00Z`);
+
+describe("topologicalSort", () => {
+  it("ordena predecesoras antes que sucesoras", () => {
+    const order = topologicalSort(
+      ["c", "b", "a"],
+      [makeDep("a", "b"), makeDep("b", "c")]
+    );
+    expect(order).toEqual(["a", "b", "c"]);
+  });
+
+  it("devuelve null si hay un ciclo", () => {
+    expect(
+      topologicalSort(["a", "b"], [makeDep("a", "b"), makeDep("b", "a")])
+    ).toBeNull();
+  });
+});
+
+describe("dedupeDependencies", () => {
+  it("elimina enlaces repetidos", () => {
+    const dep = makeDep("a", "b");
+    expect(dedupeDependencies([dep, { ...dep }])).toHaveLength(1);
+  });
+});
+
+describe("wouldCreateDependencyCycle", () => {
+  const deps = [makeDep("a", "b"), makeDep("b", "c")];
+
+  it("detecta auto-dependencia", () => {
+    expect(wouldCreateDependencyCycle("a", "a", [])).toBe(true);
+  });
+
+  it("detecta ciclo directo", () => {
+    expect(wouldCreateDependencyCycle("a", "b", deps)).toBe(true);
+  });
+
+  it("detecta ciclo indirecto", () => {
+    expect(wouldCreateDependencyCycle("a", "c", deps)).toBe(true);
+  });
+
+  it("permite enlaces sin ciclo", () => {
+    expect(wouldCreateDependencyCycle("c", "a", deps)).toBe(false);
+  });
+});
+
+describe("getDownstreamTaskIds", () => {
+  it("recoge sucesoras directas e indirectas", () => {
+    const ids = getDownstreamTaskIds("a", [
+      makeDep("a", "b"),
+      makeDep("b", "c"),
+      makeDep("x", "y"),
+    ]);
+    expect([...ids].sort()).toEqual(["b", "c"]);
+  });
+});
+
+describe("computeScheduleCascade", () => {
+  const tasks = [
+    makeTask({
+      id: "a",
+      start_at: "2026-03-01T00:00:00Z",
+      end_at: "2026-03-03T00:00:00Z",
+    }),
+    makeTask({
+      id: "b",
+      start_at: "2026-03-03T00:00:00Z",
+      end_at: "2026-03-05T00:00:00Z",
+    }),
+    makeTask({
+      id: "c",
+      start_at: "2026-03-05T00:00:00Z",
+      end_at: "2026-03-06T00:00:00Z",
+    }),
+  ];
+
+  it("empuja en cascada las sucesoras finish_to_start", () => {
+    const shifts = computeScheduleCascade(
+      tasks,
+      [makeDep("a", "b"), makeDep("b", "c")],
+      "a",
+      { start: day("02"), end: day("04") }
+    );
+    expect(shifts.map((shift) => shift.task.id)).toEqual(["b", "c"]);
+    expect(shifts[0]!.to).toEqual({ start: day("04"), end: day("06") });
+    expect(shifts[1]!.to).toEqual({ start: day("06"), end: day("07") });
+  });
+
+  it("no mueve sucesoras si se adelanta la predecesora", () => {
+    const shifts = computeScheduleCascade(tasks, [makeDep("a", "b")], "a", {
+      start: day("01"),
+      end: day("02"),
+    });
+    expect(shifts).toEqual([]);
+  });
+
+  it("respeta start_to_start", () => {
+    const shifts = computeScheduleCascade(
+      tasks,
+      [makeDep("a", "b", "start_to_start")],
+      "a",
+      { start: day("04"), end: day("06") }
+    );
+    expect(shifts[0]!.to).toEqual({ start: day("04"), end: day("06") });
+  });
+
+  it("respeta finish_to_finish", () => {
+    const shifts = computeScheduleCascade(
+      tasks,
+      [makeDep("a", "b", "finish_to_finish")],
+      "a",
+      { start: day("04"), end: day("07") }
+    );
+    expect(shifts[0]!.to).toEqual({ start: day("05"), end: day("07") });
+  });
+
+  it("respeta start_to_finish", () => {
+    const shifts = computeScheduleCascade(
+      tasks,
+      [makeDep("a", "b", "start_to_finish")],
+      "a",
+      { start: day("08"), end: day("09") }
+    );
+    expect(shifts[0]!.to).toEqual({ start: day("06"), end: day("08") });
+  });
+
+  it("no calcula cascada si hay ciclos", () => {
+    const shifts = computeScheduleCascade(
+      tasks,
+      [makeDep("a", "b"), makeDep("b", "a")],
+      "a",
+      { start: day("02"), end: day("04") }
+    );
+    expect(shifts).toEqual([]);
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * Tests para utilidades del diagrama de Gantt
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  getTaskSchedule,
+  buildGanttBars,
+  buildScheduleUpdate,
+  shiftSchedule,
+  computeCriticalPath,
+} from "../gantt";
+import type { Task } from "~/features/tasks/types/task.types";
+import type { TaskDependency } from "~/features/tasks/hooks/useDependencies";
+
+const makeTask = (overrides: Partial<Task> = {}): Task => ({
+  id: "task-1",
+  tenant_id: "tenant-1",
+  title: "Test Task",
+  description: "",
+  assigned_to_id: null,
+  created_by_id: null,
+  status: "todo",
+  priority: "medium",
+  checklist: [],
+  created_at: "2026-01-01T00:00:00Z",
+  updated_at: "2026-01-01T00:00:00Z",
+  ...overrides,
+});
+
+const makeDep = (
+  dependsOnId: string,
+  taskId: string,
+  type = "finish_to_start"
+): TaskDependency => ({
+  id: `${dependsOnId}-${taskId}`,
+  task_id: taskId,
+  depends_on_id: dependsOnId,
+  dependency_type: type,
+  created_at: "2026-01-01T00:00:00Z",
+});
+
+describe("getTaskSchedule", () => {
+  it("usa start_at y end_at cuando existen", () => {
+    const schedule = getTaskSchedule(
+      makeTask({
+        start_at: "2026-03-02T09:00:00Z",
+        end_at: "2026-03-04T18:00:00Z",
+      })
+    );
+    expect(schedule?.start.toISOString()).toBe("2026-03-02T09:00:00.000Z");
+    expect(schedule?.end.toISOString()).toBe("2026-03-04T18:00:00.000Z");
+  });
+
+  it("dibuja una barra de un día terminando en due_date", () => {
+    const schedule = getTaskSchedule(
+      makeTask({ due_date: "2026-03-10T00:00:00Z" })
+    );
+    expect(schedule?.start.toISOString()).toBe("2026-03-09T00:00:00.000Z");
+    expect(schedule?.end.toISOString()).toBe("2026-03-10T00:00:00.000Z");
+  });
+
+  it("devuelve null si la tarea no tiene fechas", () => {
+    expect(getTaskSchedule(makeTask())).toBeNull();
+  });
+});
+
+describe("buildGanttBars", () => {
+  it("omite tareas sin fechas y ordena por inicio", () => {
+    const bars = buildGanttBars([
+      makeTask({ id: "b", start_at: "2026-03-05T00:00:00Z" }),
+      makeTask({ id: "none" }),
+      makeTask({ id: "a", start_at: "2026-03-01T00:00:00Z" }),
+    ]);
+    expect(bars.map((bar) => bar.task.id)).toEqual(["a", "b"]);
+  });
+});
+
+describe("shiftSchedule", () => {
+  const schedule = {
+    start: new Date("2026-03-02T00:00:00Z"),
+    end: new Date("2026-03-05T00:00:00Z"),
+  };
+
+  it("mueve inicio y fin al arrastrar", () => {
+    const result = shiftSchedule(schedule, 2, "move");
+    expect(result.start.toISOString()).toBe("2026-03-04T00:00:00.000Z");
+    expect(result.end.toISOString()).toBe("2026-03-07T00:00:00.000Z");
+  });
+
+  it("no reduce la barra por debajo de un día", () => {
+    const result = shiftSchedule(schedule, -5, "resize-end");
+    expect(result.start.toISOString()).toBe("2026-03-02T00:00:00.000Z");
+    expect(result.end.toISOString()).toBe("2026-03-03T00:00:00.000Z");
+  });
+});
+
+describe("buildScheduleUpdate", () => {
+  it("desplaza due_date junto con el fin de la barra", () => {
+    const task = makeTask({
+      start_at: "2026-03-02T00:00:00Z",
+      due_date: "2026-03-05T00:00:00Z",
+    });
+    const update = buildScheduleUpdate(task, {
+      start: new Date("2026-03-03T00:00:00Z"),
+      end: new Date("2026-03-06T00:00:00Z"),
+    });
+    expect(update).toEqual({
+      start_at: "2026-03-03T00:00:00.000Z",
+      end_at: "2026-03-06T00:00:00.000Z",
+      due_date: "2026-03-06T00:00:00.000Z",
+    });
+  });
+});
+
+describe("computeCriticalPath", () => {
+  const tasks = [
+    makeTask({
+      id: "a",
+      start_at: "2026-03-01T00:00:00Z",
+      end_at: "2026-03-03T00:00:00Z",
+    }),
+    makeTask({
+      id: "b",
+      start_at: "2026-03-03T00:00:00Z",
+      end_at: "2026-03-08T00:00:00Z",
+    }),
+    makeTask({
+      id: "c",
+      start_at: "2026-03-03T00:00:00Z",
+      end_at: "2026-03-04T00:00:00Z",
+    }),
+    makeTask({
+      id: "d",
+      start_at: "2026-03-08T00:00:00Z",
+      end_at: "2026-03-09T00:00:00Z",
+    }),
+  ];
+
+  it("marca la cadena más larga como crítica", () => {
+    const critical = computeCriticalPath(buildGanttBars(tasks), [
+      makeDep("a", "b"),
+      makeDep("a", "c"),
+      makeDep("b", "d"),
+      makeDep("c", "d"),
+    ]);
+    expect([...critical].sort()).toEqual(["a", "b", "d"]);
+  });
+
+  it("calcula la holgura de dependencias start_to_start", () => {
+    // "a" puede empezar hasta dos días más tarde sin retrasar a "b"
+    const critical = computeCriticalPath(buildGanttBars(tasks.slice(0, 2)), [
+      makeDep("a", "b", "start_to_start"),
+    ]);
+    expect([...critical]).toEqual(["b"]);
+  });
+
+  it("devuelve un conjunto vacío si hay ciclos", () => {
+    const critical = computeCriticalPath(buildGanttBars(tasks), [
+      makeDep("a", "b"),
+      makeDep("b", "a"),
+    ]);
+    expect(critical.size).toBe(0);
+  });
+});
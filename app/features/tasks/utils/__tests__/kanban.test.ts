@@ -0,0 +1,148 @@
+/**
+ * Tests para utilidades del tablero Kanban
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  NO_LANE_ID,
+  applyWipSettings,
+  buildLaneUpdate,
+  buildSwimlanes,
+  getWipState,
+  isDropBlocked,
+} from "../kanban";
+import type { Task } from "~/features/tasks/types/task.types";
+import type { TaskStatus } from "~/features/tasks/types/status.types";
+
+const makeTask = (overrides: Partial<Task> = {}): Task => ({
+  id: "task-1",
+  tenant_id: "tenant-1",
+  title: "Test Task",
+  description: "",
+  assigned_to_id: null,
+  created_by_id: null,
+  status: "todo",
+  priority: "medium",
+  checklist: [],
+  created_at: "2026-01-01T00:00:00Z",
+  updated_at: "2026-01-01T00:00:00Z",
+  ...overrides,
+});
+
+const makeStatus = (overrides: Partial<TaskStatus> = {}): TaskStatus => ({
+  id: "in_progress",
+  tenant_id: "",
+  name: "En Progreso",
+  color: "#3b82f6",
+  type: "in_progress",
+  order: 1,
+  is_system: true,
+  created_at: "",
+  updated_at: "",
+  ...overrides,
+});
+
+describe("límites WIP", () => {
+  it("clasifica la columna según su límite", () => {
+    expect(getWipState(5, null)).toBe("ok");
+    expect(getWipState(2, 3)).toBe("ok");
+    expect(getWipState(3, 3)).toBe("at_limit");
+    expect(getWipState(4, 3)).toBe("over");
+  });
+
+  it("solo bloquea columnas con política block llenas", () => {
+    const status = makeStatus({ wip_limit: 3, wip_policy: "block" });
+    expect(isDropBlocked(status, 3)).toBe(true);
+    expect(isDropBlocked(status, 2)).toBe(false);
+    expect(isDropBlocked({ ...status, wip_policy: "warn" }, 5)).toBe(false);
+    expect(isDropBlocked({ ...status, wip_limit: null }, 5)).toBe(false);
+  });
+
+  it("toma los límites de las definiciones por id o por nombre", () => {
+    const [byName, byId, none] = applyWipSettings(
+      [
+        makeStatus(),
+        makeStatus({ id: "custom-1", name: "QA" }),
+        makeStatus({ id: "todo", name: "Por Hacer" }),
+      ],
+      [
+        { id: "def-1", name: "en progreso", wip_limit: 4, wip_policy: "block" },
+        { id: "custom-1", name: "Otro", wip_limit: 2 },
+      ]
+    );
+    expect(byName).toMatchObject({ wip_limit: 4, wip_policy: "block" });
+    expect(byId).toMatchObject({ wip_limit: 2 });
+    expect(none?.wip_limit).toBeUndefined();
+  });
+});
+
+describe("buildSwimlanes", () => {
+  it("devuelve un único carril sin agrupación", () => {
+    const tasks = [makeTask(), makeTask({ id: "task-2" })];
+    expect(buildSwimlanes(tasks, "none")).toEqual([{ id: NO_LANE_ID, tasks }]);
+  });
+
+  it("ordena los carriles de prioridad por urgencia", () => {
+    const lanes = buildSwimlanes(
+      [
+        makeTask({ id: "a", priority: "low" }),
+        makeTask({ id: "b", priority: "urgent" }),
+        makeTask({ id: "c", priority: "low" }),
+      ],
+      "priority"
+    );
+    expect(lanes.map((lane) => lane.id)).toEqual(["urgent", "low"]);
+    expect(lanes[1]?.tasks.map((task) => task.id)).toEqual(["a", "c"]);
+  });
+
+  it("ordena por etiqueta y deja al final las tareas sin responsable", () => {
+    const names: Record<string, string> = { u1: "Zoe", u2: "Ana" };
+    const lanes = buildSwimlanes(
+      [
+        makeTask({ id: "a", assigned_to_id: "u1" }),
+        makeTask({ id: "b" }),
+        makeTask({ id: "c", assigned_to_id: "u2" }),
+      ],
+      "assignee",
+      (laneId) => names[laneId] ?? ""
+    );
+    expect(lanes.map((lane) => lane.id)).toEqual(["u2", "u1", NO_LANE_ID]);
+  });
+
+  it("agrupa por la primera etiqueta de la tarea", () => {
+    const lanes = buildSwimlanes(
+      [makeTask({ tag_ids: ["t2", "t1"] }), makeTask({ id: "b", tag_ids: [] })],
+      "tag"
+    );
+    expect(lanes.map((lane) => lane.id)).toEqual(["t2", NO_LANE_ID]);
+  });
+});
+
+describe("buildLaneUpdate", () => {
+  it("no cambia nada si el carril es el mismo", () => {
+    const task = makeTask({ priority: "high" });
+    expect(buildLaneUpdate(task, "priority", "high")).toBeNull();
+    expect(buildLaneUpdate(task, "none", NO_LANE_ID)).toBeNull();
+  });
+
+  it("reasigna responsable y prioridad", () => {
+    const task = makeTask({ assigned_to_id: "u1" });
+    expect(buildLaneUpdate(task, "assignee", "u2")).toEqual({
+      assigned_to_id: "u2",
+    });
+    expect(buildLaneUpdate(task, "assignee", NO_LANE_ID)).toEqual({
+      assigned_to_id: null,
+    });
+    expect(buildLaneUpdate(task, "priority", "urgent")).toEqual({
+      priority: "urgent",
+    });
+  });
+
+  it("sustituye la etiqueta del carril anterior", () => {
+    const task = makeTask({ tag_ids: ["t1", "t2", "t3"] });
+    expect(buildLaneUpdate(task, "tag", "t3")).toEqual({
+      tag_ids: ["t3", "t2"],
+    });
+    expect(buildLaneUpdate(task, "tag", NO_LANE_ID)).toEqual({ tag_ids: [] });
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * Tests para el parser de captura rápida en lenguaje natural
+ */
+
+import { describe, it, expect } from "vitest";
+import { parseQuickTask, matchTag, matchUser } from "../quickAddParser";
+
+// Miércoles 4 de marzo de 2026, 12:00 (hora local)
+const NOW = new Date(2026, 2, 4, 12, 0);
+
+const localDate = (
+  year: number,
+  month: number,
+  day: number,
+  hours = 23,
+  minutes = 59
+) => new Date(year, month - 1, day, hours, minutes);
+
+describe("parseQuickTask", () => {
+  it("extrae fecha, hora, etiqueta, prioridad y responsable", () => {
+    const result = parseQuickTask(
+      "Llamar a Ana mañana 10am #ventas !alta @maria",
+      NOW
+    );
+    expect(result.title).toBe("Llamar a Ana");
+    expect(result.dueDate).toEqual(localDate(2026, 3, 5, 10, 0));
+    expect(result.hasTime).toBe(true);
+    expect(result.tags).toEqual(["ventas"]);
+    expect(result.priority).toBe("high");
+    expect(result.assignee).toBe("maria");
+    expect(result.tokens.map((token) => token.type)).toEqual([
+      "date",
+      "time",
+      "tag",
+      "priority",
+      "assignee",
+    ]);
+  });
+
+  it("entiende frases en inglés", () => {
+    const result = parseQuickTask(
+      "Send report next friday at 3pm !urgent #finance",
+      NOW
+    );
+    expect(result.title).toBe("Send report");
+    expect(result.dueDate).toEqual(localDate(2026, 3, 6, 15, 0));
+    expect(result.priority).toBe("urgent");
+    expect(result.tags).toEqual(["finance"]);
+  });
+
+  it("guarda el texto original de cada token con sus posiciones", () => {
+    const input = "Revisar contrato Mañana";
+    const [token] = parseQuickTask(input, NOW).tokens;
+    expect(token).toEqual({ type: "date", text: "Mañana", start: 17, end: 23 });
+  });
+
+  it("vence al final del día cuando no hay hora", () => {
+    const result = parseQuickTask("Pagar facturas hoy", NOW);
+    expect(result.dueDate).toEqual(localDate(2026, 3, 4));
+    expect(result.hasTime).toBe(false);
+  });
+
+  it("resuelve fechas relativas", () => {
+    expect(parseQuickTask("a pasado mañana", NOW).dueDate).toEqual(
+      localDate(2026, 3, 6)
+    );
+    expect(parseQuickTask("b en 3 días", NOW).dueDate).toEqual(
+      localDate(2026, 3, 7)
+    );
+    expect(parseQuickTask("c in 2 weeks", NOW).dueDate).toEqual(
+      localDate(2026, 3, 18)
+    );
+    expect(parseQuickTask("d el lunes", NOW).dueDate).toEqual(
+      localDate(2026, 3, 9)
+    );
+    // El mismo día de la semana apunta a la semana siguiente
+    expect(parseQuickTask("e miércoles", NOW).dueDate).toEqual(
+      localDate(2026, 3, 11)
+    );
+  });
+
+  it("resuelve fechas explícitas", () => {
+    expect(parseQuickTask("a 15/03", NOW).dueDate).toEqual(
+      localDate(2026, 3, 15)
+    );
+    expect(parseQuickTask("b 2026-04-01", NOW).dueDate).toEqual(
+      localDate(2026, 4, 1)
+    );
+    expect(parseQuickTask("c 20 de abril", NOW).dueDate).toEqual(
+      localDate(2026, 4, 20)
+    );
+    expect(parseQuickTask("d march 10th", NOW).dueDate).toEqual(
+      localDate(2026, 3, 10)
+    );
+    // Una fecha ya pasada sin año se interpreta en el año siguiente
+    expect(parseQuickTask("e 1/02", NOW).dueDate).toEqual(
+      localDate(2027, 2, 1)
+    );
+  });
+
+  it("usa hoy o mañana cuando solo hay hora", () => {
+    expect(parseQuickTask("Reunión a las 15:30", NOW).dueDate).toEqual(
+      localDate(2026, 3, 4, 15, 30)
+    );
+    expect(parseQuickTask("Desayuno 9am", NOW).dueDate).toEqual(
+      localDate(2026, 3, 5, 9, 0)
+    );
+  });
+
+  it("no confunde 'por la mañana' con mañana", () => {
+    const result = parseQuickTask("Correr por la mañana", NOW);
+    expect(result.dueDate).toBeNull();
+    expect(result.title).toBe("Correr por la mañana");
+  });
+
+  it("detecta recurrencias semanales en días concretos", () => {
+    const result = parseQuickTask("Standup cada lunes y miércoles 9:00", NOW);
+    expect(result.title).toBe("Standup");
+    expect(result.recurrence?.rrule).toBe("FREQ=WEEKLY;BYDAY=MO,WE");
+    // La primera ocurrencia es el próximo día indicado
+    expect(result.dueDate).toEqual(localDate(2026, 3, 9, 9, 0));
+  });
+
+  it("detecta recurrencias simples y con intervalo", () => {
+    expect(parseQuickTask("Backup diario", NOW).recurrence?.rrule).toBe(
+      "FREQ=DAILY"
+    );
+    expect(parseQuickTask("Report every month", NOW).recurrence?.rrule).toBe(
+      "FREQ=MONTHLY"
+    );
+    expect(parseQuickTask("1:1 cada 2 semanas", NOW).recurrence?.rrule).toBe(
+      "FREQ=WEEKLY;INTERVAL=2"
+    );
+    expect(parseQuickTask("Check every weekday", NOW).recurrence?.rrule).toBe(
+      "FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR"
+    );
+  });
+
+  it("admite varias etiquetas y quita conectores sobrantes del título", () => {
+    const result = parseQuickTask("Preparar demo para el viernes #a #b", NOW);
+    expect(result.title).toBe("Preparar demo");
+    expect(result.tags).toEqual(["a", "b"]);
+  });
+
+  it("deja el texto intacto cuando no hay nada que interpretar", () => {
+    const result = parseQuickTask("Comprar café", NOW);
+    expect(result).toMatchObject({
+      title: "Comprar café",
+      dueDate: null,
+      priority: null,
+      assignee: null,
+      recurrence: null,
+      tokens: [],
+    });
+  });
+});
+
+describe("matchTag", () => {
+  const tags = [
+    { id: "1", name: "Ventas" },
+    { id: "2", name: "Atención cliente" },
+  ];
+
+  it("ignora mayúsculas, acentos y guiones", () => {
+    expect(matchTag("ventas", tags)?.id).toBe("1");
+    expect(matchTag("atencion-cliente", tags)?.id).toBe("2");
+    expect(matchTag("otra", tags)).toBeUndefined();
+  });
+});
+
+describe("matchUser", () => {
+  const users = [
+    {
+      id: "u1",
+      email: "mgarcia@example.com",
+      first_name: "María",
+      last_name: "García",
+      full_name: "María García",
+    },
+    {
+      id: "u2",
+      email: "juan@example.com",
+      first_name: "Juan",
+      last_name: null,
+      full_name: null,
+    },
+  ];
+
+  it("busca por nombre, email o nombre completo", () => {
+    expect(matchUser("maria", users)?.id).toBe("u1");
+    expect(matchUser("mgarcia", users)?.id).toBe("u1");
+    expect(matchUser("MariaGarcia", users)?.id).toBe("u1");
+    expect(matchUser("juan", users)?.id).toBe("u2");
+  });
+
+  it("acepta prefijos cuando no hay coincidencia exacta", () => {
+    expect(matchUser("ju", users)?.id).toBe("u2");
+    expect(matchUser("pedro", users)).toBeUndefined();
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Tests para utilidades del historial de deshacer/rehacer
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import {
+  buildBulkHistoryEntry,
+  buildInverseUpdate,
+  isMoveUpdate,
+  pushHistoryEntry,
+  shiftHistory,
+  type TaskHistoryEntry,
+  type TaskHistoryState,
+} from "../taskHistory";
+import type { Task } from "~/features/tasks/types/task.types";
+
+const makeTask = (overrides: Partial<Task> = {}): Task => ({
+  id: "task-1",
+  tenant_id: "tenant-1",
+  title: "Tarea",
+  description: "",
+  assigned_to_id: null,
+  created_by_id: "user-1",
+  status: "todo",
+  priority: "medium",
+  checklist: [],
+  created_at: "2026-03-01T00:00:00Z",
+  updated_at: "2026-03-01T00:00:00Z",
+  ...overrides,
+});
+
+const makeEntry = (count: number): TaskHistoryEntry => ({
+  action: "update",
+  count,
+  undo: () => Promise.resolve(),
+  redo: () => Promise.resolve(),
+});
+
+const EMPTY: TaskHistoryState = { past: [], future: [] };
+
+describe("pila de historial", () => {
+  it("un nuevo paso descarta lo que se podía rehacer", () => {
+    const state = { past: [makeEntry(1)], future: [makeEntry(2)] };
+    const next = pushHistoryEntry(state, makeEntry(3));
+    expect(next.past.map((entry) => entry.count)).toEqual([1, 3]);
+    expect(next.future).toEqual([]);
+  });
+
+  it("limita el número de pasos guardados", () => {
+    let state = EMPTY;
+    for (let i = 1; i <= 5; i++) {
+      state = pushHistoryEntry(state, makeEntry(i), 3);
+    }
+    expect(state.past.map((entry) => entry.count)).toEqual([3, 4, 5]);
+  });
+
+  it("mueve pasos entre deshacer y rehacer", () => {
+    const state = pushHistoryEntry(
+      pushHistoryEntry(EMPTY, makeEntry(1)),
+      makeEntry(2)
+    );
+
+    const undone = shiftHistory(state, "undo");
+    expect(undone?.entry.count).toBe(2);
+    expect(undone?.state.past).toHaveLength(1);
+    expect(undone?.state.future).toHaveLength(1);
+
+    const redone = undone && shiftHistory(undone.state, "redo");
+    expect(redone?.entry.count).toBe(2);
+    expect(redone?.state.past).toHaveLength(2);
+    expect(redone?.state.future).toHaveLength(0);
+  });
+
+  it("devuelve null cuando no hay nada que mover", () => {
+    expect(shiftHistory(EMPTY, "undo")).toBeNull();
+    expect(shiftHistory(EMPTY, "redo")).toBeNull();
+  });
+});
+
+describe("buildInverseUpdate", () => {
+  it("restaura solo los campos modificados", () => {
+    const task = makeTask({ status: "in_progress", priority: "high" });
+    expect(buildInverseUpdate(task, { status: "done" })).toEqual({
+      status: "in_progress",
+    });
+  });
+
+  it("envía null para los campos que estaban vacíos", () => {
+    const task = makeTask();
+    expect(
+      buildInverseUpdate(task, { assigned_to_id: "user-2", board_order: 3 })
+    ).toEqual({ assigned_to_id: null, board_order: null });
+  });
+
+  it("identifica los movimientos del tablero", () => {
+    expect(isMoveUpdate({ status_id: "done", board_order: 1 })).toBe(true);
+    expect(isMoveUpdate({ title: "Otra" })).toBe(false);
+  });
+});
+
+describe("buildBulkHistoryEntry", () => {
+  it("reintenta solo las tareas que fallaron al deshacer", async () => {
+    const undo = vi
+      .fn<(ids: string[]) => Promise<string[]>>()
+      .mockResolvedValueOnce(["b"])
+      .mockResolvedValueOnce([]);
+    const entry = buildBulkHistoryEntry("bulkStatus", ["a", "b", "c"], {
+      undo,
+      redo: vi.fn(),
+    });
+
+    await expect(entry.undo()).resolves.toEqual({ failed: 1 });
+    await expect(entry.undo()).resolves.toEqual({ failed: 0 });
+    expect(undo).toHaveBeenNthCalledWith(1, ["a", "b", "c"]);
+    expect(undo).toHaveBeenNthCalledWith(2, ["b"]);
+  });
+
+  it("rehace solo las tareas que se deshicieron", async () => {
+    const redo = vi
+      .fn<(ids: string[]) => Promise<string[]>>()
+      .mockResolvedValue([]);
+    const entry = buildBulkHistoryEntry("bulkDelete", ["a", "b"], {
+      undo: vi
+        .fn<(ids: string[]) => Promise<string[]>>()
+        .mockResolvedValue(["b"]),
+      redo,
+    });
+
+    await entry.undo();
+    await expect(entry.redo()).resolves.toEqual({ failed: 0 });
+    expect(redo).toHaveBeenCalledWith(["a"]);
+  });
+});
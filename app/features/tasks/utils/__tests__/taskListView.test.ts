@@ -0,0 +1,211 @@
+/**
+ * Tests para agrupación, orden multi-clave y columnas de la lista de tareas
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  buildSortConfig,
+  getDueBucket,
+  getSortKeys,
+  groupTasks,
+  MAX_COLUMN_WIDTH,
+  moveColumn,
+  NO_GROUP_ID,
+  resizeColumn,
+  resolveColumnLayout,
+  sortTasks,
+  toggleSortKey,
+} from "../taskListView";
+import type { Task } from "~/features/tasks/types/task.types";
+
+const makeTask = (overrides: Partial<Task> = {}): Task =>
+  ({
+    id: "task-1",
+    tenant_id: "tenant-1",
+    title: "Tarea",
+    description: "",
+    status: "todo",
+    priority: "medium",
+    assigned_to_id: null,
+    tag_ids: [],
+    created_by_id: "user-1",
+    created_at: "2026-03-01T00:00:00Z",
+    updated_at: "2026-03-01T00:00:00Z",
+    ...overrides,
+  }) as Task;
+
+// Miércoles 4 de marzo de 2026
+const NOW = new Date(2026, 2, 4, 10);
+
+describe("getDueBucket", () => {
+  it("clasifica por vencida, hoy, esta semana y más adelante", () => {
+    const due = (date: Date) =>
+      getDueBucket(makeTask({ due_date: date.toISOString() }), NOW);
+    expect(due(new Date(2026, 2, 3, 18))).toBe("overdue");
+    expect(due(new Date(2026, 2, 4, 8))).toBe("today");
+    expect(due(new Date(2026, 2, 8, 12))).toBe("thisWeek");
+    expect(due(new Date(2026, 2, 9, 9))).toBe("later");
+    expect(getDueBucket(makeTask(), NOW)).toBe("noDate");
+  });
+});
+
+describe("groupTasks", () => {
+  it("sin agrupación devuelve un único grupo con todas las tareas", () => {
+    const tasks = [makeTask(), makeTask({ id: "task-2" })];
+    expect(groupTasks(tasks, "none")).toEqual([{ id: NO_GROUP_ID, tasks }]);
+  });
+
+  it("ordena los grupos de estado y prioridad de forma natural", () => {
+    const tasks = [
+      makeTask({ id: "a", status: "done", priority: "low" }),
+      makeTask({ id: "b", status: "todo", priority: "urgent" }),
+      makeTask({ id: "c", status: "in_progress", priority: "low" }),
+    ];
+    expect(groupTasks(tasks, "status").map((g) => g.id)).toEqual([
+      "todo",
+      "in_progress",
+      "done",
+    ]);
+    expect(
+      groupTasks(tasks, "priority").map((g) => [g.id, g.tasks.length])
+    ).toEqual([
+      ["urgent", 1],
+      ["low", 2],
+    ]);
+  });
+
+  it("ordena responsables por nombre y deja sin asignar al final", () => {
+    const names: Record<string, string> = { u1: "Zoe", u2: "Ana" };
+    const tasks = [
+      makeTask({ id: "a", assigned_to_id: null }),
+      makeTask({ id: "b", assigned_to_id: "u1" }),
+      makeTask({ id: "c", assigned_to_id: "u2" }),
+    ];
+    const groups = groupTasks(tasks, "assignee", (id) => names[id] ?? id);
+    expect(groups.map((g) => g.id)).toEqual(["u2", "u1", NO_GROUP_ID]);
+  });
+
+  it("agrupa por vencimiento respecto a la fecha actual", () => {
+    const tasks = [
+      makeTask({ id: "a" }),
+      makeTask({ id: "b", due_date: new Date(2026, 2, 1).toISOString() }),
+    ];
+    expect(groupTasks(tasks, "due", undefined, NOW).map((g) => g.id)).toEqual([
+      "overdue",
+      "noDate",
+    ]);
+  });
+});
+
+describe("orden multi-clave", () => {
+  const tasks = [
+    makeTask({ id: "a", priority: "low", due_date: "2026-03-10T00:00:00Z" }),
+    makeTask({ id: "b", priority: "urgent" }),
+    makeTask({ id: "c", priority: "urgent", due_date: "2026-03-05T00:00:00Z" }),
+    makeTask({ id: "d", priority: "low", due_date: "2026-03-06T00:00:00Z" }),
+  ];
+
+  it("desempata con las claves siguientes", () => {
+    const sorted = sortTasks(tasks, [
+      { field: "priority", direction: "desc" },
+      { field: "due_date", direction: "asc" },
+    ]);
+    expect(sorted.map((task) => task.id)).toEqual(["c", "b", "d", "a"]);
+  });
+
+  it("deja los valores vacíos al final en cualquier dirección", () => {
+    const sorted = sortTasks(tasks, [{ field: "due_date", direction: "desc" }]);
+    expect(sorted.map((task) => task.id)).toEqual(["a", "d", "c", "b"]);
+  });
+
+  it("sin claves conserva el orden original", () => {
+    expect(sortTasks(tasks, [])).toBe(tasks);
+  });
+});
+
+describe("toggleSortKey", () => {
+  it("un clic simple ordena solo por esa columna e invierte la dirección", () => {
+    const keys = toggleSortKey([], "title");
+    expect(keys).toEqual([{ field: "title", direction: "asc" }]);
+    expect(toggleSortKey(keys, "title")).toEqual([
+      { field: "title", direction: "desc" },
+    ]);
+    expect(
+      toggleSortKey(
+        [...keys, { field: "priority", direction: "asc" }],
+        "priority"
+      )
+    ).toEqual([{ field: "priority", direction: "asc" }]);
+  });
+
+  it("con Mayús añade, invierte y después quita el nivel", () => {
+    const base = [{ field: "status", direction: "asc" as const }];
+    const added = toggleSortKey(base, "title", true);
+    expect(added).toEqual([...base, { field: "title", direction: "asc" }]);
+    const flipped = toggleSortKey(added, "title", true);
+    expect(flipped[1]).toEqual({ field: "title", direction: "desc" });
+    expect(toggleSortKey(flipped, "title", true)).toEqual(base);
+  });
+});
+
+describe("configuración de orden guardada", () => {
+  it("guarda la clave principal y los niveles secundarios", () => {
+    const keys = [
+      { field: "status", direction: "asc" as const },
+      { field: "due_date", direction: "desc" as const },
+    ];
+    const config = buildSortConfig(keys);
+    expect(config).toEqual({
+      field: "status",
+      direction: "asc",
+      then_by: [{ field: "due_date", direction: "desc" }],
+    });
+    expect(getSortKeys(config)).toEqual(keys);
+  });
+
+  it("sin claves usa la fecha de creación descendente", () => {
+    expect(buildSortConfig([])).toEqual({
+      field: "created_at",
+      direction: "desc",
+    });
+  });
+});
+
+describe("columnas", () => {
+  const columnKeys = ["title", "status", "priority", "actions"];
+
+  it("respeta el orden guardado y añade las columnas nuevas al final", () => {
+    const layout = resolveColumnLayout(columnKeys, {
+      priority: { visible: true, order: 0 },
+      title: { visible: false, order: 1, width: 200 },
+    });
+    expect(layout).toEqual([
+      { key: "priority", visible: true, width: undefined },
+      { key: "title", visible: false, width: 200 },
+      { key: "status", visible: true, width: undefined },
+      { key: "actions", visible: true, width: undefined },
+    ]);
+  });
+
+  it("mueve una columna a la posición de otra", () => {
+    const config = moveColumn(columnKeys, {}, "actions", "status");
+    expect(resolveColumnLayout(columnKeys, config).map((c) => c.key)).toEqual([
+      "title",
+      "actions",
+      "status",
+      "priority",
+    ]);
+    expect(moveColumn(columnKeys, config, "title", "title")).toBe(config);
+  });
+
+  it("limita el ancho y conserva el orden existente", () => {
+    const moved = moveColumn(columnKeys, {}, "priority", "title");
+    const config = resizeColumn(columnKeys, moved, "title", 5000);
+    expect(config.title).toEqual({
+      visible: true,
+      order: 1,
+      width: MAX_COLUMN_WIDTH,
+    });
+    expect(config.priority?.order).toBe(0);
+  });
+});
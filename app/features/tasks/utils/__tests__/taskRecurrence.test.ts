@@ -0,0 +1,106 @@
+/**
+ * Tests para utilidades de tareas recurrentes
+ */
+
+import { describe, it, expect } from "vitest";
+import { parseRRule } from "~/features/calendar/utils/rrule";
+import {
+  getUpcomingOccurrences,
+  recurrenceConfigToRRule,
+  rruleToRecurrenceConfig,
+} from "../taskRecurrence";
+import type { Task } from "~/features/tasks/types/task.types";
+
+const makeTask = (overrides: Partial<Task> = {}): Task => ({
+  id: "task-1",
+  tenant_id: "tenant-1",
+  title: "Test Task",
+  description: "",
+  assigned_to_id: null,
+  created_by_id: null,
+  status: "todo",
+  priority: "medium",
+  checklist: [],
+  created_at: "2026-01-01T00:00:00Z",
+  updated_at: "2026-01-01T00:00:00Z",
+  ...overrides,
+});
+
+// Fechas en hora local; el 2 de marzo de 2026 es lunes
+const local = (month: number, day: number, hours = 9) =>
+  new Date(2026, month - 1, day, hours);
+
+describe("conversión con RecurrenceEditor", () => {
+  it("genera la regla a partir de la configuración", () => {
+    const weekly = recurrenceConfigToRRule({
+      type: "weekly",
+      interval: 1,
+      daysOfWeek: [5, 1],
+      endDate: new Date(2026, 5, 30),
+    });
+    expect(weekly).toMatch(/^FREQ=WEEKLY;UNTIL=\d{8}T\d{6}Z;BYDAY=MO,FR$/);
+    // UNTIL incluye todo el último día y vuelve a la misma fecha
+    expect(parseRRule(weekly)?.until?.getDate()).toBe(30);
+    expect(rruleToRecurrenceConfig(weekly)?.endDate).toEqual(
+      new Date(2026, 5, 30)
+    );
+    expect(
+      recurrenceConfigToRRule(
+        { type: "monthly", interval: 3 },
+        new Date(2026, 0, 31)
+      )
+    ).toBe("FREQ=MONTHLY;INTERVAL=3;BYMONTHDAY=31");
+    expect(recurrenceConfigToRRule(null)).toBeNull();
+  });
+
+  it("recupera la configuración desde la regla", () => {
+    expect(rruleToRecurrenceConfig("FREQ=DAILY;INTERVAL=2")).toEqual({
+      type: "daily",
+      interval: 2,
+      daysOfWeek: [],
+      endDate: undefined,
+    });
+  });
+});
+
+describe("getUpcomingOccurrences", () => {
+  it("lista las siguientes ocurrencias tras el vencimiento", () => {
+    const task = makeTask({
+      due_date: local(3, 2).toISOString(),
+      recurrence_rule: "FREQ=WEEKLY;BYDAY=MO,WE",
+    });
+    expect(getUpcomingOccurrences(task, 3)).toEqual([
+      local(3, 4),
+      local(3, 9),
+      local(3, 11),
+    ]);
+  });
+
+  it("omite los meses sin el día de la serie", () => {
+    const task = makeTask({
+      due_date: local(1, 31).toISOString(),
+      recurrence_rule: "FREQ=MONTHLY;BYMONTHDAY=31",
+    });
+    expect(getUpcomingOccurrences(task, 2)).toEqual([
+      local(3, 31),
+      local(5, 31),
+    ]);
+  });
+
+  it("termina la serie en UNTIL", () => {
+    const task = makeTask({
+      due_date: local(3, 2).toISOString(),
+      recurrence_rule: "FREQ=DAILY;UNTIL=20260303",
+    });
+    expect(getUpcomingOccurrences(task, 5)).toEqual([local(3, 3)]);
+  });
+
+  it("cuenta desde hoy si la tarea no tiene fechas", () => {
+    const task = makeTask({ recurrence_rule: "FREQ=DAILY;INTERVAL=3" });
+    expect(getUpcomingOccurrences(task, 1, local(3, 2))).toEqual([local(3, 5)]);
+  });
+
+  it("devuelve una lista vacía si la tarea no es recurrente", () => {
+    expect(getUpcomingOccurrences(makeTask(), 3)).toEqual([]);
+  });
+});
@@ -0,0 +1,243 @@
+/**
+ * Tests para utilidades de templates con árbol de subtareas
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  applyDateOffset,
+  applyTemplateVariables,
+  buildTemplatePlan,
+  getMissingVariables,
+  getTemplateRoles,
+  getTemplateVariables,
+  isTreeTemplate,
+  parseDateOffset,
+  ROOT_TEMPLATE_KEY,
+  validateTemplate,
+} from "../taskTemplates";
+import type { TaskTemplate } from "~/features/tasks/types/task.types";
+
+const makeTemplate = (overrides: Partial<TaskTemplate> = {}): TaskTemplate => ({
+  id: "tpl-1",
+  tenant_id: "tenant-1",
+  name: "Onboarding {{client}}",
+  description: "Alta del cliente {{client}}",
+  created_by_id: "user-1",
+  created_at: "2026-03-01T00:00:00Z",
+  updated_at: "2026-03-01T00:00:00Z",
+  default_role: "account_manager",
+  variables: [{ key: "client", label: "Cliente", required: true }],
+  subtasks: [
+    {
+      key: "kickoff",
+      title: "Kickoff con {{client}}",
+      start_offset: "+1d",
+      due_offset: "+2d",
+      default_role: "account_manager",
+    },
+    {
+      key: "setup",
+      title: "Configuración",
+      start_offset: "+2d",
+      due_offset: "+1w",
+      default_role: "engineer",
+      depends_on: ["kickoff"],
+      subtasks: [
+        {
+          key: "accounts",
+          title: "Crear cuentas",
+          start_offset: "+1d",
+          due_offset: "+3d",
+          checklist_items: [
+            { id: "c1", title: "Usuario de {{client}}", completed: true },
+          ],
+        },
+      ],
+    },
+  ],
+  ...overrides,
+});
+
+const START = new Date(2026, 2, 2);
+
+describe("desplazamientos de fecha", () => {
+  it("interpreta horas, días y semanas con signo", () => {
+    expect(parseDateOffset("+2d")).toEqual({ amount: 2, unit: "d" });
+    expect(parseDateOffset("-4h")).toEqual({ amount: -4, unit: "h" });
+    expect(parseDateOffset("1W")).toEqual({ amount: 1, unit: "w" });
+    expect(parseDateOffset("dos días")).toBeNull();
+  });
+
+  it("aplica el desplazamiento o deja la fecha igual si no es válido", () => {
+    expect(applyDateOffset(START, "+2d")).toEqual(new Date(2026, 2, 4));
+    expect(applyDateOffset(START, "+1w")).toEqual(new Date(2026, 2, 9));
+    expect(applyDateOffset(START, "x")).toEqual(START);
+    expect(applyDateOffset(START, null)).toEqual(START);
+  });
+});
+
+describe("variables", () => {
+  it("incluye las declaradas y las usadas sin declarar", () => {
+    const template = makeTemplate({
+      subtasks: [{ key: "a", title: "Contrato {{plan}}" }],
+    });
+    expect(getTemplateVariables(template).map((v) => v.key)).toEqual([
+      "client",
+      "plan",
+    ]);
+  });
+
+  it("sustituye valores y conserva los marcadores sin valor", () => {
+    expect(
+      applyTemplateVariables("{{client}} - {{ plan }}", { client: "Acme" })
+    ).toBe("Acme - {{ plan }}");
+  });
+
+  it("detecta las variables obligatorias vacías", () => {
+    const variables = [
+      { key: "client", label: "Cliente" },
+      { key: "notes", label: "Notas", required: false },
+    ];
+    expect(getMissingVariables(variables, { client: " " })).toEqual(["client"]);
+    expect(getMissingVariables(variables, { client: "Acme" })).toEqual([]);
+  });
+});
+
+describe("roles y validación", () => {
+  it("lista los roles sin repetir", () => {
+    expect(getTemplateRoles(makeTemplate())).toEqual([
+      "account_manager",
+      "engineer",
+    ]);
+  });
+
+  it("un template sin subtareas, variables ni roles es simple", () => {
+    expect(
+      isTreeTemplate(
+        makeTemplate({
+          name: "Simple",
+          description: "",
+          default_role: null,
+          variables: [],
+          subtasks: [],
+        })
+      )
+    ).toBe(false);
+    expect(isTreeTemplate(makeTemplate())).toBe(true);
+  });
+
+  it("un template correcto no tiene problemas", () => {
+    expect(validateTemplate(makeTemplate())).toEqual([]);
+  });
+
+  it("detecta claves duplicadas, dependencias desconocidas y ciclos", () => {
+    const issues = validateTemplate(
+      makeTemplate({
+        subtasks: [
+          { key: "a", title: "A", depends_on: ["b"] },
+          { key: "b", title: "B", depends_on: ["a"] },
+          { key: "a", title: "A2", depends_on: ["zzz"] },
+          { key: "c", title: "C", due_offset: "mañana" },
+        ],
+      })
+    );
+    expect(issues).toEqual(
+      expect.arrayContaining([
+        { type: "duplicateKey", key: "a" },
+        { type: "unknownDependency", key: "a" },
+        { type: "dependencyCycle", key: ROOT_TEMPLATE_KEY },
+        { type: "invalidOffset", key: "c" },
+      ])
+    );
+  });
+
+  it("rechaza árboles más profundos que el máximo de subtareas", () => {
+    const issues = validateTemplate(
+      makeTemplate({
+        subtasks: [
+          {
+            key: "l1",
+            title: "1",
+            subtasks: [
+              {
+                key: "l2",
+                title: "2",
+                subtasks: [
+                  {
+                    key: "l3",
+                    title: "3",
+                    subtasks: [{ key: "l4", title: "4" }],
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      })
+    );
+    expect(issues).toEqual([{ type: "tooDeep", key: "l4" }]);
+  });
+});
+
+describe("buildTemplatePlan", () => {
+  const plan = buildTemplatePlan(makeTemplate(), {
+    startDate: START,
+    values: { client: "Acme" },
+    roleAssignments: { account_manager: "user-am", engineer: "user-eng" },
+  });
+  const byKey = Object.fromEntries(plan.map((item) => [item.key, item]));
+
+  it("ordena los padres antes que sus subtareas", () => {
+    expect(plan.map((item) => [item.key, item.parentKey])).toEqual([
+      [ROOT_TEMPLATE_KEY, null],
+      ["kickoff", ROOT_TEMPLATE_KEY],
+      ["setup", ROOT_TEMPLATE_KEY],
+      ["accounts", "setup"],
+    ]);
+  });
+
+  it("calcula las fechas relativas al inicio del padre", () => {
+    expect(byKey.kickoff?.payload.start_at).toBe(
+      new Date(2026, 2, 3).toISOString()
+    );
+    expect(byKey.setup?.payload.due_date).toBe(
+      new Date(2026, 2, 9).toISOString()
+    );
+    // La subtarea de "setup" (inicio 4 de marzo) empieza un día después
+    expect(byKey.accounts?.payload.start_at).toBe(
+      new Date(2026, 2, 5).toISOString()
+    );
+    expect(byKey.accounts?.payload.due_date).toBe(
+      new Date(2026, 2, 7).toISOString()
+    );
+  });
+
+  it("la tarea raíz vence con su última subtarea", () => {
+    expect(byKey[ROOT_TEMPLATE_KEY]?.payload.due_date).toBe(
+      new Date(2026, 2, 9).toISOString()
+    );
+  });
+
+  it("aplica variables, responsables por rol y dependencias", () => {
+    expect(byKey[ROOT_TEMPLATE_KEY]?.payload).toMatchObject({
+      title: "Onboarding Acme",
+      assigned_to_id: "user-am",
+      template_id: "tpl-1",
+    });
+    expect(byKey.kickoff?.payload.title).toBe("Kickoff con Acme");
+    expect(byKey.setup?.payload.assigned_to_id).toBe("user-eng");
+    expect(byKey.accounts?.payload.assigned_to_id).toBeNull();
+    expect(byKey.setup?.dependsOn).toEqual(["kickoff"]);
+    expect(byKey.accounts?.payload.checklist).toEqual([
+      { id: "c1", title: "Usuario de Acme", completed: false },
+    ]);
+  });
+
+  it("usa el título indicado para la tarea raíz", () => {
+    const [root] = buildTemplatePlan(makeTemplate(), {
+      startDate: START,
+      title: "Proyecto Acme 2026",
+    });
+    expect(root?.payload.title).toBe("Proyecto Acme 2026");
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Tests para utilidades de la hoja de horas semanal
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  buildTimesheetApprovalRequest,
+  entriesToGrid,
+  getDayTotals,
+  getRowTotal,
+  getWeekDays,
+  getWeekStart,
+  gridToEntries,
+  isTimesheetEditable,
+  parseHoursInput,
+  resolveTimesheetStatus,
+  setGridHours,
+  validateTimesheet,
+} from "../timesheet";
+import type { Timesheet } from "~/features/tasks/types/task.types";
+
+// Semana del lunes 2 al domingo 8 de marzo de 2026 (hora local)
+const WEEK = getWeekDays(new Date(2026, 2, 2));
+
+const makeTimesheet = (overrides: Partial<Timesheet> = {}): Timesheet => ({
+  id: "ts-1",
+  tenant_id: "tenant-1",
+  user_id: "user-1",
+  week_start: "2026-03-02",
+  status: "draft",
+  entries: [],
+  total_hours: 0,
+  created_at: "2026-03-02T00:00:00Z",
+  updated_at: "2026-03-02T00:00:00Z",
+  ...overrides,
+});
+
+describe("semana", () => {
+  it("empieza en lunes y tiene siete días", () => {
+    expect(getWeekStart(new Date(2026, 2, 8, 15))).toEqual(
+      new Date(2026, 2, 2)
+    );
+    expect(WEEK).toHaveLength(7);
+    expect(WEEK[6]).toEqual(new Date(2026, 2, 8));
+  });
+});
+
+describe("parseHoursInput", () => {
+  it("acepta decimales con punto o coma y formato hh:mm", () => {
+    expect(parseHoursInput("1.5")).toBe(1.5);
+    expect(parseHoursInput("2,25")).toBe(2.25);
+    expect(parseHoursInput("1:30")).toBe(1.5);
+    expect(parseHoursInput("  ")).toBe(0);
+  });
+
+  it("rechaza valores no numéricos o negativos", () => {
+    expect(parseHoursInput("abc")).toBeNull();
+    expect(parseHoursInput("-2")).toBeNull();
+    expect(parseHoursInput("1:75")).toBeNull();
+  });
+});
+
+describe("rejilla de horas", () => {
+  const entries = [
+    { task_id: "a", date: "2026-03-02", hours: 4 },
+    { task_id: "a", date: "2026-03-03", hours: 2.5 },
+    { task_id: "b", date: "2026-03-02", hours: 5 },
+  ];
+
+  it("convierte entradas en rejilla y de vuelta sin celdas vacías", () => {
+    const grid = setGridHours(entriesToGrid(entries), "b", "2026-03-04", 0);
+    expect(grid.a).toEqual({ "2026-03-02": 4, "2026-03-03": 2.5 });
+    expect(gridToEntries(grid)).toEqual(entries);
+  });
+
+  it("suma por tarea y por día", () => {
+    const grid = entriesToGrid(entries);
+    expect(getRowTotal(grid, "a")).toBe(6.5);
+    expect(getDayTotals(grid, WEEK)).toMatchObject({
+      "2026-03-02": 9,
+      "2026-03-03": 2.5,
+      "2026-03-08": 0,
+    });
+  });
+
+  it("detecta los días que superan el límite diario", () => {
+    const grid = entriesToGrid(entries);
+    expect(validateTimesheet(grid, WEEK, 8)).toEqual([
+      { date: "2026-03-02", total: 9 },
+    ]);
+    expect(validateTimesheet(grid, WEEK, 10)).toEqual([]);
+  });
+});
+
+describe("estado de la hoja", () => {
+  it("solo permite editar borradores y hojas rechazadas", () => {
+    expect(isTimesheetEditable("draft")).toBe(true);
+    expect(isTimesheetEditable("rejected")).toBe(true);
+    expect(isTimesheetEditable("submitted")).toBe(false);
+    expect(isTimesheetEditable("approved")).toBe(false);
+  });
+
+  it("refleja la decisión de la solicitud de aprobación", () => {
+    expect(resolveTimesheetStatus("submitted", "approved")).toBe("approved");
+    expect(resolveTimesheetStatus("submitted", "rejected")).toBe("rejected");
+    expect(resolveTimesheetStatus("submitted", "pending")).toBe("submitted");
+    expect(resolveTimesheetStatus("draft", "approved")).toBe("draft");
+  });
+});
+
+describe("buildTimesheetApprovalRequest", () => {
+  it("crea la solicitud con entity_type timesheet y las horas en metadata", () => {
+    const entries = [
+      { task_id: "a", date: "2026-03-02", hours: 4 },
+      { task_id: "b", date: "2026-03-06", hours: 3.5 },
+    ];
+    const request = buildTimesheetApprovalRequest(
+      makeTimesheet(),
+      entries,
+      "flow-1",
+      "Hoja de horas"
+    );
+
+    expect(request).toMatchObject({
+      flow_id: "flow-1",
+      title: "Hoja de horas",
+      entity_type: "timesheet",
+      entity_id: "ts-1",
+      metadata: {
+        week_start: "2026-03-02",
+        user_id: "user-1",
+        total_hours: 7.5,
+        entries,
+      },
+    });
+    expect(request.metadata?.daily_totals).toMatchObject({
+      "2026-03-02": 4,
+      "2026-03-06": 3.5,
+    });
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Tests para utilidades de carga de trabajo del planificador
+ */
+
+import { describe, it, expect } from "vitest";
+import { eachDayOfInterval } from "date-fns";
+import {
+  UNASSIGNED_ROW_ID,
+  buildRescheduleUpdate,
+  buildWorkload,
+  getLoadLevel,
+  getTaskDays,
+  getTaskEstimatedHours,
+} from "../workload";
+import type { Task } from "~/features/tasks/types/task.types";
+
+const makeTask = (overrides: Partial<Task> = {}): Task => ({
+  id: "task-1",
+  tenant_id: "tenant-1",
+  title: "Test Task",
+  description: "",
+  assigned_to_id: null,
+  created_by_id: null,
+  status: "todo",
+  priority: "medium",
+  checklist: [],
+  created_at: "2026-01-01T00:00:00Z",
+  updated_at: "2026-01-01T00:00:00Z",
+  ...overrides,
+});
+
+// Semana del lunes 2 al domingo 8 de marzo de 2026 (hora local)
+const WEEK = eachDayOfInterval({
+  start: new Date(2026, 2, 2),
+  end: new Date(2026, 2, 8),
+});
+
+const local = (day: number, hours = 0) =>
+  new Date(2026, 2, day, hours).toISOString();
+
+describe("getTaskEstimatedHours", () => {
+  it("usa estimated_duration en minutos", () => {
+    expect(getTaskEstimatedHours(makeTask({ estimated_duration: 90 }))).toBe(
+      1.5
+    );
+  });
+
+  it("usa la duración de un bloque horario si no hay estimación", () => {
+    const task = makeTask({ start_at: local(2, 9), end_at: local(2, 12) });
+    expect(getTaskEstimatedHours(task)).toBe(3);
+  });
+
+  it("devuelve 0 para tareas de varios días sin estimación", () => {
+    const task = makeTask({ start_at: local(2), end_at: local(5) });
+    expect(getTaskEstimatedHours(task)).toBe(0);
+  });
+});
+
+describe("getTaskDays", () => {
+  it("incluye el día de inicio y el de fin", () => {
+    const days = getTaskDays(
+      makeTask({ start_at: local(2, 9), end_at: local(4, 17) })
+    );
+    expect(days.map((day) => day.getDate())).toEqual([2, 3, 4]);
+  });
+
+  it("usa due_date cuando no hay inicio", () => {
+    const days = getTaskDays(makeTask({ due_date: local(6, 18) }));
+    expect(days.map((day) => day.getDate())).toEqual([6]);
+  });
+
+  it("devuelve una lista vacía sin fechas", () => {
+    expect(getTaskDays(makeTask())).toEqual([]);
+  });
+});
+
+describe("buildWorkload", () => {
+  it("reparte las horas entre los días y los responsables", () => {
+    const tasks = [
+      makeTask({
+        id: "a",
+        start_at: local(2, 9),
+        end_at: local(3, 17),
+        estimated_duration: 8 * 60,
+      }),
+      makeTask({ id: "b", due_date: local(3, 12), estimated_duration: 120 }),
+    ];
+    const assignees: Record<string, string[]> = {
+      a: ["ana", "luis"],
+      b: ["ana"],
+    };
+
+    const matrix = buildWorkload(tasks, (task) => assignees[task.id]!, WEEK);
+
+    expect(matrix.get("ana")?.get("2026-03-02")?.hours).toBe(4);
+    expect(matrix.get("ana")?.get("2026-03-03")?.hours).toBe(6);
+    expect(
+      matrix
+        .get("ana")
+        ?.get("2026-03-03")
+        ?.tasks.map((task) => task.id)
+    ).toEqual(["a", "b"]);
+    expect(matrix.get("luis")?.get("2026-03-03")?.hours).toBe(4);
+  });
+
+  it("agrupa las tareas sin responsable en una fila aparte", () => {
+    const matrix = buildWorkload(
+      [makeTask({ due_date: local(4, 12) })],
+      () => [],
+      WEEK
+    );
+    expect(
+      matrix.get(UNASSIGNED_ROW_ID)?.get("2026-03-04")?.tasks
+    ).toHaveLength(1);
+  });
+
+  it("ignora los días fuera del rango visible", () => {
+    const matrix = buildWorkload(
+      [
+        makeTask({
+          start_at: local(7, 9),
+          end_at: local(10, 9),
+          estimated_duration: 4 * 60,
+        }),
+      ],
+      () => ["ana"],
+      WEEK
+    );
+    expect([...(matrix.get("ana")?.keys() ?? [])]).toEqual([
+      "2026-03-07",
+      "2026-03-08",
+    ]);
+    expect(matrix.get("ana")?.get("2026-03-07")?.hours).toBe(1);
+  });
+});
+
+describe("getLoadLevel", () => {
+  it("clasifica la carga respecto a la capacidad", () => {
+    expect(getLoadLevel(0, 8)).toBe("none");
+    expect(getLoadLevel(2, 8)).toBe("low");
+    expect(getLoadLevel(5, 8)).toBe("medium");
+    expect(getLoadLevel(7, 8)).toBe("high");
+    expect(getLoadLevel(8, 8)).toBe("high");
+    expect(getLoadLevel(9, 8)).toBe("over");
+  });
+});
+
+describe("buildRescheduleUpdate", () => {
+  const task = makeTask({
+    start_at: local(2, 9),
+    end_at: local(3, 17),
+    due_date: local(3, 17),
+  });
+
+  it("desplaza todas las fechas manteniendo la hora", () => {
+    expect(
+      buildRescheduleUpdate(task, new Date(2026, 2, 2), new Date(2026, 2, 5))
+    ).toEqual({
+      start_at: local(5, 9),
+      end_at: local(6, 17),
+      due_date: local(6, 17),
+    });
+  });
+
+  it("usa el día de origen del arrastre, no el de inicio", () => {
+    // Arrastrar desde el segundo día de la tarea al jueves la mueve un día
+    expect(
+      buildRescheduleUpdate(task, new Date(2026, 2, 3), new Date(2026, 2, 4))
+    ).toEqual({
+      start_at: local(3, 9),
+      end_at: local(4, 17),
+      due_date: local(4, 17),
+    });
+  });
+
+  it("devuelve null si el día no cambia", () => {
+    const day = new Date(2026, 2, 4);
+    expect(buildRescheduleUpdate(task, day, day)).toBeNull();
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Task dependency graph utilities.
+ * Pure helpers shared by the Gantt view and dependency-aware scheduling.
+ */
+
+import type {
+  TaskDependency,
+  TaskDependencyType,
+} from "~/features/tasks/hooks/useDependencies";
+
+export const DEPENDENCY_TYPES: TaskDependencyType[] = [
+  "finish_to_start",
+  "start_to_start",
+  "finish_to_finish",
+  "start_to_finish",
+];
+
+/**
+ * Normalize an arbitrary dependency type string coming from the backend.
+ * Unknown values fall back to finish_to_start, the backend default.
+ */
+export function normalizeDependencyType(type: string): TaskDependencyType {
+  return DEPENDENCY_TYPES.includes(type as TaskDependencyType)
+    ? (type as TaskDependencyType)
+    : "finish_to_start";
+}
+
+/**
+ * Remove duplicated dependencies (the same link is returned both as
+ * "dependency" of the successor and "dependent" of the predecessor).
+ */
+export function dedupeDependencies(
+  dependencies: TaskDependency[]
+): TaskDependency[] {
+  const seen = new Set<string>();
+  return dependencies.filter((dep) => {
+    const key = dep.id || `${dep.depends_on_id}->${dep.task_id}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Order task ids so that every predecessor comes before its successors.
+ * Dependencies referencing unknown tasks are ignored.
+ * @returns the ordered ids, or null when the graph contains a cycle
+ */
+export function topologicalSort(
+  taskIds: string[],
+  dependencies: TaskDependency[]
+): string[] | null {
+  const known = new Set(taskIds);
+  const inDegree = new Map<string, number>(taskIds.map((id) => [id, 0]));
+  const successors = new Map<string, string[]>();
+
+  for (const dep of dependencies) {
+    if (!known.has(dep.task_id) || !known.has(dep.depends_on_id)) continue;
+    const list = successors.get(dep.depends_on_id) ?? [];
+    list.push(dep.task_id);
+    successors.set(dep.depends_on_id, list);
+    inDegree.set(dep.task_id, (inDegree.get(dep.task_id) ?? 0) + 1);
+  }
+
+  const queue = taskIds.filter((id) => inDegree.get(id) === 0);
+  const ordered: string[] = [];
+
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    ordered.push(id);
+    for (const next of successors.get(id) ?? []) {
+      const remaining = (inDegree.get(next) ?? 0) - 1;
+      inDegree.set(next, remaining);
+      if (remaining === 0) queue.push(next);
+    }
+  }
+
+  return ordered.length === taskIds.length ? ordered : null;
+}
+
+/**
+ * Check if adding "taskId depends on dependsOnId" would create a cycle,
+ * i.e. if dependsOnId already depends (directly or not) on taskId.
+ * @returns true if a cycle would be created
+ */
+export function wouldCreateDependencyCycle(
+  taskId: string,
+  dependsOnId: string,
+  dependencies: TaskDependency[]
+): boolean {
+  if (taskId === dependsOnId) return true;
+
+  const stack = [dependsOnId];
+  const visited = new Set<string>();
+
+  while (stack.length > 0) {
+    const currentId = stack.pop()!;
+    if (currentId === taskId) return true;
+    if (visited.has(currentId)) continue;
+    visited.add(currentId);
+    for (const dep of dependencies) {
+      if (dep.task_id === currentId) stack.push(dep.depends_on_id);
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Collect every task that depends, directly or not, on the given task.
+ */
+export function getDownstreamTaskIds(
+  taskId: string,
+  dependencies: TaskDependency[]
+): Set<string> {
+  const downstream = new Set<string>();
+  const stack = [taskId];
+
+  while (stack.length > 0) {
+    const currentId = stack.pop()!;
+    for (const dep of dependencies) {
+      if (dep.depends_on_id === currentId && !downstream.has(dep.task_id)) {
+        downstream.add(dep.task_id);
+        stack.push(dep.task_id);
+      }
+    }
+  }
+
+  downstream.delete(taskId);
+  return downstream;
+}
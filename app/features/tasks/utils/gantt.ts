@@ -0,0 +1,197 @@
+/**
+ * Gantt utilities: bar scheduling, date updates and critical path.
+ */
+
+import { addDays } from "date-fns";
+import type { Task, TaskUpdate } from "~/features/tasks/types/task.types";
+import type { TaskDependency } from "~/features/tasks/hooks/useDependencies";
+import {
+  normalizeDependencyType,
+  topologicalSort,
+} from "~/features/tasks/utils/dependencies";
+
+export interface TaskSchedule {
+  start: Date;
+  end: Date;
+}
+
+export interface GanttBar extends TaskSchedule {
+  task: Task;
+}
+
+/** Tolerance (ms) under which a task's float is considered zero */
+const FLOAT_TOLERANCE_MS = 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function parseDate(value?: string | null): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Resolve the bar of a task from start_at / end_at / due_date.
+ * Tasks with only a due date are drawn as a one-day bar ending on it.
+ * @returns null when the task has no usable dates
+ */
+export function getTaskSchedule(task: Task): TaskSchedule | null {
+  const startAt = parseDate(task.start_at);
+  const endAt = parseDate(task.end_at) ?? parseDate(task.due_date);
+
+  if (!startAt && !endAt) return null;
+
+  const start = startAt ?? addDays(endAt!, -1);
+  let end = endAt ?? addDays(start, 1);
+  if (end.getTime() <= start.getTime()) {
+    end = addDays(start, 1);
+  }
+
+  return { start, end };
+}
+
+/**
+ * Build the Gantt bars for the scheduled tasks, sorted by start date.
+ */
+export function buildGanttBars(tasks: Task[]): GanttBar[] {
+  const bars: GanttBar[] = [];
+  for (const task of tasks) {
+    const schedule = getTaskSchedule(task);
+    if (schedule) bars.push({ task, ...schedule });
+  }
+  return bars.sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+/**
+ * Build the update payload for a bar moved or resized in the Gantt.
+ * Start and end are always written explicitly; an existing due date
+ * follows the end of the bar.
+ */
+export function buildScheduleUpdate(
+  task: Task,
+  schedule: TaskSchedule
+): TaskUpdate {
+  const update: TaskUpdate = {
+    start_at: schedule.start.toISOString(),
+    end_at: schedule.end.toISOString(),
+  };
+  const current = getTaskSchedule(task);
+  const due = parseDate(task.due_date);
+  if (current && due) {
+    const delta = schedule.end.getTime() - current.end.getTime();
+    update.due_date = new Date(due.getTime() + delta).toISOString();
+  }
+  return update;
+}
+
+/**
+ * Shift a schedule by whole days, moving the start, the end, or both.
+ * Resizing never shrinks a bar below one day.
+ */
+export function shiftSchedule(
+  schedule: TaskSchedule,
+  days: number,
+  mode: "move" | "resize-start" | "resize-end"
+): TaskSchedule {
+  let start = schedule.start;
+  let end = schedule.end;
+
+  if (mode === "move" || mode === "resize-start") start = addDays(start, days);
+  if (mode === "move" || mode === "resize-end") end = addDays(end, days);
+
+  if (end.getTime() - start.getTime() < DAY_MS) {
+    if (mode === "resize-start") start = addDays(end, -1);
+    else end = addDays(start, 1);
+  }
+
+  return { start, end };
+}
+
+/**
+ * Compute the critical path with the critical path method (CPM).
+ * Independent tasks stay anchored at their scheduled start; a task is
+ * critical when delaying it would delay the end of the project.
+ * @returns ids of the critical tasks (empty when the graph has a cycle)
+ */
+export function computeCriticalPath(
+  bars: GanttBar[],
+  dependencies: TaskDependency[]
+): Set<string> {
+  const critical = new Set<string>();
+  if (bars.length === 0) return critical;
+
+  const barMap = new Map(bars.map((bar) => [bar.task.id, bar]));
+  const links = dependencies.filter(
+    (dep) => barMap.has(dep.task_id) && barMap.has(dep.depends_on_id)
+  );
+  const order = topologicalSort([...barMap.keys()], links);
+  if (!order) return critical;
+
+  const duration = (id: string) => {
+    const bar = barMap.get(id)!;
+    return bar.end.getTime() - bar.start.getTime();
+  };
+
+  // Forward pass: earliest start / finish
+  const earlyStart = new Map<string, number>();
+  const earlyFinish = new Map<string, number>();
+  for (const id of order) {
+    let es = barMap.get(id)!.start.getTime();
+    for (const dep of links) {
+      if (dep.task_id !== id) continue;
+      const predEs = earlyStart.get(dep.depends_on_id)!;
+      const predEf = earlyFinish.get(dep.depends_on_id)!;
+      switch (normalizeDependencyType(dep.dependency_type)) {
+        case "finish_to_start":
+          es = Math.max(es, predEf);
+          break;
+        case "start_to_start":
+          es = Math.max(es, predEs);
+          break;
+        case "finish_to_finish":
+          es = Math.max(es, predEf - duration(id));
+          break;
+        case "start_to_finish":
+          es = Math.max(es, predEs - duration(id));
+          break;
+      }
+    }
+    earlyStart.set(id, es);
+    earlyFinish.set(id, es + duration(id));
+  }
+
+  const projectEnd = Math.max(...earlyFinish.values());
+
+  // Backward pass: latest finish
+  const lateFinish = new Map<string, number>();
+  for (const id of [...order].reverse()) {
+    let lf = projectEnd;
+    for (const dep of links) {
+      if (dep.depends_on_id !== id) continue;
+      const succLf = lateFinish.get(dep.task_id)!;
+      const succLs = succLf - duration(dep.task_id);
+      switch (normalizeDependencyType(dep.dependency_type)) {
+        case "finish_to_start":
+          lf = Math.min(lf, succLs);
+          break;
+        case "start_to_start":
+          lf = Math.min(lf, succLs + duration(id));
+          break;
+        case "finish_to_finish":
+          lf = Math.min(lf, succLf);
+          break;
+        case "start_to_finish":
+          lf = Math.min(lf, succLf + duration(id));
+          break;
+      }
+    }
+    lateFinish.set(id, lf);
+  }
+
+  for (const id of order) {
+    const slack = lateFinish.get(id)! - earlyFinish.get(id)!;
+    if (slack <= FLOAT_TOLERANCE_MS) critical.add(id);
+  }
+
+  return critical;
+}
@@ -0,0 +1,142 @@
+/**
+ * Kanban board utilities.
+ * WIP limit checks per status column and swimlane grouping of tasks.
+ */
+
+import type { Task, TaskPriority, TaskUpdate } from "../types/task.types";
+import type { TaskStatus } from "../types/status.types";
+
+export type SwimlaneGroupBy = "none" | "assignee" | "priority" | "tag";
+
+export type WipState = "ok" | "at_limit" | "over";
+
+/** Lane for tasks without assignee or tag */
+export const NO_LANE_ID = "__none__";
+
+const PRIORITY_ORDER: TaskPriority[] = ["urgent", "high", "medium", "low"];
+
+export interface Swimlane {
+  id: string;
+  tasks: Task[];
+}
+
+/**
+ * Merge WIP settings from status definitions into board statuses.
+ * Definitions are matched by id first and by name otherwise, since the
+ * board's built-in statuses do not share ids with the stored definitions.
+ */
+export function applyWipSettings<T extends TaskStatus>(
+  statuses: T[],
+  definitions: Pick<TaskStatus, "id" | "name" | "wip_limit" | "wip_policy">[]
+): T[] {
+  return statuses.map((status) => {
+    const definition =
+      definitions.find((item) => item.id === status.id) ??
+      definitions.find(
+        (item) => item.name.toLowerCase() === status.name.toLowerCase()
+      );
+    if (!definition) return status;
+    return {
+      ...status,
+      wip_limit: definition.wip_limit ?? status.wip_limit ?? null,
+      wip_policy: definition.wip_policy ?? status.wip_policy,
+    };
+  });
+}
+
+/**
+ * Compare a column's task count with its WIP limit.
+ */
+export function getWipState(
+  count: number,
+  limit: number | null | undefined
+): WipState {
+  if (!limit || limit <= 0) return "ok";
+  if (count > limit) return "over";
+  return count === limit ? "at_limit" : "ok";
+}
+
+/**
+ * Whether a task coming from another column must be rejected because the
+ * target column enforces its WIP limit.
+ */
+export function isDropBlocked(status: TaskStatus, count: number): boolean {
+  if (status.wip_policy !== "block" || !status.wip_limit) return false;
+  return count >= status.wip_limit;
+}
+
+/**
+ * Lane a task belongs to. Tasks with several tags go to their first tag.
+ */
+export function getLaneId(task: Task, groupBy: SwimlaneGroupBy): string {
+  switch (groupBy) {
+    case "assignee":
+      return task.assigned_to_id || NO_LANE_ID;
+    case "priority":
+      return task.priority;
+    case "tag":
+      return task.tag_ids?.[0] || NO_LANE_ID;
+    case "none":
+      return NO_LANE_ID;
+  }
+}
+
+/**
+ * Split tasks into swimlanes. Priority lanes follow urgency, other lanes are
+ * sorted by `getLabel` with the "none" lane last. Empty lanes are omitted.
+ */
+export function buildSwimlanes(
+  tasks: Task[],
+  groupBy: SwimlaneGroupBy,
+  getLabel: (laneId: string) => string = (laneId) => laneId
+): Swimlane[] {
+  if (groupBy === "none") return [{ id: NO_LANE_ID, tasks }];
+
+  const lanes = new Map<string, Task[]>();
+  tasks.forEach((task) => {
+    const laneId = getLaneId(task, groupBy);
+    if (!lanes.has(laneId)) lanes.set(laneId, []);
+    lanes.get(laneId)!.push(task);
+  });
+
+  const rank = (laneId: string) =>
+    groupBy === "priority"
+      ? PRIORITY_ORDER.indexOf(laneId as TaskPriority)
+      : laneId === NO_LANE_ID
+        ? 1
+        : 0;
+
+  return [...lanes.entries()]
+    .map(([id, laneTasks]) => ({ id, tasks: laneTasks }))
+    .sort(
+      (a, b) =>
+        rank(a.id) - rank(b.id) || getLabel(a.id).localeCompare(getLabel(b.id))
+    );
+}
+
+/**
+ * Fields to update when a task is dropped into another swimlane.
+ * @returns null when the lane does not change
+ */
+export function buildLaneUpdate(
+  task: Task,
+  groupBy: SwimlaneGroupBy,
+  laneId: string
+): TaskUpdate | null {
+  if (groupBy === "none" || getLaneId(task, groupBy) === laneId) return null;
+
+  switch (groupBy) {
+    case "assignee":
+      return { assigned_to_id: laneId === NO_LANE_ID ? null : laneId };
+    case "priority":
+      return { priority: laneId as TaskPriority };
+    case "tag": {
+      if (laneId === NO_LANE_ID) return { tag_ids: [] };
+      // The tag of the previous lane is replaced, other tags are kept
+      const others = (task.tag_ids ?? [])
+        .slice(1)
+        .filter((id) => id !== laneId);
+      return { tag_ids: [laneId, ...others] };
+    }
+  }
+}
@@ -0,0 +1,543 @@
+/**
+ * Natural-language parser for quick task capture.
+ * Understands Spanish and English phrases such as
+ * "Llamar a Ana mañana 10am #ventas !alta @maria cada lunes".
+ */
+
+import type { TaskPriority } from "~/features/tasks/types/task.types";
+
+export type QuickTokenType =
+  | "date"
+  | "time"
+  | "priority"
+  | "tag"
+  | "assignee"
+  | "recurrence";
+
+export interface QuickToken {
+  type: QuickTokenType;
+  text: string;
+  start: number;
+  end: number;
+}
+
+export type RecurrenceFrequency = "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+
+export interface QuickRecurrence {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay: string[];
+  rrule: string;
+}
+
+export interface ParsedQuickTask {
+  title: string;
+  dueDate: Date | null;
+  hasTime: boolean;
+  priority: TaskPriority | null;
+  tags: string[];
+  assignee: string | null;
+  recurrence: QuickRecurrence | null;
+  tokens: QuickToken[];
+}
+
+/** Minimal shapes used to resolve #tags and @mentions */
+export interface QuickTagOption {
+  id: string;
+  name: string;
+}
+
+export interface QuickUserOption {
+  id: string;
+  email: string;
+  first_name?: string | null;
+  last_name?: string | null;
+  full_name?: string | null;
+}
+
+const WEEKDAYS: { pattern: string; code: string; index: number }[] = [
+  { pattern: "domingos?|sunday", code: "SU", index: 0 },
+  { pattern: "lunes|monday", code: "MO", index: 1 },
+  { pattern: "martes|tuesday", code: "TU", index: 2 },
+  { pattern: "miercoles|wednesday", code: "WE", index: 3 },
+  { pattern: "jueves|thursday", code: "TH", index: 4 },
+  { pattern: "viernes|friday", code: "FR", index: 5 },
+  { pattern: "sabados?|saturday", code: "SA", index: 6 },
+];
+
+const WEEKDAY_PATTERN = WEEKDAYS.map((day) => day.pattern).join("|");
+
+const MONTHS: { pattern: string; index: number }[] = [
+  { pattern: "enero|january|jan", index: 0 },
+  { pattern: "febrero|february|feb", index: 1 },
+  { pattern: "marzo|march|mar", index: 2 },
+  { pattern: "abril|april|apr", index: 3 },
+  { pattern: "mayo|may", index: 4 },
+  { pattern: "junio|june|jun", index: 5 },
+  { pattern: "julio|july|jul", index: 6 },
+  { pattern: "agosto|august|aug", index: 7 },
+  { pattern: "septiembre|setiembre|september|sep|sept", index: 8 },
+  { pattern: "octubre|october|oct", index: 9 },
+  { pattern: "noviembre|november|nov", index: 10 },
+  { pattern: "diciembre|december|dec", index: 11 },
+];
+
+const MONTH_PATTERN = MONTHS.map((month) => month.pattern).join("|");
+
+const PRIORITY_WORDS: Record<string, TaskPriority> = {
+  urgente: "urgent",
+  urgent: "urgent",
+  "1": "urgent",
+  alta: "high",
+  high: "high",
+  "2": "high",
+  media: "medium",
+  medium: "medium",
+  normal: "medium",
+  "3": "medium",
+  baja: "low",
+  low: "low",
+  "4": "low",
+};
+
+/** Connector words left dangling at the end of the title once tokens are removed */
+const TRAILING_CONNECTORS = new Set([
+  "a",
+  "al",
+  "at",
+  "by",
+  "de",
+  "due",
+  "el",
+  "en",
+  "for",
+  "la",
+  "on",
+  "para",
+]);
+
+/**
+ * Lowercase and strip accents without changing the string length,
+ * so match indexes stay valid on the original input.
+ */
+export function foldText(value: string): string {
+  return Array.from(value.toLowerCase())
+    .map((char) => {
+      const folded = char.normalize("NFD").replace(/[̀-ͯ]/g, "");
+      return folded.length === 1 ? folded : char;
+    })
+    .join("");
+}
+
+function getWeekday(text: string) {
+  return WEEKDAYS.find((day) => new RegExp(`^(?:${day.pattern})$`).test(text));
+}
+
+function getMonthIndex(text: string): number {
+  return (
+    MONTHS.find((month) => new RegExp(`^(?:${month.pattern})$`).test(text))
+      ?.index ?? -1
+  );
+}
+
+function startOfDay(date: Date): Date {
+  const result = new Date(date);
+  result.setHours(0, 0, 0, 0);
+  return result;
+}
+
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+function nextWeekday(now: Date, index: number): Date {
+  const today = startOfDay(now);
+  const diff = (index - today.getDay() + 7) % 7 || 7;
+  return addDays(today, diff);
+}
+
+function buildRecurrence(
+  freq: RecurrenceFrequency,
+  interval = 1,
+  byDay: string[] = []
+): QuickRecurrence {
+  const parts = [`FREQ=${freq}`];
+  if (interval > 1) parts.push(`INTERVAL=${interval}`);
+  if (byDay.length > 0) parts.push(`BYDAY=${byDay.join(",")}`);
+  return { freq, interval, byDay, rrule: parts.join(";") };
+}
+
+function unitToFrequency(unit: string): RecurrenceFrequency {
+  if (/^(dia|day)/.test(unit)) return "DAILY";
+  if (/^(semana|week)/.test(unit)) return "WEEKLY";
+  if (/^(mes|month)/.test(unit)) return "MONTHLY";
+  return "YEARLY";
+}
+
+interface ParserState {
+  folded: string;
+  tokens: QuickToken[];
+  input: string;
+}
+
+/**
+ * Run a regex over the unconsumed text and blank out every match,
+ * so later rules cannot reuse the same words.
+ */
+function consume(
+  state: ParserState,
+  type: QuickTokenType,
+  regex: RegExp,
+  onMatch: (match: RegExpExecArray) => boolean
+) {
+  const global = new RegExp(regex.source, "g");
+  let match: RegExpExecArray | null;
+  const matches: RegExpExecArray[] = [];
+  while ((match = global.exec(state.folded)) !== null) {
+    matches.push(match);
+    if (match[0].length === 0) global.lastIndex += 1;
+  }
+
+  for (const found of matches) {
+    // Leading whitespace captured as a boundary is not part of the token
+    const leading = found[0].length - found[0].trimStart().length;
+    const start = found.index + leading;
+    const end = found.index + found[0].length;
+    if (!onMatch(found)) continue;
+    state.tokens.push({
+      type,
+      text: state.input.slice(start, end),
+      start,
+      end,
+    });
+    state.folded =
+      state.folded.slice(0, start) +
+      " ".repeat(end - start) +
+      state.folded.slice(end);
+  }
+}
+
+/**
+ * Parse a quick-capture line into task fields.
+ * Dates without a time are due at the end of that day; a time without a
+ * date refers to today, or tomorrow when it has already passed.
+ */
+export function parseQuickTask(
+  input: string,
+  now: Date = new Date()
+): ParsedQuickTask {
+  const state: ParserState = { folded: foldText(input), tokens: [], input };
+
+  let day: Date | null = null;
+  let time: { hours: number; minutes: number } | null = null;
+  let priority: TaskPriority | null = null;
+  let assignee: string | null = null;
+  let recurrence: QuickRecurrence | null = null;
+  const tags: string[] = [];
+
+  // Recurrence
+  consume(
+    state,
+    "recurrence",
+    /\b(?:cada|every)\s+(\d+)\s+(dias?|semanas?|mes(?:es)?|anos?|days?|weeks?|months?|years?)\b/,
+    (match) => {
+      if (recurrence) return false;
+      recurrence = buildRecurrence(
+        unitToFrequency(match[2]!),
+        Number(match[1])
+      );
+      return true;
+    }
+  );
+  consume(
+    state,
+    "recurrence",
+    /\b(?:cada\s+dia\s+(?:laborable|habil)|dias\s+laborables|entre\s+semana|every\s+weekday|weekdays)\b/,
+    () => {
+      if (recurrence) return false;
+      recurrence = buildRecurrence("WEEKLY", 1, ["MO", "TU", "WE", "TH", "FR"]);
+      return true;
+    }
+  );
+  consume(
+    state,
+    "recurrence",
+    new RegExp(
+      `\\b(?:cada|every|todos\\s+los|todas\\s+las)\\s+((?:${WEEKDAY_PATTERN})(?:\\s*(?:,|\\by\\b|\\band\\b)\\s*(?:${WEEKDAY_PATTERN}))*)\\b`
+    ),
+    (match) => {
+      if (recurrence) return false;
+      const codes = match[1]!
+        .split(/\s*(?:,|\by\b|\band\b)\s*/)
+        .map((name) => getWeekday(name.trim())?.code)
+        .filter((code): code is string => Boolean(code));
+      recurrence = buildRecurrence("WEEKLY", 1, codes);
+      return true;
+    }
+  );
+  consume(
+    state,
+    "recurrence",
+    /\b(?:cada|every)\s+(dia|day|semana|week|mes|month|ano|year)\b|\b(?:todos\s+los\s+dias|diario|diariamente|daily|semanal(?:mente)?|weekly|mensual(?:mente)?|monthly|anual(?:mente)?|yearly|annually)\b/,
+    (match) => {
+      if (recurrence) return false;
+      const word = match[1] ?? match[0];
+      if (/dia|day|diari|daily/.test(word)) {
+        recurrence = buildRecurrence("DAILY");
+      } else if (/seman|week/.test(word)) {
+        recurrence = buildRecurrence("WEEKLY");
+      } else if (/mes|mensual|month/.test(word)) {
+        recurrence = buildRecurrence("MONTHLY");
+      } else {
+        recurrence = buildRecurrence("YEARLY");
+      }
+      return true;
+    }
+  );
+
+  // Explicit dates
+  consume(state, "date", /\b(\d{4})-(\d{2})-(\d{2})\b/, (match) => {
+    if (day) return false;
+    day = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+    return true;
+  });
+  consume(
+    state,
+    "date",
+    /\b(\d{1,2})\/(\d{1,2})(?:\/(\d{2,4}))?\b/,
+    (match) => {
+      if (day) return false;
+      let year = match[3] ? Number(match[3]) : now.getFullYear();
+      if (year < 100) year += 2000;
+      const candidate = new Date(year, Number(match[2]) - 1, Number(match[1]));
+      if (!match[3] && candidate < startOfDay(now)) {
+        candidate.setFullYear(year + 1);
+      }
+      day = candidate;
+      return true;
+    }
+  );
+  consume(
+    state,
+    "date",
+    new RegExp(
+      `\\b(?:(\\d{1,2})\\s+(?:de\\s+)?(${MONTH_PATTERN})|(${MONTH_PATTERN})\\s+(\\d{1,2})(?:st|nd|rd|th)?)(?:,?\\s+(?:de\\s+)?(\\d{4}))?\\b`
+    ),
+    (match) => {
+      if (day) return false;
+      const dayOfMonth = Number(match[1] ?? match[4]);
+      const monthIndex = getMonthIndex(match[2] ?? match[3]!);
+      if (monthIndex < 0 || dayOfMonth < 1 || dayOfMonth > 31) return false;
+      const year = match[5] ? Number(match[5]) : now.getFullYear();
+      const candidate = new Date(year, monthIndex, dayOfMonth);
+      if (!match[5] && candidate < startOfDay(now)) {
+        candidate.setFullYear(year + 1);
+      }
+      day = candidate;
+      return true;
+    }
+  );
+
+  // Relative dates
+  consume(
+    state,
+    "date",
+    /\b(?:pasado\s+manana|day\s+after\s+tomorrow)\b/,
+    () => {
+      if (day) return false;
+      day = addDays(startOfDay(now), 2);
+      return true;
+    }
+  );
+  consume(state, "date", /(?<!\bla\s)\b(?:manana|tomorrow)\b/, () => {
+    if (day) return false;
+    day = addDays(startOfDay(now), 1);
+    return true;
+  });
+  consume(state, "date", /\b(?:hoy|today|tonight|esta\s+noche)\b/, () => {
+    if (day) return false;
+    day = startOfDay(now);
+    return true;
+  });
+  consume(
+    state,
+    "date",
+    /\b(?:en|in)\s+(\d+)\s+(dias?|semanas?|mes(?:es)?|days?|weeks?|months?)\b/,
+    (match) => {
+      if (day) return false;
+      const amount = Number(match[1]);
+      const frequency = unitToFrequency(match[2]!);
+      const base = startOfDay(now);
+      if (frequency === "DAILY") day = addDays(base, amount);
+      else if (frequency === "WEEKLY") day = addDays(base, amount * 7);
+      else {
+        day = new Date(base);
+        day.setMonth(day.getMonth() + amount);
+      }
+      return true;
+    }
+  );
+  consume(
+    state,
+    "date",
+    new RegExp(
+      `\\b(?:(?:el|este|this|on)\\s+)?(?:(?:proximo|next)\\s+)?(${WEEKDAY_PATTERN})(?:\\s+(?:que\\s+viene|proximo))?\\b`
+    ),
+    (match) => {
+      if (day) return false;
+      const weekday = getWeekday(match[1]!);
+      if (!weekday) return false;
+      day = nextWeekday(now, weekday.index);
+      return true;
+    }
+  );
+
+  // Times
+  consume(
+    state,
+    "time",
+    /\b(?:(?:a\s+las|a\s+la|at)\s+)?(\d{1,2})(?::(\d{2}))?\s*(am|pm|a\.m\.|p\.m\.)/,
+    (match) => {
+      if (time) return false;
+      let hours = Number(match[1]);
+      const minutes = Number(match[2] ?? 0);
+      if (hours < 1 || hours > 12 || minutes > 59) return false;
+      const isPm = match[3]!.startsWith("p");
+      if (isPm && hours < 12) hours += 12;
+      if (!isPm && hours === 12) hours = 0;
+      time = { hours, minutes };
+      return true;
+    }
+  );
+  consume(
+    state,
+    "time",
+    /\b(?:(?:a\s+las|a\s+la|at)\s+(\d{1,2})(?::(\d{2}))?(?:\s*(?:h|hrs|horas))?|(\d{1,2}):(\d{2})(?:\s*h)?|(\d{1,2})\s*h)\b/,
+    (match) => {
+      if (time) return false;
+      const hours = Number(match[1] ?? match[3] ?? match[5]);
+      const minutes = Number(match[2] ?? match[4] ?? 0);
+      if (hours > 23 || minutes > 59) return false;
+      time = { hours, minutes };
+      return true;
+    }
+  );
+
+  // Priority, tags and mentions
+  consume(
+    state,
+    "priority",
+    /(?:^|\s)!(urgente|urgent|alta|high|media|medium|normal|baja|low|[1-4])\b/,
+    (match) => {
+      if (priority) return false;
+      priority = PRIORITY_WORDS[match[1]!] ?? null;
+      return true;
+    }
+  );
+  consume(state, "tag", /(?:^|\s)#([\w-]+)/, (match) => {
+    const start = match.index + match[0].indexOf("#") + 1;
+    tags.push(input.slice(start, start + match[1]!.length));
+    return true;
+  });
+  consume(state, "assignee", /(?:^|\s)@([\w.-]+)/, (match) => {
+    if (assignee) return false;
+    const start = match.index + match[0].indexOf("@") + 1;
+    assignee = input.slice(start, start + match[1]!.length);
+    return true;
+  });
+
+  // A weekly recurrence on given days starts on the next of those days
+  const parsedRecurrence = recurrence as QuickRecurrence | null;
+  if (!day && parsedRecurrence && parsedRecurrence.byDay.length > 0) {
+    const indexes = parsedRecurrence.byDay
+      .map((code) => WEEKDAYS.find((weekday) => weekday.code === code)!.index)
+      .map((index) => nextWeekday(now, index));
+    day = indexes.sort((a, b) => a.getTime() - b.getTime())[0] ?? null;
+  }
+
+  let dueDate: Date | null = null;
+  const parsedTime = time as { hours: number; minutes: number } | null;
+  if (day || parsedTime) {
+    dueDate = new Date(day ?? startOfDay(now));
+    if (parsedTime) {
+      dueDate.setHours(parsedTime.hours, parsedTime.minutes, 0, 0);
+      if (!day && dueDate < now) dueDate = addDays(dueDate, 1);
+    } else {
+      dueDate.setHours(23, 59, 0, 0);
+    }
+  }
+
+  return {
+    title: buildTitle(input, state.tokens),
+    dueDate,
+    hasTime: parsedTime !== null,
+    priority,
+    tags,
+    assignee,
+    recurrence,
+    tokens: [...state.tokens].sort((a, b) => a.start - b.start),
+  };
+}
+
+/**
+ * Remove the parsed tokens from the input and tidy up the remaining text.
+ */
+function buildTitle(input: string, tokens: QuickToken[]): string {
+  let title = input;
+  for (const token of [...tokens].sort((a, b) => b.start - a.start)) {
+    title = title.slice(0, token.start) + " " + title.slice(token.end);
+  }
+
+  const words = title.split(/\s+/).filter(Boolean);
+  while (
+    words.length > 1 &&
+    TRAILING_CONNECTORS.has(foldText(words[words.length - 1]!))
+  ) {
+    words.pop();
+  }
+  return words.join(" ").replace(/\s+([,.;:])/g, "$1");
+}
+
+/**
+ * Find the tag whose name matches a #tag, ignoring case and accents.
+ */
+export function matchTag<T extends QuickTagOption>(
+  name: string,
+  tags: T[]
+): T | undefined {
+  const wanted = foldText(name).replace(/[-_]/g, " ");
+  return tags.find(
+    (tag) => foldText(tag.name).replace(/[-_]/g, " ") === wanted
+  );
+}
+
+/**
+ * Find the user referenced by an @mention: the e-mail local part, the
+ * first name or the full name without spaces, ignoring case and accents.
+ */
+export function matchUser<T extends QuickUserOption>(
+  handle: string,
+  users: T[]
+): T | undefined {
+  const wanted = foldText(handle);
+  const candidates = (user: T) =>
+    [
+      user.email.split("@")[0],
+      user.first_name,
+      user.full_name?.replace(/\s+/g, ""),
+      user.first_name && user.last_name
+        ? `${user.first_name}${user.last_name}`
+        : null,
+    ]
+      .filter((value): value is string => Boolean(value))
+      .map((value) => foldText(value));
+
+  return (
+    users.find((user) => candidates(user).includes(wanted)) ??
+    users.find((user) =>
+      candidates(user).some((value) => value.startsWith(wanted))
+    )
+  );
+}
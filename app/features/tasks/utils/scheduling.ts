@@ -0,0 +1,108 @@
+/**
+ * Dependency-aware rescheduling.
+ * Computes how moving a task cascades to its successors.
+ */
+
+import type { Task } from "~/features/tasks/types/task.types";
+import type {
+  TaskDependency,
+  TaskDependencyType,
+} from "~/features/tasks/hooks/useDependencies";
+import {
+  getDownstreamTaskIds,
+  normalizeDependencyType,
+  topologicalSort,
+} from "~/features/tasks/utils/dependencies";
+import {
+  getTaskSchedule,
+  type TaskSchedule,
+} from "~/features/tasks/utils/gantt";
+
+export interface ScheduleShift {
+  task: Task;
+  from: TaskSchedule;
+  to: TaskSchedule;
+}
+
+/**
+ * Earliest start a successor may have to satisfy one dependency,
+ * given the predecessor schedule and the successor duration (ms).
+ */
+function getRequiredStart(
+  type: TaskDependencyType,
+  predecessor: TaskSchedule,
+  duration: number
+): number {
+  switch (type) {
+    case "start_to_start":
+      return predecessor.start.getTime();
+    case "finish_to_finish":
+      return predecessor.end.getTime() - duration;
+    case "start_to_finish":
+      return predecessor.start.getTime() - duration;
+    case "finish_to_start":
+    default:
+      return predecessor.end.getTime();
+  }
+}
+
+/**
+ * Compute the successor date shifts caused by rescheduling a task.
+ * Successors keep their duration and are only pushed later when a
+ * dependency would be violated; moving a predecessor earlier leaves them
+ * in place. Unscheduled tasks are skipped.
+ * @returns the shifts in dependency order (empty when the graph has a cycle)
+ */
+export function computeScheduleCascade(
+  tasks: Task[],
+  dependencies: TaskDependency[],
+  changedTaskId: string,
+  newSchedule: TaskSchedule
+): ScheduleShift[] {
+  const taskMap = new Map(tasks.map((task) => [task.id, task]));
+  const schedules = new Map<string, TaskSchedule>();
+  for (const task of tasks) {
+    const schedule = getTaskSchedule(task);
+    if (schedule) schedules.set(task.id, schedule);
+  }
+  schedules.set(changedTaskId, newSchedule);
+
+  const order = topologicalSort([...taskMap.keys()], dependencies);
+  if (!order) return [];
+
+  const downstream = getDownstreamTaskIds(changedTaskId, dependencies);
+  const shifts: ScheduleShift[] = [];
+
+  for (const id of order) {
+    if (!downstream.has(id)) continue;
+    const current = schedules.get(id);
+    if (!current) continue;
+
+    const duration = current.end.getTime() - current.start.getTime();
+    let requiredStart = current.start.getTime();
+    for (const dep of dependencies) {
+      if (dep.task_id !== id) continue;
+      const predecessor = schedules.get(dep.depends_on_id);
+      if (!predecessor) continue;
+      requiredStart = Math.max(
+        requiredStart,
+        getRequiredStart(
+          normalizeDependencyType(dep.dependency_type),
+          predecessor,
+          duration
+        )
+      );
+    }
+
+    if (requiredStart > current.start.getTime()) {
+      const to = {
+        start: new Date(requiredStart),
+        end: new Date(requiredStart + duration),
+      };
+      schedules.set(id, to);
+      shifts.push({ task: taskMap.get(id)!, from: current, to });
+    }
+  }
+
+  return shifts;
+}
@@ -0,0 +1,122 @@
+/**
+ * Task history utilities.
+ * Undo/redo stack for task mutations and the inverse payloads they need.
+ */
+
+import type { Task, TaskUpdate } from "../types/task.types";
+
+/** Maximum number of steps kept in the undo history */
+export const MAX_HISTORY_ENTRIES = 50;
+
+export type TaskHistoryAction =
+  | "create"
+  | "update"
+  | "move"
+  | "delete"
+  | "bulkStatus"
+  | "bulkPriority"
+  | "bulkAssign"
+  | "bulkDelete";
+
+// Outcome of a step over several tasks; a step with failures is not moved
+export interface TaskHistoryStepResult {
+  failed: number;
+}
+
+export interface TaskHistoryEntry {
+  action: TaskHistoryAction;
+  count: number; // Tasks affected by the step
+  undo: () => Promise<TaskHistoryStepResult | void>;
+  redo: () => Promise<TaskHistoryStepResult | void>;
+}
+
+export interface TaskHistoryState {
+  past: TaskHistoryEntry[];
+  future: TaskHistoryEntry[];
+}
+
+/**
+ * Add a step to the history. A new step discards the redo stack.
+ */
+export function pushHistoryEntry(
+  state: TaskHistoryState,
+  entry: TaskHistoryEntry,
+  maxEntries: number = MAX_HISTORY_ENTRIES
+): TaskHistoryState {
+  return { past: [...state.past, entry].slice(-maxEntries), future: [] };
+}
+
+/**
+ * Move the latest step from `past` to `future` (undo) or back (redo).
+ * @returns the moved entry and the new state, or null if there is nothing to move
+ */
+export function shiftHistory(
+  state: TaskHistoryState,
+  direction: "undo" | "redo"
+): { entry: TaskHistoryEntry; state: TaskHistoryState } | null {
+  const source = direction === "undo" ? state.past : state.future;
+  const entry = source[source.length - 1];
+  if (!entry) return null;
+
+  const remaining = source.slice(0, -1);
+  return direction === "undo"
+    ? { entry, state: { past: remaining, future: [...state.future, entry] } }
+    : { entry, state: { past: [...state.past, entry], future: remaining } };
+}
+
+/**
+ * Payload that restores the fields touched by `payload` to their values in
+ * `previous`. Missing values are sent as null so they are cleared.
+ */
+export function buildInverseUpdate(
+  previous: Task,
+  payload: TaskUpdate
+): TaskUpdate {
+  const inverse: Record<string, unknown> = {};
+  Object.keys(payload).forEach((key) => {
+    inverse[key] = previous[key as keyof Task] ?? null;
+  });
+  return inverse as TaskUpdate;
+}
+
+/**
+ * Whether an update only moves the task on the board.
+ */
+export function isMoveUpdate(payload: TaskUpdate): boolean {
+  return "board_order" in payload || "status_id" in payload;
+}
+
+/**
+ * History entry for a change made to several tasks. `undo` and `redo` run on
+ * the given ids and resolve with the ones that failed. Each direction only
+ * runs on the tasks still waiting for it, so retrying a step that partly
+ * failed doesn't touch the tasks that already succeeded.
+ */
+export function buildBulkHistoryEntry(
+  action: TaskHistoryAction,
+  taskIds: string[],
+  steps: {
+    undo: (ids: string[]) => Promise<string[]>;
+    redo: (ids: string[]) => Promise<string[]>;
+  }
+): TaskHistoryEntry {
+  let toUndo = [...taskIds];
+  let toRedo: string[] = [];
+
+  return {
+    action,
+    count: taskIds.length,
+    undo: async () => {
+      const failed = await steps.undo(toUndo);
+      toRedo = [...toRedo, ...toUndo.filter((id) => !failed.includes(id))];
+      toUndo = failed;
+      return { failed: failed.length };
+    },
+    redo: async () => {
+      const failed = await steps.redo(toRedo);
+      toUndo = [...toUndo, ...toRedo.filter((id) => !failed.includes(id))];
+      toRedo = failed;
+      return { failed: failed.length };
+    },
+  };
+}
@@ -0,0 +1,285 @@
+/**
+ * Task list view utilities
+ * Grouping, multi-key sorting and column layout for the task list, in the
+ * shape stored by saved views.
+ */
+
+import { endOfWeek, isSameDay, startOfDay } from "date-fns";
+import { getLaneId, NO_LANE_ID } from "./kanban";
+import type {
+  SavedView,
+  Task,
+  TaskGroupBy,
+  TaskPriority,
+  TaskSortKey,
+  TaskStatus,
+} from "../types/task.types";
+
+export type DueBucket = "overdue" | "today" | "thisWeek" | "later" | "noDate";
+
+export type ColumnConfig = SavedView["column_config"];
+
+export interface TaskGroup {
+  id: string;
+  tasks: Task[];
+}
+
+export interface ColumnLayout {
+  key: string;
+  visible: boolean;
+  width?: number;
+}
+
+/** Group for tasks without assignee, tag or due date */
+export const NO_GROUP_ID = NO_LANE_ID;
+
+export const MIN_COLUMN_WIDTH = 80;
+export const MAX_COLUMN_WIDTH = 800;
+
+const STATUS_ORDER: TaskStatus[] = [
+  "todo",
+  "in_progress",
+  "review",
+  "on_hold",
+  "blocked",
+  "done",
+  "cancelled",
+];
+const PRIORITY_ORDER: TaskPriority[] = ["urgent", "high", "medium", "low"];
+const DUE_BUCKET_ORDER: DueBucket[] = [
+  "overdue",
+  "today",
+  "thisWeek",
+  "later",
+  "noDate",
+];
+
+/**
+ * Due bucket of a task relative to `now`. Weeks start on Monday.
+ */
+export function getDueBucket(task: Task, now: Date = new Date()): DueBucket {
+  if (!task.due_date) return "noDate";
+  const due = new Date(task.due_date);
+  if (isSameDay(due, now)) return "today";
+  if (due < startOfDay(now)) return "overdue";
+  if (due <= endOfWeek(now, { weekStartsOn: 1 })) return "thisWeek";
+  return "later";
+}
+
+function getGroupId(task: Task, groupBy: TaskGroupBy, now: Date): string {
+  switch (groupBy) {
+    case "status":
+      return task.status;
+    case "due":
+      return getDueBucket(task, now);
+    case "assignee":
+    case "priority":
+    case "tag":
+      return getLaneId(task, groupBy);
+    case "none":
+      return NO_GROUP_ID;
+  }
+}
+
+function fixedGroupOrder(groupBy: TaskGroupBy): readonly string[] | null {
+  if (groupBy === "status") return STATUS_ORDER;
+  if (groupBy === "priority") return PRIORITY_ORDER;
+  if (groupBy === "due") return DUE_BUCKET_ORDER;
+  return null;
+}
+
+/**
+ * Split tasks into groups, keeping the order of the tasks inside each group.
+ * Status, priority and due groups follow their natural order; assignee and
+ * tag groups follow `getLabel` alphabetically with the empty group last.
+ * Empty groups are omitted.
+ */
+export function groupTasks(
+  tasks: Task[],
+  groupBy: TaskGroupBy,
+  getLabel: (groupId: string) => string = (groupId) => groupId,
+  now: Date = new Date()
+): TaskGroup[] {
+  if (groupBy === "none") return [{ id: NO_GROUP_ID, tasks }];
+
+  const groups = new Map<string, Task[]>();
+  tasks.forEach((task) => {
+    const id = getGroupId(task, groupBy, now);
+    groups.set(id, [...(groups.get(id) ?? []), task]);
+  });
+
+  const order = fixedGroupOrder(groupBy);
+  const ids = Array.from(groups.keys()).sort((a, b) => {
+    if (order) return order.indexOf(a) - order.indexOf(b);
+    if (a === NO_GROUP_ID) return 1;
+    if (b === NO_GROUP_ID) return -1;
+    return getLabel(a).localeCompare(getLabel(b));
+  });
+
+  return ids.map((id) => ({ id, tasks: groups.get(id) ?? [] }));
+}
+
+/**
+ * All sort keys of a saved sort config, primary first.
+ */
+export function getSortKeys(config: SavedView["sort_config"]): TaskSortKey[] {
+  return [
+    { field: config.field, direction: config.direction },
+    ...(config.then_by ?? []),
+  ];
+}
+
+/**
+ * Sort config to store in a saved view from an ordered list of keys.
+ */
+export function buildSortConfig(keys: TaskSortKey[]): SavedView["sort_config"] {
+  const [primary, ...rest] = keys;
+  return {
+    field: primary?.field ?? "created_at",
+    direction: primary?.direction ?? "desc",
+    ...(rest.length > 0 ? { then_by: rest } : {}),
+  };
+}
+
+function compareByField(a: Task, b: Task, field: string): number {
+  switch (field) {
+    case "status":
+      return STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status);
+    case "priority":
+      // Ascending goes from least to most urgent
+      return (
+        PRIORITY_ORDER.indexOf(b.priority) - PRIORITY_ORDER.indexOf(a.priority)
+      );
+    case "title":
+      return a.title.localeCompare(b.title);
+    default: {
+      const aValue = a[field as keyof Task];
+      const bValue = b[field as keyof Task];
+      return String(aValue).localeCompare(String(bValue));
+    }
+  }
+}
+
+/**
+ * Compare two tasks by several keys. Missing values always go last,
+ * whatever the direction.
+ */
+export function compareTasks(a: Task, b: Task, keys: TaskSortKey[]): number {
+  for (const { field, direction } of keys) {
+    const aMissing = a[field as keyof Task] == null;
+    const bMissing = b[field as keyof Task] == null;
+    if (aMissing || bMissing) {
+      if (aMissing !== bMissing) return aMissing ? 1 : -1;
+      continue;
+    }
+    const result = compareByField(a, b, field);
+    if (result !== 0) return direction === "asc" ? result : -result;
+  }
+  return 0;
+}
+
+export function sortTasks(tasks: Task[], keys: TaskSortKey[]): Task[] {
+  if (keys.length === 0) return tasks;
+  return [...tasks].sort((a, b) => compareTasks(a, b, keys));
+}
+
+/**
+ * Sort keys after clicking a column header. A plain click sorts by that
+ * column only, flipping the direction if it already was the only key. With
+ * `additive` (shift+click) the column is appended, flipped from asc to desc,
+ * and removed after desc.
+ */
+export function toggleSortKey(
+  keys: TaskSortKey[],
+  field: string,
+  additive = false
+): TaskSortKey[] {
+  const current = keys.find((key) => key.field === field);
+
+  if (!additive) {
+    if (keys.length === 1 && current) {
+      return [
+        { field, direction: current.direction === "asc" ? "desc" : "asc" },
+      ];
+    }
+    return [{ field, direction: "asc" }];
+  }
+
+  if (!current) return [...keys, { field, direction: "asc" }];
+  if (current.direction === "asc") {
+    return keys.map((key) =>
+      key.field === field ? { field, direction: "desc" } : key
+    );
+  }
+  return keys.filter((key) => key.field !== field);
+}
+
+/**
+ * Columns in display order with their stored visibility and width. Columns
+ * missing from the config keep their default position after the stored ones.
+ */
+export function resolveColumnLayout(
+  columnKeys: string[],
+  config: ColumnConfig = {}
+): ColumnLayout[] {
+  return columnKeys
+    .map((key, index) => ({
+      key,
+      visible: config[key]?.visible ?? true,
+      width: config[key]?.width,
+      order: config[key]?.order ?? columnKeys.length + index,
+    }))
+    .sort((a, b) => a.order - b.order)
+    .map(({ key, visible, width }) => ({ key, visible, width }));
+}
+
+function withLayout(layout: ColumnLayout[]): ColumnConfig {
+  return Object.fromEntries(
+    layout.map((column, order) => [
+      column.key,
+      {
+        visible: column.visible,
+        order,
+        ...(column.width !== undefined ? { width: column.width } : {}),
+      },
+    ])
+  );
+}
+
+/**
+ * Move a column to the position of another one.
+ */
+export function moveColumn(
+  columnKeys: string[],
+  config: ColumnConfig,
+  fromKey: string,
+  toKey: string
+): ColumnConfig {
+  const layout = resolveColumnLayout(columnKeys, config);
+  const from = layout.findIndex((column) => column.key === fromKey);
+  const to = layout.findIndex((column) => column.key === toKey);
+  if (from === -1 || to === -1 || from === to) return config;
+
+  const [moved] = layout.splice(from, 1);
+  if (moved) layout.splice(to, 0, moved);
+  return withLayout(layout);
+}
+
+/**
+ * Set the width of a column, clamped to the allowed range.
+ */
+export function resizeColumn(
+  columnKeys: string[],
+  config: ColumnConfig,
+  key: string,
+  width: number
+): ColumnConfig {
+  const clamped = Math.round(
+    Math.min(MAX_COLUMN_WIDTH, Math.max(MIN_COLUMN_WIDTH, width))
+  );
+  return withLayout(
+    resolveColumnLayout(columnKeys, config).map((column) =>
+      column.key === key ? { ...column, width: clamped } : column
+    )
+  );
+}
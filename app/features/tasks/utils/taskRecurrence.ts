@@ -0,0 +1,85 @@
+/**
+ * Recurring task utilities.
+ * Converts between RecurrenceEditor configs and RRULE strings and previews
+ * the dates of the next instances of a recurring task. Rules are parsed and
+ * expanded with the calendar RRULE utilities; the instances themselves are
+ * generated by the backend.
+ */
+
+import { startOfDay } from "date-fns";
+import type { RecurrenceConfig } from "~/features/calendar/components/RecurrenceEditor";
+import { recurrenceConfigToRRule as configToRule } from "~/features/calendar/utils/recurrence";
+import {
+  expandRRule,
+  parseRRule,
+  serializeRRule,
+} from "~/features/calendar/utils/rrule";
+import type {
+  Task,
+  TaskRecurrenceMode,
+} from "~/features/tasks/types/task.types";
+
+export const DEFAULT_RECURRENCE_MODE: TaskRecurrenceMode = "on_completion";
+
+/**
+ * Build an RRULE string from a RecurrenceEditor config.
+ * Monthly rules keep the day of month of `startDate`.
+ */
+export function recurrenceConfigToRRule(
+  config: RecurrenceConfig | null,
+  startDate?: Date
+): string | null {
+  const rule = configToRule(config);
+  if (!rule) return null;
+
+  return serializeRRule({
+    ...rule,
+    byDay: [...rule.byDay].sort((a, b) => a.day - b.day),
+    byMonthDay:
+      rule.freq === "MONTHLY" && startDate ? [startDate.getDate()] : [],
+  });
+}
+
+/**
+ * Convert an RRULE string back to a RecurrenceEditor config.
+ */
+export function rruleToRecurrenceConfig(
+  rule: string | null | undefined
+): RecurrenceConfig | null {
+  const parsed = parseRRule(rule);
+  if (!parsed) return null;
+
+  return {
+    type: parsed.freq.toLowerCase() as RecurrenceConfig["type"],
+    interval: parsed.interval,
+    daysOfWeek: [...new Set(parsed.byDay.map(({ day }) => day))].sort(
+      (a, b) => a - b
+    ),
+    endDate: parsed.until ? startOfDay(parsed.until) : undefined,
+  };
+}
+
+/**
+ * Date the series is anchored on: due date, or start for scheduled tasks.
+ */
+export function getRecurrenceAnchor(task: Task): Date | null {
+  const value = task.due_date ?? task.start_at;
+  return value ? new Date(value) : null;
+}
+
+/**
+ * The next `count` occurrences of the series after its anchor (or after
+ * `now` for tasks without dates).
+ */
+export function getUpcomingOccurrences(
+  task: Task,
+  count: number,
+  now: Date = new Date()
+): Date[] {
+  if (!task.recurrence_rule) return [];
+  const anchor = getRecurrenceAnchor(task) ?? now;
+  return expandRRule(task.recurrence_rule, anchor, {
+    from: new Date(anchor.getTime() + 1),
+    limit: count,
+  });
+}
@@ -0,0 +1,327 @@
+/**
+ * Task template utilities
+ * Placeholder variables, relative date offsets and the creation plan for
+ * templates that define a whole subtask tree.
+ */
+
+import { addDays, addHours, addWeeks } from "date-fns";
+import { topologicalSort } from "./dependencies";
+import { MAX_SUBTASK_DEPTH } from "./subtasks";
+import type { TaskDependency } from "../hooks/useDependencies";
+import type {
+  ChecklistItem,
+  TaskCreate,
+  TaskTemplate,
+  TaskTemplateNode,
+  TaskTemplateVariable,
+} from "../types/task.types";
+
+/** Key of the root task in a template plan */
+export const ROOT_TEMPLATE_KEY = "__root__";
+
+const VARIABLE_PATTERN = /\{\{\s*([a-zA-Z_]\w*)\s*\}\}/g;
+const OFFSET_PATTERN = /^([+-])?\s*(\d+)\s*([hdw])$/i;
+
+export interface DateOffset {
+  amount: number; // Signed
+  unit: "h" | "d" | "w";
+}
+
+export interface FlatTemplateNode {
+  node: TaskTemplateNode;
+  parentKey: string;
+  depth: number; // 1 for the direct subtasks of the root
+}
+
+export type TemplateIssueType =
+  | "duplicateKey"
+  | "unknownDependency"
+  | "dependencyCycle"
+  | "tooDeep"
+  | "invalidOffset";
+
+export interface TemplateIssue {
+  type: TemplateIssueType;
+  key: string;
+}
+
+export interface TemplateInstantiation {
+  startDate: Date;
+  values?: Record<string, string>; // Variable key -> value
+  roleAssignments?: Record<string, string>; // Role -> user id
+  title?: string; // Overrides the root task title
+}
+
+export interface TemplateTaskPlan {
+  key: string;
+  parentKey: string | null;
+  depth: number;
+  payload: TaskCreate;
+  dependsOn: string[];
+}
+
+/**
+ * Parse a relative offset such as "+2d", "-4h" or "1w".
+ * @returns null if the offset is not valid
+ */
+export function parseDateOffset(offset: string): DateOffset | null {
+  const match = OFFSET_PATTERN.exec(offset.trim());
+  if (!match) return null;
+  const amount = Number(match[2]) * (match[1] === "-" ? -1 : 1);
+  return { amount, unit: match[3]!.toLowerCase() as DateOffset["unit"] };
+}
+
+/**
+ * Shift a date by a relative offset. Empty or invalid offsets leave it as is.
+ */
+export function applyDateOffset(base: Date, offset?: string | null): Date {
+  const parsed = offset ? parseDateOffset(offset) : null;
+  if (!parsed) return base;
+  if (parsed.unit === "h") return addHours(base, parsed.amount);
+  if (parsed.unit === "w") return addWeeks(base, parsed.amount);
+  return addDays(base, parsed.amount);
+}
+
+/**
+ * Every task of the template tree with its parent key, root excluded,
+ * parents always before their subtasks.
+ */
+export function flattenTemplateNodes(
+  nodes: TaskTemplateNode[] = [],
+  parentKey: string = ROOT_TEMPLATE_KEY,
+  depth = 1
+): FlatTemplateNode[] {
+  return nodes.flatMap((node) => [
+    { node, parentKey, depth },
+    ...flattenTemplateNodes(node.subtasks, node.key, depth + 1),
+  ]);
+}
+
+/**
+ * Whether the template creates more than a single task or needs input.
+ */
+export function isTreeTemplate(template: TaskTemplate): boolean {
+  return (
+    (template.subtasks?.length ?? 0) > 0 ||
+    getTemplateVariables(template).length > 0 ||
+    getTemplateRoles(template).length > 0
+  );
+}
+
+function templateTexts(template: TaskTemplate): string[] {
+  const checklistTitles = (items?: ChecklistItem[]) =>
+    (items ?? []).map((item) => item.title);
+
+  return [
+    template.name,
+    template.description,
+    ...checklistTitles(template.checklist_items),
+    ...flattenTemplateNodes(template.subtasks).flatMap(({ node }) => [
+      node.title,
+      node.description ?? "",
+      ...checklistTitles(node.checklist_items),
+    ]),
+  ];
+}
+
+/**
+ * Variables to prompt for: the declared ones plus any {{key}} placeholder
+ * used in the texts without a declaration.
+ */
+export function getTemplateVariables(
+  template: TaskTemplate
+): TaskTemplateVariable[] {
+  const variables = [...(template.variables ?? [])];
+  const known = new Set(variables.map((variable) => variable.key));
+
+  templateTexts(template).forEach((text) => {
+    for (const match of text.matchAll(VARIABLE_PATTERN)) {
+      const key = match[1]!;
+      if (!known.has(key)) {
+        known.add(key);
+        variables.push({ key, label: key, type: "text", required: true });
+      }
+    }
+  });
+
+  return variables;
+}
+
+/**
+ * Replace {{key}} placeholders. Placeholders without a value are kept.
+ */
+export function applyTemplateVariables(
+  text: string,
+  values: Record<string, string> = {}
+): string {
+  return text.replace(VARIABLE_PATTERN, (placeholder, key: string) =>
+    values[key] !== undefined && values[key] !== "" ? values[key] : placeholder
+  );
+}
+
+/**
+ * Keys of required variables that still have no value.
+ */
+export function getMissingVariables(
+  variables: TaskTemplateVariable[],
+  values: Record<string, string>
+): string[] {
+  return variables
+    .filter((variable) => variable.required !== false)
+    .filter((variable) => !values[variable.key]?.trim())
+    .map((variable) => variable.key);
+}
+
+/**
+ * Default assignee roles used by the template, in order of appearance.
+ */
+export function getTemplateRoles(template: TaskTemplate): string[] {
+  const roles = [
+    template.default_role,
+    ...flattenTemplateNodes(template.subtasks).map(
+      ({ node }) => node.default_role
+    ),
+  ].filter((role): role is string => !!role);
+  return Array.from(new Set(roles));
+}
+
+/**
+ * Structural problems that would prevent creating the tree.
+ */
+export function validateTemplate(template: TaskTemplate): TemplateIssue[] {
+  const issues: TemplateIssue[] = [];
+  const flat = flattenTemplateNodes(template.subtasks);
+  const keys = new Set<string>();
+
+  flat.forEach(({ node, depth }) => {
+    if (keys.has(node.key) || node.key === ROOT_TEMPLATE_KEY) {
+      issues.push({ type: "duplicateKey", key: node.key });
+    }
+    keys.add(node.key);
+    if (depth > MAX_SUBTASK_DEPTH) {
+      issues.push({ type: "tooDeep", key: node.key });
+    }
+    [node.start_offset, node.due_offset].forEach((offset) => {
+      if (offset && !parseDateOffset(offset)) {
+        issues.push({ type: "invalidOffset", key: node.key });
+      }
+    });
+  });
+  if (template.due_offset && !parseDateOffset(template.due_offset)) {
+    issues.push({ type: "invalidOffset", key: ROOT_TEMPLATE_KEY });
+  }
+
+  const links: TaskDependency[] = [];
+  flat.forEach(({ node }) => {
+    (node.depends_on ?? []).forEach((dependsOn) => {
+      if (!keys.has(dependsOn)) {
+        issues.push({ type: "unknownDependency", key: node.key });
+        return;
+      }
+      links.push({
+        id: `${node.key}:${dependsOn}`,
+        task_id: node.key,
+        depends_on_id: dependsOn,
+        dependency_type: "finish_to_start",
+        created_at: "",
+      });
+    });
+  });
+  if (topologicalSort(Array.from(keys), links) === null) {
+    issues.push({ type: "dependencyCycle", key: ROOT_TEMPLATE_KEY });
+  }
+
+  return issues;
+}
+
+function buildChecklist(
+  items: ChecklistItem[] | undefined,
+  values: Record<string, string>
+): ChecklistItem[] {
+  return (items ?? []).map((item) => ({
+    ...item,
+    title: applyTemplateVariables(item.title, values),
+    completed: false,
+  }));
+}
+
+/**
+ * Tasks to create for a template, parents before their subtasks. Each task
+ * starts at its parent start plus its start offset; due offsets are also
+ * relative to the parent start. Without its own due offset, the root is due
+ * when its last subtask is.
+ */
+export function buildTemplatePlan(
+  template: TaskTemplate,
+  { startDate, values = {}, roleAssignments = {}, title }: TemplateInstantiation
+): TemplateTaskPlan[] {
+  const assigneeFor = (role?: string | null) =>
+    (role && roleAssignments[role]) || null;
+  const toMinutes = (hours?: number) =>
+    hours !== undefined ? Math.round(hours * 60) : undefined;
+
+  const root: TemplateTaskPlan = {
+    key: ROOT_TEMPLATE_KEY,
+    parentKey: null,
+    depth: 0,
+    dependsOn: [],
+    payload: {
+      title: title?.trim() || applyTemplateVariables(template.name, values),
+      description: applyTemplateVariables(template.description ?? "", values),
+      assigned_to_id: assigneeFor(template.default_role),
+      status: "todo",
+      priority: template.priority ?? "medium",
+      start_at: startDate.toISOString(),
+      due_date: template.due_offset
+        ? applyDateOffset(startDate, template.due_offset).toISOString()
+        : undefined,
+      estimated_duration: toMinutes(template.estimated_hours),
+      checklist: buildChecklist(template.checklist_items, values),
+      template_id: template.id,
+    },
+  };
+
+  const plan: TemplateTaskPlan[] = [root];
+  const visit = (
+    nodes: TaskTemplateNode[] | undefined,
+    parentKey: string,
+    parentStart: Date,
+    depth: number
+  ) => {
+    (nodes ?? []).forEach((node) => {
+      const start = applyDateOffset(parentStart, node.start_offset);
+      plan.push({
+        key: node.key,
+        parentKey,
+        depth,
+        dependsOn: node.depends_on ?? [],
+        payload: {
+          title: applyTemplateVariables(node.title, values),
+          description: applyTemplateVariables(node.description ?? "", values),
+          assigned_to_id: assigneeFor(node.default_role),
+          status: "todo",
+          priority: node.priority ?? root.payload.priority,
+          start_at: start.toISOString(),
+          due_date: node.due_offset
+            ? applyDateOffset(parentStart, node.due_offset).toISOString()
+            : undefined,
+          estimated_duration: toMinutes(node.estimated_hours),
+          checklist: buildChecklist(node.checklist_items, values),
+          template_id: template.id,
+        },
+      });
+      visit(node.subtasks, node.key, start, depth + 1);
+    });
+  };
+  visit(template.subtasks, ROOT_TEMPLATE_KEY, startDate, 1);
+
+  if (!root.payload.due_date) {
+    const dueDates = plan
+      .map((item) => item.payload.due_date)
+      .filter((due): due is string => !!due)
+      .sort();
+    root.payload.due_date = dueDates[dueDates.length - 1];
+  }
+
+  return plan;
+}
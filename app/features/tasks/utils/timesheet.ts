@@ -0,0 +1,174 @@
+/**
+ * Timesheet utilities.
+ * Weekly hour grid (tasks x days), daily limit validation and the payload
+ * used to send a week through the approvals module.
+ */
+
+import { addDays, startOfWeek } from "date-fns";
+import type { ApprovalRequestCreate } from "~/features/approvals/types/approval.types";
+import type {
+  Timesheet,
+  TimesheetEntry,
+  TimesheetStatus,
+} from "../types/task.types";
+import { toDayKey } from "./workload";
+
+/** Maximum hours a user can log on a single day */
+export const DEFAULT_DAILY_LIMIT_HOURS = 12;
+
+/** Entity type used for timesheet approval requests */
+export const TIMESHEET_ENTITY_TYPE = "timesheet";
+
+/** Hours by task id and day key (yyyy-MM-dd) */
+export type TimesheetGrid = Record<string, Record<string, number>>;
+
+export interface TimesheetViolation {
+  date: string;
+  total: number;
+}
+
+const round = (hours: number) => Math.round(hours * 100) / 100;
+
+/**
+ * Monday of the week containing `date`.
+ */
+export function getWeekStart(date: Date): Date {
+  return startOfWeek(date, { weekStartsOn: 1 });
+}
+
+/**
+ * The seven days of the week starting at `weekStart`.
+ */
+export function getWeekDays(weekStart: Date): Date[] {
+  return Array.from({ length: 7 }, (_, index) => addDays(weekStart, index));
+}
+
+/**
+ * Parse a cell value. Accepts decimals with dot or comma ("1.5", "1,5")
+ * and hours:minutes ("1:30"). An empty cell counts as zero.
+ * @returns null when the value is not a valid amount of hours
+ */
+export function parseHoursInput(value: string): number | null {
+  const trimmed = value.trim();
+  if (!trimmed) return 0;
+
+  const clock = /^(\d{1,2}):([0-5]\d)$/.exec(trimmed);
+  if (clock) return round(Number(clock[1]) + Number(clock[2]) / 60);
+
+  if (!/^\d+([.,]\d+)?$/.test(trimmed)) return null;
+  return round(Number(trimmed.replace(",", ".")));
+}
+
+export function entriesToGrid(entries: TimesheetEntry[]): TimesheetGrid {
+  const grid: TimesheetGrid = {};
+  entries.forEach((entry) => {
+    const row = (grid[entry.task_id] ??= {});
+    row[entry.date] = round((row[entry.date] ?? 0) + entry.hours);
+  });
+  return grid;
+}
+
+/**
+ * Flatten the grid into entries, dropping empty cells.
+ */
+export function gridToEntries(grid: TimesheetGrid): TimesheetEntry[] {
+  return Object.entries(grid).flatMap(([taskId, row]) =>
+    Object.entries(row)
+      .filter(([, hours]) => hours > 0)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([date, hours]) => ({ task_id: taskId, date, hours: round(hours) }))
+  );
+}
+
+export function setGridHours(
+  grid: TimesheetGrid,
+  taskId: string,
+  dayKey: string,
+  hours: number
+): TimesheetGrid {
+  return { ...grid, [taskId]: { ...grid[taskId], [dayKey]: hours } };
+}
+
+export function getRowTotal(grid: TimesheetGrid, taskId: string): number {
+  return round(
+    Object.values(grid[taskId] ?? {}).reduce((acc, hours) => acc + hours, 0)
+  );
+}
+
+export function getDayTotals(
+  grid: TimesheetGrid,
+  days: Date[]
+): Record<string, number> {
+  const totals: Record<string, number> = {};
+  days.forEach((day) => {
+    const key = toDayKey(day);
+    totals[key] = round(
+      Object.values(grid).reduce((acc, row) => acc + (row[key] ?? 0), 0)
+    );
+  });
+  return totals;
+}
+
+/**
+ * Days of the week whose total exceeds the daily limit.
+ */
+export function validateTimesheet(
+  grid: TimesheetGrid,
+  days: Date[],
+  dailyLimit: number = DEFAULT_DAILY_LIMIT_HOURS
+): TimesheetViolation[] {
+  return Object.entries(getDayTotals(grid, days))
+    .filter(([, total]) => total > dailyLimit)
+    .map(([date, total]) => ({ date, total }));
+}
+
+/**
+ * Only draft timesheets and those sent back by an approver can be edited.
+ */
+export function isTimesheetEditable(status: TimesheetStatus): boolean {
+  return status === "draft" || status === "rejected";
+}
+
+/**
+ * Effective status of a timesheet, taking the decision of its approval
+ * request into account while the backend has not synced it yet.
+ */
+export function resolveTimesheetStatus(
+  status: TimesheetStatus,
+  approvalStatus?: string | null
+): TimesheetStatus {
+  if (status !== "submitted") return status;
+  if (approvalStatus === "approved") return "approved";
+  if (approvalStatus === "rejected" || approvalStatus === "cancelled") {
+    return "rejected";
+  }
+  return status;
+}
+
+/**
+ * Approval request for a submitted week. The hours are included in the
+ * metadata so approvers and payroll see what was approved.
+ */
+export function buildTimesheetApprovalRequest(
+  timesheet: Timesheet,
+  entries: TimesheetEntry[],
+  flowId: string,
+  title: string
+): ApprovalRequestCreate {
+  const days = getWeekDays(new Date(`${timesheet.week_start}T00:00:00`));
+  const grid = entriesToGrid(entries);
+
+  return {
+    flow_id: flowId,
+    title,
+    entity_type: TIMESHEET_ENTITY_TYPE,
+    entity_id: timesheet.id,
+    metadata: {
+      week_start: timesheet.week_start,
+      user_id: timesheet.user_id,
+      total_hours: round(entries.reduce((acc, entry) => acc + entry.hours, 0)),
+      daily_totals: getDayTotals(grid, days),
+      entries,
+    },
+  };
+}
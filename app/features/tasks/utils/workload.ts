@@ -0,0 +1,146 @@
+/**
+ * Resource workload utilities.
+ * Pure helpers used by the scheduler to compute booked hours per user and day.
+ */
+
+import {
+  addDays,
+  differenceInCalendarDays,
+  eachDayOfInterval,
+  format,
+  startOfDay,
+} from "date-fns";
+import type { Task, TaskUpdate } from "~/features/tasks/types/task.types";
+
+export const DEFAULT_DAILY_CAPACITY_HOURS = 8;
+
+/** Row key used for tasks without any assignee */
+export const UNASSIGNED_ROW_ID = "unassigned";
+
+export type LoadLevel = "none" | "low" | "medium" | "high" | "over";
+
+export interface WorkloadCell {
+  hours: number;
+  tasks: Task[];
+}
+
+/** userId -> day key (yyyy-MM-dd) -> cell */
+export type WorkloadMatrix = Map<string, Map<string, WorkloadCell>>;
+
+const MAX_TIMED_SPAN_HOURS = 24;
+
+export function toDayKey(date: Date): string {
+  return format(date, "yyyy-MM-dd");
+}
+
+/**
+ * Estimated effort of a task in hours.
+ * Uses estimated_duration (minutes) and falls back to the length of a timed
+ * block shorter than a day; multi-day or all-day tasks without an estimate
+ * count as 0.
+ */
+export function getTaskEstimatedHours(task: Task): number {
+  if (task.estimated_duration && task.estimated_duration > 0) {
+    return task.estimated_duration / 60;
+  }
+
+  if (task.start_at && task.end_at && !task.all_day) {
+    const hours =
+      (new Date(task.end_at).getTime() - new Date(task.start_at).getTime()) /
+      3_600_000;
+    if (hours > 0 && hours <= MAX_TIMED_SPAN_HOURS) return hours;
+  }
+
+  return 0;
+}
+
+/**
+ * Calendar days covered by a task: from start_at (or due_date) to
+ * end_at (or due_date), both inclusive.
+ */
+export function getTaskDays(task: Task): Date[] {
+  const startValue = task.start_at ?? task.due_date;
+  if (!startValue) return [];
+  const endValue = task.end_at ?? task.due_date ?? startValue;
+
+  const start = startOfDay(new Date(startValue));
+  const end = startOfDay(new Date(endValue));
+  if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime())) return [];
+  if (end < start) return [start];
+
+  return eachDayOfInterval({ start, end });
+}
+
+/**
+ * Spread every task's hours evenly over the days it covers and accumulate
+ * them per assignee. Only days listed in `days` are kept.
+ */
+export function buildWorkload(
+  tasks: Task[],
+  getAssigneeIds: (task: Task) => string[],
+  days: Date[]
+): WorkloadMatrix {
+  const visibleDays = new Set(days.map(toDayKey));
+  const matrix: WorkloadMatrix = new Map();
+
+  for (const task of tasks) {
+    const taskDays = getTaskDays(task);
+    if (taskDays.length === 0) continue;
+
+    const hoursPerDay = getTaskEstimatedHours(task) / taskDays.length;
+    const assigneeIds = getAssigneeIds(task);
+    const rows = assigneeIds.length > 0 ? assigneeIds : [UNASSIGNED_ROW_ID];
+
+    for (const userId of rows) {
+      const row = matrix.get(userId) ?? new Map<string, WorkloadCell>();
+      for (const day of taskDays) {
+        const key = toDayKey(day);
+        if (!visibleDays.has(key)) continue;
+        const cell = row.get(key) ?? { hours: 0, tasks: [] };
+        cell.hours += hoursPerDay;
+        cell.tasks.push(task);
+        row.set(key, cell);
+      }
+      matrix.set(userId, row);
+    }
+  }
+
+  return matrix;
+}
+
+/**
+ * Classify booked hours against the daily capacity for the heatmap.
+ */
+export function getLoadLevel(hours: number, capacity: number): LoadLevel {
+  if (hours <= 0) return "none";
+  if (capacity <= 0) return "over";
+  const ratio = hours / capacity;
+  if (ratio > 1) return "over";
+  if (ratio >= 0.85) return "high";
+  if (ratio >= 0.5) return "medium";
+  return "low";
+}
+
+/**
+ * Build the update that shifts a task by the days between the cell it was
+ * dragged from and the one it was dropped on, keeping times and duration.
+ * @returns null when the task has no dates or stays on the same day
+ */
+export function buildRescheduleUpdate(
+  task: Task,
+  fromDay: Date,
+  toDay: Date
+): TaskUpdate | null {
+  if (getTaskDays(task).length === 0) return null;
+
+  const delta = differenceInCalendarDays(toDay, fromDay);
+  if (delta === 0) return null;
+
+  const shift = (value: string) =>
+    addDays(new Date(value), delta).toISOString();
+  const update: TaskUpdate = {};
+  if (task.start_at) update.start_at = shift(task.start_at);
+  if (task.end_at) update.end_at = shift(task.end_at);
+  if (task.due_date) update.due_date = shift(task.due_date);
+  return update;
+}
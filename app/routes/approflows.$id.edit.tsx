@@ -1,22 +1,33 @@
 /**
  * Approval Flow Edit Page
- * Page for editing an approval flow and its steps
+ * Page for editing an approval flow and its steps. Changes are saved to a
+ * draft and only reach new requests once published.
  */
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { useParams } from "react-router";
+import { History, Upload } from "lucide-react";
 import { PageLayout } from "~/components/layout/PageLayout";
+import { Badge } from "~/components/ui/badge";
 import { Button } from "~/components/ui/button";
 import { ApprovalFlowForm } from "~/features/approvals/components/ApprovalFlowForm";
 import { FlowEditor } from "~/features/approvals/components/FlowEditor";
+import { FlowPublishDialog } from "~/features/approvals/components/FlowPublishDialog";
+import { FlowVersionHistory } from "~/features/approvals/components/FlowVersionHistory";
 import {
   useApprovalFlow,
-  useUpdateFlowSteps,
+  useDiscardFlowDraft,
+  useFlowVersion,
+  useSaveFlowDraft,
 } from "~/features/approvals/hooks/useApprovals";
 import {
   convertStepsToFlow,
   convertFlowToSteps,
 } from "~/features/approvals/utils/flow-editor.utils";
+import {
+  getVersionGraph,
+  toGraphSnapshot,
+} from "~/features/approvals/utils/flow-version.utils";
 import type { Node, Edge } from "reactflow";
 
 export default function ApprovalFlowEditRoute() {
@@ -28,36 +39,65 @@ export default function ApprovalFlowEditRoute() {
     refetch,
   } = useApprovalFlow(id || "");
 
-  const updateFlowStepsMutation = useUpdateFlowSteps();
+  const saveDraftMutation = useSaveFlowDraft();
+  const discardDraftMutation = useDiscardFlowDraft();
 
   const [nodes, setNodes] = useState<Node[]>([]);
   const [edges, setEdges] = useState<Edge[]>([]);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [publishOpen, setPublishOpen] = useState(false);
 
   const flow = flowResponse?.data;
+  const hasDraft = flow?.draft_version != null;
+
+  // The editor works on the draft; the published version is the diff base
+  const { data: draftResponse, isLoading: draftLoading } = useFlowVersion(
+    id || "",
+    flow?.draft_version
+  );
+  const { data: publishedResponse } = useFlowVersion(
+    id || "",
+    flow?.published_version
+  );
+  const draft = draftResponse?.data;
+  const published = publishedResponse?.data;
 
-  // Load flow steps into editor when flow data is available
+  const publishedGraph = useMemo(
+    () => (published ? getVersionGraph(published) : null),
+    [published]
+  );
+
+  // Load the draft (or the published steps) into editor when available
   useEffect(() => {
-    if (flow?.steps) {
-      const { nodes: convertedNodes, edges: convertedEdges } =
-        convertStepsToFlow(flow.steps);
-      setNodes(convertedNodes);
-      setEdges(convertedEdges);
+    if (hasDraft && !draft) return;
+    const graph = draft
+      ? getVersionGraph(draft)
+      : published
+        ? getVersionGraph(published)
+        : flow?.steps
+          ? convertStepsToFlow(flow.steps)
+          : null;
+    if (graph) {
+      setNodes(graph.nodes);
+      setEdges(graph.edges);
     }
-  }, [flow]);
+  }, [flow, hasDraft, draft, published]);
 
   const handleSave = (savedNodes: Node[], savedEdges: Edge[]) => {
     // Convert editor format to backend format
     const steps = convertFlowToSteps(savedNodes, savedEdges, id || "");
 
-    // Update flow steps
-    updateFlowStepsMutation.mutate(
+    // Save as draft, in-flight requests keep the published version
+    saveDraftMutation.mutate(
       {
         flowId: id || "",
-        steps: steps as unknown as Parameters<typeof updateFlowStepsMutation.mutate>[0]['steps'],
+        data: { steps, graph: toGraphSnapshot(savedNodes, savedEdges) },
       },
       {
         onSuccess: () => {
-          alert("Flujo guardado exitosamente");
+          alert(
+            "Borrador guardado. Publícalo para que lo usen las nuevas solicitudes"
+          );
           void refetch();
         },
         onError: (error) => {
@@ -68,12 +108,28 @@ export default function ApprovalFlowEditRoute() {
     );
   };
 
+  const handleDiscardDraft = () => {
+    if (
+      !confirm(
+        "¿Descartar el borrador? Se perderán los cambios que no se han publicado."
+      )
+    ) {
+      return;
+    }
+    discardDraftMutation.mutate(id || "", {
+      onSuccess: () => void refetch(),
+      onError: () => {
+        alert("Error al descartar el borrador. Por favor intenta nuevamente.");
+      },
+    });
+  };
+
   const handlePreview = () => {
     // TODO: Implement preview logic
     alert("Funcionalidad de previsualización próximamente");
   };
 
-  if (isLoading) {
+  if (isLoading || draftLoading) {
     return (
       <PageLayout title="Cargando..." loading>
         <div className="animate-pulse">
@@ -121,6 +177,52 @@ export default function ApprovalFlowEditRoute() {
         {/* Flow Basic Information */}
         <ApprovalFlowForm flowId={flow.id} />
 
+        {/* Versions */}
+        <div className="flex flex-wrap items-center justify-between gap-4 rounded-lg border bg-white p-4">
+          <div className="flex items-center gap-2 text-sm">
+            {flow.published_version != null ? (
+              <Badge className="bg-green-100 text-green-800">
+                Publicada v{flow.published_version}
+              </Badge>
+            ) : (
+              <Badge variant="outline">Sin publicar</Badge>
+            )}
+            {hasDraft && (
+              <Badge className="bg-amber-100 text-amber-800">
+                Borrador v{flow.draft_version} con cambios sin publicar
+              </Badge>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setHistoryOpen(true)}
+            >
+              <History className="w-4 h-4 mr-2" />
+              Historial
+            </Button>
+            {hasDraft && flow.published_version != null && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleDiscardDraft}
+                disabled={discardDraftMutation.isPending}
+              >
+                Descartar borrador
+              </Button>
+            )}
+            <Button
+              size="sm"
+              onClick={() => setPublishOpen(true)}
+              disabled={!hasDraft}
+            >
+              <Upload className="w-4 h-4 mr-2" />
+              Publicar
+            </Button>
+          </div>
+        </div>
+
         {/* Flow Editor */}
         <div className="h-[800px] border rounded-lg">
           <FlowEditor
@@ -129,9 +231,26 @@ export default function ApprovalFlowEditRoute() {
             onSave={(nodes: Node[], edges: Edge[]) => void handleSave(nodes, edges)}
             onPreview={handlePreview}
             readonly={false}
+            diffBase={hasDraft ? publishedGraph : null}
+            diffLabels={{
+              base: `v${flow.published_version}`,
+              target: "Borrador",
+            }}
           />
         </div>
       </div>
+
+      <FlowVersionHistory
+        open={historyOpen}
+        onOpenChange={setHistoryOpen}
+        flow={flow}
+      />
+      <FlowPublishDialog
+        open={publishOpen}
+        onOpenChange={setPublishOpen}
+        flow={flow}
+        onPublished={() => void refetch()}
+      />
     </PageLayout>
   );
 }
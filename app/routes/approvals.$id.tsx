@@ -1,11 +1,15 @@
+import { useState } from "react";
 import { useParams } from "react-router";
 import { PageLayout } from "~/components/layout/PageLayout";
 import { Button } from "~/components/ui/button";
+import { ApprovalCertificateDialog } from "~/features/approvals/components/ApprovalCertificateDialog";
 import { ApprovalRequestCard } from "~/features/approvals/components/ApprovalRequestCard";
 import { useApprovalRequest } from "~/features/approvals/hooks/useApprovals";
+import { isCertificateAvailable } from "~/features/approvals/utils/approval-print.utils";
 
 export default function ApprovalDetailRoute() {
   const { id } = useParams<{ id: string }>();
+  const [certificateOpen, setCertificateOpen] = useState(false);
   const {
     data: requestResponse,
     isLoading,
@@ -55,7 +59,17 @@ export default function ApprovalDetailRoute() {
           <Button variant="outline" onClick={() => window.history.back()}>
             Volver
           </Button>
-          <Button onClick={() => void refetch()}>Actualizar</Button>
+          <div className="flex gap-2">
+            {request && isCertificateAvailable(request) && (
+              <Button
+                variant="outline"
+                onClick={() => setCertificateOpen(true)}
+              >
+                Certificado
+              </Button>
+            )}
+            <Button onClick={() => void refetch()}>Actualizar</Button>
+          </div>
         </div>
 
         {/* Request Details */}
@@ -75,6 +89,14 @@ export default function ApprovalDetailRoute() {
           />
         )}
 
+        {request && (
+          <ApprovalCertificateDialog
+            open={certificateOpen}
+            onOpenChange={setCertificateOpen}
+            request={request}
+          />
+        )}
+
         {!request && !isLoading && (
           <div className="text-center py-12">
             <p className="text-muted-foreground">No se encontró la solicitud</p>
@@ -9,7 +9,9 @@ import { Badge } from "~/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "~/components/ui/tabs";
 import { ApprovalRequestList } from "~/features/approvals/components/ApprovalRequestList";
 import { ApprovalFlowList } from "~/features/approvals/components/ApprovalFlowList";
+import { ApprovalInbox } from "~/features/approvals/components/ApprovalInbox";
 import { ApprovalStats } from "~/features/approvals/components/ApprovalStats";
+import { ApprovalOutOfOfficePanel } from "~/features/approvals/components/ApprovalOutOfOfficePanel";
 import { useApprovalRequests } from "~/features/approvals/hooks/useApprovals";
 import type { ApprovalRequestResponse } from "~/features/approvals/types/approval.types";
 
@@ -59,10 +61,12 @@ export default function ApprovalsPage() {
 
         {/* Tabs */}
         <Tabs value={activeTab} onValueChange={setActiveTab}>
-          <TabsList className="grid w-full grid-cols-3">
+          <TabsList className="grid w-full grid-cols-5">
             <TabsTrigger value="approvals">Aprobaciones</TabsTrigger>
+            <TabsTrigger value="inbox">Bandeja</TabsTrigger>
             <TabsTrigger value="flows">Flujos</TabsTrigger>
             <TabsTrigger value="stats">Estadísticas</TabsTrigger>
+            <TabsTrigger value="out-of-office">Fuera de Oficina</TabsTrigger>
           </TabsList>
 
           <TabsContent value="approvals" className="mt-6">
@@ -76,6 +80,10 @@ export default function ApprovalsPage() {
             />
           </TabsContent>
 
+          <TabsContent value="inbox" className="mt-6">
+            <ApprovalInbox />
+          </TabsContent>
+
           <TabsContent value="flows" className="mt-6">
             <ApprovalFlowList showPageLayout={false} />
           </TabsContent>
@@ -83,6 +91,10 @@ export default function ApprovalsPage() {
           <TabsContent value="stats" className="mt-6">
             <ApprovalStats requests={requests} />
           </TabsContent>
+
+          <TabsContent value="out-of-office" className="mt-6">
+            <ApprovalOutOfOfficePanel />
+          </TabsContent>
         </Tabs>
       </div>
     </PageLayout>
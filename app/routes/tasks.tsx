@@ -14,8 +14,13 @@ import { TaskCalendar } from "~/features/tasks/components/TaskCalendar";
 import { TaskInbox } from "~/features/tasks/components/TaskInbox";
 import { TaskQuickAdd } from "~/features/tasks/components/TaskQuickAdd";
 import { TaskEdit } from "~/features/tasks/components/TaskEdit";
+import { TemplateQuickAdd } from "~/features/tasks/components/TemplateQuickAdd";
 import { BoardViewWrapper } from "~/features/tasks/components/BoardViewWrapper";
+import { GanttView } from "~/features/tasks/components/GanttView";
+import { SchedulerView } from "~/features/tasks/components/SchedulerView";
+import { TimesheetView } from "~/features/tasks/components/TimesheetView";
 import { TasksStatisticsView } from "~/features/tasks/components/TasksStatisticsView";
+import { TaskKeyboardShortcuts } from "~/features/tasks/components/TaskKeyboardShortcuts";
 import { showToast } from "~/components/common/Toast";
 import {
   useMyTasks,
@@ -23,13 +28,16 @@ import {
   useDeleteTask,
   useTaskModuleSettings,
 } from "~/features/tasks/hooks/useTasks";
+import { useTaskHistory } from "~/features/tasks/hooks/useTaskHistory";
 import type { Task } from "~/features/tasks/types/task.types";
 
 export default function TasksPage() {
   const { t } = useTranslation();
   const [activeTab, setActiveTab] = useState("list");
   const [isQuickAddOpen, setIsQuickAddOpen] = useState(false);
+  const [isTemplateAddOpen, setIsTemplateAddOpen] = useState(false);
   const [editingTask, setEditingTask] = useState<Task | null>(null);
+  const [showShortcutsHelp, setShowShortcutsHelp] = useState(false);
   const { data: settingsData } = useTaskModuleSettings();
   const settings = settingsData?.data;
 
@@ -50,6 +58,21 @@ export default function TasksPage() {
         label: t("tasks.tabs.taskBoard"),
         enabled: settings?.board_enabled ?? true,
       },
+      {
+        value: "gantt",
+        label: t("tasks.tabs.gantt"),
+        enabled: true,
+      },
+      {
+        value: "scheduler",
+        label: t("tasks.tabs.scheduler"),
+        enabled: true,
+      },
+      {
+        value: "timesheet",
+        label: t("tasks.tabs.timesheet"),
+        enabled: true,
+      },
       {
         value: "calendar",
         label: t("tasks.tabs.calendar"),
@@ -91,12 +114,13 @@ export default function TasksPage() {
   // @ts-expect-error - Will be used when task editing is implemented
   const _updateTaskMutation = useUpdateTask();
   const deleteTaskMutation = useDeleteTask();
+  const { undoAction } = useTaskHistory();
 
   const handleDeleteTask = (task: Task) => {
     if (window.confirm(t("tasks.deleteConfirm"))) {
       deleteTaskMutation.mutate(task.id, {
         onSuccess: () => {
-          showToast(t("tasks.deleteSuccess"), "success");
+          showToast(t("tasks.deleteSuccess"), "success", 5000, undoAction);
           void refetch();
         },
       });
@@ -118,6 +142,14 @@ export default function TasksPage() {
         error={error}
       >
         <div className="space-y-6">
+          {/* Keyboard shortcuts, including undo/redo of task changes */}
+          <TaskKeyboardShortcuts
+            onCreateTask={() => setIsQuickAddOpen(true)}
+            onRefresh={() => void refetch()}
+            showHelp={showShortcutsHelp}
+            onHelpClose={() => setShowShortcutsHelp((open) => !open)}
+          />
+
           {/* TaskQuickAdd Modal */}
           <TaskQuickAdd
             open={isQuickAddOpen}
@@ -129,6 +161,12 @@ export default function TasksPage() {
             }}
           />
 
+          <TemplateQuickAdd
+            open={isTemplateAddOpen}
+            onOpenChange={setIsTemplateAddOpen}
+            onSuccess={() => void refetch()}
+          />
+
           <TaskEdit
             task={editingTask}
             open={Boolean(editingTask)}
@@ -180,6 +218,7 @@ export default function TasksPage() {
                     onRefresh={() => void refetch()}
                     onTaskDelete={handleDeleteTask}
                     onTaskCreate={() => setIsQuickAddOpen(true)}
+                    onTemplateCreate={() => setIsTemplateAddOpen(true)}
                   />
                 </CardContent>
               </TabsContent>
@@ -199,6 +238,32 @@ export default function TasksPage() {
               </TabsContent>
             )}
 
+            <TabsContent value="gantt" className="mt-6">
+              {/* Gantt timeline with dependencies */}
+              <CardContent className="space-y-4">
+                <GanttView
+                  tasks={tasks}
+                  loading={loading}
+                  onTaskClick={handleEditTask}
+                  onRefresh={() => void refetch()}
+                />
+              </CardContent>
+            </TabsContent>
+
+            <TabsContent value="scheduler" className="mt-6">
+              {/* Resource capacity planner */}
+              <CardContent className="space-y-4">
+                <SchedulerView onTaskClick={handleEditTask} />
+              </CardContent>
+            </TabsContent>
+
+            <TabsContent value="timesheet" className="mt-6">
+              {/* Weekly timesheet with approval */}
+              <CardContent className="space-y-4">
+                <TimesheetView tasks={tasks} />
+              </CardContent>
+            </TabsContent>
+
             {settings?.calendar_enabled !== false && (
               <TabsContent value="calendar" className="mt-6">
                 {/* Task Calendar */}